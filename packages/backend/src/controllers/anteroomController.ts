@@ -5,6 +5,8 @@ import { VUFSItemModel } from '../models/VUFSItem';
 import { AuthenticatedRequest } from '../utils/auth';
 import { VUFSUtils } from '../utils/vufs';
 import { LocalStorageService } from '../services/localStorageService';
+import { SKUMatchingService } from '../services/skuMatchingService';
+import { ImageEmbeddingService } from '../services/imageEmbeddingService';
 
 // Configure multer for image uploads
 const upload = multer({
@@ -210,7 +212,7 @@ export class AnteroomController {
       }
 
       // Create VUFS item
-      const vufsItem = await VUFSItemModel.create({
+      let vufsItem = await VUFSItemModel.create({
         ownerId: req.user.userId,
         category,
         brand,
@@ -218,6 +220,15 @@ export class AnteroomController {
         condition,
       });
 
+      // Link the catalog SKU the owner confirmed while the item was in the anteroom
+      if (anteroomItem.itemData.skuItemId) {
+        try {
+          vufsItem = await SKUMatchingService.confirmMatch(vufsItem.id, anteroomItem.itemData.skuItemId) || vufsItem;
+        } catch (linkError) {
+          console.warn('Failed to link completed item to SKU:', linkError);
+        }
+      }
+
       // Remove from anteroom
       await AnteroomModel.removeItem(id);
 
@@ -236,6 +247,72 @@ export class AnteroomController {
     }
   }
 
+  /**
+   * Catalog SKUs that may be this item. The owner confirms one by saving its
+   * id as `skuItemId` in the item data; completion then links the new item.
+   */
+  static async getSkuMatches(req: AuthenticatedRequest, res: Response) {
+    try {
+      if (!req.user) {
+        return res.status(401).json({
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        });
+      }
+
+      const anteroomItem = await AnteroomModel.findById(req.params.id);
+      if (!anteroomItem) {
+        return res.status(404).json({
+          error: {
+            code: 'ITEM_NOT_FOUND',
+            message: 'Anteroom item not found',
+          },
+        });
+      }
+
+      if (anteroomItem.ownerId !== req.user.userId) {
+        return res.status(403).json({
+          error: {
+            code: 'FORBIDDEN',
+            message: 'You can only match your own items',
+          },
+        });
+      }
+
+      const images = anteroomItem.images.length > 0 ? anteroomItem.images : anteroomItem.itemData.images || [];
+      const primaryImage = images.find((image: any) => image.isPrimary) || images[0];
+
+      const embeddings: number[][] = [];
+      if (primaryImage?.url) {
+        try {
+          embeddings.push(await ImageEmbeddingService.embed(await ImageEmbeddingService.loadImage(primaryImage.url)));
+        } catch (imageError) {
+          console.warn('Could not embed anteroom image for SKU matching:', imageError);
+        }
+      }
+
+      const matches = await SKUMatchingService.findCandidates({
+        ...SKUMatchingService.signalsFromItemData(anteroomItem.itemData),
+        embeddings,
+      });
+
+      res.json({
+        linkedSkuId: anteroomItem.itemData.skuItemId || null,
+        matches,
+      });
+    } catch (error) {
+      console.error('Get anteroom SKU matches error:', error);
+      res.status(500).json({
+        error: {
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'An error occurred while matching anteroom item',
+        },
+      });
+    }
+  }
+
   static async removeItem(req: AuthenticatedRequest, res: Response) {
     try {
       if (!req.user) {
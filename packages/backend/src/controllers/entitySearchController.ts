@@ -1,9 +1,73 @@
 import { Request, Response } from 'express';
-import { db } from '../database/connection';
 import { AuthenticatedRequest } from '../utils/auth';
+import { SearchService } from '../services/searchService';
+import { SearchEntityType } from '../services/searchIndexService';
+import { ImageEmbeddingService, VisualEntityType, VISUAL_ENTITY_TYPES } from '../services/imageEmbeddingService';
+
+const listParam = (value: unknown): string[] | undefined => {
+    if (typeof value !== 'string' || value.trim() === '') return undefined;
+    return value.split(',').map(part => part.trim()).filter(Boolean);
+};
+
+const priceParam = (value: unknown): number | undefined => {
+    if (value === undefined || value === '') return undefined;
+    const price = Number(value);
+    return Number.isFinite(price) && price >= 0 ? price : undefined;
+};
 
 export class EntitySearchController {
 
+    /**
+     * Unified search across items, SKUs, brands, users, posts and events.
+     * Results are ranked across types; facets describe the whole match set.
+     */
+    static async search(req: AuthenticatedRequest, res: Response): Promise<void> {
+        try {
+            const { q, page = 1, limit = 20 } = req.query;
+
+            const types = listParam(req.query.types);
+            const invalidTypes = (types || []).filter(type => !SearchService.isEntityType(type));
+            if (invalidTypes.length > 0) {
+                res.status(400).json({ error: `Unknown search types: ${invalidTypes.join(', ')}` });
+                return;
+            }
+
+            const query = typeof q === 'string' ? q.trim() : '';
+            const categories = listParam(req.query.category);
+            const brands = listParam(req.query.brand);
+            const colors = listParam(req.query.color);
+            const minPrice = priceParam(req.query.minPrice);
+            const maxPrice = priceParam(req.query.maxPrice);
+
+            // Either a query or at least one facet filter is needed
+            if (query.length < 2 && !categories && !brands && !colors && minPrice === undefined && maxPrice === undefined) {
+                res.json({ results: [], total: 0, page: 1, limit: Number(limit) || 20, facets: null });
+                return;
+            }
+
+            const pageSize = Math.min(Number(limit) || 20, 100);
+            const pageNumber = Math.max(Number(page) || 1, 1);
+
+            const { results, total, facets } = await SearchService.search({
+                query,
+                types: types as SearchEntityType[] | undefined,
+                categories,
+                brands,
+                colors,
+                minPrice,
+                maxPrice,
+                viewerId: req.user?.userId || req.user?.id,
+                limit: pageSize,
+                offset: (pageNumber - 1) * pageSize,
+            });
+
+            res.json({ results, total, page: pageNumber, limit: pageSize, facets });
+        } catch (error) {
+            console.error('Search error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
+
     /**
      * Search for entities (Users, Brands, Stores, etc.)
      * Returns a unified list of entities matching the search query.
@@ -17,83 +81,38 @@ export class EntitySearchController {
                 return;
             }
 
-            const searchTerm = `%${q}%`;
             const maxResults = Math.min(Number(limit) || 20, 50);
-            const results: any[] = [];
-
-            const includeUsers = !types || (types as string).includes('user');
-            const includeBrands = !types || (types as string).includes('brand') || (types as string).includes('store');
-
-            // 1. Search Users
-            if (includeUsers) {
-                const userQuery = `
-          SELECT 
-            id, 
-            username, 
-            profile->>'name' as name, 
-            profile->>'avatarUrl' as image,
-            profile->>'profilePicture' as image_alt,
-            'user' as type
-          FROM users
-          WHERE 
-            (username ILIKE $1 OR profile->>'name' ILIKE $1)
-            AND status = 'active'
-          LIMIT $2
-        `;
-
-                const userRes = await db.query(userQuery, [searchTerm, maxResults]);
-                results.push(...userRes.rows.map(row => ({
-                    id: row.id,
-                    type: 'user',
-                    name: row.name || row.username, // Fallback to username if name missing
-                    username: row.username,
-                    image: row.image || row.image_alt || null
-                })));
-            }
-
-            // 2. Search Brand Accounts (Brands, Stores, Non-Profits)
-            if (includeBrands) {
-                const brandQuery = `
-          SELECT 
-            id, 
-            brand_info->>'name' as name, 
-            brand_info->>'logo' as image,
-            COALESCE(brand_info->>'businessType', 'brand') as business_type
-          FROM brand_accounts
-          WHERE 
-            brand_info->>'name' ILIKE $1
-            AND deleted_at IS NULL
-          LIMIT $2
-        `;
-
-                const brandRes = await db.query(brandQuery, [searchTerm, maxResults]);
-                results.push(...brandRes.rows.map(row => ({
-                    id: row.id,
-                    type: row.business_type === 'store' ? 'store' : (row.business_type === 'non_profit' ? 'organization' : 'brand'),
-                    name: row.name,
-                    image: row.image || null
-                })));
+            const requested = typeof types === 'string' ? types : '';
+            const entityTypes: SearchEntityType[] = [];
+            if (!requested || requested.includes('user')) entityTypes.push('user');
+            if (!requested || requested.includes('brand') || requested.includes('store')) entityTypes.push('brand');
+            if (entityTypes.length === 0) {
+                res.json({ results: [] });
+                return;
             }
 
-            // Sort by best match (exact match first, then starts with, then inclusion)
-            results.sort((a, b) => {
-                const nameA = (a.name || '').toLowerCase();
-                const nameB = (b.name || '').toLowerCase();
-                const queryLower = q.toLowerCase();
-
-                // Exact match priority
-                if (nameA === queryLower && nameB !== queryLower) return -1;
-                if (nameB === queryLower && nameA !== queryLower) return 1;
-
-                // Starts with priority
-                const aStarts = nameA.startsWith(queryLower);
-                const bStarts = nameB.startsWith(queryLower);
-                if (aStarts && !bStarts) return -1;
-                if (bStarts && !aStarts) return 1;
-
-                return 0;
+            const { results: matches } = await SearchService.search({
+                query: q,
+                types: entityTypes,
+                limit: maxResults,
             });
 
+            const results = matches.map(match => match.type === 'user'
+                ? {
+                    id: match.id,
+                    type: 'user',
+                    name: match.title,
+                    username: match.slug,
+                    image: match.imageUrl || null
+                }
+                : {
+                    id: match.id,
+                    // Brand documents keep the business type in the subtitle
+                    type: match.subtitle === 'store' ? 'store' : (match.subtitle === 'non_profit' ? 'organization' : 'brand'),
+                    name: match.title,
+                    image: match.imageUrl || null
+                });
+
             // Slice to absolute limit
             const finalResults = results.slice(0, maxResults);
 
@@ -104,4 +123,68 @@ export class EntitySearchController {
             res.status(500).json({ error: 'Internal server error' });
         }
     }
+
+    /**
+     * Find SKUs, listings and (for signed-in users) wardrobe items that look
+     * like an uploaded photo. Wardrobe matches above the model's duplicate
+     * threshold are flagged as possible duplicate uploads.
+     */
+    static async visualSearch(req: AuthenticatedRequest, res: Response): Promise<void> {
+        try {
+            const file = (req as any).file as Express.Multer.File | undefined;
+            if (!file) {
+                res.status(400).json({ error: 'An image file is required' });
+                return;
+            }
+
+            const viewerId = req.user?.userId || req.user?.id;
+            const requested = listParam(req.query.types) || VISUAL_ENTITY_TYPES;
+            const invalidTypes = requested.filter(type => !VISUAL_ENTITY_TYPES.includes(type as VisualEntityType));
+            if (invalidTypes.length > 0) {
+                res.status(400).json({ error: `Unknown visual search types: ${invalidTypes.join(', ')}` });
+                return;
+            }
+            // Wardrobe items are private, so anonymous searches only cover the catalog and marketplace
+            const types = (requested as VisualEntityType[]).filter(type => type !== 'item' || viewerId);
+            const limit = Math.min(Number(req.query.limit) || 12, 50);
+
+            let embedding: number[];
+            try {
+                embedding = await ImageEmbeddingService.embed(file.buffer);
+            } catch {
+                res.status(400).json({ error: 'The uploaded file could not be read as an image' });
+                return;
+            }
+
+            const matches = await ImageEmbeddingService.findSimilar(embedding, { types, viewerId, limit });
+            const duplicateThreshold = ImageEmbeddingService.getModel().duplicateThreshold;
+
+            res.json({
+                skus: matches.filter(match => match.type === 'sku'),
+                listings: matches.filter(match => match.type === 'listing'),
+                items: matches
+                    .filter(match => match.type === 'item')
+                    .map(match => ({ ...match, possibleDuplicate: match.score >= duplicateThreshold })),
+            });
+        } catch (error) {
+            console.error('Visual search error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
+
+    /**
+     * Pairs of items in the user's wardrobe that were likely uploaded twice
+     */
+    static async wardrobeDuplicates(req: AuthenticatedRequest, res: Response): Promise<void> {
+        try {
+            const userId = req.user!.userId || req.user!.id;
+            const limit = Math.min(Number(req.query.limit) || 50, 200);
+
+            const duplicates = await ImageEmbeddingService.findWardrobeDuplicates(userId, limit);
+            res.json({ duplicates });
+        } catch (error) {
+            console.error('Duplicate detection error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
 }
@@ -0,0 +1,223 @@
+import { Request, Response } from 'express';
+import { AuthenticatedRequest } from '../utils/auth';
+import { BrandAccountModel } from '../models/BrandAccount';
+import { InventoryManagementModel } from '../models/InventoryManagement';
+import { InventoryStockService } from '../services/inventoryStockService';
+import { SKUVersionService } from '../services/skuVersionService';
+
+export class InventoryController {
+    /**
+     * Stock levels of a brand's SKU variants per location
+     */
+    static async getStockLevels(req: AuthenticatedRequest, res: Response): Promise<void> {
+        try {
+            if (!await InventoryController.authorizeBrand(req, res)) return;
+
+            const { skuId, storeId, lowStock } = req.query;
+            const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+            const offset = parseInt(req.query.offset as string) || 0;
+
+            const result = await InventoryStockService.getStockLevels(
+                req.params.brandId,
+                {
+                    skuItemId: skuId as string | undefined,
+                    // storeId=online lists the brand's own stock
+                    storeId: storeId === undefined ? undefined : storeId === 'online' ? null : storeId as string,
+                    lowStock: lowStock === 'true',
+                },
+                limit,
+                offset
+            );
+            res.json({ ...result, limit, offset });
+        } catch (error) {
+            console.error('Get stock levels error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
+
+    /**
+     * Totals and low-stock items across the brand's inventory
+     */
+    static async getInventorySummary(req: AuthenticatedRequest, res: Response): Promise<void> {
+        try {
+            if (!await InventoryController.authorizeBrand(req, res)) return;
+
+            const [summary, lowStock] = await Promise.all([
+                InventoryManagementModel.getInventorySummary(req.params.brandId),
+                InventoryStockService.getStockLevels(req.params.brandId, { lowStock: true }, 50, 0),
+            ]);
+            res.json({ summary, lowStockItems: lowStock.items });
+        } catch (error) {
+            console.error('Get inventory summary error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
+
+    /**
+     * Set the counted stock and reorder settings of a SKU variant at a location
+     */
+    static async setStockLevel(req: AuthenticatedRequest, res: Response): Promise<void> {
+        try {
+            if (!await InventoryController.authorizeBrand(req, res)) return;
+
+            const { skuItemId, storeId, quantity, reorderLevel, reorderQuantity, cost, location, notes } = req.body;
+            if (!skuItemId) {
+                res.status(400).json({ error: 'skuItemId is required' });
+                return;
+            }
+
+            const item = await InventoryStockService.setStockLevel(req.params.brandId, {
+                skuItemId,
+                storeId: storeId || null,
+                quantity: InventoryController.optionalNumber(quantity),
+                reorderLevel: InventoryController.optionalNumber(reorderLevel),
+                reorderQuantity: InventoryController.optionalNumber(reorderQuantity),
+                cost: InventoryController.optionalNumber(cost),
+                location,
+                notes,
+            }, req.user!.userId);
+            res.json({ message: 'Stock level updated', item });
+        } catch (error: any) {
+            if (error?.message?.startsWith('Invalid')) {
+                res.status(400).json({ error: error.message });
+                return;
+            }
+            console.error('Set stock level error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
+
+    /**
+     * Record a sale at one of the brand's stores
+     */
+    static async recordStoreSale(req: AuthenticatedRequest, res: Response): Promise<void> {
+        try {
+            if (!await InventoryController.authorizeBrand(req, res)) return;
+
+            const { reservationId, skuItemId, storeId, quantity, reference } = req.body;
+            const item = await InventoryStockService.recordStoreSale(req.params.brandId, {
+                reservationId,
+                skuItemId,
+                storeId: storeId || null,
+                quantity: InventoryController.optionalNumber(quantity),
+                reference,
+            }, req.user!.userId);
+            res.status(201).json({ message: 'Sale recorded', item });
+        } catch (error: any) {
+            const message: string = error?.message || '';
+            if (message === 'Reservation not found') {
+                res.status(404).json({ error: message });
+                return;
+            }
+            if (message.startsWith('Insufficient stock')) {
+                res.status(409).json({ error: message });
+                return;
+            }
+            if (message.startsWith('Invalid')) {
+                res.status(400).json({ error: message });
+                return;
+            }
+            console.error('Record store sale error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
+
+    /**
+     * Units of a SKU available to buy, per location (public)
+     */
+    static async getAvailability(req: Request, res: Response): Promise<void> {
+        try {
+            const availability = await InventoryStockService.getAvailability(req.params.id);
+            res.json(availability);
+        } catch (error) {
+            console.error('Get stock availability error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
+
+    /**
+     * Hold stock of a SKU while the user checks out
+     */
+    static async reserveStock(req: AuthenticatedRequest, res: Response): Promise<void> {
+        try {
+            if (!req.user) {
+                res.status(401).json({ error: 'Authentication required' });
+                return;
+            }
+
+            const { quantity, storeId, reference } = req.body;
+            const reservation = await InventoryStockService.reserve({
+                skuItemId: req.params.id,
+                quantity: InventoryController.optionalNumber(quantity) ?? 1,
+                storeId: storeId === undefined ? undefined : storeId || null,
+                userId: req.user.userId,
+                reference,
+            });
+            res.status(201).json({ reservation });
+        } catch (error: any) {
+            const message: string = error?.message || '';
+            if (message.startsWith('Insufficient stock')) {
+                res.status(409).json({ error: message });
+                return;
+            }
+            if (message.startsWith('Invalid')) {
+                res.status(400).json({ error: message });
+                return;
+            }
+            console.error('Reserve stock error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
+
+    /**
+     * Release the user's own reservation when they leave checkout
+     */
+    static async releaseReservation(req: AuthenticatedRequest, res: Response): Promise<void> {
+        try {
+            if (!req.user) {
+                res.status(401).json({ error: 'Authentication required' });
+                return;
+            }
+
+            const reservation = await InventoryStockService.releaseReservation(req.params.reservationId, req.user.userId);
+            if (!reservation) {
+                res.status(404).json({ error: 'Reservation not found' });
+                return;
+            }
+            res.json({ message: 'Reservation released', reservation });
+        } catch (error: any) {
+            if (error?.message?.startsWith('Invalid')) {
+                res.status(400).json({ error: error.message });
+                return;
+            }
+            console.error('Release reservation error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
+
+    /**
+     * Respond and return false unless the user manages the brand's catalog
+     */
+    private static async authorizeBrand(req: AuthenticatedRequest, res: Response): Promise<boolean> {
+        if (!req.user) {
+            res.status(401).json({ error: 'Authentication required' });
+            return false;
+        }
+
+        const brand = await BrandAccountModel.findById(req.params.brandId);
+        if (!brand) {
+            res.status(404).json({ error: 'Brand not found' });
+            return false;
+        }
+
+        if (!await SKUVersionService.resolveEditor(brand.id, req.user)) {
+            res.status(403).json({ error: 'You do not have permission to manage this brand\'s inventory' });
+            return false;
+        }
+        return true;
+    }
+
+    private static optionalNumber(value: any): number | undefined {
+        return value === undefined || value === null || value === '' ? undefined : Number(value);
+    }
+}
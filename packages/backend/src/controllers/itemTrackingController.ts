@@ -3,6 +3,25 @@ import { ItemTrackingModel } from '../models/ItemTracking';
 import { VUFSItemModel } from '../models/VUFSItem';
 import { AuthenticatedRequest } from '../utils/auth';
 import { ItemTrackingUtils } from '../utils/itemTracking';
+import { WearAnalyticsService, DEFAULT_DORMANT_DAYS } from '../services/wearAnalyticsService';
+import { LoanLifecycleService } from '../services/loanLifecycleService';
+import { CareLabelService } from '../services/careLabelService';
+
+const sendLoanError = (res: Response, error: any, fallback: string) => {
+  const message: string = error?.message || '';
+  if (message.endsWith('not found')) {
+    return res.status(404).json({ error: { code: 'NOT_FOUND', message } });
+  }
+  if (message.startsWith('You can only')) {
+    return res.status(403).json({ error: { code: 'FORBIDDEN', message } });
+  }
+  if (message.startsWith('Validation failed') || message.includes('required') || message.includes('already') ||
+    message.startsWith('Cannot') || message.startsWith('photos')) {
+    return res.status(400).json({ error: { code: 'VALIDATION_ERROR', message } });
+  }
+  console.error(`${fallback}:`, error);
+  return res.status(500).json({ error: { code: 'INTERNAL_SERVER_ERROR', message: fallback } });
+};
 
 export class ItemTrackingController {
   // Loan Management
@@ -17,49 +36,23 @@ export class ItemTrackingController {
         });
       }
 
-      const { itemId, loaneeId, loaneeName, expectedReturnDate, notes } = req.body;
-
-      // Verify item ownership
-      const item = await VUFSItemModel.findById(itemId);
-      if (!item) {
-        return res.status(404).json({
-          error: {
-            code: 'ITEM_NOT_FOUND',
-            message: 'Item not found',
-          },
-        });
-      }
-
-      if (item.ownerId !== req.user.userId) {
-        return res.status(403).json({
-          error: {
-            code: 'FORBIDDEN',
-            message: 'You can only loan your own items',
-          },
-        });
-      }
+      const { itemId, loaneeId, loaneeName, expectedReturnDate, notes, checkOut } = req.body;
 
-      const loan = await ItemTrackingModel.createLoan({
+      const result = await LoanLifecycleService.createLoan(req.user.userId, {
         itemId,
-        loaneeId,
+        loaneeId: loaneeId || undefined,
         loaneeName,
-        loanDate: new Date(),
         expectedReturnDate: expectedReturnDate ? new Date(expectedReturnDate) : undefined,
         notes,
+        checkOut,
       });
 
       res.status(201).json({
         message: 'Loan created successfully',
-        loan,
+        ...result,
       });
     } catch (error) {
-      console.error('Create loan error:', error);
-      res.status(500).json({
-        error: {
-          code: 'INTERNAL_SERVER_ERROR',
-          message: 'An error occurred while creating the loan',
-        },
-      });
+      sendLoanError(res, error, 'An error occurred while creating the loan');
     }
   }
 
@@ -75,46 +68,88 @@ export class ItemTrackingController {
       }
 
       const { loanId } = req.params;
-      const { returnDate, notes } = req.body;
+      const { returnDate, notes, checkIn } = req.body;
 
-      const loan = await ItemTrackingModel.findLoanById(loanId);
-      if (!loan) {
-        return res.status(404).json({
+      const result = await LoanLifecycleService.returnLoan(loanId, req.user.userId, {
+        returnDate: returnDate ? new Date(returnDate) : undefined,
+        notes,
+        checkIn,
+      });
+
+      res.json({
+        message: 'Item returned successfully',
+        ...result,
+      });
+    } catch (error) {
+      sendLoanError(res, error, 'An error occurred while returning the item');
+    }
+  }
+
+  static async respondToLoan(req: AuthenticatedRequest, res: Response) {
+    try {
+      if (!req.user) {
+        return res.status(401).json({
           error: {
-            code: 'LOAN_NOT_FOUND',
-            message: 'Loan not found',
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
           },
         });
       }
 
-      // Verify item ownership
-      const item = await VUFSItemModel.findById(loan.itemId);
-      if (!item || item.ownerId !== req.user.userId) {
-        return res.status(403).json({
+      const { accept } = req.body;
+      if (typeof accept !== 'boolean') {
+        return res.status(400).json({
           error: {
-            code: 'FORBIDDEN',
-            message: 'You can only manage loans for your own items',
+            code: 'VALIDATION_ERROR',
+            message: 'accept must be true or false',
           },
         });
       }
 
-      const updatedLoan = await ItemTrackingModel.updateLoan(loanId, {
-        actualReturnDate: returnDate ? new Date(returnDate) : new Date(),
-        notes: notes || loan.notes,
-      });
+      const loan = await LoanLifecycleService.respondToLoan(req.params.loanId, req.user.userId, accept);
 
       res.json({
-        message: 'Item returned successfully',
-        loan: updatedLoan,
+        message: accept ? 'Loan confirmed' : 'Loan declined',
+        loan,
       });
     } catch (error) {
-      console.error('Return item error:', error);
-      res.status(500).json({
-        error: {
-          code: 'INTERNAL_SERVER_ERROR',
-          message: 'An error occurred while returning the item',
-        },
-      });
+      sendLoanError(res, error, 'An error occurred while responding to the loan');
+    }
+  }
+
+  static async getLoan(req: AuthenticatedRequest, res: Response) {
+    try {
+      if (!req.user) {
+        return res.status(401).json({
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        });
+      }
+
+      const result = await LoanLifecycleService.getLoanDetails(req.params.loanId, req.user.userId);
+      res.json(result);
+    } catch (error) {
+      sendLoanError(res, error, 'An error occurred while fetching the loan');
+    }
+  }
+
+  static async getItemConditionHistory(req: AuthenticatedRequest, res: Response) {
+    try {
+      if (!req.user) {
+        return res.status(401).json({
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        });
+      }
+
+      const history = await LoanLifecycleService.getConditionHistory(req.params.itemId, req.user.userId);
+      res.json({ history });
+    } catch (error) {
+      sendLoanError(res, error, 'An error occurred while fetching the condition history');
     }
   }
 
@@ -132,7 +167,9 @@ export class ItemTrackingController {
       const { status } = req.query;
 
       let loans;
-      if (status === 'active') {
+      if (req.query.role === 'borrower') {
+        loans = await ItemTrackingModel.getBorrowedLoans(req.user.userId);
+      } else if (status === 'active') {
         loans = await ItemTrackingModel.getActiveLoans(req.user.userId);
       } else if (status === 'overdue') {
         loans = await ItemTrackingModel.getOverdueLoans(req.user.userId);
@@ -452,10 +489,45 @@ export class ItemTrackingController {
     }
   }
 
+  static async getWearAnalytics(req: AuthenticatedRequest, res: Response) {
+    try {
+      if (!req.user) {
+        return res.status(401).json({
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        });
+      }
+
+      const dormantDays = req.query.dormantDays ? parseInt(req.query.dormantDays as string) : DEFAULT_DORMANT_DAYS;
+      if (isNaN(dormantDays) || dormantDays < 1 || dormantDays > 3650) {
+        return res.status(400).json({
+          error: {
+            code: 'INVALID_DORMANT_DAYS',
+            message: 'dormantDays must be between 1 and 3650',
+          },
+        });
+      }
+
+      const analytics = await WearAnalyticsService.getUserWearAnalytics(req.user.userId, dormantDays);
+
+      res.json({ analytics });
+    } catch (error) {
+      console.error('Get wear analytics error:', error);
+      res.status(500).json({
+        error: {
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'An error occurred while computing wear analytics',
+        },
+      });
+    }
+  }
+
   // Care Instructions
   static async generateCareInstructions(req: Request, res: Response) {
     try {
-      const { materials, category } = req.body;
+      const { materials, category, careSymbols } = req.body;
 
       if (!materials || !Array.isArray(materials)) {
         return res.status(400).json({
@@ -480,10 +552,20 @@ export class ItemTrackingController {
 
       const careSchedule = ItemTrackingUtils.generateCareSchedule(materials, category || {});
 
+      // Symbols read off the label take precedence over material defaults
+      const symbols = Array.isArray(careSymbols) ? CareLabelService.resolveSymbols(careSymbols) : [];
+      if (symbols.length > 0) {
+        careSchedule.careInstructions = CareLabelService.instructionsFor(symbols);
+      }
+
       res.json({
         materials,
         category,
         careSchedule,
+        ...(symbols.length > 0 && {
+          careSymbols: symbols,
+          careRules: CareLabelService.buildCareRules(symbols),
+        }),
       });
     } catch (error) {
       console.error('Generate care instructions error:', error);
@@ -5,6 +5,7 @@ import { MessageModel } from '../models/Message';
 import { ConversationModel } from '../models/Conversation';
 import { StorageController } from './storageController';
 import { UserModel } from '../models/User';
+import { MessagingEventService } from '../services/messagingEventService';
 
 const messagingService = new MessagingService();
 
@@ -262,7 +263,7 @@ export class MessagingController {
                 return;
             }
 
-            const message = await MessageModel.edit(messageId, userId, content.trim());
+            const message = await messagingService.editMessage(messageId, userId, content.trim());
 
             if (!message) {
                 res.status(400).json({
@@ -312,6 +313,50 @@ export class MessagingController {
         }
     }
 
+    /**
+     * Broadcast a typing indicator (for clients on the SSE fallback, which cannot send over the stream)
+     */
+    async setTyping(req: AuthenticatedRequest, res: Response): Promise<void> {
+        try {
+            const { conversationId } = req.params;
+            const userId = req.user!.id;
+
+            await messagingService.setTyping(conversationId, userId, req.body.isTyping !== false);
+
+            res.json({
+                success: true,
+            });
+        } catch (error: any) {
+            res.status(error.message.includes('Not authorized') ? 403 : 400).json({
+                error: {
+                    code: 'TYPING_FAILED',
+                    message: error.message,
+                },
+            });
+        }
+    }
+
+    /**
+     * Online status of everyone the user shares a conversation with
+     */
+    async getPresence(req: AuthenticatedRequest, res: Response): Promise<void> {
+        try {
+            const presence = await MessagingEventService.getContactPresence(req.user!.id);
+
+            res.json({
+                success: true,
+                data: { presence },
+            });
+        } catch (error: any) {
+            res.status(500).json({
+                error: {
+                    code: 'GET_PRESENCE_FAILED',
+                    message: error.message,
+                },
+            });
+        }
+    }
+
     /**
      * Get unread message count
      */
@@ -344,7 +389,7 @@ export class MessagingController {
             const userId = req.user!.id;
 
             // Use timed delete (15 min window)
-            const success = await MessageModel.timedDelete(messageId, userId);
+            const success = await messagingService.timedDeleteMessage(messageId, userId);
 
             if (!success) {
                 res.status(400).json({
@@ -391,14 +436,15 @@ export class MessagingController {
                 return;
             }
 
-            const reaction = await MessageModel.addReaction(messageId, userId, emoji);
+            const reaction = await messagingService.addReaction(messageId, userId, emoji);
 
             res.status(201).json({
                 success: true,
                 data: { reaction },
             });
         } catch (error: any) {
-            res.status(500).json({
+            const status = error.message.includes('not found') ? 404 : error.message.includes('Not authorized') ? 403 : 500;
+            res.status(status).json({
                 error: {
                     code: 'ADD_REACTION_FAILED',
                     message: error.message,
@@ -415,7 +461,7 @@ export class MessagingController {
             const { messageId, emoji } = req.params;
             const userId = req.user!.id;
 
-            const success = await MessageModel.removeReaction(messageId, userId, emoji);
+            const success = await messagingService.removeReaction(messageId, userId, emoji);
 
             if (!success) {
                 res.status(404).json({
@@ -432,7 +478,8 @@ export class MessagingController {
                 message: 'Reaction removed',
             });
         } catch (error: any) {
-            res.status(500).json({
+            const status = error.message.includes('not found') ? 404 : error.message.includes('Not authorized') ? 403 : 500;
+            res.status(status).json({
                 error: {
                     code: 'REMOVE_REACTION_FAILED',
                     message: error.message,
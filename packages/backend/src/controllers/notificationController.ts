@@ -1,5 +1,8 @@
 import { Request, Response } from 'express';
 import { NotificationModel } from '../models/Notification';
+import { NotificationService } from '../services/notificationService';
+import { PushNotificationService } from '../services/pushNotificationService';
+import { PushDeviceModel } from '../models/PushDevice';
 
 /**
  * Get user's notifications
@@ -111,3 +114,146 @@ export const deleteNotification = async (req: Request, res: Response) => {
         res.status(500).json({ error: 'Failed to delete notification' });
     }
 };
+
+/**
+ * Get the user's per-channel notification preferences, quiet hours and digest time
+ */
+export const getPreferences = async (req: Request, res: Response) => {
+    try {
+        const userId = req.user?.id;
+        if (!userId) {
+            return res.status(401).json({ error: 'Unauthorized' });
+        }
+
+        const result = await NotificationService.getPreferences(userId);
+        res.json(result);
+    } catch (error) {
+        console.error('Error fetching notification preferences:', error);
+        res.status(500).json({ error: 'Failed to fetch notification preferences' });
+    }
+};
+
+/**
+ * Update notification preferences and quiet hours/digest settings
+ */
+export const updatePreferences = async (req: Request, res: Response) => {
+    try {
+        const userId = req.user?.id;
+        if (!userId) {
+            return res.status(401).json({ error: 'Unauthorized' });
+        }
+
+        const { preferences, quietHoursStart, quietHoursEnd, timezone, digestHour } = req.body;
+        if (preferences !== undefined && !Array.isArray(preferences)) {
+            return res.status(400).json({ error: 'preferences must be an array' });
+        }
+
+        const result = await NotificationService.updatePreferences(userId, {
+            preferences,
+            quietHoursStart,
+            quietHoursEnd,
+            timezone,
+            digestHour,
+        });
+        res.json(result);
+    } catch (error: any) {
+        if (error.message?.startsWith('Invalid')) {
+            return res.status(400).json({ error: error.message });
+        }
+        console.error('Error updating notification preferences:', error);
+        res.status(500).json({ error: 'Failed to update notification preferences' });
+    }
+};
+
+/**
+ * List the user's registered push devices
+ */
+export const getDevices = async (req: Request, res: Response) => {
+    try {
+        const userId = req.user?.id;
+        if (!userId) {
+            return res.status(401).json({ error: 'Unauthorized' });
+        }
+
+        const devices = await PushDeviceModel.findByUserId(userId);
+        res.json({ devices });
+    } catch (error) {
+        console.error('Error fetching push devices:', error);
+        res.status(500).json({ error: 'Failed to fetch push devices' });
+    }
+};
+
+/**
+ * Register an Expo, FCM or APNs token for push notifications
+ */
+export const registerDevice = async (req: Request, res: Response) => {
+    try {
+        const userId = req.user?.id;
+        if (!userId) {
+            return res.status(401).json({ error: 'Unauthorized' });
+        }
+
+        const { token, provider, platform, sessionId, deviceName, appVersion } = req.body;
+        const device = await PushNotificationService.registerDevice({
+            userId,
+            token,
+            provider,
+            platform,
+            sessionId,
+            deviceName,
+            appVersion,
+        });
+        res.status(201).json({ device });
+    } catch (error: any) {
+        if (error.message?.startsWith('Invalid')) {
+            return res.status(400).json({ error: error.message });
+        }
+        console.error('Error registering push device:', error);
+        res.status(500).json({ error: 'Failed to register push device' });
+    }
+};
+
+/**
+ * Stop sending push notifications to a token
+ */
+export const unregisterDevice = async (req: Request, res: Response) => {
+    try {
+        const userId = req.user?.id;
+        if (!userId) {
+            return res.status(401).json({ error: 'Unauthorized' });
+        }
+
+        const { token } = req.body;
+        if (!token) {
+            return res.status(400).json({ error: 'token is required' });
+        }
+
+        const success = await PushDeviceModel.unregister(userId, token);
+        if (!success) {
+            return res.status(404).json({ error: 'Device not found' });
+        }
+
+        res.json({ success: true });
+    } catch (error) {
+        console.error('Error unregistering push device:', error);
+        res.status(500).json({ error: 'Failed to unregister push device' });
+    }
+};
+
+/**
+ * Unregister every token from one session, e.g. when signing out on a device
+ */
+export const unregisterSessionDevices = async (req: Request, res: Response) => {
+    try {
+        const userId = req.user?.id;
+        if (!userId) {
+            return res.status(401).json({ error: 'Unauthorized' });
+        }
+
+        const count = await PushDeviceModel.unregisterSession(userId, req.params.sessionId);
+        res.json({ success: true, count });
+    } catch (error) {
+        console.error('Error unregistering session push devices:', error);
+        res.status(500).json({ error: 'Failed to unregister push devices' });
+    }
+};
@@ -0,0 +1,133 @@
+import { Response } from 'express';
+import { AuthenticatedRequest } from '../utils/auth';
+import { OutfitCalendarService, DEFAULT_REPEAT_WINDOW_DAYS } from '../services/outfitCalendarService';
+
+const parseWindowDays = (value: unknown): number | null => {
+    if (value === undefined) return DEFAULT_REPEAT_WINDOW_DAYS;
+    const days = parseInt(value as string);
+    return isNaN(days) || days < 0 || days > 365 ? null : days;
+};
+
+const sendCalendarError = (res: Response, error: any, fallback: string): void => {
+    const message: string = error?.message || '';
+    if (message.includes('not found')) {
+        res.status(404).json({ error: { code: 'NOT_FOUND', message } });
+        return;
+    }
+    if (message.includes('required') || message.includes('format') || message.startsWith('Cannot') ||
+        message.includes('already') || message.includes('cannot be changed')) {
+        res.status(400).json({ error: { code: 'VALIDATION_ERROR', message } });
+        return;
+    }
+    console.error(`${fallback}:`, error);
+    res.status(500).json({ error: { code: 'INTERNAL_SERVER_ERROR', message: fallback } });
+};
+
+export class OutfitCalendarController {
+
+    static async getCalendar(req: AuthenticatedRequest, res: Response): Promise<void> {
+        try {
+            if (!req.user) {
+                res.status(401).json({ error: { code: 'UNAUTHORIZED', message: 'Authentication required' } });
+                return;
+            }
+
+            const { from, to } = req.query;
+            if (!from || !to) {
+                res.status(400).json({ error: { code: 'VALIDATION_ERROR', message: 'from and to are required' } });
+                return;
+            }
+
+            const entries = await OutfitCalendarService.getCalendar(req.user.userId, from as string, to as string);
+            res.json(entries);
+        } catch (error) {
+            sendCalendarError(res, error, 'Failed to fetch outfit calendar');
+        }
+    }
+
+    static async schedule(req: AuthenticatedRequest, res: Response): Promise<void> {
+        try {
+            if (!req.user) {
+                res.status(401).json({ error: { code: 'UNAUTHORIZED', message: 'Authentication required' } });
+                return;
+            }
+
+            const windowDays = parseWindowDays(req.query.repeatWindowDays);
+            if (windowDays === null) {
+                res.status(400).json({ error: { code: 'VALIDATION_ERROR', message: 'repeatWindowDays must be between 0 and 365' } });
+                return;
+            }
+
+            const { outfitId, plannedDate, calendarEventId, homiesListId, people, notes } = req.body;
+            const result = await OutfitCalendarService.schedule(req.user.userId, {
+                outfitId,
+                plannedDate,
+                calendarEventId,
+                homiesListId,
+                people: Array.isArray(people) ? people : undefined,
+                notes
+            }, windowDays);
+
+            res.status(201).json(result);
+        } catch (error) {
+            sendCalendarError(res, error, 'Failed to schedule outfit');
+        }
+    }
+
+    static async reschedule(req: AuthenticatedRequest, res: Response): Promise<void> {
+        try {
+            if (!req.user) {
+                res.status(401).json({ error: { code: 'UNAUTHORIZED', message: 'Authentication required' } });
+                return;
+            }
+
+            const windowDays = parseWindowDays(req.query.repeatWindowDays);
+            if (windowDays === null) {
+                res.status(400).json({ error: { code: 'VALIDATION_ERROR', message: 'repeatWindowDays must be between 0 and 365' } });
+                return;
+            }
+
+            const { outfitId, plannedDate, calendarEventId, homiesListId, people, notes } = req.body;
+            const result = await OutfitCalendarService.reschedule(req.params.entryId, req.user.userId, {
+                outfitId,
+                plannedDate,
+                calendarEventId,
+                homiesListId,
+                people: Array.isArray(people) ? people : undefined,
+                notes
+            }, windowDays);
+
+            res.json(result);
+        } catch (error) {
+            sendCalendarError(res, error, 'Failed to update calendar entry');
+        }
+    }
+
+    static async markWorn(req: AuthenticatedRequest, res: Response): Promise<void> {
+        try {
+            if (!req.user) {
+                res.status(401).json({ error: { code: 'UNAUTHORIZED', message: 'Authentication required' } });
+                return;
+            }
+
+            const result = await OutfitCalendarService.markWorn(req.params.entryId, req.user.userId);
+            res.json(result);
+        } catch (error) {
+            sendCalendarError(res, error, 'Failed to mark outfit as worn');
+        }
+    }
+
+    static async remove(req: AuthenticatedRequest, res: Response): Promise<void> {
+        try {
+            if (!req.user) {
+                res.status(401).json({ error: { code: 'UNAUTHORIZED', message: 'Authentication required' } });
+                return;
+            }
+
+            await OutfitCalendarService.remove(req.params.entryId, req.user.userId);
+            res.json({ success: true });
+        } catch (error) {
+            sendCalendarError(res, error, 'Failed to delete calendar entry');
+        }
+    }
+}
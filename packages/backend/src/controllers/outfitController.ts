@@ -2,6 +2,9 @@
 import { Request, Response } from 'express';
 import { OutfitModel } from '../models/OutfitModel';
 import { AuthenticatedRequest } from '../utils/auth';
+import { OutfitGeneratorService, OutfitOccasion } from '../services/outfitGeneratorService';
+
+const OCCASIONS: OutfitOccasion[] = ['casual', 'work', 'formal', 'sport', 'night_out'];
 
 export class OutfitController {
 
@@ -33,6 +36,61 @@ export class OutfitController {
         }
     }
 
+    static async generate(req: AuthenticatedRequest, res: Response): Promise<void> {
+        try {
+            if (!req.user) {
+                res.status(401).json({ error: { code: 'UNAUTHORIZED', message: 'Authentication required' } });
+                return;
+            }
+
+            const { occasion, temperature, includeItemIds, excludeItemIds, notWornInDays, count } = req.body;
+
+            if (occasion !== undefined && !OCCASIONS.includes(occasion)) {
+                res.status(400).json({ error: { code: 'VALIDATION_ERROR', message: `occasion must be one of: ${OCCASIONS.join(', ')}` } });
+                return;
+            }
+
+            if (temperature !== undefined && (
+                typeof temperature !== 'object' ||
+                typeof temperature.min !== 'number' ||
+                typeof temperature.max !== 'number' ||
+                temperature.min > temperature.max
+            )) {
+                res.status(400).json({ error: { code: 'VALIDATION_ERROR', message: 'temperature must be { min, max } in °C with min <= max' } });
+                return;
+            }
+
+            if ((includeItemIds !== undefined && !Array.isArray(includeItemIds)) ||
+                (excludeItemIds !== undefined && !Array.isArray(excludeItemIds))) {
+                res.status(400).json({ error: { code: 'VALIDATION_ERROR', message: 'includeItemIds and excludeItemIds must be arrays' } });
+                return;
+            }
+
+            if (notWornInDays !== undefined && (!Number.isInteger(notWornInDays) || notWornInDays < 0)) {
+                res.status(400).json({ error: { code: 'VALIDATION_ERROR', message: 'notWornInDays must be a positive integer' } });
+                return;
+            }
+
+            const suggestions = await OutfitGeneratorService.generateForUser(req.user.userId, {
+                occasion,
+                temperature,
+                includeItemIds,
+                excludeItemIds,
+                notWornInDays,
+                count: count !== undefined ? parseInt(count) || undefined : undefined
+            });
+
+            res.json({ suggestions });
+        } catch (error: any) {
+            if (error?.message?.startsWith('Items not found') || error?.message?.startsWith('Included items')) {
+                res.status(400).json({ error: { code: 'VALIDATION_ERROR', message: error.message } });
+                return;
+            }
+            console.error('Generate outfits error:', error);
+            res.status(500).json({ error: { code: 'INTERNAL_SERVER_ERROR', message: 'Failed to generate outfits' } });
+        }
+    }
+
     static async getAll(req: AuthenticatedRequest, res: Response): Promise<void> {
         try {
             if (!req.user) {
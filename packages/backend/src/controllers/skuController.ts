@@ -3,6 +3,11 @@ import { db } from '../database/connection';
 import { SKUItemModel } from '../models/SKUItem';
 import { AuthenticatedRequest } from '../utils/auth';
 import { BrandAccountModel } from '../models/BrandAccount';
+import { SearchService } from '../services/searchService';
+import { ImageEmbeddingService } from '../services/imageEmbeddingService';
+import { FitRecommendationService } from '../services/fitRecommendationService';
+import { SKUImportService } from '../services/skuImportService';
+import { SKUVersionService } from '../services/skuVersionService';
 
 export class SKUController {
     /**
@@ -101,6 +106,97 @@ export class SKUController {
         }
     }
 
+    /**
+     * Bulk import SKUs from a CSV, XLSX or JSON file (or JSON `rows`).
+     * With `dryRun=true` only the validation report is returned.
+     */
+    static async importSKUs(req: AuthenticatedRequest, res: Response): Promise<void> {
+        try {
+            if (!req.user) {
+                res.status(401).json({ error: 'Authentication required' });
+                return;
+            }
+
+            const { brandId } = req.params;
+            const brand = await BrandAccountModel.findById(brandId);
+            if (!brand) {
+                res.status(404).json({ error: 'Brand not found' });
+                return;
+            }
+
+            const isAdmin = req.user.roles && req.user.roles.includes('admin');
+            if (!isAdmin && brand.userId !== req.user.userId) {
+                res.status(403).json({ error: 'You do not have permission to manage this brand' });
+                return;
+            }
+
+            const dryRun = String(req.query.dryRun ?? req.body?.dryRun ?? 'false') === 'true';
+            const file = req.file;
+            const report = await SKUImportService.import(
+                brand.id,
+                req.user.userId,
+                file
+                    ? { buffer: file.buffer, filename: file.originalname, mimetype: file.mimetype }
+                    : { rows: Array.isArray(req.body?.rows) ? req.body.rows : undefined },
+                dryRun
+            );
+
+            if (dryRun) {
+                res.json({ report });
+            } else if (!report.committed) {
+                res.status(422).json({ error: 'Import has validation errors; nothing was created', report });
+            } else {
+                res.status(201).json({ message: 'SKUs imported successfully', report });
+            }
+        } catch (error: any) {
+            if (error?.message?.startsWith('Invalid')) {
+                res.status(400).json({ error: error.message });
+                return;
+            }
+            console.error('Import SKUs error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
+
+    /**
+     * Export a brand's full catalog in the import format (csv, xlsx or json)
+     */
+    static async exportSKUs(req: AuthenticatedRequest, res: Response): Promise<void> {
+        try {
+            if (!req.user) {
+                res.status(401).json({ error: 'Authentication required' });
+                return;
+            }
+
+            const { brandId } = req.params;
+            const format = (req.query.format as string) || 'csv';
+            SKUImportService.assertFormat(format);
+
+            const brand = await BrandAccountModel.findById(brandId);
+            if (!brand) {
+                res.status(404).json({ error: 'Brand not found' });
+                return;
+            }
+
+            const isAdmin = req.user.roles && req.user.roles.includes('admin');
+            if (!isAdmin && brand.userId !== req.user.userId) {
+                res.status(403).json({ error: 'You do not have permission to manage this brand' });
+                return;
+            }
+
+            const { filename, contentType, body } = await SKUImportService.export(brand.id, format);
+            res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+            res.type(contentType).send(body);
+        } catch (error: any) {
+            if (error?.message?.startsWith('Invalid')) {
+                res.status(400).json({ error: error.message });
+                return;
+            }
+            console.error('Export SKUs error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
+
     /**
      * Get all SKUs for a brand with optional filtering and variant grouping
      */
@@ -581,15 +677,14 @@ export class SKUController {
                 return;
             }
 
-            // Verify brand ownership or admin
-            const isAdmin = req.user.roles && req.user.roles.includes('admin');
-            const brand = await BrandAccountModel.findById(currentSku.brandId);
-            if (!isAdmin && brand?.userId !== req.user.userId) {
+            // Admins, the brand owner and brand team editors
+            const editor = await SKUVersionService.resolveEditor(currentSku.brandId, req.user);
+            if (!editor) {
                 res.status(403).json({ error: 'You do not have permission to update this SKU' });
                 return;
             }
 
-            const updatedSku = await SKUItemModel.update(id, updateData);
+            const updatedSku = await SKUItemModel.update(id, updateData, editor);
             res.json({ message: 'SKU updated successfully', sku: updatedSku });
         } catch (error) {
             console.error('Update SKU error:', error);
@@ -597,6 +692,126 @@ export class SKUController {
         }
     }
 
+    /**
+     * Version history of a SKU with field-level diffs, for brand editors
+     */
+    static async getSKUVersions(req: AuthenticatedRequest, res: Response): Promise<void> {
+        try {
+            if (!req.user) {
+                res.status(401).json({ error: 'Authentication required' });
+                return;
+            }
+
+            const sku = await SKUItemModel.findById(req.params.id);
+            if (!sku) {
+                res.status(404).json({ error: 'SKU not found' });
+                return;
+            }
+            if (!await SKUVersionService.resolveEditor(sku.brandId, req.user)) {
+                res.status(403).json({ error: 'You do not have permission to view this SKU\'s history' });
+                return;
+            }
+
+            const limit = Math.min(Number(req.query.limit) || 50, 200);
+            const offset = Math.max(Number(req.query.offset) || 0, 0);
+            const { versions, total } = await SKUVersionService.getHistory(sku.id, limit, offset);
+            res.json({ versions, total });
+        } catch (error) {
+            console.error('Get SKU versions error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
+
+    /**
+     * A single version with the full snapshot of the SKU at that point
+     */
+    static async getSKUVersion(req: AuthenticatedRequest, res: Response): Promise<void> {
+        try {
+            if (!req.user) {
+                res.status(401).json({ error: 'Authentication required' });
+                return;
+            }
+
+            const sku = await SKUItemModel.findById(req.params.id);
+            if (!sku) {
+                res.status(404).json({ error: 'SKU not found' });
+                return;
+            }
+            if (!await SKUVersionService.resolveEditor(sku.brandId, req.user)) {
+                res.status(403).json({ error: 'You do not have permission to view this SKU\'s history' });
+                return;
+            }
+
+            const version = await SKUVersionService.getVersion(sku.id, Number(req.params.version));
+            if (!version) {
+                res.status(404).json({ error: 'Version not found' });
+                return;
+            }
+            res.json({ version });
+        } catch (error: any) {
+            if (error?.message?.startsWith('Invalid')) {
+                res.status(400).json({ error: error.message });
+                return;
+            }
+            console.error('Get SKU version error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
+
+    /**
+     * Roll a SKU back to a previous version
+     */
+    static async rollbackSKU(req: AuthenticatedRequest, res: Response): Promise<void> {
+        try {
+            if (!req.user) {
+                res.status(401).json({ error: 'Authentication required' });
+                return;
+            }
+
+            const sku = await SKUItemModel.findById(req.params.id);
+            if (!sku) {
+                res.status(404).json({ error: 'SKU not found' });
+                return;
+            }
+            const editor = await SKUVersionService.resolveEditor(sku.brandId, req.user);
+            if (!editor) {
+                res.status(403).json({ error: 'You do not have permission to update this SKU' });
+                return;
+            }
+
+            const updatedSku = await SKUVersionService.rollback(sku.id, Number(req.params.version), editor);
+            if (!updatedSku) {
+                res.status(404).json({ error: 'Version not found' });
+                return;
+            }
+            res.json({ message: `SKU rolled back to version ${req.params.version}`, sku: updatedSku });
+        } catch (error: any) {
+            if (error?.message?.startsWith('Invalid')) {
+                res.status(400).json({ error: error.message });
+                return;
+            }
+            console.error('Rollback SKU error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
+
+    /**
+     * Public "last updated" changelog of a SKU
+     */
+    static async getSKUChangelog(req: Request, res: Response): Promise<void> {
+        try {
+            const changelog = await SKUVersionService.getChangelog(req.params.id);
+            if (!changelog) {
+                res.status(404).json({ error: 'SKU not found' });
+                return;
+            }
+            res.json(changelog);
+        } catch (error) {
+            console.error('Get SKU changelog error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
+
     /**
      * Delete a SKU (soft delete)
      */
@@ -631,13 +846,44 @@ export class SKUController {
         }
     }
 
+    /**
+     * Recommended size for the current user, from their body measurements or
+     * a wardrobe item passed as `referenceItemId`
+     */
+    static async getFitRecommendation(req: AuthenticatedRequest, res: Response): Promise<void> {
+        try {
+            if (!req.user) {
+                res.status(401).json({ error: 'Unauthorized' });
+                return;
+            }
+
+            const referenceItemId = typeof req.query.referenceItemId === 'string' && req.query.referenceItemId
+                ? req.query.referenceItemId
+                : undefined;
+            const recommendation = await FitRecommendationService.recommendForSku(req.params.id, req.user.userId, referenceItemId);
+            if (!recommendation) {
+                res.status(404).json({ error: 'SKU not found' });
+                return;
+            }
+
+            res.json({ fit: recommendation });
+        } catch (error: any) {
+            if (error?.message?.startsWith('Invalid')) {
+                res.status(400).json({ error: error.message });
+                return;
+            }
+            console.error('Fit recommendation error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
+
     /**
      * Get related SKUs (by collection or brand)
      */
     static async getRelatedSKUs(req: Request, res: Response) {
         try {
             const { id } = req.params;
-            const { type, limit = 8 } = req.query; // type: 'collection' | 'brand'
+            const { type, limit = 8 } = req.query; // type: 'collection' | 'brand' | 'visual'
 
             const sku = await SKUItemModel.findById(id);
             if (!sku) {
@@ -660,6 +906,19 @@ export class SKUController {
                     excludeCollection: sku.collection,
                     limit: Number(limit)
                 });
+            } else if (type === 'visual') {
+                // SKUs from any brand whose photos look like this one's
+                const scores = new Map<string, number>();
+                for (const embedding of await ImageEmbeddingService.getEmbeddings('sku', sku.id)) {
+                    const matches = await ImageEmbeddingService.findSimilar(embedding, {
+                        types: ['sku'],
+                        limit: Number(limit),
+                        exclude: { type: 'sku', id: sku.id },
+                    });
+                    matches.forEach(match => scores.set(match.id, Math.max(scores.get(match.id) || 0, match.score)));
+                }
+                const ids = [...scores.entries()].sort((a, b) => b[1] - a[1]).slice(0, Number(limit)).map(([id]) => id);
+                related = (await Promise.all(ids.map(id => SKUItemModel.findById(id)))).filter(Boolean);
             }
 
             res.json(related);
@@ -703,6 +962,11 @@ export class SKUController {
             const filterParents = parentsOnly === 'true';
             const offset = (Number(page) - 1) * Number(limit);
 
+            // Name, code, brand and line matching goes through the search index,
+            // which also ranks the results. It is joined so the filters below
+            // apply before the limit.
+            const match = searchTerm.trim() ? SearchService.buildMatchQuery('sku', searchTerm, 1) : null;
+
             // Fetch all matching SKUs
             let query = `
                 SELECT 
@@ -724,6 +988,7 @@ export class SKUController {
                     bc.name as collection_name,
                     bc.cover_image_url as collection_cover_image
                 FROM sku_items si
+                ${match ? `JOIN (${match.sql}) search_match ON search_match.entity_id = si.id` : ''}
                 JOIN brand_accounts ba ON si.brand_id = ba.id
                 LEFT JOIN brand_lines bl ON 
                     (si.line_id IS NOT NULL AND si.line_id = bl.id)
@@ -752,8 +1017,8 @@ export class SKUController {
                 WHERE si.deleted_at IS NULL
             `;
 
-            const values: any[] = [];
-            let paramIndex = 1;
+            const values: any[] = match ? [...match.values] : [];
+            let paramIndex = values.length + 1;
 
             // Multi-value filter support using PostgreSQL ANY()
             if (brandId) {
@@ -861,16 +1126,11 @@ export class SKUController {
                 values.push(subcategory3Ids);
             }
 
-            // Search logic: Match SKU name, Code, Brand Name, or Line Name
-            query += ` AND (
-                si.name ILIKE $${paramIndex} OR 
-                si.code ILIKE $${paramIndex} OR 
-                (ba.brand_info->>'name') ILIKE $${paramIndex} OR 
-                bl.name ILIKE $${paramIndex}
-            )`;
-            values.push(`%${searchTerm}%`);
-
-            query += ` ORDER BY si.created_at DESC LIMIT 100`;
+            if (match) {
+                query += ` ORDER BY search_match.score DESC LIMIT 100`;
+            } else {
+                query += ` ORDER BY si.created_at DESC LIMIT 100`;
+            }
 
             const result = await db.query(query, values);
             let allSkus = result.rows;
@@ -1,6 +1,7 @@
 import { Request, Response } from 'express';
 import path from 'path';
 import { LocalStorageService } from '../services/localStorageService';
+import { ImageTransformService } from '../services/imageTransformService';
 import { AuthenticatedRequest } from '../utils/auth';
 import multer from 'multer';
 
@@ -202,6 +203,110 @@ export class StorageController {
       });
     }
   }
+
+  /**
+   * Serve a resized/re-encoded derivative of a stored image from a signed URL
+   */
+  static async transformImage(req: Request, res: Response): Promise<void> {
+    try {
+      const sourcePath = req.params[0];
+      const params = ImageTransformService.parseParams(req.query);
+
+      if (!ImageTransformService.verify(sourcePath, params, Number(req.query.exp), req.query.sig as string)) {
+        res.status(403).json({
+          error: {
+            code: 'INVALID_SIGNATURE',
+            message: 'Image URL signature is invalid or expired',
+          },
+        });
+        return;
+      }
+
+      const derivative = await ImageTransformService.getDerivative(sourcePath, params, req.headers.accept);
+
+      res.setHeader('ETag', derivative.etag);
+      res.setHeader('Cache-Control', 'public, max-age=86400, stale-while-revalidate=604800');
+      res.setHeader('Vary', 'Accept');
+      if (req.headers['if-none-match'] === derivative.etag) {
+        res.status(304).end();
+        return;
+      }
+
+      res.setHeader('Content-Type', derivative.contentType);
+      res.send(derivative.buffer);
+    } catch (error: any) {
+      if (error.message?.startsWith('Invalid')) {
+        res.status(400).json({
+          error: {
+            code: 'INVALID_TRANSFORM',
+            message: error.message,
+          },
+        });
+        return;
+      }
+      if (error.message === 'Image not found') {
+        res.status(404).json({
+          error: {
+            code: 'FILE_NOT_FOUND',
+            message: 'File not found',
+          },
+        });
+        return;
+      }
+      console.error('Transform image error:', error);
+      res.status(500).json({
+        error: {
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'An error occurred while transforming the image',
+        },
+      });
+    }
+  }
+
+  /**
+   * Issue signed transform URLs for stored images (mockups, design files, etc.)
+   */
+  static async signTransformUrls(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { images, width, height, fit, format, quality } = req.body;
+
+      if (!Array.isArray(images) || images.length === 0 || images.length > 100) {
+        res.status(400).json({
+          error: {
+            code: 'INVALID_INPUT',
+            message: 'images must be an array of 1 to 100 image URLs',
+          },
+        });
+        return;
+      }
+
+      const params = ImageTransformService.parseParams({ w: width, h: height, fit, fm: format, q: quality });
+      const urls = images.map((image: string) => ({
+        image,
+        url: ImageTransformService.signedUrl(image, params),
+        srcSet: width || height ? undefined : ImageTransformService.srcSet(image),
+      }));
+
+      res.json({ urls });
+    } catch (error: any) {
+      if (error.message?.startsWith('Invalid')) {
+        res.status(400).json({
+          error: {
+            code: 'INVALID_TRANSFORM',
+            message: error.message,
+          },
+        });
+        return;
+      }
+      console.error('Sign transform URLs error:', error);
+      res.status(500).json({
+        error: {
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'An error occurred while signing image URLs',
+        },
+      });
+    }
+  }
 }
 
 /**
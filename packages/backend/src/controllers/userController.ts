@@ -1,6 +1,6 @@
 import { Request, Response } from 'express';
 import { UserModel } from '../models/User';
-import { NotificationModel } from '../models/Notification';
+import { NotificationService } from '../services/notificationService';
 import { AuthenticatedRequest } from '../utils/auth';
 import { AddressUtils, BrazilianAddress } from '../utils/address';
 import { MeasurementUtils } from '../utils/measurements';
@@ -1516,7 +1516,7 @@ export class UserController {
       const user = await UserModel.findById(req.user.userId);
       const username = user?.username || 'Someone';
 
-      await NotificationModel.create({
+      await NotificationService.send({
         userId: requesterId,
         type: 'follow_request_accepted',
         title: 'Request Accepted',
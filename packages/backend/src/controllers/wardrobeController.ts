@@ -3,15 +3,20 @@ import path from 'path';
 import { Request, Response } from 'express';
 import multer from 'multer';
 import { VUFSItemModel } from '../models/VUFSItem';
-import { ItemImageModel } from '../models/ItemImage';
+import { ItemImageModel, ItemImage } from '../models/ItemImage';
 import { SKUItemModel } from '../models/SKUItem';
 import { AIProcessingService } from '../services/aiProcessingService';
-import { BackgroundRemovalService } from '../services/backgroundRemovalService';
 import { LocalStorageService } from '../services/localStorageService';
 import { AuthenticatedRequest } from '../utils/auth';
 import { VUFSUtils } from '../utils/vufs';
 import { WardrobeValidationService } from '../services/wardrobeValidationService';
 import { VUFSManagementService } from '../services/vufsManagementService';
+import { SKUMatchingService, SKUMatchCandidate } from '../services/skuMatchingService';
+import { ImageEmbeddingService } from '../services/imageEmbeddingService';
+import { CareLabelService } from '../services/careLabelService';
+import { ImageJobQueueService, ImageJobBatchStatus } from '../services/imageJobQueueService';
+import { ImageTransformService } from '../services/imageTransformService';
+import { ImageProcessingJobModel, ImageProcessingBatch, CreateImageJobData } from '../models/ImageProcessingJob';
 import {
   CategoryHierarchy,
   BrandHierarchy,
@@ -62,6 +67,35 @@ function sanitizeImageUrl(imageUrl: string): string {
   return `${process.env.API_URL || 'http://localhost:3001'}/storage/${cleanPath}`;
 }
 
+/**
+ * Item image for API responses: browser-ready URL plus signed responsive
+ * candidates; `blurhash` comes along for the placeholder
+ */
+function presentImage(img: ItemImage) {
+  return {
+    ...img,
+    url: sanitizeImageUrl(img.imageUrl),
+    srcSet: ImageTransformService.srcSet(img.imageUrl),
+  };
+}
+
+/**
+ * Batch status with browser-ready URLs for processed images
+ */
+function serializeImageJobBatch(status: ImageJobBatchStatus) {
+  return {
+    ...status,
+    jobs: status.jobs.map(job => ({
+      ...job,
+      result: job.result && {
+        ...job.result,
+        ...(job.result.imageUrl && { url: sanitizeImageUrl(job.result.imageUrl) }),
+        ...(job.result.thumbnailUrl && { thumbnailUrl: sanitizeImageUrl(job.result.thumbnailUrl) }),
+      },
+    })),
+  };
+}
+
 export interface WardrobeItemRequest {
   category?: CategoryHierarchy;
   brand?: BrandHierarchy;
@@ -229,6 +263,7 @@ export class WardrobeController {
               aiAnalysis: i === 0 ? aiAnalysis : undefined,
               fileSize: uploadResult.size,
               mimeType: uploadResult.mimetype,
+              blurhash: uploadResult.blurhash,
             });
             console.log(`Image record created in DB: ${imageRecord.id}`);
 
@@ -266,6 +301,7 @@ export class WardrobeController {
               isPrimary: img.isPrimary || i === 0,
               fileSize: img.size || 0,
               mimeType: img.mimetype || 'image/jpeg',
+              blurhash: img.blurhash,
             });
             console.log(`Image record created from body in DB: ${imageRecord.id}`);
 
@@ -288,13 +324,23 @@ export class WardrobeController {
         console.warn('Warning: No images were successfully processed for item', vufsItem.id);
       }
 
+      // Suggest catalog SKUs for the owner to confirm
+      let skuMatches: SKUMatchCandidate[] = [];
+      if (aiAnalysis && files && files.length > 0) {
+        try {
+          skuMatches = await SKUMatchingService.findCandidates({
+            ...SKUMatchingService.signalsFromItemData({ ...itemData, aiAnalysis }),
+            embeddings: [await ImageEmbeddingService.embed(files[0].buffer)],
+          });
+        } catch (matchError) {
+          console.warn('SKU matching failed, continuing without suggestions:', matchError);
+        }
+      }
+
       // Get complete item with images
       const itemWithImages = {
         ...vufsItem,
-        images: imageRecords.map(img => ({
-          ...img,
-          url: sanitizeImageUrl(img.imageUrl)
-        })),
+        images: imageRecords.map(presentImage),
       };
 
       res.status(201).json({
@@ -305,6 +351,7 @@ export class WardrobeController {
           suggestions: vufsExtraction?.suggestions,
           backgroundRemoved: aiAnalysis.backgroundRemoved,
         } : null,
+        skuMatches,
       });
     } catch (error) {
       console.error('Create wardrobe item error details:', error);
@@ -388,10 +435,7 @@ export class WardrobeController {
       const itemsWithImages = await Promise.all(
         paginatedItems.map(async (item) => {
           const images = await ItemImageModel.findByItemId(item.id);
-          const imagesWithUrls = images.map(img => ({
-            ...img,
-            url: sanitizeImageUrl(img.imageUrl)
-          }));
+          const imagesWithUrls = images.map(presentImage);
           return {
             ...item,
             images: imagesWithUrls,
@@ -504,10 +548,7 @@ export class WardrobeController {
       const images = await ItemImageModel.findByItemId(item.id);
 
       // Construct working URLs for images using sanitizeImageUrl helper
-      const imagesWithUrls = images.map(img => ({
-        ...img,
-        url: sanitizeImageUrl(img.imageUrl)
-      }));
+      const imagesWithUrls = images.map(presentImage);
 
       const itemWithImages = {
         ...item,
@@ -643,6 +684,7 @@ export class WardrobeController {
                 isPrimary: img.isPrimary || i === 0,
                 fileSize: img.size || 0,
                 mimeType: img.mimetype || 'image/jpeg',
+                blurhash: img.blurhash,
               });
 
               imageRecords.push(imageRecord);
@@ -653,10 +695,7 @@ export class WardrobeController {
           }
 
           // Convert to response format
-          currentImages = imageRecords.map(img => ({
-            ...img,
-            url: sanitizeImageUrl(img.imageUrl)
-          }));
+          currentImages = imageRecords.map(presentImage);
 
           console.log(`Successfully updated ${currentImages.length} images for item ${existingItem.id}`);
 
@@ -666,10 +705,7 @@ export class WardrobeController {
       } else {
         // If no images provided in update, fetch existing ones to return complete object
         const images = await ItemImageModel.findByItemId(existingItem.id);
-        currentImages = images.map(img => ({
-          ...img,
-          url: sanitizeImageUrl(img.imageUrl)
-        }));
+        currentImages = images.map(presentImage);
       }
 
       res.json({
@@ -807,6 +843,209 @@ export class WardrobeController {
     }
   }
 
+  /**
+   * Catalog SKUs that may be this item, ranked for the owner to confirm
+   */
+  static async getSkuMatches(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        });
+        return;
+      }
+
+      const item = await VUFSItemModel.findById(req.params.id);
+      if (!item || item.deletedAt) {
+        res.status(404).json({
+          error: {
+            code: 'ITEM_NOT_FOUND',
+            message: 'Wardrobe item not found',
+          },
+        });
+        return;
+      }
+
+      if (item.ownerId !== req.user.userId) {
+        res.status(403).json({
+          error: {
+            code: 'FORBIDDEN',
+            message: 'You can only match your own items',
+          },
+        });
+        return;
+      }
+
+      const limit = Math.min(parseInt(req.query.limit as string) || 5, 20);
+      const signals = await SKUMatchingService.getItemSignals(item);
+      const matches = await SKUMatchingService.findCandidates(signals, limit);
+
+      res.json({
+        linkedSkuId: item.skuItemId || null,
+        matches,
+      });
+    } catch (error) {
+      console.error('Get SKU matches error:', error);
+      res.status(500).json({
+        error: {
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'An error occurred while matching the item',
+        },
+      });
+    }
+  }
+
+  /**
+   * Link the item to the SKU the owner confirmed and inherit its official data
+   */
+  static async confirmSkuMatch(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        });
+        return;
+      }
+
+      const { id } = req.params;
+      const { skuId } = req.body;
+
+      if (!skuId) {
+        res.status(400).json({
+          error: {
+            code: 'MISSING_SKU',
+            message: 'skuId is required',
+          },
+        });
+        return;
+      }
+
+      const existingItem = await VUFSItemModel.findById(id);
+      if (!existingItem || existingItem.deletedAt) {
+        res.status(404).json({
+          error: {
+            code: 'ITEM_NOT_FOUND',
+            message: 'Wardrobe item not found',
+          },
+        });
+        return;
+      }
+
+      if (existingItem.ownerId !== req.user.userId) {
+        res.status(403).json({
+          error: {
+            code: 'FORBIDDEN',
+            message: 'You can only match your own items',
+          },
+        });
+        return;
+      }
+
+      const item = await SKUMatchingService.confirmMatch(id, skuId);
+
+      res.json({
+        message: 'Item linked to catalog SKU',
+        item,
+      });
+    } catch (error: any) {
+      if (error.message?.startsWith('Invalid')) {
+        res.status(400).json({
+          error: {
+            code: 'INVALID_SKU',
+            message: error.message,
+          },
+        });
+        return;
+      }
+      console.error('Confirm SKU match error:', error);
+      res.status(500).json({
+        error: {
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'An error occurred while linking the item',
+        },
+      });
+    }
+  }
+
+  /**
+   * Read a photo of the item's care label (or its transcribed text) and fill
+   * composition and care instructions
+   */
+  static async scanCareLabel(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        });
+        return;
+      }
+
+      const files = req.files as Express.Multer.File[] | undefined;
+      const text: string[] = Array.isArray(req.body.text) ? req.body.text : req.body.text ? [req.body.text] : [];
+      const symbols: string[] = Array.isArray(req.body.symbols) ? req.body.symbols : req.body.symbols ? [req.body.symbols] : [];
+
+      if (!files?.length && text.length === 0 && symbols.length === 0) {
+        res.status(400).json({
+          error: {
+            code: 'MISSING_LABEL',
+            message: 'A label image, text or care symbols are required',
+          },
+        });
+        return;
+      }
+
+      const existingItem = await VUFSItemModel.findById(req.params.id);
+      if (!existingItem || existingItem.deletedAt) {
+        res.status(404).json({
+          error: {
+            code: 'ITEM_NOT_FOUND',
+            message: 'Wardrobe item not found',
+          },
+        });
+        return;
+      }
+
+      if (existingItem.ownerId !== req.user.userId) {
+        res.status(403).json({
+          error: {
+            code: 'FORBIDDEN',
+            message: 'You can only update your own items',
+          },
+        });
+        return;
+      }
+
+      if (files?.length) {
+        text.push(...await CareLabelService.readImageText(files[0].buffer));
+      }
+
+      const careLabel = CareLabelService.parseLabel(text, symbols);
+      const item = await CareLabelService.applyToItem(existingItem, careLabel);
+
+      res.json({
+        careLabel,
+        item,
+      });
+    } catch (error) {
+      console.error('Scan care label error:', error);
+      res.status(500).json({
+        error: {
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'An error occurred while reading the care label',
+        },
+      });
+    }
+  }
+
   /**
    * Soft-delete wardrobe item (moves to trash)
    */
@@ -1285,9 +1524,102 @@ export class WardrobeController {
   }
 
   /**
-   * Batch remove background from multiple images
+   * Queue background removal for several images; progress is followed
+   * through the returned batch
    */
   static async batchRemoveBackground(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const { imageIds, options = {} } = req.body;
+
+    if (!Array.isArray(imageIds) || imageIds.length === 0) {
+      res.status(400).json({
+        error: {
+          code: 'INVALID_INPUT',
+          message: 'imageIds array is required',
+        },
+      });
+      return;
+    }
+
+    await WardrobeController.enqueueImageJobs(
+      req,
+      res,
+      imageIds.map((imageId: string) => ({ imageId, operation: 'background_removal' as const, options }))
+    );
+  }
+
+  /**
+   * Queue image processing jobs: `{ jobs: [{ imageId, operation, options }] }`
+   * or one operation for many images with `{ imageIds, operation, options }`
+   */
+  static async createImageJobs(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const { jobs, imageIds, operation, options = {} } = req.body;
+
+    const requested: CreateImageJobData[] = Array.isArray(jobs)
+      ? jobs
+      : Array.isArray(imageIds)
+        ? imageIds.map((imageId: string) => ({ imageId, operation, options }))
+        : [];
+
+    if (requested.length === 0) {
+      res.status(400).json({
+        error: {
+          code: 'INVALID_INPUT',
+          message: 'jobs or imageIds array is required',
+        },
+      });
+      return;
+    }
+
+    await WardrobeController.enqueueImageJobs(req, res, requested);
+  }
+
+  /**
+   * Poll a processing batch for per-image status and progress
+   */
+  static async getImageJobBatch(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const batch = await WardrobeController.findOwnBatch(req, res);
+      if (!batch) return;
+
+      const status = await ImageJobQueueService.getBatchStatus(batch);
+      res.json(serializeImageJobBatch(status));
+    } catch (error) {
+      console.error('Get image job batch error:', error);
+      res.status(500).json({
+        error: {
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'An error occurred while fetching the batch',
+        },
+      });
+    }
+  }
+
+  /**
+   * Cancel the jobs of a batch that have not started yet
+   */
+  static async cancelImageJobBatch(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const batch = await WardrobeController.findOwnBatch(req, res);
+      if (!batch) return;
+
+      const cancelled = await ImageProcessingJobModel.cancelBatch(batch.id);
+      const status = await ImageJobQueueService.getBatchStatus(batch);
+      res.json({ cancelled, ...serializeImageJobBatch(status) });
+    } catch (error) {
+      console.error('Cancel image job batch error:', error);
+      res.status(500).json({
+        error: {
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'An error occurred while cancelling the batch',
+        },
+      });
+    }
+  }
+
+  /**
+   * Send a failed or cancelled job back to the queue
+   */
+  static async retryImageJob(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
       if (!req.user) {
         res.status(401).json({
@@ -1299,22 +1631,61 @@ export class WardrobeController {
         return;
       }
 
-      const { id } = req.params;
-      const { imageIds, options = {} } = req.body;
+      const job = await ImageProcessingJobModel.findById(req.params.jobId);
+      if (!job || job.userId !== req.user.userId) {
+        res.status(404).json({
+          error: {
+            code: 'JOB_NOT_FOUND',
+            message: 'Image job not found',
+          },
+        });
+        return;
+      }
 
-      if (!Array.isArray(imageIds) || imageIds.length === 0) {
-        res.status(400).json({
+      const retried = await ImageProcessingJobModel.retry(job.id);
+      if (!retried) {
+        res.status(409).json({
           error: {
-            code: 'INVALID_INPUT',
-            message: 'imageIds array is required',
+            code: 'JOB_NOT_RETRYABLE',
+            message: `Only failed or cancelled jobs can be retried; this job is ${job.status}`,
           },
         });
         return;
       }
 
-      // 1. Fetch item and check ownership
+      ImageJobQueueService.poll();
+      res.status(202).json({ job: retried });
+    } catch (error) {
+      console.error('Retry image job error:', error);
+      res.status(500).json({
+        error: {
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'An error occurred while retrying the job',
+        },
+      });
+    }
+  }
+
+  private static async enqueueImageJobs(
+    req: AuthenticatedRequest,
+    res: Response,
+    jobs: CreateImageJobData[]
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        });
+        return;
+      }
+
+      const { id } = req.params;
+
       const item = await VUFSItemModel.findById(id);
-      if (!item) {
+      if (!item || item.deletedAt) {
         res.status(404).json({
           error: {
             code: 'ITEM_NOT_FOUND',
@@ -1334,113 +1705,68 @@ export class WardrobeController {
         return;
       }
 
-      // 2. Fetch all images
       const images = await ItemImageModel.findByItemId(id);
-      const successfulIds: string[] = [];
-      const results = [];
-
-      // 3. Process each image
-      for (const imageId of imageIds) {
-        const originalImage = images.find(img => img.id === imageId);
-        if (!originalImage) {
-          results.push({ imageId, status: 'error', message: 'Image not found' });
-          continue;
-        }
-
-        try {
-          // Load image buffer
-          let imageBuffer: Buffer;
-          if (originalImage.imageUrl.startsWith('http')) {
-            const response = await fetch(originalImage.imageUrl);
-            imageBuffer = Buffer.from(await response.arrayBuffer());
-          } else {
-            const relativePath = originalImage.imageUrl.startsWith('/')
-              ? originalImage.imageUrl.replace(/^\//, '').replace(/^storage\//, '')
-              : originalImage.imageUrl.replace(/^storage\//, '');
-
-            const fullPath = path.join(process.cwd(), 'storage', relativePath);
-            imageBuffer = await fs.readFile(fullPath);
-          }
-
-          // Generate hash key for duplicate check? Maybe later.
-          // Perform background removal
-          const processedBuffer = await BackgroundRemovalService.removeBackground(imageBuffer, options);
-
-          // Save processed image
-          const originalFilename = path.basename(originalImage.imageUrl);
-
-          // Check for existing background_removed image
-          const existingBgRemoved = images.find(img =>
-            img.imageType === 'background_removed' &&
-            img.aiAnalysis?.originalImageId === originalImage.id
-          );
-
-          if (existingBgRemoved) {
-            await ItemImageModel.delete(existingBgRemoved.id);
-            // Try delete local file
-            if (!existingBgRemoved.imageUrl.startsWith('http')) {
-              try {
-                const oldPath = path.join(process.cwd(), existingBgRemoved.imageUrl);
-                await fs.unlink(oldPath).catch(() => { });
-              } catch (e) { }
-            }
-          }
-
-          const newFilename = `bg_removed_${Date.now()}_${originalFilename}`; // Ensure uniqueness with timestamp
-
-          const uploadResult = await LocalStorageService.uploadImage(
-            processedBuffer,
-            newFilename,
-            'image/png',
-            'wardrobe',
-            req.user.userId
-          );
+      const missing = jobs.filter(job => !images.some(img => img.id === job.imageId));
+      if (missing.length > 0) {
+        res.status(404).json({
+          error: {
+            code: 'IMAGE_NOT_FOUND',
+            message: `Images not found for this item: ${missing.map(job => job.imageId).join(', ')}`,
+          },
+        });
+        return;
+      }
 
-          const bgRemovedImage = await ItemImageModel.create({
-            itemId: item.id,
-            imageUrl: uploadResult.optimizedUrl || uploadResult.url,
-            imageType: 'background_removed',
-            isPrimary: false,
-            aiAnalysis: {
-              backgroundRemoved: true,
-              originalImageId: originalImage.id
-            },
-            fileSize: uploadResult.size,
-            mimeType: uploadResult.mimetype,
-          });
+      const idempotencyKey = (req.headers['idempotency-key'] as string | undefined) || req.body.idempotencyKey;
+      const { status, created } = await ImageJobQueueService.enqueue(req.user.userId, id, jobs, idempotencyKey);
 
-          successfulIds.push(imageId);
-          results.push({
-            imageId,
-            status: 'success',
-            image: {
-              ...bgRemovedImage,
-              url: bgRemovedImage.imageUrl.startsWith('http')
-                ? bgRemovedImage.imageUrl
-                : `${process.env.API_URL || 'http://localhost:3001'}/${bgRemovedImage.imageUrl}`
-            }
-          });
-        } catch (err: any) {
-          console.error(`Error processing image ${imageId}:`, err);
-          results.push({ imageId, status: 'error', message: err.message });
-        }
+      res.status(created ? 202 : 200).json({
+        message: created ? 'Image processing queued' : 'Batch already queued for this idempotency key',
+        ...serializeImageJobBatch(status),
+      });
+    } catch (error: any) {
+      if (error.message?.startsWith('Invalid')) {
+        res.status(400).json({
+          error: {
+            code: 'INVALID_INPUT',
+            message: error.message,
+          },
+        });
+        return;
       }
+      console.error('Queue image jobs error:', error);
+      res.status(500).json({
+        error: {
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'An error occurred while queueing image processing',
+        },
+      });
+    }
+  }
 
-      res.status(200).json({
-        message: 'Batch processing completed',
-        results,
-        successfulCount: successfulIds.length
+  private static async findOwnBatch(req: AuthenticatedRequest, res: Response): Promise<ImageProcessingBatch | null> {
+    if (!req.user) {
+      res.status(401).json({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required',
+        },
       });
+      return null;
+    }
 
-    } catch (error) {
-      console.error('Batch remove background error:', error);
-      res.status(500).json({
+    const batch = await ImageProcessingJobModel.findBatch(req.params.batchId);
+    if (!batch || batch.userId !== req.user.userId) {
+      res.status(404).json({
         error: {
-          code: 'INTERNAL_SERVER_ERROR',
-          message: 'An error occurred during batch processing',
+          code: 'BATCH_NOT_FOUND',
+          message: 'Image processing batch not found',
         },
       });
+      return null;
     }
+
+    return batch;
   }
 
   /**
@@ -1535,6 +1861,7 @@ export class WardrobeController {
         },
         fileSize: uploadResult.size,
         mimeType: uploadResult.mimetype,
+        blurhash: uploadResult.blurhash,
       });
 
       res.status(200).json({
@@ -1560,144 +1887,14 @@ export class WardrobeController {
 
 
   /**
-   * Remove background from an existing wardrobe item image
+   * Queue background removal for a single wardrobe item image
    */
   static async removeImageBackground(req: AuthenticatedRequest, res: Response): Promise<void> {
-    try {
-      if (!req.user) {
-        res.status(401).json({
-          error: {
-            code: 'UNAUTHORIZED',
-            message: 'Authentication required',
-          },
-        });
-        return;
-      }
-
-      const { id, imageId } = req.params;
-      const options = req.body.options || {}; // Extract options from request body
-
-      // 1. Fetch item and check ownership
-      const item = await VUFSItemModel.findById(id);
-      if (!item) {
-        res.status(404).json({
-          error: {
-            code: 'ITEM_NOT_FOUND',
-            message: 'Wardrobe item not found',
-          },
-        });
-        return;
-      }
-
-      if (item.ownerId !== req.user.userId) {
-        res.status(403).json({
-          error: {
-            code: 'FORBIDDEN',
-            message: 'You can only process your own items',
-          },
-        });
-        return;
-      }
-
-      // 2. Fetch specific image
-      const images = await ItemImageModel.findByItemId(id);
-      const originalImage = images.find(img => img.id === imageId);
-
-      if (!originalImage) {
-        res.status(404).json({
-          error: {
-            code: 'IMAGE_NOT_FOUND',
-            message: 'Image not found for this item',
-          },
-        });
-        return;
-      }
-
-      // 3. Process image background removal
-      // Load image buffer (handling both local and remote URLs)
-      let imageBuffer: Buffer;
-      if (originalImage.imageUrl.startsWith('http')) {
-        const response = await fetch(originalImage.imageUrl);
-        imageBuffer = Buffer.from(await response.arrayBuffer());
-      } else {
-        // Assume local storage path
-        const relativePath = originalImage.imageUrl.startsWith('/')
-          ? originalImage.imageUrl.replace(/^\//, '').replace(/^storage\//, '')
-          : originalImage.imageUrl.replace(/^storage\//, '');
-
-        const fullPath = path.join(process.cwd(), 'storage', relativePath);
-        imageBuffer = await fs.readFile(fullPath);
-      }
-
-      // Perform background removal with options
-      const processedBuffer = await BackgroundRemovalService.removeBackground(imageBuffer, options);
-
-      // 4. Save processed image
-      const originalFilename = path.basename(originalImage.imageUrl);
-
-      // Delete ALL existing background_removed images for this item (clean up orphans and old versions)
-      const existingBgRemovedImages = images.filter(img =>
-        img.imageType === 'background_removed' || (img as any).type === 'background_removed'
-      );
-
-      for (const existingBgRemoved of existingBgRemovedImages) {
-        // Delete from DB
-        await ItemImageModel.delete(existingBgRemoved.id);
-
-        // Try to delete file if local
-        if (!existingBgRemoved.imageUrl.startsWith('http')) {
-          try {
-            const oldPath = path.join(process.cwd(), existingBgRemoved.imageUrl);
-            await fs.unlink(oldPath).catch(() => { });
-          } catch (e) {
-            console.warn('Failed to delete old background removed file', e);
-          }
-        }
-      }
-
-      const newFilename = `bg_removed_${originalFilename}`;
-
-      const uploadResult = await LocalStorageService.uploadImage(
-        processedBuffer,
-        newFilename,
-        'image/png', // imgly outputs png by default for transparency
-        'wardrobe',
-        req.user.userId
-      );
-
-      // 5. Create image record in DB
-      const bgRemovedImage = await ItemImageModel.create({
-        itemId: item.id,
-        imageUrl: uploadResult.optimizedUrl || uploadResult.url,
-        imageType: 'background_removed',
-        isPrimary: false, // Don't automatically make it primary
-        aiAnalysis: {
-          backgroundRemoved: true,
-          originalImageId: originalImage.id
-        },
-        fileSize: uploadResult.size,
-        mimeType: uploadResult.mimetype,
-      });
-
-      res.status(200).json({
-        message: 'Background removed successfully',
-        image: {
-          ...bgRemovedImage,
-          url: bgRemovedImage.imageUrl.startsWith('http')
-            ? bgRemovedImage.imageUrl
-            : `${process.env.API_URL || 'http://localhost:3001'}/${bgRemovedImage.imageUrl}`
-        },
-      });
-
-    } catch (error) {
-      console.error('Remove background error:', error);
-      res.status(500).json({
-        error: {
-          code: 'INTERNAL_SERVER_ERROR',
-          message: 'An error occurred while removing the background',
-        },
-      });
-    }
+    await WardrobeController.enqueueImageJobs(req, res, [{
+      imageId: req.params.imageId,
+      operation: 'background_removal',
+      options: req.body.options || {},
+    }]);
   }
 
   /**
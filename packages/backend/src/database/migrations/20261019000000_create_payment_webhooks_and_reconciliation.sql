@@ -0,0 +1,57 @@
+-- Provider that processed the charge, so webhooks and reconciliation can find it
+ALTER TABLE marketplace_transactions ADD COLUMN IF NOT EXISTS payment_provider VARCHAR(50);
+
+CREATE INDEX IF NOT EXISTS idx_marketplace_transactions_payment
+    ON marketplace_transactions(payment_provider, payment_id);
+
+-- Inbound provider webhooks (deduplicated per provider event id)
+CREATE TABLE IF NOT EXISTS payment_webhook_events (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    provider VARCHAR(50) NOT NULL,
+    event_id VARCHAR(255) NOT NULL,
+    payment_id VARCHAR(255),
+    transaction_id UUID REFERENCES marketplace_transactions(id),
+    payment_status VARCHAR(20),
+    payload JSONB NOT NULL,
+    processing_status VARCHAR(20) NOT NULL DEFAULT 'received'
+        CHECK (processing_status IN ('received', 'processed', 'ignored', 'failed')),
+    error TEXT,
+    received_at TIMESTAMP DEFAULT NOW(),
+    processed_at TIMESTAMP,
+    UNIQUE(provider, event_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_webhook_events_payment_id ON payment_webhook_events(payment_id);
+CREATE INDEX IF NOT EXISTS idx_payment_webhook_events_status ON payment_webhook_events(processing_status);
+
+-- Reconciliation runs comparing transactions with provider state
+CREATE TABLE IF NOT EXISTS payment_reconciliation_runs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    provider VARCHAR(50),
+    status VARCHAR(20) NOT NULL DEFAULT 'running'
+        CHECK (status IN ('running', 'completed', 'failed')),
+    checked_count INTEGER DEFAULT 0,
+    mismatch_count INTEGER DEFAULT 0,
+    fixed_count INTEGER DEFAULT 0,
+    error TEXT,
+    started_at TIMESTAMP DEFAULT NOW(),
+    finished_at TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS payment_reconciliation_items (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    run_id UUID NOT NULL REFERENCES payment_reconciliation_runs(id) ON DELETE CASCADE,
+    transaction_id UUID NOT NULL REFERENCES marketplace_transactions(id),
+    provider VARCHAR(50) NOT NULL,
+    payment_id VARCHAR(255) NOT NULL,
+    transaction_status VARCHAR(20) NOT NULL,
+    provider_status VARCHAR(20),
+    mismatch_type VARCHAR(40) NOT NULL,
+    resolution VARCHAR(20) NOT NULL DEFAULT 'flagged'
+        CHECK (resolution IN ('flagged', 'fixed')),
+    details JSONB DEFAULT '{}',
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_reconciliation_items_run_id ON payment_reconciliation_items(run_id);
+CREATE INDEX IF NOT EXISTS idx_payment_reconciliation_items_transaction_id ON payment_reconciliation_items(transaction_id);
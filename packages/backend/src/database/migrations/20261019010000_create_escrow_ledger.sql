@@ -0,0 +1,104 @@
+-- Double-entry ledger for marketplace money movements
+
+-- Ledger accounts. Platform-wide accounts have owner_type = 'platform' and no owner_id.
+CREATE TABLE IF NOT EXISTS ledger_accounts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    owner_type VARCHAR(20) NOT NULL CHECK (owner_type IN ('platform', 'user')),
+    owner_id UUID REFERENCES users(id),
+    account_type VARCHAR(30) NOT NULL
+        CHECK (account_type IN ('provider_clearing', 'escrow', 'platform_revenue', 'seller_balance')),
+    currency VARCHAR(3) NOT NULL DEFAULT 'BRL',
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ledger_accounts_unique
+    ON ledger_accounts(owner_type, COALESCE(owner_id, '00000000-0000-0000-0000-000000000000'::uuid), account_type, currency);
+
+-- Journal entries group postings that must balance (sum of debits = sum of credits)
+CREATE TABLE IF NOT EXISTS ledger_entries (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    entry_type VARCHAR(20) NOT NULL CHECK (entry_type IN ('hold', 'release', 'refund', 'payout')),
+    transaction_id UUID REFERENCES marketplace_transactions(id),
+    payout_id UUID,
+    description TEXT NOT NULL,
+    metadata JSONB DEFAULT '{}',
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS ledger_postings (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    entry_id UUID NOT NULL REFERENCES ledger_entries(id) ON DELETE CASCADE,
+    account_id UUID NOT NULL REFERENCES ledger_accounts(id),
+    direction VARCHAR(6) NOT NULL CHECK (direction IN ('debit', 'credit')),
+    amount DECIMAL(12,2) NOT NULL CHECK (amount > 0),
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ledger_postings_account_id ON ledger_postings(account_id);
+CREATE INDEX IF NOT EXISTS idx_ledger_postings_entry_id ON ledger_postings(entry_id);
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_transaction_id ON ledger_entries(transaction_id);
+
+-- Funds held for a marketplace transaction until delivery or the dispute window closes
+CREATE TABLE IF NOT EXISTS marketplace_escrows (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    transaction_id UUID NOT NULL UNIQUE REFERENCES marketplace_transactions(id),
+    seller_id UUID NOT NULL REFERENCES users(id),
+    buyer_id UUID NOT NULL REFERENCES users(id),
+    status VARCHAR(20) NOT NULL DEFAULT 'held'
+        CHECK (status IN ('held', 'disputed', 'released', 'refunded')),
+    amount DECIMAL(12,2) NOT NULL,
+    platform_fee DECIMAL(12,2) NOT NULL DEFAULT 0,
+    payment_fee DECIMAL(12,2) NOT NULL DEFAULT 0,
+    seller_net DECIMAL(12,2) NOT NULL,
+    refunded_amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+    currency VARCHAR(3) NOT NULL DEFAULT 'BRL',
+    release_after TIMESTAMP,
+    dispute_reason TEXT,
+    held_at TIMESTAMP DEFAULT NOW(),
+    released_at TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_marketplace_escrows_seller_id ON marketplace_escrows(seller_id);
+CREATE INDEX IF NOT EXISTS idx_marketplace_escrows_release ON marketplace_escrows(status, release_after);
+
+-- Seller payouts (transfers of the available balance out of the platform)
+CREATE TABLE IF NOT EXISTS seller_payouts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    seller_id UUID NOT NULL REFERENCES users(id),
+    amount DECIMAL(12,2) NOT NULL CHECK (amount > 0),
+    currency VARCHAR(3) NOT NULL DEFAULT 'BRL',
+    status VARCHAR(20) NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'paid', 'failed')),
+    method VARCHAR(30) NOT NULL DEFAULT 'pix',
+    destination JSONB DEFAULT '{}',
+    reference VARCHAR(255),
+    requested_at TIMESTAMP DEFAULT NOW(),
+    paid_at TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_seller_payouts_seller_id ON seller_payouts(seller_id);
+
+-- Per-sale financial breakdown (shared FinancialRecord type)
+CREATE TABLE IF NOT EXISTS financial_records (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    item_sku VARCHAR(255) NOT NULL,
+    owner_id UUID NOT NULL REFERENCES users(id),
+    supplier_id UUID,
+    original_price DECIMAL(12,2) NOT NULL,
+    sold_price DECIMAL(12,2),
+    commission_rate DECIMAL(6,4) NOT NULL DEFAULT 0,
+    platform_fees DECIMAL(12,2) NOT NULL DEFAULT 0,
+    net_amount DECIMAL(12,2) NOT NULL,
+    amount_to_owner DECIMAL(12,2) NOT NULL,
+    repass_status BOOLEAN NOT NULL DEFAULT false,
+    repass_date TIMESTAMP,
+    payment_method VARCHAR(50),
+    transaction_id UUID REFERENCES marketplace_transactions(id),
+    payout_id UUID REFERENCES seller_payouts(id),
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_financial_records_owner_id ON financial_records(owner_id, repass_status);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_financial_records_transaction_id
+    ON financial_records(transaction_id) WHERE transaction_id IS NOT NULL;
@@ -0,0 +1,100 @@
+-- Consignment management: store owners sell items on behalf of consignors
+-- (a supplier or a platform user) and repass the owner's share monthly.
+
+-- Per store owner overrides of the shared ConsignmentSettings defaults
+CREATE TABLE IF NOT EXISTS consignment_settings (
+    store_owner_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+    default_commission_rate DECIMAL(5,4),
+    platform_fee_rates JSONB DEFAULT '{}',
+    payment_terms INTEGER,
+    minimum_payout DECIMAL(12,2),
+    auto_repass_threshold DECIMAL(12,2),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Commission rules; the highest-priority matching rule wins over the default rate
+CREATE TABLE IF NOT EXISTS consignment_commission_rules (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    store_owner_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL,
+    commission_rate DECIMAL(5,4) NOT NULL CHECK (commission_rate >= 0 AND commission_rate <= 1),
+    supplier_id UUID REFERENCES suppliers(id),
+    owner_user_id UUID REFERENCES users(id),
+    category VARCHAR(255),
+    brand VARCHAR(255),
+    min_price DECIMAL(12,2),
+    max_price DECIMAL(12,2),
+    priority INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_consignment_rules_store_owner ON consignment_commission_rules(store_owner_id);
+
+-- Monthly repass statements per consignor
+CREATE TABLE IF NOT EXISTS consignment_statements (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    store_owner_id UUID NOT NULL REFERENCES users(id),
+    supplier_id UUID REFERENCES suppliers(id),
+    owner_user_id UUID REFERENCES users(id),
+    period_start DATE NOT NULL,
+    period_end DATE NOT NULL,
+    item_count INTEGER NOT NULL DEFAULT 0,
+    total_sales DECIMAL(12,2) NOT NULL DEFAULT 0,
+    total_platform_fees DECIMAL(12,2) NOT NULL DEFAULT 0,
+    total_commission DECIMAL(12,2) NOT NULL DEFAULT 0,
+    amount_to_owner DECIMAL(12,2) NOT NULL DEFAULT 0,
+    status VARCHAR(20) NOT NULL DEFAULT 'issued' CHECK (status IN ('issued', 'paid')),
+    issued_at TIMESTAMP DEFAULT NOW(),
+    paid_at TIMESTAMP,
+    CHECK (supplier_id IS NOT NULL OR owner_user_id IS NOT NULL)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_consignment_statements_period ON consignment_statements(
+    store_owner_id,
+    COALESCE(supplier_id, '00000000-0000-0000-0000-000000000000'::uuid),
+    COALESCE(owner_user_id, '00000000-0000-0000-0000-000000000000'::uuid),
+    period_start
+);
+
+-- Items held on consignment
+CREATE TABLE IF NOT EXISTS consignment_items (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    store_owner_id UUID NOT NULL REFERENCES users(id),
+    vufs_item_id UUID,
+    item_sku VARCHAR(255) NOT NULL,
+    title VARCHAR(255) NOT NULL,
+    brand VARCHAR(255),
+    category VARCHAR(255),
+    supplier_id UUID REFERENCES suppliers(id),
+    owner_user_id UUID REFERENCES users(id),
+    asking_price DECIMAL(12,2) NOT NULL,
+    minimum_price DECIMAL(12,2),
+    commission_rate DECIMAL(5,4) CHECK (commission_rate IS NULL OR (commission_rate >= 0 AND commission_rate <= 1)),
+    status VARCHAR(20) NOT NULL DEFAULT 'consigned'
+        CHECK (status IN ('consigned', 'listed', 'sold', 'returned')),
+    sold_price DECIMAL(12,2),
+    sale_platform VARCHAR(50),
+    transaction_id UUID REFERENCES marketplace_transactions(id),
+    notes TEXT,
+    consigned_at TIMESTAMP DEFAULT NOW(),
+    sold_at TIMESTAMP,
+    returned_at TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT NOW(),
+    CHECK (supplier_id IS NOT NULL OR owner_user_id IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_consignment_items_store_owner ON consignment_items(store_owner_id, status);
+CREATE INDEX IF NOT EXISTS idx_consignment_items_vufs_item ON consignment_items(vufs_item_id);
+
+-- Consignment sales are FinancialRecords too; the owner may be a supplier without a user account
+ALTER TABLE financial_records ALTER COLUMN owner_id DROP NOT NULL;
+ALTER TABLE financial_records ADD COLUMN IF NOT EXISTS consignment_item_id UUID REFERENCES consignment_items(id);
+ALTER TABLE financial_records ADD COLUMN IF NOT EXISTS store_owner_id UUID REFERENCES users(id);
+ALTER TABLE financial_records ADD COLUMN IF NOT EXISTS sale_platform VARCHAR(50);
+ALTER TABLE financial_records ADD COLUMN IF NOT EXISTS commission_amount DECIMAL(12,2);
+ALTER TABLE financial_records ADD COLUMN IF NOT EXISTS statement_id UUID REFERENCES consignment_statements(id);
+ALTER TABLE financial_records ADD COLUMN IF NOT EXISTS sold_at TIMESTAMP DEFAULT NOW();
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_financial_records_consignment_item
+    ON financial_records(consignment_item_id) WHERE consignment_item_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_financial_records_statement ON financial_records(statement_id);
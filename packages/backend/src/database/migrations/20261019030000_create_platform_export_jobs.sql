@@ -0,0 +1,37 @@
+-- Export jobs that turn catalog items or brand SKUs into marketplace feed files
+
+CREATE TABLE IF NOT EXISTS platform_export_jobs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    platform VARCHAR(30) NOT NULL,
+    source_type VARCHAR(20) NOT NULL CHECK (source_type IN ('catalog', 'sku')),
+    brand_id UUID REFERENCES brand_accounts(id),
+    requested_by UUID NOT NULL REFERENCES users(id),
+    status VARCHAR(20) NOT NULL DEFAULT 'queued'
+        CHECK (status IN ('queued', 'running', 'completed', 'failed')),
+    total_items INTEGER NOT NULL DEFAULT 0,
+    exported_items INTEGER NOT NULL DEFAULT 0,
+    failed_items INTEGER NOT NULL DEFAULT 0,
+    file_path VARCHAR(500),
+    error_message TEXT,
+    created_at TIMESTAMP DEFAULT NOW(),
+    started_at TIMESTAMP,
+    completed_at TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_platform_export_jobs_requested_by ON platform_export_jobs(requested_by, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_platform_export_jobs_status ON platform_export_jobs(status);
+
+-- Per-item outcome, mirroring the shared PlatformExport record
+CREATE TABLE IF NOT EXISTS platform_export_job_items (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    job_id UUID NOT NULL REFERENCES platform_export_jobs(id) ON DELETE CASCADE,
+    source_id UUID NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'exported', 'published', 'error')),
+    product_id VARCHAR(255),
+    error_message TEXT,
+    exported_at TIMESTAMP,
+    UNIQUE (job_id, source_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_platform_export_job_items_source ON platform_export_job_items(source_id);
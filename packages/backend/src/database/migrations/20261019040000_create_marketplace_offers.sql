@@ -0,0 +1,44 @@
+-- Offer negotiation for marketplace listings (shared MarketplaceOffer type)
+
+CREATE TABLE IF NOT EXISTS marketplace_offers (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    listing_id UUID NOT NULL REFERENCES marketplace_listings(id),
+    buyer_id UUID NOT NULL REFERENCES users(id),
+    seller_id UUID NOT NULL REFERENCES users(id),
+    amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+    message TEXT,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'accepted', 'declined', 'countered', 'expired')),
+    counter_amount DECIMAL(10,2) CHECK (counter_amount IS NULL OR counter_amount > 0),
+    counter_message TEXT,
+    countered_at TIMESTAMP,
+    -- Buyer's checkout details, used to open the transaction once terms are agreed
+    shipping_address JSONB NOT NULL,
+    payment_method VARCHAR(50) NOT NULL DEFAULT 'pix',
+    agreed_amount DECIMAL(10,2),
+    transaction_id UUID REFERENCES marketplace_transactions(id),
+    expires_at TIMESTAMP NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- One open negotiation per buyer and listing
+CREATE UNIQUE INDEX IF NOT EXISTS idx_marketplace_offers_open
+    ON marketplace_offers(listing_id, buyer_id) WHERE status IN ('pending', 'countered');
+CREATE INDEX IF NOT EXISTS idx_marketplace_offers_listing_id ON marketplace_offers(listing_id, status);
+CREATE INDEX IF NOT EXISTS idx_marketplace_offers_buyer_id ON marketplace_offers(buyer_id);
+CREATE INDEX IF NOT EXISTS idx_marketplace_offers_seller_id ON marketplace_offers(seller_id);
+CREATE INDEX IF NOT EXISTS idx_marketplace_offers_expiry ON marketplace_offers(expires_at) WHERE status IN ('pending', 'countered');
+
+-- Negotiation thread: every offer, counter-offer and decision in order
+CREATE TABLE IF NOT EXISTS marketplace_offer_events (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    offer_id UUID NOT NULL REFERENCES marketplace_offers(id) ON DELETE CASCADE,
+    actor_id UUID REFERENCES users(id),
+    action VARCHAR(20) NOT NULL CHECK (action IN ('offered', 'countered', 'accepted', 'declined', 'expired')),
+    amount DECIMAL(10,2),
+    message TEXT,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_marketplace_offer_events_offer_id ON marketplace_offer_events(offer_id, created_at);
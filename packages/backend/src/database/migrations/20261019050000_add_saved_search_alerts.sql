@@ -0,0 +1,21 @@
+-- Alerts for saved marketplace searches (new matches and price drops)
+
+ALTER TABLE saved_searches ADD COLUMN IF NOT EXISTS email_alerts BOOLEAN DEFAULT false;
+ALTER TABLE saved_searches ADD COLUMN IF NOT EXISTS last_alerted_at TIMESTAMP;
+
+CREATE INDEX IF NOT EXISTS idx_saved_searches_user_id ON saved_searches(user_id);
+CREATE INDEX IF NOT EXISTS idx_saved_searches_alerts ON saved_searches(alerts_enabled) WHERE alerts_enabled = true;
+
+-- Listings already matched by a saved search, with the price at the last alert
+CREATE TABLE IF NOT EXISTS saved_search_matches (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    saved_search_id UUID NOT NULL REFERENCES saved_searches(id) ON DELETE CASCADE,
+    listing_id UUID NOT NULL REFERENCES marketplace_listings(id) ON DELETE CASCADE,
+    matched_price DECIMAL(10,2) NOT NULL,
+    last_alert_type VARCHAR(20) NOT NULL CHECK (last_alert_type IN ('new_match', 'price_drop')),
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW(),
+    UNIQUE(saved_search_id, listing_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_search_matches_listing_id ON saved_search_matches(listing_id);
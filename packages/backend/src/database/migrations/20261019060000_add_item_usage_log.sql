@@ -0,0 +1,11 @@
+-- Wear log used by item tracking and wear analytics (previously only in database/init.sql)
+
+CREATE TABLE IF NOT EXISTS item_usage_log (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    item_id UUID REFERENCES vufs_items(id) ON DELETE CASCADE,
+    wear_date TIMESTAMP NOT NULL DEFAULT NOW(),
+    notes TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_usage_log_item ON item_usage_log(item_id);
+CREATE INDEX IF NOT EXISTS idx_usage_log_date ON item_usage_log(wear_date);
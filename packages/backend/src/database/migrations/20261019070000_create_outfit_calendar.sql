@@ -0,0 +1,20 @@
+-- Personal outfit calendar: outfits planned for a day, optionally tied to a calendar event
+
+CREATE TABLE IF NOT EXISTS outfit_calendar_entries (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    outfit_id UUID NOT NULL REFERENCES outfits(id) ON DELETE CASCADE,
+    planned_date DATE NOT NULL,
+    calendar_event_id UUID REFERENCES calendar_events(id) ON DELETE SET NULL,
+    homies_list_id UUID REFERENCES homies_lists(id) ON DELETE SET NULL,
+    -- Who the user expects to see that day (homies list members plus anyone added by hand)
+    people UUID[] NOT NULL DEFAULT '{}',
+    notes TEXT,
+    status VARCHAR(20) NOT NULL DEFAULT 'planned' CHECK (status IN ('planned', 'worn')),
+    worn_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_outfit_calendar_user_date ON outfit_calendar_entries(user_id, planned_date);
+CREATE INDEX IF NOT EXISTS idx_outfit_calendar_outfit ON outfit_calendar_entries(outfit_id, planned_date);
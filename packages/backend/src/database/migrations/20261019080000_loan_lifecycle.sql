@@ -0,0 +1,43 @@
+-- Loan lifecycle: borrower confirmation, reminder state and condition check-in/out
+
+CREATE TABLE IF NOT EXISTS item_loans (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    item_id UUID REFERENCES vufs_items(id) ON DELETE CASCADE,
+    loanee_id UUID REFERENCES users(id) ON DELETE CASCADE,
+    loanee_name VARCHAR(255) NOT NULL,
+    loan_date TIMESTAMP NOT NULL,
+    expected_return_date TIMESTAMP,
+    actual_return_date TIMESTAMP,
+    notes TEXT,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Borrowers without an account have nothing to confirm
+ALTER TABLE item_loans
+    ADD COLUMN IF NOT EXISTS confirmation_status VARCHAR(20) NOT NULL DEFAULT 'not_required'
+        CHECK (confirmation_status IN ('not_required', 'pending', 'confirmed', 'declined')),
+    ADD COLUMN IF NOT EXISTS confirmed_at TIMESTAMP,
+    ADD COLUMN IF NOT EXISTS due_soon_reminded_at TIMESTAMP,
+    ADD COLUMN IF NOT EXISTS overdue_level INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS last_reminded_at TIMESTAMP;
+
+CREATE INDEX IF NOT EXISTS idx_item_loans_open_due ON item_loans(expected_return_date)
+    WHERE actual_return_date IS NULL;
+
+CREATE TABLE IF NOT EXISTS item_loan_condition_checks (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    loan_id UUID NOT NULL REFERENCES item_loans(id) ON DELETE CASCADE,
+    item_id UUID NOT NULL REFERENCES vufs_items(id) ON DELETE CASCADE,
+    phase VARCHAR(10) NOT NULL CHECK (phase IN ('check_out', 'check_in')),
+    condition_id UUID REFERENCES wardrobe_conditions(id) ON DELETE SET NULL,
+    condition_name VARCHAR(255) NOT NULL,
+    condition_rating DECIMAL(3,1) NOT NULL,
+    photos JSONB NOT NULL DEFAULT '[]',
+    notes TEXT,
+    recorded_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP DEFAULT NOW(),
+    UNIQUE (loan_id, phase)
+);
+
+CREATE INDEX IF NOT EXISTS idx_loan_condition_checks_item ON item_loan_condition_checks(item_id, created_at DESC);
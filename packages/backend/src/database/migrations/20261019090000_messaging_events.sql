@@ -0,0 +1,14 @@
+-- Durable log of messaging events so real-time clients can resume from a cursor after reconnecting.
+-- Typing and presence are ephemeral and never stored here.
+
+CREATE TABLE IF NOT EXISTS messaging_events (
+    id BIGSERIAL PRIMARY KEY,
+    conversation_id UUID NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+    event_type VARCHAR(40) NOT NULL,
+    actor_id UUID REFERENCES users(id) ON DELETE SET NULL,
+    payload JSONB NOT NULL DEFAULT '{}',
+    created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_messaging_events_conversation ON messaging_events(conversation_id, id);
+CREATE INDEX IF NOT EXISTS idx_messaging_events_created ON messaging_events(created_at);
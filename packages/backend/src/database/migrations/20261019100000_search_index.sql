@@ -0,0 +1,243 @@
+-- Unified full-text search index across items, SKUs, brands, users, posts and events
+
+CREATE EXTENSION IF NOT EXISTS unaccent;
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- unaccent() is only STABLE, which expression indexes do not accept
+CREATE OR REPLACE FUNCTION search_unaccent(value TEXT) RETURNS TEXT AS $$
+    SELECT public.unaccent('public.unaccent', COALESCE(value, ''))
+$$ LANGUAGE sql IMMUTABLE PARALLEL SAFE;
+
+-- Accent-insensitive stemming configurations ("calça" and "calca" share a lexeme)
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_ts_config WHERE cfgname = 'search_portuguese') THEN
+        CREATE TEXT SEARCH CONFIGURATION search_portuguese (COPY = portuguese);
+        ALTER TEXT SEARCH CONFIGURATION search_portuguese
+            ALTER MAPPING FOR hword, hword_part, word WITH unaccent, portuguese_stem;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_ts_config WHERE cfgname = 'search_english') THEN
+        CREATE TEXT SEARCH CONFIGURATION search_english (COPY = english);
+        ALTER TEXT SEARCH CONFIGURATION search_english
+            ALTER MAPPING FOR hword, hword_part, word WITH unaccent, english_stem;
+    END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS search_documents (
+    entity_type VARCHAR(20) NOT NULL CHECK (entity_type IN ('item', 'sku', 'brand', 'user', 'post', 'event')),
+    entity_id UUID NOT NULL,
+    title TEXT NOT NULL,
+    subtitle TEXT,
+    body TEXT,
+    image_url TEXT,
+    slug TEXT,
+    category TEXT,
+    brand_name TEXT,
+    colors TEXT[] NOT NULL DEFAULT '{}',
+    price DECIMAL(10,2),
+    currency VARCHAR(3),
+    owner_id UUID,
+    -- Brand of a SKU, so catalog documents follow brand renames and deletions
+    parent_id UUID,
+    is_public BOOLEAN NOT NULL DEFAULT TRUE,
+    search_vector TSVECTOR,
+    updated_at TIMESTAMP DEFAULT NOW(),
+    PRIMARY KEY (entity_type, entity_id)
+);
+
+CREATE OR REPLACE FUNCTION search_documents_vector_update() RETURNS TRIGGER AS $$
+BEGIN
+    NEW.search_vector :=
+        setweight(to_tsvector('search_portuguese', COALESCE(NEW.title, '')), 'A') ||
+        setweight(to_tsvector('search_english', COALESCE(NEW.title, '')), 'A') ||
+        setweight(to_tsvector('search_portuguese', concat_ws(' ', NEW.subtitle, NEW.brand_name, NEW.category)), 'B') ||
+        setweight(to_tsvector('search_english', concat_ws(' ', NEW.subtitle, NEW.brand_name, NEW.category)), 'B') ||
+        setweight(to_tsvector('simple', search_unaccent(array_to_string(NEW.colors, ' '))), 'C') ||
+        setweight(to_tsvector('search_portuguese', COALESCE(NEW.body, '')), 'D') ||
+        setweight(to_tsvector('search_english', COALESCE(NEW.body, '')), 'D');
+    NEW.updated_at := NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_search_documents_vector ON search_documents;
+CREATE TRIGGER trg_search_documents_vector
+    BEFORE INSERT OR UPDATE ON search_documents
+    FOR EACH ROW EXECUTE FUNCTION search_documents_vector_update();
+
+CREATE INDEX IF NOT EXISTS idx_search_documents_vector ON search_documents USING GIN (search_vector);
+-- Typo tolerance: trigram similarity on the unaccented title
+CREATE INDEX IF NOT EXISTS idx_search_documents_title_trgm
+    ON search_documents USING GIN (search_unaccent(lower(title)) gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_search_documents_category ON search_documents(category);
+CREATE INDEX IF NOT EXISTS idx_search_documents_brand ON search_documents(brand_name);
+CREATE INDEX IF NOT EXISTS idx_search_documents_colors ON search_documents USING GIN (colors);
+CREATE INDEX IF NOT EXISTS idx_search_documents_price ON search_documents(price);
+CREATE INDEX IF NOT EXISTS idx_search_documents_owner ON search_documents(owner_id);
+CREATE INDEX IF NOT EXISTS idx_search_documents_parent ON search_documents(parent_id);
+
+-- Backfill existing rows; writes after this keep their documents current through SearchIndexService
+
+INSERT INTO search_documents (entity_type, entity_id, title, subtitle, body, image_url, slug, category, brand_name, colors, price, currency, owner_id, parent_id, is_public)
+SELECT 'item', entity_id, title, subtitle, body, image_url, slug, category, brand_name, colors, price, currency, owner_id, parent_id, is_public FROM (
+    SELECT v.id AS entity_id,
+           COALESCE(NULLIF(v.metadata->>'name', ''),
+                    concat_ws(' ', v.brand_hierarchy->>'brand', v.category_hierarchy->>'page')) AS title,
+           concat_ws(' ', v.brand_hierarchy->>'line', v.brand_hierarchy->>'collaboration') AS subtitle,
+           concat_ws(' ', v.vufs_code, v.metadata->>'description', v.category_hierarchy->>'page',
+                     v.category_hierarchy->>'blueSubcategory', v.category_hierarchy->>'whiteSubcategory',
+                     v.category_hierarchy->>'graySubcategory', array_to_string(v.search_keywords, ' ')) AS body,
+           (SELECT ii.image_url FROM item_images ii
+             WHERE ii.item_id = v.id
+             ORDER BY ii.is_primary DESC, ii.created_at DESC LIMIT 1) AS image_url,
+           v.vufs_code AS slug,
+           COALESCE(NULLIF(v.category_hierarchy->>'graySubcategory', ''), NULLIF(v.category_hierarchy->>'whiteSubcategory', ''),
+                    NULLIF(v.category_hierarchy->>'blueSubcategory', ''), NULLIF(v.category_hierarchy->>'page', '')) AS category,
+           NULLIF(v.brand_hierarchy->>'brand', '') AS brand_name,
+           ARRAY(
+               SELECT DISTINCT lower(color_name) FROM (
+                   SELECT COALESCE(c->>'name', c->>'primary') AS color_name
+                   FROM jsonb_array_elements(CASE WHEN jsonb_typeof(v.metadata->'colors') = 'array'
+                                                  THEN v.metadata->'colors' ELSE '[]'::jsonb END) c
+                   UNION ALL
+                   SELECT vc.name FROM vufs_colors vc WHERE vc.id::text = v.metadata->>'colorId'
+               ) colors WHERE color_name IS NOT NULL AND color_name <> ''
+           ) AS colors,
+           CASE WHEN v.metadata->'pricing'->>'retailPrice' ~ '^[0-9]+(\.[0-9]+)?$'
+                THEN (v.metadata->'pricing'->>'retailPrice')::numeric END AS price,
+           'BRL' AS currency,
+           v.owner_id,
+           NULL::uuid AS parent_id,
+           COALESCE(v.ownership_info->>'visibility', 'public') = 'public' AS is_public
+    FROM vufs_items v
+    WHERE v.deleted_at IS NULL
+) source
+WHERE source.title IS NOT NULL
+ON CONFLICT (entity_type, entity_id) DO NOTHING;
+
+INSERT INTO search_documents (entity_type, entity_id, title, subtitle, body, image_url, slug, category, brand_name, colors, price, currency, owner_id, parent_id, is_public)
+SELECT 'sku', entity_id, title, subtitle, body, image_url, slug, category, brand_name, colors, price, currency, owner_id, parent_id, is_public FROM (
+    SELECT si.id AS entity_id,
+           si.name AS title,
+           concat_ws(' ', si.collection, bl.name, si.line) AS subtitle,
+           concat_ws(' ', si.code, si.description, array_to_string(si.materials, ' '), m.name) AS body,
+           (SELECT img->>'url' FROM jsonb_array_elements(CASE WHEN jsonb_typeof(si.images) = 'array'
+                                                              THEN si.images ELSE '[]'::jsonb END) img
+             ORDER BY (img->>'isPrimary')::boolean DESC NULLS LAST LIMIT 1) AS image_url,
+           si.code AS slug,
+           a.name AS category,
+           ba.brand_info->>'name' AS brand_name,
+           ARRAY(SELECT lower(vc.name) FROM vufs_colors vc WHERE vc.id::text = si.metadata->>'colorId') AS colors,
+           si.retail_price_brl AS price,
+           'BRL' AS currency,
+           NULL::uuid AS owner_id,
+           si.brand_id AS parent_id,
+           TRUE AS is_public
+    FROM sku_items si
+    JOIN brand_accounts ba ON ba.id = si.brand_id
+    LEFT JOIN brand_lines bl ON bl.id = si.line_id
+    LEFT JOIN vufs_attribute_values a ON a.id = NULLIF(si.category->>'apparelId', '')::uuid
+    LEFT JOIN vufs_materials m ON m.id = NULLIF(si.category->>'materialId', '')::uuid
+    WHERE si.deleted_at IS NULL
+      AND ba.deleted_at IS NULL
+) source
+WHERE source.title IS NOT NULL
+ON CONFLICT (entity_type, entity_id) DO NOTHING;
+
+INSERT INTO search_documents (entity_type, entity_id, title, subtitle, body, image_url, slug, category, brand_name, colors, price, currency, owner_id, parent_id, is_public)
+SELECT 'brand', entity_id, title, subtitle, body, image_url, slug, category, brand_name, colors, price, currency, owner_id, parent_id, is_public FROM (
+    SELECT ba.id AS entity_id,
+           ba.brand_info->>'name' AS title,
+           COALESCE(ba.brand_info->>'businessType', 'brand') AS subtitle,
+           concat_ws(' ', ba.brand_info->>'description', ba.brand_info->>'country') AS body,
+           ba.brand_info->>'logo' AS image_url,
+           ba.brand_info->>'slug' AS slug,
+           NULL AS category,
+           ba.brand_info->>'name' AS brand_name,
+           '{}'::text[] AS colors,
+           NULL::numeric AS price,
+           NULL AS currency,
+           ba.user_id AS owner_id,
+           NULL::uuid AS parent_id,
+           TRUE AS is_public
+    FROM brand_accounts ba
+    WHERE ba.deleted_at IS NULL
+      AND NULLIF(ba.brand_info->>'name', '') IS NOT NULL
+) source
+WHERE source.title IS NOT NULL
+ON CONFLICT (entity_type, entity_id) DO NOTHING;
+
+INSERT INTO search_documents (entity_type, entity_id, title, subtitle, body, image_url, slug, category, brand_name, colors, price, currency, owner_id, parent_id, is_public)
+SELECT 'user', entity_id, title, subtitle, body, image_url, slug, category, brand_name, colors, price, currency, owner_id, parent_id, is_public FROM (
+    SELECT u.id AS entity_id,
+           COALESCE(NULLIF(u.profile->>'name', ''), u.username) AS title,
+           u.username AS subtitle,
+           u.profile->>'bio' AS body,
+           COALESCE(u.profile->>'avatarUrl', u.profile->>'profilePicture') AS image_url,
+           u.username AS slug,
+           NULL AS category,
+           NULL AS brand_name,
+           '{}'::text[] AS colors,
+           NULL::numeric AS price,
+           NULL AS currency,
+           u.id AS owner_id,
+           NULL::uuid AS parent_id,
+           TRUE AS is_public
+    FROM users u
+    WHERE u.status = 'active'
+      AND u.username IS NOT NULL
+) source
+WHERE source.title IS NOT NULL
+ON CONFLICT (entity_type, entity_id) DO NOTHING;
+
+-- social_posts predates the migrations and only exists where init.sql was loaded
+DO $$
+BEGIN
+    IF to_regclass('public.social_posts') IS NOT NULL THEN
+        INSERT INTO search_documents (entity_type, entity_id, title, subtitle, body, image_url, slug, category, brand_name, colors, price, currency, owner_id, parent_id, is_public)
+        SELECT 'post', entity_id, title, subtitle, body, image_url, slug, category, brand_name, colors, price, currency, owner_id, parent_id, is_public FROM (
+            SELECT sp.id AS entity_id,
+                   COALESCE(NULLIF(sp.content->>'title', ''), left(sp.content->>'description', 120), sp.post_type) AS title,
+                   u.username AS subtitle,
+                   concat_ws(' ', sp.content->>'description',
+                             (SELECT string_agg(tag, ' ') FROM jsonb_array_elements_text(
+                                 CASE WHEN jsonb_typeof(sp.content->'tags') = 'array' THEN sp.content->'tags' ELSE '[]'::jsonb END) tag)) AS body,
+                   sp.content->'imageUrls'->>0 AS image_url,
+                   sp.slug,
+                   NULL AS category,
+                   NULL AS brand_name,
+                   '{}'::text[] AS colors,
+                   NULL::numeric AS price,
+                   NULL AS currency,
+                   sp.user_id AS owner_id,
+                   NULL::uuid AS parent_id,
+                   sp.visibility = 'public' AS is_public
+            FROM social_posts sp
+            LEFT JOIN users u ON u.id = sp.user_id
+        ) source
+        WHERE source.title IS NOT NULL
+        ON CONFLICT (entity_type, entity_id) DO NOTHING;
+    END IF;
+END $$;
+
+INSERT INTO search_documents (entity_type, entity_id, title, subtitle, body, image_url, slug, category, brand_name, colors, price, currency, owner_id, parent_id, is_public)
+SELECT 'event', entity_id, title, subtitle, body, image_url, slug, category, brand_name, colors, price, currency, owner_id, parent_id, is_public FROM (
+    SELECT e.id AS entity_id,
+           e.name AS title,
+           concat_ws(', ', e.venue_name, e.venue_city, e.venue_country) AS subtitle,
+           concat_ws(' ', e.description, e.organizer_name, replace(e.event_type, '_', ' ')) AS body,
+           COALESCE(e.master_logo, e.banner) AS image_url,
+           e.slug,
+           e.event_type AS category,
+           NULL AS brand_name,
+           '{}'::text[] AS colors,
+           NULL::numeric AS price,
+           NULL AS currency,
+           e.organizer_id AS owner_id,
+           NULL::uuid AS parent_id,
+           TRUE AS is_public
+    FROM events e
+    WHERE e.deleted_at IS NULL
+) source
+WHERE source.title IS NOT NULL
+ON CONFLICT (entity_type, entity_id) DO NOTHING;
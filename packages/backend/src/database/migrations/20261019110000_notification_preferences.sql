@@ -0,0 +1,45 @@
+-- Per-channel notification preferences, quiet hours and digest batching
+
+-- One row per (event type, channel) the user has changed; missing rows fall back to defaults
+CREATE TABLE IF NOT EXISTS notification_preferences (
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    event_type VARCHAR(30) NOT NULL
+        CHECK (event_type IN ('follow', 'like', 'comment', 'offer', 'message', 'loan_reminder', 'calendar_drop')),
+    channel VARCHAR(10) NOT NULL CHECK (channel IN ('in_app', 'email', 'push')),
+    mode VARCHAR(10) NOT NULL CHECK (mode IN ('instant', 'digest', 'off')),
+    updated_at TIMESTAMP DEFAULT NOW(),
+    PRIMARY KEY (user_id, event_type, channel)
+);
+
+CREATE TABLE IF NOT EXISTS notification_settings (
+    user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+    quiet_hours_start TIME,
+    quiet_hours_end TIME,
+    timezone VARCHAR(64) NOT NULL DEFAULT 'America/Sao_Paulo',
+    digest_hour SMALLINT NOT NULL DEFAULT 8 CHECK (digest_hour BETWEEN 0 AND 23),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Email and push sends held back by quiet hours or batched into the daily digest.
+-- The content is copied so deliveries survive the in-app notification being deleted.
+CREATE TABLE IF NOT EXISTS notification_deliveries (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    notification_id UUID REFERENCES notifications(id) ON DELETE SET NULL,
+    channel VARCHAR(10) NOT NULL CHECK (channel IN ('email', 'push')),
+    mode VARCHAR(10) NOT NULL CHECK (mode IN ('deferred', 'digest')),
+    notification_type VARCHAR(50) NOT NULL,
+    title TEXT NOT NULL,
+    message TEXT,
+    link TEXT,
+    deliver_after TIMESTAMP NOT NULL,
+    status VARCHAR(10) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed')),
+    sent_at TIMESTAMP,
+    error TEXT,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_due
+    ON notification_deliveries(deliver_after)
+    WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_user ON notification_deliveries(user_id);
@@ -0,0 +1,27 @@
+-- Device tokens for push delivery and pending Expo push receipts
+
+-- A token belongs to one user at a time; signing in on a shared device moves it
+CREATE TABLE IF NOT EXISTS push_devices (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    token TEXT NOT NULL UNIQUE,
+    provider VARCHAR(10) NOT NULL CHECK (provider IN ('expo', 'fcm', 'apns')),
+    platform VARCHAR(10) CHECK (platform IN ('ios', 'android', 'web')),
+    session_id VARCHAR(255),
+    device_name VARCHAR(255),
+    app_version VARCHAR(50),
+    last_seen_at TIMESTAMP DEFAULT NOW(),
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_push_devices_user ON push_devices(user_id);
+CREATE INDEX IF NOT EXISTS idx_push_devices_session ON push_devices(user_id, session_id);
+
+-- Expo accepts pushes with a ticket and reports the outcome later as a receipt
+CREATE TABLE IF NOT EXISTS push_tickets (
+    id VARCHAR(64) PRIMARY KEY,
+    device_id UUID NOT NULL REFERENCES push_devices(id) ON DELETE CASCADE,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_push_tickets_created ON push_tickets(created_at);
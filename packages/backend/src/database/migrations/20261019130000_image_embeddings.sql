@@ -0,0 +1,23 @@
+-- Image embeddings for visual similarity search over wardrobe items, SKUs and listings
+
+CREATE TABLE IF NOT EXISTS image_embeddings (
+    entity_type VARCHAR(10) NOT NULL CHECK (entity_type IN ('item', 'sku', 'listing')),
+    entity_id UUID NOT NULL,
+    image_url TEXT NOT NULL,
+    -- Item owner or listing seller; NULL for catalog SKUs
+    owner_id UUID,
+    -- Embedding model name; vectors from different models are not comparable
+    model VARCHAR(50) NOT NULL,
+    -- L2-normalised, so the dot product is the cosine similarity
+    embedding REAL[] NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW(),
+    PRIMARY KEY (entity_type, entity_id, image_url, model)
+);
+
+CREATE INDEX IF NOT EXISTS idx_image_embeddings_model_type ON image_embeddings(model, entity_type);
+CREATE INDEX IF NOT EXISTS idx_image_embeddings_owner ON image_embeddings(owner_id) WHERE owner_id IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION image_similarity(a REAL[], b REAL[]) RETURNS REAL
+LANGUAGE sql IMMUTABLE PARALLEL SAFE AS $$
+    SELECT SUM(x * y)::real FROM unnest(a, b) AS t(x, y)
+$$;
@@ -0,0 +1,38 @@
+-- Persistent queue for wardrobe image processing (background removal, resizing, conversions)
+
+-- A batch groups the jobs from one request; the idempotency key makes client retries return the same batch
+CREATE TABLE IF NOT EXISTS image_processing_batches (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    item_id UUID NOT NULL REFERENCES vufs_items(id) ON DELETE CASCADE,
+    idempotency_key VARCHAR(255),
+    created_at TIMESTAMP DEFAULT NOW(),
+    UNIQUE (user_id, idempotency_key)
+);
+
+CREATE TABLE IF NOT EXISTS image_processing_jobs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    batch_id UUID NOT NULL REFERENCES image_processing_batches(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    item_id UUID NOT NULL REFERENCES vufs_items(id) ON DELETE CASCADE,
+    image_id UUID NOT NULL REFERENCES item_images(id) ON DELETE CASCADE,
+    operation VARCHAR(30) NOT NULL
+        CHECK (operation IN ('background_removal', 'aspect_ratio', 'feathering', 'heic_conversion', 'thumbnail')),
+    options JSONB NOT NULL DEFAULT '{}',
+    status VARCHAR(10) NOT NULL DEFAULT 'queued'
+        CHECK (status IN ('queued', 'running', 'succeeded', 'failed', 'cancelled')),
+    progress SMALLINT NOT NULL DEFAULT 0 CHECK (progress BETWEEN 0 AND 100),
+    attempts SMALLINT NOT NULL DEFAULT 0,
+    max_attempts SMALLINT NOT NULL DEFAULT 3,
+    run_after TIMESTAMP NOT NULL DEFAULT NOW(),
+    locked_at TIMESTAMP,
+    result JSONB,
+    error TEXT,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW(),
+    completed_at TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_image_jobs_due ON image_processing_jobs(run_after) WHERE status = 'queued';
+CREATE INDEX IF NOT EXISTS idx_image_jobs_running ON image_processing_jobs(user_id) WHERE status = 'running';
+CREATE INDEX IF NOT EXISTS idx_image_jobs_batch ON image_processing_jobs(batch_id);
@@ -0,0 +1,2 @@
+-- Blurhash placeholders shown while wardrobe images load; backfill with `npm run images:blurhash`
+ALTER TABLE item_images ADD COLUMN IF NOT EXISTS blurhash VARCHAR(64);
@@ -0,0 +1,41 @@
+-- Brand-specific size charts, so a brand's own labels (e.g. Havaianas 41/42) convert
+-- to other standards the way the brand intends instead of through the generic tables
+
+CREATE TABLE IF NOT EXISTS brand_size_charts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    brand_id UUID NOT NULL REFERENCES brand_accounts(id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL,
+    category VARCHAR(20) NOT NULL CHECK (category IN ('apparel', 'footwear')),
+    gender VARCHAR(10) NOT NULL DEFAULT 'unisex' CHECK (gender IN ('men', 'women', 'unisex')),
+    -- Narrows the chart to one apparel type (e.g. jeans); NULL applies to the whole category
+    apparel_id UUID REFERENCES vufs_attribute_values(id) ON DELETE SET NULL,
+    notes TEXT,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_brand_size_charts_lookup
+    ON brand_size_charts (brand_id, category, gender) WHERE is_active = true;
+
+-- One row per size the brand sells; conversions maps a standard (BR, US, EU, UK, JP, IT, FR) to its value
+CREATE TABLE IF NOT EXISTS brand_size_chart_entries (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    chart_id UUID NOT NULL REFERENCES brand_size_charts(id) ON DELETE CASCADE,
+    label VARCHAR(50) NOT NULL,
+    size_id UUID REFERENCES vufs_sizes(id) ON DELETE SET NULL,
+    conversions JSONB NOT NULL DEFAULT '{}',
+    sort_order INTEGER NOT NULL DEFAULT 0,
+    UNIQUE (chart_id, label)
+);
+
+-- Body or garment POM range each size is cut for
+CREATE TABLE IF NOT EXISTS brand_size_chart_ranges (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    entry_id UUID NOT NULL REFERENCES brand_size_chart_entries(id) ON DELETE CASCADE,
+    pom_id UUID NOT NULL REFERENCES pom_definitions(id) ON DELETE CASCADE,
+    min_value DECIMAL(10,2),
+    max_value DECIMAL(10,2),
+    UNIQUE (entry_id, pom_id),
+    CHECK (min_value IS NOT NULL OR max_value IS NOT NULL)
+);
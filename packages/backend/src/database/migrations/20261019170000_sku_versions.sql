@@ -0,0 +1,22 @@
+-- Version history for SKUs: every edit stores the field-level diff and the
+-- resulting values, so editors can see who changed what and roll back
+
+CREATE TABLE IF NOT EXISTS sku_versions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    sku_id UUID NOT NULL REFERENCES sku_items(id) ON DELETE CASCADE,
+    version INTEGER NOT NULL,
+    change_type VARCHAR(20) NOT NULL CHECK (change_type IN ('baseline', 'update', 'rollback')),
+    -- [{ field, from, to }] relative to the previous version
+    changes JSONB NOT NULL DEFAULT '[]',
+    -- Tracked fields as they were after this version
+    snapshot JSONB NOT NULL,
+    changed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    -- Brand team roles and title of the editor at the time of the change
+    changed_by_roles TEXT[] NOT NULL DEFAULT '{}',
+    changed_by_title VARCHAR(255),
+    rolled_back_to INTEGER,
+    created_at TIMESTAMP DEFAULT NOW(),
+    UNIQUE (sku_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_sku_versions_sku ON sku_versions (sku_id, version DESC);
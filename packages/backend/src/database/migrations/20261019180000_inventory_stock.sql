@@ -0,0 +1,76 @@
+-- Per-SKU-variant stock across a brand's locations, checkout reservations and
+-- the brand stock a marketplace listing sells from
+
+-- Created by database/init.sql on older installs
+CREATE TABLE IF NOT EXISTS inventory_items (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    brand_id UUID NOT NULL REFERENCES brand_accounts(id) ON DELETE CASCADE,
+    catalog_item_id UUID,
+    sku VARCHAR(100) NOT NULL,
+    quantity INTEGER NOT NULL DEFAULT 0,
+    reserved_quantity INTEGER NOT NULL DEFAULT 0,
+    available_quantity INTEGER NOT NULL DEFAULT 0,
+    reorder_level INTEGER DEFAULT 0,
+    reorder_quantity INTEGER DEFAULT 0,
+    cost DECIMAL(10,2) DEFAULT 0,
+    location VARCHAR(255),
+    supplier VARCHAR(255),
+    last_restocked TIMESTAMP,
+    notes TEXT,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS inventory_movements (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    inventory_item_id UUID NOT NULL REFERENCES inventory_items(id) ON DELETE CASCADE,
+    movement_type VARCHAR(20) NOT NULL CHECK (movement_type IN ('in', 'out', 'adjustment', 'reserved', 'released')),
+    quantity INTEGER NOT NULL,
+    reason VARCHAR(255) NOT NULL,
+    reference VARCHAR(100),
+    performed_by UUID NOT NULL REFERENCES users(id),
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_inventory_movements_item_id ON inventory_movements (inventory_item_id);
+CREATE INDEX IF NOT EXISTS idx_inventory_movements_date ON inventory_movements (created_at DESC);
+
+-- Stock rows for SKU variants are kept per location rather than per catalog item
+ALTER TABLE inventory_items ALTER COLUMN catalog_item_id DROP NOT NULL;
+ALTER TABLE inventory_items DROP CONSTRAINT IF EXISTS inventory_items_brand_id_sku_key;
+ALTER TABLE inventory_items ADD COLUMN IF NOT EXISTS sku_item_id UUID REFERENCES sku_items(id) ON DELETE CASCADE;
+-- NULL is the brand's own (online/warehouse) stock
+ALTER TABLE inventory_items ADD COLUMN IF NOT EXISTS store_id UUID REFERENCES stores(id) ON DELETE CASCADE;
+-- Whether the item is currently at or below its reorder level and the team was alerted
+ALTER TABLE inventory_items ADD COLUMN IF NOT EXISTS low_stock_alerted_at TIMESTAMP;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_inventory_items_sku_location
+    ON inventory_items (sku_item_id, COALESCE(store_id, '00000000-0000-0000-0000-000000000000'::uuid))
+    WHERE sku_item_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_inventory_items_catalog_sku
+    ON inventory_items (brand_id, sku)
+    WHERE sku_item_id IS NULL;
+CREATE INDEX IF NOT EXISTS idx_inventory_items_store ON inventory_items (store_id);
+
+-- Stock held for a checkout until it completes, is released or expires
+CREATE TABLE IF NOT EXISTS inventory_reservations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    inventory_item_id UUID NOT NULL REFERENCES inventory_items(id) ON DELETE CASCADE,
+    quantity INTEGER NOT NULL CHECK (quantity > 0),
+    status VARCHAR(20) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'committed', 'released', 'expired')),
+    -- Marketplace transaction or store order the stock is held for
+    reference VARCHAR(100),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    -- NULL once payment is confirmed: held until the sale completes
+    expires_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_inventory_reservations_item ON inventory_reservations (inventory_item_id);
+CREATE INDEX IF NOT EXISTS idx_inventory_reservations_reference ON inventory_reservations (reference);
+CREATE INDEX IF NOT EXISTS idx_inventory_reservations_expiry ON inventory_reservations (expires_at) WHERE status = 'active';
+
+-- Listings that sell new items from a brand's stock rather than a user's own piece
+ALTER TABLE marketplace_listings ADD COLUMN IF NOT EXISTS stock_sku_item_id UUID REFERENCES sku_items(id) ON DELETE SET NULL;
+ALTER TABLE marketplace_listings ADD COLUMN IF NOT EXISTS stock_store_id UUID REFERENCES stores(id) ON DELETE SET NULL;
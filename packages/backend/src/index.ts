@@ -38,7 +38,11 @@ import { errorHandlingService } from './services/errorHandlingService';
 import { performanceMonitoringService } from './services/performanceMonitoringService';
 import { healthCheckService } from './services/healthCheckService';
 import { LocalStorageService } from './services/localStorageService';
+import { ImageJobQueueService } from './services/imageJobQueueService';
+import { BackgroundJobScheduler } from './services/backgroundJobScheduler';
 import { gcsStorageProxy } from './middleware/gcsStorageProxy';
+import { StorageController } from './controllers/storageController';
+import { RealtimeGateway } from './services/realtimeGateway';
 
 const app = express();
 // Force backend restart
@@ -103,6 +107,9 @@ app.use('/storage', cors({
   credentials: true
 }));
 
+// On-demand image derivatives (signed URLs issued by the API)
+app.get('/storage/transform/*', StorageController.transformImage);
+
 // Serve static files from storage directory, with GCS fallback
 app.use('/storage', gcsStorageProxy);
 app.use('/storage', express.static(path.join(__dirname, '../storage')));
@@ -187,7 +194,7 @@ app.use('*', (req, res) => {
 app.use(errorHandlingService.createErrorMiddleware());
 
 if (process.env.NODE_ENV !== 'test') {
-  app.listen(PORT, async () => {
+  const server = app.listen(PORT, async () => {
     console.log(`🚀 Vangarments backend server running on port ${PORT}`);
     console.log(`📚 API documentation available at http://localhost:${PORT}/api/health`);
 
@@ -199,6 +206,12 @@ if (process.env.NODE_ENV !== 'test') {
       console.error('⚠️  Local storage initialization failed:', error);
     }
 
+    // Image processing queue worker
+    ImageJobQueueService.start();
+
+    // Reminders, expiries, retries and other periodic sweeps
+    BackgroundJobScheduler.start();
+
     // Initialize configuration watcher
     try {
       console.log('⚙️  Configuration watcher initialized successfully');
@@ -215,6 +228,9 @@ if (process.env.NODE_ENV !== 'test') {
     }
   });
 
+  // WebSocket gateway for live messaging (SSE fallback is served by /api/v1/messages/stream)
+  RealtimeGateway.attach(server);
+
 }
 
 export default app;
\ No newline at end of file
@@ -1,29 +1,27 @@
 import { db } from '../database/connection';
 
+export interface TrainingLabels {
+  domain: string | null;
+  brand: string | null;
+  pieceType: string | null;
+  color: string | null;
+  material: string | null;
+  viewpoint?: string | null;
+  style?: string[];
+  fit?: string;
+}
+
 export interface TrainingData {
   id: string;
   imageUrl: string;
-  groundTruthLabels: {
-    domain: string;
-    brand: string;
-    pieceType: string;
-    color: string;
-    material: string;
-    style?: string[];
-    fit?: string;
-  };
+  groundTruthLabels: TrainingLabels;
   userFeedback?: {
     userId: string;
     corrections: any;
     confidence: number;
     timestamp: Date;
   };
-  aiPredictions?: {
-    domain: string;
-    brand: string;
-    pieceType: string;
-    color: string;
-    material: string;
+  aiPredictions?: Omit<TrainingLabels, 'style' | 'fit'> & {
     confidence: number;
   };
   modelVersion: string;
@@ -1,4 +1,5 @@
 import { db } from '../database/connection';
+import { SearchIndexService } from '../services/searchIndexService';
 
 export interface BrandInfo {
   name: string;
@@ -108,6 +109,7 @@ export class BrandAccountModel {
 
     const result = await db.query(query, values);
     const brand = this.mapRowToBrandAccount(result.rows[0]);
+    SearchIndexService.queueReindex('brand', brand.id);
 
     // Ensure owner follows @v
     try {
@@ -347,24 +349,30 @@ export class BrandAccountModel {
     `;
 
     const result = await db.query(query, values);
+    if (updateData.brandInfo) {
+      SearchIndexService.queueBrandReindex(id);
+    }
     return result.rows.length > 0 ? this.mapRowToBrandAccount(result.rows[0]) : null;
   }
 
   static async delete(id: string): Promise<boolean> {
     const query = 'DELETE FROM brand_accounts WHERE id = $1';
     const result = await db.query(query, [id]);
+    SearchIndexService.queueBrandReindex(id);
     return (result.rowCount || 0) > 0;
   }
 
   static async softDelete(id: string): Promise<boolean> {
     const query = 'UPDATE brand_accounts SET deleted_at = NOW() WHERE id = $1';
     const result = await db.query(query, [id]);
+    SearchIndexService.queueBrandReindex(id);
     return (result.rowCount || 0) > 0;
   }
 
   static async restore(id: string): Promise<boolean> {
     const query = 'UPDATE brand_accounts SET deleted_at = NULL WHERE id = $1';
     const result = await db.query(query, [id]);
+    SearchIndexService.queueBrandReindex(id);
     return (result.rowCount || 0) > 0;
   }
 
@@ -0,0 +1,253 @@
+import { PoolClient } from 'pg';
+import { db } from '../database/connection';
+
+export type SizeChartCategory = 'apparel' | 'footwear';
+export type SizeChartGender = 'men' | 'women' | 'unisex';
+
+export interface SizeChartRange {
+    pomId: string;
+    pomCode?: string;
+    pomName?: string;
+    unit?: string;
+    min: number | null;
+    max: number | null;
+}
+
+export interface SizeChartEntry {
+    id: string;
+    label: string;
+    sizeId: string | null;
+    conversions: Record<string, string>; // standard -> value, e.g. { US: '10', EU: '44' }
+    sortOrder: number;
+    ranges: SizeChartRange[];
+}
+
+export interface BrandSizeChart {
+    id: string;
+    brandId: string;
+    brandName?: string;
+    name: string;
+    category: SizeChartCategory;
+    gender: SizeChartGender;
+    apparelId: string | null;
+    notes: string | null;
+    entries: SizeChartEntry[];
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export interface BrandSizeChartEntryInput {
+    label: string;
+    sizeId?: string | null;
+    conversions?: Record<string, string>;
+    ranges?: Array<{ pomId: string; min?: number | null; max?: number | null }>;
+}
+
+export interface BrandSizeChartInput {
+    brandId: string;
+    name: string;
+    category: SizeChartCategory;
+    gender?: SizeChartGender;
+    apparelId?: string | null;
+    notes?: string | null;
+    entries?: BrandSizeChartEntryInput[];
+}
+
+export class BrandSizeChartModel {
+    static async findAll(filters: { brandId?: string; category?: SizeChartCategory; gender?: SizeChartGender } = {}): Promise<BrandSizeChart[]> {
+        const conditions = ['c.is_active = true'];
+        const values: any[] = [];
+        if (filters.brandId) {
+            values.push(filters.brandId);
+            conditions.push(`c.brand_id = $${values.length}`);
+        }
+        if (filters.category) {
+            values.push(filters.category);
+            conditions.push(`c.category = $${values.length}`);
+        }
+        if (filters.gender) {
+            values.push(filters.gender);
+            conditions.push(`c.gender = $${values.length}`);
+        }
+
+        const result = await db.query(
+            `SELECT c.*, ba.brand_info->>'name' AS brand_name
+             FROM brand_size_charts c
+             LEFT JOIN brand_accounts ba ON ba.id = c.brand_id
+             WHERE ${conditions.join(' AND ')}
+             ORDER BY brand_name, c.category, c.gender, c.name`,
+            values
+        );
+        return this.hydrate(result.rows);
+    }
+
+    static async findById(id: string): Promise<BrandSizeChart | null> {
+        const result = await db.query(
+            `SELECT c.*, ba.brand_info->>'name' AS brand_name
+             FROM brand_size_charts c
+             LEFT JOIN brand_accounts ba ON ba.id = c.brand_id
+             WHERE c.id = $1 AND c.is_active = true`,
+            [id]
+        );
+        const [chart] = await this.hydrate(result.rows);
+        return chart || null;
+    }
+
+    /**
+     * Charts a brand publishes for a category, best match first: a chart for the
+     * apparel type before one for the whole category, and the exact gender
+     * before unisex
+     */
+    static async findForBrand(
+        brandId: string,
+        category: SizeChartCategory,
+        gender: SizeChartGender,
+        apparelId?: string | null
+    ): Promise<BrandSizeChart[]> {
+        const result = await db.query(
+            `SELECT c.*, ba.brand_info->>'name' AS brand_name
+             FROM brand_size_charts c
+             LEFT JOIN brand_accounts ba ON ba.id = c.brand_id
+             WHERE c.brand_id = $1 AND c.category = $2 AND c.is_active = true
+               AND (c.gender = $3 OR c.gender = 'unisex')
+               AND (c.apparel_id IS NULL OR c.apparel_id = $4)
+             ORDER BY (c.apparel_id IS NOT NULL) DESC, (c.gender = $3) DESC, c.created_at`,
+            [brandId, category, gender, apparelId || null]
+        );
+        return this.hydrate(result.rows);
+    }
+
+    static async create(data: BrandSizeChartInput): Promise<BrandSizeChart> {
+        const id = await db.transaction(async (client) => {
+            const result = await client.query(
+                `INSERT INTO brand_size_charts (brand_id, name, category, gender, apparel_id, notes)
+                 VALUES ($1, $2, $3, $4, $5, $6) RETURNING id`,
+                [data.brandId, data.name, data.category, data.gender || 'unisex', data.apparelId || null, data.notes || null]
+            );
+            await this.insertEntries(client, result.rows[0].id, data.entries || []);
+            return result.rows[0].id as string;
+        });
+
+        return this.findById(id) as Promise<BrandSizeChart>;
+    }
+
+    /**
+     * Update chart fields; entries, when given, replace the existing ones
+     */
+    static async update(id: string, data: Partial<BrandSizeChartInput>): Promise<BrandSizeChart | null> {
+        const updated = await db.transaction(async (client) => {
+            const columns: Record<string, any> = {
+                brand_id: data.brandId,
+                name: data.name,
+                category: data.category,
+                gender: data.gender,
+                apparel_id: data.apparelId,
+                notes: data.notes,
+            };
+            const sets: string[] = ['updated_at = NOW()'];
+            const values: any[] = [];
+            for (const [column, value] of Object.entries(columns)) {
+                if (value !== undefined) {
+                    values.push(value);
+                    sets.push(`${column} = $${values.length}`);
+                }
+            }
+            values.push(id);
+            const result = await client.query(
+                `UPDATE brand_size_charts SET ${sets.join(', ')} WHERE id = $${values.length} AND is_active = true`,
+                values
+            );
+            if (!result.rowCount) {
+                return false;
+            }
+
+            if (data.entries !== undefined) {
+                await client.query('DELETE FROM brand_size_chart_entries WHERE chart_id = $1', [id]);
+                await this.insertEntries(client, id, data.entries);
+            }
+            return true;
+        });
+
+        return updated ? this.findById(id) : null;
+    }
+
+    static async delete(id: string): Promise<boolean> {
+        const result = await db.query(
+            'UPDATE brand_size_charts SET is_active = false, updated_at = NOW() WHERE id = $1 AND is_active = true',
+            [id]
+        );
+        return (result.rowCount || 0) > 0;
+    }
+
+    private static async insertEntries(client: PoolClient, chartId: string, entries: BrandSizeChartEntryInput[]): Promise<void> {
+        for (const [index, entry] of entries.entries()) {
+            const result = await client.query(
+                `INSERT INTO brand_size_chart_entries (chart_id, label, size_id, conversions, sort_order)
+                 VALUES ($1, $2, $3, $4, $5) RETURNING id`,
+                [chartId, entry.label, entry.sizeId || null, JSON.stringify(entry.conversions || {}), index]
+            );
+
+            for (const range of entry.ranges || []) {
+                await client.query(
+                    `INSERT INTO brand_size_chart_ranges (entry_id, pom_id, min_value, max_value)
+                     VALUES ($1, $2, $3, $4)`,
+                    [result.rows[0].id, range.pomId, range.min ?? null, range.max ?? null]
+                );
+            }
+        }
+    }
+
+    private static async hydrate(rows: any[]): Promise<BrandSizeChart[]> {
+        if (rows.length === 0) return [];
+
+        const entryResult = await db.query(
+            `SELECT e.*,
+                    COALESCE(
+                        json_agg(json_build_object(
+                            'pomId', r.pom_id, 'pomCode', pd.code, 'pomName', pd.name,
+                            'unit', pd.measurement_unit, 'min', r.min_value, 'max', r.max_value
+                        ) ORDER BY pd.sort_order) FILTER (WHERE r.id IS NOT NULL),
+                        '[]'
+                    ) AS ranges
+             FROM brand_size_chart_entries e
+             LEFT JOIN brand_size_chart_ranges r ON r.entry_id = e.id
+             LEFT JOIN pom_definitions pd ON pd.id = r.pom_id
+             WHERE e.chart_id = ANY($1::uuid[])
+             GROUP BY e.id
+             ORDER BY e.sort_order, e.label`,
+            [rows.map(row => row.id)]
+        );
+
+        const entriesByChart = new Map<string, SizeChartEntry[]>();
+        for (const row of entryResult.rows) {
+            const entries = entriesByChart.get(row.chart_id) || [];
+            entries.push({
+                id: row.id,
+                label: row.label,
+                sizeId: row.size_id,
+                conversions: row.conversions || {},
+                sortOrder: row.sort_order,
+                ranges: row.ranges.map((range: any) => ({
+                    ...range,
+                    min: range.min !== null ? Number(range.min) : null,
+                    max: range.max !== null ? Number(range.max) : null,
+                })),
+            });
+            entriesByChart.set(row.chart_id, entries);
+        }
+
+        return rows.map(row => ({
+            id: row.id,
+            brandId: row.brand_id,
+            brandName: row.brand_name || undefined,
+            name: row.name,
+            category: row.category,
+            gender: row.gender,
+            apparelId: row.apparel_id,
+            notes: row.notes,
+            entries: entriesByChart.get(row.id) || [],
+            createdAt: row.created_at,
+            updatedAt: row.updated_at,
+        }));
+    }
+}
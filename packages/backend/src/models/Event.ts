@@ -1,5 +1,6 @@
 import { db } from '../database/connection';
 import { Event, EventType, SocialLink } from '@vangarments/shared/types';
+import { SearchIndexService } from '../services/searchIndexService';
 
 interface ContactInfo {
     email?: string;
@@ -63,6 +64,7 @@ export class EventModel {
             data.isRecurring || false, data.recurrencePattern
         ];
         const { rows } = await db.query(query, values);
+        SearchIndexService.queueReindex('event', rows[0].id);
         return this.mapRowToEvent(rows[0]);
     }
 
@@ -148,11 +150,13 @@ export class EventModel {
         `;
         const { rows } = await db.query(query, values);
         if (rows.length === 0) return null;
+        SearchIndexService.queueReindex('event', id);
         return this.mapRowToEvent(rows[0]);
     }
 
     static async delete(id: string): Promise<boolean> {
         const { rowCount } = await db.query('UPDATE events SET deleted_at = NOW() WHERE id = $1', [id]);
+        SearchIndexService.queueReindex('event', id);
         return (rowCount || 0) > 0;
     }
 
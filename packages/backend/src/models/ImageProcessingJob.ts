@@ -0,0 +1,245 @@
+import { db } from '../database/connection';
+
+export const IMAGE_JOB_OPERATIONS = [
+    'background_removal',
+    'aspect_ratio',
+    'feathering',
+    'heic_conversion',
+    'thumbnail',
+] as const;
+
+export type ImageJobOperation = typeof IMAGE_JOB_OPERATIONS[number];
+export type ImageJobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface ImageProcessingJob {
+    id: string;
+    batchId: string;
+    userId: string;
+    itemId: string;
+    imageId: string;
+    operation: ImageJobOperation;
+    options: Record<string, any>;
+    status: ImageJobStatus;
+    progress: number;
+    attempts: number;
+    maxAttempts: number;
+    runAfter: Date;
+    result?: any;
+    error?: string;
+    createdAt: Date;
+    updatedAt: Date;
+    completedAt?: Date;
+}
+
+export interface ImageProcessingBatch {
+    id: string;
+    userId: string;
+    itemId: string;
+    idempotencyKey?: string;
+    createdAt: Date;
+}
+
+export interface CreateImageJobData {
+    imageId: string;
+    operation: ImageJobOperation;
+    options?: Record<string, any>;
+    maxAttempts?: number;
+}
+
+const JOB_COLUMNS = `
+    id,
+    batch_id as "batchId",
+    user_id as "userId",
+    item_id as "itemId",
+    image_id as "imageId",
+    operation,
+    options,
+    status,
+    progress,
+    attempts,
+    max_attempts as "maxAttempts",
+    run_after as "runAfter",
+    result,
+    error,
+    created_at as "createdAt",
+    updated_at as "updatedAt",
+    completed_at as "completedAt"
+`;
+
+const BATCH_COLUMNS = `
+    id,
+    user_id as "userId",
+    item_id as "itemId",
+    idempotency_key as "idempotencyKey",
+    created_at as "createdAt"
+`;
+
+export class ImageProcessingJobModel {
+    /**
+     * Create a batch and its jobs in one transaction. When the user already sent
+     * the same idempotency key, the existing batch is returned with `created: false`.
+     */
+    static async createBatch(
+        userId: string,
+        itemId: string,
+        jobs: CreateImageJobData[],
+        idempotencyKey?: string
+    ): Promise<{ batch: ImageProcessingBatch; created: boolean }> {
+        return db.transaction(async client => {
+            const inserted = await client.query(
+                `INSERT INTO image_processing_batches (user_id, item_id, idempotency_key)
+                 VALUES ($1, $2, $3)
+                 ON CONFLICT (user_id, idempotency_key) DO NOTHING
+                 RETURNING ${BATCH_COLUMNS}`,
+                [userId, itemId, idempotencyKey || null]
+            );
+
+            if (inserted.rows.length === 0) {
+                const existing = await client.query(
+                    `SELECT ${BATCH_COLUMNS} FROM image_processing_batches WHERE user_id = $1 AND idempotency_key = $2`,
+                    [userId, idempotencyKey]
+                );
+                return { batch: existing.rows[0], created: false };
+            }
+
+            const batch: ImageProcessingBatch = inserted.rows[0];
+            for (const job of jobs) {
+                await client.query(
+                    `INSERT INTO image_processing_jobs
+                        (batch_id, user_id, item_id, image_id, operation, options, max_attempts)
+                     VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+                    [
+                        batch.id, userId, itemId, job.imageId, job.operation,
+                        JSON.stringify(job.options || {}), job.maxAttempts || 3,
+                    ]
+                );
+            }
+
+            return { batch, created: true };
+        });
+    }
+
+    static async findBatch(batchId: string): Promise<ImageProcessingBatch | null> {
+        const result = await db.query(`SELECT ${BATCH_COLUMNS} FROM image_processing_batches WHERE id = $1`, [batchId]);
+        return result.rows[0] || null;
+    }
+
+    static async findByBatch(batchId: string): Promise<ImageProcessingJob[]> {
+        const result = await db.query(
+            `SELECT ${JOB_COLUMNS} FROM image_processing_jobs WHERE batch_id = $1 ORDER BY created_at ASC, id ASC`,
+            [batchId]
+        );
+        return result.rows;
+    }
+
+    static async findById(jobId: string): Promise<ImageProcessingJob | null> {
+        const result = await db.query(`SELECT ${JOB_COLUMNS} FROM image_processing_jobs WHERE id = $1`, [jobId]);
+        return result.rows[0] || null;
+    }
+
+    /**
+     * Lock the oldest due job whose owner is below the per-user running limit.
+     * SKIP LOCKED lets several workers poll the same table safely.
+     */
+    static async claimNext(maxRunningPerUser: number): Promise<ImageProcessingJob | null> {
+        const result = await db.query(
+            `UPDATE image_processing_jobs
+             SET status = 'running', attempts = attempts + 1, progress = 0, locked_at = NOW(), updated_at = NOW()
+             WHERE id = (
+                 SELECT j.id FROM image_processing_jobs j
+                 WHERE j.status = 'queued' AND j.run_after <= NOW()
+                   AND (
+                       SELECT COUNT(*) FROM image_processing_jobs r
+                       WHERE r.user_id = j.user_id AND r.status = 'running'
+                   ) < $1
+                 ORDER BY j.run_after ASC, j.created_at ASC
+                 LIMIT 1
+                 FOR UPDATE SKIP LOCKED
+             )
+             RETURNING ${JOB_COLUMNS}`,
+            [maxRunningPerUser]
+        );
+        return result.rows[0] || null;
+    }
+
+    static async updateProgress(jobId: string, progress: number): Promise<void> {
+        await db.query(
+            `UPDATE image_processing_jobs SET progress = $2, locked_at = NOW(), updated_at = NOW()
+             WHERE id = $1 AND status = 'running'`,
+            [jobId, progress]
+        );
+    }
+
+    static async markSucceeded(jobId: string, result: any): Promise<ImageProcessingJob | null> {
+        const updated = await db.query(
+            `UPDATE image_processing_jobs
+             SET status = 'succeeded', progress = 100, result = $2, error = NULL, locked_at = NULL,
+                 completed_at = NOW(), updated_at = NOW()
+             WHERE id = $1
+             RETURNING ${JOB_COLUMNS}`,
+            [jobId, JSON.stringify(result)]
+        );
+        return updated.rows[0] || null;
+    }
+
+    /**
+     * Record a failed attempt: back to the queue after `retryAt`, or failed for
+     * good when `retryAt` is null
+     */
+    static async markAttemptFailed(jobId: string, error: string, retryAt: Date | null): Promise<ImageProcessingJob | null> {
+        const updated = await db.query(
+            retryAt
+                ? `UPDATE image_processing_jobs
+                   SET status = 'queued', progress = 0, error = $2, run_after = $3, locked_at = NULL, updated_at = NOW()
+                   WHERE id = $1
+                   RETURNING ${JOB_COLUMNS}`
+                : `UPDATE image_processing_jobs
+                   SET status = 'failed', error = $2, locked_at = NULL, completed_at = NOW(), updated_at = NOW()
+                   WHERE id = $1
+                   RETURNING ${JOB_COLUMNS}`,
+            retryAt ? [jobId, error, retryAt] : [jobId, error]
+        );
+        return updated.rows[0] || null;
+    }
+
+    /**
+     * Put a failed or cancelled job back in the queue with a fresh set of attempts
+     */
+    static async retry(jobId: string): Promise<ImageProcessingJob | null> {
+        const result = await db.query(
+            `UPDATE image_processing_jobs
+             SET status = 'queued', progress = 0, attempts = 0, error = NULL, run_after = NOW(),
+                 completed_at = NULL, updated_at = NOW()
+             WHERE id = $1 AND status IN ('failed', 'cancelled')
+             RETURNING ${JOB_COLUMNS}`,
+            [jobId]
+        );
+        return result.rows[0] || null;
+    }
+
+    static async cancelBatch(batchId: string): Promise<number> {
+        const result = await db.query(
+            `UPDATE image_processing_jobs
+             SET status = 'cancelled', completed_at = NOW(), updated_at = NOW()
+             WHERE batch_id = $1 AND status = 'queued'`,
+            [batchId]
+        );
+        return result.rowCount || 0;
+    }
+
+    /**
+     * Jobs left running by a worker that died; they count as a failed attempt
+     */
+    static async requeueStale(lockTimeoutMs: number): Promise<number> {
+        const result = await db.query(
+            `UPDATE image_processing_jobs
+             SET status = CASE WHEN attempts >= max_attempts THEN 'failed' ELSE 'queued' END,
+                 error = 'Worker stopped while processing',
+                 completed_at = CASE WHEN attempts >= max_attempts THEN NOW() ELSE NULL END,
+                 locked_at = NULL, progress = 0, updated_at = NOW()
+             WHERE status = 'running' AND locked_at < NOW() - $1 * INTERVAL '1 millisecond'`,
+            [lockTimeoutMs]
+        );
+        return result.rowCount || 0;
+    }
+}
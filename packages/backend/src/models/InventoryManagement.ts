@@ -1,10 +1,15 @@
+import { PoolClient } from 'pg';
 import { db } from '../database/connection';
 
 export interface InventoryItem {
   id: string;
   brandId: string;
-  catalogItemId: string;
+  catalogItemId?: string;
+  skuItemId?: string;
+  storeId?: string; // Unset for the brand's own (online/warehouse) stock
   sku: string;
+  skuName?: string;
+  storeName?: string;
   quantity: number;
   reservedQuantity: number;
   availableQuantity: number;
@@ -15,13 +20,16 @@ export interface InventoryItem {
   supplier?: string;
   lastRestocked?: string;
   notes?: string;
+  lowStockAlertedAt?: string;
   createdAt: string;
   updatedAt: string;
 }
 
 export interface CreateInventoryItemData {
   brandId: string;
-  catalogItemId: string;
+  catalogItemId?: string;
+  skuItemId?: string;
+  storeId?: string;
   sku: string;
   quantity: number;
   reorderLevel?: number;
@@ -64,10 +72,12 @@ export interface CreateInventoryMovementData {
 }
 
 export class InventoryManagementModel {
-  static async create(itemData: CreateInventoryItemData): Promise<InventoryItem> {
+  static async create(itemData: CreateInventoryItemData, client?: PoolClient): Promise<InventoryItem> {
     const {
       brandId,
       catalogItemId,
+      skuItemId,
+      storeId,
       sku,
       quantity,
       reorderLevel = 0,
@@ -81,15 +91,15 @@ export class InventoryManagementModel {
     const query = `
       INSERT INTO inventory_items (
         brand_id, catalog_item_id, sku, quantity, available_quantity,
-        reorder_level, reorder_quantity, cost, location, supplier, notes
+        reorder_level, reorder_quantity, cost, location, supplier, notes, sku_item_id, store_id
       )
-      VALUES ($1, $2, $3, $4, $4, $5, $6, $7, $8, $9, $10)
+      VALUES ($1, $2, $3, $4, $4, $5, $6, $7, $8, $9, $10, $11, $12)
       RETURNING *
     `;
 
     const values = [
       brandId,
-      catalogItemId,
+      catalogItemId || null,
       sku,
       quantity,
       reorderLevel,
@@ -98,9 +108,11 @@ export class InventoryManagementModel {
       location || null,
       supplier || null,
       notes || null,
+      skuItemId || null,
+      storeId || null,
     ];
 
-    const result = await db.query(query, values);
+    const result = await (client || db).query(query, values);
     return this.mapRowToInventoryItem(result.rows[0]);
   }
 
@@ -116,6 +128,140 @@ export class InventoryManagementModel {
     return result.rows.length > 0 ? this.mapRowToInventoryItem(result.rows[0]) : null;
   }
 
+  /**
+   * Stock row of a SKU variant at a location (null storeId for the brand's own stock).
+   * With a client the row is locked for the rest of the transaction.
+   */
+  static async findBySkuLocation(
+    skuItemId: string,
+    storeId: string | null,
+    client?: PoolClient
+  ): Promise<InventoryItem | null> {
+    const query = `
+      SELECT * FROM inventory_items
+      WHERE sku_item_id = $1 AND store_id IS NOT DISTINCT FROM $2
+      ${client ? 'FOR UPDATE' : ''}
+    `;
+
+    const result = await (client || db).query(query, [skuItemId, storeId]);
+    return result.rows.length > 0 ? this.mapRowToInventoryItem(result.rows[0]) : null;
+  }
+
+  /**
+   * Lock the location with the most available stock of a SKU variant that can
+   * cover the quantity, optionally limited to one location
+   */
+  static async lockAvailableStock(
+    client: PoolClient,
+    skuItemId: string,
+    quantity: number,
+    storeId?: string | null
+  ): Promise<InventoryItem | null> {
+    const values: any[] = [skuItemId, quantity];
+    let locationCondition = '';
+    if (storeId !== undefined) {
+      locationCondition = 'AND store_id IS NOT DISTINCT FROM $3';
+      values.push(storeId);
+    }
+
+    const query = `
+      SELECT * FROM inventory_items
+      WHERE sku_item_id = $1 AND available_quantity >= $2 ${locationCondition}
+      ORDER BY available_quantity DESC, store_id NULLS FIRST
+      LIMIT 1
+      FOR UPDATE
+    `;
+
+    const result = await client.query(query, values);
+    return result.rows.length > 0 ? this.mapRowToInventoryItem(result.rows[0]) : null;
+  }
+
+  /**
+   * Stock levels of a brand's SKU variants per location
+   */
+  static async findStockLevels(
+    brandId: string,
+    filters: {
+      skuItemId?: string;
+      storeId?: string | null;
+      lowStock?: boolean;
+    } = {},
+    limit = 50,
+    offset = 0
+  ): Promise<{ items: InventoryItem[]; total: number }> {
+    const whereConditions: string[] = ['ii.brand_id = $1', 'ii.sku_item_id IS NOT NULL'];
+    const values: any[] = [brandId];
+    let paramIndex = 2;
+
+    if (filters.skuItemId) {
+      // A parent SKU's stock is held by its variants
+      whereConditions.push(`(ii.sku_item_id = $${paramIndex} OR si.parent_sku_id = $${paramIndex})`);
+      values.push(filters.skuItemId);
+      paramIndex++;
+    }
+
+    if (filters.storeId !== undefined) {
+      whereConditions.push(`ii.store_id IS NOT DISTINCT FROM $${paramIndex++}`);
+      values.push(filters.storeId);
+    }
+
+    if (filters.lowStock) {
+      whereConditions.push('ii.available_quantity <= ii.reorder_level');
+    }
+
+    const query = `
+      SELECT ii.*,
+             si.name as sku_name,
+             s.name as store_name,
+             COUNT(*) OVER() as total
+      FROM inventory_items ii
+      JOIN sku_items si ON ii.sku_item_id = si.id
+      LEFT JOIN stores s ON ii.store_id = s.id
+      WHERE ${whereConditions.join(' AND ')}
+      ORDER BY si.name ASC, s.name ASC NULLS FIRST
+      LIMIT $${paramIndex++} OFFSET $${paramIndex++}
+    `;
+
+    values.push(limit, offset);
+
+    const result = await db.query(query, values);
+
+    return {
+      items: result.rows.map(row => this.mapRowToInventoryItem(row)),
+      total: result.rows.length > 0 ? parseInt(result.rows[0].total) : 0,
+    };
+  }
+
+  /**
+   * Stock of a SKU variant at each location, with store names
+   */
+  static async findBySkuItem(skuItemId: string): Promise<InventoryItem[]> {
+    const query = `
+      SELECT ii.*, s.name as store_name
+      FROM inventory_items ii
+      LEFT JOIN stores s ON ii.store_id = s.id
+      WHERE ii.sku_item_id = $1
+      ORDER BY s.name ASC NULLS FIRST
+    `;
+
+    const result = await db.query(query, [skuItemId]);
+    return result.rows.map(row => this.mapRowToInventoryItem(row));
+  }
+
+  /**
+   * Record whether the brand team has been alerted that the item is low on
+   * stock. Returns false when it was already in that state.
+   */
+  static async setLowStockAlerted(id: string, alerted: boolean): Promise<boolean> {
+    const result = await db.query(
+      alerted
+        ? 'UPDATE inventory_items SET low_stock_alerted_at = NOW() WHERE id = $1 AND low_stock_alerted_at IS NULL'
+        : 'UPDATE inventory_items SET low_stock_alerted_at = NULL WHERE id = $1 AND low_stock_alerted_at IS NOT NULL',
+      [id]
+    );
+    return (result.rowCount || 0) > 0;
+  }
+
   static async findByBrandId(
     brandId: string,
     filters: {
@@ -173,20 +319,25 @@ export class InventoryManagementModel {
     const values: any[] = [];
     let paramIndex = 1;
 
+    // SET expressions read the row as it was before the update
+    let quantityExpression = 'quantity';
+    let reservedExpression = 'reserved_quantity';
+
     if (updateData.quantity !== undefined) {
-      setClause.push(`quantity = $${paramIndex++}`);
+      quantityExpression = `$${paramIndex++}`;
+      setClause.push(`quantity = ${quantityExpression}`);
       values.push(updateData.quantity);
-      
-      // Recalculate available quantity
-      setClause.push(`available_quantity = quantity - reserved_quantity`);
     }
 
     if (updateData.reservedQuantity !== undefined) {
-      setClause.push(`reserved_quantity = $${paramIndex++}`);
+      reservedExpression = `$${paramIndex++}`;
+      setClause.push(`reserved_quantity = ${reservedExpression}`);
       values.push(updateData.reservedQuantity);
-      
+    }
+
+    if (updateData.quantity !== undefined || updateData.reservedQuantity !== undefined) {
       // Recalculate available quantity
-      setClause.push(`available_quantity = quantity - reserved_quantity`);
+      setClause.push(`available_quantity = ${quantityExpression}::int - ${reservedExpression}::int`);
     }
 
     if (updateData.reorderLevel !== undefined) {
@@ -237,53 +388,59 @@ export class InventoryManagementModel {
     return result.rows.length > 0 ? this.mapRowToInventoryItem(result.rows[0]) : null;
   }
 
-  static async recordMovement(movementData: CreateInventoryMovementData): Promise<InventoryMovement> {
+  /**
+   * Record a stock movement and apply it to the item's quantities, in the
+   * caller's transaction when a client is given
+   */
+  static async recordMovement(movementData: CreateInventoryMovementData, client?: PoolClient): Promise<InventoryMovement> {
+    if (!client) {
+      return await db.transaction(transactionClient => this.recordMovement(movementData, transactionClient));
+    }
+
     const { inventoryItemId, movementType, quantity, reason, reference, performedBy } = movementData;
 
-    // Start transaction
-    return await db.transaction(async (client) => {
-      // Record the movement
-      const movementQuery = `
-        INSERT INTO inventory_movements (
-          inventory_item_id, movement_type, quantity, reason, reference, performed_by
-        )
-        VALUES ($1, $2, $3, $4, $5, $6)
-        RETURNING *
-      `;
-
-      const movementValues = [inventoryItemId, movementType, quantity, reason, reference || null, performedBy];
-      const movementResult = await client.query(movementQuery, movementValues);
-
-      // Update inventory quantities based on movement type
-      let quantityUpdate = '';
-      switch (movementType) {
-        case 'in':
-          quantityUpdate = 'quantity = quantity + $2, available_quantity = quantity - reserved_quantity';
-          break;
-        case 'out':
-          quantityUpdate = 'quantity = quantity - $2, available_quantity = quantity - reserved_quantity';
-          break;
-        case 'adjustment':
-          quantityUpdate = 'quantity = $2, available_quantity = quantity - reserved_quantity';
-          break;
-        case 'reserved':
-          quantityUpdate = 'reserved_quantity = reserved_quantity + $2, available_quantity = quantity - reserved_quantity';
-          break;
-        case 'released':
-          quantityUpdate = 'reserved_quantity = reserved_quantity - $2, available_quantity = quantity - reserved_quantity';
-          break;
-      }
-
-      const updateQuery = `
-        UPDATE inventory_items 
-        SET ${quantityUpdate}, updated_at = NOW()
-        WHERE id = $1
-      `;
-
-      await client.query(updateQuery, [inventoryItemId, Math.abs(quantity)]);
-
-      return this.mapRowToInventoryMovement(movementResult.rows[0]);
-    });
+    // Record the movement
+    const movementQuery = `
+      INSERT INTO inventory_movements (
+        inventory_item_id, movement_type, quantity, reason, reference, performed_by
+      )
+      VALUES ($1, $2, $3, $4, $5, $6)
+      RETURNING *
+    `;
+
+    const movementValues = [inventoryItemId, movementType, quantity, reason, reference || null, performedBy];
+    const movementResult = await client.query(movementQuery, movementValues);
+
+    // Update inventory quantities based on movement type.
+    // SET expressions read the row as it was before the update.
+    let quantityUpdate = '';
+    switch (movementType) {
+      case 'in':
+        quantityUpdate = 'quantity = quantity + $2, available_quantity = quantity + $2 - reserved_quantity, last_restocked = NOW()';
+        break;
+      case 'out':
+        quantityUpdate = 'quantity = quantity - $2, available_quantity = quantity - $2 - reserved_quantity';
+        break;
+      case 'adjustment':
+        quantityUpdate = 'quantity = $2, available_quantity = $2 - reserved_quantity';
+        break;
+      case 'reserved':
+        quantityUpdate = 'reserved_quantity = reserved_quantity + $2, available_quantity = quantity - reserved_quantity - $2';
+        break;
+      case 'released':
+        quantityUpdate = 'reserved_quantity = reserved_quantity - $2, available_quantity = quantity - reserved_quantity + $2';
+        break;
+    }
+
+    const updateQuery = `
+      UPDATE inventory_items 
+      SET ${quantityUpdate}, updated_at = NOW()
+      WHERE id = $1
+    `;
+
+    await client.query(updateQuery, [inventoryItemId, Math.abs(quantity)]);
+
+    return this.mapRowToInventoryMovement(movementResult.rows[0]);
   }
 
   static async getMovementHistory(
@@ -360,8 +517,12 @@ export class InventoryManagementModel {
     return {
       id: row.id,
       brandId: row.brand_id,
-      catalogItemId: row.catalog_item_id,
+      catalogItemId: row.catalog_item_id || undefined,
+      skuItemId: row.sku_item_id || undefined,
+      storeId: row.store_id || undefined,
       sku: row.sku,
+      skuName: row.sku_name || undefined,
+      storeName: row.store_name || undefined,
       quantity: row.quantity,
       reservedQuantity: row.reserved_quantity || 0,
       availableQuantity: row.available_quantity || 0,
@@ -372,6 +533,7 @@ export class InventoryManagementModel {
       supplier: row.supplier,
       lastRestocked: row.last_restocked,
       notes: row.notes,
+      lowStockAlertedAt: row.low_stock_alerted_at || undefined,
       createdAt: row.created_at,
       updatedAt: row.updated_at,
     };
@@ -0,0 +1,139 @@
+import { PoolClient } from 'pg';
+import { db } from '../database/connection';
+
+export type InventoryReservationStatus = 'active' | 'committed' | 'released' | 'expired';
+
+export interface InventoryReservation {
+  id: string;
+  inventoryItemId: string;
+  skuItemId?: string;
+  storeId?: string;
+  quantity: number;
+  status: InventoryReservationStatus;
+  reference?: string; // Marketplace transaction or store order the stock is held for
+  userId: string;
+  expiresAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateInventoryReservationData {
+  inventoryItemId: string;
+  quantity: number;
+  reference?: string;
+  userId: string;
+  expiresAt: Date | null;
+}
+
+export class InventoryReservationModel {
+  static async create(client: PoolClient, data: CreateInventoryReservationData): Promise<InventoryReservation> {
+    const result = await client.query(
+      `INSERT INTO inventory_reservations (inventory_item_id, quantity, reference, user_id, expires_at)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING *`,
+      [data.inventoryItemId, data.quantity, data.reference || null, data.userId, data.expiresAt]
+    );
+    return this.mapRowToReservation(result.rows[0]);
+  }
+
+  static async findById(id: string, client?: PoolClient): Promise<InventoryReservation | null> {
+    const result = await (client || db).query(
+      `SELECT r.*, ii.sku_item_id, ii.store_id
+       FROM inventory_reservations r
+       JOIN inventory_items ii ON r.inventory_item_id = ii.id
+       WHERE r.id = $1
+       ${client ? 'FOR UPDATE OF r' : ''}`,
+      [id]
+    );
+    return result.rows.length > 0 ? this.mapRowToReservation(result.rows[0]) : null;
+  }
+
+  /**
+   * Reservations held for a reference, newest first. With a client the
+   * reservations are locked for the rest of the transaction.
+   */
+  static async findByReference(
+    reference: string,
+    statuses: InventoryReservationStatus[] = ['active'],
+    client?: PoolClient
+  ): Promise<InventoryReservation[]> {
+    const result = await (client || db).query(
+      `SELECT r.*, ii.sku_item_id, ii.store_id
+       FROM inventory_reservations r
+       JOIN inventory_items ii ON r.inventory_item_id = ii.id
+       WHERE r.reference = $1 AND r.status = ANY($2)
+       ORDER BY r.created_at DESC
+       ${client ? 'FOR UPDATE OF r' : ''}`,
+      [reference, statuses]
+    );
+    return result.rows.map(row => this.mapRowToReservation(row));
+  }
+
+  /**
+   * Lock active reservations past their expiry, optionally for one SKU variant.
+   * Rows locked by another sweep are skipped.
+   */
+  static async lockExpired(client: PoolClient, skuItemId?: string, limit = 100): Promise<InventoryReservation[]> {
+    const values: any[] = [limit];
+    let skuCondition = '';
+    if (skuItemId) {
+      skuCondition = 'AND ii.sku_item_id = $2';
+      values.push(skuItemId);
+    }
+
+    const result = await client.query(
+      `SELECT r.*, ii.sku_item_id, ii.store_id
+       FROM inventory_reservations r
+       JOIN inventory_items ii ON r.inventory_item_id = ii.id
+       WHERE r.status = 'active' AND r.expires_at IS NOT NULL AND r.expires_at <= NOW() ${skuCondition}
+       ORDER BY r.expires_at ASC
+       LIMIT $1
+       FOR UPDATE OF r SKIP LOCKED`,
+      values
+    );
+    return result.rows.map(row => this.mapRowToReservation(row));
+  }
+
+  static async updateStatus(client: PoolClient, id: string, status: InventoryReservationStatus): Promise<void> {
+    await client.query(
+      'UPDATE inventory_reservations SET status = $1, updated_at = NOW() WHERE id = $2',
+      [status, id]
+    );
+  }
+
+  static async setReference(id: string, reference: string): Promise<void> {
+    await db.query(
+      'UPDATE inventory_reservations SET reference = $1, updated_at = NOW() WHERE id = $2',
+      [reference, id]
+    );
+  }
+
+  /**
+   * Change when active reservations for a reference expire; null holds them
+   * until they are committed or released
+   */
+  static async setExpiry(reference: string, expiresAt: Date | null): Promise<number> {
+    const result = await db.query(
+      `UPDATE inventory_reservations SET expires_at = $1, updated_at = NOW()
+       WHERE reference = $2 AND status = 'active'`,
+      [expiresAt, reference]
+    );
+    return result.rowCount || 0;
+  }
+
+  private static mapRowToReservation(row: any): InventoryReservation {
+    return {
+      id: row.id,
+      inventoryItemId: row.inventory_item_id,
+      skuItemId: row.sku_item_id || undefined,
+      storeId: row.store_id || undefined,
+      quantity: row.quantity,
+      status: row.status,
+      reference: row.reference || undefined,
+      userId: row.user_id,
+      expiresAt: row.expires_at ? new Date(row.expires_at) : null,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+}
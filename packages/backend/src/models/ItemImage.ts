@@ -1,4 +1,5 @@
 import { db } from '../database/connection';
+import { ImageEmbeddingService } from '../services/imageEmbeddingService';
 
 export interface ItemImage {
   id: string;
@@ -14,6 +15,7 @@ export interface ItemImage {
   mimeType?: string;
   width?: number;
   height?: number;
+  blurhash?: string;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -29,18 +31,19 @@ export interface CreateItemImageData {
   mimeType?: string;
   width?: number;
   height?: number;
+  blurhash?: string;
 }
 
 export class ItemImageModel {
   static async create(imageData: CreateItemImageData): Promise<ItemImage> {
-    const { itemId, imageUrl, imageType, isPrimary = false, aiAnalysis, fileSize, mimeType, width, height } = imageData;
+    const { itemId, imageUrl, imageType, isPrimary = false, aiAnalysis, fileSize, mimeType, width, height, blurhash } = imageData;
 
     const query = `
       INSERT INTO item_images (
         item_id, image_url, image_type, is_primary, 
-        processing_status, ai_analysis, is_processed
+        processing_status, ai_analysis, is_processed, blurhash
       )
-      VALUES ($1, $2, $3, $4, $5, $6, $7)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
       RETURNING *
     `;
 
@@ -52,9 +55,11 @@ export class ItemImageModel {
       'completed',
       aiAnalysis ? JSON.stringify(aiAnalysis) : null,
       !!aiAnalysis,
+      blurhash || null,
     ];
 
     const result = await db.query(query, values);
+    ImageEmbeddingService.queueIndex('item', itemId);
     return this.mapToItemImage(result.rows[0]);
   }
 
@@ -107,6 +112,33 @@ export class ItemImageModel {
     return this.mapToItemImage(result.rows[0]);
   }
 
+  /**
+   * Point an image at a reprocessed file, merging notes about the change into ai_analysis.
+   * The blurhash is kept when the new file does not come with one.
+   */
+  static async replaceFile(
+    id: string,
+    imageUrl: string,
+    analysis: Record<string, any> = {},
+    blurhash?: string
+  ): Promise<ItemImage | null> {
+    const query = `
+      UPDATE item_images
+      SET image_url = $2, ai_analysis = COALESCE(ai_analysis, '{}'::jsonb) || $3::jsonb,
+          blurhash = COALESCE($4, blurhash), updated_at = NOW()
+      WHERE id = $1
+      RETURNING *
+    `;
+
+    const result = await db.query(query, [id, imageUrl, JSON.stringify(analysis), blurhash || null]);
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    ImageEmbeddingService.queueIndex('item', result.rows[0].item_id);
+    return this.mapToItemImage(result.rows[0]);
+  }
+
   static async setPrimary(itemId: string, imageId: string): Promise<boolean> {
     const client = await db.getClient();
 
@@ -135,15 +167,23 @@ export class ItemImageModel {
     }
   }
 
+  static async setBlurhash(id: string, blurhash: string): Promise<void> {
+    await db.query('UPDATE item_images SET blurhash = $2 WHERE id = $1', [id, blurhash]);
+  }
+
   static async delete(id: string): Promise<boolean> {
-    const query = 'DELETE FROM item_images WHERE id = $1';
+    const query = 'DELETE FROM item_images WHERE id = $1 RETURNING item_id';
     const result = await db.query(query, [id]);
+    if (result.rows.length > 0) {
+      ImageEmbeddingService.queueIndex('item', result.rows[0].item_id);
+    }
     return (result.rowCount || 0) > 0;
   }
 
   static async deleteByItemId(itemId: string): Promise<number> {
     const query = 'DELETE FROM item_images WHERE item_id = $1';
     const result = await db.query(query, [itemId]);
+    ImageEmbeddingService.queueIndex('item', itemId);
     return result.rowCount || 0;
   }
 
@@ -206,6 +246,7 @@ export class ItemImageModel {
       mimeType: row.mime_type,
       width: row.width,
       height: row.height,
+      blurhash: row.blurhash || undefined,
       createdAt: new Date(row.created_at),
       updatedAt: new Date(row.updated_at),
     };
@@ -1,5 +1,13 @@
+import { PoolClient } from 'pg';
 import { db } from '../database/connection';
-import { LoanRecord, WishlistItem, ItemTrackingUtils } from '../utils/itemTracking';
+import { LoanRecord, LoanConfirmationStatus, LoanConditionCheck, WishlistItem, ItemTrackingUtils } from '../utils/itemTracking';
+
+export interface LoanReminderCandidate extends LoanRecord {
+  ownerId: string;
+  itemName: string;
+  dueSoonRemindedAt?: Date;
+  overdueLevel: number;
+}
 
 export class ItemTrackingModel {
   // Loan Management
@@ -12,19 +20,21 @@ export class ItemTrackingModel {
     const query = `
       INSERT INTO item_loans (
         item_id, loanee_id, loanee_name, loan_date, 
-        expected_return_date, notes
+        expected_return_date, notes, confirmation_status
       )
-      VALUES ($1, $2, $3, $4, $5, $6)
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
       RETURNING *
     `;
 
     const values = [
       loanData.itemId,
-      loanData.loaneeId,
+      loanData.loaneeId || null,
       loanData.loaneeName,
       loanData.loanDate,
       loanData.expectedReturnDate || null,
       loanData.notes || null,
+      // Borrowers with an account have to confirm they received the item
+      loanData.loaneeId ? 'pending' : 'not_required',
     ];
 
     const result = await db.query(query, values);
@@ -134,6 +144,107 @@ export class ItemTrackingModel {
     return result.rows.map(row => this.mapToLoanRecord(row));
   }
 
+  static async getBorrowedLoans(userId: string): Promise<LoanRecord[]> {
+    const query = `
+      SELECT * FROM item_loans
+      WHERE loanee_id = $1 AND confirmation_status <> 'declined'
+      ORDER BY loan_date DESC
+    `;
+
+    const result = await db.query(query, [userId]);
+    return result.rows.map(row => this.mapToLoanRecord(row));
+  }
+
+  static async setLoanConfirmation(id: string, status: LoanConfirmationStatus): Promise<LoanRecord | null> {
+    const query = `
+      UPDATE item_loans
+      SET confirmation_status = $2,
+          confirmed_at = CASE WHEN $2 = 'confirmed' THEN NOW() ELSE confirmed_at END,
+          updated_at = NOW()
+      WHERE id = $1
+      RETURNING *
+    `;
+
+    const result = await db.query(query, [id, status]);
+    return result.rows.length > 0 ? this.mapToLoanRecord(result.rows[0]) : null;
+  }
+
+  /**
+   * Open loans that are due within `dueSoonHours` or already overdue, with the
+   * state the reminder job needs to decide what to send
+   */
+  static async getLoansNeedingReminders(dueSoonHours: number): Promise<LoanReminderCandidate[]> {
+    const query = `
+      SELECT il.*, vi.owner_id, COALESCE(vi.metadata->>'name', 'your item') as item_name
+      FROM item_loans il
+      JOIN vufs_items vi ON il.item_id = vi.id
+      WHERE il.actual_return_date IS NULL
+        AND il.expected_return_date IS NOT NULL
+        AND il.confirmation_status <> 'declined'
+        AND il.expected_return_date <= NOW() + ($1 || ' hours')::interval
+      ORDER BY il.expected_return_date ASC
+    `;
+
+    const result = await db.query(query, [dueSoonHours]);
+    return result.rows.map(row => ({
+      ...this.mapToLoanRecord(row),
+      ownerId: row.owner_id,
+      itemName: row.item_name,
+      dueSoonRemindedAt: row.due_soon_reminded_at ? new Date(row.due_soon_reminded_at) : undefined,
+      overdueLevel: row.overdue_level || 0,
+    }));
+  }
+
+  static async markLoanReminded(id: string, reminder: { dueSoon?: boolean; overdueLevel?: number }): Promise<void> {
+    await db.query(
+      `UPDATE item_loans
+       SET due_soon_reminded_at = CASE WHEN $2 THEN NOW() ELSE due_soon_reminded_at END,
+           overdue_level = COALESCE($3, overdue_level),
+           last_reminded_at = NOW()
+       WHERE id = $1`,
+      [id, !!reminder.dueSoon, reminder.overdueLevel ?? null]
+    );
+  }
+
+  static async createLoanConditionCheck(data: Omit<LoanConditionCheck, 'id' | 'createdAt'>): Promise<LoanConditionCheck> {
+    const query = `
+      INSERT INTO item_loan_condition_checks (
+        loan_id, item_id, phase, condition_id, condition_name, condition_rating, photos, notes, recorded_by
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+      RETURNING *
+    `;
+
+    const result = await db.query(query, [
+      data.loanId,
+      data.itemId,
+      data.phase,
+      data.conditionId || null,
+      data.conditionName,
+      data.conditionRating,
+      JSON.stringify(data.photos || []),
+      data.notes || null,
+      data.recordedBy || null,
+    ]);
+    return this.mapToConditionCheck(result.rows[0]);
+  }
+
+  static async getLoanConditionChecks(loanId: string): Promise<LoanConditionCheck[]> {
+    const result = await db.query(
+      'SELECT * FROM item_loan_condition_checks WHERE loan_id = $1 ORDER BY created_at ASC',
+      [loanId]
+    );
+    return result.rows.map(row => this.mapToConditionCheck(row));
+  }
+
+  static async getItemConditionHistory(itemId: string): Promise<LoanConditionCheck[]> {
+    const result = await db.query(
+      'SELECT * FROM item_loan_condition_checks WHERE item_id = $1 ORDER BY created_at DESC',
+      [itemId]
+    );
+    return result.rows.map(row => this.mapToConditionCheck(row));
+  }
+
   // Wishlist Management
   static async createWishlistItem(wishlistData: Omit<WishlistItem, 'id' | 'createdAt' | 'updatedAt'>): Promise<WishlistItem> {
     const validationErrors = ItemTrackingUtils.validateWishlistItem(wishlistData);
@@ -225,13 +336,13 @@ export class ItemTrackingModel {
   }
 
   // Usage Tracking
-  static async recordItemWear(itemId: string): Promise<void> {
+  static async recordItemWear(itemId: string, wearDate?: Date, client?: PoolClient): Promise<void> {
     const query = `
       INSERT INTO item_usage_log (item_id, wear_date)
-      VALUES ($1, NOW())
+      VALUES ($1, COALESCE($2, NOW()))
     `;
 
-    await db.query(query, [itemId]);
+    await (client || db).query(query, [itemId, wearDate || null]);
   }
 
   static async getItemWearCount(itemId: string): Promise<number> {
@@ -285,11 +396,103 @@ export class ItemTrackingModel {
     };
   }
 
+  /**
+   * Per-item wear totals and monthly wear counts for a user's wardrobe, with the
+   * fields wear analytics needs (purchase price, category, color, condition).
+   */
+  static async getUserWearData(userId: string): Promise<Array<{
+    itemId: string;
+    name: string;
+    brand?: string;
+    category: string;
+    color?: string;
+    condition?: string;
+    imageUrl?: string;
+    purchasePrice?: number;
+    currentValue?: number;
+    acquiredAt: Date;
+    wearCount: number;
+    lastWornAt?: Date;
+    wearsByMonth: Record<number, number>;
+    listed: boolean;
+  }>> {
+    const query = `
+      SELECT
+        vi.id as item_id,
+        COALESCE(vi.metadata->>'name', vi.category_hierarchy->>'graySubcategory', vi.category_hierarchy->>'whiteSubcategory') as name,
+        vi.brand_hierarchy->>'brand' as brand,
+        COALESCE(vi.category_hierarchy->>'blueSubcategory', vi.category_hierarchy->>'page', 'Uncategorized') as category,
+        COALESCE(vi.metadata->'colors'->0->>'primary', vi.metadata->'colors'->0->>'name', vi.metadata->>'color') as color,
+        vi.condition_info->>'status' as condition,
+        vi.metadata->'acquisitionInfo'->>'price' as purchase_price,
+        vi.metadata->'pricing'->>'retailPrice' as retail_price,
+        vi.metadata->'pricing'->>'currentValue' as current_value,
+        COALESCE(vi.metadata->'acquisitionInfo'->>'purchaseDate', vi.metadata->'acquisitionInfo'->>'date') as acquisition_date,
+        vi.created_at,
+        (SELECT ii.image_url FROM item_images ii WHERE ii.item_id = vi.id ORDER BY ii.is_primary DESC, ii.created_at ASC LIMIT 1) as image_url,
+        EXISTS (
+          SELECT 1 FROM marketplace_listings ml WHERE ml.item_id = vi.id AND ml.status IN ('active', 'reserved')
+        ) as listed,
+        usage.wear_count,
+        usage.last_worn_at,
+        usage.wears_by_month
+      FROM vufs_items vi
+      LEFT JOIN LATERAL (
+        SELECT
+          COUNT(*) as wear_count,
+          MAX(iul.wear_date) as last_worn_at,
+          (
+            SELECT jsonb_object_agg(m.month, m.wears)
+            FROM (
+              SELECT EXTRACT(MONTH FROM wear_date)::int as month, COUNT(*) as wears
+              FROM item_usage_log
+              WHERE item_id = vi.id
+              GROUP BY 1
+            ) m
+          ) as wears_by_month
+        FROM item_usage_log iul
+        WHERE iul.item_id = vi.id
+      ) usage ON true
+      WHERE vi.owner_id = $1
+        AND vi.deleted_at IS NULL
+        AND COALESCE(vi.ownership_info->>'status', 'owned') NOT IN ('sold', 'borrowed')
+    `;
+
+    const result = await db.query(query, [userId]);
+    const toNumber = (value: any): number | undefined => {
+      const parsed = parseFloat(value);
+      return isNaN(parsed) ? undefined : parsed;
+    };
+
+    return result.rows.map(row => {
+      const acquired = row.acquisition_date ? new Date(row.acquisition_date) : new Date(row.created_at);
+      const wearsByMonth = typeof row.wears_by_month === 'string' ? JSON.parse(row.wears_by_month) : (row.wears_by_month || {});
+      return {
+        itemId: row.item_id,
+        name: row.name || 'Untitled item',
+        brand: row.brand || undefined,
+        category: row.category,
+        color: row.color || undefined,
+        condition: row.condition || undefined,
+        imageUrl: row.image_url || undefined,
+        purchasePrice: toNumber(row.purchase_price) ?? toNumber(row.retail_price),
+        currentValue: toNumber(row.current_value),
+        acquiredAt: isNaN(acquired.getTime()) ? new Date(row.created_at) : acquired,
+        wearCount: parseInt(row.wear_count) || 0,
+        lastWornAt: row.last_worn_at ? new Date(row.last_worn_at) : undefined,
+        wearsByMonth: Object.fromEntries(
+          Object.entries(wearsByMonth).map(([month, wears]) => [Number(month), Number(wears)])
+        ),
+        listed: !!row.listed,
+      };
+    });
+  }
+
   private static mapToLoanRecord(row: any): LoanRecord {
     return {
       id: row.id,
       itemId: row.item_id,
-      loaneeId: row.loanee_id,
+      loaneeId: row.loanee_id || undefined,
       loaneeName: row.loanee_name,
       loanDate: new Date(row.loan_date),
       expectedReturnDate: row.expected_return_date ? new Date(row.expected_return_date) : undefined,
@@ -305,10 +508,28 @@ export class ItemTrackingModel {
         status: 'active', // Will be calculated
         notes: row.notes,
       }),
+      confirmationStatus: row.confirmation_status || undefined,
+      confirmedAt: row.confirmed_at ? new Date(row.confirmed_at) : undefined,
       notes: row.notes,
     };
   }
 
+  private static mapToConditionCheck(row: any): LoanConditionCheck {
+    return {
+      id: row.id,
+      loanId: row.loan_id,
+      itemId: row.item_id,
+      phase: row.phase,
+      conditionId: row.condition_id || undefined,
+      conditionName: row.condition_name,
+      conditionRating: parseFloat(row.condition_rating),
+      photos: typeof row.photos === 'string' ? JSON.parse(row.photos) : (row.photos || []),
+      notes: row.notes || undefined,
+      recordedBy: row.recorded_by || undefined,
+      createdAt: new Date(row.created_at),
+    };
+  }
+
   private static mapToWishlistItem(row: any): WishlistItem {
     const desiredItem = typeof row.desired_item === 'string'
       ? JSON.parse(row.desired_item)
@@ -7,6 +7,7 @@ import {
   MarketplaceOffer,
   WatchlistItem
 } from '@vangarments/shared/types/marketplace';
+import { ImageEmbeddingService } from '../services/imageEmbeddingService';
 
 export interface CreateListingData {
   itemId: string;
@@ -21,6 +22,8 @@ export interface CreateListingData {
   tags?: string[];
   location: any;
   expiresAt?: Date;
+  stockSkuItemId?: string;
+  stockStoreId?: string;
 }
 
 export class MarketplaceModel {
@@ -31,9 +34,10 @@ export class MarketplaceModel {
     const query = `
       INSERT INTO marketplace_listings (
         item_id, seller_id, title, description, price, condition_info,
-        shipping_options, images, category, tags, location, expires_at
+        shipping_options, images, category, tags, location, expires_at,
+        stock_sku_item_id, stock_store_id
       )
-      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
       RETURNING *
     `;
 
@@ -50,9 +54,12 @@ export class MarketplaceModel {
       data.tags || [],
       JSON.stringify(data.location),
       data.expiresAt || null,
+      data.stockSkuItemId || null,
+      data.stockStoreId || null,
     ];
 
     const result = await db.query(query, values);
+    ImageEmbeddingService.queueIndex('listing', result.rows[0].id);
     return this.findById(result.rows[0].id) as Promise<MarketplaceListing | any>;
   }
 
@@ -276,6 +283,9 @@ export class MarketplaceModel {
       return null;
     }
 
+    if (updateData.images) {
+      ImageEmbeddingService.queueIndex('listing', id);
+    }
     return this.mapToListing(result.rows[0]);
   }
 
@@ -468,6 +478,8 @@ export class MarketplaceModel {
       createdAt: new Date(row.created_at),
       updatedAt: new Date(row.updated_at),
       expiresAt: row.expires_at ? new Date(row.expires_at) : undefined,
+      stockSkuItemId: row.stock_sku_item_id || undefined,
+      stockStoreId: row.stock_store_id || undefined,
     };
   }
 
@@ -0,0 +1,92 @@
+import { db } from '../database/connection';
+
+export type QueuedChannel = 'email' | 'push';
+
+export interface NotificationDelivery {
+    id: string;
+    userId: string;
+    notificationId?: string;
+    channel: QueuedChannel;
+    mode: 'deferred' | 'digest';
+    notificationType: string;
+    title: string;
+    message?: string;
+    link?: string;
+    deliverAfter: Date;
+    status: 'pending' | 'sent' | 'failed';
+    createdAt: Date;
+}
+
+export interface CreateNotificationDeliveryData {
+    userId: string;
+    notificationId?: string;
+    channel: QueuedChannel;
+    mode: 'deferred' | 'digest';
+    notificationType: string;
+    title: string;
+    message?: string;
+    link?: string;
+    deliverAfter: Date;
+}
+
+const SELECT_COLUMNS = `
+    id,
+    user_id as "userId",
+    notification_id as "notificationId",
+    channel,
+    mode,
+    notification_type as "notificationType",
+    title,
+    message,
+    link,
+    deliver_after as "deliverAfter",
+    status,
+    created_at as "createdAt"
+`;
+
+export class NotificationDeliveryModel {
+    static async create(data: CreateNotificationDeliveryData): Promise<NotificationDelivery> {
+        const result = await db.query(
+            `INSERT INTO notification_deliveries
+                (user_id, notification_id, channel, mode, notification_type, title, message, link, deliver_after)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+             RETURNING ${SELECT_COLUMNS}`,
+            [
+                data.userId, data.notificationId || null, data.channel, data.mode, data.notificationType,
+                data.title, data.message || null, data.link || null, data.deliverAfter,
+            ]
+        );
+        return result.rows[0];
+    }
+
+    /**
+     * Pending deliveries that are due, oldest first
+     */
+    static async findDue(now: Date = new Date(), limit: number = 1000): Promise<NotificationDelivery[]> {
+        const result = await db.query(
+            `SELECT ${SELECT_COLUMNS}
+             FROM notification_deliveries
+             WHERE status = 'pending' AND deliver_after <= $1
+             ORDER BY created_at ASC
+             LIMIT $2`,
+            [now, limit]
+        );
+        return result.rows;
+    }
+
+    static async markSent(ids: string[]): Promise<void> {
+        if (ids.length === 0) return;
+        await db.query(
+            `UPDATE notification_deliveries SET status = 'sent', sent_at = NOW() WHERE id = ANY($1::uuid[])`,
+            [ids]
+        );
+    }
+
+    static async markFailed(ids: string[], error: string): Promise<void> {
+        if (ids.length === 0) return;
+        await db.query(
+            `UPDATE notification_deliveries SET status = 'failed', error = $2 WHERE id = ANY($1::uuid[])`,
+            [ids, error]
+        );
+    }
+}
@@ -0,0 +1,95 @@
+import { db } from '../database/connection';
+
+export type NotificationEventType =
+    | 'follow'
+    | 'like'
+    | 'comment'
+    | 'offer'
+    | 'message'
+    | 'loan_reminder'
+    | 'calendar_drop';
+
+export type NotificationChannel = 'in_app' | 'email' | 'push';
+
+export type DeliveryMode = 'instant' | 'digest' | 'off';
+
+export interface NotificationPreference {
+    eventType: NotificationEventType;
+    channel: NotificationChannel;
+    mode: DeliveryMode;
+}
+
+export interface NotificationSettings {
+    /** Local "HH:MM" times; both null when quiet hours are off */
+    quietHoursStart: string | null;
+    quietHoursEnd: string | null;
+    timezone: string;
+    /** Local hour the daily digest goes out */
+    digestHour: number;
+}
+
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+    quietHoursStart: null,
+    quietHoursEnd: null,
+    timezone: 'America/Sao_Paulo',
+    digestHour: 8,
+};
+
+export class NotificationPreferenceModel {
+    /**
+     * Preferences the user has explicitly set
+     */
+    static async getPreferences(userId: string): Promise<NotificationPreference[]> {
+        const result = await db.query(
+            `SELECT event_type as "eventType", channel, mode
+             FROM notification_preferences
+             WHERE user_id = $1`,
+            [userId]
+        );
+        return result.rows;
+    }
+
+    static async upsertPreferences(userId: string, preferences: NotificationPreference[]): Promise<void> {
+        if (preferences.length === 0) return;
+
+        await db.transaction(async (client) => {
+            for (const preference of preferences) {
+                await client.query(
+                    `INSERT INTO notification_preferences (user_id, event_type, channel, mode)
+                     VALUES ($1, $2, $3, $4)
+                     ON CONFLICT (user_id, event_type, channel)
+                     DO UPDATE SET mode = EXCLUDED.mode, updated_at = NOW()`,
+                    [userId, preference.eventType, preference.channel, preference.mode]
+                );
+            }
+        });
+    }
+
+    static async getSettings(userId: string): Promise<NotificationSettings> {
+        const result = await db.query(
+            `SELECT to_char(quiet_hours_start, 'HH24:MI') as "quietHoursStart",
+                    to_char(quiet_hours_end, 'HH24:MI') as "quietHoursEnd",
+                    timezone,
+                    digest_hour as "digestHour"
+             FROM notification_settings
+             WHERE user_id = $1`,
+            [userId]
+        );
+        return result.rows[0] || { ...DEFAULT_NOTIFICATION_SETTINGS };
+    }
+
+    static async updateSettings(userId: string, settings: NotificationSettings): Promise<NotificationSettings> {
+        await db.query(
+            `INSERT INTO notification_settings (user_id, quiet_hours_start, quiet_hours_end, timezone, digest_hour)
+             VALUES ($1, $2, $3, $4, $5)
+             ON CONFLICT (user_id) DO UPDATE SET
+                quiet_hours_start = EXCLUDED.quiet_hours_start,
+                quiet_hours_end = EXCLUDED.quiet_hours_end,
+                timezone = EXCLUDED.timezone,
+                digest_hour = EXCLUDED.digest_hour,
+                updated_at = NOW()`,
+            [userId, settings.quietHoursStart, settings.quietHoursEnd, settings.timezone, settings.digestHour]
+        );
+        return settings;
+    }
+}
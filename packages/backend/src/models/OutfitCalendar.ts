@@ -0,0 +1,190 @@
+import { PoolClient } from 'pg';
+import { db } from '../database/connection';
+
+export interface OutfitCalendarEntry {
+    id: string;
+    userId: string;
+    outfitId: string;
+    plannedDate: string; // YYYY-MM-DD
+    calendarEventId?: string;
+    homiesListId?: string;
+    people: string[];
+    notes?: string;
+    status: 'planned' | 'worn';
+    wornAt?: Date;
+    createdAt: Date;
+    updatedAt: Date;
+    // Enriched
+    outfit?: {
+        name: string;
+        slug: string;
+        previewUrl?: string;
+    };
+    calendarEvent?: {
+        title: string;
+        eventDate: Date;
+    };
+}
+
+export interface CreateOutfitCalendarEntryData {
+    userId: string;
+    outfitId: string;
+    plannedDate: string;
+    calendarEventId?: string;
+    homiesListId?: string;
+    people: string[];
+    notes?: string;
+}
+
+export interface UpdateOutfitCalendarEntryData {
+    outfitId?: string;
+    plannedDate?: string;
+    calendarEventId?: string | null;
+    homiesListId?: string | null;
+    people?: string[];
+    notes?: string;
+}
+
+const ENTRY_SELECT = `
+    SELECT oce.*, to_char(oce.planned_date, 'YYYY-MM-DD') as planned_day,
+        o.name as outfit_name, o.slug as outfit_slug, o.preview_url as outfit_preview_url,
+        ce.title as event_title, ce.event_date as event_date
+    FROM outfit_calendar_entries oce
+    JOIN outfits o ON o.id = oce.outfit_id
+    LEFT JOIN calendar_events ce ON ce.id = oce.calendar_event_id
+`;
+
+export class OutfitCalendarModel {
+    static async create(data: CreateOutfitCalendarEntryData): Promise<OutfitCalendarEntry> {
+        const query = `
+      INSERT INTO outfit_calendar_entries (
+        user_id, outfit_id, planned_date, calendar_event_id, homies_list_id, people, notes
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+      RETURNING id
+    `;
+        const result = await db.query(query, [
+            data.userId,
+            data.outfitId,
+            data.plannedDate,
+            data.calendarEventId || null,
+            data.homiesListId || null,
+            data.people,
+            data.notes || null
+        ]);
+        return (await this.findById(result.rows[0].id))!;
+    }
+
+    static async findById(id: string): Promise<OutfitCalendarEntry | null> {
+        const result = await db.query(`${ENTRY_SELECT} WHERE oce.id = $1`, [id]);
+        return result.rows.length > 0 ? this.mapToEntry(result.rows[0]) : null;
+    }
+
+    static async findByUserAndRange(userId: string, from: string, to: string): Promise<OutfitCalendarEntry[]> {
+        const result = await db.query(
+            `${ENTRY_SELECT}
+       WHERE oce.user_id = $1 AND oce.planned_date BETWEEN $2 AND $3
+       ORDER BY oce.planned_date ASC, oce.created_at ASC`,
+            [userId, from, to]
+        );
+        return result.rows.map(row => this.mapToEntry(row));
+    }
+
+    /**
+     * Other days the same outfit is scheduled within `windowDays` of the given date
+     */
+    static async findOutfitEntriesNear(
+        userId: string,
+        outfitId: string,
+        plannedDate: string,
+        windowDays: number,
+        excludeId?: string
+    ): Promise<OutfitCalendarEntry[]> {
+        const result = await db.query(
+            `${ENTRY_SELECT}
+       WHERE oce.user_id = $1 AND oce.outfit_id = $2
+         AND oce.planned_date BETWEEN $3::date - $4::int AND $3::date + $4::int
+         AND ($5::uuid IS NULL OR oce.id <> $5::uuid)
+       ORDER BY oce.planned_date ASC`,
+            [userId, outfitId, plannedDate, windowDays, excludeId || null]
+        );
+        return result.rows.map(row => this.mapToEntry(row));
+    }
+
+    static async update(id: string, data: UpdateOutfitCalendarEntryData): Promise<OutfitCalendarEntry | null> {
+        const updates: string[] = [];
+        const values: any[] = [];
+        let paramCount = 1;
+
+        const columns: Array<[keyof UpdateOutfitCalendarEntryData, string]> = [
+            ['outfitId', 'outfit_id'],
+            ['plannedDate', 'planned_date'],
+            ['calendarEventId', 'calendar_event_id'],
+            ['homiesListId', 'homies_list_id'],
+            ['people', 'people'],
+            ['notes', 'notes'],
+        ];
+        for (const [key, column] of columns) {
+            if (data[key] !== undefined) {
+                updates.push(`${column} = $${paramCount++}`);
+                values.push(data[key]);
+            }
+        }
+
+        if (updates.length === 0) {
+            return this.findById(id);
+        }
+
+        values.push(id);
+        const result = await db.query(
+            `UPDATE outfit_calendar_entries SET ${updates.join(', ')}, updated_at = NOW()
+       WHERE id = $${paramCount}
+       RETURNING id`,
+            values
+        );
+        return result.rows.length > 0 ? this.findById(id) : null;
+    }
+
+    /**
+     * Mark a planned entry as worn; false when it already was
+     */
+    static async markWorn(id: string, client?: PoolClient): Promise<boolean> {
+        const result = await (client || db).query(
+            `UPDATE outfit_calendar_entries SET status = 'worn', worn_at = NOW(), updated_at = NOW()
+       WHERE id = $1 AND status = 'planned'`,
+            [id]
+        );
+        return (result.rowCount || 0) > 0;
+    }
+
+    static async delete(id: string): Promise<boolean> {
+        const result = await db.query('DELETE FROM outfit_calendar_entries WHERE id = $1', [id]);
+        return (result.rowCount || 0) > 0;
+    }
+
+    private static mapToEntry(row: any): OutfitCalendarEntry {
+        return {
+            id: row.id,
+            userId: row.user_id,
+            outfitId: row.outfit_id,
+            plannedDate: row.planned_day,
+            calendarEventId: row.calendar_event_id || undefined,
+            homiesListId: row.homies_list_id || undefined,
+            people: row.people || [],
+            notes: row.notes || undefined,
+            status: row.status,
+            wornAt: row.worn_at ? new Date(row.worn_at) : undefined,
+            createdAt: new Date(row.created_at),
+            updatedAt: new Date(row.updated_at),
+            outfit: row.outfit_name !== undefined ? {
+                name: row.outfit_name,
+                slug: row.outfit_slug,
+                previewUrl: row.outfit_preview_url || undefined,
+            } : undefined,
+            calendarEvent: row.event_title ? {
+                title: row.event_title,
+                eventDate: new Date(row.event_date),
+            } : undefined,
+        };
+    }
+}
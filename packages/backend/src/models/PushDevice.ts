@@ -0,0 +1,136 @@
+import { db } from '../database/connection';
+
+export type PushProvider = 'expo' | 'fcm' | 'apns';
+
+export type PushPlatform = 'ios' | 'android' | 'web';
+
+export interface PushDevice {
+    id: string;
+    userId: string;
+    token: string;
+    provider: PushProvider;
+    platform?: PushPlatform;
+    sessionId?: string;
+    deviceName?: string;
+    appVersion?: string;
+    lastSeenAt: Date;
+    createdAt: Date;
+}
+
+export interface RegisterPushDeviceData {
+    userId: string;
+    token: string;
+    provider: PushProvider;
+    platform?: PushPlatform;
+    sessionId?: string;
+    deviceName?: string;
+    appVersion?: string;
+}
+
+const SELECT_COLUMNS = `
+    id,
+    user_id as "userId",
+    token,
+    provider,
+    platform,
+    session_id as "sessionId",
+    device_name as "deviceName",
+    app_version as "appVersion",
+    last_seen_at as "lastSeenAt",
+    created_at as "createdAt"
+`;
+
+export class PushDeviceModel {
+    /**
+     * Register a token, or refresh it (and move it to this user) if it is already known
+     */
+    static async register(data: RegisterPushDeviceData): Promise<PushDevice> {
+        const result = await db.query(
+            `INSERT INTO push_devices (user_id, token, provider, platform, session_id, device_name, app_version)
+             VALUES ($1, $2, $3, $4, $5, $6, $7)
+             ON CONFLICT (token) DO UPDATE SET
+                user_id = EXCLUDED.user_id,
+                provider = EXCLUDED.provider,
+                platform = EXCLUDED.platform,
+                session_id = EXCLUDED.session_id,
+                device_name = EXCLUDED.device_name,
+                app_version = EXCLUDED.app_version,
+                last_seen_at = NOW()
+             RETURNING ${SELECT_COLUMNS}`,
+            [
+                data.userId, data.token, data.provider, data.platform || null, data.sessionId || null,
+                data.deviceName || null, data.appVersion || null,
+            ]
+        );
+        return result.rows[0];
+    }
+
+    static async findByUserId(userId: string): Promise<PushDevice[]> {
+        const result = await db.query(
+            `SELECT ${SELECT_COLUMNS} FROM push_devices WHERE user_id = $1 ORDER BY last_seen_at DESC`,
+            [userId]
+        );
+        return result.rows;
+    }
+
+    static async unregister(userId: string, token: string): Promise<boolean> {
+        const result = await db.query(
+            'DELETE FROM push_devices WHERE user_id = $1 AND token = $2',
+            [userId, token]
+        );
+        return (result.rowCount ?? 0) > 0;
+    }
+
+    /**
+     * Drop every token registered by one sign-in session, e.g. on logout
+     */
+    static async unregisterSession(userId: string, sessionId: string): Promise<number> {
+        const result = await db.query(
+            'DELETE FROM push_devices WHERE user_id = $1 AND session_id = $2',
+            [userId, sessionId]
+        );
+        return result.rowCount ?? 0;
+    }
+
+    /**
+     * Remove tokens the push provider reported as no longer valid
+     */
+    static async deleteByIds(ids: string[]): Promise<void> {
+        if (ids.length === 0) return;
+        await db.query('DELETE FROM push_devices WHERE id = ANY($1::uuid[])', [ids]);
+    }
+
+    static async recordTickets(tickets: { id: string; deviceId: string }[]): Promise<void> {
+        if (tickets.length === 0) return;
+        await db.query(
+            `INSERT INTO push_tickets (id, device_id)
+             SELECT * FROM UNNEST($1::varchar[], $2::uuid[])
+             ON CONFLICT (id) DO NOTHING`,
+            [tickets.map(ticket => ticket.id), tickets.map(ticket => ticket.deviceId)]
+        );
+    }
+
+    /**
+     * Tickets old enough for the provider to have a receipt ready
+     */
+    static async findTicketsBefore(
+        before: Date,
+        limit: number = 1000
+    ): Promise<{ id: string; deviceId: string; provider: PushProvider }[]> {
+        const result = await db.query(
+            `SELECT t.id, t.device_id as "deviceId", d.provider
+             FROM push_tickets t
+             JOIN push_devices d ON d.id = t.device_id
+             WHERE t.created_at <= $1
+             ORDER BY t.created_at ASC
+             LIMIT $2`,
+            [before, limit]
+        );
+        return result.rows;
+    }
+
+    static async deleteTickets(ids: string[]): Promise<void> {
+        if (ids.length === 0) return;
+        await db.query('DELETE FROM push_tickets WHERE id = ANY($1::varchar[])', [ids]);
+    }
+}
@@ -1,5 +1,9 @@
+import { PoolClient } from 'pg';
 import { db } from '../database/connection';
 import { CategoryHierarchy } from '@vangarments/shared/types/vufs';
+import { SearchIndexService } from '../services/searchIndexService';
+import { ImageEmbeddingService } from '../services/imageEmbeddingService';
+import { SKUChangeActor, SKUVersionModel } from './SKUVersion';
 
 export interface SKUItem {
     id: string;
@@ -124,7 +128,11 @@ export interface UpdateSKUItemData {
 }
 
 export class SKUItemModel {
-    static async create(data: CreateSKUItemData): Promise<SKUItem> {
+    /**
+     * Within a transaction (`client` given) the search and image indexes are
+     * not queued; the caller queues them once the transaction commits
+     */
+    static async create(data: CreateSKUItemData, client?: PoolClient): Promise<SKUItem> {
         const query = `
             INSERT INTO sku_items(
                 brand_id, name, code, collection, line, line_id,
@@ -164,7 +172,14 @@ export class SKUItemModel {
             data.sponsorRestrictionFlag || false
         ];
 
+        if (client) {
+            const result = await client.query(query, values);
+            return this.mapRowToSKUItem(result.rows[0]);
+        }
+
         const result = await db.query(query, values);
+        SearchIndexService.queueReindex('sku', result.rows[0].id);
+        ImageEmbeddingService.queueIndex('sku', result.rows[0].id);
         return this.mapRowToSKUItem(result.rows[0]);
     }
 
@@ -455,7 +470,15 @@ export class SKUItemModel {
         return { skus, total };
     }
 
-    static async update(id: string, data: UpdateSKUItemData): Promise<SKUItem | null> {
+    /**
+     * Update a SKU and record the change in its version history
+     */
+    static async update(
+        id: string,
+        data: UpdateSKUItemData,
+        changedBy?: SKUChangeActor | null,
+        options: { changeType?: 'update' | 'rollback'; rolledBackTo?: number } = {}
+    ): Promise<SKUItem | null> {
         const updates: string[] = [];
         const values: any[] = [];
         let paramIndex = 1;
@@ -488,21 +511,46 @@ export class SKUItemModel {
         RETURNING *
             `;
 
-        const result = await db.query(query, values);
+        const updated = await db.transaction(async (client) => {
+            const current = await client.query('SELECT * FROM sku_items WHERE id = $1 FOR UPDATE', [id]);
+            if (current.rows.length === 0) {
+                return false;
+            }
+
+            const result = await client.query(query, values);
+            await SKUVersionModel.record(
+                client,
+                id,
+                SKUVersionModel.snapshot(this.mapRowToSKUItem(current.rows[0])),
+                SKUVersionModel.snapshot(this.mapRowToSKUItem(result.rows[0])),
+                { ...options, changedBy, previousAt: current.rows[0].updated_at }
+            );
+            return true;
+        });
+        if (!updated) {
+            return null;
+        }
+
+        SearchIndexService.queueReindex('sku', id);
+        if (data.images !== undefined) {
+            ImageEmbeddingService.queueIndex('sku', id);
+        }
         return this.findById(id); // Re-fetch to get joined data
     }
 
     static async delete(id: string): Promise<boolean> {
         // Cascade soft delete to variants
-        const query = 'UPDATE sku_items SET deleted_at = NOW() WHERE id = $1 OR parent_sku_id = $1';
+        const query = 'UPDATE sku_items SET deleted_at = NOW() WHERE id = $1 OR parent_sku_id = $1 RETURNING id';
         const result = await db.query(query, [id]);
+        SearchIndexService.queueReindex('sku', result.rows.map(row => row.id));
         return (result.rowCount || 0) > 0;
     }
 
     static async restore(id: string): Promise<boolean> {
         // Cascade restore to variants
-        const query = 'UPDATE sku_items SET deleted_at = NULL WHERE id = $1 OR parent_sku_id = $1';
+        const query = 'UPDATE sku_items SET deleted_at = NULL WHERE id = $1 OR parent_sku_id = $1 RETURNING id';
         const result = await db.query(query, [id]);
+        SearchIndexService.queueReindex('sku', result.rows.map(row => row.id));
         return (result.rowCount || 0) > 0;
     }
 
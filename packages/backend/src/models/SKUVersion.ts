@@ -0,0 +1,198 @@
+import { PoolClient } from 'pg';
+import { db } from '../database/connection';
+import { SKUItem } from './SKUItem';
+
+/** SKU fields whose changes are versioned; the same fields a rollback restores */
+export const SKU_VERSIONED_FIELDS = [
+    'name', 'code', 'collection', 'line', 'lineId', 'category', 'description', 'materials',
+    'images', 'videos', 'metadata', 'retailPriceBrl', 'retailPriceUsd', 'retailPriceEur',
+    'releaseDate', 'careInstructions', 'officialItemLink',
+] as const;
+
+export type SKUVersionedField = typeof SKU_VERSIONED_FIELDS[number];
+export type SKUSnapshot = Partial<Record<SKUVersionedField, any>>;
+export type SKUChangeType = 'baseline' | 'update' | 'rollback';
+
+export interface SKUFieldChange {
+    field: SKUVersionedField;
+    from: any;
+    to: any;
+}
+
+/** Who made a change, with their brand team roles at the time */
+export interface SKUChangeActor {
+    userId: string;
+    teamRoles?: string[];
+    teamTitle?: string | null;
+}
+
+export interface SKUVersion {
+    id: string;
+    skuId: string;
+    version: number;
+    changeType: SKUChangeType;
+    changes: SKUFieldChange[];
+    snapshot: SKUSnapshot;
+    changedBy: {
+        userId: string;
+        name?: string;
+        username?: string;
+        teamRoles: string[];
+        teamTitle?: string;
+    } | null;
+    rolledBackTo: number | null;
+    createdAt: Date;
+}
+
+export class SKUVersionModel {
+    /**
+     * Versioned fields of a SKU, normalised so equal values compare equal:
+     * prices as numbers, the release date as YYYY-MM-DD and blanks as null
+     */
+    static snapshot(sku: SKUItem): SKUSnapshot {
+        const snapshot: SKUSnapshot = {};
+        for (const field of SKU_VERSIONED_FIELDS) {
+            const value = (sku as any)[field];
+            if (value === undefined || value === null || value === '') {
+                snapshot[field] = null;
+            } else if (field.startsWith('retailPrice')) {
+                snapshot[field] = Number(value);
+            } else if (field === 'releaseDate') {
+                // pg reads DATE columns as local midnight
+                snapshot[field] = value instanceof Date
+                    ? `${value.getFullYear()}-${String(value.getMonth() + 1).padStart(2, '0')}-${String(value.getDate()).padStart(2, '0')}`
+                    : String(value).slice(0, 10);
+            } else {
+                snapshot[field] = value;
+            }
+        }
+        return snapshot;
+    }
+
+    static diff(before: SKUSnapshot, after: SKUSnapshot): SKUFieldChange[] {
+        return SKU_VERSIONED_FIELDS
+            .filter(field => canonical(before[field] ?? null) !== canonical(after[field] ?? null))
+            .map(field => ({ field, from: before[field] ?? null, to: after[field] ?? null }));
+    }
+
+    /**
+     * Record a change inside the transaction that made it. SKUs edited for the
+     * first time get a baseline version holding their previous state.
+     * Returns null when nothing versioned changed.
+     */
+    static async record(
+        client: PoolClient,
+        skuId: string,
+        before: SKUSnapshot,
+        after: SKUSnapshot,
+        options: {
+            changedBy?: SKUChangeActor | null;
+            changeType?: Exclude<SKUChangeType, 'baseline'>;
+            rolledBackTo?: number;
+            /** When the previous state was saved, used for the baseline */
+            previousAt?: Date;
+        } = {}
+    ): Promise<SKUVersion | null> {
+        const changes = this.diff(before, after);
+        if (changes.length === 0) {
+            return null;
+        }
+
+        const latest = await client.query(
+            'SELECT COALESCE(MAX(version), 0) AS version FROM sku_versions WHERE sku_id = $1',
+            [skuId]
+        );
+        let version = Number(latest.rows[0].version);
+
+        if (version === 0) {
+            version = 1;
+            await client.query(
+                `INSERT INTO sku_versions (sku_id, version, change_type, changes, snapshot, created_at)
+                 VALUES ($1, 1, 'baseline', '[]', $2, COALESCE($3, NOW()))`,
+                [skuId, JSON.stringify(before), options.previousAt || null]
+            );
+        }
+
+        const result = await client.query(
+            `INSERT INTO sku_versions
+                (sku_id, version, change_type, changes, snapshot, changed_by, changed_by_roles, changed_by_title, rolled_back_to)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+             RETURNING *`,
+            [
+                skuId,
+                version + 1,
+                options.changeType || 'update',
+                JSON.stringify(changes),
+                JSON.stringify(after),
+                options.changedBy?.userId || null,
+                options.changedBy?.teamRoles || [],
+                options.changedBy?.teamTitle || null,
+                options.rolledBackTo ?? null,
+            ]
+        );
+        return this.mapRow(result.rows[0]);
+    }
+
+    /**
+     * Versions of a SKU, newest first
+     */
+    static async findBySku(skuId: string, limit = 50, offset = 0): Promise<{ versions: SKUVersion[]; total: number }> {
+        const [result, count] = await Promise.all([
+            db.query(
+                `SELECT v.*, u.profile->>'name' AS user_name, u.username
+                 FROM sku_versions v
+                 LEFT JOIN users u ON u.id = v.changed_by
+                 WHERE v.sku_id = $1
+                 ORDER BY v.version DESC
+                 LIMIT $2 OFFSET $3`,
+                [skuId, limit, offset]
+            ),
+            db.query('SELECT COUNT(*) AS total FROM sku_versions WHERE sku_id = $1', [skuId]),
+        ]);
+
+        return {
+            versions: result.rows.map(row => this.mapRow(row)),
+            total: Number(count.rows[0].total),
+        };
+    }
+
+    static async findVersion(skuId: string, version: number): Promise<SKUVersion | null> {
+        const result = await db.query(
+            `SELECT v.*, u.profile->>'name' AS user_name, u.username
+             FROM sku_versions v
+             LEFT JOIN users u ON u.id = v.changed_by
+             WHERE v.sku_id = $1 AND v.version = $2`,
+            [skuId, version]
+        );
+        return result.rows.length > 0 ? this.mapRow(result.rows[0]) : null;
+    }
+
+    private static mapRow(row: any): SKUVersion {
+        return {
+            id: row.id,
+            skuId: row.sku_id,
+            version: row.version,
+            changeType: row.change_type,
+            changes: row.changes || [],
+            snapshot: row.snapshot || {},
+            changedBy: row.changed_by ? {
+                userId: row.changed_by,
+                name: row.user_name || undefined,
+                username: row.username || undefined,
+                teamRoles: row.changed_by_roles || [],
+                teamTitle: row.changed_by_title || undefined,
+            } : null,
+            rolledBackTo: row.rolled_back_to ?? null,
+            createdAt: row.created_at,
+        };
+    }
+}
+
+// JSON with sorted object keys, so JSONB round trips don't register as changes
+function canonical(value: any): string {
+    if (Array.isArray(value)) return `[${value.map(canonical).join(',')}]`;
+    if (value && typeof value === 'object') {
+        return `{${Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${canonical(value[key])}`).join(',')}}`;
+    }
+    return JSON.stringify(value);
+}
@@ -1,6 +1,7 @@
 import { db } from '../database/connection';
 import { SocialPost } from '@vangarments/shared';
 import { slugify } from '../utils/slugify';
+import { SearchIndexService } from '../services/searchIndexService';
 
 export interface CreateSocialPostData {
   userId: string;
@@ -72,6 +73,7 @@ export class SocialPostModel {
     ];
 
     const result = await db.query(query, values);
+    SearchIndexService.queueReindex('post', result.rows[0].id);
     return this.mapRowToSocialPost(result.rows[0]);
   }
 
@@ -233,12 +235,14 @@ export class SocialPostModel {
     `;
 
     const result = await db.query(query, values);
+    SearchIndexService.queueReindex('post', id);
     return result.rows.length > 0 ? this.mapRowToSocialPost(result.rows[0]) : null;
   }
 
   static async delete(id: string): Promise<boolean> {
     const query = 'DELETE FROM social_posts WHERE id = $1';
     const result = await db.query(query, [id]);
+    SearchIndexService.queueReindex('post', id);
     return (result.rowCount || 0) > 0;
   }
 
@@ -1,5 +1,6 @@
 import { db } from '../database/connection';
 import { AuthUtils } from '../utils/auth';
+import { SearchIndexService } from '../services/searchIndexService';
 import { UserProfile, UserMeasurements, FashionPreferences, Location, SocialLink, PrivacySettings } from '@vangarments/shared';
 
 export interface CreateUserData {
@@ -114,6 +115,7 @@ export class UserModel {
       console.error('Error auto-following @v:', e);
     }
 
+    SearchIndexService.queueReindex('user', mappedUser.id);
     return mappedUser;
   }
 
@@ -412,6 +414,7 @@ export class UserModel {
       return null;
     }
 
+    SearchIndexService.queueReindex('user', userId);
     return this.mapToUserProfile(result.rows[0]);
   }
 
@@ -517,6 +520,7 @@ export class UserModel {
     // Update username
     const updateQuery = 'UPDATE users SET username = $1, username_last_changed = NOW(), updated_at = NOW() WHERE id = $2';
     await db.query(updateQuery, [newUsername, userId]);
+    SearchIndexService.queueReindex('user', userId);
 
     return { success: true };
   }
@@ -749,6 +753,7 @@ export class UserModel {
       WHERE id = $4
     `;
     await db.query(query, [status, banExpiresAt || null, banReason || null, userId]);
+    SearchIndexService.queueReindex('user', userId);
   }
 
   static async moveToTrash(userId: string): Promise<void> {
@@ -767,6 +772,7 @@ export class UserModel {
       await client.query('DELETE FROM brand_accounts WHERE user_id = $1', [userId]);
       const result = await client.query('DELETE FROM users WHERE id = $1', [userId]);
       await client.query('COMMIT');
+      SearchIndexService.queueOwnerRemoval(userId);
       return (result.rowCount || 0) > 0;
     } catch (e) {
       await client.query('ROLLBACK');
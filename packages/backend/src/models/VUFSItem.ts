@@ -1,6 +1,8 @@
 import { db } from '../database/connection';
 import { CategoryHierarchy, BrandHierarchy, ItemMetadata, ItemCondition, OwnershipInfo } from '@vangarments/shared/types/vufs';
 import { VUFSUtils } from '../utils/vufs';
+import { SearchIndexService } from '../services/searchIndexService';
+import { SearchService } from '../services/searchService';
 
 // Local interface matching the actual DB structure and Frontend expectations
 export interface BackendVUFSItem {
@@ -58,6 +60,7 @@ export interface UpdateVUFSItemData {
   condition?: ItemCondition;
   ownership?: OwnershipInfo;
   vufsCode?: string; // Optional custom VUFS code update
+  skuItemId?: string | null; // Catalog SKU the owner confirmed, null to unlink
 }
 
 export interface VUFSItemFilters {
@@ -117,6 +120,7 @@ export class VUFSItemModel {
     ];
 
     const result = await db.query(query, values);
+    SearchIndexService.queueReindex('item', result.rows[0].id);
     return this.mapToVUFSItem(result.rows[0]);
   }
 
@@ -412,6 +416,12 @@ export class VUFSItemModel {
       paramCount++;
     }
 
+    if (updateData.skuItemId !== undefined) {
+      updates.push(`sku_item_id = $${paramCount}`);
+      values.push(updateData.skuItemId);
+      paramCount++;
+    }
+
     if (updates.length === 0) {
       return this.findById(id);
     }
@@ -429,6 +439,7 @@ export class VUFSItemModel {
       return null;
     }
 
+    SearchIndexService.queueReindex('item', id);
     return this.mapToVUFSItem(result.rows[0]);
   }
 
@@ -438,6 +449,7 @@ export class VUFSItemModel {
   static async delete(id: string): Promise<boolean> {
     const query = 'UPDATE vufs_items SET deleted_at = NOW() WHERE id = $1 AND deleted_at IS NULL';
     const result = await db.query(query, [id]);
+    SearchIndexService.queueReindex('item', id);
     return (result.rowCount || 0) > 0;
   }
 
@@ -489,6 +501,7 @@ export class VUFSItemModel {
   static async restore(id: string): Promise<boolean> {
     const query = 'UPDATE vufs_items SET deleted_at = NULL WHERE id = $1 AND deleted_at IS NOT NULL';
     const result = await db.query(query, [id]);
+    SearchIndexService.queueReindex('item', id);
     return (result.rowCount || 0) > 0;
   }
 
@@ -533,6 +546,10 @@ export class VUFSItemModel {
   }
 
   static async search(searchTerm: string, filters?: VUFSItemFilters): Promise<BackendVUFSItem[]> {
+    // Rank through the search index, filtering in the same query so the limit
+    // only ever cuts rows the caller could have seen
+    const match = SearchService.buildMatchQuery('item', searchTerm, 1);
+
     let query = `
       SELECT v.*, 
              b.brand_info->>'name' as brand_account_name, 
@@ -541,19 +558,15 @@ export class VUFSItemModel {
              l.name as line_name, l.logo as line_logo,
              c.name as collection_name, c.cover_image_url as collection_cover
       FROM vufs_items v
+      JOIN (${match.sql}) search_match ON search_match.entity_id = v.id
       LEFT JOIN brand_accounts b ON (v.brand_hierarchy->>'brand' ILIKE (b.brand_info->>'name'))
       LEFT JOIN brand_lines l ON (v.brand_hierarchy->>'line' = l.name AND b.id = l.brand_id)
       LEFT JOIN brand_collections c ON (v.metadata->>'collection' = c.name AND b.id = c.brand_id)
-      WHERE (
-        $1 = ANY(v.search_keywords) OR
-        v.category_hierarchy::text ILIKE $2 OR
-        v.brand_hierarchy::text ILIKE $2 OR
-        v.metadata::text ILIKE $2
-      )
+      WHERE v.deleted_at IS NULL
     `;
 
-    const values: any[] = [searchTerm.toLowerCase(), `%${searchTerm}%`];
-    let paramCount = 3;
+    const values: any[] = [...match.values];
+    let paramCount = values.length + 1;
 
     // Apply additional filters
     if (filters?.category) {
@@ -591,7 +604,7 @@ export class VUFSItemModel {
       paramCount++;
     }
 
-    query += ' ORDER BY created_at DESC LIMIT 50';
+    query += ' ORDER BY search_match.score DESC LIMIT 50';
 
     const result = await db.query(query, values);
     return result.rows.map(row => this.mapToVUFSItem(row));
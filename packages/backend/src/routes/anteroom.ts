@@ -9,6 +9,7 @@ router.post('/items', AuthUtils.authenticateToken, AnteroomController.addItem);
 router.get('/items', AuthUtils.authenticateToken, AnteroomController.getUserItems);
 router.put('/items/:id', AuthUtils.authenticateToken, AnteroomController.updateItem);
 router.post('/items/:id/complete', AuthUtils.authenticateToken, AnteroomController.completeItem);
+router.get('/items/:id/sku-matches', AuthUtils.authenticateToken, AnteroomController.getSkuMatches);
 router.delete('/items/:id', AuthUtils.authenticateToken, AnteroomController.removeItem);
 
 // New batch and bulk operations
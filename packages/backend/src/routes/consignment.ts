@@ -0,0 +1,323 @@
+import { Router, Request, Response } from 'express';
+import { AuthUtils } from '../utils/auth';
+import { ConsignmentService } from '../services/consignmentService';
+import { ConsignmentStatementExport } from '../utils/consignmentStatementExport';
+
+const router = Router();
+
+const CLIENT_ERRORS = [
+    'required',
+    'must be',
+    'not found',
+    'already',
+    'Invalid',
+];
+
+const isClientError = (error: any): boolean =>
+    CLIENT_ERRORS.some(fragment => error?.message?.includes(fragment));
+
+const sendError = (res: Response, error: any, fallback: string) => {
+    if (isClientError(error)) {
+        const status = error.message.includes('not found') ? 404 : 400;
+        return res.status(status).json({ success: false, error: error.message });
+    }
+    console.error(`${fallback}:`, error);
+    res.status(500).json({ success: false, error: fallback });
+};
+
+// All consignment routes act on the authenticated store owner's consignments
+router.use(AuthUtils.authenticateToken);
+
+// ============================================
+// SETTINGS & COMMISSION RULES
+// ============================================
+
+/**
+ * GET /consignment/settings
+ * Commission, platform fee and repass settings (platform defaults unless overridden)
+ */
+router.get('/settings', async (req: Request, res: Response) => {
+    try {
+        const settings = await ConsignmentService.getSettings((req as any).user.id);
+        res.json({ success: true, data: settings });
+    } catch (error) {
+        sendError(res, error, 'Failed to fetch consignment settings');
+    }
+});
+
+/**
+ * PUT /consignment/settings
+ */
+router.put('/settings', async (req: Request, res: Response) => {
+    try {
+        const { defaultCommissionRate, platformFeeRates, paymentTerms, minimumPayout, autoRepassThreshold } = req.body;
+        const settings = await ConsignmentService.updateSettings((req as any).user.id, {
+            defaultCommissionRate,
+            platformFeeRates,
+            paymentTerms,
+            minimumPayout,
+            autoRepassThreshold,
+        });
+        res.json({ success: true, data: settings });
+    } catch (error) {
+        sendError(res, error, 'Failed to update consignment settings');
+    }
+});
+
+/**
+ * GET /consignment/rules
+ */
+router.get('/rules', async (req: Request, res: Response) => {
+    try {
+        const rules = await ConsignmentService.getRules((req as any).user.id);
+        res.json({ success: true, data: rules });
+    } catch (error) {
+        sendError(res, error, 'Failed to fetch commission rules');
+    }
+});
+
+/**
+ * POST /consignment/rules
+ * Commission rule scoped by consignor, category, brand and/or price range
+ */
+router.post('/rules', async (req: Request, res: Response) => {
+    try {
+        const rule = await ConsignmentService.createRule((req as any).user.id, req.body);
+        res.status(201).json({ success: true, data: rule });
+    } catch (error) {
+        sendError(res, error, 'Failed to create commission rule');
+    }
+});
+
+/**
+ * DELETE /consignment/rules/:id
+ */
+router.delete('/rules/:id', async (req: Request, res: Response) => {
+    try {
+        const deleted = await ConsignmentService.deleteRule((req as any).user.id, req.params.id);
+        if (!deleted) {
+            return res.status(404).json({ success: false, error: 'Commission rule not found' });
+        }
+        res.json({ success: true, message: 'Commission rule deleted' });
+    } catch (error) {
+        sendError(res, error, 'Failed to delete commission rule');
+    }
+});
+
+// ============================================
+// CONSIGNED ITEMS
+// ============================================
+
+/**
+ * GET /consignment/items
+ * Query: status, supplierId, ownerUserId, page, limit
+ */
+router.get('/items', async (req: Request, res: Response) => {
+    try {
+        const { status, supplierId, ownerUserId, page = 1, limit = 50 } = req.query;
+        const pageSize = Math.min(parseInt(limit as string) || 50, 100);
+        const offset = ((parseInt(page as string) || 1) - 1) * pageSize;
+
+        const result = await ConsignmentService.listItems(
+            (req as any).user.id,
+            {
+                status: status as any,
+                supplierId: supplierId as string,
+                ownerUserId: ownerUserId as string,
+            },
+            pageSize,
+            offset
+        );
+        res.json({ success: true, data: result });
+    } catch (error) {
+        sendError(res, error, 'Failed to fetch consigned items');
+    }
+});
+
+/**
+ * POST /consignment/items
+ * Register an item consigned by a supplier (supplierId) or a user (ownerUserId)
+ */
+router.post('/items', async (req: Request, res: Response) => {
+    try {
+        const item = await ConsignmentService.registerItem((req as any).user.id, req.body);
+        res.status(201).json({ success: true, data: item });
+    } catch (error) {
+        sendError(res, error, 'Failed to register consigned item');
+    }
+});
+
+/**
+ * GET /consignment/items/:id
+ */
+router.get('/items/:id', async (req: Request, res: Response) => {
+    try {
+        const item = await ConsignmentService.getItem((req as any).user.id, req.params.id);
+        if (!item) {
+            return res.status(404).json({ success: false, error: 'Consigned item not found' });
+        }
+        res.json({ success: true, data: item });
+    } catch (error) {
+        sendError(res, error, 'Failed to fetch consigned item');
+    }
+});
+
+/**
+ * PATCH /consignment/items/:id/status
+ * Body: { status: 'consigned' | 'listed' | 'returned' }
+ */
+router.patch('/items/:id/status', async (req: Request, res: Response) => {
+    try {
+        const { status } = req.body;
+        if (!['consigned', 'listed', 'returned'].includes(status)) {
+            return res.status(400).json({ success: false, error: 'Invalid status' });
+        }
+
+        const item = await ConsignmentService.updateItemStatus((req as any).user.id, req.params.id, status);
+        res.json({ success: true, data: item });
+    } catch (error) {
+        sendError(res, error, 'Failed to update consigned item');
+    }
+});
+
+/**
+ * POST /consignment/items/:id/sale
+ * Record an off-platform sale. Body: { soldPrice, platform, platformFee?, paymentMethod? }
+ */
+router.post('/items/:id/sale', async (req: Request, res: Response) => {
+    try {
+        const { soldPrice, platform, platformFee, paymentMethod } = req.body;
+        if (!platform) {
+            return res.status(400).json({ success: false, error: 'Sale platform is required' });
+        }
+
+        const result = await ConsignmentService.recordSale((req as any).user.id, req.params.id, {
+            soldPrice: parseFloat(soldPrice),
+            platform,
+            platformFee: platformFee !== undefined ? parseFloat(platformFee) : undefined,
+            paymentMethod,
+        });
+        res.status(201).json({ success: true, data: result });
+    } catch (error) {
+        sendError(res, error, 'Failed to record consignment sale');
+    }
+});
+
+// ============================================
+// REPASS
+// ============================================
+
+/**
+ * GET /consignment/repass
+ * Outstanding balance per consignor and whether it is due for repass
+ */
+router.get('/repass', async (req: Request, res: Response) => {
+    try {
+        const summary = await ConsignmentService.getRepassSummary((req as any).user.id);
+        res.json({ success: true, data: summary });
+    } catch (error) {
+        sendError(res, error, 'Failed to fetch repass summary');
+    }
+});
+
+/**
+ * POST /consignment/statements/generate
+ * Body: { year, month } - issue monthly statements for every consignor with sales
+ */
+router.post('/statements/generate', async (req: Request, res: Response) => {
+    try {
+        const now = new Date();
+        const year = req.body.year !== undefined ? parseInt(req.body.year) : now.getUTCFullYear();
+        const month = req.body.month !== undefined ? parseInt(req.body.month) : now.getUTCMonth() + 1;
+
+        const statements = await ConsignmentService.generateMonthlyStatements((req as any).user.id, year, month);
+        res.status(201).json({ success: true, data: statements });
+    } catch (error) {
+        sendError(res, error, 'Failed to generate statements');
+    }
+});
+
+/**
+ * GET /consignment/statements
+ * Query: status, supplierId, ownerUserId, page, limit
+ */
+router.get('/statements', async (req: Request, res: Response) => {
+    try {
+        const { status, supplierId, ownerUserId, page = 1, limit = 50 } = req.query;
+        const pageSize = Math.min(parseInt(limit as string) || 50, 100);
+        const offset = ((parseInt(page as string) || 1) - 1) * pageSize;
+
+        const statements = await ConsignmentService.listStatements(
+            (req as any).user.id,
+            {
+                status: status as any,
+                supplierId: supplierId as string,
+                ownerUserId: ownerUserId as string,
+            },
+            pageSize,
+            offset
+        );
+        res.json({ success: true, data: statements });
+    } catch (error) {
+        sendError(res, error, 'Failed to fetch statements');
+    }
+});
+
+/**
+ * GET /consignment/statements/:id
+ * Available to the store owner and to the consignor user
+ */
+router.get('/statements/:id', async (req: Request, res: Response) => {
+    try {
+        const statement = await ConsignmentService.getStatement(req.params.id, (req as any).user.id);
+        if (!statement) {
+            return res.status(404).json({ success: false, error: 'Statement not found' });
+        }
+        res.json({ success: true, data: statement });
+    } catch (error) {
+        sendError(res, error, 'Failed to fetch statement');
+    }
+});
+
+/**
+ * GET /consignment/statements/:id/export?format=csv|pdf
+ */
+router.get('/statements/:id/export', async (req: Request, res: Response) => {
+    try {
+        const format = (req.query.format as string) || 'csv';
+        if (format !== 'csv' && format !== 'pdf') {
+            return res.status(400).json({ success: false, error: 'Format must be csv or pdf' });
+        }
+
+        const statement = await ConsignmentService.getStatement(req.params.id, (req as any).user.id);
+        if (!statement) {
+            return res.status(404).json({ success: false, error: 'Statement not found' });
+        }
+
+        const filename = ConsignmentStatementExport.filename(statement, format);
+        res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+
+        if (format === 'pdf') {
+            res.type('application/pdf').send(ConsignmentStatementExport.toPDF(statement));
+        } else {
+            res.type('text/csv').send(ConsignmentStatementExport.toCSV(statement));
+        }
+    } catch (error) {
+        sendError(res, error, 'Failed to export statement');
+    }
+});
+
+/**
+ * POST /consignment/statements/:id/pay
+ * Mark the statement as repassed to the consignor
+ */
+router.post('/statements/:id/pay', async (req: Request, res: Response) => {
+    try {
+        const statement = await ConsignmentService.markStatementPaid((req as any).user.id, req.params.id);
+        res.json({ success: true, data: statement });
+    } catch (error) {
+        sendError(res, error, 'Failed to mark statement as paid');
+    }
+});
+
+export default router;
@@ -0,0 +1,184 @@
+import { Router, Request, Response } from 'express';
+import { AuthUtils } from '../utils/auth';
+import { requireAdmin } from '../middleware/adminAuth';
+import { ExportPlatform } from '@vangarments/shared/types/vufs';
+import { VUFSCatalogModel } from '../models/VUFSCatalog';
+import { SKUItemModel } from '../models/SKUItem';
+import { PlatformExportAdapters } from '../services/platformExportAdapters';
+import { PlatformExportService } from '../services/platformExportService';
+
+const router = Router();
+
+const isAdmin = (req: Request): boolean => !!(req as any).user?.roles?.includes('admin');
+
+/**
+ * GET /exports/platforms
+ * Supported platforms and the feed file each produces (if any)
+ */
+router.get('/platforms', AuthUtils.authenticateToken, (req: Request, res: Response) => {
+    res.json({ success: true, data: PlatformExportAdapters.list() });
+});
+
+/**
+ * POST /exports/preview
+ * Body: { platform, sourceType: 'catalog' | 'sku', sourceId }
+ * Platform product data for a single item, with validation errors
+ */
+router.post('/preview', AuthUtils.authenticateToken, async (req: Request, res: Response) => {
+    try {
+        const userId = (req as any).user?.id;
+        const { platform, sourceType, sourceId } = req.body;
+
+        const adapter = PlatformExportAdapters.get(platform as ExportPlatform);
+
+        let product;
+        if (sourceType === 'sku') {
+            const sku = await SKUItemModel.findById(sourceId);
+            product = sku ? PlatformExportAdapters.fromSKUItem(sku) : null;
+        } else {
+            const entry = await VUFSCatalogModel.findById(sourceId);
+            if (entry && entry.createdBy !== userId && !isAdmin(req)) {
+                return res.status(403).json({ success: false, error: 'Not authorized to export this item' });
+            }
+            product = entry ? PlatformExportAdapters.fromVUFSItem(entry.id, entry.item) : null;
+        }
+
+        if (!product) {
+            return res.status(404).json({ success: false, error: 'Item not found' });
+        }
+
+        res.json({
+            success: true,
+            data: {
+                platformData: adapter.toProductData(product),
+                errors: adapter.validate(product)
+            }
+        });
+    } catch (error: any) {
+        if (error?.message?.includes('not found')) {
+            return res.status(400).json({ success: false, error: error.message });
+        }
+        console.error('Error previewing platform export:', error);
+        res.status(500).json({ success: false, error: 'Failed to preview export' });
+    }
+});
+
+// ============================================
+// EXPORT JOBS
+// ============================================
+
+/**
+ * POST /exports/jobs
+ * Body: { platform, sourceType: 'catalog' | 'sku', sourceIds?, brandId? }
+ * Queue a feed export. Catalog exports default to the user's published items.
+ */
+router.post('/jobs', AuthUtils.authenticateToken, async (req: Request, res: Response) => {
+    try {
+        const userId = (req as any).user?.id;
+        const { platform, sourceType = 'catalog', sourceIds, brandId } = req.body;
+
+        if (!['catalog', 'sku'].includes(sourceType)) {
+            return res.status(400).json({ success: false, error: 'sourceType must be catalog or sku' });
+        }
+        if (sourceIds !== undefined && !Array.isArray(sourceIds)) {
+            return res.status(400).json({ success: false, error: 'sourceIds must be an array' });
+        }
+
+        const job = await PlatformExportService.createJob({
+            platform,
+            sourceType,
+            sourceIds,
+            brandId,
+            requestedBy: userId,
+            isAdmin: isAdmin(req),
+        });
+        res.status(202).json({ success: true, data: job });
+    } catch (error: any) {
+        const message: string = error?.message || '';
+        if (message.includes('permission')) {
+            return res.status(403).json({ success: false, error: message });
+        }
+        if (message.includes('not found') || message.includes('not supported') ||
+            message.includes('required') || message.includes('No items') || message.includes('limited')) {
+            return res.status(400).json({ success: false, error: message });
+        }
+        console.error('Error creating export job:', error);
+        res.status(500).json({ success: false, error: 'Failed to create export job' });
+    }
+});
+
+/**
+ * GET /exports/jobs
+ */
+router.get('/jobs', AuthUtils.authenticateToken, async (req: Request, res: Response) => {
+    try {
+        const { page = 1, limit = 20 } = req.query;
+        const pageSize = Math.min(parseInt(limit as string) || 20, 100);
+        const offset = ((parseInt(page as string) || 1) - 1) * pageSize;
+
+        const jobs = await PlatformExportService.listJobs((req as any).user?.id, pageSize, offset);
+        res.json({ success: true, data: jobs });
+    } catch (error) {
+        console.error('Error fetching export jobs:', error);
+        res.status(500).json({ success: false, error: 'Failed to fetch export jobs' });
+    }
+});
+
+/**
+ * GET /exports/jobs/:id
+ * Job status with per-item results
+ */
+router.get('/jobs/:id', AuthUtils.authenticateToken, async (req: Request, res: Response) => {
+    try {
+        const job = await PlatformExportService.getJob(req.params.id);
+        if (!job || (job.requestedBy !== (req as any).user?.id && !isAdmin(req))) {
+            return res.status(404).json({ success: false, error: 'Export job not found' });
+        }
+
+        const items = await PlatformExportService.getJobItems(job.id);
+        res.json({ success: true, data: { ...job, items } });
+    } catch (error) {
+        console.error('Error fetching export job:', error);
+        res.status(500).json({ success: false, error: 'Failed to fetch export job' });
+    }
+});
+
+/**
+ * GET /exports/jobs/:id/download
+ * The generated feed file (Google Shopping XML or Shopify CSV)
+ */
+router.get('/jobs/:id/download', AuthUtils.authenticateToken, async (req: Request, res: Response) => {
+    try {
+        const job = await PlatformExportService.getJob(req.params.id);
+        if (!job || (job.requestedBy !== (req as any).user?.id && !isAdmin(req))) {
+            return res.status(404).json({ success: false, error: 'Export job not found' });
+        }
+        if (job.status !== 'completed') {
+            return res.status(409).json({ success: false, error: `Export job is ${job.status}` });
+        }
+
+        const content = await PlatformExportService.readJobFile(job);
+        const filename = PlatformExportService.getExportFilename(job);
+        res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+        res.type(filename.endsWith('.xml') ? 'application/xml' : 'text/csv').send(content);
+    } catch (error) {
+        console.error('Error downloading export file:', error);
+        res.status(500).json({ success: false, error: 'Failed to download export file' });
+    }
+});
+
+/**
+ * POST /exports/jobs/process
+ * Run jobs left in the queue (admin only)
+ */
+router.post('/jobs/process', AuthUtils.authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+    try {
+        const processed = await PlatformExportService.processQueuedJobs();
+        res.json({ success: true, data: { processed } });
+    } catch (error) {
+        console.error('Error processing export jobs:', error);
+        res.status(500).json({ success: false, error: 'Failed to process export jobs' });
+    }
+});
+
+export default router;
@@ -61,6 +61,10 @@ import contentRoutes from './content';
 import outfitRoutes from './outfitRoutes';
 import homiesRoutes from './homies';
 import marketplaceRoutes from './marketplace';
+import paymentRoutes from './payments';
+import consignmentRoutes from './consignment';
+import exportRoutes from './exports';
+import savedSearchRoutes from './savedSearches';
 
 const router = Router();
 
@@ -72,7 +76,11 @@ router.use('/social', socialRoutes);
 router.use('/content', contentRoutes); // Content publishing system (Daily, Motion, Feed)
 router.use('/outfits', outfitRoutes);
 router.use('/homies', homiesRoutes);
+router.use('/marketplace/saved-searches', savedSearchRoutes); // Mounted before /marketplace so /:id does not shadow it
 router.use('/marketplace', marketplaceRoutes);
+router.use('/payments', paymentRoutes); // Payment providers, webhooks and reconciliation
+router.use('/consignment', consignmentRoutes); // Consigned items, commission rules and repass statements
+router.use('/exports', exportRoutes); // Marketplace feed exports (Google Shopping, Shopify)
 
 router.use('/admin', adminRoutes);
 router.use('/vufs', vufsRoutes);
@@ -2,8 +2,16 @@ import { Router, Request, Response } from 'express';
 import { MarketplaceModel, CreateListingData } from '../models/Marketplace';
 import { MarketplaceFilters } from '@vangarments/shared/types/marketplace';
 import { authenticateToken } from '../middleware/auth';
+import { PaymentService } from '../services/paymentService';
+import { TransactionService } from '../services/transactionService';
+import { OfferService } from '../services/offerService';
+import { SavedSearchService } from '../services/savedSearchService';
+import { FitRecommendationService } from '../services/fitRecommendationService';
+import { InventoryStockService } from '../services/inventoryStockService';
 
 const router = Router();
+const paymentService = new PaymentService();
+const transactionService = new TransactionService();
 
 // ============================================
 // PUBLIC ROUTES (no auth required for browsing)
@@ -181,7 +189,9 @@ router.post('/', authenticateToken, async (req: Request, res: Response) => {
             images,
             category,
             tags,
-            location
+            location,
+            stockSkuItemId,
+            stockStoreId
         } = req.body;
 
         // Validate required fields
@@ -192,6 +202,15 @@ router.post('/', authenticateToken, async (req: Request, res: Response) => {
             });
         }
 
+        // Listings selling from a brand's stock decrement it as they sell
+        if (stockSkuItemId) {
+            try {
+                await InventoryStockService.assertListingStock((req as any).user, stockSkuItemId, stockStoreId);
+            } catch (error: any) {
+                return res.status(400).json({ success: false, error: error.message });
+            }
+        }
+
         const listingData: CreateListingData = {
             itemId,
             sellerId: userId,
@@ -203,10 +222,13 @@ router.post('/', authenticateToken, async (req: Request, res: Response) => {
             images: images || [],
             category: category || 'other',
             tags: tags || [],
-            location: location || { country: 'BR' }
+            location: location || { country: 'BR' },
+            stockSkuItemId: stockSkuItemId || undefined,
+            stockStoreId: stockSkuItemId ? stockStoreId || undefined : undefined
         };
 
         const listing = await MarketplaceModel.createListing(listingData);
+        SavedSearchService.queueListingMatch(listing.id);
 
         res.status(201).json({ success: true, data: listing });
     } catch (error) {
@@ -239,6 +261,7 @@ router.put('/:id', authenticateToken, async (req: Request, res: Response) => {
 
         const updateData = req.body;
         const updated = await MarketplaceModel.updateListing(id, updateData);
+        SavedSearchService.queueListingMatch(id);
 
         res.json({ success: true, data: updated });
     } catch (error) {
@@ -301,7 +324,7 @@ router.post('/:id/like', authenticateToken, async (req: Request, res: Response)
 
 /**
  * POST /marketplace/:id/purchase
- * Purchase a listing (mock payment for now)
+ * Purchase a listing: opens a transaction and charges it through the configured payment provider
  */
 router.post('/:id/purchase', authenticateToken, async (req: Request, res: Response) => {
     try {
@@ -311,53 +334,61 @@ router.post('/:id/purchase', authenticateToken, async (req: Request, res: Respon
         }
 
         const { id } = req.params;
-        const { shippingAddress, paymentMethod = 'mock' } = req.body;
+        const { shippingAddress, paymentMethod = 'pix', paymentDetails, notes } = req.body;
 
         if (!shippingAddress) {
             return res.status(400).json({ success: false, error: 'Shipping address is required' });
         }
 
-        // Get the listing
-        const listing = await MarketplaceModel.findById(id);
-        if (!listing) {
-            return res.status(404).json({ success: false, error: 'Listing not found' });
-        }
-        if (listing.status !== 'active') {
-            return res.status(400).json({ success: false, error: 'Listing is not available for purchase' });
-        }
-        if (listing.sellerId === userId) {
-            return res.status(400).json({ success: false, error: 'Cannot purchase your own listing' });
-        }
+        const method = typeof paymentMethod === 'string'
+            ? { type: paymentMethod, details: paymentDetails || {} }
+            : paymentMethod;
 
-        // Calculate fees (mock)
-        const platformFee = listing.price * 0.10; // 10% platform fee
-        const paymentFee = listing.price * 0.03; // 3% payment processing
-        const shippingFee = listing.shipping?.domestic?.cost || 0;
+        const validation = paymentService.validatePaymentMethod(method);
+        if (!validation.valid) {
+            return res.status(400).json({ success: false, error: 'Invalid payment method', details: validation.errors });
+        }
 
-        // Create transaction
-        const transaction = await MarketplaceModel.createTransaction({
+        const { transaction, paymentInstructions } = await transactionService.createTransaction({
             listingId: id,
             buyerId: userId,
-            sellerId: listing.sellerId,
-            amount: listing.price + shippingFee,
-            fees: {
-                platformFee,
-                paymentFee,
-                shippingFee
-            },
             shippingAddress,
-            paymentMethod
+            paymentMethod: method,
+            notes
         });
 
-        // Mark listing as sold
-        await MarketplaceModel.updateStatus(id, 'sold');
+        const payment = await transactionService.processPayment(transaction.id, method.details);
+        const updated = await transactionService.getTransactionById(transaction.id);
+
+        if (!payment.success) {
+            return res.status(402).json({
+                success: false,
+                error: payment.errorMessage || 'Payment failed',
+                data: updated
+            });
+        }
 
         res.status(201).json({
             success: true,
-            data: transaction,
-            message: 'Purchase successful! (Mock payment - no actual charges made)'
+            data: updated,
+            payment: {
+                paymentId: payment.paymentId,
+                provider: updated?.paymentProvider,
+                confirmed: updated?.status === 'payment_confirmed'
+            },
+            paymentInstructions
         });
-    } catch (error) {
+    } catch (error: any) {
+        const message = error?.message || '';
+        if (message === 'Listing not found') {
+            return res.status(404).json({ success: false, error: message });
+        }
+        if (message === 'Listing is not available for purchase' || message === 'Cannot purchase your own listing') {
+            return res.status(400).json({ success: false, error: message });
+        }
+        if (message.startsWith('Insufficient stock')) {
+            return res.status(409).json({ success: false, error: 'This item is out of stock' });
+        }
         console.error('Error processing purchase:', error);
         res.status(500).json({ success: false, error: 'Failed to process purchase' });
     }
@@ -365,7 +396,8 @@ router.post('/:id/purchase', authenticateToken, async (req: Request, res: Respon
 
 /**
  * POST /marketplace/:id/offer
- * Make an offer on a listing
+ * Make an offer on a listing. Shipping address and payment method are collected
+ * up front so the transaction can be opened as soon as terms are agreed.
  */
 router.post('/:id/offer', authenticateToken, async (req: Request, res: Response) => {
     try {
@@ -375,44 +407,226 @@ router.post('/:id/offer', authenticateToken, async (req: Request, res: Response)
         }
 
         const { id } = req.params;
-        const { amount, message } = req.body;
+        const { amount, message, shippingAddress, paymentMethod = 'pix' } = req.body;
 
-        if (!amount || amount <= 0) {
+        const parsedAmount = parseFloat(amount);
+        if (!parsedAmount || parsedAmount <= 0) {
             return res.status(400).json({ success: false, error: 'Valid offer amount is required' });
         }
+        if (!shippingAddress) {
+            return res.status(400).json({ success: false, error: 'Shipping address is required' });
+        }
 
-        // Get the listing
-        const listing = await MarketplaceModel.findById(id);
-        if (!listing) {
+        const validation = paymentService.validatePaymentMethod({ type: paymentMethod, details: {} });
+        if (!validation.valid) {
+            return res.status(400).json({ success: false, error: 'Invalid payment method', details: validation.errors });
+        }
+
+        const offer = await OfferService.makeOffer(id, userId, {
+            amount: parsedAmount,
+            message,
+            shippingAddress,
+            paymentMethod
+        });
+        res.status(201).json({ success: true, data: offer });
+    } catch (error: any) {
+        sendOfferError(res, error, 'Failed to make offer');
+    }
+});
+
+/**
+ * GET /marketplace/:id/offers
+ * Offers on a listing: all of them for the seller, the caller's own for a buyer
+ */
+router.get('/:id/offers', authenticateToken, async (req: Request, res: Response) => {
+    try {
+        const offers = await OfferService.getListingOffers(req.params.id, (req as any).user?.id);
+        res.json({ success: true, data: offers });
+    } catch (error) {
+        console.error('Error fetching listing offers:', error);
+        res.status(500).json({ success: false, error: 'Failed to fetch offers' });
+    }
+});
+
+/**
+ * GET /marketplace/:id/fit
+ * How the listed garment fits the current user
+ * Query: referenceItemId (wardrobe item to compare with instead of body measurements)
+ */
+router.get('/:id/fit', authenticateToken, async (req: Request, res: Response) => {
+    try {
+        const { referenceItemId } = req.query;
+        const fit = await FitRecommendationService.recommendForListing(
+            req.params.id,
+            (req as any).user?.id,
+            typeof referenceItemId === 'string' && referenceItemId ? referenceItemId : undefined
+        );
+
+        if (!fit) {
             return res.status(404).json({ success: false, error: 'Listing not found' });
         }
-        if (listing.status !== 'active') {
-            return res.status(400).json({ success: false, error: 'Listing is not available for offers' });
+
+        res.json({ success: true, data: fit });
+    } catch (error: any) {
+        const message = error?.message || '';
+        if (message.startsWith('Invalid')) {
+            return res.status(400).json({ success: false, error: message });
+        }
+        console.error('Error computing listing fit:', error);
+        res.status(500).json({ success: false, error: 'Failed to compute fit' });
+    }
+});
+
+/**
+ * GET /marketplace/offers/mine
+ * Query: role=buyer|seller (default buyer), status
+ */
+router.get('/offers/mine', authenticateToken, async (req: Request, res: Response) => {
+    try {
+        const { role = 'buyer', status, limit = '50', offset = '0' } = req.query;
+        const offers = await OfferService.getUserOffers(
+            (req as any).user?.id,
+            role === 'seller' ? 'seller' : 'buyer',
+            status as any,
+            Math.min(parseInt(limit as string) || 50, 100),
+            parseInt(offset as string) || 0
+        );
+        res.json({ success: true, data: offers });
+    } catch (error) {
+        console.error('Error fetching user offers:', error);
+        res.status(500).json({ success: false, error: 'Failed to fetch offers' });
+    }
+});
+
+/**
+ * GET /marketplace/offers/:offerId
+ * Offer with its negotiation thread
+ */
+router.get('/offers/:offerId', authenticateToken, async (req: Request, res: Response) => {
+    try {
+        const userId = (req as any).user?.id;
+        const offer = await OfferService.getOffer(req.params.offerId);
+        if (!offer || (offer.buyerId !== userId && offer.sellerId !== userId)) {
+            return res.status(404).json({ success: false, error: 'Offer not found' });
+        }
+
+        const thread = await OfferService.getThread(offer.id);
+        res.json({ success: true, data: { ...offer, thread } });
+    } catch (error) {
+        console.error('Error fetching offer:', error);
+        res.status(500).json({ success: false, error: 'Failed to fetch offer' });
+    }
+});
+
+/**
+ * POST /marketplace/offers/:offerId/counter
+ * Body: { amount, message? }
+ */
+router.post('/offers/:offerId/counter', authenticateToken, async (req: Request, res: Response) => {
+    try {
+        const { amount, message } = req.body;
+        const parsedAmount = parseFloat(amount);
+        if (!parsedAmount || parsedAmount <= 0) {
+            return res.status(400).json({ success: false, error: 'Valid counter-offer amount is required' });
+        }
+
+        const offer = await OfferService.counter(req.params.offerId, (req as any).user?.id, parsedAmount, message);
+        res.json({ success: true, data: offer });
+    } catch (error: any) {
+        sendOfferError(res, error, 'Failed to counter offer');
+    }
+});
+
+/**
+ * POST /marketplace/offers/:offerId/accept
+ * Accept the amount on the table; reserves the listing and opens the transaction
+ */
+router.post('/offers/:offerId/accept', authenticateToken, async (req: Request, res: Response) => {
+    try {
+        const result = await OfferService.accept(req.params.offerId, (req as any).user?.id);
+        res.json({ success: true, data: result });
+    } catch (error: any) {
+        sendOfferError(res, error, 'Failed to accept offer');
+    }
+});
+
+/**
+ * POST /marketplace/offers/:offerId/decline
+ * Body: { message? }
+ */
+router.post('/offers/:offerId/decline', authenticateToken, async (req: Request, res: Response) => {
+    try {
+        const offer = await OfferService.decline(req.params.offerId, (req as any).user?.id, req.body?.message);
+        res.json({ success: true, data: offer });
+    } catch (error: any) {
+        sendOfferError(res, error, 'Failed to decline offer');
+    }
+});
+
+/**
+ * POST /marketplace/offers/:offerId/pay
+ * Body: { paymentDetails? }
+ * Buyer pays the transaction opened by an accepted offer
+ */
+router.post('/offers/:offerId/pay', authenticateToken, async (req: Request, res: Response) => {
+    try {
+        const userId = (req as any).user?.id;
+        const offer = await OfferService.getOffer(req.params.offerId);
+        if (!offer || offer.buyerId !== userId) {
+            return res.status(404).json({ success: false, error: 'Offer not found' });
+        }
+        if (offer.status !== 'accepted' || !offer.transactionId) {
+            return res.status(400).json({ success: false, error: 'Offer has not been accepted' });
         }
-        if (listing.sellerId === userId) {
-            return res.status(400).json({ success: false, error: 'Cannot make an offer on your own listing' });
+
+        const payment = await transactionService.processPayment(offer.transactionId, req.body?.paymentDetails || {});
+        const updated = await transactionService.getTransactionById(offer.transactionId);
+
+        if (!payment.success) {
+            return res.status(402).json({
+                success: false,
+                error: payment.errorMessage || 'Payment failed',
+                data: updated
+            });
         }
 
-        // For now, just return success (full offer system would need its own table)
-        // The MarketplaceOffer type exists but we'd need to implement the offers table queries
-        res.status(201).json({
+        res.json({
             success: true,
-            data: {
-                id: `offer_${Date.now()}`,
-                listingId: id,
-                buyerId: userId,
-                amount: parseFloat(amount),
-                message: message || '',
-                status: 'pending',
-                expiresAt: new Date(Date.now() + 48 * 60 * 60 * 1000), // 48 hours
-                createdAt: new Date()
-            },
-            message: 'Offer sent to seller (mock - notification system coming soon)'
+            data: updated,
+            payment: {
+                paymentId: payment.paymentId,
+                provider: updated?.paymentProvider,
+                confirmed: updated?.status === 'payment_confirmed'
+            }
         });
-    } catch (error) {
-        console.error('Error making offer:', error);
-        res.status(500).json({ success: false, error: 'Failed to make offer' });
+    } catch (error: any) {
+        const message = error?.message || '';
+        if (message === 'Transaction is not in a payable state') {
+            return res.status(400).json({ success: false, error: message });
+        }
+        console.error('Error paying accepted offer:', error);
+        res.status(500).json({ success: false, error: 'Failed to process payment' });
     }
 });
 
+function sendOfferError(res: Response, error: any, fallback: string) {
+    const message: string = error?.message || '';
+    if (message === 'Listing not found' || message === 'Offer not found') {
+        return res.status(404).json({ success: false, error: message });
+    }
+    if (message === 'Not authorized to respond to this offer') {
+        return res.status(403).json({ success: false, error: message });
+    }
+    if (message.startsWith('Offer is') || message === 'Offer has expired' || message.startsWith('Waiting for') ||
+        message.includes('already have an open offer')) {
+        return res.status(409).json({ success: false, error: message });
+    }
+    if (message.includes('must') || message.includes('not available') || message.includes('Cannot') ||
+        message.includes('required')) {
+        return res.status(400).json({ success: false, error: message });
+    }
+    console.error(`${fallback}:`, error);
+    res.status(500).json({ success: false, error: fallback });
+}
+
 export default router;
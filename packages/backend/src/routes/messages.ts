@@ -4,6 +4,7 @@ import { AuthUtils } from '../utils/auth';
 import { validateRequest } from '../middleware/validation';
 import { body, param, query } from 'express-validator';
 import { StorageController } from '../controllers/storageController';
+import { RealtimeGateway } from '../services/realtimeGateway';
 
 const router = Router();
 const messagingController = new MessagingController();
@@ -201,6 +202,30 @@ router.post(
     messagingController.markAsRead.bind(messagingController)
 );
 
+// Typing indicator
+router.post(
+    '/conversations/:conversationId/typing',
+    AuthUtils.authenticateToken,
+    conversationIdValidation,
+    body('isTyping').optional().isBoolean().withMessage('isTyping must be a boolean'),
+    validateRequest,
+    messagingController.setTyping.bind(messagingController)
+);
+
+// Live event stream (SSE fallback for the WebSocket gateway at /api/v1/messages/realtime)
+router.get(
+    '/stream',
+    RealtimeGateway.authenticateStream,
+    RealtimeGateway.handleEventStream.bind(RealtimeGateway)
+);
+
+// Online status of conversation contacts
+router.get(
+    '/presence',
+    AuthUtils.authenticateToken,
+    messagingController.getPresence.bind(messagingController)
+);
+
 // Get unread count
 router.get(
     '/unread-count',
@@ -5,7 +5,13 @@ import {
     getUnreadCount,
     markAsRead,
     markAllAsRead,
-    deleteNotification
+    deleteNotification,
+    getPreferences,
+    updatePreferences,
+    getDevices,
+    registerDevice,
+    unregisterDevice,
+    unregisterSessionDevices
 } from '../controllers/notificationController';
 
 const router = express.Router();
@@ -19,6 +25,16 @@ router.get('/', getNotifications);
 // Get unread count
 router.get('/unread-count', getUnreadCount);
 
+// Per-channel preferences, quiet hours and digest settings
+router.get('/preferences', getPreferences);
+router.put('/preferences', updatePreferences);
+
+// Push device registry
+router.get('/devices', getDevices);
+router.post('/devices', registerDevice);
+router.delete('/devices', unregisterDevice);
+router.delete('/devices/sessions/:sessionId', unregisterSessionDevices);
+
 // Mark notification as read
 router.post('/:id/read', markAsRead);
 
@@ -1,5 +1,6 @@
 import { Router } from 'express';
 import { OutfitController } from '../controllers/outfitController';
+import { OutfitCalendarController } from '../controllers/outfitCalendarController';
 import { authenticateToken } from '../middleware/auth';
 
 const router = Router();
@@ -14,7 +15,16 @@ router.get('/public/:username/:slug', OutfitController.getPublicByUsernameAndSlu
 router.use(authenticateToken);
 
 router.get('/trash', OutfitController.getDeleted);
+
+// Outfit calendar (before /:id so the path is not taken as an outfit id)
+router.get('/calendar', OutfitCalendarController.getCalendar);
+router.post('/calendar', OutfitCalendarController.schedule);
+router.put('/calendar/:entryId', OutfitCalendarController.reschedule);
+router.delete('/calendar/:entryId', OutfitCalendarController.remove);
+router.post('/calendar/:entryId/worn', OutfitCalendarController.markWorn);
+
 router.post('/', OutfitController.create);
+router.post('/generate', OutfitController.generate);
 router.get('/', OutfitController.getAll);
 router.get('/slug/:slug', OutfitController.getBySlug);
 router.get('/:id', OutfitController.getOne);
@@ -0,0 +1,367 @@
+import { Router, Request, Response } from 'express';
+import { AuthUtils } from '../utils/auth';
+import { requireAdmin } from '../middleware/adminAuth';
+import { PaymentService } from '../services/paymentService';
+import { PaymentWebhookService } from '../services/paymentWebhookService';
+import { PaymentReconciliationService } from '../services/paymentReconciliationService';
+import { SandboxPaymentProvider } from '../services/sandboxPaymentProvider';
+import { EscrowLedgerService } from '../services/escrowLedgerService';
+import { TransactionService } from '../services/transactionService';
+
+const router = Router();
+const paymentService = new PaymentService();
+const transactionService = new TransactionService();
+
+/**
+ * GET /payments/providers
+ * Registered providers and the payment methods offered to buyers
+ */
+router.get('/providers', AuthUtils.authenticateToken, (req: Request, res: Response) => {
+    res.json({
+        success: true,
+        data: {
+            providers: PaymentService.listProviders(),
+            methods: paymentService.getAvailablePaymentMethods()
+        }
+    });
+});
+
+/**
+ * POST /payments/webhooks/:provider
+ * Provider webhook ingestion (authenticated by signature, not by token)
+ */
+router.post('/webhooks/:provider', async (req: Request, res: Response) => {
+    const { provider } = req.params;
+    const rawBody: string = (req as any).rawBody ? (req as any).rawBody.toString('utf8') : JSON.stringify(req.body);
+
+    try {
+        const result = await PaymentWebhookService.ingest(provider, rawBody, req.headers);
+        res.json({ success: true, data: result });
+    } catch (error: any) {
+        const message = error?.message || 'Webhook processing failed';
+        console.error(`Error processing ${provider} webhook:`, message);
+
+        if (message.includes('not found') || message.includes('does not support webhooks')) {
+            return res.status(404).json({ success: false, error: message });
+        }
+        if (message.includes('signature') || message.includes('Malformed') || error instanceof SyntaxError) {
+            return res.status(400).json({ success: false, error: message });
+        }
+        res.status(500).json({ success: false, error: 'Webhook processing failed' });
+    }
+});
+
+/**
+ * POST /payments/sandbox/:paymentId/settle
+ * Settle a pending sandbox payment and deliver its webhook (non-production only)
+ */
+router.post('/sandbox/:paymentId/settle', AuthUtils.authenticateToken, async (req: Request, res: Response) => {
+    if (process.env.NODE_ENV === 'production') {
+        return res.status(404).json({ success: false, error: 'Sandbox is not available' });
+    }
+
+    try {
+        const { paymentId } = req.params;
+        const { status = 'completed', failureReason } = req.body;
+
+        if (!['completed', 'failed', 'cancelled'].includes(status)) {
+            return res.status(400).json({ success: false, error: 'Status must be completed, failed or cancelled' });
+        }
+
+        const sandbox = PaymentService.getProvider('sandbox') as SandboxPaymentProvider;
+        const webhook = sandbox.settlePayment(paymentId, status, failureReason);
+        const result = await PaymentWebhookService.ingest('sandbox', webhook.rawBody, webhook.headers);
+
+        res.json({ success: true, data: result });
+    } catch (error: any) {
+        console.error('Error settling sandbox payment:', error);
+        res.status(400).json({ success: false, error: error?.message || 'Failed to settle payment' });
+    }
+});
+
+// ============================================
+// SELLER BALANCE & PAYOUTS
+// ============================================
+
+/**
+ * GET /payments/balance
+ * Seller's available, pending (in escrow) and paid-out amounts
+ */
+router.get('/balance', AuthUtils.authenticateToken, async (req: Request, res: Response) => {
+    try {
+        const userId = (req as any).user?.id;
+        if (!userId) {
+            return res.status(401).json({ success: false, error: 'Not authenticated' });
+        }
+
+        const balance = await EscrowLedgerService.getSellerBalance(userId);
+        res.json({ success: true, data: balance });
+    } catch (error) {
+        console.error('Error fetching seller balance:', error);
+        res.status(500).json({ success: false, error: 'Failed to fetch balance' });
+    }
+});
+
+/**
+ * GET /payments/statement
+ * Movements on the seller's balance (releases and payouts)
+ */
+router.get('/statement', AuthUtils.authenticateToken, async (req: Request, res: Response) => {
+    try {
+        const userId = (req as any).user?.id;
+        if (!userId) {
+            return res.status(401).json({ success: false, error: 'Not authenticated' });
+        }
+
+        const { limit = '50', offset = '0' } = req.query;
+        const statement = await EscrowLedgerService.getSellerStatement(
+            userId,
+            parseInt(limit as string),
+            parseInt(offset as string)
+        );
+        res.json({ success: true, data: statement });
+    } catch (error) {
+        console.error('Error fetching seller statement:', error);
+        res.status(500).json({ success: false, error: 'Failed to fetch statement' });
+    }
+});
+
+/**
+ * GET /payments/payouts
+ * Seller's payout history
+ */
+router.get('/payouts', AuthUtils.authenticateToken, async (req: Request, res: Response) => {
+    try {
+        const userId = (req as any).user?.id;
+        if (!userId) {
+            return res.status(401).json({ success: false, error: 'Not authenticated' });
+        }
+
+        const { limit = '50', offset = '0' } = req.query;
+        const payouts = await EscrowLedgerService.getPayoutHistory(
+            userId,
+            parseInt(limit as string),
+            parseInt(offset as string)
+        );
+        res.json({ success: true, data: payouts });
+    } catch (error) {
+        console.error('Error fetching payouts:', error);
+        res.status(500).json({ success: false, error: 'Failed to fetch payouts' });
+    }
+});
+
+/**
+ * POST /payments/payouts
+ * Request a payout of the whole available balance
+ */
+router.post('/payouts', AuthUtils.authenticateToken, async (req: Request, res: Response) => {
+    try {
+        const userId = (req as any).user?.id;
+        if (!userId) {
+            return res.status(401).json({ success: false, error: 'Not authenticated' });
+        }
+
+        const { method, destination } = req.body;
+        const payout = await EscrowLedgerService.requestPayout(userId, { method, destination });
+        res.status(201).json({ success: true, data: payout });
+    } catch (error: any) {
+        if (error?.message?.includes('minimum payout')) {
+            return res.status(400).json({ success: false, error: error.message });
+        }
+        console.error('Error requesting payout:', error);
+        res.status(500).json({ success: false, error: 'Failed to request payout' });
+    }
+});
+
+// ============================================
+// ESCROW & DISPUTES
+// ============================================
+
+/**
+ * GET /payments/transactions/:id/escrow
+ * Escrow state for a transaction (buyer or seller only)
+ */
+router.get('/transactions/:id/escrow', AuthUtils.authenticateToken, async (req: Request, res: Response) => {
+    try {
+        const userId = (req as any).user?.id;
+        const escrow = await EscrowLedgerService.getEscrow(req.params.id);
+
+        if (!escrow) {
+            return res.status(404).json({ success: false, error: 'Escrow not found' });
+        }
+        if (escrow.buyerId !== userId && escrow.sellerId !== userId) {
+            return res.status(403).json({ success: false, error: 'Not authorized to view this escrow' });
+        }
+
+        res.json({ success: true, data: escrow });
+    } catch (error) {
+        console.error('Error fetching escrow:', error);
+        res.status(500).json({ success: false, error: 'Failed to fetch escrow' });
+    }
+});
+
+/**
+ * POST /payments/transactions/:id/dispute
+ * Buyer opens a dispute, freezing the escrowed funds
+ */
+router.post('/transactions/:id/dispute', AuthUtils.authenticateToken, async (req: Request, res: Response) => {
+    try {
+        const userId = (req as any).user?.id;
+        const { reason } = req.body;
+
+        if (!reason) {
+            return res.status(400).json({ success: false, error: 'Dispute reason is required' });
+        }
+
+        await transactionService.openDispute(req.params.id, userId, reason);
+        res.json({ success: true, message: 'Dispute opened' });
+    } catch (error: any) {
+        const message = error?.message || '';
+        if (message === 'Transaction not found') {
+            return res.status(404).json({ success: false, error: message });
+        }
+        if (message === 'Only the buyer can open a dispute') {
+            return res.status(403).json({ success: false, error: message });
+        }
+        if (message.includes('cannot be disputed') || message.includes('No held escrow')) {
+            return res.status(400).json({ success: false, error: message });
+        }
+        console.error('Error opening dispute:', error);
+        res.status(500).json({ success: false, error: 'Failed to open dispute' });
+    }
+});
+
+// ============================================
+// ADMIN ROUTES
+// ============================================
+
+/**
+ * POST /payments/transactions/:id/dispute/resolve
+ * Resolve a dispute by releasing funds to the seller or refunding the buyer
+ */
+router.post('/transactions/:id/dispute/resolve', AuthUtils.authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+    try {
+        const { resolution, note } = req.body;
+        if (!['release', 'refund'].includes(resolution)) {
+            return res.status(400).json({ success: false, error: 'Resolution must be release or refund' });
+        }
+
+        await transactionService.resolveDispute(req.params.id, resolution, note);
+        res.json({ success: true, message: 'Dispute resolved' });
+    } catch (error: any) {
+        const message = error?.message || '';
+        if (message === 'Transaction not found') {
+            return res.status(404).json({ success: false, error: message });
+        }
+        if (message === 'Transaction is not disputed') {
+            return res.status(400).json({ success: false, error: message });
+        }
+        console.error('Error resolving dispute:', error);
+        res.status(500).json({ success: false, error: 'Failed to resolve dispute' });
+    }
+});
+
+/**
+ * POST /payments/escrow/release-matured
+ * Release escrows whose dispute window has closed
+ */
+router.post('/escrow/release-matured', AuthUtils.authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+    try {
+        const released = await transactionService.releaseMaturedEscrows();
+        res.json({ success: true, data: { released } });
+    } catch (error) {
+        console.error('Error releasing matured escrows:', error);
+        res.status(500).json({ success: false, error: 'Failed to release escrows' });
+    }
+});
+
+/**
+ * POST /payments/payouts/:id/complete
+ * Record the outcome of a payout transfer
+ */
+router.post('/payouts/:id/complete', AuthUtils.authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+    try {
+        const { status = 'paid', reference } = req.body;
+        if (!['paid', 'failed'].includes(status)) {
+            return res.status(400).json({ success: false, error: 'Status must be paid or failed' });
+        }
+
+        const payout = await EscrowLedgerService.completePayout(req.params.id, status, reference);
+        res.json({ success: true, data: payout });
+    } catch (error: any) {
+        if (error?.message === 'Pending payout not found') {
+            return res.status(404).json({ success: false, error: error.message });
+        }
+        console.error('Error completing payout:', error);
+        res.status(500).json({ success: false, error: 'Failed to complete payout' });
+    }
+});
+
+/**
+ * POST /payments/reconciliation
+ * Run a reconciliation pass now
+ */
+router.post('/reconciliation', AuthUtils.authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+    try {
+        const { provider, sinceDays, autoFix } = req.body;
+        const run = await PaymentReconciliationService.reconcile({
+            provider,
+            sinceDays: sinceDays ? parseInt(sinceDays) : undefined,
+            autoFix: autoFix === true || autoFix === 'true'
+        });
+
+        res.status(201).json({ success: true, data: run });
+    } catch (error) {
+        console.error('Error running payment reconciliation:', error);
+        res.status(500).json({ success: false, error: 'Failed to run reconciliation' });
+    }
+});
+
+/**
+ * GET /payments/reconciliation/runs
+ * Recent reconciliation runs
+ */
+router.get('/reconciliation/runs', AuthUtils.authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+    try {
+        const { limit = '20' } = req.query;
+        const runs = await PaymentReconciliationService.getRuns(parseInt(limit as string));
+        res.json({ success: true, data: runs });
+    } catch (error) {
+        console.error('Error fetching reconciliation runs:', error);
+        res.status(500).json({ success: false, error: 'Failed to fetch reconciliation runs' });
+    }
+});
+
+/**
+ * GET /payments/reconciliation/runs/:id
+ * Mismatches found by a reconciliation run
+ */
+router.get('/reconciliation/runs/:id', AuthUtils.authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+    try {
+        const items = await PaymentReconciliationService.getRunItems(req.params.id);
+        res.json({ success: true, data: items });
+    } catch (error) {
+        console.error('Error fetching reconciliation items:', error);
+        res.status(500).json({ success: false, error: 'Failed to fetch reconciliation items' });
+    }
+});
+
+/**
+ * GET /payments/webhooks/events
+ * Recently received webhook events
+ */
+router.get('/webhooks/events', AuthUtils.authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+    try {
+        const { provider, limit = '50' } = req.query;
+        const events = await PaymentWebhookService.listEvents({
+            provider: provider as string | undefined,
+            limit: parseInt(limit as string)
+        });
+        res.json({ success: true, data: events });
+    } catch (error) {
+        console.error('Error fetching webhook events:', error);
+        res.status(500).json({ success: false, error: 'Failed to fetch webhook events' });
+    }
+});
+
+export default router;
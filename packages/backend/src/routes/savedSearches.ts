@@ -0,0 +1,118 @@
+import { Router, Request, Response } from 'express';
+import { authenticateToken } from '../middleware/auth';
+import { MarketplaceModel } from '../models/Marketplace';
+import { SavedSearchService } from '../services/savedSearchService';
+
+const router = Router();
+
+const sendSavedSearchError = (res: Response, error: any, fallback: string) => {
+    const message: string = error?.message || '';
+    if (message.includes('required') || message.includes('limited')) {
+        return res.status(400).json({ success: false, error: message });
+    }
+    console.error(`${fallback}:`, error);
+    res.status(500).json({ success: false, error: fallback });
+};
+
+/**
+ * GET /marketplace/saved-searches
+ */
+router.get('/', authenticateToken, async (req: Request, res: Response) => {
+    try {
+        const searches = await SavedSearchService.listForUser((req as any).user?.id);
+        res.json({ success: true, data: searches });
+    } catch (error) {
+        console.error('Error fetching saved searches:', error);
+        res.status(500).json({ success: false, error: 'Failed to fetch saved searches' });
+    }
+});
+
+/**
+ * POST /marketplace/saved-searches
+ * Body: { name, filters: MarketplaceFilters, alertsEnabled?, emailAlerts? }
+ */
+router.post('/', authenticateToken, async (req: Request, res: Response) => {
+    try {
+        const { name, filters, alertsEnabled, emailAlerts } = req.body;
+        const search = await SavedSearchService.create((req as any).user?.id, {
+            name,
+            filters,
+            alertsEnabled,
+            emailAlerts
+        });
+        res.status(201).json({ success: true, data: search });
+    } catch (error) {
+        sendSavedSearchError(res, error, 'Failed to save search');
+    }
+});
+
+/**
+ * PUT /marketplace/saved-searches/:id
+ * Body: any of { name, filters, alertsEnabled, emailAlerts }
+ */
+router.put('/:id', authenticateToken, async (req: Request, res: Response) => {
+    try {
+        const { name, filters, alertsEnabled, emailAlerts } = req.body;
+        const search = await SavedSearchService.update(req.params.id, (req as any).user?.id, {
+            name,
+            filters,
+            alertsEnabled,
+            emailAlerts
+        });
+        if (!search) {
+            return res.status(404).json({ success: false, error: 'Saved search not found' });
+        }
+        res.json({ success: true, data: search });
+    } catch (error) {
+        sendSavedSearchError(res, error, 'Failed to update saved search');
+    }
+});
+
+/**
+ * DELETE /marketplace/saved-searches/:id
+ */
+router.delete('/:id', authenticateToken, async (req: Request, res: Response) => {
+    try {
+        const deleted = await SavedSearchService.delete(req.params.id, (req as any).user?.id);
+        if (!deleted) {
+            return res.status(404).json({ success: false, error: 'Saved search not found' });
+        }
+        res.json({ success: true, message: 'Saved search deleted' });
+    } catch (error) {
+        console.error('Error deleting saved search:', error);
+        res.status(500).json({ success: false, error: 'Failed to delete saved search' });
+    }
+});
+
+/**
+ * GET /marketplace/saved-searches/:id/results
+ * Re-run a saved search
+ */
+router.get('/:id/results', authenticateToken, async (req: Request, res: Response) => {
+    try {
+        const search = await SavedSearchService.findById(req.params.id, (req as any).user?.id);
+        if (!search) {
+            return res.status(404).json({ success: false, error: 'Saved search not found' });
+        }
+
+        const { limit = '50', offset = '0' } = req.query;
+        const result = await MarketplaceModel.searchListings(
+            search.filters,
+            Math.min(parseInt(limit as string) || 50, 100),
+            parseInt(offset as string) || 0
+        );
+
+        res.json({
+            success: true,
+            data: result.listings,
+            total: result.total,
+            limit: parseInt(limit as string),
+            offset: parseInt(offset as string)
+        });
+    } catch (error) {
+        console.error('Error running saved search:', error);
+        res.status(500).json({ success: false, error: 'Failed to run saved search' });
+    }
+});
+
+export default router;
@@ -1,9 +1,25 @@
 import express from 'express';
 import { EntitySearchController } from '../controllers/entitySearchController';
-import { authenticateToken } from '../middleware/auth';
+import { authenticateToken, optionalAuth } from '../middleware/auth';
+import multer from 'multer';
 
 const router = express.Router();
 
+const imageUpload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: 10 * 1024 * 1024 },
+    fileFilter: (req, file, cb) => cb(null, file.mimetype.startsWith('image/')),
+});
+
+// Unified ranked search with facets (q, types, category, brand, color, minPrice, maxPrice, page, limit)
+router.get('/', optionalAuth, EntitySearchController.search);
+
+// Items, SKUs and listings that look like an uploaded photo (multipart field "image"; types, limit)
+router.post('/visual', optionalAuth, imageUpload.single('image'), EntitySearchController.visualSearch);
+
+// Near-identical photos within the user's own wardrobe
+router.get('/visual/duplicates', authenticateToken, EntitySearchController.wardrobeDuplicates);
+
 // Search for entities (Users, Brands, Stores)
 router.get('/entities', authenticateToken, EntitySearchController.searchEntities);
 
@@ -1,5 +1,7 @@
 import { Router } from 'express';
 import { SizeModel } from '../models/Size';
+import { BrandSizeChartModel } from '../models/BrandSizeChart';
+import { SizeConversionService, SIZE_STANDARDS, SIZE_CHART_CATEGORIES, SIZE_CHART_GENDERS } from '../services/sizeConversionService';
 import { AuthUtils } from '../utils/auth';
 
 const router = Router();
@@ -65,4 +67,100 @@ router.delete('/:id', AuthUtils.authenticateToken, AuthUtils.requireRole(['admin
     }
 });
 
+// --- Conversion ---
+
+router.get('/standards', (req, res) => {
+    res.json({ standards: SIZE_STANDARDS, categories: SIZE_CHART_CATEGORIES, genders: SIZE_CHART_GENDERS });
+});
+
+/**
+ * GET /sizes/convert?values=S,M,L&from=US&to=BR&category=apparel&gender=men&brandId=
+ * `skuId` can replace brandId, category and gender. `from` is detected when omitted.
+ */
+router.get('/convert', async (req, res) => {
+    try {
+        const { value, values, from, to, category, gender, brandId, apparelId, skuId } = req.query as Record<string, string | undefined>;
+        const sizes = (values ? values.split(',') : [value || '']).map(size => size.trim()).slice(0, 50);
+
+        const results = await Promise.all(sizes.map(size => SizeConversionService.convert({
+            value: size,
+            from: from as any,
+            to: to as any,
+            category: category as any,
+            gender: gender as any,
+            brandId,
+            apparelId,
+            skuId,
+        })));
+        res.json({ results: sizes.map((size, index) => results[index] || { value: size, conversions: {}, converted: null }) });
+    } catch (error: any) {
+        if (error.message?.startsWith('Invalid')) {
+            return res.status(400).json({ error: error.message });
+        }
+        console.error('[Sizes Route] Convert error:', error.message);
+        res.status(500).json({ error: 'Failed to convert size' });
+    }
+});
+
+// --- Brand size charts ---
+
+router.get('/charts', async (req, res) => {
+    try {
+        const { brandId, category, gender } = req.query as Record<string, string | undefined>;
+        const charts = await BrandSizeChartModel.findAll({ brandId, category: category as any, gender: gender as any });
+        res.json({ charts });
+    } catch (error) {
+        res.status(500).json({ error: 'Failed to fetch size charts' });
+    }
+});
+
+router.get('/charts/:chartId', async (req, res) => {
+    try {
+        const chart = await BrandSizeChartModel.findById(req.params.chartId);
+        if (!chart) return res.status(404).json({ error: 'Size chart not found' });
+        res.json({ chart });
+    } catch (error) {
+        res.status(500).json({ error: 'Failed to fetch size chart' });
+    }
+});
+
+router.post('/charts', AuthUtils.authenticateToken, AuthUtils.requireRole(['admin']), async (req, res) => {
+    try {
+        SizeConversionService.validateChart(req.body);
+        const chart = await BrandSizeChartModel.create(req.body);
+        res.status(201).json({ chart });
+    } catch (error: any) {
+        if (error.message?.startsWith('Invalid')) {
+            return res.status(400).json({ error: error.message });
+        }
+        console.error('[Sizes Route] Create chart error:', error.message);
+        res.status(500).json({ error: 'Failed to create size chart' });
+    }
+});
+
+router.put('/charts/:chartId', AuthUtils.authenticateToken, AuthUtils.requireRole(['admin']), async (req, res) => {
+    try {
+        SizeConversionService.validateChart(req.body, true);
+        const chart = await BrandSizeChartModel.update(req.params.chartId, req.body);
+        if (!chart) return res.status(404).json({ error: 'Size chart not found' });
+        res.json({ chart });
+    } catch (error: any) {
+        if (error.message?.startsWith('Invalid')) {
+            return res.status(400).json({ error: error.message });
+        }
+        console.error('[Sizes Route] Update chart error:', error.message);
+        res.status(500).json({ error: 'Failed to update size chart' });
+    }
+});
+
+router.delete('/charts/:chartId', AuthUtils.authenticateToken, AuthUtils.requireRole(['admin']), async (req, res) => {
+    try {
+        const success = await BrandSizeChartModel.delete(req.params.chartId);
+        if (!success) return res.status(404).json({ error: 'Size chart not found' });
+        res.json({ success: true });
+    } catch (error) {
+        res.status(500).json({ error: 'Failed to delete size chart' });
+    }
+});
+
 export default router;
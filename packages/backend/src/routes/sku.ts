@@ -1,7 +1,17 @@
 import { Router } from 'express';
+import multer from 'multer';
 import { SKUController } from '../controllers/skuController';
+import { InventoryController } from '../controllers/inventoryController';
 import { authenticateToken } from '../middleware/auth';
 
+// Catalog files for bulk import
+const upload = multer({
+    storage: multer.memoryStorage(),
+    limits: {
+        fileSize: 10 * 1024 * 1024 // 10MB limit
+    }
+});
+
 const router = Router();
 
 // Public search for SEO/metadata generation
@@ -11,6 +21,15 @@ router.get('/release-date-options', SKUController.getReleaseDateOptions);
 // Brand specific SKU management
 router.post('/brands/:brandId/skus', authenticateToken, SKUController.createSKU);
 router.get('/brands/:brandId/skus', authenticateToken, SKUController.getBrandSKUs);
+router.post('/brands/:brandId/skus/import', authenticateToken, upload.single('file'), SKUController.importSKUs);
+router.get('/brands/:brandId/skus/export', authenticateToken, SKUController.exportSKUs);
+
+// Stock per SKU variant and location
+router.get('/brands/:brandId/inventory', authenticateToken, InventoryController.getStockLevels);
+router.put('/brands/:brandId/inventory', authenticateToken, InventoryController.setStockLevel);
+router.get('/brands/:brandId/inventory/summary', authenticateToken, InventoryController.getInventorySummary);
+router.post('/brands/:brandId/inventory/sales', authenticateToken, InventoryController.recordStoreSale);
+router.delete('/reservations/:reservationId', authenticateToken, InventoryController.releaseReservation);
 
 // Trash management (Admin only) - MUST BE BEFORE /:id
 router.get('/trash', authenticateToken, SKUController.getDeletedSKUs);
@@ -18,6 +37,13 @@ router.get('/trash', authenticateToken, SKUController.getDeletedSKUs);
 // SKU CRUD
 router.get('/', authenticateToken, SKUController.getAllSKUs);
 router.get('/:id/related', SKUController.getRelatedSKUs); // Public
+router.get('/:id/fit', authenticateToken, SKUController.getFitRecommendation);
+router.get('/:id/changelog', SKUController.getSKUChangelog); // Public
+router.get('/:id/stock', InventoryController.getAvailability); // Public
+router.post('/:id/reservations', authenticateToken, InventoryController.reserveStock);
+router.get('/:id/versions', authenticateToken, SKUController.getSKUVersions);
+router.get('/:id/versions/:version', authenticateToken, SKUController.getSKUVersion);
+router.post('/:id/versions/:version/rollback', authenticateToken, SKUController.rollbackSKU);
 router.get('/:id', SKUController.getSKU);
 router.patch('/:id', authenticateToken, SKUController.updateSKU);
 router.delete('/:id', authenticateToken, SKUController.deleteSKU);
@@ -9,6 +9,9 @@ const router = Router();
 router.get('/images/:category/:userId/:filename', StorageController.serveImage);
 router.get('/images/:category/:filename', StorageController.serveImage);
 
+// Signed URLs for resized/re-encoded derivatives, served by /storage/transform/*
+router.post('/transform/sign', authenticateToken, StorageController.signTransformUrls);
+
 // Upload generic image
 router.post('/upload', authenticateToken, StorageController.uploadMiddleware, StorageController.uploadImage);
 
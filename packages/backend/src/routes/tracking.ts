@@ -8,6 +8,9 @@ const router = Router();
 router.post('/loans', AuthUtils.authenticateToken, ItemTrackingController.createLoan);
 router.put('/loans/:loanId/return', AuthUtils.authenticateToken, ItemTrackingController.returnItem);
 router.get('/loans', AuthUtils.authenticateToken, ItemTrackingController.getUserLoans);
+router.get('/loans/:loanId', AuthUtils.authenticateToken, ItemTrackingController.getLoan);
+router.post('/loans/:loanId/respond', AuthUtils.authenticateToken, ItemTrackingController.respondToLoan);
+router.get('/items/:itemId/condition-history', AuthUtils.authenticateToken, ItemTrackingController.getItemConditionHistory);
 
 // Wishlist management routes
 router.post('/wishlist', AuthUtils.authenticateToken, ItemTrackingController.addToWishlist);
@@ -19,6 +22,7 @@ router.delete('/wishlist/:id', AuthUtils.authenticateToken, ItemTrackingControll
 router.post('/items/:itemId/wear', AuthUtils.authenticateToken, ItemTrackingController.recordWear);
 router.get('/items/:itemId/usage', ItemTrackingController.getItemUsage);
 router.get('/usage/stats', AuthUtils.authenticateToken, ItemTrackingController.getUserUsageStats);
+router.get('/usage/analytics', AuthUtils.authenticateToken, ItemTrackingController.getWearAnalytics);
 
 // Care instructions utility
 router.post('/care-instructions', ItemTrackingController.generateCareInstructions);
@@ -46,9 +46,25 @@ router.post('/feedback', WardrobeController.provideFeedback);
 // Reprocess item with AI
 router.post('/items/:id/reprocess', WardrobeController.reprocessWithAI);
 
+// Catalog SKU matching
+router.get('/items/:id/sku-matches', WardrobeController.getSkuMatches);
+router.post('/items/:id/sku-match', WardrobeController.confirmSkuMatch);
+// Read a care label photo into composition and care instructions
+router.post(
+  '/items/:id/care-label',
+  WardrobeController.uploadMiddleware,
+  WardrobeController.scanCareLabel
+);
+
 // Batch remove background
 router.post('/items/:id/images/batch-remove-background', WardrobeController.batchRemoveBackground);
 
+// Image processing queue
+router.post('/items/:id/images/jobs', WardrobeController.createImageJobs);
+router.get('/image-jobs/batches/:batchId', WardrobeController.getImageJobBatch);
+router.post('/image-jobs/batches/:batchId/cancel', WardrobeController.cancelImageJobBatch);
+router.post('/image-jobs/:jobId/retry', WardrobeController.retryImageJob);
+
 // Remove background from item image
 router.post('/items/:id/images/:imageId/remove-background', WardrobeController.removeImageBackground);
 
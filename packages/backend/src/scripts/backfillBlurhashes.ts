@@ -0,0 +1,36 @@
+import { db } from '../database/connection';
+import { ItemImageModel } from '../models/ItemImage';
+import { ImageEmbeddingService } from '../services/imageEmbeddingService';
+import { ImageTransformService } from '../services/imageTransformService';
+import { blurhashFromImage } from '../utils/blurhash';
+
+/**
+ * Compute blurhash placeholders for wardrobe images uploaded before they existed.
+ * Only images without one are touched, so it is safe to re-run.
+ * Usage: npm run images:blurhash
+ */
+async function backfill() {
+    const result = await db.query('SELECT id, image_url FROM item_images WHERE blurhash IS NULL ORDER BY created_at');
+    console.log(`Computing blurhash for ${result.rows.length} images...`);
+
+    let done = 0;
+    for (const row of result.rows) {
+        try {
+            const storagePath = ImageTransformService.toStoragePath(row.image_url);
+            const image = await ImageEmbeddingService.loadImage(storagePath ? `/storage/${storagePath}` : row.image_url);
+            await ItemImageModel.setBlurhash(row.id, await blurhashFromImage(image));
+            done++;
+        } catch (error: any) {
+            console.warn(`Skipping image ${row.id}: ${error.message}`);
+        }
+    }
+
+    console.log(`Stored ${done} blurhashes`);
+}
+
+backfill()
+    .then(() => process.exit(0))
+    .catch(e => {
+        console.error(e);
+        process.exit(1);
+    });
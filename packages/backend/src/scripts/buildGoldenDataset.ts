@@ -0,0 +1,28 @@
+import { AIEvaluationService } from '../services/aiEvaluationService';
+
+/**
+ * Freeze current AI feedback into a new golden dataset version, recording the
+ * Google Vision response for every image. Needs Vision credentials; the
+ * resulting file is what evaluations replay offline.
+ * Usage: npm run ai:golden -- <version> [sourceModelVersion] [limit]
+ */
+async function build() {
+    const [version, modelVersion, limit] = process.argv.slice(2);
+    if (!version) {
+        throw new Error('Usage: npm run ai:golden -- <version> [sourceModelVersion] [limit]');
+    }
+
+    const dataset = await AIEvaluationService.buildGoldenDataset(version, {
+        modelVersion: modelVersion || undefined,
+        limit: limit ? parseInt(limit) : undefined,
+    });
+    const file = await AIEvaluationService.saveDataset(dataset);
+    console.log(`Recorded ${dataset.samples.length} samples to ${file}`);
+}
+
+build()
+    .then(() => process.exit(0))
+    .catch(e => {
+        console.error(e);
+        process.exit(1);
+    });
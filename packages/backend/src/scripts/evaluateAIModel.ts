@@ -0,0 +1,50 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { AIEvaluationService, EVALUATED_FIELDS, EVALUATION_DIR } from '../services/aiEvaluationService';
+import { AI_MODEL_VERSION } from '../services/aiProcessingService';
+
+/**
+ * Score the current extraction pipeline against a golden dataset without
+ * network access. With a baseline model version, also writes a comparison
+ * report and exits non-zero when any field regresses.
+ * Usage: npm run ai:evaluate -- <datasetVersion> [baselineModelVersion]
+ */
+async function evaluate(): Promise<number> {
+    const [datasetVersion, baselineVersion] = process.argv.slice(2);
+    if (!datasetVersion) {
+        throw new Error('Usage: npm run ai:evaluate -- <datasetVersion> [baselineModelVersion]');
+    }
+
+    const dataset = await AIEvaluationService.loadDataset(datasetVersion);
+    const report = await AIEvaluationService.evaluate(dataset, AI_MODEL_VERSION);
+    console.log(`Saved report to ${await AIEvaluationService.saveReport(report)}`);
+
+    console.table(Object.fromEntries(EVALUATED_FIELDS.map(field => {
+        const { support, precision, recall, f1 } = report.fields[field];
+        return [field, { support, precision, recall, f1 }];
+    })));
+
+    if (!baselineVersion) {
+        return 0;
+    }
+
+    const baseline = await AIEvaluationService.loadReport(baselineVersion, datasetVersion);
+    const comparison = AIEvaluationService.compareReports(baseline, report);
+    const file = path.join(EVALUATION_DIR, 'reports', `${baselineVersion}__vs__${AI_MODEL_VERSION}__${datasetVersion}.json`);
+    await fs.writeFile(file, JSON.stringify(comparison, null, 2) + '\n');
+    console.log(`Saved comparison to ${file}`);
+
+    if (comparison.regressions.length > 0) {
+        console.error(`Regressions against ${baselineVersion}:\n  ${comparison.regressions.join('\n  ')}`);
+        return 1;
+    }
+    console.log(`No regressions against ${baselineVersion}`);
+    return 0;
+}
+
+evaluate()
+    .then(code => process.exit(code))
+    .catch(e => {
+        console.error(e);
+        process.exit(1);
+    });
@@ -0,0 +1,28 @@
+import { ImageEmbeddingService, VisualEntityType, VISUAL_ENTITY_TYPES } from '../services/imageEmbeddingService';
+
+/**
+ * Embed the images of wardrobe items, SKUs and listings for visual search.
+ * Already embedded images are skipped, so it is safe to re-run.
+ * Usage: npm run search:embeddings [-- item sku listing]
+ */
+async function rebuild() {
+    const requested = process.argv.slice(2) as VisualEntityType[];
+    const unknown = requested.filter(type => !VISUAL_ENTITY_TYPES.includes(type));
+    if (unknown.length > 0) {
+        throw new Error(`Unknown entity types: ${unknown.join(', ')}`);
+    }
+
+    console.log(`Embedding model: ${ImageEmbeddingService.getModel().name}`);
+    for (const entityType of requested.length > 0 ? requested : VISUAL_ENTITY_TYPES) {
+        console.log(`Embedding ${entityType} images...`);
+        const count = await ImageEmbeddingService.reindexAll(entityType);
+        console.log(`Embedded ${count} new ${entityType} images`);
+    }
+}
+
+rebuild()
+    .then(() => process.exit(0))
+    .catch(e => {
+        console.error(e);
+        process.exit(1);
+    });
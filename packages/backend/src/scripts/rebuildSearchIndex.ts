@@ -0,0 +1,26 @@
+import { SearchIndexService, SearchEntityType, SEARCH_ENTITY_TYPES } from '../services/searchIndexService';
+
+/**
+ * Rebuild search_documents from the source tables.
+ * Usage: npm run search:reindex [-- item sku ...]
+ */
+async function rebuild() {
+    const requested = process.argv.slice(2) as SearchEntityType[];
+    const unknown = requested.filter(type => !SEARCH_ENTITY_TYPES.includes(type));
+    if (unknown.length > 0) {
+        throw new Error(`Unknown entity types: ${unknown.join(', ')}`);
+    }
+
+    for (const entityType of requested.length > 0 ? requested : SEARCH_ENTITY_TYPES) {
+        console.log(`Indexing ${entityType}...`);
+        const count = await SearchIndexService.reindexAll(entityType);
+        console.log(`Indexed ${count} ${entityType} documents`);
+    }
+}
+
+rebuild()
+    .then(() => process.exit(0))
+    .catch(e => {
+        console.error(e);
+        process.exit(1);
+    });
@@ -1,6 +1,10 @@
 import { CalendarSubscriptionModel } from '../models/CalendarSubscription';
-import { NotificationModel } from '../models/Notification';
+import { NotificationService } from './notificationService';
 import { db } from '../database/connection';
+import { MarketplaceOffer } from '@vangarments/shared/types/marketplace';
+import { InventoryItem } from '../models/InventoryManagement';
+
+export type OfferNotificationEvent = 'received' | 'countered' | 'accepted' | 'declined' | 'expired' | 'closed';
 
 export class EventNotificationService {
     /**
@@ -40,7 +44,7 @@ export class EventNotificationService {
 
             for (const row of result.rows) {
                 // Create notification
-                await NotificationModel.create({
+                await NotificationService.send({
                     userId: row.user_id,
                     type: 'calendar_reminder',
                     title: `Upcoming Event: ${row.event_title}`,
@@ -94,4 +98,89 @@ export class EventNotificationService {
             console.error('[EventNotificationService] Error syncing SKUs:', error);
         }
     }
+
+    /**
+     * Notify the parties of a marketplace offer about a step in the negotiation.
+     * The actor is not notified of their own action; expiry and acceptance reach both sides.
+     */
+    static async notifyOfferEvent(
+        offer: Pick<MarketplaceOffer, 'id' | 'listingId' | 'buyerId' | 'amount'> & { sellerId: string },
+        event: OfferNotificationEvent,
+        options: { actorId?: string; listingTitle?: string; amount?: number } = {}
+    ) {
+        const item = options.listingTitle ? `"${options.listingTitle}"` : 'your listing';
+        const amount = `R$ ${(options.amount ?? offer.amount).toFixed(2)}`;
+
+        const messages: Record<OfferNotificationEvent, { title: string; message: string }> = {
+            received: { title: 'New offer received', message: `You received an offer of ${amount} for ${item}.` },
+            countered: { title: 'Counter-offer received', message: `You received a counter-offer of ${amount} for ${item}.` },
+            accepted: { title: 'Offer accepted', message: `The offer of ${amount} for ${item} was accepted.` },
+            declined: { title: 'Offer declined', message: `The offer of ${amount} for ${item} was declined.` },
+            expired: { title: 'Offer expired', message: `The offer of ${amount} for ${item} expired without a response.` },
+            closed: { title: 'Offer closed', message: `${item} was sold to another buyer, so your offer of ${amount} was closed.` },
+        };
+
+        const recipients = [offer.buyerId, offer.sellerId].filter(userId => userId !== options.actorId);
+
+        try {
+            for (const userId of recipients) {
+                await NotificationService.send({
+                    userId,
+                    type: 'marketplace_offer',
+                    title: messages[event].title,
+                    message: messages[event].message,
+                    link: userId === offer.sellerId
+                        ? `/marketplace/my-listings?offer=${offer.id}`
+                        : `/marketplace/${offer.listingId}?offer=${offer.id}`,
+                    actorId: options.actorId,
+                    entityId: offer.id,
+                    metadata: {
+                        eventType: `offer_${event}`,
+                        offerId: offer.id,
+                        listingId: offer.listingId,
+                        amount: options.amount ?? offer.amount
+                    }
+                });
+            }
+        } catch (error) {
+            console.error('[EventNotificationService] Error sending offer notification:', error);
+        }
+    }
+
+    /**
+     * Alert a brand's team that a SKU variant is low on or out of stock at a location
+     */
+    static async notifyLowStock(
+        userIds: string[],
+        item: Pick<InventoryItem, 'id' | 'brandId' | 'skuItemId' | 'sku' | 'skuName' | 'storeName' | 'availableQuantity' | 'reorderLevel' | 'reorderQuantity'>
+    ) {
+        const name = item.skuName ? `${item.skuName} (${item.sku})` : item.sku;
+        const location = item.storeName || 'your online stock';
+        const outOfStock = item.availableQuantity <= 0;
+
+        try {
+            for (const userId of userIds) {
+                await NotificationService.send({
+                    userId,
+                    type: outOfStock ? 'inventory_out_of_stock' : 'inventory_low_stock',
+                    title: outOfStock ? 'Out of stock' : 'Low stock',
+                    message: outOfStock
+                        ? `${name} is out of stock at ${location}.`
+                        : `${name} is down to ${item.availableQuantity} available at ${location}` +
+                          (item.reorderQuantity > 0 ? `. Suggested reorder: ${item.reorderQuantity}.` : '.'),
+                    link: `/admin/brands/${item.brandId}/skus`,
+                    entityId: item.skuItemId,
+                    metadata: {
+                        eventType: 'low_stock',
+                        inventoryItemId: item.id,
+                        skuItemId: item.skuItemId,
+                        available: item.availableQuantity,
+                        reorderLevel: item.reorderLevel
+                    }
+                });
+            }
+        } catch (error) {
+            console.error('[EventNotificationService] Error sending low-stock notification:', error);
+        }
+    }
 }
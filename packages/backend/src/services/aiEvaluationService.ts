@@ -0,0 +1,307 @@
+import fs from 'fs/promises';
+import path from 'path';
+import {
+  AIProcessingService,
+  AI_MODEL_VERSION,
+  VisionAnalysis,
+  VisionProvider,
+} from './aiProcessingService';
+import { GoogleCloudService } from './googleCloudService';
+import { ImageEmbeddingService } from './imageEmbeddingService';
+import { AITrainingModel, TrainingData } from '../models/AITraining';
+
+export const EVALUATED_FIELDS = ['brand', 'pieceType', 'color', 'material', 'viewpoint'] as const;
+export type EvaluatedField = typeof EVALUATED_FIELDS[number];
+export type FieldLabels = Partial<Record<EvaluatedField, string | null>>;
+
+export const EVALUATION_DIR = process.env.AI_EVALUATION_DIR || path.join(__dirname, '../../evaluation');
+
+// Largest drop in precision or recall a candidate may show before it is a regression
+export const DEFAULT_REGRESSION_TOLERANCE = 0.02;
+
+export interface GoldenSample {
+  id: string;
+  imageUrl: string;
+  labels: FieldLabels;
+  vision: VisionAnalysis;
+}
+
+/**
+ * Frozen set of owner-confirmed labels together with the Vision responses
+ * recorded for each image, so evaluations never call Google Cloud
+ */
+export interface GoldenDataset {
+  version: string;
+  createdAt: string;
+  sourceModelVersion?: string;
+  samples: GoldenSample[];
+}
+
+export interface FieldMetrics {
+  support: number;
+  predicted: number;
+  correct: number;
+  precision: number;
+  recall: number;
+  f1: number;
+}
+
+export interface EvaluationMiss {
+  sampleId: string;
+  field: EvaluatedField;
+  expected: string;
+  predicted: string | null;
+}
+
+export interface EvaluationReport {
+  modelVersion: string;
+  datasetVersion: string;
+  evaluatedAt: string;
+  sampleCount: number;
+  fields: Record<EvaluatedField, FieldMetrics>;
+  misses: EvaluationMiss[];
+}
+
+export interface MetricChange {
+  baseline: number;
+  candidate: number;
+  delta: number;
+}
+
+export interface ReportComparison {
+  datasetVersion: string;
+  baselineVersion: string;
+  candidateVersion: string;
+  fields: Record<EvaluatedField, { precision: MetricChange; recall: MetricChange; f1: MetricChange }>;
+  regressions: string[];
+}
+
+/**
+ * Serves one recorded Vision response in place of Google Cloud
+ */
+export class RecordedVisionProvider implements VisionProvider {
+  constructor(private readonly response: VisionAnalysis) {}
+
+  async analyzeImage(): Promise<VisionAnalysis> {
+    return this.response;
+  }
+
+  async uploadImage(_buffer: Buffer, key: string): Promise<string> {
+    return `recorded://${key}`;
+  }
+}
+
+export class AIEvaluationService {
+  /**
+   * Freeze feedback rows into a golden dataset, recording the Vision response
+   * for each image. This is the only step that needs network access.
+   */
+  static async buildGoldenDataset(
+    version: string,
+    options: { modelVersion?: string; limit?: number } = {}
+  ): Promise<GoldenDataset> {
+    const feedback = await AITrainingModel.getFeedbackData(options.modelVersion);
+    const samples: GoldenSample[] = [];
+
+    for (const row of feedback.slice(0, options.limit || feedback.length)) {
+      try {
+        const image = await ImageEmbeddingService.loadImage(row.imageUrl);
+        const vision = await GoogleCloudService.analyzeImage(image);
+        samples.push({ id: row.id, imageUrl: row.imageUrl, labels: this.labelsFrom(row), vision });
+      } catch (error: any) {
+        console.warn(`Skipping golden sample ${row.id}: ${error.message}`);
+      }
+    }
+
+    return {
+      version,
+      createdAt: new Date().toISOString(),
+      sourceModelVersion: options.modelVersion,
+      samples,
+    };
+  }
+
+  /**
+   * Ground truth for a training row; corrections sent later through
+   * AI feedback take precedence over the stored labels
+   */
+  static labelsFrom(row: TrainingData): FieldLabels {
+    const corrections = row.userFeedback?.corrections || {};
+    const labels: FieldLabels = {};
+
+    for (const field of EVALUATED_FIELDS) {
+      const value = typeof corrections[field] === 'string' ? corrections[field] : row.groundTruthLabels[field];
+      if (value) {
+        labels[field] = value;
+      }
+    }
+
+    return labels;
+  }
+
+  /**
+   * Run the current extraction pipeline over a golden dataset offline
+   */
+  static async evaluate(dataset: GoldenDataset, modelVersion: string = AI_MODEL_VERSION): Promise<EvaluationReport> {
+    const counts = Object.fromEntries(
+      EVALUATED_FIELDS.map(field => [field, { support: 0, predicted: 0, correct: 0 }])
+    ) as Record<EvaluatedField, { support: number; predicted: number; correct: number }>;
+    const misses: EvaluationMiss[] = [];
+    const liveProvider = AIProcessingService.getVisionProvider();
+
+    try {
+      for (const sample of dataset.samples) {
+        AIProcessingService.setVisionProvider(new RecordedVisionProvider(sample.vision));
+        const extraction = await AIProcessingService.extractVUFSProperties(
+          Buffer.alloc(0),
+          path.basename(sample.imageUrl)
+        );
+        const predictions = AIProcessingService.summarizeExtraction(extraction);
+
+        for (const field of EVALUATED_FIELDS) {
+          const expected = this.normalize(sample.labels[field]);
+          if (!expected) continue;
+
+          const predicted = this.normalize(predictions[field]);
+          counts[field].support++;
+          if (predicted) counts[field].predicted++;
+
+          if (predicted === expected) {
+            counts[field].correct++;
+          } else {
+            misses.push({
+              sampleId: sample.id,
+              field,
+              expected: sample.labels[field] as string,
+              predicted: predictions[field] || null,
+            });
+          }
+        }
+      }
+    } finally {
+      AIProcessingService.setVisionProvider(liveProvider);
+    }
+
+    const fields = Object.fromEntries(
+      EVALUATED_FIELDS.map(field => [field, this.metrics(counts[field])])
+    ) as Record<EvaluatedField, FieldMetrics>;
+
+    return {
+      modelVersion,
+      datasetVersion: dataset.version,
+      evaluatedAt: new Date().toISOString(),
+      sampleCount: dataset.samples.length,
+      fields,
+      misses,
+    };
+  }
+
+  /**
+   * Compare two model versions on the same golden dataset. Any field whose
+   * precision or recall drops by more than the tolerance is a regression.
+   */
+  static compareReports(
+    baseline: EvaluationReport,
+    candidate: EvaluationReport,
+    tolerance: number = DEFAULT_REGRESSION_TOLERANCE
+  ): ReportComparison {
+    if (baseline.datasetVersion !== candidate.datasetVersion) {
+      throw new Error(
+        `Invalid comparison: reports use golden datasets ${baseline.datasetVersion} and ${candidate.datasetVersion}`
+      );
+    }
+
+    const regressions: string[] = [];
+    const change = (field: EvaluatedField, metric: 'precision' | 'recall' | 'f1'): MetricChange => {
+      const before = baseline.fields[field][metric];
+      const after = candidate.fields[field][metric];
+      if (metric !== 'f1' && after < before - tolerance) {
+        regressions.push(`${field} ${metric} dropped from ${before} to ${after}`);
+      }
+      return { baseline: before, candidate: after, delta: this.round(after - before) };
+    };
+
+    const fields = Object.fromEntries(EVALUATED_FIELDS.map(field => [field, {
+      precision: change(field, 'precision'),
+      recall: change(field, 'recall'),
+      f1: change(field, 'f1'),
+    }])) as ReportComparison['fields'];
+
+    return {
+      datasetVersion: candidate.datasetVersion,
+      baselineVersion: baseline.modelVersion,
+      candidateVersion: candidate.modelVersion,
+      fields,
+      regressions,
+    };
+  }
+
+  static async saveDataset(dataset: GoldenDataset): Promise<string> {
+    const file = this.datasetPath(dataset.version);
+    const exists = await fs.access(file).then(() => true, () => false);
+    if (exists) {
+      throw new Error(`Golden dataset ${dataset.version} already exists; datasets are immutable, use a new version`);
+    }
+
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, JSON.stringify(dataset, null, 2) + '\n');
+    return file;
+  }
+
+  static async loadDataset(version: string): Promise<GoldenDataset> {
+    return JSON.parse(await fs.readFile(this.datasetPath(version), 'utf-8'));
+  }
+
+  static async saveReport(report: EvaluationReport): Promise<string> {
+    const file = this.reportPath(report.modelVersion, report.datasetVersion);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, JSON.stringify(report, null, 2) + '\n');
+    return file;
+  }
+
+  static async loadReport(modelVersion: string, datasetVersion: string): Promise<EvaluationReport> {
+    return JSON.parse(await fs.readFile(this.reportPath(modelVersion, datasetVersion), 'utf-8'));
+  }
+
+  static datasetPath(version: string): string {
+    return path.join(EVALUATION_DIR, 'golden', `${this.safeName(version)}.json`);
+  }
+
+  static reportPath(modelVersion: string, datasetVersion: string): string {
+    return path.join(EVALUATION_DIR, 'reports', `${this.safeName(modelVersion)}__${this.safeName(datasetVersion)}.json`);
+  }
+
+  private static metrics(counts: { support: number; predicted: number; correct: number }): FieldMetrics {
+    const precision = counts.predicted > 0 ? counts.correct / counts.predicted : 0;
+    const recall = counts.support > 0 ? counts.correct / counts.support : 0;
+    const f1 = precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0;
+
+    return {
+      ...counts,
+      precision: this.round(precision),
+      recall: this.round(recall),
+      f1: this.round(f1),
+    };
+  }
+
+  private static normalize(value: string | null | undefined): string {
+    return (value || '')
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .replace(/[®™]/g, '')
+      .toLowerCase()
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  private static round(value: number): number {
+    return Math.round(value * 10000) / 10000;
+  }
+
+  private static safeName(name: string): string {
+    if (!/^[\w.-]+$/.test(name)) {
+      throw new Error(`Invalid version name: ${name}`);
+    }
+    return name;
+  }
+}
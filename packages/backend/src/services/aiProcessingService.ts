@@ -12,8 +12,32 @@ import {
   BrandHierarchy,
   ItemMetadata,
   ItemCondition,
+  CareRules,
 } from '@vangarments/shared/types/vufs';
 import { GoogleCloudService } from './googleCloudService';
+import { CareLabelService, CareSymbolCode } from './careLabelService';
+import { ItemImageModel } from '../models/ItemImage';
+import { AITrainingModel, TrainingLabels } from '../models/AITraining';
+
+/**
+ * Version of the heuristics below; bump it when detection logic changes so
+ * feedback and evaluation reports can be told apart
+ */
+export const AI_MODEL_VERSION = 'vision-heuristics-1.0';
+
+export interface VisionAnalysis {
+  labels: any[];
+  textDetections: any[];
+}
+
+/**
+ * Image analysis backend. Google Cloud in production; evaluations replay
+ * recorded responses instead.
+ */
+export interface VisionProvider {
+  analyzeImage(buffer: Buffer): Promise<VisionAnalysis>;
+  uploadImage(buffer: Buffer, key: string, contentType?: string): Promise<string>;
+}
 
 export interface AIAnalysisResult {
   domain: VUFSDomain | null;
@@ -24,6 +48,8 @@ export interface AIAnalysisResult {
   detectedViewpoint?: string;
   detectedSize?: string;
   parsedComposition?: { material: string; percentage: number }[];
+  careSymbols?: CareSymbolCode[];
+  careRules?: CareRules;
   confidence: {
     overall: number;
     brand: number;
@@ -67,12 +93,23 @@ export interface UserFeedback {
     brand?: BrandHierarchy;
     metadata?: Partial<ItemMetadata>;
     condition?: ItemCondition;
+    viewpoint?: string;
   };
   feedbackType: 'correction' | 'confirmation' | 'partial_correction';
   timestamp: Date;
 }
 
 export class AIProcessingService {
+  private static vision: VisionProvider = GoogleCloudService;
+
+  static setVisionProvider(provider: VisionProvider): void {
+    this.vision = provider;
+  }
+
+  static getVisionProvider(): VisionProvider {
+    return this.vision;
+  }
+
   /**
    * Process fashion item image with comprehensive AI analysis
    */
@@ -84,7 +121,7 @@ export class AIProcessingService {
 
     try {
       // 1. Analyze image using Google Vision AI
-      const { labels, textDetections } = await GoogleCloudService.analyzeImage(imageBuffer);
+      const { labels, textDetections } = await this.vision.analyzeImage(imageBuffer);
 
       // 2. Perform fashion-specific analysis (heuristic-based for now, until Vertex AI is tuned)
       const analysisDetails = this.analyzeFashionAttributes(labels, textDetections, null);
@@ -92,7 +129,7 @@ export class AIProcessingService {
       // 3. Upload to Google Cloud Storage
       const timestamp = Date.now();
       const imageKey = `processed/${timestamp}-${originalFilename}`;
-      const processedImageUrl = await GoogleCloudService.uploadImage(imageBuffer, imageKey, 'image/jpeg');
+      const processedImageUrl = await this.vision.uploadImage(imageBuffer, imageKey, 'image/jpeg');
 
       return {
         ...analysisDetails,
@@ -193,20 +230,63 @@ export class AIProcessingService {
    */
   static async storeFeedback(feedback: UserFeedback): Promise<void> {
     try {
-      // Store feedback in database for model training
-      // This would be used to improve AI accuracy over time
-      console.log('Storing AI feedback for training:', feedback);
-
-      // In production, this would:
-      // 1. Store feedback in training database
-      // 2. Queue for model retraining
-      // 3. Update confidence scoring algorithms
-      // 4. Improve suggestion algorithms
+      const images = await ItemImageModel.findByItemId(feedback.itemId);
+      const image = images.find(img => img.isPrimary) || images[0];
+      if (!image) {
+        console.warn('Skipping AI feedback for item without images:', feedback.itemId);
+        return;
+      }
+
+      const suggestions: Partial<VUFSExtractionResult> = feedback.aiSuggestions || {};
+      const corrections = feedback.userCorrections || {};
+
+      // What the owner confirmed becomes the ground truth; anything they
+      // didn't touch is taken as a confirmation of the suggestion
+      const groundTruthLabels = this.summarizeExtraction({
+        category: corrections.category || suggestions.category,
+        brand: corrections.brand || suggestions.brand,
+        metadata: { ...suggestions.metadata, ...corrections.metadata },
+        detectedViewpoint: corrections.viewpoint || suggestions.detectedViewpoint,
+      });
+
+      await AITrainingModel.storeTrainingData({
+        imageUrl: image.imageUrl,
+        groundTruthLabels,
+        userFeedback: {
+          userId: feedback.userId,
+          corrections,
+          confidence: 100,
+          timestamp: feedback.timestamp,
+        },
+        aiPredictions: {
+          ...this.summarizeExtraction(suggestions),
+          confidence: suggestions.confidence?.overall || 0,
+        },
+        modelVersion: AI_MODEL_VERSION,
+      });
     } catch (error) {
       console.error('Failed to store AI feedback:', error);
     }
   }
 
+  /**
+   * Flatten an extraction into the labels training data and evaluations compare
+   */
+  static summarizeExtraction(extraction: Partial<VUFSExtractionResult>): TrainingLabels {
+    const composition = [...(extraction.metadata?.composition || [])]
+      .sort((a, b) => b.percentage - a.percentage);
+    const page = extraction.category?.page;
+
+    return {
+      domain: page ? page.toUpperCase() : null,
+      brand: extraction.brand?.brand || null,
+      pieceType: extraction.category?.whiteSubcategory || null,
+      color: extraction.metadata?.colors?.[0]?.primary || null,
+      material: composition[0]?.material || null,
+      viewpoint: extraction.detectedViewpoint || null,
+    };
+  }
+
   /**
    * Get AI confidence score for a specific property
    */
@@ -275,8 +355,9 @@ export class AIProcessingService {
       customModelResult
     );
 
-    // Parse composition from text (for tag images)
-    const parsedComposition = this.parseCompositionFromText(detectedText);
+    // Parse composition and care instructions from text (for tag images)
+    const careLabel = CareLabelService.parseLabel(detectedText);
+    const parsedComposition = careLabel.composition;
 
     // Extract size from text
     const detectedSize = this.extractSizeFromText(detectedText);
@@ -290,6 +371,8 @@ export class AIProcessingService {
       detectedViewpoint,
       detectedSize,
       parsedComposition: parsedComposition.length > 0 ? parsedComposition : undefined,
+      careSymbols: careLabel.careSymbols.length > 0 ? careLabel.careSymbols : undefined,
+      careRules: careLabel.careSymbols.length > 0 ? careLabel.careRules : undefined,
       confidence,
       rawLabels: labels,
       detectedText,
@@ -631,8 +714,12 @@ export class AIProcessingService {
       }];
     }
 
-    // Extract care instructions (basic defaults based on material)
-    if (aiAnalysis.detectedMaterial) {
+    // Extract care instructions - prefer what the care label says over material defaults
+    if (aiAnalysis.careSymbols && aiAnalysis.careSymbols.length > 0) {
+      metadata.careSymbols = aiAnalysis.careSymbols;
+      metadata.careRules = aiAnalysis.careRules;
+      metadata.careInstructions = CareLabelService.instructionsFor(aiAnalysis.careSymbols);
+    } else if (aiAnalysis.detectedMaterial) {
       metadata.careInstructions = this.generateCareInstructions(aiAnalysis.detectedMaterial);
     }
 
@@ -852,99 +939,6 @@ export class AIProcessingService {
     return [];
   }
 
-  /**
-   * Parse composition from detected text (e.g., "60% Cotton, 40% Polyester")
-   */
-  private static parseCompositionFromText(detectedText: string[]): { material: string; percentage: number }[] {
-    const composition: { material: string; percentage: number }[] = [];
-    const allText = detectedText.join(' ');
-
-    // Common pattern: "XX% Material" or "Material XX%"
-    // Regex to match patterns like "60% Cotton", "100% Polyester", "40 % Viscose"
-    const percentagePattern = /(\d{1,3})\s*%\s*([A-Za-zÀ-ÿ]+)/gi;
-    const reversePattern = /([A-Za-zÀ-ÿ]+)\s*(\d{1,3})\s*%/gi;
-
-    let match;
-
-    // Try standard pattern: "60% Cotton"
-    while ((match = percentagePattern.exec(allText)) !== null) {
-      const percentage = parseInt(match[1], 10);
-      const material = this.normalizeMaterialName(match[2]);
-      if (percentage > 0 && percentage <= 100 && material) {
-        composition.push({ material, percentage });
-      }
-    }
-
-    // Try reverse pattern: "Cotton 60%"
-    if (composition.length === 0) {
-      while ((match = reversePattern.exec(allText)) !== null) {
-        const material = this.normalizeMaterialName(match[1]);
-        const percentage = parseInt(match[2], 10);
-        if (percentage > 0 && percentage <= 100 && material) {
-          composition.push({ material, percentage });
-        }
-      }
-    }
-
-    // Sort by percentage descending
-    composition.sort((a, b) => b.percentage - a.percentage);
-
-    return composition;
-  }
-
-  /**
-   * Normalize material name to standard VUFS material
-   */
-  private static normalizeMaterialName(rawMaterial: string): string {
-    const materialMap: Record<string, string> = {
-      // English
-      'cotton': 'Cotton',
-      'polyester': 'Polyester',
-      'wool': 'Wool',
-      'silk': 'Silk',
-      'linen': 'Linen',
-      'nylon': 'Nylon',
-      'spandex': 'Spandex',
-      'elastane': 'Elastane',
-      'viscose': 'Viscose',
-      'rayon': 'Rayon',
-      'acrylic': 'Acrylic',
-      'cashmere': 'Cashmere',
-      'leather': 'Leather',
-      'denim': 'Denim',
-      'velvet': 'Velvet',
-      'satin': 'Satin',
-      'chiffon': 'Chiffon',
-      'tweed': 'Tweed',
-      'fleece': 'Fleece',
-      'modal': 'Modal',
-      'lyocell': 'Lyocell',
-      'tencel': 'Tencel',
-      'hemp': 'Hemp',
-      'bamboo': 'Bamboo',
-      // Portuguese
-      'algodão': 'Cotton',
-      'algodao': 'Cotton',
-      'poliéster': 'Polyester',
-      'poliester': 'Polyester',
-      'lã': 'Wool',
-      'la': 'Wool',
-      'seda': 'Silk',
-      'linho': 'Linen',
-      'náilon': 'Nylon',
-      'nailon': 'Nylon',
-      'elastano': 'Elastane',
-      'couro': 'Leather',
-      'acrílico': 'Acrylic',
-      'acrilico': 'Acrylic',
-      'caxemira': 'Cashmere',
-      'cachemir': 'Cashmere',
-    };
-
-    const normalized = rawMaterial.toLowerCase().trim();
-    return materialMap[normalized] || rawMaterial.charAt(0).toUpperCase() + rawMaterial.slice(1).toLowerCase();
-  }
-
   /**
    * Extract size from detected text
    */
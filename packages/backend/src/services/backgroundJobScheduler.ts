@@ -0,0 +1,114 @@
+import { PaymentReconciliationService } from './paymentReconciliationService';
+import { PlatformExportService } from './platformExportService';
+import { OfferService } from './offerService';
+import { LoanLifecycleService } from './loanLifecycleService';
+import { MessagingEventService } from './messagingEventService';
+import { NotificationService } from './notificationService';
+import { PushNotificationService } from './pushNotificationService';
+import { TransactionService } from './transactionService';
+import { InventoryStockService } from './inventoryStockService';
+
+interface ScheduledJob {
+    name: string;
+    intervalMs: number;
+    run: () => Promise<unknown>;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+const transactionService = new TransactionService();
+
+/**
+ * Periodic maintenance jobs, started once with the server
+ */
+const JOBS: ScheduledJob[] = [
+    {
+        name: 'payment reconciliation',
+        intervalMs: 60 * MINUTE_MS,
+        run: () => PaymentReconciliationService.reconcile({ sinceDays: 1 }),
+    },
+    {
+        name: 'escrow release',
+        intervalMs: 60 * MINUTE_MS,
+        run: () => transactionService.releaseMaturedEscrows(),
+    },
+    {
+        name: 'platform export jobs',
+        intervalMs: 5 * MINUTE_MS,
+        run: () => PlatformExportService.processQueuedJobs(),
+    },
+    {
+        name: 'stale platform export jobs',
+        intervalMs: 15 * MINUTE_MS,
+        run: () => PlatformExportService.failStaleJobs(),
+    },
+    {
+        name: 'offer expiry',
+        intervalMs: 5 * MINUTE_MS,
+        run: () => OfferService.expireOffers(),
+    },
+    {
+        name: 'loan reminders',
+        intervalMs: 30 * MINUTE_MS,
+        run: () => LoanLifecycleService.sendReminders(),
+    },
+    {
+        name: 'messaging event pruning',
+        intervalMs: 6 * 60 * MINUTE_MS,
+        run: () => MessagingEventService.pruneEvents(),
+    },
+    {
+        name: 'pending notification deliveries',
+        intervalMs: 5 * MINUTE_MS,
+        run: () => NotificationService.processPendingDeliveries(),
+    },
+    {
+        name: 'push receipts',
+        intervalMs: 15 * MINUTE_MS,
+        run: () => PushNotificationService.processReceipts(),
+    },
+    {
+        name: 'inventory reservation expiry',
+        intervalMs: 5 * MINUTE_MS,
+        run: () => InventoryStockService.releaseExpiredReservations(),
+    },
+];
+
+/**
+ * Runs the sweeps and retries that no request triggers on its own. Each job
+ * runs on its own interval and is skipped while its previous run is still going.
+ */
+export class BackgroundJobScheduler {
+    private static timers: ReturnType<typeof setInterval>[] = [];
+    private static active = new Set<string>();
+
+    static start(): void {
+        if (this.timers.length > 0) return;
+
+        for (const job of JOBS) {
+            const timer = setInterval(() => this.run(job), job.intervalMs);
+            timer.unref?.();
+            this.timers.push(timer);
+        }
+    }
+
+    static stop(): void {
+        for (const timer of this.timers) {
+            clearInterval(timer);
+        }
+        this.timers = [];
+    }
+
+    static async run(job: ScheduledJob): Promise<void> {
+        if (this.active.has(job.name)) return;
+        this.active.add(job.name);
+
+        try {
+            await job.run();
+        } catch (error) {
+            console.error(`[BackgroundJobScheduler] ${job.name} failed:`, error);
+        } finally {
+            this.active.delete(job.name);
+        }
+    }
+}
@@ -126,7 +126,7 @@ export class BackgroundRemovalService {
      * Apply edge feathering to soften mask edges
      * Uses alpha channel blur for natural edge blending
      */
-    private static async applyEdgeFeathering(imageBuffer: Buffer, radius: number): Promise<Buffer> {
+    static async applyEdgeFeathering(imageBuffer: Buffer, radius: number): Promise<Buffer> {
         console.log(`BackgroundRemovalService: Applying edge feather radius=${radius}px`);
 
         const clampedRadius = Math.min(Math.max(radius, 1), 10);
@@ -173,7 +173,7 @@ export class BackgroundRemovalService {
     /**
      * Apply aspect ratio padding to center garment in canvas
      */
-    private static async applyAspectRatio(imageBuffer: Buffer, ratio: '1:1' | '4:5' | '3:4'): Promise<Buffer> {
+    static async applyAspectRatio(imageBuffer: Buffer, ratio: '1:1' | '4:5' | '3:4'): Promise<Buffer> {
         console.log(`BackgroundRemovalService: Applying aspect ratio ${ratio}`);
 
         const image = sharp(imageBuffer);
@@ -0,0 +1,549 @@
+import { APPAREL_MATERIALS } from '@vangarments/shared/constants/vufs';
+import { CareRules } from '@vangarments/shared/types/vufs';
+import { VUFSItemModel, BackendVUFSItem } from '../models/VUFSItem';
+import { GoogleCloudService } from './googleCloudService';
+
+export type ApparelMaterial = typeof APPAREL_MATERIALS[number];
+
+export type CompositionPartType = 'main' | 'lining' | 'filling' | 'trim' | 'other';
+
+export interface CompositionPart {
+  part: CompositionPartType;
+  composition: Array<{ material: ApparelMaterial; percentage: number }>;
+  total: number;
+}
+
+export type CareSymbolCategory =
+  | 'washing'
+  | 'bleaching'
+  | 'tumble_drying'
+  | 'natural_drying'
+  | 'ironing'
+  | 'dry_cleaning'
+  | 'wet_cleaning';
+
+interface CareSymbolDefinition {
+  category: CareSymbolCategory;
+  /** Lower is more restrictive; when a label yields conflicting symbols the most restrictive wins */
+  rank: number;
+  instruction: string;
+  rules: CareRules;
+}
+
+/**
+ * ISO 3758:2012 care symbols, keyed by the codes we store on items
+ */
+export const CARE_SYMBOLS = {
+  wash_none: { category: 'washing', rank: 0, instruction: 'Do not wash', rules: { washing: { method: 'none' } } },
+  wash_hand: { category: 'washing', rank: 1, instruction: 'Hand wash (max 40°C)', rules: { washing: { method: 'hand', maxTemperature: 40 } } },
+  wash_30_very_mild: { category: 'washing', rank: 2, instruction: 'Machine wash at 30°C, very mild cycle', rules: { washing: { method: 'machine', maxTemperature: 30, cycle: 'very_mild' } } },
+  wash_30_mild: { category: 'washing', rank: 3, instruction: 'Machine wash at 30°C, mild cycle', rules: { washing: { method: 'machine', maxTemperature: 30, cycle: 'mild' } } },
+  wash_30: { category: 'washing', rank: 4, instruction: 'Machine wash at 30°C', rules: { washing: { method: 'machine', maxTemperature: 30, cycle: 'normal' } } },
+  wash_40_very_mild: { category: 'washing', rank: 5, instruction: 'Machine wash at 40°C, very mild cycle', rules: { washing: { method: 'machine', maxTemperature: 40, cycle: 'very_mild' } } },
+  wash_40_mild: { category: 'washing', rank: 6, instruction: 'Machine wash at 40°C, mild cycle', rules: { washing: { method: 'machine', maxTemperature: 40, cycle: 'mild' } } },
+  wash_40: { category: 'washing', rank: 7, instruction: 'Machine wash at 40°C', rules: { washing: { method: 'machine', maxTemperature: 40, cycle: 'normal' } } },
+  wash_50_mild: { category: 'washing', rank: 8, instruction: 'Machine wash at 50°C, mild cycle', rules: { washing: { method: 'machine', maxTemperature: 50, cycle: 'mild' } } },
+  wash_50: { category: 'washing', rank: 9, instruction: 'Machine wash at 50°C', rules: { washing: { method: 'machine', maxTemperature: 50, cycle: 'normal' } } },
+  wash_60_mild: { category: 'washing', rank: 10, instruction: 'Machine wash at 60°C, mild cycle', rules: { washing: { method: 'machine', maxTemperature: 60, cycle: 'mild' } } },
+  wash_60: { category: 'washing', rank: 11, instruction: 'Machine wash at 60°C', rules: { washing: { method: 'machine', maxTemperature: 60, cycle: 'normal' } } },
+  wash_70: { category: 'washing', rank: 12, instruction: 'Machine wash at 70°C', rules: { washing: { method: 'machine', maxTemperature: 70, cycle: 'normal' } } },
+  wash_95: { category: 'washing', rank: 13, instruction: 'Machine wash at 95°C', rules: { washing: { method: 'machine', maxTemperature: 95, cycle: 'normal' } } },
+
+  bleach_none: { category: 'bleaching', rank: 0, instruction: 'Do not bleach', rules: { bleaching: { allowed: 'none' } } },
+  bleach_oxygen: { category: 'bleaching', rank: 1, instruction: 'Only oxygen/non-chlorine bleach', rules: { bleaching: { allowed: 'oxygen_only' } } },
+  bleach_any: { category: 'bleaching', rank: 2, instruction: 'Any bleach when needed', rules: { bleaching: { allowed: 'any' } } },
+
+  tumble_none: { category: 'tumble_drying', rank: 0, instruction: 'Do not tumble dry', rules: { drying: { tumble: 'none' } } },
+  tumble_low: { category: 'tumble_drying', rank: 1, instruction: 'Tumble dry low', rules: { drying: { tumble: 'low' } } },
+  tumble_normal: { category: 'tumble_drying', rank: 2, instruction: 'Tumble dry', rules: { drying: { tumble: 'normal' } } },
+
+  dry_line: { category: 'natural_drying', rank: 0, instruction: 'Line dry', rules: { drying: { natural: 'line', inShade: false } } },
+  dry_line_shade: { category: 'natural_drying', rank: 0, instruction: 'Line dry in the shade', rules: { drying: { natural: 'line', inShade: true } } },
+  dry_drip_line: { category: 'natural_drying', rank: 0, instruction: 'Drip dry', rules: { drying: { natural: 'drip_line', inShade: false } } },
+  dry_drip_line_shade: { category: 'natural_drying', rank: 0, instruction: 'Drip dry in the shade', rules: { drying: { natural: 'drip_line', inShade: true } } },
+  dry_flat: { category: 'natural_drying', rank: 0, instruction: 'Dry flat', rules: { drying: { natural: 'flat', inShade: false } } },
+  dry_flat_shade: { category: 'natural_drying', rank: 0, instruction: 'Dry flat in the shade', rules: { drying: { natural: 'flat', inShade: true } } },
+  dry_drip_flat: { category: 'natural_drying', rank: 0, instruction: 'Drip dry flat', rules: { drying: { natural: 'drip_flat', inShade: false } } },
+  dry_drip_flat_shade: { category: 'natural_drying', rank: 0, instruction: 'Drip dry flat in the shade', rules: { drying: { natural: 'drip_flat', inShade: true } } },
+
+  iron_none: { category: 'ironing', rank: 0, instruction: 'Do not iron', rules: { ironing: { allowed: false } } },
+  iron_110_no_steam: { category: 'ironing', rank: 1, instruction: 'Iron at low temperature (max 110°C) without steam', rules: { ironing: { allowed: true, maxTemperature: 110, steam: false } } },
+  iron_110: { category: 'ironing', rank: 2, instruction: 'Iron at low temperature (max 110°C)', rules: { ironing: { allowed: true, maxTemperature: 110 } } },
+  iron_150: { category: 'ironing', rank: 3, instruction: 'Iron at medium temperature (max 150°C)', rules: { ironing: { allowed: true, maxTemperature: 150 } } },
+  iron_200: { category: 'ironing', rank: 4, instruction: 'Iron at high temperature (max 200°C)', rules: { ironing: { allowed: true, maxTemperature: 200 } } },
+
+  dryclean_none: { category: 'dry_cleaning', rank: 0, instruction: 'Do not dry clean', rules: { professionalCleaning: { dryClean: 'none' } } },
+  dryclean_f_mild: { category: 'dry_cleaning', rank: 1, instruction: 'Professional dry clean in hydrocarbons (F), mild process', rules: { professionalCleaning: { dryClean: 'F', dryCleanCycle: 'mild' } } },
+  dryclean_f: { category: 'dry_cleaning', rank: 2, instruction: 'Professional dry clean in hydrocarbons (F)', rules: { professionalCleaning: { dryClean: 'F', dryCleanCycle: 'normal' } } },
+  dryclean_p_mild: { category: 'dry_cleaning', rank: 3, instruction: 'Professional dry clean (P), mild process', rules: { professionalCleaning: { dryClean: 'P', dryCleanCycle: 'mild' } } },
+  dryclean_p: { category: 'dry_cleaning', rank: 4, instruction: 'Professional dry clean (P)', rules: { professionalCleaning: { dryClean: 'P', dryCleanCycle: 'normal' } } },
+
+  wetclean_none: { category: 'wet_cleaning', rank: 0, instruction: 'Do not wet clean', rules: { professionalCleaning: { wetClean: 'none' } } },
+  wetclean_w_very_mild: { category: 'wet_cleaning', rank: 1, instruction: 'Professional wet clean, very mild process', rules: { professionalCleaning: { wetClean: 'very_mild' } } },
+  wetclean_w_mild: { category: 'wet_cleaning', rank: 2, instruction: 'Professional wet clean, mild process', rules: { professionalCleaning: { wetClean: 'mild' } } },
+  wetclean_w: { category: 'wet_cleaning', rank: 3, instruction: 'Professional wet clean', rules: { professionalCleaning: { wetClean: 'normal' } } },
+} satisfies Record<string, CareSymbolDefinition>;
+
+export type CareSymbolCode = keyof typeof CARE_SYMBOLS;
+
+const isCareSymbol = (code: string): code is CareSymbolCode => Object.prototype.hasOwnProperty.call(CARE_SYMBOLS, code);
+
+export interface CareLabelResult {
+  /** Composition of the main fabric, ready for `ItemMetadata.composition` */
+  composition: Array<{ material: ApparelMaterial; percentage: number }>;
+  parts: CompositionPart[];
+  /** Fibre names next to a percentage that do not map to a VUFS material */
+  unrecognizedMaterials: string[];
+  careSymbols: CareSymbolCode[];
+  careRules: CareRules;
+  careInstructions: string[];
+}
+
+// Fibre names (accents stripped) in PT/EN/ES/IT/FR plus the EU/ISO 2076 abbreviations
+const MATERIAL_TERMS: Record<string, ApparelMaterial> = {
+  cotton: 'Cotton', algodao: 'Cotton', algodon: 'Cotton', cotone: 'Cotton', coton: 'Cotton', co: 'Cotton',
+  polyester: 'Polyester', poliester: 'Polyester', poliestere: 'Polyester', pes: 'Polyester', pl: 'Polyester',
+  nylon: 'Nylon', nailon: 'Nylon', polyamide: 'Nylon', poliamida: 'Nylon', poliammide: 'Nylon', pa: 'Nylon',
+  wool: 'Wool', la: 'Wool', lana: 'Wool', laine: 'Wool', wo: 'Wool', wv: 'Wool',
+  silk: 'Silk', seda: 'Silk', seta: 'Silk', soie: 'Silk',
+  linen: 'Linen', flax: 'Linen', linho: 'Linen', lino: 'Linen', lin: 'Linen', li: 'Linen',
+  leather: 'Leather', couro: 'Leather', cuero: 'Leather', cuoio: 'Leather', cuir: 'Leather',
+  suede: 'Suede', camurca: 'Suede', ante: 'Suede', scamosciato: 'Suede', daim: 'Suede',
+  cashmere: 'Cashmere', caxemira: 'Cashmere', cachemira: 'Cashmere', cachemire: 'Cashmere', cashmir: 'Cashmere', ws: 'Cashmere',
+  spandex: 'Spandex',
+  elastane: 'Elastane', elastano: 'Elastane', elasthanne: 'Elastane', elastan: 'Elastane', lycra: 'Elastane', ea: 'Elastane', el: 'Elastane',
+  viscose: 'Viscose', viscosa: 'Viscose', cv: 'Viscose', vi: 'Viscose',
+  rayon: 'Rayon', raiom: 'Rayon', raion: 'Rayon',
+  acrylic: 'Acrylic', acrilico: 'Acrylic', acrilica: 'Acrylic', acrylique: 'Acrylic', pan: 'Acrylic',
+  bamboo: 'Bamboo', bambu: 'Bamboo', bambou: 'Bamboo',
+  modal: 'Modal', md: 'Modal', cmd: 'Modal',
+  tencel: 'Tencel', lyocell: 'Tencel', liocel: 'Tencel', lyocel: 'Tencel', cly: 'Tencel',
+  denim: 'Denim', canvas: 'Canvas', fleece: 'Fleece',
+};
+
+const PART_TERMS: Record<string, CompositionPartType> = {
+  shell: 'main', outer: 'main', 'main fabric': 'main', body: 'main', fabric: 'main', tecido: 'main', exterior: 'main',
+  externo: 'main', tejido: 'main', tessuto: 'main', esterno: 'main', tissu: 'main', dessus: 'main',
+  lining: 'lining', forro: 'lining', fodera: 'lining', doublure: 'lining',
+  filling: 'filling', padding: 'filling', fill: 'filling', enchimento: 'filling', recheio: 'filling', relleno: 'filling',
+  imbottitura: 'filling', rembourrage: 'filling', garnissage: 'filling', ouatine: 'filling',
+  trim: 'trim', rib: 'trim', ribbing: 'trim', ribana: 'trim', punho: 'trim', punhos: 'trim', contrast: 'trim', contraste: 'trim',
+};
+
+const alternation = (terms: string[]): string =>
+  [...terms].sort((a, b) => b.length - a.length).map(term => term.replace(/ /g, '\\s+')).join('|');
+
+const MATERIAL_PATTERN = new RegExp(`\\b(${alternation(Object.keys(MATERIAL_TERMS))})\\b`, 'g');
+// A part name is only a header when a colon follows, e.g. "forro/lining: 100% poliester"
+const PART_PATTERN = new RegExp(`\\b(${alternation(Object.keys(PART_TERMS))})\\b(?=[a-z /]{0,30}:)`, 'g');
+const PERCENT_PATTERN = /(\d{1,3}(?:[.,]\d{1,2})?)\s*%/g;
+
+// Care keywords per instruction family. Longer phrases win where they overlap,
+// so "tumble dry" and "dry clean" are never read as natural drying.
+const CARE_KEYWORDS: Array<{ family: 'wash' | 'bleach' | 'tumble' | 'dry' | 'iron' | 'professional'; pattern: RegExp }> = [
+  {
+    family: 'professional',
+    pattern: /\b(dry[\s-]?clean(?:ing)?|wet[\s-]?clean(?:ing)?|professional[\s-]clean(?:ing)?|(?:lavagem|lavar|limpeza) a seco|(?:lavado|lavar|limpieza) en seco|(?:lavaggio|pulitura|lavare) a secco|nettoy(?:age|er) (?:a sec|professionnel|a l'?eau)|limpeza a umido|limpieza en humedo|lavaggio ad umido)\b/g,
+  },
+  {
+    family: 'bleach',
+    pattern: /\b((?:non[\s-]?chlorine |oxygen )?bleach(?:ing)?|(?:alvejante|lejia|blanqueador|candeggina|candeggianti|javel)(?: (?:sem|sin|senza|sans) (?:cloro|chlore))?|alvejar|branquear|blanquear|candeggiare|blanchiment|blanchir)\b/g,
+  },
+  {
+    family: 'tumble',
+    pattern: /\b(tumble[\s-]?dry(?:ing)?|tumble|dryer|secar (?:em|na|en) maquina|(?:secar (?:em|na|en) )?secadora|maquina de secar|(?:asciugare (?:in|a) )?(?:asciugatrice|tamburo)|(?:sechage|secher) en tambour|tambour|seche[\s-]linge)\b/g,
+  },
+  {
+    family: 'iron',
+    pattern: /\b(iron(?:ing)?|passar(?: a ferro)?|passe a ferro|ferro(?: da stiro)?|planchar|plancha(?:do)?|stirare|stiratura|repasser|repassage|fer a repasser)\b/g,
+  },
+  {
+    family: 'wash',
+    pattern: /\b(machine[\s-]?wash(?:able)?|hand[\s-]?wash|wash(?:ing|able)?|lavar|lave|lavagem|lavado|lavable|lavare|lavaggio|lavabile|laver|lavage)\b/g,
+  },
+  {
+    family: 'dry',
+    pattern: /\b(drip[\s-]?dry|dry(?:ing)?|secar|seque|secagem|secado|asciugare|asciugatura|stendere|secher|sechage)\b/g,
+  },
+];
+
+// Negations written before the instruction ("do not iron", "nao lavar", "ne pas repasser")
+const NEGATION_BEFORE = /\b(do not|don'?t|never|no|not|nao|non|ne pas|pas de|nunca|jamais|evitar)\b/;
+// ... and after it ("repassage interdit", "lavagem proibida")
+const NEGATION_AFTER = /\b(interdit|proibid[oa]|prohibid[oa]|vietat[oa]|not allowed|no permitid[oa])\b/;
+const CLAUSE_BREAK = /[.;,|•\n]|\b(do not|don'?t|never|no|not|nao|non|ne pas|pas de|nunca|jamais)\b/;
+const SENTENCE_BREAK = /[.;|•\n]/;
+const PUNCTUATION = /[.;,|•\n]/g;
+
+const MILD = /\b(gentle|delicate|mild|permanent press|delicad[oa]|suave|delicat[oa]|delicat|synthetics?|sinteticos?)\b/;
+const VERY_MILD = /\b(very (?:gentle|mild)|wool (?:cycle|programme|program)|programa (?:la|lana)|ciclo (?:la|lana)|programme laine|muito delicado|muy delicado|molto delicato)\b/;
+const LOW = /\b(low|cool|baixa|baja|bassa|basse|reduced|reduzida|reducida|ridotta|reduite|moderee|tiepido|one dot|1 dot|um ponto|un punto|un point)\b/;
+const MEDIUM = /\b(medium|warm|media|medio|moyenne?|two dots|2 dots|dois pontos|dos puntos|due punti|deux points)\b/;
+const HIGH = /\b(high|hot|alta|elevata|haute|three dots|3 dots|tres pontos|tres puntos|tre punti|trois points)\b/;
+
+const WASH_TEMPERATURES = [30, 40, 50, 60, 70, 95];
+
+const normalize = (text: string): string =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/\s+/g, ' ');
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Reads care labels: fibre composition in PT/EN/ES/IT/FR and the ISO 3758
+ * care instructions, either as detected symbol codes or as the written
+ * instructions labels print next to the symbols.
+ */
+export class CareLabelService {
+  static parseLabel(text: string[], detectedSymbols: string[] = []): CareLabelResult {
+    const { parts, unrecognizedMaterials } = this.parseComposition(text);
+    const careSymbols = this.resolveSymbols([...detectedSymbols, ...this.recognizeCareText(text)]);
+    const main = parts.find(part => part.part === 'main') || parts[0];
+
+    return {
+      composition: main ? main.composition : [],
+      parts,
+      unrecognizedMaterials,
+      careSymbols,
+      careRules: this.buildCareRules(careSymbols),
+      careInstructions: this.instructionsFor(careSymbols),
+    };
+  }
+
+  /**
+   * Text lines on a care label photo, via OCR
+   */
+  static async readImageText(image: Buffer): Promise<string[]> {
+    const { textDetections } = await GoogleCloudService.analyzeImage(image);
+    // The first annotation holds the whole text; the rest repeat it word by word
+    const fullText: string = textDetections[0]?.DetectedText || '';
+    return fullText.split('\n').map(line => line.trim()).filter(Boolean);
+  }
+
+  /**
+   * Store a parsed label on a wardrobe item. The composition is replaced when
+   * the label accounts for the whole fabric or the item has none yet; care
+   * fields are replaced whenever the label had care instructions.
+   */
+  static async applyToItem(item: BackendVUFSItem, label: CareLabelResult): Promise<BackendVUFSItem | null> {
+    const metadata: any = { ...item.metadata };
+    const total = label.composition.reduce((sum, entry) => sum + entry.percentage, 0);
+
+    if (label.composition.length > 0 && (Math.abs(total - 100) < 0.5 || !metadata.composition?.length)) {
+      metadata.composition = label.composition;
+    }
+    if (label.careSymbols.length > 0) {
+      metadata.careSymbols = label.careSymbols;
+      metadata.careRules = label.careRules;
+      metadata.careInstructions = label.careInstructions;
+    }
+
+    return VUFSItemModel.update(item.id, { metadata });
+  }
+
+  static instructionsFor(symbols: string[]): string[] {
+    return this.resolveSymbols(symbols).map(code => CARE_SYMBOLS[code].instruction);
+  }
+
+  /**
+   * Composition per garment part. Labels that repeat the same composition in
+   * several languages yield it once.
+   */
+  static parseComposition(text: string[]): { parts: CompositionPart[]; unrecognizedMaterials: string[] } {
+    const normalized = normalize(text.join(' \n '));
+    const unrecognized = new Set<string>();
+    const groups: Array<{ part: CompositionPartType; composition: CompositionPart['composition'] }> = [];
+
+    for (const segment of this.splitParts(normalized)) {
+      for (const composition of this.groupByTotal(this.pairPercentages(segment.text, unrecognized))) {
+        groups.push({ part: segment.part, composition });
+      }
+    }
+
+    const seen = new Set<string>();
+    const parts: CompositionPart[] = [];
+    for (const group of groups) {
+      const key = `${group.part}:${JSON.stringify(group.composition)}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      parts.push({
+        part: parts.some(part => part.part === group.part) ? 'other' : group.part,
+        composition: group.composition,
+        total: round(group.composition.reduce((sum, entry) => sum + entry.percentage, 0)),
+      });
+    }
+
+    return { parts, unrecognizedMaterials: [...unrecognized] };
+  }
+
+  /**
+   * Care symbol codes for the written instructions found on a label
+   */
+  static recognizeCareText(text: string[]): CareSymbolCode[] {
+    const normalized = normalize(text.join(' . '));
+    const matches = this.findCareKeywords(normalized);
+    const symbols: CareSymbolCode[] = [];
+
+    matches.forEach((match, index) => {
+      const previousEnd = index > 0 ? matches[index - 1].end : 0;
+      const nextStart = index < matches.length - 1 ? matches[index + 1].start : normalized.length;
+
+      // Modifiers written before a keyword ("do not", "cool", "line") are the last
+      // few words of its clause
+      const gapBefore = normalized.slice(previousEnd, match.start);
+      const clauseStart = Math.max(0, ...[...gapBefore.matchAll(PUNCTUATION)].map(mark => mark.index! + 1));
+      const prefix = gapBefore.slice(clauseStart).trim().split(' ').slice(-4).join(' ');
+      const gapAfter = normalized.slice(match.end, nextStart);
+      const body = gapAfter.slice(0, this.breakIndex(gapAfter, CLAUSE_BREAK));
+      // Trailing qualifiers such as ", gentle cycle" or ", no steam" run to the end of the sentence
+      const sentence = gapAfter.slice(0, this.breakIndex(gapAfter, SENTENCE_BREAK));
+
+      const symbol = this.symbolFor(match.family, match.keyword, prefix, body, sentence);
+      if (symbol && isCareSymbol(symbol)) {
+        symbols.push(symbol);
+      }
+    });
+
+    return symbols;
+  }
+
+  /**
+   * Structured rules for a set of symbols, one symbol per category
+   */
+  static buildCareRules(symbols: string[]): CareRules {
+    const rules: CareRules = {};
+    for (const code of this.resolveSymbols(symbols)) {
+      const fragment: CareRules = CARE_SYMBOLS[code].rules;
+      for (const [key, value] of Object.entries(fragment)) {
+        (rules as any)[key] = { ...(rules as any)[key], ...value };
+      }
+    }
+    return rules;
+  }
+
+  /**
+   * Known codes only, keeping the most restrictive symbol of each category
+   */
+  static resolveSymbols(symbols: string[]): CareSymbolCode[] {
+    const chosen = new Map<CareSymbolCategory, CareSymbolCode>();
+    for (const code of symbols) {
+      if (!isCareSymbol(code)) continue;
+      const definition: CareSymbolDefinition = CARE_SYMBOLS[code];
+      const current = chosen.get(definition.category);
+      if (!current || definition.rank < CARE_SYMBOLS[current].rank) {
+        chosen.set(definition.category, code);
+      }
+    }
+    return [...chosen.values()];
+  }
+
+  private static splitParts(text: string): Array<{ part: CompositionPartType; text: string }> {
+    const headers = [...text.matchAll(PART_PATTERN)];
+    const segments: Array<{ part: CompositionPartType; text: string }> = [];
+
+    let part: CompositionPartType = 'main';
+    let start = 0;
+    for (const header of headers) {
+      segments.push({ part, text: text.slice(start, header.index) });
+      part = PART_TERMS[header[1].replace(/\s+/g, ' ')];
+      start = header.index! + header[0].length;
+    }
+    segments.push({ part, text: text.slice(start) });
+
+    return segments;
+  }
+
+  /**
+   * Pair each percentage with the fibre written after it ("95% algodao") or,
+   * when the label starts with a fibre, before it ("cotone 95%")
+   */
+  private static pairPercentages(text: string, unrecognized: Set<string>): Array<{ material: ApparelMaterial; percentage: number }> {
+    const percentages = [...text.matchAll(PERCENT_PATTERN)];
+    if (percentages.length === 0) {
+      return [];
+    }
+    const materials = [...text.matchAll(MATERIAL_PATTERN)];
+    const percentFirst = materials.length === 0 || percentages[0].index! < materials[0].index!;
+
+    const entries: Array<{ material: ApparelMaterial; percentage: number }> = [];
+    percentages.forEach((match, index) => {
+      const percentage = parseFloat(match[1].replace(',', '.'));
+      if (!(percentage > 0 && percentage <= 100)) return;
+
+      const end = match.index! + match[0].length;
+      const windowStart = percentFirst ? end : index > 0 ? percentages[index - 1].index! + percentages[index - 1][0].length : 0;
+      const windowEnd = percentFirst ? (percentages[index + 1]?.index ?? text.length) : match.index!;
+      const inWindow = materials.filter(material => material.index! >= windowStart && material.index! < windowEnd);
+      const material = percentFirst ? inWindow[0] : inWindow[inWindow.length - 1];
+
+      if (material) {
+        entries.push({ material: MATERIAL_TERMS[material[1].replace(/\s+/g, ' ')], percentage });
+        return;
+      }
+
+      const words = text.slice(windowStart, windowEnd).match(/[a-z]{3,}/g);
+      const word = words && (percentFirst ? words[0] : words[words.length - 1]);
+      if (word) {
+        unrecognized.add(word);
+      }
+    });
+
+    return entries;
+  }
+
+  /**
+   * Split a run of entries wherever they add up to 100%, merging repeated
+   * fibres within each group
+   */
+  private static groupByTotal(entries: Array<{ material: ApparelMaterial; percentage: number }>): CompositionPart['composition'][] {
+    const groups: CompositionPart['composition'][] = [];
+    let current: CompositionPart['composition'] = [];
+    let total = 0;
+
+    const close = () => {
+      if (current.length > 0) {
+        groups.push(current.sort((a, b) => b.percentage - a.percentage));
+      }
+      current = [];
+      total = 0;
+    };
+
+    for (const entry of entries) {
+      const existing = current.find(item => item.material === entry.material);
+      if (existing) {
+        existing.percentage = round(existing.percentage + entry.percentage);
+      } else {
+        current.push({ ...entry });
+      }
+      total += entry.percentage;
+      if (total >= 99.5) {
+        close();
+      }
+    }
+    close();
+
+    return groups;
+  }
+
+  private static findCareKeywords(text: string): Array<{ family: typeof CARE_KEYWORDS[number]['family']; keyword: string; start: number; end: number }> {
+    const found = CARE_KEYWORDS.flatMap(({ family, pattern }) =>
+      [...text.matchAll(pattern)].map(match => ({
+        family,
+        keyword: match[1],
+        start: match.index!,
+        end: match.index! + match[0].length,
+      }))
+    );
+
+    found.sort((a, b) => a.start - b.start || (b.end - b.start) - (a.end - a.start));
+    const accepted: typeof found = [];
+    for (const match of found) {
+      const last = accepted[accepted.length - 1];
+      if (!last || match.start >= last.end) {
+        accepted.push(match);
+      }
+    }
+    return accepted;
+  }
+
+  private static breakIndex(text: string, pattern: RegExp): number {
+    const match = text.match(pattern);
+    return match ? match.index! : text.length;
+  }
+
+  private static symbolFor(
+    family: typeof CARE_KEYWORDS[number]['family'],
+    keyword: string,
+    prefix: string,
+    body: string,
+    sentence: string
+  ): string | null {
+    const clause = `${keyword} ${body}`;
+    const negated = NEGATION_BEFORE.test(prefix) || NEGATION_AFTER.test(body);
+
+    switch (family) {
+      case 'wash': {
+        if (negated) return 'wash_none';
+        if (/\b(hand|a mao|a mano|a la main|main)\b/.test(clause)) return 'wash_hand';
+
+        let temperature: number | undefined;
+        const degrees = body.match(/\b(\d{2})\s*(?:°|º|graus|grados|gradi|degres)?\s*c?\b/);
+        if (degrees) {
+          const value = parseInt(degrees[1], 10);
+          temperature = WASH_TEMPERATURES.filter(level => level <= value).pop() || 30;
+        } else if (/\b(cold|fria|frio|fredda|freddo|froide?)\b/.test(body)) {
+          temperature = 30;
+        } else if (/\b(warm|morna|tibia|tiepida|tiede)\b/.test(body)) {
+          temperature = 40;
+        } else if (/\b(hot|quente|caliente|calda|chaude)\b/.test(body)) {
+          temperature = 60;
+        }
+        if (!temperature) return null;
+
+        const qualifiers = `${keyword} ${sentence}`;
+        const cycle = VERY_MILD.test(qualifiers) ? '_very_mild' : MILD.test(qualifiers) ? '_mild' : '';
+        const code = `wash_${temperature}${cycle}`;
+        return isCareSymbol(code) ? code : `wash_${temperature}`;
+      }
+
+      case 'bleach': {
+        if (/\b(non[\s-]?chlorine|oxygen|oxigenio|oxigeno|ossigen\w*|sem cloro|sin cloro|senza cloro|sans chlore)\b/.test(`${prefix} ${clause}`)) {
+          return 'bleach_oxygen';
+        }
+        if (negated) return 'bleach_none';
+        if (/\b(when needed|any|if needed|se necessario|si es necesario|si necessaire|permitido|allowed)\b/.test(body)) {
+          return 'bleach_any';
+        }
+        return null;
+      }
+
+      case 'tumble': {
+        if (negated) return 'tumble_none';
+        return LOW.test(body) ? 'tumble_low' : 'tumble_normal';
+      }
+
+      case 'dry': {
+        const shade = /\b(shade|sombra|ombra|ombre)\b/.test(`${prefix} ${body}`) || (negated && /\b(sun|sunlight|sol|sole|soleil)\b/.test(body));
+        if (negated && !shade) return null;
+
+        const context = `${prefix} ${clause}`;
+        const drip = /\b(drip|pingando|gotejando|goteando|sgocciolare|egoutter|egouttage)\b/.test(context);
+        const flat = /\b(flat|horizontal|plan[oa]|piano|a plat)\b/.test(context);
+        const line = /\b(line|hang|hanging|varal|pendurad[oa]|colgad[oa]|tendedero|appes[oa]|fil|cintre|cabide|hanger)\b/.test(context);
+        if (!drip && !flat && !line && !shade) return null;
+
+        return `dry_${drip ? 'drip_' : ''}${flat ? 'flat' : 'line'}${shade ? '_shade' : ''}`;
+      }
+
+      case 'iron': {
+        if (negated) return 'iron_none';
+        const context = `${prefix} ${body}`;
+        const degrees = body.match(/\b(110|150|200)\b/);
+        const temperature = degrees ? parseInt(degrees[1], 10)
+          : LOW.test(context) ? 110
+            : MEDIUM.test(context) ? 150
+              : HIGH.test(context) ? 200
+                : undefined;
+        if (!temperature) return null;
+        if (temperature === 110 && /\b(no steam|without steam|sem vapor|sin vapor|senza vapore|sans vapeur)\b/.test(sentence)) {
+          return 'iron_110_no_steam';
+        }
+        return `iron_${temperature}`;
+      }
+
+      case 'professional': {
+        const wet = /\b(wet|umido|humedo|ad umido|a l'?eau)\b/.test(keyword);
+        if (wet) {
+          if (negated) return 'wetclean_none';
+          return VERY_MILD.test(sentence) ? 'wetclean_w_very_mild' : MILD.test(sentence) ? 'wetclean_w_mild' : 'wetclean_w';
+        }
+        if (negated) return 'dryclean_none';
+        const solvent = /\b(f|hydrocarbons?|hidrocarbonetos?|hidrocarburos?|idrocarburi|hydrocarbures?)\b/.test(body) ? 'f' : 'p';
+        return `dryclean_${solvent}${MILD.test(sentence) ? '_mild' : ''}`;
+      }
+
+      default:
+        return null;
+    }
+  }
+}
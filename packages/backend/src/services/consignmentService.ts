@@ -0,0 +1,809 @@
+import { db } from '../database/connection';
+import { Transaction } from '../types/shared';
+import { ConsignmentSettings, ExportPlatform } from '@vangarments/shared/types/vufs';
+import { DEFAULT_CONSIGNMENT_SETTINGS } from '../utils/vufs';
+
+export type ConsignmentItemStatus = 'consigned' | 'listed' | 'sold' | 'returned';
+export type ConsignmentStatementStatus = 'issued' | 'paid';
+
+/**
+ * A consignor is either a registered supplier or a platform user
+ */
+export interface Consignor {
+  supplierId?: string;
+  ownerUserId?: string;
+}
+
+export interface CommissionRule extends Consignor {
+  id: string;
+  storeOwnerId: string;
+  name: string;
+  commissionRate: number;
+  category?: string;
+  brand?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  priority: number;
+  createdAt: Date;
+}
+
+export interface ConsignmentItem extends Consignor {
+  id: string;
+  storeOwnerId: string;
+  vufsItemId?: string;
+  itemSku: string;
+  title: string;
+  brand?: string;
+  category?: string;
+  askingPrice: number;
+  minimumPrice?: number;
+  commissionRate?: number;
+  status: ConsignmentItemStatus;
+  soldPrice?: number;
+  salePlatform?: string;
+  transactionId?: string;
+  notes?: string;
+  consignedAt: Date;
+  soldAt?: Date;
+  returnedAt?: Date;
+  updatedAt: Date;
+}
+
+export interface ConsignmentSaleBreakdown {
+  soldPrice: number;
+  platformFee: number;
+  commissionRate: number;
+  commission: number;
+  amountToOwner: number;
+}
+
+export interface ConsignmentStatementLine {
+  itemSku: string;
+  title: string;
+  soldAt: Date;
+  salePlatform?: string;
+  soldPrice: number;
+  platformFee: number;
+  commissionRate: number;
+  commission: number;
+  amountToOwner: number;
+}
+
+export interface ConsignmentStatement extends Consignor {
+  id: string;
+  storeOwnerId: string;
+  consignorName?: string;
+  periodStart: Date;
+  periodEnd: Date;
+  itemCount: number;
+  totalSales: number;
+  totalPlatformFees: number;
+  totalCommission: number;
+  amountToOwner: number;
+  status: ConsignmentStatementStatus;
+  issuedAt: Date;
+  paidAt?: Date;
+  lines?: ConsignmentStatementLine[];
+}
+
+export interface RepassSummary extends Consignor {
+  consignorName?: string;
+  itemCount: number;
+  outstanding: number;
+  oldestSaleAt: Date;
+  due: boolean;
+}
+
+const roundMoney = (value: number): number => Math.round(value * 100) / 100;
+
+const toNumber = (value: any): number | undefined =>
+  value === null || value === undefined ? undefined : parseFloat(value);
+
+export class ConsignmentService {
+  /**
+   * Store owner settings merged over the platform defaults
+   */
+  static async getSettings(storeOwnerId: string): Promise<ConsignmentSettings> {
+    const result = await db.query('SELECT * FROM consignment_settings WHERE store_owner_id = $1', [storeOwnerId]);
+    const row = result.rows[0];
+    if (!row) {
+      return DEFAULT_CONSIGNMENT_SETTINGS;
+    }
+
+    return {
+      defaultCommissionRate: toNumber(row.default_commission_rate) ?? DEFAULT_CONSIGNMENT_SETTINGS.defaultCommissionRate,
+      platformFeeRates: { ...DEFAULT_CONSIGNMENT_SETTINGS.platformFeeRates, ...(row.platform_fee_rates || {}) },
+      paymentTerms: row.payment_terms ?? DEFAULT_CONSIGNMENT_SETTINGS.paymentTerms,
+      minimumPayout: toNumber(row.minimum_payout) ?? DEFAULT_CONSIGNMENT_SETTINGS.minimumPayout,
+      autoRepassThreshold: toNumber(row.auto_repass_threshold) ?? DEFAULT_CONSIGNMENT_SETTINGS.autoRepassThreshold,
+    };
+  }
+
+  static async updateSettings(storeOwnerId: string, updates: Partial<ConsignmentSettings>): Promise<ConsignmentSettings> {
+    if (updates.defaultCommissionRate !== undefined && (updates.defaultCommissionRate < 0 || updates.defaultCommissionRate > 1)) {
+      throw new Error('Commission rate must be between 0 and 1');
+    }
+
+    await db.query(
+      `INSERT INTO consignment_settings (
+        store_owner_id, default_commission_rate, platform_fee_rates, payment_terms, minimum_payout, auto_repass_threshold
+      ) VALUES ($1, $2, $3, $4, $5, $6)
+      ON CONFLICT (store_owner_id) DO UPDATE SET
+        default_commission_rate = COALESCE(EXCLUDED.default_commission_rate, consignment_settings.default_commission_rate),
+        platform_fee_rates = consignment_settings.platform_fee_rates || EXCLUDED.platform_fee_rates,
+        payment_terms = COALESCE(EXCLUDED.payment_terms, consignment_settings.payment_terms),
+        minimum_payout = COALESCE(EXCLUDED.minimum_payout, consignment_settings.minimum_payout),
+        auto_repass_threshold = COALESCE(EXCLUDED.auto_repass_threshold, consignment_settings.auto_repass_threshold),
+        updated_at = NOW()`,
+      [
+        storeOwnerId,
+        updates.defaultCommissionRate ?? null,
+        JSON.stringify(updates.platformFeeRates || {}),
+        updates.paymentTerms ?? null,
+        updates.minimumPayout ?? null,
+        updates.autoRepassThreshold ?? null,
+      ]
+    );
+
+    return this.getSettings(storeOwnerId);
+  }
+
+  /**
+   * Commission rate for an item: the item's own rate, then the highest-priority
+   * matching rule (more specific rules win ties), then the default rate
+   */
+  static resolveCommissionRate(
+    item: Pick<ConsignmentItem, 'commissionRate' | 'supplierId' | 'ownerUserId' | 'category' | 'brand' | 'askingPrice'>,
+    rules: CommissionRule[],
+    settings: ConsignmentSettings = DEFAULT_CONSIGNMENT_SETTINGS,
+    price: number = item.askingPrice
+  ): number {
+    if (item.commissionRate !== undefined && item.commissionRate !== null) {
+      return item.commissionRate;
+    }
+
+    const matches = rules.filter(rule =>
+      (!rule.supplierId || rule.supplierId === item.supplierId) &&
+      (!rule.ownerUserId || rule.ownerUserId === item.ownerUserId) &&
+      (!rule.category || rule.category.toLowerCase() === (item.category || '').toLowerCase()) &&
+      (!rule.brand || rule.brand.toLowerCase() === (item.brand || '').toLowerCase()) &&
+      (rule.minPrice === undefined || price >= rule.minPrice) &&
+      (rule.maxPrice === undefined || price <= rule.maxPrice)
+    );
+    if (matches.length === 0) {
+      return settings.defaultCommissionRate;
+    }
+
+    const specificity = (rule: CommissionRule) =>
+      [rule.supplierId || rule.ownerUserId, rule.category, rule.brand, rule.minPrice ?? rule.maxPrice]
+        .filter(value => value !== undefined).length;
+
+    matches.sort((a, b) => b.priority - a.priority || specificity(b) - specificity(a));
+    return matches[0].commissionRate;
+  }
+
+  /**
+   * Platform fee charged by the sales channel. Sales outside the export
+   * platforms (in store, Vangarments marketplace) carry no channel fee here.
+   */
+  static getPlatformFee(
+    soldPrice: number,
+    platform: string,
+    settings: ConsignmentSettings = DEFAULT_CONSIGNMENT_SETTINGS
+  ): number {
+    const rate = settings.platformFeeRates[platform as ExportPlatform] || 0;
+    return roundMoney(soldPrice * rate);
+  }
+
+  /**
+   * Split a sale: commission is taken after platform fees, the rest is repassed to the owner
+   */
+  static calculateSale(soldPrice: number, platformFee: number, commissionRate: number): ConsignmentSaleBreakdown {
+    const afterFees = Math.max(0, soldPrice - platformFee);
+    const commission = roundMoney(afterFees * commissionRate);
+
+    return {
+      soldPrice: roundMoney(soldPrice),
+      platformFee: roundMoney(platformFee),
+      commissionRate,
+      commission,
+      amountToOwner: roundMoney(afterFees - commission),
+    };
+  }
+
+  /**
+   * A consignor's balance is due once it reaches the auto-repass threshold or
+   * its oldest unpaid sale is past the payment terms
+   */
+  static isRepassDue(
+    outstanding: number,
+    oldestSaleAt: Date,
+    settings: ConsignmentSettings = DEFAULT_CONSIGNMENT_SETTINGS,
+    now: Date = new Date()
+  ): boolean {
+    if (outstanding <= 0) {
+      return false;
+    }
+    if (outstanding >= settings.autoRepassThreshold) {
+      return true;
+    }
+
+    const ageDays = (now.getTime() - new Date(oldestSaleAt).getTime()) / (24 * 60 * 60 * 1000);
+    return ageDays >= settings.paymentTerms && outstanding >= settings.minimumPayout;
+  }
+
+  // Commission rules
+
+  static async getRules(storeOwnerId: string): Promise<CommissionRule[]> {
+    const result = await db.query(
+      'SELECT * FROM consignment_commission_rules WHERE store_owner_id = $1 ORDER BY priority DESC, created_at ASC',
+      [storeOwnerId]
+    );
+    return result.rows.map(row => this.mapToRule(row));
+  }
+
+  static async createRule(
+    storeOwnerId: string,
+    rule: Omit<CommissionRule, 'id' | 'storeOwnerId' | 'createdAt' | 'priority'> & { priority?: number }
+  ): Promise<CommissionRule> {
+    if (!rule.name || rule.commissionRate === undefined) {
+      throw new Error('Rule name and commission rate are required');
+    }
+    if (rule.commissionRate < 0 || rule.commissionRate > 1) {
+      throw new Error('Commission rate must be between 0 and 1');
+    }
+
+    const result = await db.query(
+      `INSERT INTO consignment_commission_rules (
+        store_owner_id, name, commission_rate, supplier_id, owner_user_id, category, brand, min_price, max_price, priority
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+      RETURNING *`,
+      [
+        storeOwnerId,
+        rule.name,
+        rule.commissionRate,
+        rule.supplierId || null,
+        rule.ownerUserId || null,
+        rule.category || null,
+        rule.brand || null,
+        rule.minPrice ?? null,
+        rule.maxPrice ?? null,
+        rule.priority ?? 0,
+      ]
+    );
+    return this.mapToRule(result.rows[0]);
+  }
+
+  static async deleteRule(storeOwnerId: string, ruleId: string): Promise<boolean> {
+    const result = await db.query(
+      'DELETE FROM consignment_commission_rules WHERE id = $1 AND store_owner_id = $2',
+      [ruleId, storeOwnerId]
+    );
+    return (result.rowCount || 0) > 0;
+  }
+
+  // Consigned items
+
+  static async registerItem(
+    storeOwnerId: string,
+    data: Consignor & {
+      vufsItemId?: string;
+      itemSku: string;
+      title: string;
+      brand?: string;
+      category?: string;
+      askingPrice: number;
+      minimumPrice?: number;
+      commissionRate?: number;
+      notes?: string;
+    }
+  ): Promise<ConsignmentItem> {
+    if (!data.supplierId && !data.ownerUserId) {
+      throw new Error('A supplier or owner is required for consigned items');
+    }
+    if (!data.itemSku || !data.title || !(data.askingPrice > 0)) {
+      throw new Error('SKU, title and asking price are required');
+    }
+    if (data.commissionRate !== undefined && (data.commissionRate < 0 || data.commissionRate > 1)) {
+      throw new Error('Commission rate must be between 0 and 1');
+    }
+
+    const result = await db.query(
+      `INSERT INTO consignment_items (
+        store_owner_id, vufs_item_id, item_sku, title, brand, category, supplier_id, owner_user_id,
+        asking_price, minimum_price, commission_rate, notes
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+      RETURNING *`,
+      [
+        storeOwnerId,
+        data.vufsItemId || null,
+        data.itemSku,
+        data.title,
+        data.brand || null,
+        data.category || null,
+        data.supplierId || null,
+        data.ownerUserId || null,
+        data.askingPrice,
+        data.minimumPrice ?? null,
+        data.commissionRate ?? null,
+        data.notes || null,
+      ]
+    );
+    return this.mapToItem(result.rows[0]);
+  }
+
+  static async getItem(storeOwnerId: string, itemId: string): Promise<ConsignmentItem | null> {
+    const result = await db.query(
+      'SELECT * FROM consignment_items WHERE id = $1 AND store_owner_id = $2',
+      [itemId, storeOwnerId]
+    );
+    return result.rows.length > 0 ? this.mapToItem(result.rows[0]) : null;
+  }
+
+  static async listItems(
+    storeOwnerId: string,
+    filters: Consignor & { status?: ConsignmentItemStatus } = {},
+    limit: number = 50,
+    offset: number = 0
+  ): Promise<{ items: ConsignmentItem[]; total: number }> {
+    const conditions = ['store_owner_id = $1'];
+    const params: any[] = [storeOwnerId];
+
+    if (filters.status) {
+      params.push(filters.status);
+      conditions.push(`status = $${params.length}`);
+    }
+    if (filters.supplierId) {
+      params.push(filters.supplierId);
+      conditions.push(`supplier_id = $${params.length}`);
+    }
+    if (filters.ownerUserId) {
+      params.push(filters.ownerUserId);
+      conditions.push(`owner_user_id = $${params.length}`);
+    }
+
+    const where = conditions.join(' AND ');
+    const countResult = await db.query(`SELECT COUNT(*) FROM consignment_items WHERE ${where}`, params);
+    const result = await db.query(
+      `SELECT * FROM consignment_items WHERE ${where}
+       ORDER BY consigned_at DESC
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, limit, offset]
+    );
+
+    return {
+      items: result.rows.map(row => this.mapToItem(row)),
+      total: parseInt(countResult.rows[0].count),
+    };
+  }
+
+  static async updateItemStatus(
+    storeOwnerId: string,
+    itemId: string,
+    status: Extract<ConsignmentItemStatus, 'consigned' | 'listed' | 'returned'>
+  ): Promise<ConsignmentItem> {
+    const result = await db.query(
+      `UPDATE consignment_items
+       SET status = $1,
+           returned_at = CASE WHEN $1 = 'returned' THEN NOW() ELSE NULL END,
+           updated_at = NOW()
+       WHERE id = $2 AND store_owner_id = $3 AND status <> 'sold'
+       RETURNING *`,
+      [status, itemId, storeOwnerId]
+    );
+    if (result.rows.length === 0) {
+      throw new Error('Consigned item not found or already sold');
+    }
+    return this.mapToItem(result.rows[0]);
+  }
+
+  /**
+   * Mark a consigned item as sold and record the owner's share as a FinancialRecord
+   */
+  static async recordSale(
+    storeOwnerId: string,
+    itemId: string,
+    sale: {
+      soldPrice: number;
+      platform: string;
+      platformFee?: number;
+      paymentMethod?: string;
+      transactionId?: string;
+    }
+  ): Promise<{ item: ConsignmentItem; breakdown: ConsignmentSaleBreakdown }> {
+    if (!(sale.soldPrice > 0)) {
+      throw new Error('Sold price must be greater than zero');
+    }
+
+    const settings = await this.getSettings(storeOwnerId);
+    const rules = await this.getRules(storeOwnerId);
+
+    return db.transaction(async client => {
+      const locked = await client.query(
+        'SELECT * FROM consignment_items WHERE id = $1 AND store_owner_id = $2 FOR UPDATE',
+        [itemId, storeOwnerId]
+      );
+      if (locked.rows.length === 0) {
+        throw new Error('Consigned item not found');
+      }
+
+      const item = this.mapToItem(locked.rows[0]);
+      if (item.status === 'sold' || item.status === 'returned') {
+        throw new Error(`Consigned item is already ${item.status}`);
+      }
+
+      const commissionRate = this.resolveCommissionRate(item, rules, settings, sale.soldPrice);
+      const platformFee = sale.platformFee ?? this.getPlatformFee(sale.soldPrice, sale.platform, settings);
+      const breakdown = this.calculateSale(sale.soldPrice, platformFee, commissionRate);
+
+      await client.query(
+        `INSERT INTO financial_records (
+          item_sku, owner_id, supplier_id, original_price, sold_price, commission_rate, platform_fees,
+          net_amount, amount_to_owner, commission_amount, payment_method, consignment_item_id,
+          store_owner_id, sale_platform
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)`,
+        [
+          item.itemSku,
+          item.ownerUserId || null,
+          item.supplierId || null,
+          item.askingPrice,
+          breakdown.soldPrice,
+          commissionRate,
+          breakdown.platformFee,
+          roundMoney(breakdown.soldPrice - breakdown.platformFee),
+          breakdown.amountToOwner,
+          breakdown.commission,
+          sale.paymentMethod || null,
+          item.id,
+          storeOwnerId,
+          sale.platform,
+        ]
+      );
+
+      const updated = await client.query(
+        `UPDATE consignment_items
+         SET status = 'sold', sold_price = $1, sale_platform = $2, transaction_id = $3,
+             sold_at = NOW(), updated_at = NOW()
+         WHERE id = $4
+         RETURNING *`,
+        [breakdown.soldPrice, sale.platform, sale.transactionId || null, item.id]
+      );
+
+      return { item: this.mapToItem(updated.rows[0]), breakdown };
+    });
+  }
+
+  /**
+   * Record the consignor's share when a marketplace sale of a consigned item completes.
+   * Marketplace and payment fees are those already taken from the seller's escrow.
+   */
+  static async recordMarketplaceSale(
+    transaction: Transaction,
+    fees: { platformFee: number; paymentFee: number }
+  ): Promise<ConsignmentItem | null> {
+    const result = await db.query(
+      `SELECT ci.id
+       FROM consignment_items ci
+       JOIN marketplace_listings ml ON ml.item_id = ci.vufs_item_id
+       WHERE ml.id = $1 AND ci.store_owner_id = $2 AND ci.status IN ('consigned', 'listed')
+       LIMIT 1`,
+      [transaction.listingId, transaction.sellerId]
+    );
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const { item } = await this.recordSale(transaction.sellerId, result.rows[0].id, {
+      soldPrice: transaction.amount - (transaction.fees?.shippingFee || 0),
+      platform: 'vangarments',
+      platformFee: roundMoney(fees.platformFee + fees.paymentFee),
+      paymentMethod: transaction.paymentMethod,
+      transactionId: transaction.id,
+    });
+    return item;
+  }
+
+  /**
+   * Outstanding (not yet repassed) balances per consignor
+   */
+  static async getRepassSummary(storeOwnerId: string, now: Date = new Date()): Promise<RepassSummary[]> {
+    const settings = await this.getSettings(storeOwnerId);
+    const result = await db.query(
+      `SELECT fr.supplier_id, fr.owner_id,
+              COALESCE(s.name, u.profile->>'name', u.username) AS consignor_name,
+              COUNT(*) AS item_count,
+              SUM(fr.amount_to_owner) AS outstanding,
+              MIN(fr.sold_at) AS oldest_sale_at
+       FROM financial_records fr
+       LEFT JOIN suppliers s ON s.id = fr.supplier_id
+       LEFT JOIN users u ON u.id = fr.owner_id
+       WHERE fr.store_owner_id = $1 AND fr.consignment_item_id IS NOT NULL AND fr.repass_status = false
+       GROUP BY fr.supplier_id, fr.owner_id, s.name, u.profile, u.username
+       ORDER BY outstanding DESC`,
+      [storeOwnerId]
+    );
+
+    return result.rows.map(row => {
+      const outstanding = parseFloat(row.outstanding);
+      return {
+        supplierId: row.supplier_id || undefined,
+        ownerUserId: row.owner_id || undefined,
+        consignorName: row.consignor_name || undefined,
+        itemCount: parseInt(row.item_count),
+        outstanding,
+        oldestSaleAt: row.oldest_sale_at,
+        due: this.isRepassDue(outstanding, row.oldest_sale_at, settings, now),
+      };
+    });
+  }
+
+  // Repass statements
+
+  /**
+   * Group a month's unstatemented sales into one statement per consignor.
+   * Sales recorded late for a month that already has a statement are added to it.
+   */
+  static async generateMonthlyStatements(storeOwnerId: string, year: number, month: number): Promise<ConsignmentStatement[]> {
+    if (!Number.isInteger(year) || !Number.isInteger(month) || month < 1 || month > 12) {
+      throw new Error('Invalid statement period');
+    }
+
+    const periodStart = new Date(Date.UTC(year, month - 1, 1));
+    const nextPeriod = new Date(Date.UTC(year, month, 1));
+    const periodEnd = new Date(nextPeriod.getTime() - 24 * 60 * 60 * 1000);
+
+    return db.transaction(async client => {
+      const groups = await client.query(
+        `SELECT supplier_id, owner_id,
+                COUNT(*) AS item_count,
+                SUM(sold_price) AS total_sales,
+                SUM(platform_fees) AS total_platform_fees,
+                SUM(COALESCE(commission_amount, 0)) AS total_commission,
+                SUM(amount_to_owner) AS amount_to_owner
+         FROM financial_records
+         WHERE store_owner_id = $1 AND consignment_item_id IS NOT NULL AND statement_id IS NULL
+           AND sold_at >= $2 AND sold_at < $3
+         GROUP BY supplier_id, owner_id`,
+        [storeOwnerId, periodStart, nextPeriod]
+      );
+
+      const statementIds: string[] = [];
+      for (const group of groups.rows) {
+        const existing = await client.query(
+          `SELECT id FROM consignment_statements
+           WHERE store_owner_id = $1 AND supplier_id IS NOT DISTINCT FROM $2
+             AND owner_user_id IS NOT DISTINCT FROM $3 AND period_start = $4
+           FOR UPDATE`,
+          [storeOwnerId, group.supplier_id, group.owner_id, periodStart]
+        );
+
+        let statementId: string;
+        if (existing.rows.length > 0) {
+          statementId = existing.rows[0].id;
+          await client.query(
+            `UPDATE consignment_statements
+             SET item_count = item_count + $1,
+                 total_sales = total_sales + $2,
+                 total_platform_fees = total_platform_fees + $3,
+                 total_commission = total_commission + $4,
+                 amount_to_owner = amount_to_owner + $5,
+                 status = 'issued',
+                 paid_at = NULL
+             WHERE id = $6`,
+            [
+              group.item_count,
+              group.total_sales,
+              group.total_platform_fees,
+              group.total_commission,
+              group.amount_to_owner,
+              statementId,
+            ]
+          );
+        } else {
+          const inserted = await client.query(
+            `INSERT INTO consignment_statements (
+              store_owner_id, supplier_id, owner_user_id, period_start, period_end, item_count,
+              total_sales, total_platform_fees, total_commission, amount_to_owner
+            ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+            RETURNING id`,
+            [
+              storeOwnerId,
+              group.supplier_id,
+              group.owner_id,
+              periodStart,
+              periodEnd,
+              group.item_count,
+              group.total_sales,
+              group.total_platform_fees,
+              group.total_commission,
+              group.amount_to_owner,
+            ]
+          );
+          statementId = inserted.rows[0].id;
+        }
+
+        await client.query(
+          `UPDATE financial_records SET statement_id = $1
+           WHERE store_owner_id = $2 AND consignment_item_id IS NOT NULL AND statement_id IS NULL
+             AND supplier_id IS NOT DISTINCT FROM $3 AND owner_id IS NOT DISTINCT FROM $4
+             AND sold_at >= $5 AND sold_at < $6`,
+          [statementId, storeOwnerId, group.supplier_id, group.owner_id, periodStart, nextPeriod]
+        );
+        statementIds.push(statementId);
+      }
+
+      if (statementIds.length === 0) {
+        return [];
+      }
+
+      const statements = await client.query(
+        `${this.statementSelect} WHERE cs.id = ANY($1) ORDER BY consignor_name`,
+        [statementIds]
+      );
+      return statements.rows.map(row => this.mapToStatement(row));
+    });
+  }
+
+  static async listStatements(
+    storeOwnerId: string,
+    filters: Consignor & { status?: ConsignmentStatementStatus } = {},
+    limit: number = 50,
+    offset: number = 0
+  ): Promise<ConsignmentStatement[]> {
+    const conditions = ['cs.store_owner_id = $1'];
+    const params: any[] = [storeOwnerId];
+
+    if (filters.status) {
+      params.push(filters.status);
+      conditions.push(`cs.status = $${params.length}`);
+    }
+    if (filters.supplierId) {
+      params.push(filters.supplierId);
+      conditions.push(`cs.supplier_id = $${params.length}`);
+    }
+    if (filters.ownerUserId) {
+      params.push(filters.ownerUserId);
+      conditions.push(`cs.owner_user_id = $${params.length}`);
+    }
+
+    const result = await db.query(
+      `${this.statementSelect} WHERE ${conditions.join(' AND ')}
+       ORDER BY cs.period_start DESC, consignor_name
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, limit, offset]
+    );
+    return result.rows.map(row => this.mapToStatement(row));
+  }
+
+  /**
+   * Statement with its sale lines. Consignor users can read their own statements.
+   */
+  static async getStatement(statementId: string, userId: string): Promise<ConsignmentStatement | null> {
+    const result = await db.query(
+      `${this.statementSelect} WHERE cs.id = $1 AND (cs.store_owner_id = $2 OR cs.owner_user_id = $2)`,
+      [statementId, userId]
+    );
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const statement = this.mapToStatement(result.rows[0]);
+    const lines = await db.query(
+      `SELECT fr.item_sku, ci.title, fr.sold_at, fr.sale_platform, fr.sold_price, fr.platform_fees,
+              fr.commission_rate, fr.commission_amount, fr.amount_to_owner
+       FROM financial_records fr
+       JOIN consignment_items ci ON ci.id = fr.consignment_item_id
+       WHERE fr.statement_id = $1
+       ORDER BY fr.sold_at ASC`,
+      [statementId]
+    );
+
+    statement.lines = lines.rows.map(row => ({
+      itemSku: row.item_sku,
+      title: row.title,
+      soldAt: row.sold_at,
+      salePlatform: row.sale_platform || undefined,
+      soldPrice: parseFloat(row.sold_price),
+      platformFee: parseFloat(row.platform_fees),
+      commissionRate: parseFloat(row.commission_rate),
+      commission: parseFloat(row.commission_amount || 0),
+      amountToOwner: parseFloat(row.amount_to_owner),
+    }));
+    return statement;
+  }
+
+  /**
+   * Record that the statement was repassed to the consignor
+   */
+  static async markStatementPaid(storeOwnerId: string, statementId: string): Promise<ConsignmentStatement> {
+    return db.transaction(async client => {
+      const updated = await client.query(
+        `UPDATE consignment_statements SET status = 'paid', paid_at = NOW()
+         WHERE id = $1 AND store_owner_id = $2 AND status = 'issued'
+         RETURNING id`,
+        [statementId, storeOwnerId]
+      );
+      if (updated.rows.length === 0) {
+        throw new Error('Issued statement not found');
+      }
+
+      await client.query(
+        `UPDATE financial_records SET repass_status = true, repass_date = NOW()
+         WHERE statement_id = $1 AND repass_status = false`,
+        [statementId]
+      );
+
+      const result = await client.query(`${this.statementSelect} WHERE cs.id = $1`, [statementId]);
+      return this.mapToStatement(result.rows[0]);
+    });
+  }
+
+  private static readonly statementSelect = `
+    SELECT cs.*, COALESCE(s.name, u.profile->>'name', u.username) AS consignor_name
+    FROM consignment_statements cs
+    LEFT JOIN suppliers s ON s.id = cs.supplier_id
+    LEFT JOIN users u ON u.id = cs.owner_user_id`;
+
+  private static mapToRule(row: any): CommissionRule {
+    return {
+      id: row.id,
+      storeOwnerId: row.store_owner_id,
+      name: row.name,
+      commissionRate: parseFloat(row.commission_rate),
+      supplierId: row.supplier_id || undefined,
+      ownerUserId: row.owner_user_id || undefined,
+      category: row.category || undefined,
+      brand: row.brand || undefined,
+      minPrice: toNumber(row.min_price),
+      maxPrice: toNumber(row.max_price),
+      priority: row.priority,
+      createdAt: row.created_at,
+    };
+  }
+
+  private static mapToItem(row: any): ConsignmentItem {
+    return {
+      id: row.id,
+      storeOwnerId: row.store_owner_id,
+      vufsItemId: row.vufs_item_id || undefined,
+      itemSku: row.item_sku,
+      title: row.title,
+      brand: row.brand || undefined,
+      category: row.category || undefined,
+      supplierId: row.supplier_id || undefined,
+      ownerUserId: row.owner_user_id || undefined,
+      askingPrice: parseFloat(row.asking_price),
+      minimumPrice: toNumber(row.minimum_price),
+      commissionRate: toNumber(row.commission_rate),
+      status: row.status,
+      soldPrice: toNumber(row.sold_price),
+      salePlatform: row.sale_platform || undefined,
+      transactionId: row.transaction_id || undefined,
+      notes: row.notes || undefined,
+      consignedAt: row.consigned_at,
+      soldAt: row.sold_at || undefined,
+      returnedAt: row.returned_at || undefined,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  private static mapToStatement(row: any): ConsignmentStatement {
+    return {
+      id: row.id,
+      storeOwnerId: row.store_owner_id,
+      supplierId: row.supplier_id || undefined,
+      ownerUserId: row.owner_user_id || undefined,
+      consignorName: row.consignor_name || undefined,
+      periodStart: row.period_start,
+      periodEnd: row.period_end,
+      itemCount: parseInt(row.item_count),
+      totalSales: parseFloat(row.total_sales),
+      totalPlatformFees: parseFloat(row.total_platform_fees),
+      totalCommission: parseFloat(row.total_commission),
+      amountToOwner: parseFloat(row.amount_to_owner),
+      status: row.status,
+      issuedAt: row.issued_at,
+      paidAt: row.paid_at || undefined,
+    };
+  }
+}
@@ -0,0 +1,581 @@
+import { PoolClient } from 'pg';
+import { db } from '../database/connection';
+import { Transaction } from '../types/shared';
+import { ConsignmentSettings } from '@vangarments/shared/types/vufs';
+import { DEFAULT_CONSIGNMENT_SETTINGS } from '../utils/vufs';
+
+export type LedgerAccountType = 'provider_clearing' | 'escrow' | 'platform_revenue' | 'seller_balance';
+export type LedgerEntryType = 'hold' | 'release' | 'refund' | 'payout';
+export type EscrowStatus = 'held' | 'disputed' | 'released' | 'refunded';
+export type PayoutStatus = 'pending' | 'paid' | 'failed';
+
+export interface LedgerAccountRef {
+  ownerType: 'platform' | 'user';
+  ownerId?: string;
+  accountType: LedgerAccountType;
+}
+
+export interface LedgerPosting {
+  account: LedgerAccountRef;
+  direction: 'debit' | 'credit';
+  amount: number;
+}
+
+export interface Escrow {
+  id: string;
+  transactionId: string;
+  sellerId: string;
+  buyerId: string;
+  status: EscrowStatus;
+  amount: number;
+  platformFee: number;
+  paymentFee: number;
+  sellerNet: number;
+  refundedAmount: number;
+  currency: string;
+  releaseAfter?: Date;
+  disputeReason?: string;
+  heldAt: Date;
+  releasedAt?: Date;
+}
+
+export interface SellerBalance {
+  sellerId: string;
+  currency: string;
+  available: number;
+  pending: number;
+  paidOut: number;
+  minimumPayout: number;
+}
+
+export interface SellerPayout {
+  id: string;
+  sellerId: string;
+  amount: number;
+  currency: string;
+  status: PayoutStatus;
+  method: string;
+  destination: any;
+  reference?: string;
+  requestedAt: Date;
+  paidAt?: Date;
+}
+
+const PROVIDER_CLEARING: LedgerAccountRef = { ownerType: 'platform', accountType: 'provider_clearing' };
+const ESCROW: LedgerAccountRef = { ownerType: 'platform', accountType: 'escrow' };
+const PLATFORM_REVENUE: LedgerAccountRef = { ownerType: 'platform', accountType: 'platform_revenue' };
+
+const sellerBalanceAccount = (sellerId: string): LedgerAccountRef => ({
+  ownerType: 'user',
+  ownerId: sellerId,
+  accountType: 'seller_balance',
+});
+
+const roundMoney = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Escrow and split-payout ledger for marketplace transactions.
+ *
+ * Every money movement is a balanced journal entry:
+ * - hold:    provider clearing -> escrow (buyer's payment captured)
+ * - release: escrow -> seller balance + platform revenue + provider fee
+ * - refund:  escrow -> provider clearing (returned to the buyer)
+ * - payout:  seller balance -> provider clearing (transferred to the seller)
+ */
+export class EscrowLedgerService {
+  static buildHoldPostings(amount: number): LedgerPosting[] {
+    return [
+      { account: PROVIDER_CLEARING, direction: 'debit', amount: roundMoney(amount) },
+      { account: ESCROW, direction: 'credit', amount: roundMoney(amount) },
+    ];
+  }
+
+  static buildReleasePostings(escrow: Pick<Escrow, 'sellerId' | 'amount' | 'platformFee' | 'paymentFee' | 'sellerNet'>): LedgerPosting[] {
+    const postings: LedgerPosting[] = [
+      { account: ESCROW, direction: 'debit', amount: roundMoney(escrow.amount) },
+      { account: sellerBalanceAccount(escrow.sellerId), direction: 'credit', amount: roundMoney(escrow.sellerNet) },
+      { account: PLATFORM_REVENUE, direction: 'credit', amount: roundMoney(escrow.platformFee) },
+      { account: PROVIDER_CLEARING, direction: 'credit', amount: roundMoney(escrow.paymentFee) },
+    ];
+    return postings.filter(posting => posting.amount > 0);
+  }
+
+  static buildRefundPostings(amount: number): LedgerPosting[] {
+    return [
+      { account: ESCROW, direction: 'debit', amount: roundMoney(amount) },
+      { account: PROVIDER_CLEARING, direction: 'credit', amount: roundMoney(amount) },
+    ];
+  }
+
+  static buildPayoutPostings(sellerId: string, amount: number): LedgerPosting[] {
+    return [
+      { account: sellerBalanceAccount(sellerId), direction: 'debit', amount: roundMoney(amount) },
+      { account: PROVIDER_CLEARING, direction: 'credit', amount: roundMoney(amount) },
+    ];
+  }
+
+  static isBalanced(postings: LedgerPosting[]): boolean {
+    const total = postings.reduce(
+      (sum, posting) => sum + (posting.direction === 'debit' ? posting.amount : -posting.amount),
+      0
+    );
+    return Math.abs(total) < 0.005;
+  }
+
+  /**
+   * Capture the buyer's payment into escrow. Idempotent per transaction.
+   */
+  static async holdFunds(transaction: Transaction): Promise<Escrow> {
+    const platformFee = roundMoney(transaction.fees?.platformFee || 0);
+    const paymentFee = roundMoney(transaction.fees?.paymentFee || 0);
+    const sellerNet = roundMoney(transaction.amount - platformFee - paymentFee);
+
+    return db.transaction(async client => {
+      const result = await client.query(
+        `INSERT INTO marketplace_escrows (
+          transaction_id, seller_id, buyer_id, amount, platform_fee, payment_fee, seller_net, currency
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+        ON CONFLICT (transaction_id) DO NOTHING
+        RETURNING *`,
+        [transaction.id, transaction.sellerId, transaction.buyerId, transaction.amount, platformFee, paymentFee, sellerNet, transaction.currency || 'BRL']
+      );
+
+      if (result.rows.length === 0) {
+        const existing = await client.query('SELECT * FROM marketplace_escrows WHERE transaction_id = $1', [transaction.id]);
+        return this.mapToEscrow(existing.rows[0]);
+      }
+
+      await this.postEntry(client, {
+        entryType: 'hold',
+        transactionId: transaction.id,
+        description: 'Buyer payment held in escrow',
+        postings: this.buildHoldPostings(transaction.amount),
+        currency: transaction.currency,
+      });
+
+      return this.mapToEscrow(result.rows[0]);
+    });
+  }
+
+  /**
+   * Start the dispute window once the item ships; funds auto-release when it closes
+   */
+  static async startDisputeWindow(
+    transactionId: string,
+    settings: ConsignmentSettings = DEFAULT_CONSIGNMENT_SETTINGS
+  ): Promise<Escrow | null> {
+    const result = await db.query(
+      `UPDATE marketplace_escrows
+       SET release_after = NOW() + ($1 || ' days')::interval, updated_at = NOW()
+       WHERE transaction_id = $2 AND status = 'held'
+       RETURNING *`,
+      [settings.paymentTerms, transactionId]
+    );
+    return result.rows[0] ? this.mapToEscrow(result.rows[0]) : null;
+  }
+
+  /**
+   * Freeze escrow while a dispute is open
+   */
+  static async openDispute(transactionId: string, reason: string): Promise<Escrow> {
+    const result = await db.query(
+      `UPDATE marketplace_escrows
+       SET status = 'disputed', dispute_reason = $1, updated_at = NOW()
+       WHERE transaction_id = $2 AND status = 'held'
+       RETURNING *`,
+      [reason, transactionId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new Error('No held escrow for this transaction');
+    }
+    return this.mapToEscrow(result.rows[0]);
+  }
+
+  /**
+   * Release escrow to the seller, splitting off platform and provider fees,
+   * and record the sale's FinancialRecord. Returns null when nothing is held.
+   */
+  static async releaseFunds(transactionId: string, reason: string): Promise<Escrow | null> {
+    return db.transaction(async client => {
+      const locked = await client.query(
+        `SELECT * FROM marketplace_escrows WHERE transaction_id = $1 AND status IN ('held', 'disputed') FOR UPDATE`,
+        [transactionId]
+      );
+      if (locked.rows.length === 0) {
+        return null;
+      }
+
+      const escrow = this.mapToEscrow(locked.rows[0]);
+
+      await this.postEntry(client, {
+        entryType: 'release',
+        transactionId,
+        description: 'Escrow released to seller',
+        postings: this.buildReleasePostings(escrow),
+        currency: escrow.currency,
+        metadata: { reason },
+      });
+
+      await client.query(
+        `INSERT INTO financial_records (
+          item_sku, owner_id, original_price, sold_price, commission_rate, platform_fees,
+          net_amount, amount_to_owner, payment_method, transaction_id
+        )
+        SELECT
+          COALESCE(vi.vufs_code, vc.vufs_code, ml.item_id::text),
+          $1,
+          COALESCE(ml.original_price, ml.price),
+          $2,
+          $3,
+          $4,
+          $5,
+          $5,
+          mt.payment_method,
+          mt.id
+        FROM marketplace_transactions mt
+        JOIN marketplace_listings ml ON ml.id = mt.listing_id
+        LEFT JOIN vufs_items vi ON ml.item_id = vi.id
+        LEFT JOIN vufs_catalog vc ON ml.item_id = vc.id
+        WHERE mt.id = $6
+        ON CONFLICT DO NOTHING`,
+        [
+          escrow.sellerId,
+          escrow.amount,
+          escrow.amount > 0 ? roundMoney((escrow.platformFee / escrow.amount) * 10000) / 10000 : 0,
+          roundMoney(escrow.platformFee + escrow.paymentFee),
+          escrow.sellerNet,
+          transactionId,
+        ]
+      );
+
+      const updated = await client.query(
+        `UPDATE marketplace_escrows
+         SET status = 'released', released_at = NOW(), updated_at = NOW()
+         WHERE id = $1
+         RETURNING *`,
+        [escrow.id]
+      );
+      return this.mapToEscrow(updated.rows[0]);
+    });
+  }
+
+  /**
+   * Return escrowed funds to the buyer. Returns null when nothing is held.
+   */
+  static async refundFunds(transactionId: string, reason: string): Promise<Escrow | null> {
+    return db.transaction(async client => {
+      const locked = await client.query(
+        `SELECT * FROM marketplace_escrows WHERE transaction_id = $1 AND status IN ('held', 'disputed') FOR UPDATE`,
+        [transactionId]
+      );
+      if (locked.rows.length === 0) {
+        return null;
+      }
+
+      const escrow = this.mapToEscrow(locked.rows[0]);
+
+      await this.postEntry(client, {
+        entryType: 'refund',
+        transactionId,
+        description: 'Escrow refunded to buyer',
+        postings: this.buildRefundPostings(escrow.amount),
+        currency: escrow.currency,
+        metadata: { reason },
+      });
+
+      const updated = await client.query(
+        `UPDATE marketplace_escrows
+         SET status = 'refunded', refunded_amount = amount, updated_at = NOW()
+         WHERE id = $1
+         RETURNING *`,
+        [escrow.id]
+      );
+      return this.mapToEscrow(updated.rows[0]);
+    });
+  }
+
+  /**
+   * Transactions whose dispute window has closed without a dispute
+   */
+  static async getMaturedEscrowTransactionIds(limit: number = 100): Promise<string[]> {
+    const result = await db.query(
+      `SELECT transaction_id FROM marketplace_escrows
+       WHERE status = 'held' AND release_after IS NOT NULL AND release_after <= NOW()
+       ORDER BY release_after ASC
+       LIMIT $1`,
+      [limit]
+    );
+    return result.rows.map(row => row.transaction_id);
+  }
+
+  static async getEscrow(transactionId: string): Promise<Escrow | null> {
+    const result = await db.query('SELECT * FROM marketplace_escrows WHERE transaction_id = $1', [transactionId]);
+    return result.rows[0] ? this.mapToEscrow(result.rows[0]) : null;
+  }
+
+  /**
+   * Seller's available (released, not paid out), pending (in escrow) and paid-out totals
+   */
+  static async getSellerBalance(
+    sellerId: string,
+    settings: ConsignmentSettings = DEFAULT_CONSIGNMENT_SETTINGS
+  ): Promise<SellerBalance> {
+    const [available, pending, paidOut] = await Promise.all([
+      this.getAccountBalance(sellerBalanceAccount(sellerId)),
+      db.query(
+        `SELECT COALESCE(SUM(seller_net), 0) AS total
+         FROM marketplace_escrows
+         WHERE seller_id = $1 AND status IN ('held', 'disputed')`,
+        [sellerId]
+      ),
+      db.query(
+        `SELECT COALESCE(SUM(amount), 0) AS total FROM seller_payouts WHERE seller_id = $1 AND status = 'paid'`,
+        [sellerId]
+      ),
+    ]);
+
+    return {
+      sellerId,
+      currency: 'BRL',
+      available,
+      pending: parseFloat(pending.rows[0].total),
+      paidOut: parseFloat(paidOut.rows[0].total),
+      minimumPayout: settings.minimumPayout,
+    };
+  }
+
+  /**
+   * Move the seller's whole available balance into a pending payout
+   */
+  static async requestPayout(
+    sellerId: string,
+    options: { method?: string; destination?: any } = {},
+    settings: ConsignmentSettings = DEFAULT_CONSIGNMENT_SETTINGS
+  ): Promise<SellerPayout> {
+    return db.transaction(async client => {
+      // Lock the seller's balance account so concurrent requests cannot pay out twice
+      const accountId = await this.ensureAccount(client, sellerBalanceAccount(sellerId), 'BRL');
+      await client.query('SELECT id FROM ledger_accounts WHERE id = $1 FOR UPDATE', [accountId]);
+
+      const available = await this.getAccountBalance(sellerBalanceAccount(sellerId), 'BRL', client);
+      if (available < settings.minimumPayout) {
+        throw new Error(`Available balance is below the minimum payout of ${settings.minimumPayout}`);
+      }
+
+      const payoutResult = await client.query(
+        `INSERT INTO seller_payouts (seller_id, amount, method, destination)
+         VALUES ($1, $2, $3, $4)
+         RETURNING *`,
+        [sellerId, available, options.method || 'pix', JSON.stringify(options.destination || {})]
+      );
+      const payout = this.mapToPayout(payoutResult.rows[0]);
+
+      await this.postEntry(client, {
+        entryType: 'payout',
+        payoutId: payout.id,
+        description: 'Seller payout requested',
+        postings: this.buildPayoutPostings(sellerId, available),
+      });
+
+      await client.query(
+        `UPDATE financial_records
+         SET repass_status = true, repass_date = NOW(), payout_id = $1
+         WHERE owner_id = $2 AND repass_status = false AND transaction_id IS NOT NULL`,
+        [payout.id, sellerId]
+      );
+
+      return payout;
+    });
+  }
+
+  /**
+   * Settle a pending payout. Failed payouts are credited back to the seller balance.
+   */
+  static async completePayout(payoutId: string, status: 'paid' | 'failed', reference?: string): Promise<SellerPayout> {
+    return db.transaction(async client => {
+      const locked = await client.query(
+        `SELECT * FROM seller_payouts WHERE id = $1 AND status = 'pending' FOR UPDATE`,
+        [payoutId]
+      );
+      if (locked.rows.length === 0) {
+        throw new Error('Pending payout not found');
+      }
+      const payout = this.mapToPayout(locked.rows[0]);
+
+      if (status === 'failed') {
+        const reversal = this.buildPayoutPostings(payout.sellerId, payout.amount).map(posting => ({
+          ...posting,
+          direction: posting.direction === 'debit' ? 'credit' as const : 'debit' as const,
+        }));
+        await this.postEntry(client, {
+          entryType: 'payout',
+          payoutId,
+          description: 'Seller payout failed and returned to balance',
+          postings: reversal,
+          metadata: { reference },
+        });
+
+        await client.query(
+          `UPDATE financial_records
+           SET repass_status = false, repass_date = NULL, payout_id = NULL
+           WHERE payout_id = $1`,
+          [payoutId]
+        );
+      }
+
+      const updated = await client.query(
+        `UPDATE seller_payouts
+         SET status = $1, reference = $2, paid_at = CASE WHEN $1 = 'paid' THEN NOW() ELSE NULL END
+         WHERE id = $3
+         RETURNING *`,
+        [status, reference || null, payoutId]
+      );
+      return this.mapToPayout(updated.rows[0]);
+    });
+  }
+
+  static async getPayoutHistory(sellerId: string, limit: number = 50, offset: number = 0): Promise<SellerPayout[]> {
+    const result = await db.query(
+      `SELECT * FROM seller_payouts WHERE seller_id = $1 ORDER BY requested_at DESC LIMIT $2 OFFSET $3`,
+      [sellerId, limit, offset]
+    );
+    return result.rows.map(row => this.mapToPayout(row));
+  }
+
+  /**
+   * Movements on the seller's balance account, newest first
+   */
+  static async getSellerStatement(sellerId: string, limit: number = 50, offset: number = 0): Promise<any[]> {
+    const result = await db.query(
+      `SELECT le.id AS entry_id, le.entry_type, le.transaction_id, le.payout_id, le.description,
+              lp.direction, lp.amount, le.created_at
+       FROM ledger_postings lp
+       JOIN ledger_entries le ON le.id = lp.entry_id
+       JOIN ledger_accounts la ON la.id = lp.account_id
+       WHERE la.owner_type = 'user' AND la.owner_id = $1 AND la.account_type = 'seller_balance'
+       ORDER BY le.created_at DESC
+       LIMIT $2 OFFSET $3`,
+      [sellerId, limit, offset]
+    );
+
+    return result.rows.map(row => ({
+      entryId: row.entry_id,
+      entryType: row.entry_type,
+      transactionId: row.transaction_id || undefined,
+      payoutId: row.payout_id || undefined,
+      description: row.description,
+      amount: row.direction === 'credit' ? parseFloat(row.amount) : -parseFloat(row.amount),
+      createdAt: row.created_at,
+    }));
+  }
+
+  /**
+   * Balance of an account in its natural sign (credits minus debits for
+   * liabilities and revenue, debits minus credits for provider clearing)
+   */
+  static async getAccountBalance(
+    account: LedgerAccountRef,
+    currency: string = 'BRL',
+    executor: Pick<PoolClient, 'query'> = db as any
+  ): Promise<number> {
+    const result = await executor.query(
+      `SELECT COALESCE(SUM(CASE WHEN lp.direction = 'credit' THEN lp.amount ELSE -lp.amount END), 0) AS balance
+       FROM ledger_postings lp
+       JOIN ledger_accounts la ON la.id = lp.account_id
+       WHERE la.owner_type = $1
+         AND la.owner_id IS NOT DISTINCT FROM $2
+         AND la.account_type = $3
+         AND la.currency = $4`,
+      [account.ownerType, account.ownerId || null, account.accountType, currency]
+    );
+
+    const balance = parseFloat(result.rows[0].balance);
+    return roundMoney(account.accountType === 'provider_clearing' ? -balance : balance);
+  }
+
+  private static async postEntry(client: PoolClient, entry: {
+    entryType: LedgerEntryType;
+    transactionId?: string;
+    payoutId?: string;
+    description: string;
+    postings: LedgerPosting[];
+    currency?: string;
+    metadata?: any;
+  }): Promise<string> {
+    if (!this.isBalanced(entry.postings)) {
+      throw new Error(`Unbalanced ledger entry: ${entry.description}`);
+    }
+
+    const entryResult = await client.query(
+      `INSERT INTO ledger_entries (entry_type, transaction_id, payout_id, description, metadata)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING id`,
+      [entry.entryType, entry.transactionId || null, entry.payoutId || null, entry.description, JSON.stringify(entry.metadata || {})]
+    );
+    const entryId = entryResult.rows[0].id;
+
+    for (const posting of entry.postings) {
+      const accountId = await this.ensureAccount(client, posting.account, entry.currency || 'BRL');
+      await client.query(
+        `INSERT INTO ledger_postings (entry_id, account_id, direction, amount) VALUES ($1, $2, $3, $4)`,
+        [entryId, accountId, posting.direction, posting.amount]
+      );
+    }
+
+    return entryId;
+  }
+
+  private static async ensureAccount(client: PoolClient, account: LedgerAccountRef, currency: string): Promise<string> {
+    const params = [account.ownerType, account.ownerId || null, account.accountType, currency];
+
+    await client.query(
+      `INSERT INTO ledger_accounts (owner_type, owner_id, account_type, currency)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT DO NOTHING`,
+      params
+    );
+
+    const result = await client.query(
+      `SELECT id FROM ledger_accounts
+       WHERE owner_type = $1 AND owner_id IS NOT DISTINCT FROM $2 AND account_type = $3 AND currency = $4`,
+      params
+    );
+    return result.rows[0].id;
+  }
+
+  private static mapToEscrow(row: any): Escrow {
+    return {
+      id: row.id,
+      transactionId: row.transaction_id,
+      sellerId: row.seller_id,
+      buyerId: row.buyer_id,
+      status: row.status,
+      amount: parseFloat(row.amount),
+      platformFee: parseFloat(row.platform_fee),
+      paymentFee: parseFloat(row.payment_fee),
+      sellerNet: parseFloat(row.seller_net),
+      refundedAmount: parseFloat(row.refunded_amount),
+      currency: row.currency,
+      releaseAfter: row.release_after ? new Date(row.release_after) : undefined,
+      disputeReason: row.dispute_reason || undefined,
+      heldAt: new Date(row.held_at),
+      releasedAt: row.released_at ? new Date(row.released_at) : undefined,
+    };
+  }
+
+  private static mapToPayout(row: any): SellerPayout {
+    return {
+      id: row.id,
+      sellerId: row.seller_id,
+      amount: parseFloat(row.amount),
+      currency: row.currency,
+      status: row.status,
+      method: row.method,
+      destination: typeof row.destination === 'string' ? JSON.parse(row.destination) : row.destination,
+      reference: row.reference || undefined,
+      requestedAt: new Date(row.requested_at),
+      paidAt: row.paid_at ? new Date(row.paid_at) : undefined,
+    };
+  }
+}
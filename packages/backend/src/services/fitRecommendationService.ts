@@ -0,0 +1,309 @@
+import { UserMeasurements } from '@vangarments/shared/types';
+import { UserModel } from '../models/User';
+import { SKUItemModel, SKUItem } from '../models/SKUItem';
+import { VUFSItemModel } from '../models/VUFSItem';
+import { MarketplaceModel } from '../models/Marketplace';
+import { SKUMatchingService } from './skuMatchingService';
+
+export type FitVerdict = 'tight' | 'true' | 'loose';
+export type FitDimension = 'chest' | 'waist' | 'hips' | 'length' | 'inseam' | 'shoulders' | 'sleeve';
+export type FitBasis = 'body' | 'reference';
+
+/**
+ * A garment's point of measure, as stored in `sku_measurements` or copied
+ * into a wardrobe item's metadata when it is linked to a SKU
+ */
+export interface GarmentMeasurement {
+    pomCode: string;
+    pomName?: string;
+    size?: string;
+    value: number;
+    unit?: string;
+}
+
+export interface PomFit {
+    pomCode: string;
+    pomName?: string;
+    dimension: FitDimension;
+    /** Garment value in cm; half measurements are doubled to a circumference */
+    garment: number;
+    /** Body measurement or reference garment value it is compared with */
+    target: number;
+    /** garment - target */
+    ease: number;
+    verdict: FitVerdict;
+}
+
+export interface SizeFit {
+    size: string;
+    verdict: FitVerdict;
+    /** Distance from an ideal fit; lower is better */
+    score: number;
+    poms: PomFit[];
+}
+
+export interface FitRecommendation {
+    basis: FitBasis | null;
+    referenceItemId?: string;
+    recommendedSize: string | null;
+    verdict: FitVerdict | null;
+    sizes: SizeFit[];
+    /** Why no recommendation could be made */
+    missing?: 'body_measurements' | 'garment_measurements';
+}
+
+export type FitTarget =
+    | { basis: 'body'; body: UserMeasurements }
+    | { basis: 'reference'; referenceItemId: string; measurements: GarmentMeasurement[] };
+
+interface FitPom {
+    dimension: FitDimension;
+    half: boolean;
+    /** Body measurement the POM is compared with */
+    bodyKey?: keyof UserMeasurements;
+    /** Garment minus body, in cm, that still reads as a regular fit */
+    bodyEase?: [number, number];
+    /** Largest difference from the reference garment, in cm, that fits the same */
+    referenceTolerance: number;
+}
+
+// POM codes from the seeded definitions that decide fit
+const FIT_POMS: Record<string, FitPom> = {
+    CH: { dimension: 'chest', half: true, bodyKey: 'chest', bodyEase: [6, 14], referenceTolerance: 3 },
+    WA: { dimension: 'waist', half: true, bodyKey: 'waist', bodyEase: [6, 16], referenceTolerance: 3 },
+    WB: { dimension: 'waist', half: true, bodyKey: 'waist', bodyEase: [0, 4], referenceTolerance: 2 },
+    HP: { dimension: 'hips', half: true, bodyKey: 'hips', bodyEase: [2, 10], referenceTolerance: 3 },
+    HPS: { dimension: 'length', half: false, referenceTolerance: 2 },
+    IN: { dimension: 'inseam', half: false, bodyKey: 'inseam', bodyEase: [-3, 1], referenceTolerance: 2 },
+    SH: { dimension: 'shoulders', half: false, bodyKey: 'shoulders', bodyEase: [-1, 3], referenceTolerance: 1.5 },
+    SL: { dimension: 'sleeve', half: false, bodyKey: 'armLength', bodyEase: [-2, 3], referenceTolerance: 2 },
+};
+
+// Circumferences decide the overall verdict; lengths only nudge the size choice
+const CIRCUMFERENCES: FitDimension[] = ['chest', 'waist', 'hips'];
+const CIRCUMFERENCE_WEIGHT = 2;
+
+/**
+ * Recommends a size by comparing a garment's points of measure with the
+ * user's body measurements, or with a garment from their wardrobe that they
+ * know fits well
+ */
+export class FitRecommendationService {
+    /**
+     * Compare one size of a garment with the target. Returns null when no
+     * point of measure can be compared.
+     */
+    static assessSize(size: string, measurements: GarmentMeasurement[], target: FitTarget): SizeFit | null {
+        const poms: PomFit[] = [];
+        let weightedScore = 0;
+        let totalWeight = 0;
+
+        for (const measurement of measurements) {
+            const pom = FIT_POMS[measurement.pomCode];
+            if (!pom) continue;
+
+            const garment = this.toCentimeters(measurement.value, measurement.unit) * (pom.half ? 2 : 1);
+            let targetValue: number | undefined;
+            let range: [number, number];
+
+            if (target.basis === 'body') {
+                const body = pom.bodyKey ? Number(target.body[pom.bodyKey]) : NaN;
+                if (!pom.bodyEase || !(body > 0)) continue;
+                targetValue = body;
+                range = pom.bodyEase;
+            } else {
+                const reference = target.measurements.find(m => m.pomCode === measurement.pomCode);
+                if (!reference) continue;
+                targetValue = this.toCentimeters(reference.value, reference.unit) * (pom.half ? 2 : 1);
+                range = [-pom.referenceTolerance, pom.referenceTolerance];
+            }
+
+            const ease = this.round(garment - targetValue);
+            const verdict: FitVerdict = ease < range[0] ? 'tight' : ease > range[1] ? 'loose' : 'true';
+            poms.push({
+                pomCode: measurement.pomCode,
+                pomName: measurement.pomName,
+                dimension: pom.dimension,
+                garment: this.round(garment),
+                target: this.round(targetValue),
+                ease,
+                verdict,
+            });
+
+            // 0 at the middle of the range, 1 at its edges, growing beyond them
+            const halfWidth = (range[1] - range[0]) / 2;
+            const distance = Math.abs(ease - (range[0] + range[1]) / 2) / halfWidth;
+            const weight = CIRCUMFERENCES.includes(pom.dimension) ? CIRCUMFERENCE_WEIGHT : 1;
+            weightedScore += weight * (distance <= 1 ? distance : 1 + (distance - 1) * 2);
+            totalWeight += weight;
+        }
+
+        if (poms.length === 0) {
+            return null;
+        }
+
+        const deciding = poms.some(pom => CIRCUMFERENCES.includes(pom.dimension))
+            ? poms.filter(pom => CIRCUMFERENCES.includes(pom.dimension))
+            : poms;
+        const verdict: FitVerdict = deciding.some(pom => pom.verdict === 'tight')
+            ? 'tight'
+            : deciding.some(pom => pom.verdict === 'loose') ? 'loose' : 'true';
+
+        return { size, verdict, score: this.round(weightedScore / totalWeight), poms };
+    }
+
+    /**
+     * Assess every size of a garment and pick the closest to an ideal fit.
+     * Sizes keep the order they were given in.
+     */
+    static recommend(measurements: GarmentMeasurement[], target: FitTarget | null): FitRecommendation {
+        const base = {
+            basis: target?.basis || null,
+            referenceItemId: target?.basis === 'reference' ? target.referenceItemId : undefined,
+        };
+        if (!target) {
+            return { ...base, recommendedSize: null, verdict: null, sizes: [], missing: 'body_measurements' };
+        }
+
+        const bySize = new Map<string, GarmentMeasurement[]>();
+        for (const measurement of measurements) {
+            const size = measurement.size || '';
+            bySize.set(size, [...(bySize.get(size) || []), measurement]);
+        }
+
+        const sizes = [...bySize.entries()]
+            .map(([size, sized]) => this.assessSize(size, sized, target))
+            .filter((fit): fit is SizeFit => fit !== null);
+        if (sizes.length === 0) {
+            return { ...base, recommendedSize: null, verdict: null, sizes: [], missing: 'garment_measurements' };
+        }
+
+        const best = sizes.reduce((winner, fit) => (fit.score < winner.score ? fit : winner));
+        return { ...base, recommendedSize: best.size, verdict: best.verdict, sizes };
+    }
+
+    static async recommendForSku(skuId: string, userId: string, referenceItemId?: string): Promise<FitRecommendation | null> {
+        const sku = await SKUItemModel.findById(skuId);
+        if (!sku) {
+            return null;
+        }
+
+        const [measurements, target] = await Promise.all([
+            this.sizeChart(sku),
+            this.resolveTarget(userId, referenceItemId),
+        ]);
+        return this.recommend(measurements, target);
+    }
+
+    /**
+     * Fit of a marketplace listing: the catalog size chart when the listed item
+     * is linked to a SKU, otherwise the measurements recorded on the item, plus
+     * how the listed size itself fits
+     */
+    static async recommendForListing(
+        listingId: string,
+        userId: string,
+        referenceItemId?: string
+    ): Promise<(FitRecommendation & { listingSize: string | null; listingFit: SizeFit | null }) | null> {
+        const listing = await MarketplaceModel.findById(listingId);
+        if (!listing) {
+            return null;
+        }
+
+        const item = await VUFSItemModel.findById(listing.itemId);
+        const listingSize: string | null = item?.metadata?.size || null;
+        const sku = item?.skuItemId ? await SKUItemModel.findById(item.skuItemId) : null;
+
+        const [measurements, target] = await Promise.all([
+            sku ? this.sizeChart(sku) : Promise.resolve(this.itemMeasurements(item?.metadata, listingSize)),
+            this.resolveTarget(userId, referenceItemId),
+        ]);
+
+        const recommendation = this.recommend(measurements, target);
+        const listingFit = recommendation.sizes.find(fit => listingSize && this.sameSize(fit.size, listingSize))
+            || (recommendation.sizes.length === 1 ? recommendation.sizes[0] : null);
+
+        return { ...recommendation, listingSize, listingFit };
+    }
+
+    /**
+     * Compare against a wardrobe reference garment when one is given, otherwise
+     * against the body measurements saved on the user's profile
+     */
+    static async resolveTarget(userId: string, referenceItemId?: string): Promise<FitTarget | null> {
+        if (referenceItemId) {
+            const item = await VUFSItemModel.findById(referenceItemId);
+            if (!item || item.ownerId !== userId || item.deletedAt) {
+                throw new Error('Invalid reference: wardrobe item not found');
+            }
+
+            let measurements = this.itemMeasurements(item.metadata, item.metadata?.size);
+            if (measurements.length === 0 && item.skuItemId) {
+                const sku = await SKUItemModel.findById(item.skuItemId);
+                measurements = sku && item.metadata?.size ? await SKUMatchingService.getMeasurements(sku, item.metadata.size) : [];
+            }
+            if (new Set(measurements.map(m => m.size || '')).size !== 1) {
+                throw new Error('Invalid reference: the garment has no measurements for its size');
+            }
+
+            return { basis: 'reference', referenceItemId: item.id, measurements };
+        }
+
+        const user = await UserModel.findById(userId);
+        const body = user?.measurements;
+        const usable = body && Object.values(FIT_POMS).some(pom => pom.bodyKey && Number(body[pom.bodyKey]) > 0);
+        return usable ? { basis: 'body', body } : null;
+    }
+
+    /**
+     * Measurements stored on a wardrobe item, limited to its size when the
+     * item carries a whole size chart
+     */
+    static itemMeasurements(metadata: any, size?: string | null): GarmentMeasurement[] {
+        const measurements: GarmentMeasurement[] = Array.isArray(metadata?.measurements)
+            ? metadata.measurements.filter((m: any) => m && typeof m.pomCode === 'string' && Number.isFinite(Number(m.value)))
+                .map((m: any) => ({ ...m, value: Number(m.value) }))
+            : [];
+
+        const sizes = new Set(measurements.map(m => m.size || ''));
+        if (sizes.size <= 1 || !size) {
+            return measurements;
+        }
+        return measurements.filter(m => m.size && this.sameSize(m.size, size));
+    }
+
+    /**
+     * Measurements of every size of a SKU. Products usually keep their size
+     * chart on the size variants, so a parent also collects its variants'.
+     */
+    private static async sizeChart(sku: SKUItem): Promise<GarmentMeasurement[]> {
+        const measurements: GarmentMeasurement[] = await SKUMatchingService.getMeasurements(sku);
+        if (sku.parentSkuId) {
+            return measurements;
+        }
+
+        const variants = await SKUItemModel.findVariants(sku.id);
+        const charts = await Promise.all(variants.map(variant => SKUMatchingService.getMeasurements(variant)));
+        const seen = new Set(measurements.map(m => `${m.size}|${m.pomCode}`));
+        for (const measurement of charts.flat()) {
+            const key = `${measurement.size}|${measurement.pomCode}`;
+            if (!seen.has(key)) {
+                seen.add(key);
+                measurements.push(measurement);
+            }
+        }
+        return measurements;
+    }
+
+    private static sameSize(a: string, b: string): boolean {
+        return a.trim().toLowerCase() === b.trim().toLowerCase();
+    }
+
+    private static toCentimeters(value: number, unit?: string): number {
+        return unit === 'in' || unit === 'inch' ? value * 2.54 : value;
+    }
+
+    private static round(value: number): number {
+        return Math.round(value * 10) / 10;
+    }
+}
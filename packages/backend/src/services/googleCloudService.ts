@@ -35,6 +35,24 @@ export class GoogleCloudService {
         return exists;
     }
 
+    /**
+     * Object generation in GCS, which changes whenever the file is overwritten;
+     * null when the file does not exist
+     */
+    static async getFileGeneration(key: string): Promise<string | null> {
+        const file = this.storage.bucket(this.bucketName).file(key);
+        const [exists] = await file.exists();
+        if (!exists) return null;
+
+        const [metadata] = await file.getMetadata();
+        return String(metadata.generation);
+    }
+
+    static async downloadFile(key: string): Promise<Buffer> {
+        const [contents] = await this.storage.bucket(this.bucketName).file(key).download();
+        return contents;
+    }
+
     /**
      * Detect labels and text using Google Vision AI
      */
@@ -0,0 +1,145 @@
+import sharp from 'sharp';
+
+/**
+ * Turns an image into a fixed-length, L2-normalised vector so that cosine
+ * similarity (a plain dot product) measures how alike two photos look.
+ */
+export interface ImageEmbeddingModel {
+    /** Stored with each vector; vectors from different models are never compared */
+    readonly name: string;
+    readonly dimensions: number;
+    /** Similarity at or above which two photos are treated as the same upload */
+    readonly duplicateThreshold: number;
+    embed(image: Buffer): Promise<number[]>;
+}
+
+const GRID_SIZE = 32;
+const HUE_BINS = 12;
+const GRAY_BINS = 4;
+const LAYOUT_CELLS = 4;
+const EDGE_BINS = 8;
+
+const normalize = (vector: number[]): number[] => {
+    const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return length > 0 ? vector.map(value => value / length) : vector;
+};
+
+/**
+ * Hand-built descriptor that runs on the CPU with sharp alone: a colour
+ * histogram weighted towards the garment rather than the backdrop, a coarse
+ * colour layout and a gradient orientation histogram per quadrant.
+ */
+export class ColorLayoutEmbeddingModel implements ImageEmbeddingModel {
+    readonly name = 'color-layout-v1';
+    readonly dimensions = HUE_BINS * 2 + GRAY_BINS + LAYOUT_CELLS * LAYOUT_CELLS * 3 + EDGE_BINS * 4;
+    readonly duplicateThreshold = 0.99;
+
+    // Relative weight of the colour, layout and edge blocks in the final vector
+    private static readonly BLOCK_WEIGHTS = [0.5, 0.3, 0.2];
+
+    async embed(image: Buffer): Promise<number[]> {
+        const pixels = await sharp(image)
+            .rotate()
+            .flatten({ background: '#ffffff' })
+            .resize(GRID_SIZE, GRID_SIZE, { fit: 'cover' })
+            .removeAlpha()
+            .raw()
+            .toBuffer();
+
+        const rgb: [number, number, number][] = [];
+        for (let i = 0; i < GRID_SIZE * GRID_SIZE; i++) {
+            rgb.push([pixels[i * 3] / 255, pixels[i * 3 + 1] / 255, pixels[i * 3 + 2] / 255]);
+        }
+
+        const blocks = [this.colorHistogram(rgb), this.colorLayout(rgb), this.edgeHistogram(rgb)];
+        return normalize(blocks.flatMap((block, index) => {
+            const scale = Math.sqrt(ColorLayoutEmbeddingModel.BLOCK_WEIGHTS[index]);
+            return normalize(block).map(value => value * scale);
+        }));
+    }
+
+    /**
+     * Hue/brightness histogram. Pixels close to the average border colour are
+     * most likely backdrop and count for little.
+     */
+    private colorHistogram(rgb: [number, number, number][]): number[] {
+        const border = [0, 0, 0];
+        let borderCount = 0;
+        rgb.forEach((pixel, index) => {
+            const x = index % GRID_SIZE;
+            const y = Math.floor(index / GRID_SIZE);
+            if (x === 0 || y === 0 || x === GRID_SIZE - 1 || y === GRID_SIZE - 1) {
+                pixel.forEach((value, channel) => { border[channel] += value; });
+                borderCount++;
+            }
+        });
+        const background = border.map(value => value / borderCount);
+
+        const histogram = new Array(HUE_BINS * 2 + GRAY_BINS).fill(0);
+        for (const [r, g, b] of rgb) {
+            const distance = Math.hypot(r - background[0], g - background[1], b - background[2]);
+            const weight = 0.05 + Math.min(1, distance / 0.25);
+
+            const max = Math.max(r, g, b);
+            const min = Math.min(r, g, b);
+            const saturation = max === 0 ? 0 : (max - min) / max;
+            if (saturation < 0.15) {
+                histogram[HUE_BINS * 2 + Math.min(GRAY_BINS - 1, Math.floor(max * GRAY_BINS))] += weight;
+                continue;
+            }
+
+            let hue: number;
+            if (max === r) hue = ((g - b) / (max - min) + 6) % 6;
+            else if (max === g) hue = (b - r) / (max - min) + 2;
+            else hue = (r - g) / (max - min) + 4;
+            const hueBin = Math.min(HUE_BINS - 1, Math.floor((hue / 6) * HUE_BINS));
+            histogram[hueBin * 2 + (max < 0.5 ? 0 : 1)] += weight;
+        }
+        return histogram;
+    }
+
+    /**
+     * Mean colour of each cell in a coarse grid, relative to the image mean
+     */
+    private colorLayout(rgb: [number, number, number][]): number[] {
+        const cellSize = GRID_SIZE / LAYOUT_CELLS;
+        const cells = new Array(LAYOUT_CELLS * LAYOUT_CELLS * 3).fill(0);
+        const mean = [0, 0, 0];
+
+        rgb.forEach((pixel, index) => {
+            const cell = Math.floor(Math.floor(index / GRID_SIZE) / cellSize) * LAYOUT_CELLS
+                + Math.floor((index % GRID_SIZE) / cellSize);
+            pixel.forEach((value, channel) => {
+                cells[cell * 3 + channel] += value / (cellSize * cellSize);
+                mean[channel] += value / rgb.length;
+            });
+        });
+
+        return cells.map((value, index) => value - mean[index % 3]);
+    }
+
+    /**
+     * Gradient orientation histogram per quadrant, weighted by edge strength
+     */
+    private edgeHistogram(rgb: [number, number, number][]): number[] {
+        const gray = rgb.map(([r, g, b]) => 0.299 * r + 0.587 * g + 0.114 * b);
+        const histogram = new Array(EDGE_BINS * 4).fill(0);
+        const half = GRID_SIZE / 2;
+
+        for (let y = 1; y < GRID_SIZE - 1; y++) {
+            for (let x = 1; x < GRID_SIZE - 1; x++) {
+                const dx = gray[y * GRID_SIZE + x + 1] - gray[y * GRID_SIZE + x - 1];
+                const dy = gray[(y + 1) * GRID_SIZE + x] - gray[(y - 1) * GRID_SIZE + x];
+                const magnitude = Math.hypot(dx, dy);
+                if (magnitude < 0.02) continue;
+
+                // Orientation without direction: 0..π
+                const angle = (Math.atan2(dy, dx) + Math.PI) % Math.PI;
+                const bin = Math.min(EDGE_BINS - 1, Math.floor((angle / Math.PI) * EDGE_BINS));
+                const quadrant = (y < half ? 0 : 2) + (x < half ? 0 : 1);
+                histogram[quadrant * EDGE_BINS + bin] += magnitude;
+            }
+        }
+        return histogram;
+    }
+}
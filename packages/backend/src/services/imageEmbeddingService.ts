@@ -0,0 +1,315 @@
+import { db } from '../database/connection';
+import { LocalStorageService } from './localStorageService';
+import { RemoteImage } from '../utils/remoteImage';
+import { ImageEmbeddingModel, ColorLayoutEmbeddingModel } from './imageEmbeddingModels';
+
+export type VisualEntityType = 'item' | 'sku' | 'listing';
+
+export const VISUAL_ENTITY_TYPES: VisualEntityType[] = ['item', 'sku', 'listing'];
+
+export interface VisualMatch {
+    type: VisualEntityType;
+    id: string;
+    title: string;
+    /** The image of the entity that matched best */
+    imageUrl: string;
+    slug?: string;
+    brand?: string;
+    price?: number;
+    currency?: string;
+    score: number;
+}
+
+export interface DuplicatePair {
+    itemId: string;
+    imageUrl: string;
+    duplicateItemId: string;
+    duplicateImageUrl: string;
+    score: number;
+}
+
+interface ImageSource {
+    entity_id: string;
+    image_url: string;
+    owner_id: string | null;
+}
+
+const MAX_IMAGES_PER_ENTITY = 6;
+const MAX_REMOTE_IMAGE_BYTES = 15 * 1024 * 1024;
+const REMOTE_IMAGE_TIMEOUT_MS = 10000;
+const REINDEX_BATCH_SIZE = 20;
+
+// Image URLs per entity; $1 is the entity ids
+const IMAGE_SOURCES: Record<VisualEntityType, string> = {
+    item: `
+        SELECT entity_id, image_url, owner_id FROM (
+            SELECT ii.item_id AS entity_id, ii.image_url, vi.owner_id,
+                   ROW_NUMBER() OVER (PARTITION BY ii.item_id ORDER BY ii.is_primary DESC, ii.created_at) AS position
+            FROM item_images ii
+            JOIN vufs_items vi ON vi.id = ii.item_id
+            WHERE ii.item_id = ANY($1::uuid[])
+        ) images
+        WHERE position <= ${MAX_IMAGES_PER_ENTITY}
+    `,
+    sku: `
+        SELECT si.id AS entity_id, img.value->>'url' AS image_url, NULL::uuid AS owner_id
+        FROM sku_items si
+        CROSS JOIN LATERAL jsonb_array_elements(
+            CASE WHEN jsonb_typeof(si.images) = 'array' THEN si.images ELSE '[]'::jsonb END
+        ) WITH ORDINALITY AS img(value, position)
+        WHERE si.id = ANY($1::uuid[])
+          AND img.value->>'url' IS NOT NULL
+          AND img.position <= ${MAX_IMAGES_PER_ENTITY}
+    `,
+    listing: `
+        SELECT ml.id AS entity_id, img.url AS image_url, ml.seller_id AS owner_id
+        FROM marketplace_listings ml
+        CROSS JOIN LATERAL unnest(ml.images) WITH ORDINALITY AS img(url, position)
+        WHERE ml.id = ANY($1::uuid[])
+          AND img.position <= ${MAX_IMAGES_PER_ENTITY}
+    `,
+};
+
+const ENTITY_TABLES: Record<VisualEntityType, string> = {
+    item: 'vufs_items',
+    sku: 'sku_items',
+    listing: 'marketplace_listings',
+};
+
+/**
+ * Image embeddings for wardrobe items, SKUs and marketplace listings, used to
+ * find things that look like a photo. Models call `queueIndex` when images
+ * change; `reindexAll` backfills a whole type.
+ */
+export class ImageEmbeddingService {
+    private static model: ImageEmbeddingModel = new ColorLayoutEmbeddingModel();
+
+    /**
+     * Swap the embedding model. Vectors from the previous model stay stored but
+     * are ignored until the entities are reindexed.
+     */
+    static setModel(model: ImageEmbeddingModel): void {
+        this.model = model;
+    }
+
+    static getModel(): ImageEmbeddingModel {
+        return this.model;
+    }
+
+    static async embed(image: Buffer): Promise<number[]> {
+        return this.model.embed(image);
+    }
+
+    /**
+     * Bring the stored vectors for these entities in line with their current
+     * images, embedding only images that have not been embedded yet. Images
+     * are downloaded and embedded before the short transaction that writes
+     * the vectors.
+     */
+    static async index(entityType: VisualEntityType, entityIds: string[]): Promise<number> {
+        const ids = Array.from(new Set(entityIds.filter(Boolean)));
+        if (ids.length === 0) {
+            return 0;
+        }
+
+        const embeddings = await this.embedMissing(entityType, ids);
+
+        return db.transaction(async (client) => {
+            for (const { source, embedding } of embeddings) {
+                await client.query(
+                    `INSERT INTO image_embeddings (entity_type, entity_id, image_url, owner_id, model, embedding)
+                     VALUES ($1, $2, $3, $4, $5, $6)
+                     ON CONFLICT (entity_type, entity_id, image_url, model) DO UPDATE SET embedding = EXCLUDED.embedding`,
+                    [entityType, source.entity_id, source.image_url, source.owner_id, this.model.name, embedding]
+                );
+            }
+
+            // Runs after the inserts so images removed while downloading go too
+            await client.query(
+                `DELETE FROM image_embeddings e
+                 WHERE e.entity_id = ANY($1::uuid[]) AND e.entity_type = $2
+                   AND (e.model <> $3 OR NOT EXISTS (
+                       SELECT 1 FROM (${IMAGE_SOURCES[entityType]}) source
+                       WHERE source.entity_id = e.entity_id AND source.image_url = e.image_url
+                   ))`,
+                [ids, entityType, this.model.name]
+            );
+            return embeddings.length;
+        });
+    }
+
+    /**
+     * Fire-and-forget variant for model writes; a failed embedding never fails the write
+     */
+    static queueIndex(entityType: VisualEntityType, entityIds: string | string[]): void {
+        const ids = Array.isArray(entityIds) ? entityIds : [entityIds];
+        this.index(entityType, ids).catch(error => {
+            console.error(`Failed to update image embeddings for ${entityType} ${ids.join(', ')}:`, error);
+        });
+    }
+
+    /**
+     * Embed every entity of a type in small batches, e.g. after the migration
+     */
+    static async reindexAll(entityType: VisualEntityType): Promise<number> {
+        const result = await db.query(`SELECT id FROM ${ENTITY_TABLES[entityType]} ORDER BY id`);
+        const ids: string[] = result.rows.map(row => row.id);
+
+        let embedded = 0;
+        for (let i = 0; i < ids.length; i += REINDEX_BATCH_SIZE) {
+            embedded += await this.index(entityType, ids.slice(i, i + REINDEX_BATCH_SIZE));
+        }
+        return embedded;
+    }
+
+    /**
+     * Nearest SKUs, active listings and (the viewer's own) wardrobe items for an
+     * embedding, best matches first, at most `limit` per type. This is an exact
+     * scan over the stored vectors.
+     */
+    static async findSimilar(
+        embedding: number[],
+        options: {
+            types?: VisualEntityType[];
+            viewerId?: string;
+            limit?: number;
+            minScore?: number;
+            exclude?: { type: VisualEntityType; id: string };
+        } = {}
+    ): Promise<VisualMatch[]> {
+        const { types = VISUAL_ENTITY_TYPES, viewerId, limit = 12, minScore = 0.6, exclude } = options;
+
+        const result = await db.query(
+            `WITH scored AS (
+                SELECT e.entity_type, e.entity_id, e.image_url, image_similarity(e.embedding, $1::real[]) AS score
+                FROM image_embeddings e
+                WHERE e.model = $2
+                  AND e.entity_type = ANY($3)
+                  AND (e.entity_type <> 'item' OR e.owner_id = $4)
+                  AND ($7::text IS NULL OR NOT (e.entity_type = $7 AND e.entity_id = $8::uuid))
+            ),
+            best AS (
+                SELECT DISTINCT ON (entity_type, entity_id) entity_type, entity_id, image_url, score
+                FROM scored
+                WHERE score >= $6
+                ORDER BY entity_type, entity_id, score DESC
+            ),
+            visible AS (
+                SELECT b.*,
+                       COALESCE(d.title, ml.title) AS title,
+                       d.slug,
+                       d.brand_name,
+                       COALESCE(d.price, ml.price) AS price,
+                       COALESCE(d.currency, ml.currency) AS currency,
+                       ROW_NUMBER() OVER (PARTITION BY b.entity_type ORDER BY b.score DESC) AS rank
+                FROM best b
+                LEFT JOIN search_documents d
+                    ON b.entity_type IN ('item', 'sku') AND d.entity_type = b.entity_type AND d.entity_id = b.entity_id
+                LEFT JOIN marketplace_listings ml
+                    ON b.entity_type = 'listing' AND ml.id = b.entity_id AND ml.status = 'active'
+                WHERE d.entity_id IS NOT NULL OR ml.id IS NOT NULL
+            )
+            SELECT entity_type, entity_id, image_url, score, title, slug, brand_name, price, currency
+            FROM visible
+            WHERE rank <= $5
+            ORDER BY score DESC`,
+            [embedding, this.model.name, types, viewerId || null, limit, minScore, exclude?.type || null, exclude?.id || null]
+        );
+
+        return result.rows.map(row => ({
+            type: row.entity_type,
+            id: row.entity_id,
+            title: row.title,
+            imageUrl: row.image_url,
+            slug: row.slug || undefined,
+            brand: row.brand_name || undefined,
+            price: row.price !== null && row.price !== undefined ? Number(row.price) : undefined,
+            currency: row.currency || undefined,
+            score: Number(row.score),
+        }));
+    }
+
+    /**
+     * Embeddings stored for one entity, e.g. to find SKUs that look like another SKU
+     */
+    static async getEmbeddings(entityType: VisualEntityType, entityId: string): Promise<number[][]> {
+        const result = await db.query(
+            'SELECT embedding FROM image_embeddings WHERE entity_type = $1 AND entity_id = $2 AND model = $3',
+            [entityType, entityId, this.model.name]
+        );
+        return result.rows.map(row => row.embedding.map(Number));
+    }
+
+    /**
+     * Pairs of items in a user's wardrobe whose photos are near-identical
+     */
+    static async findWardrobeDuplicates(userId: string, limit: number = 50): Promise<DuplicatePair[]> {
+        const result = await db.query(
+            `SELECT DISTINCT ON (a.entity_id, b.entity_id)
+                    a.entity_id AS item_id, a.image_url, b.entity_id AS duplicate_item_id,
+                    b.image_url AS duplicate_image_url, image_similarity(a.embedding, b.embedding) AS score
+             FROM image_embeddings a
+             JOIN image_embeddings b
+               ON b.entity_type = 'item' AND b.owner_id = a.owner_id AND b.model = a.model AND b.entity_id > a.entity_id
+             JOIN vufs_items ia ON ia.id = a.entity_id AND ia.deleted_at IS NULL
+             JOIN vufs_items ib ON ib.id = b.entity_id AND ib.deleted_at IS NULL
+             WHERE a.entity_type = 'item' AND a.owner_id = $1 AND a.model = $2
+               AND image_similarity(a.embedding, b.embedding) >= $3
+             ORDER BY a.entity_id, b.entity_id, score DESC
+             LIMIT $4`,
+            [userId, this.model.name, this.model.duplicateThreshold, limit]
+        );
+
+        return result.rows
+            .map(row => ({
+                itemId: row.item_id,
+                imageUrl: row.image_url,
+                duplicateItemId: row.duplicate_item_id,
+                duplicateImageUrl: row.duplicate_image_url,
+                score: Number(row.score),
+            }))
+            .sort((a, b) => b.score - a.score);
+    }
+
+    /**
+     * Load an image from local storage (`/storage/...`) or from an allowed
+     * remote host
+     */
+    static async loadImage(url: string): Promise<Buffer> {
+        if (url.startsWith('/storage/')) {
+            return LocalStorageService.readImage(url.slice('/storage/'.length));
+        }
+        if (!/^https?:\/\//.test(url)) {
+            throw new Error(`Unsupported image location: ${url}`);
+        }
+
+        const { buffer } = await RemoteImage.fetch(url, { maxBytes: MAX_REMOTE_IMAGE_BYTES, timeoutMs: REMOTE_IMAGE_TIMEOUT_MS });
+        return buffer;
+    }
+
+    private static async embedMissing(
+        entityType: VisualEntityType,
+        ids: string[]
+    ): Promise<Array<{ source: ImageSource; embedding: number[] }>> {
+        const sources = await db.query(
+            `SELECT source.entity_id, source.image_url, source.owner_id
+             FROM (${IMAGE_SOURCES[entityType]}) source
+             WHERE NOT EXISTS (
+                 SELECT 1 FROM image_embeddings e
+                 WHERE e.entity_type = $2 AND e.entity_id = source.entity_id
+                   AND e.image_url = source.image_url AND e.model = $3
+             )`,
+            [ids, entityType, this.model.name]
+        );
+
+        const embeddings: Array<{ source: ImageSource; embedding: number[] }> = [];
+        for (const source of sources.rows) {
+            try {
+                embeddings.push({ source, embedding: await this.model.embed(await this.loadImage(source.image_url)) });
+            } catch (error) {
+                console.warn(`Skipping image ${source.image_url} for ${entityType} ${source.entity_id}:`, error);
+            }
+        }
+        return embeddings;
+    }
+}
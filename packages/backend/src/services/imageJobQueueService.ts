@@ -0,0 +1,332 @@
+import path from 'path';
+import sharp from 'sharp';
+import {
+    ImageProcessingJobModel,
+    ImageProcessingJob,
+    ImageProcessingBatch,
+    CreateImageJobData,
+    ImageJobOperation,
+    IMAGE_JOB_OPERATIONS,
+} from '../models/ImageProcessingJob';
+import { ItemImageModel, ItemImage } from '../models/ItemImage';
+import { BackgroundRemovalService } from './backgroundRemovalService';
+import { ImageEmbeddingService } from './imageEmbeddingService';
+import { LocalStorageService } from './localStorageService';
+import { MessagingEventService } from './messagingEventService';
+
+export const MAX_JOBS_PER_BATCH = 50;
+
+const POLL_INTERVAL_MS = 2000;
+const RETRY_BASE_DELAY_MS = 15000;
+const RETRY_MAX_DELAY_MS = 10 * 60 * 1000;
+// A running job that has not reported progress for this long belongs to a dead worker
+const LOCK_TIMEOUT_MS = 15 * 60 * 1000;
+const THUMBNAIL_SIZE = 400;
+
+const ASPECT_RATIOS = ['1:1', '4:5', '3:4'] as const;
+
+export interface ImageJobBatchStatus {
+    batch: ImageProcessingBatch;
+    status: 'queued' | 'running' | 'completed';
+    progress: number;
+    counts: Record<ImageProcessingJob['status'], number>;
+    jobs: ImageProcessingJob[];
+}
+
+type ReportProgress = (progress: number) => Promise<void>;
+type JobProcessor = (job: ImageProcessingJob, image: ItemImage, report: ReportProgress) => Promise<any>;
+
+/**
+ * Delay before the next attempt of a failed job: 15s, 30s, 60s ... capped at 10 minutes
+ */
+export function retryDelayMs(attempt: number): number {
+    return Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(attempt - 1, 0), RETRY_MAX_DELAY_MS);
+}
+
+/**
+ * Persistent queue for wardrobe image processing. Requests only enqueue jobs;
+ * a worker started with the server claims them from the database, so work
+ * survives restarts and clients follow progress by polling the batch or
+ * listening for `image_job` events on the realtime gateway.
+ */
+export class ImageJobQueueService {
+    private static timer: ReturnType<typeof setInterval> | null = null;
+    private static running = 0;
+    private static polling = false;
+
+    private static processors: Record<ImageJobOperation, JobProcessor> = {
+        background_removal: (job, image, report) => this.removeBackground(job, image, report),
+        aspect_ratio: (job, image) => this.transformInPlace(job, image, async buffer => {
+            const ratio = job.options.ratio;
+            if (!ASPECT_RATIOS.includes(ratio)) {
+                throw new Error(`Invalid aspect ratio: ${ratio}`);
+            }
+            return { buffer: await BackgroundRemovalService.applyAspectRatio(buffer, ratio), analysis: { aspectRatio: ratio } };
+        }),
+        feathering: (job, image) => this.transformInPlace(job, image, async buffer => {
+            const radius = Number(job.options.radius);
+            if (!(radius >= 1 && radius <= 10)) {
+                throw new Error('Invalid feather radius: must be between 1 and 10');
+            }
+            return { buffer: await BackgroundRemovalService.applyEdgeFeathering(buffer, radius), analysis: { featherRadius: radius } };
+        }),
+        heic_conversion: (job, image) => this.transformInPlace(job, image, async buffer => {
+            const { format } = await sharp(buffer).metadata();
+            if (format !== 'heif') {
+                throw new Error(`Invalid image for HEIC conversion: format is ${format}`);
+            }
+            return {
+                buffer: await sharp(buffer).rotate().jpeg({ quality: 90 }).toBuffer(),
+                analysis: { convertedFrom: 'heic' },
+                mimetype: 'image/jpeg',
+            };
+        }),
+        thumbnail: (job, image, report) => this.createThumbnail(job, image, report),
+    };
+
+    /**
+     * Queue one job per image and operation. Repeating a request with the same
+     * idempotency key returns the batch created the first time.
+     */
+    static async enqueue(
+        userId: string,
+        itemId: string,
+        jobs: CreateImageJobData[],
+        idempotencyKey?: string
+    ): Promise<{ status: ImageJobBatchStatus; created: boolean }> {
+        if (jobs.length === 0) {
+            throw new Error('Invalid batch: no images to process');
+        }
+        if (jobs.length > MAX_JOBS_PER_BATCH) {
+            throw new Error(`Invalid batch: at most ${MAX_JOBS_PER_BATCH} jobs per request`);
+        }
+        for (const job of jobs) {
+            if (!IMAGE_JOB_OPERATIONS.includes(job.operation)) {
+                throw new Error(`Invalid operation: ${job.operation}`);
+            }
+        }
+
+        const { batch, created } = await ImageProcessingJobModel.createBatch(userId, itemId, jobs, idempotencyKey);
+        if (created) {
+            setImmediate(() => this.poll());
+        }
+
+        return { status: await this.getBatchStatus(batch), created };
+    }
+
+    static async getBatchStatus(batch: ImageProcessingBatch): Promise<ImageJobBatchStatus> {
+        const jobs = await ImageProcessingJobModel.findByBatch(batch.id);
+        return this.summarize(batch, jobs);
+    }
+
+    /**
+     * Roll job states up to a batch: completed once nothing is queued or
+     * running; progress counts finished jobs as 100
+     */
+    static summarize(batch: ImageProcessingBatch, jobs: ImageProcessingJob[]): ImageJobBatchStatus {
+        const counts = { queued: 0, running: 0, succeeded: 0, failed: 0, cancelled: 0 };
+        let progress = 0;
+        for (const job of jobs) {
+            counts[job.status]++;
+            progress += job.status === 'queued' || job.status === 'running' ? job.progress : 100;
+        }
+
+        const pending = counts.queued + counts.running;
+        return {
+            batch,
+            status: pending === 0 ? 'completed' : counts.running > 0 || pending < jobs.length ? 'running' : 'queued',
+            progress: jobs.length > 0 ? Math.round(progress / jobs.length) : 100,
+            counts,
+            jobs,
+        };
+    }
+
+    static start(): void {
+        if (this.timer) return;
+
+        ImageProcessingJobModel.requeueStale(LOCK_TIMEOUT_MS).catch(error => {
+            console.error('[ImageJobQueue] Failed to requeue stale jobs:', error);
+        });
+        this.timer = setInterval(() => this.poll(), POLL_INTERVAL_MS);
+        this.timer.unref?.();
+    }
+
+    static stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    /**
+     * Claim due jobs until the process-wide concurrency limit is reached
+     */
+    static async poll(): Promise<void> {
+        if (this.polling) return;
+        this.polling = true;
+
+        try {
+            const concurrency = parseInt(process.env.IMAGE_JOB_CONCURRENCY || '') || 2;
+            const perUser = parseInt(process.env.IMAGE_JOB_CONCURRENCY_PER_USER || '') || 1;
+
+            while (this.running < concurrency) {
+                const job = await ImageProcessingJobModel.claimNext(perUser);
+                if (!job) break;
+
+                this.running++;
+                this.publish(job);
+                this.run(job)
+                    .catch(error => console.error(`[ImageJobQueue] Job ${job.id} crashed:`, error))
+                    .finally(() => {
+                        this.running--;
+                        setImmediate(() => this.poll());
+                    });
+            }
+        } catch (error) {
+            console.error('[ImageJobQueue] Poll failed:', error);
+        } finally {
+            this.polling = false;
+        }
+    }
+
+    /**
+     * Execute one claimed job. Errors starting with "Invalid" will fail the
+     * same way on every attempt, so they are not retried.
+     */
+    static async run(job: ImageProcessingJob): Promise<ImageProcessingJob | null> {
+        const report: ReportProgress = async progress => {
+            job.progress = progress;
+            await ImageProcessingJobModel.updateProgress(job.id, progress);
+            this.publish(job);
+        };
+
+        let finished: ImageProcessingJob | null;
+        try {
+            const image = await ItemImageModel.findById(job.imageId);
+            if (!image || image.itemId !== job.itemId) {
+                throw new Error('Invalid job: image no longer belongs to the item');
+            }
+
+            const result = await this.processors[job.operation](job, image, report);
+            finished = await ImageProcessingJobModel.markSucceeded(job.id, result);
+        } catch (error: any) {
+            const message: string = error?.message || 'Image processing failed';
+            const retryable = !message.startsWith('Invalid') && job.attempts < job.maxAttempts;
+            const retryAt = retryable ? new Date(Date.now() + retryDelayMs(job.attempts)) : null;
+            finished = await ImageProcessingJobModel.markAttemptFailed(job.id, message, retryAt);
+        }
+
+        if (finished) {
+            this.publish(finished);
+        }
+        return finished;
+    }
+
+    private static async removeBackground(job: ImageProcessingJob, image: ItemImage, report: ReportProgress) {
+        const buffer = await this.loadImage(image.imageUrl);
+        await report(20);
+
+        const { quality, featherRadius, outputRatio, retainShadow } = job.options;
+        const processed = await BackgroundRemovalService.removeBackground(buffer, {
+            quality, featherRadius, outputRatio, retainShadow,
+        });
+        await report(80);
+
+        // One background-removed version per original
+        const images = await ItemImageModel.findByItemId(job.itemId);
+        for (const previous of images) {
+            if (previous.imageType === 'background_removed' && previous.aiAnalysis?.originalImageId === image.id) {
+                await ItemImageModel.delete(previous.id);
+            }
+        }
+
+        const upload = await LocalStorageService.uploadImage(
+            processed,
+            `bg_removed_${path.basename(image.imageUrl)}`,
+            'image/png',
+            'wardrobe',
+            job.userId
+        );
+        const created = await ItemImageModel.create({
+            itemId: job.itemId,
+            imageUrl: upload.optimizedUrl || upload.url,
+            imageType: 'background_removed',
+            isPrimary: false,
+            aiAnalysis: {
+                backgroundRemoved: true,
+                originalImageId: image.id,
+            },
+            fileSize: upload.size,
+            mimeType: upload.mimetype,
+            blurhash: upload.blurhash,
+        });
+
+        return { imageId: created.id, imageUrl: created.imageUrl, originalImageId: image.id };
+    }
+
+    private static async transformInPlace(
+        job: ImageProcessingJob,
+        image: ItemImage,
+        transform: (buffer: Buffer) => Promise<{ buffer: Buffer; analysis: Record<string, any>; mimetype?: string }>
+    ) {
+        const { buffer, analysis, mimetype = 'image/png' } = await transform(await this.loadImage(image.imageUrl));
+        const extension = mimetype === 'image/jpeg' ? '.jpg' : '.png';
+
+        const upload = await LocalStorageService.uploadImage(
+            buffer,
+            `${job.operation}_${path.parse(image.imageUrl).name}${extension}`,
+            mimetype,
+            'wardrobe',
+            job.userId
+        );
+        const updated = await ItemImageModel.replaceFile(image.id, upload.optimizedUrl || upload.url, analysis, upload.blurhash);
+
+        return { imageId: image.id, imageUrl: updated?.imageUrl, previousImageUrl: image.imageUrl };
+    }
+
+    private static async createThumbnail(job: ImageProcessingJob, image: ItemImage, report: ReportProgress) {
+        const size = Math.min(Number(job.options.size) || THUMBNAIL_SIZE, 1200);
+        const source = await this.loadImage(image.imageUrl);
+        await report(40);
+
+        const thumbnail = await sharp(source)
+            .rotate()
+            .resize(size, size, { fit: 'inside', withoutEnlargement: true })
+            .webp({ quality: 80 })
+            .toBuffer();
+        const upload = await LocalStorageService.uploadImage(
+            thumbnail,
+            `thumb_${path.parse(image.imageUrl).name}.webp`,
+            'image/webp',
+            'wardrobe',
+            job.userId
+        );
+        await ItemImageModel.replaceFile(image.id, image.imageUrl, { thumbnailUrl: upload.url });
+
+        return { imageId: image.id, thumbnailUrl: upload.url };
+    }
+
+    /**
+     * Item images are stored as `/storage/...`, `storage/...` or remote URLs
+     */
+    private static loadImage(imageUrl: string): Promise<Buffer> {
+        if (/^https?:\/\//.test(imageUrl)) {
+            return ImageEmbeddingService.loadImage(imageUrl);
+        }
+        return ImageEmbeddingService.loadImage(`/storage/${imageUrl.replace(/^\/?(storage\/)?/, '')}`);
+    }
+
+    private static publish(job: ImageProcessingJob): void {
+        MessagingEventService.emitToUser(job.userId, 'image_job', {
+            jobId: job.id,
+            batchId: job.batchId,
+            imageId: job.imageId,
+            operation: job.operation,
+            status: job.status,
+            progress: job.progress,
+            attempts: job.attempts,
+            result: job.result,
+            error: job.error,
+        });
+    }
+}
@@ -0,0 +1,279 @@
+import crypto from 'crypto';
+import sharp from 'sharp';
+import { LocalStorageService } from './localStorageService';
+import { GoogleCloudService } from './googleCloudService';
+
+export const TRANSFORM_FITS = ['cover', 'contain', 'inside', 'outside', 'fill'] as const;
+export const TRANSFORM_FORMATS = ['auto', 'webp', 'avif', 'jpeg', 'png'] as const;
+export const MAX_TRANSFORM_DIMENSION = 2048;
+export const RESPONSIVE_WIDTHS = [320, 640, 960, 1280];
+
+const DEFAULT_QUALITY = 75;
+const DEFAULT_URL_TTL_SECONDS = 7 * 24 * 60 * 60;
+const DAY_SECONDS = 24 * 60 * 60;
+
+export type TransformFit = typeof TRANSFORM_FITS[number];
+export type TransformFormat = typeof TRANSFORM_FORMATS[number];
+
+export interface TransformParams {
+  width?: number;
+  height?: number;
+  fit: TransformFit;
+  format: TransformFormat;
+  quality: number;
+}
+
+export interface ImageDerivative {
+  buffer: Buffer;
+  contentType: string;
+  etag: string;
+}
+
+type OutputFormat = Exclude<TransformFormat, 'auto'>;
+
+/**
+ * On-demand resizing and re-encoding of stored images. URLs are signed so
+ * only sizes the API hands out get rendered; each derivative is cached next
+ * to the other storage variants and mirrored to GCS, keyed by the source
+ * version so replacing the source invalidates it.
+ */
+export class ImageTransformService {
+  /**
+   * Read transform options from query parameters (`w`, `h`, `fit`, `fm`, `q`)
+   */
+  static parseParams(query: Record<string, any>): TransformParams {
+    const dimension = (name: string): number | undefined => {
+      if (query[name] === undefined || query[name] === '') return undefined;
+      const value = Number(query[name]);
+      if (!Number.isInteger(value) || value < 1 || value > MAX_TRANSFORM_DIMENSION) {
+        throw new Error(`Invalid ${name}: must be an integer between 1 and ${MAX_TRANSFORM_DIMENSION}`);
+      }
+      return value;
+    };
+
+    const fit = (query.fit || 'cover') as TransformFit;
+    if (!TRANSFORM_FITS.includes(fit)) {
+      throw new Error(`Invalid fit: ${fit}`);
+    }
+
+    const format = (query.fm || 'auto') as TransformFormat;
+    if (!TRANSFORM_FORMATS.includes(format)) {
+      throw new Error(`Invalid format: ${format}`);
+    }
+
+    const quality = query.q === undefined ? DEFAULT_QUALITY : Number(query.q);
+    if (!Number.isInteger(quality) || quality < 1 || quality > 100) {
+      throw new Error('Invalid quality: must be an integer between 1 and 100');
+    }
+
+    return { width: dimension('w'), height: dimension('h'), fit, format, quality };
+  }
+
+  /**
+   * Query string for a transform, in a fixed order so it can be signed
+   */
+  static toQuery(params: TransformParams): string {
+    const parts: string[] = [];
+    if (params.width) parts.push(`w=${params.width}`);
+    if (params.height) parts.push(`h=${params.height}`);
+    parts.push(`fit=${params.fit}`, `fm=${params.format}`, `q=${params.quality}`);
+    return parts.join('&');
+  }
+
+  static sign(sourcePath: string, params: TransformParams, expiresAt: number): string {
+    return crypto
+      .createHmac('sha256', this.secret())
+      .update(`${this.normalizePath(sourcePath)}?${this.toQuery(params)}&exp=${expiresAt}`)
+      .digest('base64url');
+  }
+
+  /**
+   * Check a signature and its expiry (unix seconds)
+   */
+  static verify(
+    sourcePath: string,
+    params: TransformParams,
+    expiresAt: number,
+    signature: string | undefined,
+    now: number = Math.floor(Date.now() / 1000)
+  ): boolean {
+    if (!signature || !Number.isInteger(expiresAt) || expiresAt < now) {
+      return false;
+    }
+
+    const expected = new Uint8Array(Buffer.from(this.sign(sourcePath, params, expiresAt)));
+    const received = new Uint8Array(Buffer.from(signature));
+    return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+  }
+
+  /**
+   * Signed transform URL for a stored image, or null for images hosted elsewhere.
+   * Expiry is rounded up to the next day so repeated calls return the same URL
+   * and browsers can reuse their cache.
+   */
+  static signedUrl(
+    imageUrl: string,
+    params: Partial<TransformParams>,
+    ttlSeconds: number = DEFAULT_URL_TTL_SECONDS
+  ): string | null {
+    const sourcePath = this.toStoragePath(imageUrl);
+    if (!sourcePath) return null;
+
+    const full: TransformParams = { fit: 'cover', format: 'auto', quality: DEFAULT_QUALITY, ...params };
+    const now = Math.floor(Date.now() / 1000);
+    const expiresAt = Math.ceil((now + ttlSeconds) / DAY_SECONDS) * DAY_SECONDS;
+    const signature = this.sign(sourcePath, full, expiresAt);
+    const baseUrl = process.env.API_URL || 'http://localhost:3001';
+
+    return `${baseUrl}/storage/transform/${sourcePath}?${this.toQuery(full)}&exp=${expiresAt}&sig=${signature}`;
+  }
+
+  /**
+   * Width-descriptor candidates for a responsive `srcset`
+   */
+  static srcSet(imageUrl: string, widths: number[] = RESPONSIVE_WIDTHS): Array<{ width: number; url: string }> {
+    if (!this.toStoragePath(imageUrl)) return [];
+    return widths.map(width => ({
+      width,
+      url: this.signedUrl(imageUrl, { width, fit: 'inside' }) as string,
+    }));
+  }
+
+  /**
+   * Render a derivative, or return the cached copy made from the same source version
+   */
+  static async getDerivative(sourcePath: string, params: TransformParams, accept: string = ''): Promise<ImageDerivative> {
+    const source = this.normalizePath(sourcePath);
+    const version = await this.sourceVersion(source);
+    if (!version) {
+      throw new Error('Image not found');
+    }
+
+    const format = this.resolveFormat(params.format, accept);
+    const paramsKey = this.hash(this.toQuery({ ...params, format }), 12);
+    const versionKey = this.hash(version, 8);
+    const filename = `${paramsKey}-${versionKey}.${format === 'jpeg' ? 'jpg' : format}`;
+    const dir = LocalStorageService.derivativeDir(source);
+    const cachePath = `${dir}/${filename}`;
+    const derivative = (buffer: Buffer): ImageDerivative => ({
+      buffer,
+      contentType: `image/${format}`,
+      etag: `"${paramsKey}-${versionKey}"`,
+    });
+
+    const cached = await LocalStorageService.listFiles(dir);
+    if (cached.includes(filename)) {
+      return derivative(await LocalStorageService.readImage(cachePath));
+    }
+
+    // Derivatives rendered from an older version of the source are stale
+    for (const name of cached) {
+      if (!name.includes(`-${versionKey}.`)) {
+        await LocalStorageService.deletePath(`${dir}/${name}`);
+      }
+    }
+
+    try {
+      if (await GoogleCloudService.fileExists(cachePath)) {
+        const buffer = await GoogleCloudService.downloadFile(cachePath);
+        await LocalStorageService.saveFile(cachePath, buffer);
+        return derivative(buffer);
+      }
+    } catch (error) {
+      console.warn('Derivative cache lookup in GCS failed:', error);
+    }
+
+    const buffer = await this.render(await this.loadSource(source), params, format);
+    await LocalStorageService.saveFile(cachePath, buffer);
+    try {
+      await GoogleCloudService.uploadImage(buffer, cachePath, `image/${format}`);
+    } catch (error) {
+      console.warn('Derivative mirroring to GCS failed, continuing with local only:', error);
+    }
+
+    return derivative(buffer);
+  }
+
+  static async render(source: Buffer, params: TransformParams, format: OutputFormat): Promise<Buffer> {
+    let pipeline = sharp(source).rotate();
+    if (params.width || params.height) {
+      pipeline = pipeline.resize(params.width, params.height, { fit: params.fit, withoutEnlargement: true });
+    }
+
+    switch (format) {
+      case 'avif':
+        return pipeline.avif({ quality: params.quality }).toBuffer();
+      case 'webp':
+        return pipeline.webp({ quality: params.quality }).toBuffer();
+      case 'png':
+        return pipeline.png().toBuffer();
+      default:
+        return pipeline.flatten({ background: '#ffffff' }).jpeg({ quality: params.quality, mozjpeg: true }).toBuffer();
+    }
+  }
+
+  /**
+   * `auto` picks the smallest format the browser accepts. The fallback is PNG
+   * because background-removed images need their transparency.
+   */
+  static resolveFormat(format: TransformFormat, accept: string): OutputFormat {
+    if (format !== 'auto') return format;
+    if (accept.includes('image/avif')) return 'avif';
+    if (accept.includes('image/webp')) return 'webp';
+    return 'png';
+  }
+
+  /**
+   * Storage-relative path for a stored image URL; null for remote images
+   */
+  static toStoragePath(imageUrl: string): string | null {
+    if (!imageUrl) return null;
+
+    const baseUrl = process.env.API_URL || 'http://localhost:3001';
+    let relative = imageUrl.startsWith(baseUrl) ? imageUrl.slice(baseUrl.length) : imageUrl;
+    if (/^https?:\/\//.test(relative)) return null;
+
+    relative = this.normalizePath(relative.split('?')[0]);
+    return relative || null;
+  }
+
+  private static normalizePath(sourcePath: string): string {
+    let relative = sourcePath.replace(/\\/g, '/');
+    while (relative.startsWith('/')) relative = relative.slice(1);
+    while (relative.startsWith('storage/')) relative = relative.slice('storage/'.length);
+    if (relative.split('/').includes('..')) {
+      throw new Error('Invalid storage path');
+    }
+    return relative;
+  }
+
+  private static async sourceVersion(source: string): Promise<string | null> {
+    const info = await LocalStorageService.getImageInfo(source);
+    if (info.exists) {
+      return `local:${info.lastModified?.getTime()}:${info.size}`;
+    }
+
+    try {
+      const generation = await GoogleCloudService.getFileGeneration(source);
+      return generation && `gcs:${generation}`;
+    } catch (error) {
+      console.warn('Source lookup in GCS failed:', error);
+      return null;
+    }
+  }
+
+  private static async loadSource(source: string): Promise<Buffer> {
+    if (await LocalStorageService.imageExists(source)) {
+      return LocalStorageService.readImage(source);
+    }
+    return GoogleCloudService.downloadFile(source);
+  }
+
+  private static hash(value: string, length: number): string {
+    return crypto.createHash('sha1').update(value).digest('hex').slice(0, length);
+  }
+
+  private static secret(): string {
+    return process.env.IMAGE_URL_SIGNING_SECRET || process.env.JWT_SECRET || 'fallback_secret';
+  }
+}
@@ -0,0 +1,567 @@
+import { PoolClient } from 'pg';
+import { db } from '../database/connection';
+import { InventoryItem, InventoryManagementModel } from '../models/InventoryManagement';
+import { InventoryReservation, InventoryReservationModel, InventoryReservationStatus } from '../models/InventoryReservation';
+import { SKUItem, SKUItemModel } from '../models/SKUItem';
+import { StoreModel } from '../models/Store';
+import { BrandAccountModel } from '../models/BrandAccount';
+import { BrandRole, BrandTeamModel } from '../models/BrandTeam';
+import { EventNotificationService } from './EventNotificationService';
+import { SKU_EDITOR_ROLES, SKUVersionService } from './skuVersionService';
+
+/** How long checkout holds stock before it returns to sale */
+export const RESERVATION_TTL_MINUTES = 30;
+
+export interface SetStockLevelInput {
+  skuItemId: string;
+  storeId?: string | null;
+  /** Counted quantity on hand, recorded as an adjustment */
+  quantity?: number;
+  reorderLevel?: number;
+  reorderQuantity?: number;
+  cost?: number;
+  location?: string;
+  notes?: string;
+}
+
+export interface StoreSaleInput {
+  /** Reservation made when the checkout started; replaces skuItemId and storeId */
+  reservationId?: string;
+  skuItemId?: string;
+  storeId?: string | null;
+  quantity?: number;
+  reference?: string;
+}
+
+export interface ReserveStockInput {
+  skuItemId: string;
+  quantity: number;
+  userId: string;
+  /** Limit to one location; by default the location with most stock is used */
+  storeId?: string | null;
+  reference?: string;
+  ttlMinutes?: number;
+}
+
+export interface StockAvailability {
+  skuItemId: string;
+  available: number;
+  locations: Array<{ storeId: string | null; storeName?: string; available: number }>;
+}
+
+/** The parts of a marketplace listing and transaction the stock sync reads */
+interface StockListing {
+  id: string;
+  stockSkuItemId?: string;
+  stockStoreId?: string;
+}
+
+interface StockTransaction {
+  id: string;
+  sellerId: string;
+}
+
+/**
+ * Stock of SKU variants across a brand's locations: counts, checkout
+ * reservations, sales and low-stock alerts to the brand team
+ */
+export class InventoryStockService {
+  /**
+   * Set the stock level and reorder settings of a SKU variant at a location,
+   * creating the stock row the first time
+   */
+  static async setStockLevel(brandId: string, input: SetStockLevelInput, performedBy: string): Promise<InventoryItem> {
+    this.assertCount('quantity', input.quantity);
+    this.assertCount('reorderLevel', input.reorderLevel);
+    this.assertCount('reorderQuantity', input.reorderQuantity);
+    if (input.cost !== undefined && (!Number.isFinite(input.cost) || input.cost < 0)) {
+      throw new Error('Invalid cost: must be a non-negative number');
+    }
+
+    const sku = await this.assertBrandSku(brandId, input.skuItemId);
+    const storeId = input.storeId || null;
+    if (storeId) {
+      await this.assertBrandStore(brandId, storeId);
+    }
+
+    const existing = await db.transaction(async (client: PoolClient) => {
+      const item = await InventoryManagementModel.findBySkuLocation(sku.id, storeId, client);
+      if (!item) {
+        const created = await InventoryManagementModel.create({
+          brandId,
+          skuItemId: sku.id,
+          storeId: storeId || undefined,
+          sku: sku.code,
+          quantity: 0,
+          reorderLevel: input.reorderLevel,
+          reorderQuantity: input.reorderQuantity,
+          cost: input.cost,
+          location: input.location,
+          notes: input.notes,
+        }, client);
+        await this.recordCount(client, created, input.quantity, performedBy);
+        return null;
+      }
+
+      await this.recordCount(client, item, input.quantity, performedBy);
+      return item;
+    });
+
+    if (existing) {
+      const settings = {
+        reorderLevel: input.reorderLevel,
+        reorderQuantity: input.reorderQuantity,
+        cost: input.cost,
+        location: input.location,
+        notes: input.notes,
+      };
+      if (Object.values(settings).some(value => value !== undefined)) {
+        await InventoryManagementModel.update(existing.id, settings);
+      }
+    }
+
+    await this.checkLowStock(sku.id, storeId);
+    return (await InventoryManagementModel.findBySkuLocation(sku.id, storeId))!;
+  }
+
+  static async getStockLevels(
+    brandId: string,
+    filters: { skuItemId?: string; storeId?: string | null; lowStock?: boolean } = {},
+    limit = 50,
+    offset = 0
+  ): Promise<{ items: InventoryItem[]; total: number }> {
+    return InventoryManagementModel.findStockLevels(brandId, filters, limit, offset);
+  }
+
+  /**
+   * Units of a SKU variant available to buy, in total and per location
+   */
+  static async getAvailability(skuItemId: string): Promise<StockAvailability> {
+    const items = await InventoryManagementModel.findBySkuItem(skuItemId);
+    const locations = items.map(item => ({
+      storeId: item.storeId || null,
+      storeName: item.storeName,
+      available: Math.max(item.availableQuantity, 0),
+    }));
+
+    return {
+      skuItemId,
+      available: locations.reduce((sum, location) => sum + location.available, 0),
+      locations,
+    };
+  }
+
+  /**
+   * Hold stock for a checkout. Reservations expire after the TTL unless they
+   * are committed, released or held until a confirmed payment completes.
+   */
+  static async reserve(input: ReserveStockInput): Promise<InventoryReservation> {
+    if (!Number.isInteger(input.quantity) || input.quantity < 1) {
+      throw new Error('Invalid quantity: must be a positive integer');
+    }
+    const ttlMinutes = input.ttlMinutes ?? RESERVATION_TTL_MINUTES;
+
+    const reservation = await db.transaction(async (client: PoolClient) => {
+      // Stale holds on this SKU must not block the new checkout
+      await this.expireReservations(client, input.skuItemId);
+
+      const item = await InventoryManagementModel.lockAvailableStock(client, input.skuItemId, input.quantity, input.storeId);
+      if (!item) {
+        throw new Error(`Insufficient stock: fewer than ${input.quantity} available`);
+      }
+
+      await InventoryManagementModel.recordMovement({
+        inventoryItemId: item.id,
+        movementType: 'reserved',
+        quantity: input.quantity,
+        reason: 'Checkout reservation',
+        reference: input.reference,
+        performedBy: input.userId,
+      }, client);
+
+      const created = await InventoryReservationModel.create(client, {
+        inventoryItemId: item.id,
+        quantity: input.quantity,
+        reference: input.reference,
+        userId: input.userId,
+        expiresAt: new Date(Date.now() + ttlMinutes * 60 * 1000),
+      });
+      return { ...created, skuItemId: item.skuItemId, storeId: item.storeId };
+    });
+
+    await this.checkLowStock(input.skuItemId, reservation.storeId || null);
+    return reservation;
+  }
+
+  /**
+   * Return a reservation's stock to sale. Only the user who made it may
+   * release it when a userId is given.
+   */
+  static async releaseReservation(reservationId: string, userId?: string): Promise<InventoryReservation | null> {
+    const released = await db.transaction(async (client: PoolClient) => {
+      const reservation = await InventoryReservationModel.findById(reservationId, client);
+      if (!reservation || (userId && reservation.userId !== userId)) {
+        return null;
+      }
+      if (reservation.status !== 'active') {
+        throw new Error(`Invalid reservation: already ${reservation.status}`);
+      }
+
+      await this.settle(client, reservation, 'released', reservation.userId, 'Checkout abandoned');
+      return { ...reservation, status: 'released' as InventoryReservationStatus };
+    });
+
+    if (released) {
+      await this.checkLowStock(released.skuItemId!, released.storeId || null);
+    }
+    return released;
+  }
+
+  /**
+   * Record a sale at one of the brand's stores, from the checkout's
+   * reservation or straight from the location's available stock
+   */
+  static async recordStoreSale(brandId: string, input: StoreSaleInput, performedBy: string): Promise<InventoryItem> {
+    let skuItemId: string;
+    let storeId: string | null;
+
+    if (input.reservationId) {
+      const reservation = await InventoryReservationModel.findById(input.reservationId);
+      if (!reservation) {
+        throw new Error('Reservation not found');
+      }
+      await this.assertBrandSku(brandId, reservation.skuItemId!);
+
+      skuItemId = reservation.skuItemId!;
+      storeId = reservation.storeId || null;
+      await db.transaction(async (client: PoolClient) => {
+        const locked = await InventoryReservationModel.findById(reservation.id, client);
+        if (!locked || locked.status !== 'active') {
+          throw new Error(`Invalid reservation: already ${locked?.status || 'removed'}`);
+        }
+        await this.settle(client, locked, 'committed', performedBy, 'Store sale', input.reference);
+      });
+    } else {
+      if (!input.skuItemId) {
+        throw new Error('Invalid sale: skuItemId or reservationId is required');
+      }
+      const quantity = input.quantity ?? 1;
+      if (!Number.isInteger(quantity) || quantity < 1) {
+        throw new Error('Invalid quantity: must be a positive integer');
+      }
+
+      const sku = await this.assertBrandSku(brandId, input.skuItemId);
+      skuItemId = sku.id;
+      storeId = input.storeId || null;
+      if (storeId) {
+        await this.assertBrandStore(brandId, storeId);
+      }
+
+      await db.transaction(async (client: PoolClient) => {
+        const item = await InventoryManagementModel.findBySkuLocation(skuItemId, storeId, client);
+        if (!item || item.availableQuantity < quantity) {
+          throw new Error(`Insufficient stock: ${item ? item.availableQuantity : 0} available at this location`);
+        }
+        await InventoryManagementModel.recordMovement({
+          inventoryItemId: item.id,
+          movementType: 'out',
+          quantity,
+          reason: 'Store sale',
+          reference: input.reference,
+          performedBy,
+        }, client);
+      });
+    }
+
+    await this.checkLowStock(skuItemId, storeId);
+    return (await InventoryManagementModel.findBySkuLocation(skuItemId, storeId))!;
+  }
+
+  /**
+   * Return stock held by expired reservations to sale. Runs on the background
+   * job scheduler; reserving also sweeps the SKU it reserves.
+   */
+  static async releaseExpiredReservations(): Promise<number> {
+    const expired = await db.transaction((client: PoolClient) => this.expireReservations(client));
+    return expired.length;
+  }
+
+  /**
+   * Check that a seller may list a SKU variant's stock on the marketplace:
+   * they manage the SKU's brand and the store is one of its locations
+   */
+  static async assertListingStock(
+    user: { userId: string; roles?: string[] },
+    skuItemId: string,
+    storeId?: string | null
+  ): Promise<void> {
+    const sku = await SKUItemModel.findById(skuItemId);
+    if (!sku) {
+      throw new Error('Invalid stockSkuItemId: SKU not found');
+    }
+    if (!await SKUVersionService.resolveEditor(sku.brandId, user)) {
+      throw new Error('Invalid stockSkuItemId: you do not manage this brand\'s stock');
+    }
+    if (storeId) {
+      await this.assertBrandStore(sku.brandId, storeId);
+    }
+  }
+
+  /**
+   * Reserve the brand stock a listing sells from when a buyer starts checkout.
+   * Listings of a user's own pieces hold no stock and return null.
+   */
+  static async reserveForListing(listing: StockListing, buyerId: string): Promise<InventoryReservation | null> {
+    if (!listing.stockSkuItemId) {
+      return null;
+    }
+
+    return this.reserve({
+      skuItemId: listing.stockSkuItemId,
+      storeId: listing.stockStoreId || null,
+      quantity: 1,
+      userId: buyerId,
+    });
+  }
+
+  static async attachReservation(reservationId: string, transactionId: string): Promise<void> {
+    await InventoryReservationModel.setReference(reservationId, transactionId);
+  }
+
+  /**
+   * Once payment is confirmed, keep the stock held until the sale completes.
+   * A reservation that expired while payment was pending is made again when
+   * stock allows.
+   */
+  static async holdForTransaction(transaction: StockTransaction & { buyerId: string }, listing: StockListing): Promise<void> {
+    if (!listing.stockSkuItemId) {
+      return;
+    }
+
+    const held = await InventoryReservationModel.setExpiry(transaction.id, null);
+    if (held > 0) {
+      return;
+    }
+
+    try {
+      await this.reserve({
+        skuItemId: listing.stockSkuItemId,
+        storeId: listing.stockStoreId || null,
+        quantity: 1,
+        userId: transaction.buyerId,
+        reference: transaction.id,
+      });
+      await InventoryReservationModel.setExpiry(transaction.id, null);
+    } catch (error) {
+      console.error(`[InventoryStockService] Could not hold stock for paid transaction ${transaction.id}:`, error);
+    }
+  }
+
+  /**
+   * Write the sale's stock movement when a transaction completes: from its
+   * reservation, or straight from the listing's stock when none is held
+   */
+  static async commitForTransaction(transaction: StockTransaction, listing: StockListing): Promise<void> {
+    if (!listing.stockSkuItemId) {
+      return;
+    }
+
+    const committed = await db.transaction(async (client: PoolClient) => {
+      const reservations = await InventoryReservationModel.findByReference(transaction.id, ['active'], client);
+      for (const reservation of reservations) {
+        await this.settle(client, reservation, 'committed', transaction.sellerId, 'Marketplace sale');
+      }
+      if (reservations.length > 0) {
+        return reservations[0];
+      }
+
+      const item = await InventoryManagementModel.findBySkuLocation(listing.stockSkuItemId!, listing.stockStoreId || null, client);
+      if (!item) {
+        return null;
+      }
+      // Sold regardless of the count: the buyer already has the item
+      await InventoryManagementModel.recordMovement({
+        inventoryItemId: item.id,
+        movementType: 'out',
+        quantity: 1,
+        reason: 'Marketplace sale',
+        reference: transaction.id,
+        performedBy: transaction.sellerId,
+      }, client);
+      return item;
+    });
+
+    if (committed) {
+      await this.checkLowStock(listing.stockSkuItemId, committed.storeId || null);
+    }
+  }
+
+  /**
+   * Return stock held for a transaction that was cancelled or failed
+   */
+  static async releaseForTransaction(transactionId: string, reason: string): Promise<void> {
+    const released = await db.transaction(async (client: PoolClient) => {
+      const reservations = await InventoryReservationModel.findByReference(transactionId, ['active'], client);
+      for (const reservation of reservations) {
+        await this.settle(client, reservation, 'released', reservation.userId, reason);
+      }
+      return reservations;
+    });
+
+    for (const reservation of released) {
+      await this.checkLowStock(reservation.skuItemId!, reservation.storeId || null);
+    }
+  }
+
+  /**
+   * Alert the brand team once when a location's available stock reaches its
+   * reorder level, and re-arm the alert when stock recovers
+   */
+  static async checkLowStock(skuItemId: string, storeId: string | null): Promise<void> {
+    try {
+      const item = await InventoryManagementModel.findBySkuLocation(skuItemId, storeId);
+      if (!item) {
+        return;
+      }
+
+      const isLow = item.availableQuantity <= item.reorderLevel;
+      const changed = await InventoryManagementModel.setLowStockAlerted(item.id, isLow);
+      if (!isLow || !changed) {
+        return;
+      }
+
+      const [sku, store, recipients] = await Promise.all([
+        SKUItemModel.findById(skuItemId),
+        storeId ? StoreModel.findById(storeId) : Promise.resolve(null),
+        this.getAlertRecipients(item.brandId),
+      ]);
+
+      await EventNotificationService.notifyLowStock(recipients, {
+        ...item,
+        skuName: sku?.name,
+        storeName: store?.name,
+      });
+    } catch (error) {
+      console.error('[InventoryStockService] Low-stock check failed:', error);
+    }
+  }
+
+  /**
+   * The brand owner and team members who manage the catalog
+   */
+  static async getAlertRecipients(brandId: string): Promise<string[]> {
+    const [brand, team] = await Promise.all([
+      BrandAccountModel.findById(brandId),
+      BrandTeamModel.getTeamMembers(brandId),
+    ]);
+
+    const recipients = new Set<string>();
+    if (brand?.userId) {
+      recipients.add(brand.userId);
+    }
+    for (const member of team) {
+      if ((member.roles || []).some(role => SKU_EDITOR_ROLES.includes(role as BrandRole))) {
+        recipients.add(member.userId);
+      }
+    }
+    return [...recipients];
+  }
+
+  /**
+   * Release or commit a locked, active reservation. Committing moves the
+   * units out of stock with the sale's reference.
+   */
+  private static async settle(
+    client: PoolClient,
+    reservation: InventoryReservation,
+    outcome: Exclude<InventoryReservationStatus, 'active'>,
+    performedBy: string,
+    reason: string,
+    reference?: string
+  ): Promise<void> {
+    const movementReference = reference || reservation.reference;
+
+    await InventoryManagementModel.recordMovement({
+      inventoryItemId: reservation.inventoryItemId,
+      movementType: 'released',
+      quantity: reservation.quantity,
+      reason: outcome === 'expired' ? 'Reservation expired' : reason,
+      reference: movementReference,
+      performedBy,
+    }, client);
+
+    if (outcome === 'committed') {
+      await InventoryManagementModel.recordMovement({
+        inventoryItemId: reservation.inventoryItemId,
+        movementType: 'out',
+        quantity: reservation.quantity,
+        reason,
+        reference: movementReference,
+        performedBy,
+      }, client);
+    }
+
+    await InventoryReservationModel.updateStatus(client, reservation.id, outcome);
+  }
+
+  private static async expireReservations(client: PoolClient, skuItemId?: string): Promise<InventoryReservation[]> {
+    const expired = await InventoryReservationModel.lockExpired(client, skuItemId);
+    for (const reservation of expired) {
+      await this.settle(client, reservation, 'expired', reservation.userId, 'Reservation expired');
+    }
+    return expired;
+  }
+
+  /**
+   * Record a stock count as an adjustment, keeping units reserved by
+   * checkouts covered
+   */
+  private static async recordCount(client: PoolClient, item: InventoryItem, quantity: number | undefined, performedBy: string): Promise<void> {
+    if (quantity === undefined || quantity === item.quantity) {
+      return;
+    }
+    if (quantity < item.reservedQuantity) {
+      throw new Error(`Invalid quantity: ${item.reservedQuantity} units are reserved by open checkouts`);
+    }
+
+    await InventoryManagementModel.recordMovement({
+      inventoryItemId: item.id,
+      movementType: 'adjustment',
+      quantity,
+      reason: 'Stock count',
+      performedBy,
+    }, client);
+  }
+
+  private static async assertBrandSku(brandId: string, skuItemId: string): Promise<SKUItem> {
+    const sku = skuItemId ? await SKUItemModel.findById(skuItemId) : null;
+    if (!sku || sku.brandId !== brandId) {
+      throw new Error('Invalid skuItemId: SKU not found in this brand');
+    }
+    return sku;
+  }
+
+  /**
+   * Stores are a brand's locations when they are run by the brand owner or
+   * one of its team members
+   */
+  private static async assertBrandStore(brandId: string, storeId: string): Promise<void> {
+    const [store, brand] = await Promise.all([StoreModel.findById(storeId), BrandAccountModel.findById(brandId)]);
+    if (!store) {
+      throw new Error('Invalid storeId: store not found');
+    }
+
+    const isBrandLocation = !!store.userId && (
+      store.userId === brand?.userId || await BrandTeamModel.isMember(brandId, store.userId)
+    );
+    if (!isBrandLocation) {
+      throw new Error('Invalid storeId: the store is not one of the brand\'s locations');
+    }
+  }
+
+  private static assertCount(field: string, value: number | undefined): void {
+    if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+      throw new Error(`Invalid ${field}: must be a non-negative integer`);
+    }
+  }
+}
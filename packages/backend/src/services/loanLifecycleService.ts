@@ -0,0 +1,444 @@
+import { ItemTrackingModel, LoanReminderCandidate } from '../models/ItemTracking';
+import { VUFSItemModel, BackendVUFSItem } from '../models/VUFSItem';
+import { ConditionModel, Condition } from '../models/Condition';
+import { UserModel } from '../models/User';
+import { MessagingService } from './messagingService';
+import { NotificationService } from './notificationService';
+import { LoanRecord, LoanConditionCheck } from '../utils/itemTracking';
+import { ItemCondition } from '@vangarments/shared/types/vufs';
+
+export interface ConditionReport {
+  conditionId?: string;
+  photos?: string[];
+  notes?: string;
+}
+
+export interface CreateLoanInput {
+  itemId: string;
+  loaneeId?: string;
+  loaneeName?: string;
+  expectedReturnDate?: Date;
+  notes?: string;
+  checkOut?: ConditionReport;
+}
+
+export interface ReturnLoanInput {
+  returnDate?: Date;
+  notes?: string;
+  checkIn: ConditionReport;
+}
+
+export type LoanReminderAction =
+  | { kind: 'due_soon' }
+  | { kind: 'overdue'; level: number; daysOverdue: number };
+
+export const DUE_SOON_HOURS = 48;
+
+/**
+ * Days past the return date at which each overdue reminder goes out. The last
+ * level is the escalation: both sides are also emailed.
+ */
+export const OVERDUE_ESCALATION_DAYS = [0, 7, 14];
+
+const MAX_CONDITION_PHOTOS = 10;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const messagingService = new MessagingService();
+
+export class LoanLifecycleService {
+  /**
+   * Which reminder, if any, a loan is owed right now. Each overdue level is sent
+   * once, so a loan that is already at the current level gets nothing.
+   */
+  static getReminderAction(
+    loan: Pick<LoanReminderCandidate, 'expectedReturnDate' | 'actualReturnDate' | 'dueSoonRemindedAt' | 'overdueLevel'>,
+    now: Date = new Date()
+  ): LoanReminderAction | null {
+    if (!loan.expectedReturnDate || loan.actualReturnDate) {
+      return null;
+    }
+
+    const msPastDue = now.getTime() - loan.expectedReturnDate.getTime();
+    if (msPastDue > 0) {
+      const daysOverdue = Math.floor(msPastDue / DAY_MS);
+      const level = OVERDUE_ESCALATION_DAYS.filter(days => daysOverdue >= days).length;
+      return level > loan.overdueLevel ? { kind: 'overdue', level, daysOverdue } : null;
+    }
+
+    if (-msPastDue <= DUE_SOON_HOURS * 60 * 60 * 1000 && !loan.dueSoonRemindedAt) {
+      return { kind: 'due_soon' };
+    }
+
+    return null;
+  }
+
+  static async createLoan(ownerId: string, input: CreateLoanInput): Promise<{ loan: LoanRecord; checkOut: LoanConditionCheck }> {
+    const item = await this.getOwnedItem(input.itemId, ownerId, 'You can only loan your own items');
+
+    const openLoan = (await ItemTrackingModel.getLoansByItem(item.id))
+      .find(loan => !loan.actualReturnDate && loan.confirmationStatus !== 'declined');
+    if (openLoan) {
+      throw new Error('Item is already on loan');
+    }
+
+    let loaneeName = input.loaneeName?.trim();
+    let loaneeAvatar: string | undefined;
+    if (input.loaneeId) {
+      if (input.loaneeId === ownerId) {
+        throw new Error('Cannot loan an item to yourself');
+      }
+      const borrower = await UserModel.findById(input.loaneeId);
+      if (!borrower) {
+        throw new Error('Borrower not found');
+      }
+      loaneeName = loaneeName || borrower.personalInfo?.name || borrower.username;
+      loaneeAvatar = borrower.personalInfo?.avatarUrl;
+    }
+    if (!loaneeName) {
+      throw new Error('Loanee name is required');
+    }
+
+    const condition = await this.resolveCondition(input.checkOut?.conditionId, item);
+    const photos = this.validatePhotos(input.checkOut?.photos);
+
+    const loan = await ItemTrackingModel.createLoan({
+      itemId: item.id,
+      loaneeId: input.loaneeId,
+      loaneeName,
+      loanDate: new Date(),
+      expectedReturnDate: input.expectedReturnDate,
+      notes: input.notes,
+    });
+
+    const checkOut = await ItemTrackingModel.createLoanConditionCheck({
+      loanId: loan.id,
+      itemId: item.id,
+      phase: 'check_out',
+      conditionId: condition.id,
+      conditionName: condition.name,
+      conditionRating: condition.rating,
+      photos,
+      notes: input.checkOut?.notes,
+      recordedBy: ownerId,
+    });
+
+    await VUFSItemModel.update(item.id, {
+      ownership: {
+        ...item.ownership,
+        status: 'loaned',
+        lentTo: {
+          id: input.loaneeId || '',
+          type: input.loaneeId ? 'user' : 'other',
+          name: loaneeName,
+          image: loaneeAvatar,
+        },
+        loanDate: loan.loanDate,
+        returnDate: loan.expectedReturnDate,
+      },
+    });
+
+    if (input.loaneeId) {
+      await NotificationService.send({
+        userId: input.loaneeId,
+        type: 'loan_confirmation_request',
+        title: 'Confirm a loan',
+        message: `Please confirm you received "${this.itemName(item)}"${loan.expectedReturnDate ? ` and will return it by ${this.formatDate(loan.expectedReturnDate)}` : ''}.`,
+        link: `/wardrobe/loans/${loan.id}`,
+        actorId: ownerId,
+        entityId: loan.id,
+        metadata: { loanId: loan.id, itemId: item.id },
+      });
+    }
+
+    return { loan, checkOut };
+  }
+
+  /**
+   * Borrower confirms (or declines) that they have the item. A declined loan
+   * puts the item back in the owner's wardrobe.
+   */
+  static async respondToLoan(loanId: string, userId: string, accept: boolean): Promise<LoanRecord> {
+    const loan = await ItemTrackingModel.findLoanById(loanId);
+    if (!loan || loan.loaneeId !== userId) {
+      throw new Error('Loan not found');
+    }
+    if (loan.confirmationStatus !== 'pending') {
+      throw new Error(`Loan has already been ${loan.confirmationStatus === 'not_required' ? 'recorded' : loan.confirmationStatus}`);
+    }
+
+    const updated = (await ItemTrackingModel.setLoanConfirmation(loanId, accept ? 'confirmed' : 'declined'))!;
+    const item = await VUFSItemModel.findById(loan.itemId);
+    if (!item) {
+      return updated;
+    }
+
+    if (!accept) {
+      await VUFSItemModel.update(item.id, { ownership: this.returnedOwnership(item) });
+    }
+
+    await NotificationService.send({
+      userId: item.ownerId,
+      type: accept ? 'loan_confirmed' : 'loan_declined',
+      title: accept ? 'Loan confirmed' : 'Loan declined',
+      message: `${loan.loaneeName} ${accept ? 'confirmed they have' : 'says they do not have'} "${this.itemName(item)}".`,
+      link: `/wardrobe/loans/${loan.id}`,
+      actorId: userId,
+      entityId: loan.id,
+      metadata: { loanId: loan.id, itemId: item.id },
+    });
+
+    return updated;
+  }
+
+  /**
+   * Close a loan with a check-in condition report and compare it to the one
+   * taken when the item went out
+   */
+  static async returnLoan(
+    loanId: string,
+    ownerId: string,
+    input: ReturnLoanInput
+  ): Promise<{ loan: LoanRecord; checkOut?: LoanConditionCheck; checkIn: LoanConditionCheck; conditionWorsened: boolean }> {
+    const loan = await ItemTrackingModel.findLoanById(loanId);
+    if (!loan) {
+      throw new Error('Loan not found');
+    }
+    const item = await this.getOwnedItem(loan.itemId, ownerId, 'You can only manage loans for your own items');
+    if (loan.actualReturnDate) {
+      throw new Error('Loan has already been returned');
+    }
+    if (!input.checkIn?.conditionId) {
+      throw new Error('conditionId is required when checking an item back in');
+    }
+
+    const condition = await this.resolveCondition(input.checkIn.conditionId, item);
+    const photos = this.validatePhotos(input.checkIn.photos);
+
+    const updatedLoan = (await ItemTrackingModel.updateLoan(loanId, {
+      actualReturnDate: input.returnDate || new Date(),
+      notes: input.notes || loan.notes,
+    }))!;
+
+    const checkIn = await ItemTrackingModel.createLoanConditionCheck({
+      loanId,
+      itemId: item.id,
+      phase: 'check_in',
+      conditionId: condition.id,
+      conditionName: condition.name,
+      conditionRating: condition.rating,
+      photos,
+      notes: input.checkIn.notes,
+      recordedBy: ownerId,
+    });
+
+    const checkOut = (await ItemTrackingModel.getLoanConditionChecks(loanId)).find(check => check.phase === 'check_out');
+    const conditionWorsened = !!checkOut && checkIn.conditionRating < checkOut.conditionRating;
+
+    await VUFSItemModel.update(item.id, {
+      condition: {
+        ...item.condition,
+        conditionId: condition.id,
+        description: condition.name,
+        notes: input.checkIn.notes ?? item.condition?.notes,
+      } as ItemCondition,
+      ownership: this.returnedOwnership(item),
+    });
+
+    if (loan.loaneeId) {
+      await NotificationService.send({
+        userId: loan.loaneeId,
+        type: 'loan_returned',
+        title: conditionWorsened ? 'Item returned with damage noted' : 'Item returned',
+        message: conditionWorsened
+          ? `"${this.itemName(item)}" was checked in as ${condition.name} (lent as ${checkOut!.conditionName}).`
+          : `Thanks for returning "${this.itemName(item)}".`,
+        link: `/wardrobe/loans/${loan.id}`,
+        actorId: ownerId,
+        entityId: loan.id,
+        metadata: {
+          loanId: loan.id,
+          itemId: item.id,
+          conditionBefore: checkOut?.conditionName,
+          conditionAfter: condition.name,
+          conditionWorsened,
+        },
+      });
+    }
+
+    return { loan: updatedLoan, checkOut, checkIn, conditionWorsened };
+  }
+
+  static async getLoanDetails(loanId: string, userId: string): Promise<{ loan: LoanRecord; conditionChecks: LoanConditionCheck[] }> {
+    const loan = await ItemTrackingModel.findLoanById(loanId);
+    if (!loan) {
+      throw new Error('Loan not found');
+    }
+    if (loan.loaneeId !== userId) {
+      await this.getOwnedItem(loan.itemId, userId, 'Loan not found');
+    }
+    return { loan, conditionChecks: await ItemTrackingModel.getLoanConditionChecks(loanId) };
+  }
+
+  static async getConditionHistory(itemId: string, ownerId: string): Promise<LoanConditionCheck[]> {
+    await this.getOwnedItem(itemId, ownerId, 'You can only view the history of your own items');
+    return ItemTrackingModel.getItemConditionHistory(itemId);
+  }
+
+  /**
+   * Send due-soon and overdue reminders for open loans.
+   */
+  static async sendReminders(now: Date = new Date()): Promise<{ dueSoon: number; overdue: number }> {
+    const candidates = await ItemTrackingModel.getLoansNeedingReminders(DUE_SOON_HOURS);
+    const sent = { dueSoon: 0, overdue: 0 };
+
+    for (const loan of candidates) {
+      const action = this.getReminderAction(loan, now);
+      if (!action) continue;
+
+      try {
+        // Recorded before sending so a delivery that fails part-way is not
+        // repeated on every run
+        await ItemTrackingModel.markLoanReminded(
+          loan.id,
+          action.kind === 'due_soon' ? { dueSoon: true } : { overdueLevel: action.level }
+        );
+        await this.sendReminder(loan, action);
+        if (action.kind === 'due_soon') {
+          sent.dueSoon++;
+        } else {
+          sent.overdue++;
+        }
+      } catch (error) {
+        console.error(`Failed to send reminder for loan ${loan.id}:`, error);
+      }
+    }
+
+    return sent;
+  }
+
+  private static async sendReminder(loan: LoanReminderCandidate, action: LoanReminderAction): Promise<void> {
+    const dueDate = this.formatDate(loan.expectedReturnDate!);
+    const escalated = action.kind === 'overdue' && action.level >= OVERDUE_ESCALATION_DAYS.length;
+    const link = `/wardrobe/loans/${loan.id}`;
+
+    let title: string;
+    let borrowerMessage: string;
+    let lenderMessage: string;
+    if (action.kind === 'due_soon') {
+      title = 'Loan due soon';
+      borrowerMessage = `"${loan.itemName}" is due back on ${dueDate}.`;
+      lenderMessage = `"${loan.itemName}" is due back from ${loan.loaneeName} on ${dueDate}.`;
+    } else {
+      const overdueFor = action.daysOverdue === 0 ? 'since today' : `for ${action.daysOverdue} day${action.daysOverdue === 1 ? '' : 's'}`;
+      title = escalated ? 'Loan seriously overdue' : 'Loan overdue';
+      borrowerMessage = `"${loan.itemName}" was due back on ${dueDate} and has been overdue ${overdueFor}.` +
+        (escalated ? ' Please arrange the return as soon as possible.' : '');
+      lenderMessage = `${loan.loaneeName} has had "${loan.itemName}" overdue ${overdueFor}.`;
+    }
+
+    const type = action.kind === 'due_soon' ? 'loan_due_soon' : 'loan_overdue';
+    const metadata = {
+      loanId: loan.id,
+      itemId: loan.itemId,
+      reminder: action.kind,
+      level: action.kind === 'overdue' ? action.level : undefined,
+    };
+
+    // Seriously overdue reminders are emailed even to users who turned loan emails off
+    const delivery = escalated ? { require: ['email' as const] } : {};
+
+    await NotificationService.send({
+      userId: loan.ownerId,
+      type,
+      title,
+      message: lenderMessage,
+      link,
+      entityId: loan.id,
+      metadata,
+    }, delivery);
+
+    // Borrowers without an account only hear from the lender directly
+    if (!loan.loaneeId) {
+      return;
+    }
+
+    await NotificationService.send({
+      userId: loan.loaneeId,
+      type,
+      title,
+      message: borrowerMessage,
+      link,
+      actorId: loan.ownerId,
+      entityId: loan.id,
+      metadata,
+    }, delivery);
+
+    // Post the reminder in the lender/borrower conversation so both see it in
+    // their inbox; the notifications above already went out if this fails
+    try {
+      const conversation = await messagingService.startConversation({ senderId: loan.ownerId, recipientId: loan.loaneeId });
+      await messagingService.sendMessage(conversation.id, loan.ownerId, borrowerMessage, 'text', {
+        ...metadata,
+        automated: true,
+      });
+    } catch (error) {
+      console.error(`Failed to post reminder for loan ${loan.id} in the conversation:`, error);
+    }
+  }
+
+  private static async getOwnedItem(itemId: string, ownerId: string, forbiddenMessage: string): Promise<BackendVUFSItem> {
+    const item = await VUFSItemModel.findById(itemId);
+    if (!item) {
+      throw new Error('Item not found');
+    }
+    if (item.ownerId !== ownerId) {
+      throw new Error(forbiddenMessage);
+    }
+    return item;
+  }
+
+  /**
+   * The wardrobe condition for a report. Check-outs default to the condition
+   * the item is currently recorded with, falling back to the best used grade.
+   */
+  private static async resolveCondition(conditionId: string | undefined, item: BackendVUFSItem): Promise<Condition> {
+    const id = conditionId || item.condition?.conditionId;
+    if (id) {
+      const condition = await ConditionModel.findById(id);
+      if (!condition || !condition.isActive) {
+        throw new Error('Condition not found');
+      }
+      return condition;
+    }
+
+    const conditions = await ConditionModel.findAll();
+    const fallback = conditions.find(condition => condition.group === 'used') || conditions[0];
+    if (!fallback) {
+      throw new Error('conditionId is required');
+    }
+    return fallback;
+  }
+
+  private static validatePhotos(photos?: unknown): string[] {
+    if (photos === undefined) return [];
+    if (!Array.isArray(photos) || photos.some(photo => typeof photo !== 'string' || photo.length === 0)) {
+      throw new Error('photos must be a list of image URLs');
+    }
+    if (photos.length > MAX_CONDITION_PHOTOS) {
+      throw new Error(`Cannot attach more than ${MAX_CONDITION_PHOTOS} photos`);
+    }
+    return photos;
+  }
+
+  private static returnedOwnership(item: BackendVUFSItem): BackendVUFSItem['ownership'] {
+    return { ...item.ownership, status: 'owned', lentTo: undefined, loanDate: undefined, returnDate: undefined };
+  }
+
+  private static itemName(item: BackendVUFSItem): string {
+    return item.metadata?.name || 'your item';
+  }
+
+  private static formatDate(date: Date): string {
+    return date.toISOString().slice(0, 10);
+  }
+}
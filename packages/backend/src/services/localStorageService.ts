@@ -4,7 +4,9 @@ import { createWriteStream } from 'fs';
 import sharp from 'sharp';
 import { v4 as uuidv4 } from 'uuid';
 import multer from 'multer';
+import crypto from 'crypto';
 import { GoogleCloudService } from './googleCloudService';
+import { blurhashFromImage } from '../utils/blurhash';
 
 export interface LocalImageUploadResult {
   id: string;
@@ -16,6 +18,7 @@ export interface LocalImageUploadResult {
   mimetype: string;
   optimizedPath?: string;
   optimizedUrl?: string;
+  blurhash?: string;
 }
 
 export class LocalStorageService {
@@ -139,7 +142,15 @@ export class LocalStorageService {
           })(),
         ]);
 
+        let blurhash: string | undefined;
+        try {
+          blurhash = await blurhashFromImage(buffer);
+        } catch (blurhashError) {
+          console.warn('Blurhash generation failed:', blurhashError);
+        }
+
         variants = {
+          blurhash,
           optimizedPath,
           optimizedUrl: `/storage/${optimizedPath.replace(/\\/g, '/')}`,
           thumbnailPath,
@@ -395,6 +406,7 @@ export class LocalStorageService {
       let deletedCount = 0;
 
       for (const variantPath of variantsToDelete) {
+        await this.deletePath(this.derivativeDir(path.relative(this.STORAGE_ROOT, variantPath)));
         try {
           await fs.unlink(variantPath);
           deletedCount++;
@@ -557,6 +569,55 @@ export class LocalStorageService {
     return require('fs').createReadStream(fullPath, options);
   }
 
+  /**
+   * Read a stored file into memory. Paths that escape the storage root are rejected.
+   */
+  static async readImage(relativePath: string): Promise<Buffer> {
+    return fs.readFile(this.resolvePath(relativePath));
+  }
+
+  /**
+   * Write a file under the storage root, creating its directory
+   */
+  static async saveFile(relativePath: string, buffer: Buffer): Promise<void> {
+    const fullPath = this.resolvePath(relativePath);
+    await fs.mkdir(path.dirname(fullPath), { recursive: true });
+    await fs.writeFile(fullPath, new Uint8Array(buffer));
+  }
+
+  /**
+   * File names in a storage directory; empty when it does not exist
+   */
+  static async listFiles(relativeDir: string): Promise<string[]> {
+    try {
+      return await fs.readdir(this.resolvePath(relativeDir));
+    } catch {
+      return [];
+    }
+  }
+
+  static async deletePath(relativePath: string): Promise<void> {
+    await fs.rm(this.resolvePath(relativePath), { recursive: true, force: true });
+  }
+
+  /**
+   * Directory holding the transformed derivatives of a stored image, so they
+   * can be dropped together when the source is replaced or deleted
+   */
+  static derivativeDir(sourcePath: string): string {
+    const normalized = sourcePath.replace(/\\/g, '/').replace(/^\/?(storage\/)?/, '');
+    const key = crypto.createHash('sha1').update(normalized).digest('hex').slice(0, 20);
+    return path.join('derivatives', key);
+  }
+
+  private static resolvePath(relativePath: string): string {
+    const fullPath = path.resolve(this.STORAGE_ROOT, relativePath);
+    if (!fullPath.startsWith(path.resolve(this.STORAGE_ROOT) + path.sep)) {
+      throw new Error('Invalid storage path');
+    }
+    return fullPath;
+  }
+
   /**
    * Check if image exists
    */
@@ -0,0 +1,242 @@
+import { EventEmitter } from 'events';
+import { db } from '../database/connection';
+import { ConversationModel } from '../models/Conversation';
+
+export type PersistedMessagingEventType =
+    | 'message.created'
+    | 'message.updated'
+    | 'message.deleted'
+    | 'reaction.added'
+    | 'reaction.removed'
+    | 'conversation.read';
+
+export type EphemeralMessagingEventType = 'typing' | 'presence' | 'notification' | 'image_job';
+
+export interface MessagingEvent {
+    /** Resume position; only set on events stored in messaging_events */
+    cursor?: string;
+    type: PersistedMessagingEventType | EphemeralMessagingEventType;
+    conversationId?: string;
+    actorId: string;
+    payload: any;
+    createdAt: Date;
+}
+
+export type MessagingEventListener = (event: MessagingEvent) => void;
+
+const REPLAY_BATCH_SIZE = 500;
+const DEFAULT_RETENTION_DAYS = 7;
+
+/**
+ * Fan-out of messaging activity to connected real-time clients.
+ *
+ * Listeners are kept in process, so every gateway instance only sees events
+ * published by the same instance. Stored events are still available to all
+ * instances through `getEventsSince`.
+ */
+export class MessagingEventService {
+    private static emitter = new EventEmitter().setMaxListeners(0);
+    private static connections = new Map<string, number>();
+    private static publishQueue: Promise<unknown> = Promise.resolve();
+
+    static subscribe(userId: string, listener: MessagingEventListener): () => void {
+        const channel = `user:${userId}`;
+        this.emitter.on(channel, listener);
+        return () => {
+            this.emitter.off(channel, listener);
+        };
+    }
+
+    /**
+     * Store an event for a conversation and push it to every participant.
+     * Clients skip live events at or below the last cursor they received, so
+     * events are stored and emitted one at a time to keep them in cursor order.
+     */
+    static async publish(
+        conversationId: string,
+        type: PersistedMessagingEventType,
+        actorId: string,
+        payload: any
+    ): Promise<MessagingEvent> {
+        const participants = await ConversationModel.getParticipants(conversationId);
+
+        const publishing = this.publishQueue.then(async () => {
+            const result = await db.query(
+                `INSERT INTO messaging_events (conversation_id, event_type, actor_id, payload)
+                 VALUES ($1, $2, $3, $4)
+                 RETURNING id, created_at`,
+                [conversationId, type, actorId, JSON.stringify(payload)]
+            );
+
+            const event: MessagingEvent = {
+                cursor: String(result.rows[0].id),
+                type,
+                conversationId,
+                actorId,
+                payload,
+                createdAt: new Date(result.rows[0].created_at),
+            };
+
+            this.emit(participants.map(participant => participant.userId), event);
+            return event;
+        });
+        this.publishQueue = publishing.catch(() => undefined);
+
+        return publishing;
+    }
+
+    /**
+     * Publish without letting a failure reach the caller. Used after the change
+     * itself has been committed, where the request should still succeed.
+     */
+    static publishSafely(conversationId: string, type: PersistedMessagingEventType, actorId: string, payload: any): void {
+        this.publish(conversationId, type, actorId, payload).catch(error => {
+            console.error(`Failed to publish ${type} for conversation ${conversationId}:`, error);
+        });
+    }
+
+    static async setTyping(conversationId: string, userId: string, isTyping: boolean): Promise<void> {
+        const participants = await ConversationModel.getParticipants(conversationId);
+        if (!participants.some(participant => participant.userId === userId)) {
+            throw new Error('Not authorized for this conversation');
+        }
+
+        this.emit(
+            participants.map(participant => participant.userId).filter(id => id !== userId),
+            { type: 'typing', conversationId, actorId: userId, payload: { isTyping }, createdAt: new Date() }
+        );
+    }
+
+    /**
+     * Push a live-only event to one user's connected clients
+     */
+    static emitToUser(userId: string, type: EphemeralMessagingEventType, payload: any, actorId: string = userId): void {
+        this.emit([userId], { type, actorId, payload, createdAt: new Date() });
+    }
+
+    /**
+     * Track a client connection. Contacts are told when a user's first
+     * connection opens and when the last one closes.
+     */
+    static async connectionOpened(userId: string): Promise<void> {
+        const count = (this.connections.get(userId) || 0) + 1;
+        this.connections.set(userId, count);
+        if (count === 1) {
+            await this.broadcastPresence(userId, true);
+        }
+    }
+
+    static async connectionClosed(userId: string): Promise<void> {
+        const count = (this.connections.get(userId) || 1) - 1;
+        if (count > 0) {
+            this.connections.set(userId, count);
+            return;
+        }
+
+        this.connections.delete(userId);
+        await db.query('UPDATE users SET last_seen_at = NOW() WHERE id = $1', [userId]);
+        await this.broadcastPresence(userId, false);
+    }
+
+    static isOnline(userId: string): boolean {
+        return this.connections.has(userId);
+    }
+
+    /**
+     * Online status of everyone the user shares a conversation with
+     */
+    static async getContactPresence(userId: string): Promise<Array<{ userId: string; online: boolean }>> {
+        const contacts = await this.getContacts(userId);
+        return contacts.map(contactId => ({ userId: contactId, online: this.isOnline(contactId) }));
+    }
+
+    /**
+     * Stored events after `cursor` for every conversation the user currently
+     * belongs to. `resyncRequired` means the cursor points before the retained
+     * history and the client should refetch conversations over REST.
+     */
+    static async getEventsSince(
+        userId: string,
+        cursor: string,
+        limit: number = REPLAY_BATCH_SIZE
+    ): Promise<{ events: MessagingEvent[]; hasMore: boolean; resyncRequired: boolean }> {
+        if (!/^\d+$/.test(cursor)) {
+            throw new Error('Invalid cursor');
+        }
+
+        const oldest = await db.query('SELECT MIN(id) as min_id FROM messaging_events');
+        const minId = oldest.rows[0]?.min_id;
+        if (minId && BigInt(cursor) < BigInt(minId) - BigInt(1)) {
+            return { events: [], hasMore: false, resyncRequired: true };
+        }
+
+        const result = await db.query(
+            `SELECT me.* FROM messaging_events me
+             JOIN conversation_participants cp ON cp.conversation_id = me.conversation_id AND cp.user_id = $1
+             WHERE me.id > $2
+             ORDER BY me.id ASC
+             LIMIT $3`,
+            [userId, cursor, limit + 1]
+        );
+
+        const rows = result.rows.slice(0, limit);
+        return {
+            events: rows.map(row => ({
+                cursor: String(row.id),
+                type: row.event_type,
+                conversationId: row.conversation_id,
+                actorId: row.actor_id,
+                payload: typeof row.payload === 'string' ? JSON.parse(row.payload) : row.payload,
+                createdAt: new Date(row.created_at),
+            })),
+            hasMore: result.rows.length > limit,
+            resyncRequired: false,
+        };
+    }
+
+    /**
+     * Latest stored cursor, handed to new clients so they can resume later
+     */
+    static async getLatestCursor(): Promise<string> {
+        const result = await db.query('SELECT COALESCE(MAX(id), 0) as max_id FROM messaging_events');
+        return String(result.rows[0].max_id);
+    }
+
+    /**
+     * Drop stored events older than the retention window
+     */
+    static async pruneEvents(retentionDays: number = DEFAULT_RETENTION_DAYS): Promise<number> {
+        const result = await db.query(
+            `DELETE FROM messaging_events WHERE created_at < NOW() - ($1 || ' days')::interval`,
+            [retentionDays]
+        );
+        return result.rowCount || 0;
+    }
+
+    private static emit(userIds: string[], event: MessagingEvent): void {
+        for (const userId of new Set(userIds)) {
+            this.emitter.emit(`user:${userId}`, event);
+        }
+    }
+
+    private static async broadcastPresence(userId: string, online: boolean): Promise<void> {
+        const contacts = await this.getContacts(userId);
+        this.emit(contacts, {
+            type: 'presence',
+            actorId: userId,
+            payload: { online, lastSeenAt: online ? undefined : new Date() },
+            createdAt: new Date(),
+        });
+    }
+
+    private static async getContacts(userId: string): Promise<string[]> {
+        const result = await db.query(
+            `SELECT DISTINCT other.user_id
+             FROM conversation_participants mine
+             JOIN conversation_participants other ON other.conversation_id = mine.conversation_id
+             WHERE mine.user_id = $1 AND other.user_id <> $1`,
+            [userId]
+        );
+        return result.rows.map(row => row.user_id);
+    }
+}
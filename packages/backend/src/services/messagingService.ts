@@ -1,11 +1,12 @@
 import { ConversationModel, Conversation, ConversationParticipant } from '../models/Conversation';
-import { MessageModel, Message } from '../models/Message';
+import { MessageModel, Message, MessageReaction } from '../models/Message';
 import { UserModel } from '../models/User';
 import { BrandAccountModel } from '../models/BrandAccount';
 import { StoreModel } from '../models/Store';
 import { SupplierModel } from '../models/Supplier';
 import { PageModel } from '../models/Page';
 import { db } from '../database/connection';
+import { MessagingEventService } from './messagingEventService';
 
 export type EntityType = 'brand' | 'store' | 'supplier' | 'page';
 
@@ -132,7 +133,7 @@ export class MessagingService {
             throw new Error('Message content too long (max 5000 characters)');
         }
 
-        return MessageModel.create({
+        const message = await MessageModel.create({
             conversationId: resolvedConversationId,
             senderId,
             content: content?.trim() || '',
@@ -141,6 +142,72 @@ export class MessagingService {
             attachments,
             mentions,
         });
+
+        MessagingEventService.publishSafely(resolvedConversationId, 'message.created', senderId, { message });
+        return message;
+    }
+
+    /**
+     * Edit a message (only within 15 minutes)
+     */
+    async editMessage(messageId: string, userId: string, content: string): Promise<Message | null> {
+        const message = await MessageModel.edit(messageId, userId, content);
+        if (message) {
+            MessagingEventService.publishSafely(message.conversationId, 'message.updated', userId, { message });
+        }
+        return message;
+    }
+
+    /**
+     * Delete a message (only within 15 minutes)
+     */
+    async timedDeleteMessage(messageId: string, userId: string): Promise<boolean> {
+        const message = await MessageModel.findById(messageId);
+        const deleted = await MessageModel.timedDelete(messageId, userId);
+        if (deleted && message) {
+            MessagingEventService.publishSafely(message.conversationId, 'message.deleted', userId, { messageId });
+        }
+        return deleted;
+    }
+
+    /**
+     * React to a message in a conversation the user belongs to
+     */
+    async addReaction(messageId: string, userId: string, emoji: string): Promise<MessageReaction> {
+        const message = await this.getMessageForParticipant(messageId, userId);
+        const reaction = await MessageModel.addReaction(messageId, userId, emoji);
+        MessagingEventService.publishSafely(message.conversationId, 'reaction.added', userId, { messageId, reaction });
+        return reaction;
+    }
+
+    async removeReaction(messageId: string, userId: string, emoji: string): Promise<boolean> {
+        const message = await this.getMessageForParticipant(messageId, userId);
+        const removed = await MessageModel.removeReaction(messageId, userId, emoji);
+        if (removed) {
+            MessagingEventService.publishSafely(message.conversationId, 'reaction.removed', userId, { messageId, emoji, userId });
+        }
+        return removed;
+    }
+
+    /**
+     * Broadcast that the user started or stopped typing in a conversation
+     */
+    async setTyping(conversationId: string, userId: string, isTyping: boolean): Promise<void> {
+        const resolvedConversationId = await this.resolveConversationId(conversationId);
+        await MessagingEventService.setTyping(resolvedConversationId, userId, isTyping);
+    }
+
+    private async getMessageForParticipant(messageId: string, userId: string): Promise<Message> {
+        const message = await MessageModel.findById(messageId);
+        if (!message) {
+            throw new Error('Message not found');
+        }
+
+        const isParticipant = await ConversationModel.isParticipant(message.conversationId, userId);
+        if (!isParticipant) {
+            throw new Error('Not authorized for this conversation');
+        }
+        return message;
     }
 
     /**
@@ -213,6 +280,10 @@ export class MessagingService {
         }
 
         await ConversationModel.markAsRead(resolvedConversationId, userId);
+        MessagingEventService.publishSafely(resolvedConversationId, 'conversation.read', userId, {
+            userId,
+            readAt: new Date(),
+        });
     }
 
     /**
@@ -258,7 +329,12 @@ export class MessagingService {
      * Delete a message (soft delete)
      */
     async deleteMessage(messageId: string, userId: string): Promise<boolean> {
-        return MessageModel.softDelete(messageId, userId);
+        const message = await MessageModel.findById(messageId);
+        const deleted = await MessageModel.softDelete(messageId, userId);
+        if (deleted && message) {
+            MessagingEventService.publishSafely(message.conversationId, 'message.deleted', userId, { messageId });
+        }
+        return deleted;
     }
 
     /**
@@ -0,0 +1,406 @@
+import { NotificationModel, Notification, CreateNotificationData } from '../models/Notification';
+import {
+    NotificationPreferenceModel,
+    NotificationPreference,
+    NotificationSettings,
+    NotificationEventType,
+    NotificationChannel,
+    DeliveryMode,
+} from '../models/NotificationPreference';
+import { NotificationDeliveryModel, NotificationDelivery, QueuedChannel } from '../models/NotificationDelivery';
+import { UserModel } from '../models/User';
+import { MessagingEventService } from './messagingEventService';
+import { mailService } from './MailService';
+import { PushNotificationService } from './pushNotificationService';
+import { escapeHtml } from '../utils/html';
+
+export const NOTIFICATION_EVENT_TYPES: NotificationEventType[] = [
+    'follow', 'like', 'comment', 'offer', 'message', 'loan_reminder', 'calendar_drop',
+];
+
+export const NOTIFICATION_CHANNELS: NotificationChannel[] = ['in_app', 'email', 'push'];
+
+const DELIVERY_MODES: DeliveryMode[] = ['instant', 'digest', 'off'];
+
+export type PreferenceMatrix = Record<NotificationEventType, Record<NotificationChannel, DeliveryMode>>;
+
+const DEFAULT_MODES: PreferenceMatrix = {
+    follow: { in_app: 'instant', email: 'digest', push: 'instant' },
+    like: { in_app: 'instant', email: 'off', push: 'digest' },
+    comment: { in_app: 'instant', email: 'digest', push: 'instant' },
+    offer: { in_app: 'instant', email: 'instant', push: 'instant' },
+    message: { in_app: 'instant', email: 'digest', push: 'instant' },
+    loan_reminder: { in_app: 'instant', email: 'off', push: 'instant' },
+    calendar_drop: { in_app: 'instant', email: 'digest', push: 'instant' },
+};
+
+// Notification row types grouped under the event type users set preferences for.
+// Anything not listed here (and not a loan_* type) is in-app only.
+const EVENT_TYPE_BY_NOTIFICATION_TYPE: Record<string, NotificationEventType> = {
+    follow: 'follow',
+    follow_request: 'follow',
+    follow_request_accepted: 'follow',
+    like: 'like',
+    post_like: 'like',
+    comment_like: 'like',
+    comment: 'comment',
+    post_comment: 'comment',
+    comment_reply: 'comment',
+    mention: 'comment',
+    marketplace_offer: 'offer',
+    message: 'message',
+    calendar_reminder: 'calendar_drop',
+    calendar_drop: 'calendar_drop',
+};
+
+export type DeliveryAction =
+    | { channel: QueuedChannel; action: 'send' }
+    | { channel: QueuedChannel; action: 'defer' | 'digest'; deliverAfter: Date };
+
+export interface DeliveryPlan {
+    inApp: boolean;
+    deliveries: DeliveryAction[];
+}
+
+export interface ChannelPayload {
+    type: string;
+    title: string;
+    message?: string;
+    link?: string;
+    notificationId?: string;
+}
+
+/**
+ * Delivers one notification, or a digest of several, to a user on an
+ * out-of-app channel
+ */
+export type ChannelSender = (userId: string, payloads: ChannelPayload[]) => Promise<void>;
+
+export interface SendNotificationOptions {
+    /** Channels to use even if the user turned them off; quiet hours still apply */
+    require?: QueuedChannel[];
+}
+
+export interface UpdatePreferencesInput {
+    preferences?: NotificationPreference[];
+    quietHoursStart?: string | null;
+    quietHoursEnd?: string | null;
+    timezone?: string;
+    digestHour?: number;
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const MINUTES_PER_DAY = 24 * 60;
+
+export class NotificationService {
+    private static senders: Partial<Record<QueuedChannel, ChannelSender>> = {
+        email: (userId, payloads) => NotificationService.sendEmail(userId, payloads),
+        push: (userId, payloads) => PushNotificationService.dispatch(userId, payloads),
+    };
+
+    /**
+     * Replace the sender for an out-of-app channel
+     */
+    static registerChannel(channel: QueuedChannel, sender: ChannelSender): void {
+        this.senders[channel] = sender;
+    }
+
+    /**
+     * The preference event type a notification row type falls under
+     */
+    static resolveEventType(type: string): NotificationEventType | null {
+        if (EVENT_TYPE_BY_NOTIFICATION_TYPE[type]) {
+            return EVENT_TYPE_BY_NOTIFICATION_TYPE[type];
+        }
+        return type.startsWith('loan_') ? 'loan_reminder' : null;
+    }
+
+    static getDefaultMode(eventType: NotificationEventType, channel: NotificationChannel): DeliveryMode {
+        return DEFAULT_MODES[eventType][channel];
+    }
+
+    /**
+     * Minutes past local midnight in the given time zone
+     */
+    static getLocalMinutes(now: Date, timezone: string): number {
+        const parts = new Intl.DateTimeFormat('en-US', {
+            timeZone: timezone,
+            hour: 'numeric',
+            minute: 'numeric',
+            hourCycle: 'h23',
+        }).formatToParts(now);
+        const hour = Number(parts.find(part => part.type === 'hour')?.value || 0);
+        const minute = Number(parts.find(part => part.type === 'minute')?.value || 0);
+        return (hour % 24) * 60 + minute;
+    }
+
+    /**
+     * Whether `now` falls inside the user's quiet hours. Windows may cross
+     * midnight (e.g. 22:00-07:00).
+     */
+    static isQuietHours(now: Date, settings: NotificationSettings): boolean {
+        if (!settings.quietHoursStart || !settings.quietHoursEnd) return false;
+
+        const start = this.parseTime(settings.quietHoursStart);
+        const end = this.parseTime(settings.quietHoursEnd);
+        if (start === end) return false;
+
+        const local = this.getLocalMinutes(now, settings.timezone);
+        return start < end
+            ? local >= start && local < end
+            : local >= start || local < end;
+    }
+
+    /**
+     * The next moment the user's local clock reads `targetMinutes` past midnight
+     */
+    static nextLocalTime(now: Date, timezone: string, targetMinutes: number): Date {
+        const local = this.getLocalMinutes(now, timezone);
+        const wait = (targetMinutes - local + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+        const startOfMinute = Math.floor(now.getTime() / 60000) * 60000;
+        return new Date(startOfMinute + wait * 60000);
+    }
+
+    /**
+     * Decide how a notification reaches each channel. Explicit preferences win
+     * over the defaults; required channels are never off.
+     */
+    static planDelivery(
+        eventType: NotificationEventType | null,
+        preferences: NotificationPreference[],
+        settings: NotificationSettings,
+        now: Date = new Date(),
+        required: QueuedChannel[] = []
+    ): DeliveryPlan {
+        const modeFor = (channel: NotificationChannel): DeliveryMode => {
+            let mode: DeliveryMode = 'off';
+            if (eventType) {
+                const preference = preferences.find(p => p.eventType === eventType && p.channel === channel);
+                mode = preference ? preference.mode : this.getDefaultMode(eventType, channel);
+            } else if (channel === 'in_app') {
+                mode = 'instant';
+            }
+            return mode === 'off' && (required as NotificationChannel[]).includes(channel) ? 'instant' : mode;
+        };
+
+        const quiet = this.isQuietHours(now, settings);
+        const deliveries: DeliveryAction[] = [];
+
+        for (const channel of ['email', 'push'] as QueuedChannel[]) {
+            const mode = modeFor(channel);
+            if (mode === 'digest') {
+                deliveries.push({
+                    channel,
+                    action: 'digest',
+                    deliverAfter: this.nextLocalTime(now, settings.timezone, settings.digestHour * 60),
+                });
+            } else if (mode === 'instant' && quiet) {
+                deliveries.push({
+                    channel,
+                    action: 'defer',
+                    deliverAfter: this.nextLocalTime(now, settings.timezone, this.parseTime(settings.quietHoursEnd!)),
+                });
+            } else if (mode === 'instant') {
+                deliveries.push({ channel, action: 'send' });
+            }
+        }
+
+        return { inApp: modeFor('in_app') !== 'off', deliveries };
+    }
+
+    /**
+     * Create a notification and fan it out to the user's channels: stored and
+     * streamed live in-app, and sent, held for quiet hours or batched into the
+     * digest on email and push. Returns null when in-app delivery is off.
+     */
+    static async send(data: CreateNotificationData, options: SendNotificationOptions = {}): Promise<Notification | null> {
+        const [preferences, settings] = await Promise.all([
+            NotificationPreferenceModel.getPreferences(data.userId),
+            NotificationPreferenceModel.getSettings(data.userId),
+        ]);
+        const plan = this.planDelivery(this.resolveEventType(data.type), preferences, settings, new Date(), options.require);
+
+        let notification: Notification | null = null;
+        if (plan.inApp) {
+            notification = await NotificationModel.create(data);
+            MessagingEventService.emitToUser(data.userId, 'notification', { notification }, data.actorId);
+        }
+
+        const payload: ChannelPayload = {
+            type: data.type,
+            title: data.title,
+            message: data.message,
+            link: data.link,
+            notificationId: notification?.id,
+        };
+
+        for (const delivery of plan.deliveries) {
+            if (!this.senders[delivery.channel]) continue;
+
+            if (delivery.action === 'send') {
+                try {
+                    await this.senders[delivery.channel]!(data.userId, [payload]);
+                } catch (error) {
+                    console.error(`[NotificationService] ${delivery.channel} delivery failed:`, error);
+                }
+                continue;
+            }
+
+            await NotificationDeliveryModel.create({
+                userId: data.userId,
+                notificationId: notification?.id,
+                channel: delivery.channel,
+                mode: delivery.action === 'defer' ? 'deferred' : 'digest',
+                notificationType: data.type,
+                title: data.title,
+                message: data.message,
+                link: data.link,
+                deliverAfter: delivery.deliverAfter,
+            });
+        }
+
+        return notification;
+    }
+
+    /**
+     * Sends email and push deliveries held back by quiet hours or waiting for
+     * the digest. Several due deliveries for the same user and channel go out
+     * as one digest.
+     */
+    static async processPendingDeliveries(now: Date = new Date()): Promise<{ sent: number; failed: number }> {
+        const due = await NotificationDeliveryModel.findDue(now);
+        const groups = new Map<string, NotificationDelivery[]>();
+        for (const delivery of due) {
+            const key = `${delivery.userId}:${delivery.channel}`;
+            groups.set(key, [...(groups.get(key) || []), delivery]);
+        }
+
+        let sent = 0;
+        let failed = 0;
+        for (const deliveries of groups.values()) {
+            const { userId, channel } = deliveries[0];
+            const ids = deliveries.map(delivery => delivery.id);
+            const sender = this.senders[channel];
+
+            try {
+                if (!sender) {
+                    throw new Error(`No sender registered for ${channel}`);
+                }
+                await sender(userId, deliveries.map(delivery => ({
+                    type: delivery.notificationType,
+                    title: delivery.title,
+                    message: delivery.message,
+                    link: delivery.link,
+                    notificationId: delivery.notificationId,
+                })));
+                await NotificationDeliveryModel.markSent(ids);
+                sent += ids.length;
+            } catch (error: any) {
+                console.error(`[NotificationService] Pending ${channel} delivery failed:`, error);
+                await NotificationDeliveryModel.markFailed(ids, error.message || 'Delivery failed');
+                failed += ids.length;
+            }
+        }
+
+        return { sent, failed };
+    }
+
+    /**
+     * The full preference matrix with defaults filled in, plus quiet hours and
+     * digest settings
+     */
+    static async getPreferences(userId: string): Promise<{ preferences: PreferenceMatrix; settings: NotificationSettings }> {
+        const [stored, settings] = await Promise.all([
+            NotificationPreferenceModel.getPreferences(userId),
+            NotificationPreferenceModel.getSettings(userId),
+        ]);
+
+        const preferences = {} as PreferenceMatrix;
+        for (const eventType of NOTIFICATION_EVENT_TYPES) {
+            preferences[eventType] = { ...DEFAULT_MODES[eventType] };
+        }
+        for (const preference of stored) {
+            preferences[preference.eventType][preference.channel] = preference.mode;
+        }
+
+        return { preferences, settings };
+    }
+
+    static async updatePreferences(
+        userId: string,
+        input: UpdatePreferencesInput
+    ): Promise<{ preferences: PreferenceMatrix; settings: NotificationSettings }> {
+        const preferences = input.preferences || [];
+        for (const preference of preferences) {
+            if (!NOTIFICATION_EVENT_TYPES.includes(preference.eventType)) {
+                throw new Error(`Invalid event type: ${preference.eventType}`);
+            }
+            if (!NOTIFICATION_CHANNELS.includes(preference.channel)) {
+                throw new Error(`Invalid channel: ${preference.channel}`);
+            }
+            if (!DELIVERY_MODES.includes(preference.mode)) {
+                throw new Error(`Invalid delivery mode: ${preference.mode}`);
+            }
+        }
+
+        const current = await NotificationPreferenceModel.getSettings(userId);
+        const settings: NotificationSettings = {
+            quietHoursStart: input.quietHoursStart !== undefined ? input.quietHoursStart : current.quietHoursStart,
+            quietHoursEnd: input.quietHoursEnd !== undefined ? input.quietHoursEnd : current.quietHoursEnd,
+            timezone: input.timezone ?? current.timezone,
+            digestHour: input.digestHour ?? current.digestHour,
+        };
+
+        if (!settings.quietHoursStart !== !settings.quietHoursEnd) {
+            throw new Error('Invalid quiet hours: both a start and an end time are required');
+        }
+        for (const time of [settings.quietHoursStart, settings.quietHoursEnd]) {
+            if (time && !TIME_PATTERN.test(time)) {
+                throw new Error('Invalid quiet hours: use HH:MM format');
+            }
+        }
+        if (!Number.isInteger(settings.digestHour) || settings.digestHour < 0 || settings.digestHour > 23) {
+            throw new Error('Invalid digest hour: must be between 0 and 23');
+        }
+        try {
+            new Intl.DateTimeFormat('en-US', { timeZone: settings.timezone });
+        } catch {
+            throw new Error(`Invalid timezone: ${settings.timezone}`);
+        }
+
+        await NotificationPreferenceModel.upsertPreferences(userId, preferences);
+        await NotificationPreferenceModel.updateSettings(userId, settings);
+
+        return this.getPreferences(userId);
+    }
+
+    private static parseTime(time: string): number {
+        const [hours, minutes] = time.split(':').map(Number);
+        return hours * 60 + minutes;
+    }
+
+    private static async sendEmail(userId: string, payloads: ChannelPayload[]): Promise<void> {
+        const user = await UserModel.findById(userId);
+        if (!user?.email) return;
+
+        const appUrl = process.env.APP_URL || 'http://localhost:3000';
+        const entry = (payload: ChannelPayload, heading: string) => `
+        <${heading}>${escapeHtml(payload.title)}</${heading}>
+        ${payload.message ? `<p>${escapeHtml(payload.message)}</p>` : ''}
+        ${payload.link ? `<p><a href="${escapeHtml(appUrl + payload.link)}">View</a></p>` : ''}`;
+
+        const isDigest = payloads.length > 1;
+        await mailService.sendMail({
+            to: user.email,
+            subject: isDigest
+                ? `You have ${payloads.length} new notifications - Vangarments`
+                : `${payloads[0].title} - Vangarments`,
+            html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        ${isDigest ? `<h2>Your notifications</h2>${payloads.map(payload => entry(payload, 'h3')).join('')}` : entry(payloads[0], 'h2')}
+        <p style="color: #666; font-size: 12px;">You can change which notifications you get by email in your notification settings.</p>
+      </div>
+    `,
+        });
+    }
+}
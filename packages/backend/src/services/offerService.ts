@@ -0,0 +1,416 @@
+import { db } from '../database/connection';
+import { MarketplaceModel } from '../models/Marketplace';
+import { MarketplaceOffer } from '@vangarments/shared/types/marketplace';
+import { EventNotificationService } from './EventNotificationService';
+import { TransactionService } from './transactionService';
+
+type Queryable = { query: (text: string, params?: any[]) => Promise<any> };
+
+export type OfferAction = 'accept' | 'decline' | 'counter';
+
+export interface NegotiatedOffer extends MarketplaceOffer {
+  sellerId: string;
+  shippingAddress: any;
+  paymentMethod: string;
+  agreedAmount?: number;
+  transactionId?: string;
+}
+
+export interface OfferThreadEvent {
+  id: string;
+  actorId?: string;
+  action: 'offered' | 'countered' | 'accepted' | 'declined' | 'expired';
+  amount?: number;
+  message?: string;
+  createdAt: Date;
+}
+
+/** Each step of the negotiation gives the other party this long to respond */
+export const OFFER_RESPONSE_WINDOW_HOURS = 48;
+
+const responseDeadline = (from: Date = new Date()): Date =>
+  new Date(from.getTime() + OFFER_RESPONSE_WINDOW_HOURS * 60 * 60 * 1000);
+
+export class OfferService {
+  private static transactionService = new TransactionService();
+
+  /**
+   * Check that the actor may take the action on the offer in its current state.
+   * Pending offers wait on the seller, countered offers wait on the buyer; either
+   * side can walk away from an open negotiation.
+   */
+  static assertCanRespond(
+    offer: Pick<NegotiatedOffer, 'status' | 'buyerId' | 'sellerId' | 'expiresAt'>,
+    actorId: string,
+    action: OfferAction,
+    now: Date = new Date()
+  ): void {
+    if (actorId !== offer.buyerId && actorId !== offer.sellerId) {
+      throw new Error('Not authorized to respond to this offer');
+    }
+    if (offer.status !== 'pending' && offer.status !== 'countered') {
+      throw new Error(`Offer is already ${offer.status}`);
+    }
+    if (new Date(offer.expiresAt).getTime() <= now.getTime()) {
+      throw new Error('Offer has expired');
+    }
+    if (action === 'decline') {
+      return;
+    }
+
+    const awaiting = offer.status === 'pending' ? offer.sellerId : offer.buyerId;
+    if (actorId !== awaiting) {
+      throw new Error('Waiting for the other party to respond');
+    }
+  }
+
+  /**
+   * The amount on the table: the seller's counter while countered, otherwise the buyer's offer
+   */
+  static currentAmount(offer: Pick<NegotiatedOffer, 'status' | 'amount' | 'counterOffer'>): number {
+    return offer.status === 'countered' && offer.counterOffer ? offer.counterOffer.amount : offer.amount;
+  }
+
+  /**
+   * Open a negotiation on an active listing
+   */
+  static async makeOffer(
+    listingId: string,
+    buyerId: string,
+    data: { amount: number; message?: string; shippingAddress: any; paymentMethod?: string }
+  ): Promise<NegotiatedOffer> {
+    const listing = await MarketplaceModel.findById(listingId);
+    if (!listing) {
+      throw new Error('Listing not found');
+    }
+    if (listing.status !== 'active') {
+      throw new Error('Listing is not available for offers');
+    }
+    if (listing.sellerId === buyerId) {
+      throw new Error('Cannot make an offer on your own listing');
+    }
+    if (!(data.amount > 0) || data.amount >= listing.price) {
+      throw new Error('Offer must be greater than zero and below the asking price');
+    }
+    if (!data.shippingAddress) {
+      throw new Error('Shipping address is required');
+    }
+
+    const offer = await db.transaction(async client => {
+      const existing = await client.query(
+        `SELECT id FROM marketplace_offers
+         WHERE listing_id = $1 AND buyer_id = $2 AND status IN ('pending', 'countered') AND expires_at > NOW()`,
+        [listingId, buyerId]
+      );
+      if (existing.rows.length > 0) {
+        throw new Error('You already have an open offer on this listing');
+      }
+
+      // Free the slot held by an open offer that expired but was not swept yet
+      await client.query(
+        `UPDATE marketplace_offers SET status = 'expired', updated_at = NOW()
+         WHERE listing_id = $1 AND buyer_id = $2 AND status IN ('pending', 'countered')`,
+        [listingId, buyerId]
+      );
+
+      const result = await client.query(
+        `INSERT INTO marketplace_offers (
+          listing_id, buyer_id, seller_id, amount, message, shipping_address, payment_method, expires_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+        RETURNING *`,
+        [
+          listingId,
+          buyerId,
+          listing.sellerId,
+          data.amount,
+          data.message || null,
+          JSON.stringify(data.shippingAddress),
+          data.paymentMethod || 'pix',
+          responseDeadline(),
+        ]
+      );
+      await this.addEvent(client, result.rows[0].id, buyerId, 'offered', data.amount, data.message);
+      return this.mapToOffer(result.rows[0]);
+    });
+
+    await EventNotificationService.notifyOfferEvent(offer, 'received', {
+      actorId: buyerId,
+      listingTitle: listing.title,
+    });
+    return offer;
+  }
+
+  /**
+   * Propose a new amount. A seller counter waits on the buyer; a buyer's
+   * counter to the seller's counter becomes their new pending offer.
+   */
+  static async counter(offerId: string, actorId: string, amount: number, message?: string): Promise<NegotiatedOffer> {
+    const { offer, listingTitle } = await db.transaction(async client => {
+      const current = await this.lockOffer(client, offerId);
+      this.assertCanRespond(current, actorId, 'counter');
+
+      const listing = await MarketplaceModel.findById(current.listingId);
+      if (!listing || listing.status !== 'active') {
+        throw new Error('Listing is not available for offers');
+      }
+      if (!(amount > 0) || amount > listing.price) {
+        throw new Error('Counter-offer must be greater than zero and at most the asking price');
+      }
+      if (amount === this.currentAmount(current)) {
+        throw new Error('Counter-offer must change the amount');
+      }
+
+      const result = actorId === current.sellerId
+        ? await client.query(
+          `UPDATE marketplace_offers
+           SET status = 'countered', counter_amount = $1, counter_message = $2, countered_at = NOW(),
+               expires_at = $3, updated_at = NOW()
+           WHERE id = $4
+           RETURNING *`,
+          [amount, message || null, responseDeadline(), offerId]
+        )
+        : await client.query(
+          `UPDATE marketplace_offers
+           SET status = 'pending', amount = $1, message = $2, counter_amount = NULL, counter_message = NULL,
+               countered_at = NULL, expires_at = $3, updated_at = NOW()
+           WHERE id = $4
+           RETURNING *`,
+          [amount, message || null, responseDeadline(), offerId]
+        );
+
+      await this.addEvent(client, offerId, actorId, 'countered', amount, message);
+      return { offer: this.mapToOffer(result.rows[0]), listingTitle: listing.title };
+    });
+
+    await EventNotificationService.notifyOfferEvent(offer, 'countered', { actorId, listingTitle, amount });
+    return offer;
+  }
+
+  static async decline(offerId: string, actorId: string, message?: string): Promise<NegotiatedOffer> {
+    const offer = await db.transaction(async client => {
+      const current = await this.lockOffer(client, offerId);
+      this.assertCanRespond(current, actorId, 'decline');
+
+      const result = await client.query(
+        `UPDATE marketplace_offers SET status = 'declined', updated_at = NOW() WHERE id = $1 RETURNING *`,
+        [offerId]
+      );
+      await this.addEvent(client, offerId, actorId, 'declined', this.currentAmount(current), message);
+      return this.mapToOffer(result.rows[0]);
+    });
+
+    const listing = await MarketplaceModel.findById(offer.listingId);
+    await EventNotificationService.notifyOfferEvent(offer, 'declined', {
+      actorId,
+      listingTitle: listing?.title,
+      amount: this.currentAmount(offer),
+    });
+    return offer;
+  }
+
+  /**
+   * Accept the amount on the table: reserves the listing by opening a transaction
+   * at the agreed price and closes the other open offers on the listing.
+   */
+  static async accept(offerId: string, actorId: string): Promise<{ offer: NegotiatedOffer; transactionId: string; paymentInstructions?: any }> {
+    const current = await this.getOffer(offerId);
+    if (!current) {
+      throw new Error('Offer not found');
+    }
+    this.assertCanRespond(current, actorId, 'accept');
+
+    const agreedAmount = this.currentAmount(current);
+
+    // Claim the offer first so a concurrent response or expiry cannot race the transaction
+    const claimed = await db.query(
+      `UPDATE marketplace_offers SET status = 'accepted', agreed_amount = $1, updated_at = NOW()
+       WHERE id = $2 AND status = $3 AND expires_at > NOW()
+       RETURNING *`,
+      [agreedAmount, offerId, current.status]
+    );
+    if (claimed.rows.length === 0) {
+      throw new Error('Offer is no longer open');
+    }
+
+    let created;
+    try {
+      created = await this.transactionService.createTransaction({
+        listingId: current.listingId,
+        buyerId: current.buyerId,
+        shippingAddress: current.shippingAddress,
+        paymentMethod: { type: current.paymentMethod },
+        agreedPrice: agreedAmount,
+        offerId,
+      });
+    } catch (error) {
+      // Restore the negotiation if the listing could not be reserved
+      await db.query(
+        `UPDATE marketplace_offers SET status = $1, agreed_amount = NULL, updated_at = NOW() WHERE id = $2`,
+        [current.status, offerId]
+      );
+      throw error;
+    }
+
+    const result = await db.query(
+      `UPDATE marketplace_offers SET transaction_id = $1, updated_at = NOW() WHERE id = $2 RETURNING *`,
+      [created.transaction.id, offerId]
+    );
+    await this.addEvent(db, offerId, actorId, 'accepted', agreedAmount);
+    const offer = this.mapToOffer(result.rows[0]);
+
+    const listing = await MarketplaceModel.findById(offer.listingId);
+    await EventNotificationService.notifyOfferEvent(offer, 'accepted', {
+      actorId,
+      listingTitle: listing?.title,
+      amount: agreedAmount,
+    });
+
+    const others = await db.query(
+      `UPDATE marketplace_offers SET status = 'declined', updated_at = NOW()
+       WHERE listing_id = $1 AND id <> $2 AND status IN ('pending', 'countered')
+       RETURNING *`,
+      [offer.listingId, offerId]
+    );
+    for (const row of others.rows) {
+      const closed = this.mapToOffer(row);
+      await this.addEvent(db, closed.id, undefined, 'declined', this.currentAmount(closed), 'Listing sold to another buyer');
+      await EventNotificationService.notifyOfferEvent(closed, 'closed', {
+        actorId: closed.sellerId,
+        listingTitle: listing?.title,
+        amount: this.currentAmount(closed),
+      });
+    }
+
+    return { offer, transactionId: created.transaction.id, paymentInstructions: created.paymentInstructions };
+  }
+
+  /**
+   * Expire negotiations nobody answered in time.
+   */
+  static async expireOffers(): Promise<number> {
+    const result = await db.query(
+      `UPDATE marketplace_offers SET status = 'expired', updated_at = NOW()
+       WHERE status IN ('pending', 'countered') AND expires_at <= NOW()
+       RETURNING marketplace_offers.*,
+         (SELECT title FROM marketplace_listings WHERE id = marketplace_offers.listing_id) AS listing_title`
+    );
+
+    for (const row of result.rows) {
+      const offer = this.mapToOffer(row);
+      await this.addEvent(db, offer.id, undefined, 'expired', row.counter_amount ? parseFloat(row.counter_amount) : offer.amount);
+      await EventNotificationService.notifyOfferEvent(offer, 'expired', {
+        listingTitle: row.listing_title,
+        amount: row.counter_amount ? parseFloat(row.counter_amount) : offer.amount,
+      });
+    }
+
+    console.log(`[OfferService] Expired ${result.rows.length} offers.`);
+    return result.rows.length;
+  }
+
+  static async getOffer(offerId: string): Promise<NegotiatedOffer | null> {
+    const result = await db.query('SELECT * FROM marketplace_offers WHERE id = $1', [offerId]);
+    return result.rows.length > 0 ? this.mapToOffer(result.rows[0]) : null;
+  }
+
+  static async getThread(offerId: string): Promise<OfferThreadEvent[]> {
+    const result = await db.query(
+      'SELECT * FROM marketplace_offer_events WHERE offer_id = $1 ORDER BY created_at ASC',
+      [offerId]
+    );
+    return result.rows.map(row => ({
+      id: row.id,
+      actorId: row.actor_id || undefined,
+      action: row.action,
+      amount: row.amount !== null ? parseFloat(row.amount) : undefined,
+      message: row.message || undefined,
+      createdAt: row.created_at,
+    }));
+  }
+
+  /**
+   * Offers on a listing: the seller sees all of them, a buyer only their own
+   */
+  static async getListingOffers(listingId: string, userId: string): Promise<NegotiatedOffer[]> {
+    const result = await db.query(
+      `SELECT * FROM marketplace_offers
+       WHERE listing_id = $1 AND (seller_id = $2 OR buyer_id = $2)
+       ORDER BY updated_at DESC`,
+      [listingId, userId]
+    );
+    return result.rows.map(row => this.mapToOffer(row));
+  }
+
+  static async getUserOffers(
+    userId: string,
+    role: 'buyer' | 'seller',
+    status?: MarketplaceOffer['status'],
+    limit: number = 50,
+    offset: number = 0
+  ): Promise<NegotiatedOffer[]> {
+    const params: any[] = [userId];
+    let statusFilter = '';
+    if (status) {
+      params.push(status);
+      statusFilter = `AND status = $${params.length}`;
+    }
+
+    const result = await db.query(
+      `SELECT * FROM marketplace_offers
+       WHERE ${role === 'buyer' ? 'buyer_id' : 'seller_id'} = $1 ${statusFilter}
+       ORDER BY updated_at DESC
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, limit, offset]
+    );
+    return result.rows.map(row => this.mapToOffer(row));
+  }
+
+  private static async lockOffer(client: Queryable, offerId: string): Promise<NegotiatedOffer> {
+    const result = await client.query('SELECT * FROM marketplace_offers WHERE id = $1 FOR UPDATE', [offerId]);
+    if (result.rows.length === 0) {
+      throw new Error('Offer not found');
+    }
+    return this.mapToOffer(result.rows[0]);
+  }
+
+  private static async addEvent(
+    client: Queryable,
+    offerId: string,
+    actorId: string | undefined,
+    action: OfferThreadEvent['action'],
+    amount?: number,
+    message?: string
+  ): Promise<void> {
+    await client.query(
+      `INSERT INTO marketplace_offer_events (offer_id, actor_id, action, amount, message)
+       VALUES ($1, $2, $3, $4, $5)`,
+      [offerId, actorId || null, action, amount ?? null, message || null]
+    );
+  }
+
+  private static mapToOffer(row: any): NegotiatedOffer {
+    return {
+      id: row.id,
+      listingId: row.listing_id,
+      buyerId: row.buyer_id,
+      sellerId: row.seller_id,
+      amount: parseFloat(row.amount),
+      message: row.message || undefined,
+      status: row.status,
+      expiresAt: row.expires_at,
+      counterOffer: row.counter_amount !== null && row.counter_amount !== undefined
+        ? {
+          amount: parseFloat(row.counter_amount),
+          message: row.counter_message || undefined,
+          createdAt: row.countered_at,
+        }
+        : undefined,
+      shippingAddress: typeof row.shipping_address === 'string' ? JSON.parse(row.shipping_address) : row.shipping_address,
+      paymentMethod: row.payment_method,
+      agreedAmount: row.agreed_amount !== null && row.agreed_amount !== undefined ? parseFloat(row.agreed_amount) : undefined,
+      transactionId: row.transaction_id || undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
@@ -0,0 +1,231 @@
+import { PoolClient } from 'pg';
+import { db } from '../database/connection';
+import { OutfitModel } from '../models/OutfitModel';
+import { CalendarEventModel } from '../models/CalendarEvent';
+import { HomiesModel } from '../models/Homies';
+import { ItemTrackingModel } from '../models/ItemTracking';
+import { OutfitCalendarModel, OutfitCalendarEntry } from '../models/OutfitCalendar';
+
+export interface ScheduleOutfitInput {
+    outfitId: string;
+    plannedDate: string;
+    calendarEventId?: string | null;
+    homiesListId?: string | null;
+    people?: string[];
+    notes?: string;
+}
+
+export interface RepeatWarning {
+    entryId: string;
+    plannedDate: string;
+    daysApart: number;
+    sharedPeople: string[];
+    homiesListId?: string;
+}
+
+export const DEFAULT_REPEAT_WINDOW_DAYS = 30;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toUtcDay = (date: string): number => Date.parse(`${date}T00:00:00Z`);
+
+export class OutfitCalendarService {
+    /**
+     * Entries of the same outfit within the window that were (or will be) seen by
+     * any of the same people. Being on the same homies list counts as the same
+     * company even when the list is empty.
+     */
+    static findRepeatedCompany(
+        candidate: { plannedDate: string; people: string[]; homiesListId?: string | null },
+        nearby: Array<Pick<OutfitCalendarEntry, 'id' | 'plannedDate' | 'people' | 'homiesListId'>>,
+        windowDays: number
+    ): RepeatWarning[] {
+        const people = new Set(candidate.people);
+        const warnings: RepeatWarning[] = [];
+
+        for (const entry of nearby) {
+            const daysApart = Math.abs(Math.round((toUtcDay(entry.plannedDate) - toUtcDay(candidate.plannedDate)) / DAY_MS));
+            if (daysApart > windowDays) {
+                continue;
+            }
+
+            const sharedPeople = entry.people.filter(person => people.has(person));
+            const sameList = !!candidate.homiesListId && entry.homiesListId === candidate.homiesListId;
+            if (sharedPeople.length === 0 && !sameList) {
+                continue;
+            }
+
+            warnings.push({
+                entryId: entry.id,
+                plannedDate: entry.plannedDate,
+                daysApart,
+                sharedPeople,
+                homiesListId: sameList ? entry.homiesListId : undefined,
+            });
+        }
+
+        return warnings.sort((a, b) => a.daysApart - b.daysApart);
+    }
+
+    static async getCalendar(userId: string, from: string, to: string): Promise<OutfitCalendarEntry[]> {
+        if (!DATE_PATTERN.test(from) || !DATE_PATTERN.test(to)) {
+            throw new Error('from and to must be dates in YYYY-MM-DD format');
+        }
+        return OutfitCalendarModel.findByUserAndRange(userId, from, to);
+    }
+
+    static async schedule(
+        userId: string,
+        input: ScheduleOutfitInput,
+        windowDays: number = DEFAULT_REPEAT_WINDOW_DAYS
+    ): Promise<{ entry: OutfitCalendarEntry; warnings: RepeatWarning[] }> {
+        await this.validate(userId, input);
+        const people = await this.resolvePeople(userId, input.homiesListId, input.people);
+
+        const entry = await OutfitCalendarModel.create({
+            userId,
+            outfitId: input.outfitId,
+            plannedDate: input.plannedDate,
+            calendarEventId: input.calendarEventId || undefined,
+            homiesListId: input.homiesListId || undefined,
+            people,
+            notes: input.notes,
+        });
+
+        return { entry, warnings: await this.getRepeatWarnings(entry, windowDays) };
+    }
+
+    static async reschedule(
+        entryId: string,
+        userId: string,
+        input: Partial<ScheduleOutfitInput>,
+        windowDays: number = DEFAULT_REPEAT_WINDOW_DAYS
+    ): Promise<{ entry: OutfitCalendarEntry; warnings: RepeatWarning[] }> {
+        const existing = await this.getOwnedEntry(entryId, userId);
+        if (existing.status === 'worn') {
+            throw new Error('Worn entries cannot be changed');
+        }
+
+        const merged: ScheduleOutfitInput = {
+            outfitId: input.outfitId ?? existing.outfitId,
+            plannedDate: input.plannedDate ?? existing.plannedDate,
+            calendarEventId: input.calendarEventId !== undefined ? input.calendarEventId : existing.calendarEventId,
+            homiesListId: input.homiesListId !== undefined ? input.homiesListId : existing.homiesListId,
+        };
+        await this.validate(userId, merged);
+
+        const peopleChanged = input.people !== undefined || input.homiesListId !== undefined;
+        const entry = await OutfitCalendarModel.update(entryId, {
+            outfitId: input.outfitId,
+            plannedDate: input.plannedDate,
+            calendarEventId: input.calendarEventId,
+            homiesListId: input.homiesListId,
+            people: peopleChanged ? await this.resolvePeople(userId, merged.homiesListId, input.people) : undefined,
+            notes: input.notes,
+        });
+
+        return { entry: entry!, warnings: await this.getRepeatWarnings(entry!, windowDays) };
+    }
+
+    static async getRepeatWarnings(entry: OutfitCalendarEntry, windowDays: number = DEFAULT_REPEAT_WINDOW_DAYS): Promise<RepeatWarning[]> {
+        const nearby = await OutfitCalendarModel.findOutfitEntriesNear(
+            entry.userId,
+            entry.outfitId,
+            entry.plannedDate,
+            windowDays,
+            entry.id
+        );
+        return this.findRepeatedCompany(entry, nearby, windowDays);
+    }
+
+    /**
+     * Mark the day as worn and log a wear on that date for every wardrobe item in the outfit
+     */
+    static async markWorn(entryId: string, userId: string): Promise<{ entry: OutfitCalendarEntry; itemsLogged: number }> {
+        const entry = await this.getOwnedEntry(entryId, userId);
+        if (entry.status === 'worn') {
+            throw new Error('Outfit is already marked as worn for this day');
+        }
+        if (toUtcDay(entry.plannedDate) > Date.now()) {
+            throw new Error('Cannot mark a future day as worn');
+        }
+
+        const outfit = await OutfitModel.findById(entry.outfitId);
+        if (!outfit) {
+            throw new Error('Outfit not found');
+        }
+
+        // Wear is only tracked for wardrobe items; SKU references are catalog products
+        const itemIds = Array.from(new Set(
+            outfit.items.filter(item => item.itemType === 'vufs').map(item => item.itemId)
+        ));
+        const wearDate = new Date(`${entry.plannedDate}T12:00:00Z`);
+        await db.transaction(async (client: PoolClient) => {
+            // Only the request that flips the entry to worn logs the wears
+            if (!await OutfitCalendarModel.markWorn(entryId, client)) {
+                throw new Error('Outfit is already marked as worn for this day');
+            }
+            for (const itemId of itemIds) {
+                await ItemTrackingModel.recordItemWear(itemId, wearDate, client);
+            }
+        });
+
+        return { entry: (await OutfitCalendarModel.findById(entryId))!, itemsLogged: itemIds.length };
+    }
+
+    static async remove(entryId: string, userId: string): Promise<void> {
+        await this.getOwnedEntry(entryId, userId);
+        await OutfitCalendarModel.delete(entryId);
+    }
+
+    private static async getOwnedEntry(entryId: string, userId: string): Promise<OutfitCalendarEntry> {
+        const entry = await OutfitCalendarModel.findById(entryId);
+        if (!entry || entry.userId !== userId) {
+            throw new Error('Calendar entry not found');
+        }
+        return entry;
+    }
+
+    private static async validate(userId: string, input: ScheduleOutfitInput): Promise<void> {
+        if (!input.outfitId) {
+            throw new Error('outfitId is required');
+        }
+        if (!input.plannedDate || !DATE_PATTERN.test(input.plannedDate) || isNaN(toUtcDay(input.plannedDate))) {
+            throw new Error('plannedDate must be a date in YYYY-MM-DD format');
+        }
+
+        const outfit = await OutfitModel.findById(input.outfitId);
+        if (!outfit || outfit.deletedAt || outfit.ownerId !== userId) {
+            throw new Error('Outfit not found');
+        }
+
+        if (input.calendarEventId) {
+            const event = await CalendarEventModel.findById(input.calendarEventId);
+            if (!event) {
+                throw new Error('Calendar event not found');
+            }
+        }
+
+        if (input.homiesListId) {
+            const list = await HomiesModel.getListById(input.homiesListId);
+            if (!list || list.userId !== userId) {
+                throw new Error('Homies list not found');
+            }
+        }
+    }
+
+    private static async resolvePeople(userId: string, homiesListId?: string | null, people: string[] = []): Promise<string[]> {
+        if (!Array.isArray(people) || people.some(person => typeof person !== 'string' || !UUID_PATTERN.test(person))) {
+            throw new Error('people must be a list of user ids in UUID format');
+        }
+
+        const resolved = new Set(people.filter(person => person !== userId));
+        if (homiesListId) {
+            const members = await HomiesModel.getListMembers(homiesListId);
+            members.forEach(member => resolved.add(member.id));
+        }
+        return Array.from(resolved);
+    }
+}
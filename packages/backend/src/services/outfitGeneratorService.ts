@@ -0,0 +1,398 @@
+import { VUFSColor, VUFSStyle } from '@vangarments/shared/types/vufs';
+import { VUFSItemModel, BackendVUFSItem } from '../models/VUFSItem';
+import { ItemTrackingModel } from '../models/ItemTracking';
+
+export type OutfitRole = 'top' | 'bottom' | 'dress' | 'footwear' | 'outerwear';
+export type OutfitOccasion = 'casual' | 'work' | 'formal' | 'sport' | 'night_out';
+
+export interface GeneratorItem {
+    itemId: string;
+    name: string;
+    role: OutfitRole;
+    color?: string;
+    styles: string[];
+    /** 1 (super lightweight) to 6 (extraheavyweight), from the VUFS pattern weight */
+    weight?: number;
+    keywords: string;
+    imageUrl?: string;
+    lastWornAt?: Date;
+}
+
+export interface GenerateOutfitConstraints {
+    occasion?: OutfitOccasion;
+    temperature?: { min: number; max: number };
+    includeItemIds?: string[];
+    excludeItemIds?: string[];
+    notWornInDays?: number;
+    count?: number;
+}
+
+export interface OutfitSuggestion {
+    items: Array<Pick<GeneratorItem, 'itemId' | 'name' | 'role' | 'color' | 'styles' | 'imageUrl'>>;
+    score: number;
+    explanation: string[];
+}
+
+type ColorFamily = { neutral: true } | { neutral: false; hue: number };
+
+/** Neutrals pair with everything; chromatic colors are placed on the color wheel (degrees) */
+const COLOR_WHEEL: Record<VUFSColor, ColorFamily> = {
+    'Black': { neutral: true },
+    'Bone White': { neutral: true },
+    'Charcoal': { neutral: true },
+    'Cream': { neutral: true },
+    'Gray': { neutral: true },
+    'Light Grey': { neutral: true },
+    'Navy': { neutral: true },
+    'Off-White': { neutral: true },
+    'Silver': { neutral: true },
+    'White': { neutral: true },
+    'Red': { neutral: false, hue: 0 },
+    'Salmon': { neutral: false, hue: 10 },
+    'Orange': { neutral: false, hue: 30 },
+    'Yellow': { neutral: false, hue: 60 },
+    'Light Green': { neutral: false, hue: 100 },
+    'Green': { neutral: false, hue: 120 },
+    'Teal': { neutral: false, hue: 180 },
+    'Light Blue': { neutral: false, hue: 200 },
+    'Blue': { neutral: false, hue: 220 },
+    'Lavender Purple': { neutral: false, hue: 260 },
+    'Violet Purple': { neutral: false, hue: 275 },
+    'Purple': { neutral: false, hue: 280 },
+    'Pink': { neutral: false, hue: 330 },
+    'Burgundy': { neutral: false, hue: 345 },
+    'Wine': { neutral: false, hue: 345 },
+};
+
+/** Styles that sit well together; two styles are compatible when they share a family */
+const STYLE_FAMILIES: VUFSStyle[][] = [
+    ['Casual', 'Minimalist', 'Classic'],
+    ['Streetwear', 'Urban', 'Skater', 'Y2K'],
+    ['Streetwear', 'Utility', 'Urban'],
+    ['Grunge', 'Vintage', 'Skater'],
+    ['Vintage', 'Classic'],
+    ['Athleisure', 'Sportswear', 'Casual'],
+];
+
+const OCCASION_STYLES: Record<OutfitOccasion, VUFSStyle[] | null> = {
+    casual: null,
+    work: ['Classic', 'Minimalist', 'Casual'],
+    formal: ['Classic', 'Minimalist'],
+    sport: ['Athleisure', 'Sportswear'],
+    night_out: ['Streetwear', 'Urban', 'Y2K', 'Minimalist', 'Classic', 'Grunge'],
+};
+
+const ROLE_KEYWORDS: Array<[OutfitRole, RegExp]> = [
+    ['footwear', /footwear|sneaker|boot|shoe|sandal|loafer|slipper|mule|heel/],
+    ['dress', /dress|jumpsuit|overall|romper/],
+    ['outerwear', /outerwear|jacket|coat|blazer|parka|windbreaker|vest|cardigan|winter|puffer|trench/],
+    // "shorts" only as a word, so short-sleeve tops stay tops
+    ['bottom', /bottom|pant|trouser|jean|\bshorts\b|skirt|legging|jogger/],
+    ['top', /\btops?\b|shirt|tee|blouse|tank|polo|sweater|sweatshirt|hoodie|jersey|sweat|knit/],
+];
+
+const WARM_WEATHER_ONLY = /\bshorts\b|tank|sandal|slipper|linen/;
+const MAX_PER_ROLE = 12;
+
+export class OutfitGeneratorService {
+    static classifyRole(text: string): OutfitRole | null {
+        const normalized = text.toLowerCase();
+        for (const [role, pattern] of ROLE_KEYWORDS) {
+            if (pattern.test(normalized)) {
+                return role;
+            }
+        }
+        return null;
+    }
+
+    static colorHarmony(a?: string, b?: string): { compatible: boolean; rule: string } {
+        const first = a ? COLOR_WHEEL[a as VUFSColor] : undefined;
+        const second = b ? COLOR_WHEEL[b as VUFSColor] : undefined;
+        if (!first || !second) {
+            return { compatible: true, rule: 'unknown' };
+        }
+        if (first.neutral || second.neutral) {
+            return { compatible: true, rule: 'neutral' };
+        }
+
+        const distance = Math.min(Math.abs(first.hue - second.hue), 360 - Math.abs(first.hue - second.hue));
+        if (distance <= 40) return { compatible: true, rule: distance === 0 ? 'monochrome' : 'analogous' };
+        if (distance >= 150) return { compatible: true, rule: 'complementary' };
+        if (distance >= 110 && distance <= 130) return { compatible: true, rule: 'triadic' };
+        return { compatible: false, rule: 'clash' };
+    }
+
+    static stylesCompatible(a: string[], b: string[]): boolean {
+        if (a.length === 0 || b.length === 0) {
+            return true;
+        }
+        return a.some(styleA => b.some(styleB =>
+            styleA === styleB ||
+            STYLE_FAMILIES.some(family => family.includes(styleA as VUFSStyle) && family.includes(styleB as VUFSStyle))
+        ));
+    }
+
+    /**
+     * Whether an item can be worn in the temperature range at all
+     */
+    static suitsTemperature(item: GeneratorItem, temperature?: { min: number; max: number }): boolean {
+        if (!temperature) return true;
+        if (temperature.max < 18 && WARM_WEATHER_ONLY.test(item.keywords)) return false;
+        if (temperature.max >= 28 && (item.weight ?? 0) >= 4) return false;
+        if (item.role === 'outerwear' && temperature.min >= 24) return false;
+        return true;
+    }
+
+    /**
+     * Build up to `count` outfits from the candidate items. Each outfit is a top and
+     * bottom (or a dress) with footwear, plus outerwear when the weather calls for it.
+     * Suggestions do not share pieces other than the ones the user asked to include.
+     */
+    static generate(items: GeneratorItem[], constraints: GenerateOutfitConstraints = {}, now: Date = new Date()): OutfitSuggestion[] {
+        const include = new Set(constraints.includeItemIds || []);
+        const exclude = new Set(constraints.excludeItemIds || []);
+        const notWornBefore = constraints.notWornInDays
+            ? now.getTime() - constraints.notWornInDays * 24 * 60 * 60 * 1000
+            : undefined;
+
+        this.assertWearableTogether(items.filter(item => include.has(item.itemId)));
+
+        const pool = items.filter(item => {
+            if (include.has(item.itemId)) return true;
+            if (exclude.has(item.itemId)) return false;
+            if (notWornBefore !== undefined && item.lastWornAt && item.lastWornAt.getTime() > notWornBefore) return false;
+            return this.suitsTemperature(item, constraints.temperature);
+        });
+
+        const byRole = (role: OutfitRole): GeneratorItem[] => {
+            const required = pool.filter(item => item.role === role && include.has(item.itemId));
+            if (required.length > 0) return required;
+            return pool
+                .filter(item => item.role === role)
+                .sort((a, b) => this.itemScore(b, constraints, now) - this.itemScore(a, constraints, now))
+                .slice(0, MAX_PER_ROLE);
+        };
+
+        const needsOuterwear = !!constraints.temperature && constraints.temperature.min < 15;
+        const outerwearOptions: Array<GeneratorItem | null> = needsOuterwear
+            ? byRole('outerwear')
+            : [null, ...byRole('outerwear')];
+        const footwear = byRole('footwear');
+        const bases: GeneratorItem[][] = [];
+        const includedDress = pool.some(item => item.role === 'dress' && include.has(item.itemId));
+        const includedSeparates = pool.some(item => (item.role === 'top' || item.role === 'bottom') && include.has(item.itemId));
+
+        if (!includedDress) {
+            for (const top of byRole('top')) {
+                for (const bottom of byRole('bottom')) {
+                    bases.push([top, bottom]);
+                }
+            }
+        }
+        if (!includedSeparates) {
+            byRole('dress').forEach(dress => bases.push([dress]));
+        }
+
+        const candidates: Array<{ pieces: GeneratorItem[]; score: number; explanation: string[] }> = [];
+        for (const base of bases) {
+            for (const shoes of footwear) {
+                for (const outer of outerwearOptions) {
+                    const pieces = outer ? [...base, shoes, outer] : [...base, shoes];
+                    if (Array.from(include).some(id => !pieces.some(piece => piece.itemId === id))) {
+                        continue;
+                    }
+                    const evaluated = this.evaluate(pieces, constraints, now);
+                    if (evaluated) {
+                        candidates.push({ pieces, ...evaluated });
+                    }
+                }
+            }
+        }
+
+        candidates.sort((a, b) => b.score - a.score);
+
+        const count = Math.min(Math.max(constraints.count || 3, 1), 10);
+        const used = new Set<string>();
+        const suggestions: OutfitSuggestion[] = [];
+        for (const candidate of candidates) {
+            if (candidate.pieces.some(piece => used.has(piece.itemId) && !include.has(piece.itemId))) {
+                continue;
+            }
+            candidate.pieces.forEach(piece => used.add(piece.itemId));
+            suggestions.push({
+                items: candidate.pieces.map(({ itemId, name, role, color, styles, imageUrl }) => ({ itemId, name, role, color, styles, imageUrl })),
+                score: Math.round(candidate.score * 10) / 10,
+                explanation: candidate.explanation,
+            });
+            if (suggestions.length >= count) break;
+        }
+
+        return suggestions;
+    }
+
+    /**
+     * Items the user asked to include must fit in a single outfit: one piece per
+     * role, and a dress replaces the top and bottom
+     */
+    static assertWearableTogether(included: GeneratorItem[]): void {
+        for (let i = 0; i < included.length; i++) {
+            for (let j = i + 1; j < included.length; j++) {
+                const [a, b] = [included[i], included[j]];
+                const roles = [a.role, b.role];
+                if (a.role === b.role || (roles.includes('dress') && (roles.includes('top') || roles.includes('bottom')))) {
+                    throw new Error(`Included items cannot be worn together: ${a.name} (${a.role}) and ${b.name} (${b.role})`);
+                }
+            }
+        }
+    }
+
+    static async generateForUser(userId: string, constraints: GenerateOutfitConstraints = {}): Promise<OutfitSuggestion[]> {
+        const [wardrobe, wear] = await Promise.all([
+            VUFSItemModel.findByOwner(userId),
+            ItemTrackingModel.getUserWearData(userId),
+        ]);
+        const lastWorn = new Map(wear.map(entry => [entry.itemId, entry.lastWornAt]));
+
+        const items = wardrobe
+            .filter(item => !item.ownership?.status || item.ownership.status === 'owned')
+            .map(item => this.toGeneratorItem(item, lastWorn.get(item.id)))
+            .filter((item): item is GeneratorItem => item !== null);
+
+        const unknown = (constraints.includeItemIds || []).filter(id => !items.some(item => item.itemId === id));
+        if (unknown.length > 0) {
+            throw new Error(`Items not found in your wardrobe: ${unknown.join(', ')}`);
+        }
+
+        return this.generate(items, constraints);
+    }
+
+    static toGeneratorItem(item: BackendVUFSItem, lastWornAt?: Date): GeneratorItem | null {
+        const category = item.category || ({} as BackendVUFSItem['category']);
+        const metadata: any = item.metadata || {};
+        const categoryText = [
+            category.page, category.blueSubcategory, category.whiteSubcategory, category.graySubcategory,
+        ].filter(Boolean).join(' ').toLowerCase();
+        const keywords = [categoryText, metadata.name].filter(Boolean).join(' ').toLowerCase();
+
+        // The catalog category is authoritative; free-text names only fill in when it says nothing
+        const role = this.classifyRole(categoryText) || (metadata.name ? this.classifyRole(metadata.name) : null);
+        if (!role) {
+            return null;
+        }
+
+        const firstColor = Array.isArray(metadata.colors) ? metadata.colors[0] : undefined;
+        const weight = parseInt(String(metadata.pattern || '').charAt(0));
+
+        return {
+            itemId: item.id,
+            name: metadata.name || category.graySubcategory || category.whiteSubcategory || 'Untitled item',
+            role,
+            color: firstColor?.primary || firstColor?.name || metadata.color || undefined,
+            styles: item.styleNames && item.styleNames.length > 0
+                ? item.styleNames
+                : (metadata.style ? [metadata.style] : []),
+            weight: isNaN(weight) ? undefined : weight,
+            keywords,
+            imageUrl: item.images?.find(image => image.isPrimary)?.url || item.images?.[0]?.url,
+            lastWornAt,
+        };
+    }
+
+    private static itemScore(item: GeneratorItem, constraints: GenerateOutfitConstraints, now: Date): number {
+        let score = 0;
+        const occasionStyles = constraints.occasion ? OCCASION_STYLES[constraints.occasion] : null;
+        if (occasionStyles && item.styles.some(style => occasionStyles.includes(style as VUFSStyle))) {
+            score += 2;
+        }
+        // Favor pieces that have not been in rotation lately
+        const idleDays = item.lastWornAt ? (now.getTime() - item.lastWornAt.getTime()) / (24 * 60 * 60 * 1000) : 60;
+        score += Math.min(idleDays, 60) / 30;
+        return score;
+    }
+
+    /**
+     * Score a full outfit, or return null when two pieces clash in color or style
+     */
+    private static evaluate(
+        pieces: GeneratorItem[],
+        constraints: GenerateOutfitConstraints,
+        now: Date
+    ): { score: number; explanation: string[] } | null {
+        const explanation: string[] = [];
+        let score = 0;
+
+        const rules = new Set<string>();
+        for (let i = 0; i < pieces.length; i++) {
+            for (let j = i + 1; j < pieces.length; j++) {
+                const harmony = this.colorHarmony(pieces[i].color, pieces[j].color);
+                if (!harmony.compatible) return null;
+                if (!this.stylesCompatible(pieces[i].styles, pieces[j].styles)) return null;
+                rules.add(harmony.rule);
+            }
+        }
+
+        const colors = Array.from(new Set(pieces.map(piece => piece.color).filter(Boolean)));
+        const chromatic = colors.filter(color => COLOR_WHEEL[color as VUFSColor] && !(COLOR_WHEEL[color as VUFSColor] as ColorFamily).neutral);
+        if (chromatic.length > 2) {
+            return null;
+        }
+        if (colors.length > 0) {
+            const named = Array.from(rules).filter(rule => rule !== 'unknown');
+            explanation.push(named.length > 0
+                ? `Colors ${colors.join(', ')} work together (${named.join(', ')} harmony)`
+                : `Colors: ${colors.join(', ')}`);
+            score += rules.has('monochrome') || rules.has('analogous') || rules.has('complementary') ? 2 : 1;
+            score += chromatic.length <= 1 ? 1 : 0;
+        }
+
+        const sharedStyles = pieces.reduce<string[] | null>((shared, piece) => {
+            if (piece.styles.length === 0) return shared;
+            return shared === null ? [...piece.styles] : shared.filter(style => piece.styles.includes(style));
+        }, null);
+        if (sharedStyles && sharedStyles.length > 0) {
+            explanation.push(`Every styled piece is ${sharedStyles.join(' / ')}`);
+            score += 2;
+        } else if (sharedStyles) {
+            explanation.push('Styles are compatible across pieces');
+            score += 1;
+        }
+
+        if (constraints.occasion) {
+            const occasionStyles = OCCASION_STYLES[constraints.occasion];
+            const matching = occasionStyles
+                ? pieces.filter(piece => piece.styles.some(style => occasionStyles.includes(style as VUFSStyle)))
+                : pieces;
+            if (occasionStyles && matching.length > 0) {
+                explanation.push(`${matching.length} of ${pieces.length} pieces suit a ${constraints.occasion.replace('_', ' ')} occasion`);
+            }
+            score += (matching.length / pieces.length) * 3;
+        }
+
+        if (constraints.temperature) {
+            const { min, max } = constraints.temperature;
+            const outer = pieces.find(piece => piece.role === 'outerwear');
+            explanation.push(outer
+                ? `${outer.name} adds a layer for ${min}–${max}°C`
+                : `No outer layer needed for ${min}–${max}°C`);
+        }
+
+        const idle = pieces.filter(piece => !piece.lastWornAt);
+        const recentCutoff = constraints.notWornInDays
+            ? now.getTime() - constraints.notWornInDays * 24 * 60 * 60 * 1000
+            : undefined;
+        if (recentCutoff !== undefined && pieces.every(piece => !piece.lastWornAt || piece.lastWornAt.getTime() <= recentCutoff)) {
+            explanation.push(`None of the pieces were worn in the last ${constraints.notWornInDays} days`);
+        } else if (idle.length > 0) {
+            explanation.push(`Includes ${idle.length === 1 ? 'a piece' : `${idle.length} pieces`} you have not worn yet`);
+        }
+
+        const include = new Set(constraints.includeItemIds || []);
+        const included = pieces.filter(piece => include.has(piece.itemId));
+        if (included.length > 0) {
+            explanation.push(`Built around ${included.map(piece => piece.name).join(', ')}`);
+        }
+
+        score += pieces.reduce((sum, piece) => sum + this.itemScore(piece, constraints, now), 0) / pieces.length;
+        return { score, explanation };
+    }
+}
@@ -0,0 +1,238 @@
+import { db } from '../database/connection';
+import { PaymentService, PaymentStatus } from './paymentService';
+import { TransactionService } from './transactionService';
+import { TransactionStatus } from '../types/shared';
+
+export type ReconciliationMismatchType =
+  | 'missing_at_provider'
+  | 'status_mismatch'
+  | 'amount_mismatch'
+  | 'charged_but_cancelled';
+
+export interface ReconciliationMismatch {
+  type: ReconciliationMismatchType;
+  /** True when applying the provider status to the transaction resolves it */
+  fixable: boolean;
+}
+
+export interface ReconciliationOptions {
+  provider?: string;
+  sinceDays?: number;
+  autoFix?: boolean;
+}
+
+export interface ReconciliationRun {
+  id: string;
+  provider?: string;
+  status: 'running' | 'completed' | 'failed';
+  checkedCount: number;
+  mismatchCount: number;
+  fixedCount: number;
+  error?: string;
+  startedAt: Date;
+  finishedAt?: Date;
+}
+
+/**
+ * Provider statuses that agree with each local transaction status
+ */
+const EXPECTED_PROVIDER_STATUSES: Record<TransactionStatus, PaymentStatus['status'][]> = {
+  pending_payment: ['pending', 'processing'],
+  payment_confirmed: ['completed'],
+  processing: ['completed'],
+  shipped: ['completed'],
+  delivered: ['completed'],
+  completed: ['completed'],
+  cancelled: ['failed', 'cancelled', 'refunded'],
+  refunded: ['refunded'],
+  disputed: ['completed', 'refunded'],
+};
+
+const transactionService = new TransactionService();
+
+export class PaymentReconciliationService {
+  /**
+   * Compare one transaction with the provider's view of its payment
+   */
+  static classify(
+    transaction: { status: TransactionStatus; amount: number },
+    providerStatus: Pick<PaymentStatus, 'status' | 'amount'>
+  ): ReconciliationMismatch | null {
+    const expected = EXPECTED_PROVIDER_STATUSES[transaction.status] || [];
+
+    if (!expected.includes(providerStatus.status)) {
+      if (transaction.status === 'cancelled' && providerStatus.status === 'completed') {
+        return { type: 'charged_but_cancelled', fixable: false };
+      }
+
+      const fixable =
+        (transaction.status === 'pending_payment' && providerStatus.status !== 'pending') ||
+        (providerStatus.status === 'refunded' && transaction.status !== 'refunded');
+
+      return { type: 'status_mismatch', fixable };
+    }
+
+    if (Math.abs(providerStatus.amount - transaction.amount) >= 0.01) {
+      return { type: 'amount_mismatch', fixable: false };
+    }
+
+    return null;
+  }
+
+  /**
+   * Check recent transactions against their providers and record every mismatch.
+   */
+  static async reconcile(options: ReconciliationOptions = {}): Promise<ReconciliationRun> {
+    const { provider, sinceDays = 7, autoFix = false } = options;
+
+    const runResult = await db.query(
+      'INSERT INTO payment_reconciliation_runs (provider) VALUES ($1) RETURNING *',
+      [provider || null]
+    );
+    const runId = runResult.rows[0].id;
+
+    let checkedCount = 0;
+    let mismatchCount = 0;
+    let fixedCount = 0;
+
+    try {
+      const values: any[] = [sinceDays];
+      let providerFilter = '';
+      if (provider) {
+        values.push(provider);
+        providerFilter = 'AND payment_provider = $2';
+      }
+
+      const transactions = await db.query(
+        `SELECT id, status, amount, payment_id, payment_provider
+         FROM marketplace_transactions
+         WHERE payment_id IS NOT NULL
+           AND payment_provider IS NOT NULL
+           AND updated_at >= NOW() - ($1 || ' days')::interval
+           ${providerFilter}
+         ORDER BY updated_at ASC`,
+        values
+      );
+
+      for (const row of transactions.rows) {
+        checkedCount++;
+        const transaction = { status: row.status as TransactionStatus, amount: parseFloat(row.amount) };
+
+        let providerStatus: PaymentStatus | null = null;
+        let mismatch: ReconciliationMismatch | null;
+        try {
+          providerStatus = await PaymentService.getProvider(row.payment_provider).getPaymentStatus(row.payment_id);
+          mismatch = this.classify(transaction, providerStatus);
+        } catch (error) {
+          mismatch = { type: 'missing_at_provider', fixable: false };
+        }
+
+        if (!mismatch) continue;
+        mismatchCount++;
+
+        let resolution: 'flagged' | 'fixed' = 'flagged';
+        if (autoFix && mismatch.fixable && providerStatus) {
+          const applied = await transactionService.applyPaymentStatus(row.id, providerStatus.status, {
+            source: 'reconciliation',
+            reference: runId,
+            failureReason: providerStatus.failureReason,
+          });
+          if (applied.changed) {
+            resolution = 'fixed';
+            fixedCount++;
+          }
+        }
+
+        await db.query(
+          `INSERT INTO payment_reconciliation_items (
+            run_id, transaction_id, provider, payment_id, transaction_status,
+            provider_status, mismatch_type, resolution, details
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+          [
+            runId,
+            row.id,
+            row.payment_provider,
+            row.payment_id,
+            row.status,
+            providerStatus?.status || null,
+            mismatch.type,
+            resolution,
+            JSON.stringify({
+              transactionAmount: transaction.amount,
+              providerAmount: providerStatus?.amount,
+              fixable: mismatch.fixable,
+            }),
+          ]
+        );
+      }
+
+      const finished = await db.query(
+        `UPDATE payment_reconciliation_runs
+         SET status = 'completed', checked_count = $1, mismatch_count = $2, fixed_count = $3, finished_at = NOW()
+         WHERE id = $4
+         RETURNING *`,
+        [checkedCount, mismatchCount, fixedCount, runId]
+      );
+
+      console.log(`[PaymentReconciliationService] Checked ${checkedCount} transactions, ${mismatchCount} mismatches, ${fixedCount} fixed.`);
+      return this.mapToRun(finished.rows[0]);
+    } catch (error: any) {
+      console.error('[PaymentReconciliationService] Reconciliation failed:', error);
+      await db.query(
+        `UPDATE payment_reconciliation_runs
+         SET status = 'failed', checked_count = $1, mismatch_count = $2, fixed_count = $3, error = $4, finished_at = NOW()
+         WHERE id = $5`,
+        [checkedCount, mismatchCount, fixedCount, error?.message || 'Unknown error', runId]
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Recent reconciliation runs, newest first
+   */
+  static async getRuns(limit: number = 20): Promise<ReconciliationRun[]> {
+    const result = await db.query(
+      'SELECT * FROM payment_reconciliation_runs ORDER BY started_at DESC LIMIT $1',
+      [limit]
+    );
+    return result.rows.map(row => this.mapToRun(row));
+  }
+
+  /**
+   * Mismatches recorded by a run
+   */
+  static async getRunItems(runId: string): Promise<any[]> {
+    const result = await db.query(
+      'SELECT * FROM payment_reconciliation_items WHERE run_id = $1 ORDER BY created_at ASC',
+      [runId]
+    );
+
+    return result.rows.map(row => ({
+      id: row.id,
+      transactionId: row.transaction_id,
+      provider: row.provider,
+      paymentId: row.payment_id,
+      transactionStatus: row.transaction_status,
+      providerStatus: row.provider_status,
+      mismatchType: row.mismatch_type,
+      resolution: row.resolution,
+      details: row.details,
+      createdAt: row.created_at,
+    }));
+  }
+
+  private static mapToRun(row: any): ReconciliationRun {
+    return {
+      id: row.id,
+      provider: row.provider || undefined,
+      status: row.status,
+      checkedCount: row.checked_count,
+      mismatchCount: row.mismatch_count,
+      fixedCount: row.fixed_count,
+      error: row.error || undefined,
+      startedAt: row.started_at,
+      finishedAt: row.finished_at || undefined,
+    };
+  }
+}
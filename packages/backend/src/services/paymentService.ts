@@ -1,10 +1,25 @@
 import { Transaction } from '@vangarments/shared/types/marketplace';
+import { SandboxPaymentProvider } from './sandboxPaymentProvider';
 
 export interface PaymentProvider {
   name: string;
   processPayment(paymentData: PaymentRequest): Promise<PaymentResult>;
-  refundPayment(transactionId: string, amount?: number): Promise<RefundResult>;
+  refundPayment(paymentId: string, amount?: number): Promise<RefundResult>;
   getPaymentStatus(paymentId: string): Promise<PaymentStatus>;
+  parseWebhook?(rawBody: string, headers: WebhookHeaders): PaymentWebhookEvent;
+}
+
+export type WebhookHeaders = Record<string, string | string[] | undefined>;
+
+export interface PaymentWebhookEvent {
+  eventId: string;
+  provider: string;
+  paymentId: string;
+  status: PaymentStatus['status'];
+  amount?: number;
+  failureReason?: string;
+  occurredAt: Date;
+  payload: any;
 }
 
 export interface PaymentRequest {
@@ -223,11 +238,55 @@ class PIXPaymentProvider implements PaymentProvider {
 }
 
 export class PaymentService {
-  private providers: Map<string, PaymentProvider> = new Map();
+  private static providers: Map<string, PaymentProvider> = new Map();
+
+  /**
+   * Register (or replace) a payment provider
+   */
+  static registerProvider(provider: PaymentProvider): void {
+    this.providers.set(provider.name, provider);
+  }
+
+  /**
+   * Remove a provider from the registry
+   */
+  static unregisterProvider(name: string): void {
+    this.providers.delete(name);
+  }
+
+  /**
+   * Look up a registered provider
+   */
+  static getProvider(name: string): PaymentProvider {
+    const provider = this.providers.get(name);
+    if (!provider) {
+      throw new Error(`Payment provider ${name} not found`);
+    }
+    return provider;
+  }
+
+  /**
+   * Names of all registered providers
+   */
+  static listProviders(): string[] {
+    return Array.from(this.providers.keys());
+  }
+
+  /**
+   * Pick the provider that should charge a given payment method.
+   * PAYMENT_PROVIDER pins every charge to one provider (e.g. `sandbox` locally).
+   */
+  static resolveProviderName(paymentMethod: string): string {
+    const configured = process.env.PAYMENT_PROVIDER;
+    if (configured) {
+      return configured;
+    }
 
-  constructor() {
-    this.providers.set('stripe', new StripePaymentProvider());
-    this.providers.set('pix', new PIXPaymentProvider());
+    if (process.env.NODE_ENV !== 'production' && this.providers.has('sandbox')) {
+      return 'sandbox';
+    }
+
+    return paymentMethod === 'pix' ? 'pix' : 'stripe';
   }
 
   /**
@@ -237,12 +296,7 @@ export class PaymentService {
     providerName: string,
     paymentData: PaymentRequest
   ): Promise<PaymentResult> {
-    const provider = this.providers.get(providerName);
-    if (!provider) {
-      throw new Error(`Payment provider ${providerName} not found`);
-    }
-
-    return provider.processPayment(paymentData);
+    return PaymentService.getProvider(providerName).processPayment(paymentData);
   }
 
   /**
@@ -250,15 +304,10 @@ export class PaymentService {
    */
   async refundPayment(
     providerName: string,
-    transactionId: string,
+    paymentId: string,
     amount?: number
   ): Promise<RefundResult> {
-    const provider = this.providers.get(providerName);
-    if (!provider) {
-      throw new Error(`Payment provider ${providerName} not found`);
-    }
-
-    return provider.refundPayment(transactionId, amount);
+    return PaymentService.getProvider(providerName).refundPayment(paymentId, amount);
   }
 
   /**
@@ -268,12 +317,7 @@ export class PaymentService {
     providerName: string,
     paymentId: string
   ): Promise<PaymentStatus> {
-    const provider = this.providers.get(providerName);
-    if (!provider) {
-      throw new Error(`Payment provider ${providerName} not found`);
-    }
-
-    return provider.getPaymentStatus(paymentId);
+    return PaymentService.getProvider(providerName).getPaymentStatus(paymentId);
   }
 
   /**
@@ -417,4 +461,15 @@ export class PaymentService {
       },
     ];
   }
-}
\ No newline at end of file
+}
+
+PaymentService.registerProvider(new StripePaymentProvider());
+PaymentService.registerProvider(new PIXPaymentProvider());
+// The sandbox settles payments without charging anyone, so it is never offered in production
+if (process.env.NODE_ENV !== 'production') {
+  if (process.env.PAYMENT_SANDBOX_WEBHOOK_SECRET) {
+    PaymentService.registerProvider(new SandboxPaymentProvider(process.env.PAYMENT_SANDBOX_WEBHOOK_SECRET));
+  } else {
+    console.warn('PAYMENT_SANDBOX_WEBHOOK_SECRET is not set; the sandbox payment provider is disabled');
+  }
+}
@@ -0,0 +1,145 @@
+import { db } from '../database/connection';
+import { PaymentService, WebhookHeaders } from './paymentService';
+import { TransactionService } from './transactionService';
+
+export interface WebhookIngestResult {
+  eventId: string;
+  duplicate: boolean;
+  processingStatus: 'processed' | 'ignored' | 'failed';
+  transactionId?: string;
+  transactionStatus?: string;
+}
+
+const transactionService = new TransactionService();
+
+export class PaymentWebhookService {
+  /**
+   * Verify, record and apply a provider webhook.
+   * Signature failures throw; replays of an already handled event are acknowledged as duplicates,
+   * while replays of a failed one are processed again.
+   */
+  static async ingest(providerName: string, rawBody: string, headers: WebhookHeaders): Promise<WebhookIngestResult> {
+    const provider = PaymentService.getProvider(providerName);
+    if (!provider.parseWebhook) {
+      throw new Error(`Payment provider ${providerName} does not support webhooks`);
+    }
+
+    const event = provider.parseWebhook(rawBody, headers);
+
+    const insertResult = await db.query(
+      `INSERT INTO payment_webhook_events (provider, event_id, payment_id, payment_status, payload)
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT (provider, event_id) DO NOTHING
+       RETURNING id`,
+      [providerName, event.eventId, event.paymentId, event.status, JSON.stringify(event.payload)]
+    );
+
+    let webhookRowId: string | undefined = insertResult.rows[0]?.id;
+
+    if (!webhookRowId) {
+      // A provider retrying an event that failed to process gets another go;
+      // claiming the row keeps concurrent retries from applying it twice
+      const retry = await db.query(
+        `UPDATE payment_webhook_events
+         SET processing_status = 'received', error = NULL, payload = $3
+         WHERE provider = $1 AND event_id = $2 AND processing_status = 'failed'
+         RETURNING id`,
+        [providerName, event.eventId, JSON.stringify(event.payload)]
+      );
+      webhookRowId = retry.rows[0]?.id;
+    }
+
+    if (!webhookRowId) {
+      const existing = await db.query(
+        'SELECT processing_status, transaction_id FROM payment_webhook_events WHERE provider = $1 AND event_id = $2',
+        [providerName, event.eventId]
+      );
+      return {
+        eventId: event.eventId,
+        duplicate: true,
+        processingStatus: existing.rows[0]?.processing_status,
+        transactionId: existing.rows[0]?.transaction_id || undefined,
+      };
+    }
+
+    try {
+      const transaction = await transactionService.getTransactionByPaymentId(providerName, event.paymentId);
+      if (!transaction) {
+        await this.markEvent(webhookRowId, 'ignored', null, 'No transaction for payment');
+        return { eventId: event.eventId, duplicate: false, processingStatus: 'ignored' };
+      }
+
+      const result = await transactionService.applyPaymentStatus(transaction.id, event.status, {
+        source: 'webhook',
+        reference: event.eventId,
+        failureReason: event.failureReason,
+      });
+
+      const processingStatus = result.changed ? 'processed' : 'ignored';
+      await this.markEvent(webhookRowId, processingStatus, transaction.id);
+
+      return {
+        eventId: event.eventId,
+        duplicate: false,
+        processingStatus,
+        transactionId: transaction.id,
+        transactionStatus: result.status,
+      };
+    } catch (error: any) {
+      await this.markEvent(webhookRowId, 'failed', null, error?.message || 'Unknown error');
+      throw error;
+    }
+  }
+
+  /**
+   * Recent webhook events, newest first
+   */
+  static async listEvents(options: { provider?: string; limit?: number } = {}): Promise<any[]> {
+    const { provider, limit = 50 } = options;
+    const values: any[] = [];
+    let where = '';
+
+    if (provider) {
+      where = 'WHERE provider = $1';
+      values.push(provider);
+    }
+    values.push(limit);
+
+    const result = await db.query(
+      `SELECT id, provider, event_id, payment_id, transaction_id, payment_status,
+              processing_status, error, received_at, processed_at
+       FROM payment_webhook_events
+       ${where}
+       ORDER BY received_at DESC
+       LIMIT $${values.length}`,
+      values
+    );
+
+    return result.rows.map(row => ({
+      id: row.id,
+      provider: row.provider,
+      eventId: row.event_id,
+      paymentId: row.payment_id,
+      transactionId: row.transaction_id,
+      paymentStatus: row.payment_status,
+      processingStatus: row.processing_status,
+      error: row.error,
+      receivedAt: row.received_at,
+      processedAt: row.processed_at,
+    }));
+  }
+
+  private static async markEvent(
+    id: string,
+    processingStatus: 'processed' | 'ignored' | 'failed',
+    transactionId: string | null,
+    error?: string
+  ): Promise<void> {
+    await db.query(
+      `UPDATE payment_webhook_events
+       SET processing_status = $1, transaction_id = COALESCE($2, transaction_id), error = $3, processed_at = NOW()
+       WHERE id = $4`,
+      [processingStatus, transactionId, error || null, id]
+    );
+  }
+}
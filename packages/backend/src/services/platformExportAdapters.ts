@@ -0,0 +1,616 @@
+import {
+  ApparelItem,
+  ExportPlatform,
+  FootwearItem,
+  PlatformProductData,
+  VUFSItem,
+} from '@vangarments/shared/types/vufs';
+import { SKUItem } from '../models/SKUItem';
+
+/**
+ * Platform-neutral view of a catalog item or brand SKU, built before mapping
+ * to a platform's PlatformProductData
+ */
+export interface ExportableProduct {
+  sourceType: 'catalog' | 'sku';
+  sourceId: string;
+  sku: string;
+  brand: string;
+  name: string;
+  category: string;
+  gender?: string;
+  color?: string;
+  size?: string;
+  condition?: string;
+  material?: string;
+  description?: string;
+  tags: string[];
+  price: number;
+  currency: string;
+  images: string[];
+  link?: string;
+  available: boolean;
+}
+
+export interface ExportFeedEntry {
+  product: ExportableProduct;
+  data: PlatformProductData;
+}
+
+export interface PlatformExportAdapter {
+  platform: ExportPlatform;
+  /** Feed file produced by export jobs; adapters without one only map product data */
+  feedFormat?: 'xml' | 'csv';
+  toProductData(product: ExportableProduct): PlatformProductData;
+  validate(product: ExportableProduct): string[];
+  renderFeed?(entries: ExportFeedEntry[]): string;
+  /** Identifier the platform will know the exported product by */
+  getProductId(entry: ExportFeedEntry): string;
+}
+
+interface AdapterConfig {
+  platform: ExportPlatform;
+  genderMap: Record<string, string>;
+  categoryMap: Record<string, string>;
+  defaultCategory: string;
+  titleMaxLength: number;
+  seoTitleMaxLength: number;
+}
+
+const GENDER_KEYS: Record<string, 'male' | 'female' | 'unisex'> = {
+  male: 'male',
+  "men's": 'male',
+  men: 'male',
+  masculino: 'male',
+  female: 'female',
+  "women's": 'female',
+  women: 'female',
+  feminino: 'female',
+  unisex: 'unisex',
+  unissex: 'unisex',
+};
+
+/**
+ * VUFS piece and footwear types grouped into the categories platforms care about
+ */
+const CATEGORY_GROUPS: Record<string, string> = {
+  accessories: 'accessories',
+  bag: 'bags',
+  bags: 'bags',
+  belts: 'belts',
+  bottoms: 'pants',
+  pants: 'pants',
+  shorts: 'shorts',
+  dresses: 'dresses',
+  eyewear: 'eyewear',
+  headwear: 'headwear',
+  jackets: 'outerwear',
+  vests: 'outerwear',
+  winter: 'outerwear',
+  jerseys: 'tops',
+  shirts: 'tops',
+  'tank tops': 'tops',
+  tops: 'tops',
+  sweats: 'activewear',
+  jewelry: 'jewelry',
+  wallets: 'wallets',
+  sneakers: 'shoes',
+  boots: 'shoes',
+  loafers: 'shoes',
+  sandals: 'shoes',
+  'dress shoes': 'shoes',
+  athletic: 'shoes',
+  casual: 'shoes',
+  formal: 'shoes',
+  footwear: 'shoes',
+};
+
+const slugify = (text: string): string =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9\s-]/g, '')
+    .trim()
+    .replace(/[\s-]+/g, '-');
+
+const truncate = (text: string, maxLength: number): string => {
+  if (text.length <= maxLength) {
+    return text;
+  }
+  const cut = text.substring(0, maxLength - 1);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${(lastSpace > maxLength / 2 ? cut.substring(0, lastSpace) : cut).trim()}…`;
+};
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const escapeCsv = (value: string): string =>
+  /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+const formatPrice = (price: number): string => price.toFixed(2);
+
+/**
+ * Maps products using per-platform gender and category tables
+ */
+class BasePlatformAdapter implements PlatformExportAdapter {
+  readonly platform: ExportPlatform;
+  feedFormat?: 'xml' | 'csv';
+
+  constructor(protected config: AdapterConfig) {
+    this.platform = config.platform;
+  }
+
+  toProductData(product: ExportableProduct): PlatformProductData {
+    const title = truncate(this.buildTitle(product), this.config.titleMaxLength);
+
+    return {
+      title,
+      description: this.buildDescription(product),
+      tags: Array.from(new Set(product.tags.filter(Boolean))),
+      seoTitle: truncate(title, this.config.seoTitleMaxLength),
+      slug: this.buildHandle(product),
+      handle: this.buildHandle(product),
+      pricing: {
+        price: product.price,
+        currency: product.currency,
+      },
+      platformCategory: this.mapCategory(product.category),
+      platformGender: this.mapGender(product.gender),
+      images: product.images,
+    };
+  }
+
+  validate(product: ExportableProduct): string[] {
+    const errors: string[] = [];
+    if (!product.sku) errors.push('SKU is required');
+    if (!product.brand) errors.push('Brand is required');
+    if (!(product.price > 0)) errors.push('A price greater than zero is required');
+    return errors;
+  }
+
+  getProductId(entry: ExportFeedEntry): string {
+    return entry.product.sku;
+  }
+
+  mapGender(gender?: string): string {
+    const key = GENDER_KEYS[(gender || '').toLowerCase()] || 'unisex';
+    return this.config.genderMap[key];
+  }
+
+  mapCategory(category: string): string {
+    const group = CATEGORY_GROUPS[category.toLowerCase()];
+    return (group && this.config.categoryMap[group]) || this.config.defaultCategory;
+  }
+
+  /**
+   * Brand, name, color and size, with the condition for used items
+   */
+  protected buildTitle(product: ExportableProduct): string {
+    const parts = [product.brand, product.name, product.color, product.size ? `Size ${product.size}` : undefined];
+    if (product.condition && product.condition !== 'New') {
+      parts.push(`(${product.condition})`);
+    }
+    return parts.filter(Boolean).join(' ');
+  }
+
+  protected buildHandle(product: ExportableProduct): string {
+    return slugify(`${product.brand} ${product.name} ${product.sku}`);
+  }
+
+  protected buildDescription(product: ExportableProduct): string {
+    const lines = [product.description || `${product.brand} ${product.name}`, ''];
+    if (product.condition) lines.push(`Condition: ${product.condition}`);
+    if (product.size) lines.push(`Size: ${product.size}`);
+    if (product.color) lines.push(`Color: ${product.color}`);
+    if (product.material) lines.push(`Material: ${product.material}`);
+    return lines.join('\n').trim();
+  }
+}
+
+/**
+ * Google Merchant Center RSS 2.0 product feed
+ */
+class GoogleShoppingAdapter extends BasePlatformAdapter {
+  feedFormat = 'xml' as const;
+
+  validate(product: ExportableProduct): string[] {
+    const errors = super.validate(product);
+    if (!product.link) errors.push('Product link is required by Google Shopping');
+    if (product.images.length === 0) errors.push('At least one image is required by Google Shopping');
+    return errors;
+  }
+
+  mapCondition(condition?: string): 'new' | 'used' {
+    return !condition || condition === 'New' ? 'new' : 'used';
+  }
+
+  renderFeed(entries: ExportFeedEntry[]): string {
+    const items = entries.map(({ product, data }) => {
+      const fields: Array<[string, string | undefined]> = [
+        ['g:id', product.sku],
+        ['g:title', data.title],
+        ['g:description', truncate(data.description, 5000)],
+        ['g:link', product.link],
+        ['g:image_link', data.images[0]],
+        ...data.images.slice(1, 11).map(image => ['g:additional_image_link', image] as [string, string]),
+        ['g:availability', product.available ? 'in_stock' : 'out_of_stock'],
+        ['g:price', `${formatPrice(data.pricing.price)} ${data.pricing.currency}`],
+        ['g:brand', product.brand],
+        ['g:mpn', product.sku],
+        ['g:identifier_exists', 'no'],
+        ['g:condition', this.mapCondition(product.condition)],
+        ['g:google_product_category', data.platformCategory],
+        ['g:product_type', product.category],
+        ['g:gender', data.platformGender],
+        ['g:age_group', 'adult'],
+        ['g:color', product.color],
+        ['g:size', product.size],
+        ['g:material', product.material],
+      ];
+
+      const body = fields
+        .filter(([, value]) => value !== undefined && value !== '')
+        .map(([tag, value]) => `      <${tag}>${escapeXml(value as string)}</${tag}>`)
+        .join('\n');
+      return `    <item>\n${body}\n    </item>`;
+    });
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<rss version="2.0" xmlns:g="http://base.google.com/ns/1.0">',
+      '  <channel>',
+      '    <title>Vangarments</title>',
+      `    <link>${escapeXml(process.env.FRONTEND_URL || 'https://vangarments.com')}</link>`,
+      '    <description>Vangarments product feed</description>',
+      ...items,
+      '  </channel>',
+      '</rss>',
+      '',
+    ].join('\n');
+  }
+}
+
+const SHOPIFY_CSV_HEADERS = [
+  'Handle',
+  'Title',
+  'Body (HTML)',
+  'Vendor',
+  'Product Category',
+  'Type',
+  'Tags',
+  'Published',
+  'Option1 Name',
+  'Option1 Value',
+  'Variant SKU',
+  'Variant Inventory Tracker',
+  'Variant Inventory Qty',
+  'Variant Inventory Policy',
+  'Variant Fulfillment Service',
+  'Variant Price',
+  'Variant Requires Shipping',
+  'Variant Taxable',
+  'Image Src',
+  'Image Position',
+  'Image Alt Text',
+  'Gift Card',
+  'SEO Title',
+  'SEO Description',
+  'Google Shopping / Gender',
+  'Google Shopping / Condition',
+  'Status',
+];
+
+/**
+ * Shopify product import CSV. Extra images go on follow-up rows sharing the handle.
+ */
+class ShopifyAdapter extends BasePlatformAdapter {
+  feedFormat = 'csv' as const;
+
+  getProductId(entry: ExportFeedEntry): string {
+    return entry.data.handle || entry.product.sku;
+  }
+
+  renderFeed(entries: ExportFeedEntry[]): string {
+    const rows: string[][] = [SHOPIFY_CSV_HEADERS];
+
+    for (const { product, data } of entries) {
+      const body = data.description
+        .split('\n')
+        .filter(Boolean)
+        .map(line => `<p>${escapeXml(line)}</p>`)
+        .join('');
+      const condition = !product.condition || product.condition === 'New' ? 'New' : 'Used';
+
+      rows.push([
+        data.handle || '',
+        data.title,
+        body,
+        product.brand,
+        data.platformCategory,
+        product.category,
+        data.tags.join(', '),
+        product.available ? 'TRUE' : 'FALSE',
+        'Size',
+        product.size || 'Default Title',
+        product.sku,
+        'shopify',
+        product.available ? '1' : '0',
+        'deny',
+        'manual',
+        formatPrice(data.pricing.price),
+        'TRUE',
+        'TRUE',
+        data.images[0] || '',
+        data.images[0] ? '1' : '',
+        data.images[0] ? data.title : '',
+        'FALSE',
+        data.seoTitle || data.title,
+        truncate(data.description.replace(/\s+/g, ' '), 320),
+        data.platformGender,
+        condition,
+        product.available ? 'active' : 'draft',
+      ]);
+
+      data.images.slice(1).forEach((image, index) => {
+        const row = SHOPIFY_CSV_HEADERS.map(() => '');
+        row[0] = data.handle || '';
+        row[SHOPIFY_CSV_HEADERS.indexOf('Image Src')] = image;
+        row[SHOPIFY_CSV_HEADERS.indexOf('Image Position')] = String(index + 2);
+        rows.push(row);
+      });
+    }
+
+    return rows.map(row => row.map(cell => escapeCsv(cell)).join(',')).join('\n') + '\n';
+  }
+}
+
+const PT_BR_GENDERS = { male: 'Masculino', female: 'Feminino', unisex: 'Unissex' };
+const EN_GENDERS = { male: 'Men', female: 'Women', unisex: 'Unisex' };
+
+const adapters = new Map<ExportPlatform, PlatformExportAdapter>();
+
+export class PlatformExportAdapters {
+  static register(adapter: PlatformExportAdapter): void {
+    adapters.set(adapter.platform, adapter);
+  }
+
+  static get(platform: ExportPlatform): PlatformExportAdapter {
+    const adapter = adapters.get(platform);
+    if (!adapter) {
+      throw new Error(`Export platform ${platform} not found`);
+    }
+    return adapter;
+  }
+
+  static list(): Array<{ platform: ExportPlatform; feedFormat?: 'xml' | 'csv' }> {
+    return Array.from(adapters.values()).map(adapter => ({
+      platform: adapter.platform,
+      feedFormat: adapter.feedFormat,
+    }));
+  }
+
+  static fromVUFSItem(id: string, item: VUFSItem, images: string[] = []): ExportableProduct {
+    const isApparel = 'pieceType' in item;
+    const apparel = item as ApparelItem;
+    const footwear = item as FootwearItem;
+
+    return {
+      sourceType: 'catalog',
+      sourceId: id,
+      sku: item.sku,
+      brand: item.brand,
+      name: isApparel ? apparel.model || apparel.pieceType : footwear.modelType,
+      category: isApparel ? apparel.pieceType : footwear.modelType,
+      gender: item.gender,
+      color: item.color,
+      size: item.size,
+      condition: item.condition,
+      material: isApparel ? apparel.material : footwear.upperMaterial,
+      tags: [
+        item.brand,
+        item.color,
+        item.condition,
+        ...(isApparel ? [apparel.pieceType, apparel.fit, ...(apparel.style || [])] : [footwear.modelType, footwear.soleType]),
+      ],
+      price: item.price,
+      currency: 'BRL',
+      images,
+      link: process.env.FRONTEND_URL ? `${process.env.FRONTEND_URL}/items/${id}` : undefined,
+      available: !item.sold,
+    };
+  }
+
+  static fromSKUItem(sku: SKUItem): ExportableProduct {
+    const category = sku.category?.whiteSubcategory || sku.category?.blueSubcategory || sku.category?.page || sku.apparel || '';
+    const images = [...(sku.images || [])]
+      .sort((a, b) => Number(b.isPrimary) - Number(a.isPrimary))
+      .map(image => image.url);
+
+    return {
+      sourceType: 'sku',
+      sourceId: sku.id,
+      sku: sku.code,
+      brand: sku.brand?.name || '',
+      name: sku.name,
+      category,
+      gender: sku.gender,
+      material: sku.materialName || sku.materials?.[0],
+      description: sku.description,
+      tags: [sku.brand?.name || '', sku.collection || '', sku.style || '', category],
+      price: sku.retailPriceBrl || 0,
+      currency: 'BRL',
+      images,
+      link: sku.officialItemLink || (process.env.FRONTEND_URL ? `${process.env.FRONTEND_URL}/items/${sku.id}` : undefined),
+      available: !sku.deletedAt,
+    };
+  }
+}
+
+PlatformExportAdapters.register(new GoogleShoppingAdapter({
+  platform: 'google_shopping',
+  genderMap: { male: 'male', female: 'female', unisex: 'unisex' },
+  categoryMap: {
+    accessories: 'Apparel & Accessories > Clothing Accessories',
+    bags: 'Apparel & Accessories > Handbags, Wallets & Cases > Handbags',
+    belts: 'Apparel & Accessories > Clothing Accessories > Belts',
+    pants: 'Apparel & Accessories > Clothing > Pants',
+    shorts: 'Apparel & Accessories > Clothing > Shorts',
+    dresses: 'Apparel & Accessories > Clothing > Dresses',
+    eyewear: 'Apparel & Accessories > Clothing Accessories > Sunglasses',
+    headwear: 'Apparel & Accessories > Clothing Accessories > Hats',
+    outerwear: 'Apparel & Accessories > Clothing > Outerwear',
+    tops: 'Apparel & Accessories > Clothing > Shirts & Tops',
+    activewear: 'Apparel & Accessories > Clothing > Activewear',
+    jewelry: 'Apparel & Accessories > Jewelry',
+    wallets: 'Apparel & Accessories > Handbags, Wallets & Cases > Wallets & Money Clips',
+    shoes: 'Apparel & Accessories > Shoes',
+  },
+  defaultCategory: 'Apparel & Accessories > Clothing',
+  titleMaxLength: 150,
+  seoTitleMaxLength: 150,
+}));
+
+PlatformExportAdapters.register(new ShopifyAdapter({
+  platform: 'shopify',
+  genderMap: EN_GENDERS,
+  categoryMap: {
+    accessories: 'Apparel & Accessories > Clothing Accessories',
+    bags: 'Luggage & Bags > Handbags',
+    belts: 'Apparel & Accessories > Clothing Accessories > Belts',
+    pants: 'Apparel & Accessories > Clothing > Pants',
+    shorts: 'Apparel & Accessories > Clothing > Shorts',
+    dresses: 'Apparel & Accessories > Clothing > Dresses',
+    eyewear: 'Apparel & Accessories > Clothing Accessories > Sunglasses',
+    headwear: 'Apparel & Accessories > Clothing Accessories > Hats',
+    outerwear: 'Apparel & Accessories > Clothing > Outerwear',
+    tops: 'Apparel & Accessories > Clothing > Clothing Tops',
+    activewear: 'Apparel & Accessories > Clothing > Activewear',
+    jewelry: 'Apparel & Accessories > Jewelry',
+    wallets: 'Apparel & Accessories > Handbags, Wallets & Cases > Wallets & Money Clips',
+    shoes: 'Apparel & Accessories > Shoes',
+  },
+  defaultCategory: 'Apparel & Accessories > Clothing',
+  titleMaxLength: 255,
+  seoTitleMaxLength: 70,
+}));
+
+PlatformExportAdapters.register(new BasePlatformAdapter({
+  platform: 'nuvem_shop',
+  genderMap: PT_BR_GENDERS,
+  categoryMap: {
+    accessories: 'Acessórios',
+    bags: 'Bolsas',
+    belts: 'Acessórios > Cintos',
+    pants: 'Roupas > Calças',
+    shorts: 'Roupas > Shorts',
+    dresses: 'Roupas > Vestidos',
+    eyewear: 'Acessórios > Óculos',
+    headwear: 'Acessórios > Bonés e Chapéus',
+    outerwear: 'Roupas > Casacos e Jaquetas',
+    tops: 'Roupas > Blusas e Camisetas',
+    activewear: 'Roupas > Moletons',
+    jewelry: 'Acessórios > Bijuterias',
+    wallets: 'Acessórios > Carteiras',
+    shoes: 'Calçados',
+  },
+  defaultCategory: 'Roupas',
+  titleMaxLength: 255,
+  seoTitleMaxLength: 70,
+}));
+
+PlatformExportAdapters.register(new BasePlatformAdapter({
+  platform: 'magazine_luiza',
+  genderMap: PT_BR_GENDERS,
+  categoryMap: {
+    accessories: 'Moda e Acessórios > Acessórios',
+    bags: 'Moda e Acessórios > Bolsas',
+    belts: 'Moda e Acessórios > Cintos',
+    pants: 'Moda e Acessórios > Calças',
+    shorts: 'Moda e Acessórios > Bermudas e Shorts',
+    dresses: 'Moda e Acessórios > Vestidos',
+    eyewear: 'Moda e Acessórios > Óculos',
+    headwear: 'Moda e Acessórios > Bonés',
+    outerwear: 'Moda e Acessórios > Jaquetas e Casacos',
+    tops: 'Moda e Acessórios > Camisetas e Blusas',
+    activewear: 'Moda e Acessórios > Moletons',
+    jewelry: 'Moda e Acessórios > Joias e Bijuterias',
+    wallets: 'Moda e Acessórios > Carteiras',
+    shoes: 'Moda e Acessórios > Calçados',
+  },
+  defaultCategory: 'Moda e Acessórios',
+  titleMaxLength: 150,
+  seoTitleMaxLength: 70,
+}));
+
+PlatformExportAdapters.register(new BasePlatformAdapter({
+  platform: 'vinted',
+  genderMap: EN_GENDERS,
+  categoryMap: {
+    accessories: 'Accessories',
+    bags: 'Bags',
+    belts: 'Accessories > Belts',
+    pants: 'Clothing > Trousers',
+    shorts: 'Clothing > Shorts',
+    dresses: 'Clothing > Dresses',
+    eyewear: 'Accessories > Sunglasses',
+    headwear: 'Accessories > Hats & caps',
+    outerwear: 'Clothing > Jackets & coats',
+    tops: 'Clothing > Tops & t-shirts',
+    activewear: 'Clothing > Jumpers & sweaters',
+    jewelry: 'Accessories > Jewellery',
+    wallets: 'Accessories > Wallets',
+    shoes: 'Shoes',
+  },
+  defaultCategory: 'Clothing',
+  titleMaxLength: 100,
+  seoTitleMaxLength: 100,
+}));
+
+PlatformExportAdapters.register(new BasePlatformAdapter({
+  platform: 'ebay',
+  genderMap: EN_GENDERS,
+  categoryMap: {
+    accessories: 'Clothing, Shoes & Accessories > Accessories',
+    bags: 'Clothing, Shoes & Accessories > Bags & Handbags',
+    belts: 'Clothing, Shoes & Accessories > Accessories > Belts',
+    pants: 'Clothing, Shoes & Accessories > Clothing > Pants',
+    shorts: 'Clothing, Shoes & Accessories > Clothing > Shorts',
+    dresses: 'Clothing, Shoes & Accessories > Clothing > Dresses',
+    eyewear: 'Clothing, Shoes & Accessories > Accessories > Sunglasses',
+    headwear: 'Clothing, Shoes & Accessories > Accessories > Hats',
+    outerwear: 'Clothing, Shoes & Accessories > Clothing > Coats, Jackets & Vests',
+    tops: 'Clothing, Shoes & Accessories > Clothing > Tops',
+    activewear: 'Clothing, Shoes & Accessories > Clothing > Activewear',
+    jewelry: 'Jewelry & Watches > Fashion Jewelry',
+    wallets: 'Clothing, Shoes & Accessories > Accessories > Wallets',
+    shoes: 'Clothing, Shoes & Accessories > Shoes',
+  },
+  defaultCategory: 'Clothing, Shoes & Accessories > Clothing',
+  titleMaxLength: 80,
+  seoTitleMaxLength: 80,
+}));
+
+PlatformExportAdapters.register(new BasePlatformAdapter({
+  platform: 'dropper',
+  genderMap: EN_GENDERS,
+  categoryMap: {
+    shoes: 'Sneakers',
+    outerwear: 'Apparel > Outerwear',
+    tops: 'Apparel > Tops',
+    pants: 'Apparel > Bottoms',
+    shorts: 'Apparel > Bottoms',
+    activewear: 'Apparel > Sweats',
+    headwear: 'Accessories > Headwear',
+    bags: 'Accessories > Bags',
+  },
+  defaultCategory: 'Apparel',
+  titleMaxLength: 120,
+  seoTitleMaxLength: 70,
+}));
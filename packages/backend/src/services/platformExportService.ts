@@ -0,0 +1,386 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { db } from '../database/connection';
+import { ExportPlatform, PlatformExport } from '@vangarments/shared/types/vufs';
+import { VUFSCatalogModel } from '../models/VUFSCatalog';
+import { SKUItemModel } from '../models/SKUItem';
+import { BrandAccountModel } from '../models/BrandAccount';
+import { ItemImageModel } from '../models/ItemImage';
+import { VUFSUtils } from '../utils/vufs';
+import { ExportableProduct, ExportFeedEntry, PlatformExportAdapters } from './platformExportAdapters';
+
+export type ExportJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface PlatformExportJob {
+  id: string;
+  platform: ExportPlatform;
+  sourceType: 'catalog' | 'sku';
+  brandId?: string;
+  requestedBy: string;
+  status: ExportJobStatus;
+  totalItems: number;
+  exportedItems: number;
+  failedItems: number;
+  filePath?: string;
+  errorMessage?: string;
+  createdAt: Date;
+  startedAt?: Date;
+  completedAt?: Date;
+}
+
+export interface PlatformExportJobItem {
+  sourceId: string;
+  status: PlatformExport['status'];
+  productId?: string;
+  errorMessage?: string;
+  exportedAt?: Date;
+}
+
+export interface CreateExportJobRequest {
+  platform: ExportPlatform;
+  sourceType: 'catalog' | 'sku';
+  requestedBy: string;
+  isAdmin?: boolean;
+  sourceIds?: string[];
+  brandId?: string;
+}
+
+const MAX_ITEMS_PER_JOB = 5000;
+// Longer than any export takes; a job running this long lost its worker
+const STALE_JOB_TIMEOUT_MS = 30 * 60 * 1000;
+
+export class PlatformExportService {
+  // Outside the publicly served storage/ tree; feeds are only downloaded
+  // through the authenticated job route
+  private static readonly EXPORTS_DIR = path.join(__dirname, '..', '..', 'exports');
+
+  /**
+   * Queue an export job and start it in the background
+   */
+  static async createJob(request: CreateExportJobRequest): Promise<PlatformExportJob> {
+    const adapter = PlatformExportAdapters.get(request.platform);
+    if (!adapter.feedFormat) {
+      throw new Error(`Feed exports are not supported for ${request.platform} yet`);
+    }
+
+    const sourceIds = await this.resolveSourceIds(request);
+    if (sourceIds.length === 0) {
+      throw new Error('No items found to export');
+    }
+    if (sourceIds.length > MAX_ITEMS_PER_JOB) {
+      throw new Error(`Exports are limited to ${MAX_ITEMS_PER_JOB} items per job`);
+    }
+
+    const job = await db.transaction(async client => {
+      const result = await client.query(
+        `INSERT INTO platform_export_jobs (platform, source_type, brand_id, requested_by, total_items)
+         VALUES ($1, $2, $3, $4, $5)
+         RETURNING *`,
+        [request.platform, request.sourceType, request.brandId || null, request.requestedBy, sourceIds.length]
+      );
+      const created = this.mapToJob(result.rows[0]);
+
+      await client.query(
+        `INSERT INTO platform_export_job_items (job_id, source_id)
+         SELECT $1, unnest($2::uuid[])
+         ON CONFLICT DO NOTHING`,
+        [created.id, sourceIds]
+      );
+      return created;
+    });
+
+    if (request.sourceType === 'catalog') {
+      for (const sourceId of sourceIds) {
+        await this.recordCatalogExport(sourceId, { platform: request.platform, exportedAt: new Date(), status: 'pending' });
+      }
+    }
+
+    setImmediate(() => {
+      this.runJob(job.id).catch(error => console.error(`[PlatformExportService] Job ${job.id} failed:`, error));
+    });
+
+    return job;
+  }
+
+  /**
+   * Run a queued job: map every item, write the feed file and record per-item results.
+   * Returns null when the job was already claimed by another worker.
+   */
+  static async runJob(jobId: string): Promise<PlatformExportJob | null> {
+    const claimed = await db.query(
+      `UPDATE platform_export_jobs SET status = 'running', started_at = NOW()
+       WHERE id = $1 AND status = 'queued'
+       RETURNING *`,
+      [jobId]
+    );
+    if (claimed.rows.length === 0) {
+      return null;
+    }
+
+    const job = this.mapToJob(claimed.rows[0]);
+    const adapter = PlatformExportAdapters.get(job.platform);
+
+    try {
+      const itemsResult = await db.query(
+        'SELECT source_id FROM platform_export_job_items WHERE job_id = $1',
+        [jobId]
+      );
+
+      const entries: ExportFeedEntry[] = [];
+      const failures: Array<{ sourceId: string; error: string }> = [];
+
+      for (const row of itemsResult.rows) {
+        const product = await this.loadProduct(job, row.source_id);
+        if (!product) {
+          failures.push({ sourceId: row.source_id, error: 'Item not found' });
+          continue;
+        }
+
+        const errors = adapter.validate(product);
+        if (errors.length > 0) {
+          failures.push({ sourceId: row.source_id, error: errors.join('; ') });
+          continue;
+        }
+
+        entries.push({ product, data: adapter.toProductData(product) });
+      }
+
+      const filePath = `exports/${job.id}.${adapter.feedFormat}`;
+      await fs.mkdir(this.EXPORTS_DIR, { recursive: true });
+      await fs.writeFile(path.join(this.EXPORTS_DIR, `${job.id}.${adapter.feedFormat}`), adapter.renderFeed!(entries), 'utf8');
+
+      const exportedAt = new Date();
+      for (const entry of entries) {
+        const productId = adapter.getProductId(entry);
+        await db.query(
+          `UPDATE platform_export_job_items SET status = 'exported', product_id = $1, exported_at = $2
+           WHERE job_id = $3 AND source_id = $4`,
+          [productId, exportedAt, jobId, entry.product.sourceId]
+        );
+        if (job.sourceType === 'catalog') {
+          await this.recordCatalogExport(entry.product.sourceId, { platform: job.platform, exportedAt, productId, status: 'exported' });
+        }
+      }
+
+      for (const failure of failures) {
+        await db.query(
+          `UPDATE platform_export_job_items SET status = 'error', error_message = $1
+           WHERE job_id = $2 AND source_id = $3`,
+          [failure.error, jobId, failure.sourceId]
+        );
+        if (job.sourceType === 'catalog') {
+          await this.recordCatalogExport(failure.sourceId, {
+            platform: job.platform,
+            exportedAt,
+            status: 'error',
+            errorMessage: failure.error,
+          });
+        }
+      }
+
+      const completed = await db.query(
+        `UPDATE platform_export_jobs
+         SET status = 'completed', exported_items = $1, failed_items = $2, file_path = $3, completed_at = NOW()
+         WHERE id = $4
+         RETURNING *`,
+        [entries.length, failures.length, filePath, jobId]
+      );
+      return this.mapToJob(completed.rows[0]);
+    } catch (error: any) {
+      await db.query(
+        `UPDATE platform_export_jobs SET status = 'failed', error_message = $1, completed_at = NOW() WHERE id = $2`,
+        [error?.message || 'Export failed', jobId]
+      );
+      await db.query(
+        `UPDATE platform_export_job_items SET status = 'error', error_message = $1
+         WHERE job_id = $2 AND status = 'pending'`,
+        [error?.message || 'Export failed', jobId]
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Pick up jobs left queued (e.g. after a restart).
+   */
+  static async processQueuedJobs(limit: number = 5): Promise<number> {
+    const result = await db.query(
+      `SELECT id FROM platform_export_jobs WHERE status = 'queued' ORDER BY created_at ASC LIMIT $1`,
+      [limit]
+    );
+
+    let processed = 0;
+    for (const row of result.rows) {
+      try {
+        if (await this.runJob(row.id)) {
+          processed++;
+        }
+      } catch (error) {
+        console.error(`[PlatformExportService] Job ${row.id} failed:`, error);
+      }
+    }
+    return processed;
+  }
+
+  /**
+   * Fail jobs whose worker stopped mid-run (e.g. a crash or restart), so they
+   * do not show as running forever. Returns the number of jobs failed.
+   */
+  static async failStaleJobs(timeoutMs: number = STALE_JOB_TIMEOUT_MS): Promise<number> {
+    const stale = await db.query(
+      `UPDATE platform_export_jobs
+       SET status = 'failed', error_message = 'Export stopped before finishing', completed_at = NOW()
+       WHERE status = 'running' AND started_at < NOW() - $1 * INTERVAL '1 millisecond'
+       RETURNING id`,
+      [timeoutMs]
+    );
+    const ids = stale.rows.map(row => row.id);
+    if (ids.length > 0) {
+      await db.query(
+        `UPDATE platform_export_job_items SET status = 'error', error_message = 'Export stopped before finishing'
+         WHERE job_id = ANY($1::uuid[]) AND status = 'pending'`,
+        [ids]
+      );
+    }
+    return ids.length;
+  }
+
+  static async getJob(jobId: string): Promise<PlatformExportJob | null> {
+    const result = await db.query('SELECT * FROM platform_export_jobs WHERE id = $1', [jobId]);
+    return result.rows.length > 0 ? this.mapToJob(result.rows[0]) : null;
+  }
+
+  static async getJobItems(jobId: string): Promise<PlatformExportJobItem[]> {
+    const result = await db.query(
+      'SELECT * FROM platform_export_job_items WHERE job_id = $1 ORDER BY status, source_id',
+      [jobId]
+    );
+    return result.rows.map(row => ({
+      sourceId: row.source_id,
+      status: row.status,
+      productId: row.product_id || undefined,
+      errorMessage: row.error_message || undefined,
+      exportedAt: row.exported_at || undefined,
+    }));
+  }
+
+  static async listJobs(requestedBy: string, limit: number = 20, offset: number = 0): Promise<PlatformExportJob[]> {
+    const result = await db.query(
+      `SELECT * FROM platform_export_jobs WHERE requested_by = $1 ORDER BY created_at DESC LIMIT $2 OFFSET $3`,
+      [requestedBy, limit, offset]
+    );
+    return result.rows.map(row => this.mapToJob(row));
+  }
+
+  static async readJobFile(job: PlatformExportJob): Promise<string> {
+    if (job.status !== 'completed' || !job.filePath) {
+      throw new Error('Export file is not ready');
+    }
+    return fs.readFile(path.join(this.EXPORTS_DIR, path.basename(job.filePath)), 'utf8');
+  }
+
+  static getExportFilename(job: PlatformExportJob): string {
+    const adapter = PlatformExportAdapters.get(job.platform);
+    return VUFSUtils.generateExportFilename(job.platform, job.createdAt).replace(/\.csv$/, `.${adapter.feedFormat}`);
+  }
+
+  /**
+   * Items the requester may export: explicit ids they can access, a brand's SKUs,
+   * or (for catalog exports) every published, unsold item they created
+   */
+  private static async resolveSourceIds(request: CreateExportJobRequest): Promise<string[]> {
+    if (request.sourceType === 'sku') {
+      if (!request.brandId) {
+        throw new Error('brandId is required for SKU exports');
+      }
+      const brand = await BrandAccountModel.findById(request.brandId);
+      if (!brand) {
+        throw new Error('Brand not found');
+      }
+      if (!request.isAdmin && brand.userId !== request.requestedBy) {
+        throw new Error('You do not have permission to export this brand');
+      }
+
+      const skus = await SKUItemModel.findByBrandId(request.brandId);
+      const ids = skus.map(sku => sku.id);
+      return request.sourceIds ? ids.filter(id => request.sourceIds!.includes(id)) : ids;
+    }
+
+    const params: any[] = [];
+    const conditions = [`(item_data->>'sold')::boolean IS NOT TRUE`];
+    if (!request.isAdmin) {
+      params.push(request.requestedBy);
+      conditions.push(`created_by = $${params.length}`);
+    }
+    if (request.sourceIds) {
+      params.push(request.sourceIds);
+      conditions.push(`id = ANY($${params.length}::uuid[])`);
+    } else {
+      conditions.push(`item_data->>'operationalStatus' = 'published'`);
+    }
+
+    const result = await db.query(`SELECT id FROM vufs_catalog WHERE ${conditions.join(' AND ')}`, params);
+    return result.rows.map(row => row.id);
+  }
+
+  private static async loadProduct(job: PlatformExportJob, sourceId: string): Promise<ExportableProduct | null> {
+    if (job.sourceType === 'sku') {
+      const sku = await SKUItemModel.findById(sourceId);
+      if (!sku) {
+        return null;
+      }
+      if (!sku.brand?.name && job.brandId) {
+        const brand = await BrandAccountModel.findById(job.brandId);
+        sku.brand = { name: brand?.brandInfo?.name || '' };
+      }
+      return PlatformExportAdapters.fromSKUItem(sku);
+    }
+
+    const entry = await VUFSCatalogModel.findById(sourceId);
+    if (!entry) {
+      return null;
+    }
+    const images = await ItemImageModel.findByItemId(entry.id);
+    return PlatformExportAdapters.fromVUFSItem(
+      entry.id,
+      entry.item,
+      images
+        .filter(image => image.imageType !== 'background_removed')
+        .sort((a, b) => Number(b.isPrimary) - Number(a.isPrimary) || a.sortOrder - b.sortOrder)
+        .map(image => image.imageUrl)
+    );
+  }
+
+  /**
+   * Keep one PlatformExport per platform on the catalog item
+   */
+  private static async recordCatalogExport(catalogId: string, platformExport: PlatformExport): Promise<void> {
+    const entry = await VUFSCatalogModel.findById(catalogId);
+    if (!entry) {
+      return;
+    }
+
+    const platformExports = (entry.item.platformExports || []).filter(existing => existing.platform !== platformExport.platform);
+    platformExports.push(platformExport);
+    await VUFSCatalogModel.update(catalogId, { item: { platformExports } });
+  }
+
+  private static mapToJob(row: any): PlatformExportJob {
+    return {
+      id: row.id,
+      platform: row.platform,
+      sourceType: row.source_type,
+      brandId: row.brand_id || undefined,
+      requestedBy: row.requested_by,
+      status: row.status,
+      totalItems: row.total_items,
+      exportedItems: row.exported_items,
+      failedItems: row.failed_items,
+      filePath: row.file_path || undefined,
+      errorMessage: row.error_message || undefined,
+      createdAt: row.created_at,
+      startedAt: row.started_at || undefined,
+      completedAt: row.completed_at || undefined,
+    };
+  }
+}
@@ -0,0 +1,342 @@
+import http2 from 'http2';
+import jwt from 'jsonwebtoken';
+import { PushProvider } from '../models/PushDevice';
+
+export interface PushMessage {
+    token: string;
+    title: string;
+    body?: string;
+    data?: Record<string, string>;
+    badge?: number;
+}
+
+/**
+ * Outcome of handing one message to the provider. `deviceGone` means the
+ * token will never work again and should be pruned.
+ */
+export type PushTicket =
+    | { status: 'ok'; id?: string }
+    | { status: 'error'; message: string; deviceGone: boolean };
+
+export type PushReceipt =
+    | { status: 'ok' }
+    | { status: 'error'; message: string; deviceGone: boolean };
+
+export interface PushGateway {
+    /** Tickets come back in the same order as the messages */
+    send(messages: PushMessage[]): Promise<PushTicket[]>;
+    /** Only providers that confirm delivery asynchronously (Expo) implement this */
+    getReceipts?(ticketIds: string[]): Promise<Record<string, PushReceipt>>;
+}
+
+const chunk = <T>(list: T[], size: number): T[][] => {
+    const chunks: T[][] = [];
+    for (let i = 0; i < list.length; i += size) {
+        chunks.push(list.slice(i, i + size));
+    }
+    return chunks;
+};
+
+/**
+ * Expo push service, used by the Expo app. Handles both Android and iOS.
+ */
+export class ExpoPushGateway implements PushGateway {
+    private static readonly API_URL = 'https://exp.host/--/api/v2/push';
+    private static readonly SEND_CHUNK_SIZE = 100;
+    private static readonly RECEIPT_CHUNK_SIZE = 1000;
+
+    constructor(private accessToken?: string) {}
+
+    async send(messages: PushMessage[]): Promise<PushTicket[]> {
+        const tickets: PushTicket[] = [];
+        for (const batch of chunk(messages, ExpoPushGateway.SEND_CHUNK_SIZE)) {
+            const response = await this.post('/send', batch.map(message => ({
+                to: message.token,
+                title: message.title,
+                body: message.body,
+                data: message.data,
+                badge: message.badge,
+                sound: 'default',
+            })));
+            for (const ticket of response.data) {
+                tickets.push(ticket.status === 'ok'
+                    ? { status: 'ok', id: ticket.id }
+                    : { status: 'error', message: ticket.message, deviceGone: ticket.details?.error === 'DeviceNotRegistered' });
+            }
+        }
+        return tickets;
+    }
+
+    async getReceipts(ticketIds: string[]): Promise<Record<string, PushReceipt>> {
+        const receipts: Record<string, PushReceipt> = {};
+        for (const ids of chunk(ticketIds, ExpoPushGateway.RECEIPT_CHUNK_SIZE)) {
+            const response = await this.post('/getReceipts', { ids });
+            for (const [id, receipt] of Object.entries<any>(response.data || {})) {
+                receipts[id] = receipt.status === 'ok'
+                    ? { status: 'ok' }
+                    : { status: 'error', message: receipt.message, deviceGone: receipt.details?.error === 'DeviceNotRegistered' };
+            }
+        }
+        return receipts;
+    }
+
+    private async post(path: string, body: any): Promise<any> {
+        const response = await fetch(`${ExpoPushGateway.API_URL}${path}`, {
+            method: 'POST',
+            headers: {
+                'Accept': 'application/json',
+                'Content-Type': 'application/json',
+                ...(this.accessToken ? { 'Authorization': `Bearer ${this.accessToken}` } : {}),
+            },
+            body: JSON.stringify(body),
+        });
+        if (!response.ok) {
+            throw new Error(`Expo push request failed with status ${response.status}`);
+        }
+        return response.json();
+    }
+}
+
+/**
+ * Firebase Cloud Messaging HTTP v1, authenticated with a service account
+ */
+export class FcmPushGateway implements PushGateway {
+    private static readonly SCOPE = 'https://www.googleapis.com/auth/firebase.messaging';
+    private static readonly TOKEN_URL = 'https://oauth2.googleapis.com/token';
+
+    private accessToken: { value: string; expiresAt: number } | null = null;
+
+    constructor(private projectId: string, private clientEmail: string, private privateKey: string) {}
+
+    async send(messages: PushMessage[]): Promise<PushTicket[]> {
+        const accessToken = await this.getAccessToken();
+        const tickets: PushTicket[] = [];
+
+        // v1 has no batch endpoint; one request per token
+        for (const message of messages) {
+            const response = await fetch(`https://fcm.googleapis.com/v1/projects/${this.projectId}/messages:send`, {
+                method: 'POST',
+                headers: {
+                    'Authorization': `Bearer ${accessToken}`,
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify({
+                    message: {
+                        token: message.token,
+                        notification: { title: message.title, body: message.body },
+                        data: message.data,
+                    },
+                }),
+            });
+            if (response.ok) {
+                tickets.push({ status: 'ok' });
+                continue;
+            }
+
+            const error = (await response.json().catch(() => ({}))).error || {};
+            const errorCodes = (error.details || []).map((detail: any) => detail.errorCode);
+            tickets.push({
+                status: 'error',
+                message: error.message || `FCM request failed with status ${response.status}`,
+                deviceGone: response.status === 404 || errorCodes.includes('UNREGISTERED'),
+            });
+        }
+        return tickets;
+    }
+
+    private async getAccessToken(): Promise<string> {
+        if (this.accessToken && this.accessToken.expiresAt > Date.now() + 60000) {
+            return this.accessToken.value;
+        }
+
+        const assertion = jwt.sign(
+            { scope: FcmPushGateway.SCOPE },
+            this.privateKey,
+            { algorithm: 'RS256', issuer: this.clientEmail, audience: FcmPushGateway.TOKEN_URL, expiresIn: '1h' }
+        );
+        const response = await fetch(FcmPushGateway.TOKEN_URL, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+            body: new URLSearchParams({ grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer', assertion }),
+        });
+        if (!response.ok) {
+            throw new Error(`FCM authentication failed with status ${response.status}`);
+        }
+
+        const { access_token, expires_in } = await response.json() as any;
+        this.accessToken = { value: access_token, expiresAt: Date.now() + expires_in * 1000 };
+        return access_token;
+    }
+}
+
+export interface ApnsOptions {
+    keyId: string;
+    teamId: string;
+    privateKey: string;
+    bundleId: string;
+    production: boolean;
+}
+
+/**
+ * Apple Push Notification service over HTTP/2 with token-based auth
+ */
+export class ApnsPushGateway implements PushGateway {
+    // Apple rejects provider tokens older than an hour
+    private static readonly TOKEN_TTL_MS = 50 * 60 * 1000;
+
+    private providerToken: { value: string; issuedAt: number } | null = null;
+
+    constructor(private options: ApnsOptions) {}
+
+    async send(messages: PushMessage[]): Promise<PushTicket[]> {
+        const host = this.options.production ? 'https://api.push.apple.com' : 'https://api.sandbox.push.apple.com';
+        const session = http2.connect(host);
+        const authorization = `bearer ${this.getProviderToken()}`;
+
+        try {
+            const tickets: PushTicket[] = [];
+            for (const message of messages) {
+                const { status, body } = await this.request(session, message, authorization);
+                if (status === 200) {
+                    tickets.push({ status: 'ok' });
+                    continue;
+                }
+
+                const reason = body ? (JSON.parse(body).reason as string) : `status ${status}`;
+                tickets.push({
+                    status: 'error',
+                    message: reason,
+                    deviceGone: status === 410 || reason === 'BadDeviceToken' || reason === 'Unregistered',
+                });
+            }
+            return tickets;
+        } finally {
+            session.close();
+        }
+    }
+
+    private request(
+        session: http2.ClientHttp2Session,
+        message: PushMessage,
+        authorization: string
+    ): Promise<{ status: number; body: string }> {
+        return new Promise((resolve, reject) => {
+            const request = session.request({
+                ':method': 'POST',
+                ':path': `/3/device/${message.token}`,
+                'authorization': authorization,
+                'apns-topic': this.options.bundleId,
+                'apns-push-type': 'alert',
+            });
+
+            let status = 0;
+            let body = '';
+            request.setEncoding('utf8');
+            request.on('response', headers => {
+                status = Number(headers[':status']);
+            });
+            request.on('data', data => {
+                body += data;
+            });
+            request.on('end', () => resolve({ status, body }));
+            request.on('error', reject);
+            request.end(JSON.stringify({
+                aps: {
+                    alert: { title: message.title, body: message.body },
+                    badge: message.badge,
+                    sound: 'default',
+                },
+                ...message.data,
+            }));
+        });
+    }
+
+    private getProviderToken(): string {
+        if (!this.providerToken || Date.now() - this.providerToken.issuedAt > ApnsPushGateway.TOKEN_TTL_MS) {
+            this.providerToken = {
+                value: jwt.sign({}, this.options.privateKey, {
+                    algorithm: 'ES256',
+                    issuer: this.options.teamId,
+                    keyid: this.options.keyId,
+                }),
+                issuedAt: Date.now(),
+            };
+        }
+        return this.providerToken.value;
+    }
+}
+
+/**
+ * In-process gateway for tests and local development. Records every message
+ * and reports tokens marked as unregistered through receipts, like Expo does.
+ */
+export class MockPushGateway implements PushGateway {
+    readonly sent: PushMessage[] = [];
+    private unregistered = new Set<string>();
+    private ticketTokens = new Map<string, string>();
+    private ticketCount = 0;
+
+    constructor(private log: boolean = false) {}
+
+    markUnregistered(token: string): void {
+        this.unregistered.add(token);
+    }
+
+    async send(messages: PushMessage[]): Promise<PushTicket[]> {
+        return messages.map(message => {
+            this.sent.push(message);
+            if (this.log) {
+                console.log(`[MockPushGateway] ${message.token}: ${message.title}${message.body ? ` - ${message.body}` : ''}`);
+            }
+
+            const id = `mock-ticket-${++this.ticketCount}`;
+            this.ticketTokens.set(id, message.token);
+            return { status: 'ok', id };
+        });
+    }
+
+    async getReceipts(ticketIds: string[]): Promise<Record<string, PushReceipt>> {
+        const receipts: Record<string, PushReceipt> = {};
+        for (const id of ticketIds) {
+            const token = this.ticketTokens.get(id);
+            if (!token) continue;
+            receipts[id] = this.unregistered.has(token)
+                ? { status: 'error', message: 'The device is not registered', deviceGone: true }
+                : { status: 'ok' };
+        }
+        return receipts;
+    }
+}
+
+/**
+ * The gateway configured for a provider, or null when its credentials are
+ * missing. Tests and PUSH_GATEWAY=mock use the in-process mock.
+ */
+export const createPushGateway = (provider: PushProvider): PushGateway | null => {
+    if (process.env.NODE_ENV === 'test' || process.env.PUSH_GATEWAY === 'mock') {
+        return new MockPushGateway(process.env.NODE_ENV !== 'test');
+    }
+
+    switch (provider) {
+        case 'expo':
+            return new ExpoPushGateway(process.env.EXPO_ACCESS_TOKEN);
+        case 'fcm': {
+            const { FCM_PROJECT_ID, FCM_CLIENT_EMAIL, FCM_PRIVATE_KEY } = process.env;
+            if (!FCM_PROJECT_ID || !FCM_CLIENT_EMAIL || !FCM_PRIVATE_KEY) return null;
+            return new FcmPushGateway(FCM_PROJECT_ID, FCM_CLIENT_EMAIL, FCM_PRIVATE_KEY.replace(/\\n/g, '\n'));
+        }
+        case 'apns': {
+            const { APNS_KEY_ID, APNS_TEAM_ID, APNS_PRIVATE_KEY, APNS_BUNDLE_ID } = process.env;
+            if (!APNS_KEY_ID || !APNS_TEAM_ID || !APNS_PRIVATE_KEY || !APNS_BUNDLE_ID) return null;
+            return new ApnsPushGateway({
+                keyId: APNS_KEY_ID,
+                teamId: APNS_TEAM_ID,
+                privateKey: APNS_PRIVATE_KEY.replace(/\\n/g, '\n'),
+                bundleId: APNS_BUNDLE_ID,
+                production: process.env.APNS_PRODUCTION === 'true',
+            });
+        }
+        default:
+            return null;
+    }
+};
@@ -0,0 +1,164 @@
+import { PushDeviceModel, PushDevice, PushProvider, RegisterPushDeviceData } from '../models/PushDevice';
+import { PushGateway, PushMessage, createPushGateway } from './pushGateways';
+import type { ChannelPayload } from './notificationService';
+
+export const PUSH_PROVIDERS: PushProvider[] = ['expo', 'fcm', 'apns'];
+
+const EXPO_TOKEN_PATTERN = /^Expo(nent)?PushToken\[[^\]]+\]$/;
+const APNS_TOKEN_PATTERN = /^[0-9a-fA-F]{64,200}$/;
+
+// Expo keeps receipts for a day and usually has them ready within a few minutes
+const RECEIPT_DELAY_MS = 15 * 60 * 1000;
+const RECEIPT_BATCH_SIZE = 1000;
+
+export class PushNotificationService {
+    private static gateways = new Map<PushProvider, PushGateway | null>();
+
+    /**
+     * Override the gateway for a provider, e.g. with a MockPushGateway in tests
+     */
+    static setGateway(provider: PushProvider, gateway: PushGateway | null): void {
+        this.gateways.set(provider, gateway);
+    }
+
+    static validateToken(provider: PushProvider, token: string): boolean {
+        switch (provider) {
+            case 'expo':
+                return EXPO_TOKEN_PATTERN.test(token);
+            case 'apns':
+                return APNS_TOKEN_PATTERN.test(token);
+            case 'fcm':
+                return token.length > 0 && token.length <= 4096 && !/\s/.test(token);
+            default:
+                return false;
+        }
+    }
+
+    static async registerDevice(data: RegisterPushDeviceData): Promise<PushDevice> {
+        if (!PUSH_PROVIDERS.includes(data.provider)) {
+            throw new Error(`Invalid push provider: ${data.provider}`);
+        }
+        if (!data.token || !this.validateToken(data.provider, data.token)) {
+            throw new Error(`Invalid ${data.provider} push token`);
+        }
+        if (data.platform && !['ios', 'android', 'web'].includes(data.platform)) {
+            throw new Error(`Invalid platform: ${data.platform}`);
+        }
+        return PushDeviceModel.register(data);
+    }
+
+    /**
+     * Title, body and deep-link data for one notification, or a summary when
+     * several go out together as a digest
+     */
+    static buildMessage(payloads: ChannelPayload[]): Omit<PushMessage, 'token'> {
+        if (payloads.length === 1) {
+            const [payload] = payloads;
+            const data: Record<string, string> = { type: payload.type };
+            if (payload.link) data.link = payload.link;
+            if (payload.notificationId) data.notificationId = payload.notificationId;
+            return { title: payload.title, body: payload.message, data };
+        }
+
+        return {
+            title: 'Vangarments',
+            body: `You have ${payloads.length} new notifications`,
+            data: { type: 'digest', link: '/notifications' },
+        };
+    }
+
+    /**
+     * Push channel sender for NotificationService. Sends to every device the
+     * user has registered and prunes tokens the provider rejects outright.
+     */
+    static async dispatch(userId: string, payloads: ChannelPayload[]): Promise<void> {
+        const devices = await PushDeviceModel.findByUserId(userId);
+        if (devices.length === 0 || payloads.length === 0) return;
+
+        const message = this.buildMessage(payloads);
+        const deadDeviceIds: string[] = [];
+        const tickets: { id: string; deviceId: string }[] = [];
+
+        for (const provider of PUSH_PROVIDERS) {
+            const providerDevices = devices.filter(device => device.provider === provider);
+            const gateway = this.getGateway(provider);
+            if (providerDevices.length === 0 || !gateway) continue;
+
+            const results = await gateway.send(providerDevices.map(device => ({ ...message, token: device.token })));
+            results.forEach((result, index) => {
+                const device = providerDevices[index];
+                if (result.status === 'error') {
+                    if (result.deviceGone) {
+                        deadDeviceIds.push(device.id);
+                    } else {
+                        console.warn(`[PushNotificationService] ${provider} push to device ${device.id} failed: ${result.message}`);
+                    }
+                } else if (result.id && gateway.getReceipts) {
+                    tickets.push({ id: result.id, deviceId: device.id });
+                }
+            });
+        }
+
+        await PushDeviceModel.deleteByIds(deadDeviceIds);
+        await PushDeviceModel.recordTickets(tickets);
+    }
+
+    /**
+     * Checks delivery receipts for pushes sent a while ago and removes tokens
+     * that turned out to be dead. Every checked ticket is deleted, so
+     * push_tickets only holds pushes still waiting for their receipt.
+     */
+    static async processReceipts(now: Date = new Date()): Promise<{ checked: number; pruned: number }> {
+        const before = new Date(now.getTime() - RECEIPT_DELAY_MS);
+        let checked = 0;
+        let pruned = 0;
+        let hasMore = true;
+
+        while (hasMore) {
+            const tickets = await PushDeviceModel.findTicketsBefore(before, RECEIPT_BATCH_SIZE);
+            const deadDeviceIds = await this.findDeadDevices(tickets);
+
+            // Receipts that are still missing this late will not show up, and a
+            // provider that fails now would fail the same tickets again next run
+            await PushDeviceModel.deleteByIds(deadDeviceIds);
+            await PushDeviceModel.deleteTickets(tickets.map(ticket => ticket.id));
+
+            checked += tickets.length;
+            pruned += deadDeviceIds.length;
+            hasMore = tickets.length === RECEIPT_BATCH_SIZE;
+        }
+
+        return { checked, pruned };
+    }
+
+    private static async findDeadDevices(tickets: { id: string; deviceId: string; provider: PushProvider }[]): Promise<string[]> {
+        const deadDeviceIds = new Set<string>();
+
+        for (const provider of PUSH_PROVIDERS) {
+            const providerTickets = tickets.filter(ticket => ticket.provider === provider);
+            const gateway = this.getGateway(provider);
+            if (providerTickets.length === 0 || !gateway?.getReceipts) continue;
+
+            try {
+                const receipts = await gateway.getReceipts(providerTickets.map(ticket => ticket.id));
+                for (const ticket of providerTickets) {
+                    const receipt = receipts[ticket.id];
+                    if (receipt?.status === 'error' && receipt.deviceGone) {
+                        deadDeviceIds.add(ticket.deviceId);
+                    }
+                }
+            } catch (error) {
+                console.error(`[PushNotificationService] Fetching ${provider} receipts failed:`, error);
+            }
+        }
+
+        return [...deadDeviceIds];
+    }
+
+    private static getGateway(provider: PushProvider): PushGateway | null {
+        if (!this.gateways.has(provider)) {
+            this.gateways.set(provider, createPushGateway(provider));
+        }
+        return this.gateways.get(provider)!;
+    }
+}
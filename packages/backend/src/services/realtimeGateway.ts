@@ -0,0 +1,286 @@
+import { IncomingMessage, Server } from 'http';
+import { Duplex } from 'stream';
+import { Response, NextFunction } from 'express';
+import { WebSocketServer, WebSocket, RawData } from 'ws';
+import { AuthUtils, AuthenticatedRequest } from '../utils/auth';
+import { UserModel } from '../models/User';
+import { MessagingEventService, MessagingEvent } from './messagingEventService';
+import { MessagingService } from './messagingService';
+
+export const REALTIME_PATH = '/api/v1/messages/realtime';
+
+const HEARTBEAT_INTERVAL_MS = 30000;
+
+export type GatewayFrame =
+    | MessagingEvent
+    | { type: 'ready'; cursor: string; presence: Array<{ userId: string; online: boolean }> }
+    | { type: 'resync_required' }
+    | { type: 'error'; message: string };
+
+type Deliver = (frame: GatewayFrame) => void;
+
+const messagingService = new MessagingService();
+
+/**
+ * Pushes messaging events and live notifications to clients over WebSocket,
+ * with Server-Sent Events as the fallback transport. Both authenticate with the same JWT as the REST API
+ * and accept a cursor (`?cursor=` or SSE `Last-Event-ID`) to resume after a
+ * reconnect without missing stored events.
+ */
+export class RealtimeGateway {
+    static attach(server: Server): WebSocketServer {
+        const wss = new WebSocketServer({ noServer: true });
+
+        server.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+            const url = new URL(req.url || '', 'http://localhost');
+            // With an upgrade listener attached Node leaves unclaimed upgrades
+            // open, so refuse them here rather than let the sockets pile up
+            if (url.pathname !== REALTIME_PATH) {
+                socket.write('HTTP/1.1 404 Not Found\r\nConnection: close\r\n\r\n');
+                socket.destroy();
+                return;
+            }
+
+            this.authenticateToken(this.extractToken(req, url))
+                .then(userId => {
+                    wss.handleUpgrade(req, socket, head, ws => {
+                        this.handleSocket(ws, userId, url.searchParams.get('cursor'));
+                    });
+                })
+                .catch(() => {
+                    socket.write('HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n');
+                    socket.destroy();
+                });
+        });
+
+        return wss;
+    }
+
+    /**
+     * EventSource cannot set headers, so the stream also accepts the token as
+     * `?access_token=` before handing over to the regular auth middleware
+     */
+    static authenticateStream(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+        const token = req.query.access_token;
+        if (!req.headers['authorization'] && typeof token === 'string') {
+            req.headers['authorization'] = `Bearer ${token}`;
+        }
+        return AuthUtils.authenticateToken(req, res, next);
+    }
+
+    static async handleEventStream(req: AuthenticatedRequest, res: Response): Promise<void> {
+        const userId = req.user!.id || req.user!.userId;
+        const lastEventId = req.headers['last-event-id'];
+        const cursor = (typeof lastEventId === 'string' && lastEventId) || (req.query.cursor as string | undefined) || null;
+
+        res.writeHead(200, {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache, no-transform',
+            'Connection': 'keep-alive',
+            'X-Accel-Buffering': 'no',
+        });
+        res.write('retry: 3000\n\n');
+
+        const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_INTERVAL_MS);
+        let close: (() => void) | null = null;
+        let disconnected = false;
+        req.on('close', () => {
+            disconnected = true;
+            clearInterval(heartbeat);
+            close?.();
+        });
+
+        try {
+            close = await this.openSession(userId, cursor, frame => res.write(this.formatSseEvent(frame)));
+            if (disconnected) {
+                close();
+            }
+        } catch (error: any) {
+            clearInterval(heartbeat);
+            res.write(this.formatSseEvent({ type: 'error', message: error.message }));
+            res.end();
+        }
+    }
+
+    /**
+     * Only stored events carry an `id`, so the browser's Last-Event-ID always
+     * points at a resumable position
+     */
+    static formatSseEvent(frame: GatewayFrame): string {
+        const lines: string[] = [];
+        if ('actorId' in frame && frame.cursor) {
+            lines.push(`id: ${frame.cursor}`);
+        }
+        lines.push(`event: ${frame.type}`);
+        lines.push(`data: ${JSON.stringify(frame)}`);
+        return `${lines.join('\n')}\n\n`;
+    }
+
+    /**
+     * Subscribe to live events, replay stored events after `cursor`, then flush
+     * whatever arrived during the replay. Returns a function that ends the session.
+     */
+    static async openSession(userId: string, cursor: string | null, deliver: Deliver): Promise<() => void> {
+        if (cursor && !/^\d+$/.test(cursor)) {
+            throw new Error('Invalid cursor');
+        }
+
+        // Fresh clients start from the current head; the replay below then only
+        // picks up events stored while the subscription was being set up
+        let lastCursor = BigInt(cursor || await MessagingEventService.getLatestCursor());
+        let replaying = true;
+        const buffered: MessagingEvent[] = [];
+
+        const send = (event: MessagingEvent) => {
+            if (event.cursor) {
+                const position = BigInt(event.cursor);
+                if (position <= lastCursor) return;
+                lastCursor = position;
+            }
+            deliver(event);
+        };
+
+        const unsubscribe = MessagingEventService.subscribe(userId, event => {
+            if (replaying) {
+                buffered.push(event);
+            } else {
+                send(event);
+            }
+        });
+
+        try {
+            let hasMore = true;
+            while (hasMore) {
+                const page = await MessagingEventService.getEventsSince(userId, lastCursor.toString());
+                if (page.resyncRequired) {
+                    deliver({ type: 'resync_required' });
+                    lastCursor = BigInt(await MessagingEventService.getLatestCursor());
+                    break;
+                }
+                page.events.forEach(send);
+                hasMore = page.hasMore;
+            }
+
+            replaying = false;
+            buffered.splice(0).forEach(send);
+
+            deliver({
+                type: 'ready',
+                cursor: lastCursor.toString(),
+                presence: await MessagingEventService.getContactPresence(userId),
+            });
+
+            await MessagingEventService.connectionOpened(userId);
+        } catch (error) {
+            unsubscribe();
+            throw error;
+        }
+
+        let closed = false;
+        return () => {
+            if (closed) return;
+            closed = true;
+            unsubscribe();
+            MessagingEventService.connectionClosed(userId).catch(error => {
+                console.error('Failed to record realtime disconnect:', error);
+            });
+        };
+    }
+
+    private static handleSocket(ws: WebSocket, userId: string, cursor: string | null): void {
+        let alive = true;
+        let close: (() => void) | null = null;
+
+        const heartbeat = setInterval(() => {
+            if (!alive) {
+                ws.terminate();
+                return;
+            }
+            alive = false;
+            ws.ping();
+        }, HEARTBEAT_INTERVAL_MS);
+
+        const send = (frame: GatewayFrame) => {
+            if (ws.readyState === WebSocket.OPEN) {
+                ws.send(JSON.stringify(frame));
+            }
+        };
+
+        ws.on('pong', () => {
+            alive = true;
+        });
+
+        ws.on('message', (data: RawData) => {
+            this.handleClientMessage(userId, data).catch(error => {
+                send({ type: 'error', message: error.message });
+            });
+        });
+
+        ws.on('close', () => {
+            clearInterval(heartbeat);
+            close?.();
+        });
+
+        this.openSession(userId, cursor, send)
+            .then(end => {
+                if (ws.readyState === WebSocket.OPEN) {
+                    close = end;
+                } else {
+                    end();
+                }
+            })
+            .catch(error => {
+                send({ type: 'error', message: error.message });
+                ws.close(1011, 'Failed to open session');
+            });
+    }
+
+    /**
+     * Commands clients can send over the socket instead of calling REST
+     */
+    private static async handleClientMessage(userId: string, data: RawData): Promise<void> {
+        let command: any;
+        try {
+            command = JSON.parse(data.toString());
+        } catch {
+            throw new Error('Messages must be JSON');
+        }
+
+        switch (command?.type) {
+            case 'typing':
+                await messagingService.setTyping(command.conversationId, userId, !!command.isTyping);
+                return;
+            case 'read':
+                await messagingService.markAsRead(command.conversationId, userId);
+                return;
+            default:
+                throw new Error(`Unknown command: ${command?.type}`);
+        }
+    }
+
+    private static extractToken(req: IncomingMessage, url: URL): string | null {
+        const authHeader = req.headers['authorization'];
+        return (authHeader && authHeader.split(' ')[1]) || url.searchParams.get('access_token');
+    }
+
+    /**
+     * Same checks as AuthUtils.authenticateToken, for upgrade requests that do
+     * not go through Express
+     */
+    private static async authenticateToken(token: string | null): Promise<string> {
+        if (!token) {
+            throw new Error('Access token is required');
+        }
+
+        const decoded = AuthUtils.verifyToken(token);
+        const userId = decoded.userId || decoded.id;
+        const user = await UserModel.findById(userId);
+        if (user?.status === 'deactivated') {
+            throw new Error('Account is deactivated');
+        }
+        if (user?.status === 'banned' && user.banExpiresAt && new Date() < new Date(user.banExpiresAt)) {
+            throw new Error('Account is banned');
+        }
+        return userId;
+    }
+}
@@ -0,0 +1,311 @@
+import crypto from 'crypto';
+import {
+  PaymentProvider,
+  PaymentRequest,
+  PaymentResult,
+  PaymentStatus,
+  PaymentWebhookEvent,
+  RefundResult,
+  WebhookHeaders,
+} from './paymentService';
+import { WebhookSignature } from '../utils/webhookSignature';
+
+interface SandboxPayment {
+  paymentId: string;
+  transactionId: string;
+  method: string;
+  amount: number;
+  currency: string;
+  status: PaymentStatus['status'];
+  refundedAmount: number;
+  refundCount: number;
+  createdAt: Date;
+  completedAt?: Date;
+  failureReason?: string;
+}
+
+export interface SandboxWebhook {
+  rawBody: string;
+  headers: Record<string, string>;
+}
+
+/**
+ * Card numbers (by last four digits) that the sandbox always declines,
+ * mirroring the test cards real acquirers publish.
+ */
+const DECLINED_CARDS: Record<string, string> = {
+  '0002': 'Payment declined by issuer',
+  '9995': 'Insufficient funds',
+  '0069': 'Card expired',
+};
+
+/**
+ * Methods that settle asynchronously: the charge stays pending until
+ * a webhook confirms it (see settlePayment).
+ */
+const ASYNC_METHODS = ['pix', 'bank_transfer'];
+
+/**
+ * Deterministic local payment provider.
+ *
+ * Outcomes depend only on the request (card number, method, amount), ids are
+ * derived from the transaction id, and state changes are delivered as signed
+ * webhooks so the whole purchase flow can be exercised without a real acquirer.
+ * State lives in memory and is lost on restart.
+ */
+export class SandboxPaymentProvider implements PaymentProvider {
+  static readonly SIGNATURE_HEADER = 'x-sandbox-signature';
+
+  name = 'sandbox';
+
+  private payments: Map<string, SandboxPayment> = new Map();
+  private attempts: Map<string, number> = new Map();
+  private eventSequence = 0;
+
+  constructor(
+    private webhookSecret: string,
+    private clock: () => Date = () => new Date()
+  ) {}
+
+  async processPayment(paymentData: PaymentRequest): Promise<PaymentResult> {
+    const { transactionId } = paymentData.metadata;
+    const attempt = (this.attempts.get(transactionId) || 0) + 1;
+    this.attempts.set(transactionId, attempt);
+
+    const paymentId = `sbx_pay_${this.hash(`${transactionId}:${attempt}`)}`;
+    const method = paymentData.paymentMethod.type;
+    const now = this.clock();
+
+    const payment: SandboxPayment = {
+      paymentId,
+      transactionId,
+      method,
+      amount: paymentData.amount,
+      currency: paymentData.currency,
+      status: 'pending',
+      refundedAmount: 0,
+      refundCount: 0,
+      createdAt: now,
+    };
+
+    const failureReason = this.getFailureReason(paymentData);
+    if (failureReason) {
+      payment.status = 'failed';
+      payment.failureReason = failureReason;
+      this.payments.set(paymentId, payment);
+
+      return {
+        success: false,
+        paymentId,
+        status: 'failed',
+        transactionFee: 0,
+        processingTime: 0,
+        errorMessage: failureReason,
+      };
+    }
+
+    if (!ASYNC_METHODS.includes(method)) {
+      payment.status = 'completed';
+      payment.completedAt = now;
+    }
+    this.payments.set(paymentId, payment);
+
+    return {
+      success: true,
+      paymentId,
+      status: payment.status === 'completed' ? 'completed' : 'pending',
+      transactionFee: this.calculateFee(paymentData.amount, method),
+      processingTime: 0,
+    };
+  }
+
+  async refundPayment(paymentId: string, amount?: number): Promise<RefundResult> {
+    const payment = this.payments.get(paymentId);
+    if (!payment || payment.status !== 'completed') {
+      return {
+        success: false,
+        refundId: '',
+        amount: 0,
+        status: 'failed',
+        errorMessage: payment ? `Cannot refund a ${payment.status} payment` : 'Payment not found',
+      };
+    }
+
+    const refundable = payment.amount - payment.refundedAmount;
+    const refundAmount = amount ?? refundable;
+    if (refundAmount <= 0 || refundAmount > refundable) {
+      return {
+        success: false,
+        refundId: '',
+        amount: 0,
+        status: 'failed',
+        errorMessage: 'Refund amount exceeds refundable balance',
+      };
+    }
+
+    payment.refundCount++;
+    payment.refundedAmount += refundAmount;
+    if (payment.refundedAmount >= payment.amount) {
+      payment.status = 'refunded';
+    }
+
+    return {
+      success: true,
+      refundId: `sbx_ref_${this.hash(`${paymentId}:${payment.refundCount}`)}`,
+      amount: refundAmount,
+      status: 'completed',
+      processingTime: 0,
+    };
+  }
+
+  async getPaymentStatus(paymentId: string): Promise<PaymentStatus> {
+    const payment = this.payments.get(paymentId);
+    if (!payment) {
+      throw new Error(`Payment ${paymentId} not found`);
+    }
+
+    return {
+      paymentId,
+      status: payment.status,
+      amount: payment.amount,
+      currency: payment.currency,
+      createdAt: payment.createdAt,
+      completedAt: payment.completedAt,
+      failureReason: payment.failureReason,
+    };
+  }
+
+  /**
+   * Move a pending payment to a final state and return the signed webhook
+   * the provider would deliver for it.
+   */
+  settlePayment(
+    paymentId: string,
+    status: 'completed' | 'failed' | 'cancelled',
+    failureReason?: string
+  ): SandboxWebhook {
+    const payment = this.payments.get(paymentId);
+    if (!payment) {
+      throw new Error(`Payment ${paymentId} not found`);
+    }
+
+    if (payment.status !== 'pending' && payment.status !== 'processing') {
+      throw new Error(`Payment ${paymentId} is already ${payment.status}`);
+    }
+
+    payment.status = status;
+    if (status === 'completed') {
+      payment.completedAt = this.clock();
+    } else {
+      payment.failureReason = failureReason || 'Payment not completed';
+    }
+
+    return this.buildWebhook(paymentId);
+  }
+
+  /**
+   * Build a signed webhook describing the current state of a payment
+   */
+  buildWebhook(paymentId: string): SandboxWebhook {
+    const payment = this.payments.get(paymentId);
+    if (!payment) {
+      throw new Error(`Payment ${paymentId} not found`);
+    }
+
+    this.eventSequence++;
+    const rawBody = JSON.stringify({
+      id: `sbx_evt_${this.hash(`${paymentId}:${this.eventSequence}`)}`,
+      type: 'payment.updated',
+      createdAt: this.clock().toISOString(),
+      data: {
+        paymentId: payment.paymentId,
+        transactionId: payment.transactionId,
+        status: payment.status,
+        amount: payment.amount,
+        currency: payment.currency,
+        failureReason: payment.failureReason,
+      },
+    });
+
+    const timestamp = Math.floor(this.clock().getTime() / 1000);
+    return {
+      rawBody,
+      headers: {
+        'content-type': 'application/json',
+        [SandboxPaymentProvider.SIGNATURE_HEADER]: WebhookSignature.sign(this.webhookSecret, rawBody, timestamp),
+      },
+    };
+  }
+
+  parseWebhook(rawBody: string, headers: WebhookHeaders): PaymentWebhookEvent {
+    const header = headers[SandboxPaymentProvider.SIGNATURE_HEADER];
+    const signature = Array.isArray(header) ? header[0] : header;
+    const now = Math.floor(this.clock().getTime() / 1000);
+
+    if (!WebhookSignature.verify(this.webhookSecret, rawBody, signature, WebhookSignature.DEFAULT_TOLERANCE_SECONDS, now)) {
+      throw new Error('Invalid webhook signature');
+    }
+
+    const event = JSON.parse(rawBody);
+    if (!event?.id || !event?.data?.paymentId || !event?.data?.status) {
+      throw new Error('Malformed webhook payload');
+    }
+
+    return {
+      eventId: event.id,
+      provider: this.name,
+      paymentId: event.data.paymentId,
+      status: event.data.status,
+      amount: event.data.amount,
+      failureReason: event.data.failureReason,
+      occurredAt: new Date(event.createdAt),
+      payload: event,
+    };
+  }
+
+  /**
+   * Forget all sandbox state
+   */
+  reset(): void {
+    this.payments.clear();
+    this.attempts.clear();
+    this.eventSequence = 0;
+  }
+
+  private getFailureReason(paymentData: PaymentRequest): string | undefined {
+    if (!(paymentData.amount > 0)) {
+      return 'Invalid payment amount';
+    }
+
+    const cardNumber: string | undefined = paymentData.paymentMethod.details?.cardNumber;
+    if (cardNumber) {
+      const lastFour = String(cardNumber).replace(/\D/g, '').slice(-4);
+      return DECLINED_CARDS[lastFour];
+    }
+
+    return undefined;
+  }
+
+  private calculateFee(amount: number, method: string): number {
+    let fee: number;
+    switch (method) {
+      case 'pix':
+        fee = Math.min(amount * 0.01, 10);
+        break;
+      case 'credit_card':
+      case 'debit_card':
+        fee = amount * 0.029 + 0.30;
+        break;
+      case 'bank_transfer':
+        fee = Math.min(amount * 0.015, 15);
+        break;
+      default:
+        fee = amount * 0.025;
+    }
+    return Math.round(fee * 100) / 100;
+  }
+
+  private hash(value: string): string {
+    return crypto.createHash('sha256').update(value).digest('hex').slice(0, 24);
+  }
+}
@@ -0,0 +1,284 @@
+import { db } from '../database/connection';
+import { MarketplaceModel } from '../models/Marketplace';
+import { NotificationService } from './notificationService';
+import { MarketplaceFilters, MarketplaceListing } from '@vangarments/shared/types/marketplace';
+import { mailService } from './MailService';
+import { escapeHtml } from '../utils/html';
+
+export interface SavedSearch {
+  id: string;
+  userId: string;
+  name: string;
+  filters: MarketplaceFilters;
+  alertsEnabled: boolean;
+  emailAlerts: boolean;
+  lastAlertedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type SavedSearchAlertType = 'new_match' | 'price_drop';
+
+export interface SavedSearchInput {
+  name: string;
+  filters: MarketplaceFilters;
+  alertsEnabled?: boolean;
+  emailAlerts?: boolean;
+}
+
+const MAX_SAVED_SEARCHES = 25;
+
+export class SavedSearchService {
+  /**
+   * Whether a listing would be returned by MarketplaceModel.searchListings for
+   * the given filters. Mirrors the conditions that query applies.
+   */
+  static matchesFilters(
+    listing: Pick<MarketplaceListing, 'status' | 'category' | 'tags' | 'condition' | 'price' | 'title' | 'description'>,
+    filters: MarketplaceFilters
+  ): boolean {
+    if (listing.status !== 'active') {
+      return false;
+    }
+    if (filters.category && listing.category !== filters.category) {
+      return false;
+    }
+    if (filters.brand && !(listing.tags || []).includes(filters.brand)) {
+      return false;
+    }
+    if (filters.condition && filters.condition.length > 0 &&
+      !filters.condition.includes((listing.condition as any)?.status)) {
+      return false;
+    }
+    if (filters.priceRange &&
+      (listing.price < filters.priceRange.min || listing.price > filters.priceRange.max)) {
+      return false;
+    }
+    if (filters.search) {
+      const term = filters.search.toLowerCase();
+      const inText = (listing.title || '').toLowerCase().includes(term) ||
+        (listing.description || '').toLowerCase().includes(term);
+      if (!inText && !(listing.tags || []).includes(filters.search)) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Decide which alert (if any) a match should raise, given the price at the last alert
+   */
+  static getAlertType(currentPrice: number, previousPrice?: number): SavedSearchAlertType | null {
+    if (previousPrice === undefined) {
+      return 'new_match';
+    }
+    return currentPrice < previousPrice ? 'price_drop' : null;
+  }
+
+  static async create(userId: string, input: SavedSearchInput): Promise<SavedSearch> {
+    if (!input.name || !input.name.trim()) {
+      throw new Error('Search name is required');
+    }
+    if (!input.filters || typeof input.filters !== 'object') {
+      throw new Error('Search filters are required');
+    }
+
+    const count = await db.query('SELECT COUNT(*) as total FROM saved_searches WHERE user_id = $1', [userId]);
+    if (parseInt(count.rows[0].total) >= MAX_SAVED_SEARCHES) {
+      throw new Error(`Saved searches are limited to ${MAX_SAVED_SEARCHES} per user`);
+    }
+
+    const result = await db.query(
+      `INSERT INTO saved_searches (user_id, name, filters, alerts_enabled, email_alerts)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING *`,
+      [userId, input.name.trim(), JSON.stringify(input.filters), input.alertsEnabled ?? true, input.emailAlerts ?? false]
+    );
+    return this.mapToSavedSearch(result.rows[0]);
+  }
+
+  static async update(id: string, userId: string, input: Partial<SavedSearchInput>): Promise<SavedSearch | null> {
+    const updates: string[] = [];
+    const values: any[] = [];
+    let paramCount = 1;
+
+    if (input.name !== undefined) {
+      if (!input.name.trim()) {
+        throw new Error('Search name is required');
+      }
+      updates.push(`name = $${paramCount++}`);
+      values.push(input.name.trim());
+    }
+    if (input.filters !== undefined) {
+      updates.push(`filters = $${paramCount++}`);
+      values.push(JSON.stringify(input.filters));
+    }
+    if (input.alertsEnabled !== undefined) {
+      updates.push(`alerts_enabled = $${paramCount++}`);
+      values.push(!!input.alertsEnabled);
+    }
+    if (input.emailAlerts !== undefined) {
+      updates.push(`email_alerts = $${paramCount++}`);
+      values.push(!!input.emailAlerts);
+    }
+
+    if (updates.length === 0) {
+      return this.findById(id, userId);
+    }
+
+    values.push(id, userId);
+    const result = await db.query(
+      `UPDATE saved_searches SET ${updates.join(', ')}, updated_at = NOW()
+       WHERE id = $${paramCount} AND user_id = $${paramCount + 1}
+       RETURNING *`,
+      values
+    );
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    // Changed filters start a fresh match history
+    if (input.filters !== undefined) {
+      await db.query('DELETE FROM saved_search_matches WHERE saved_search_id = $1', [id]);
+    }
+    return this.mapToSavedSearch(result.rows[0]);
+  }
+
+  static async delete(id: string, userId: string): Promise<boolean> {
+    const result = await db.query('DELETE FROM saved_searches WHERE id = $1 AND user_id = $2', [id, userId]);
+    return (result.rowCount || 0) > 0;
+  }
+
+  static async findById(id: string, userId: string): Promise<SavedSearch | null> {
+    const result = await db.query('SELECT * FROM saved_searches WHERE id = $1 AND user_id = $2', [id, userId]);
+    return result.rows.length > 0 ? this.mapToSavedSearch(result.rows[0]) : null;
+  }
+
+  static async listForUser(userId: string): Promise<SavedSearch[]> {
+    const result = await db.query(
+      'SELECT * FROM saved_searches WHERE user_id = $1 ORDER BY created_at DESC',
+      [userId]
+    );
+    return result.rows.map(row => this.mapToSavedSearch(row));
+  }
+
+  /**
+   * Run the matcher for a listing after the request that created or updated it has returned
+   */
+  static queueListingMatch(listingId: string): void {
+    setImmediate(() => {
+      this.matchListing(listingId).catch(error =>
+        console.error(`[SavedSearchService] Failed to match listing ${listingId}:`, error)
+      );
+    });
+  }
+
+  /**
+   * Check a listing against every saved search with alerts enabled and alert
+   * owners about new matches and price drops on listings they already matched.
+   */
+  static async matchListing(listingId: string): Promise<number> {
+    const listing = await MarketplaceModel.findById(listingId);
+    if (!listing || listing.status !== 'active') {
+      return 0;
+    }
+
+    const searches = await db.query(
+      `SELECT ss.*, sm.matched_price, u.email
+       FROM saved_searches ss
+       JOIN users u ON u.id = ss.user_id
+       LEFT JOIN saved_search_matches sm ON sm.saved_search_id = ss.id AND sm.listing_id = $1
+       WHERE ss.alerts_enabled = true AND ss.user_id <> $2`,
+      [listingId, listing.sellerId]
+    );
+
+    let alerts = 0;
+    for (const row of searches.rows) {
+      const search = this.mapToSavedSearch(row);
+      if (!this.matchesFilters(listing, search.filters)) {
+        continue;
+      }
+
+      const previousPrice = row.matched_price !== null ? parseFloat(row.matched_price) : undefined;
+      const alertType = this.getAlertType(listing.price, previousPrice);
+
+      await db.query(
+        `INSERT INTO saved_search_matches (saved_search_id, listing_id, matched_price, last_alert_type)
+         VALUES ($1, $2, $3, $4)
+         ON CONFLICT (saved_search_id, listing_id)
+         DO UPDATE SET matched_price = EXCLUDED.matched_price,
+                       last_alert_type = COALESCE($5, saved_search_matches.last_alert_type),
+                       updated_at = NOW()`,
+        [search.id, listing.id, listing.price, alertType || 'new_match', alertType]
+      );
+
+      if (!alertType) {
+        continue;
+      }
+
+      await this.sendAlert(search, listing, alertType, previousPrice, row.email);
+      alerts++;
+    }
+
+    return alerts;
+  }
+
+  private static async sendAlert(
+    search: SavedSearch,
+    listing: MarketplaceListing,
+    alertType: SavedSearchAlertType,
+    previousPrice: number | undefined,
+    email?: string
+  ): Promise<void> {
+    const price = `R$ ${listing.price.toFixed(2)}`;
+    const title = alertType === 'new_match'
+      ? `New match for "${search.name}"`
+      : `Price drop on a match for "${search.name}"`;
+    const message = alertType === 'new_match'
+      ? `"${listing.title}" is listed for ${price}.`
+      : `"${listing.title}" dropped from R$ ${previousPrice!.toFixed(2)} to ${price}.`;
+    const link = `/marketplace/${listing.id}`;
+
+    await NotificationService.send({
+      userId: search.userId,
+      type: 'saved_search_alert',
+      title,
+      message,
+      link,
+      entityId: listing.id,
+      metadata: { savedSearchId: search.id, alertType, price: listing.price, previousPrice },
+    });
+
+    if (search.emailAlerts && email) {
+      const appUrl = process.env.APP_URL || 'http://localhost:3000';
+      await mailService.sendMail({
+        to: email,
+        subject: `${title} - Vangarments`,
+        html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2>${escapeHtml(title)}</h2>
+        <p>${escapeHtml(message)}</p>
+        <p><a href="${appUrl}${link}">View listing</a></p>
+        <p style="color: #666; font-size: 12px;">You can turn off alerts for this search in your saved searches.</p>
+      </div>
+    `,
+      });
+    }
+
+    await db.query('UPDATE saved_searches SET last_alerted_at = NOW() WHERE id = $1', [search.id]);
+  }
+
+  private static mapToSavedSearch(row: any): SavedSearch {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      name: row.name,
+      filters: typeof row.filters === 'string' ? JSON.parse(row.filters) : row.filters,
+      alertsEnabled: row.alerts_enabled,
+      emailAlerts: !!row.email_alerts,
+      lastAlertedAt: row.last_alerted_at ? new Date(row.last_alerted_at) : undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+}
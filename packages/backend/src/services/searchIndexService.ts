@@ -0,0 +1,264 @@
+import { PoolClient } from 'pg';
+import { db } from '../database/connection';
+
+export type SearchEntityType = 'item' | 'sku' | 'brand' | 'user' | 'post' | 'event';
+
+export const SEARCH_ENTITY_TYPES: SearchEntityType[] = ['item', 'sku', 'brand', 'user', 'post', 'event'];
+
+const NUMERIC_PATTERN = `'^[0-9]+(\\.[0-9]+)?$'`;
+
+/**
+ * One SELECT per entity type producing search_documents rows. `$1` is an
+ * optional uuid[] restricting the rebuild to specific entities; rows that are
+ * deleted or otherwise not searchable are simply not returned.
+ */
+const DOCUMENT_SOURCES: Record<SearchEntityType, string> = {
+    item: `
+        SELECT v.id AS entity_id,
+               COALESCE(NULLIF(v.metadata->>'name', ''),
+                        concat_ws(' ', v.brand_hierarchy->>'brand', v.category_hierarchy->>'page')) AS title,
+               concat_ws(' ', v.brand_hierarchy->>'line', v.brand_hierarchy->>'collaboration') AS subtitle,
+               concat_ws(' ', v.vufs_code, v.metadata->>'description', v.category_hierarchy->>'page',
+                         v.category_hierarchy->>'blueSubcategory', v.category_hierarchy->>'whiteSubcategory',
+                         v.category_hierarchy->>'graySubcategory', array_to_string(v.search_keywords, ' ')) AS body,
+               (SELECT ii.image_url FROM item_images ii
+                 WHERE ii.item_id = v.id
+                 ORDER BY ii.is_primary DESC, ii.created_at DESC LIMIT 1) AS image_url,
+               v.vufs_code AS slug,
+               COALESCE(NULLIF(v.category_hierarchy->>'graySubcategory', ''), NULLIF(v.category_hierarchy->>'whiteSubcategory', ''),
+                        NULLIF(v.category_hierarchy->>'blueSubcategory', ''), NULLIF(v.category_hierarchy->>'page', '')) AS category,
+               NULLIF(v.brand_hierarchy->>'brand', '') AS brand_name,
+               ARRAY(
+                   SELECT DISTINCT lower(color_name) FROM (
+                       SELECT COALESCE(c->>'name', c->>'primary') AS color_name
+                       FROM jsonb_array_elements(CASE WHEN jsonb_typeof(v.metadata->'colors') = 'array'
+                                                      THEN v.metadata->'colors' ELSE '[]'::jsonb END) c
+                       UNION ALL
+                       SELECT vc.name FROM vufs_colors vc WHERE vc.id::text = v.metadata->>'colorId'
+                   ) colors WHERE color_name IS NOT NULL AND color_name <> ''
+               ) AS colors,
+               CASE WHEN v.metadata->'pricing'->>'retailPrice' ~ ${NUMERIC_PATTERN}
+                    THEN (v.metadata->'pricing'->>'retailPrice')::numeric END AS price,
+               'BRL' AS currency,
+               v.owner_id,
+               NULL::uuid AS parent_id,
+               COALESCE(v.ownership_info->>'visibility', 'public') = 'public' AS is_public
+        FROM vufs_items v
+        WHERE v.deleted_at IS NULL
+          AND ($1::uuid[] IS NULL OR v.id = ANY($1::uuid[]))
+    `,
+    sku: `
+        SELECT si.id AS entity_id,
+               si.name AS title,
+               concat_ws(' ', si.collection, bl.name, si.line) AS subtitle,
+               concat_ws(' ', si.code, si.description, array_to_string(si.materials, ' '), m.name) AS body,
+               (SELECT img->>'url' FROM jsonb_array_elements(CASE WHEN jsonb_typeof(si.images) = 'array'
+                                                                  THEN si.images ELSE '[]'::jsonb END) img
+                 ORDER BY (img->>'isPrimary')::boolean DESC NULLS LAST LIMIT 1) AS image_url,
+               si.code AS slug,
+               a.name AS category,
+               ba.brand_info->>'name' AS brand_name,
+               ARRAY(SELECT lower(vc.name) FROM vufs_colors vc WHERE vc.id::text = si.metadata->>'colorId') AS colors,
+               si.retail_price_brl AS price,
+               'BRL' AS currency,
+               NULL::uuid AS owner_id,
+               si.brand_id AS parent_id,
+               TRUE AS is_public
+        FROM sku_items si
+        JOIN brand_accounts ba ON ba.id = si.brand_id
+        LEFT JOIN brand_lines bl ON bl.id = si.line_id
+        LEFT JOIN vufs_attribute_values a ON a.id = NULLIF(si.category->>'apparelId', '')::uuid
+        LEFT JOIN vufs_materials m ON m.id = NULLIF(si.category->>'materialId', '')::uuid
+        WHERE si.deleted_at IS NULL
+          AND ba.deleted_at IS NULL
+          AND ($1::uuid[] IS NULL OR si.id = ANY($1::uuid[]))
+    `,
+    brand: `
+        SELECT ba.id AS entity_id,
+               ba.brand_info->>'name' AS title,
+               COALESCE(ba.brand_info->>'businessType', 'brand') AS subtitle,
+               concat_ws(' ', ba.brand_info->>'description', ba.brand_info->>'country') AS body,
+               ba.brand_info->>'logo' AS image_url,
+               ba.brand_info->>'slug' AS slug,
+               NULL AS category,
+               ba.brand_info->>'name' AS brand_name,
+               '{}'::text[] AS colors,
+               NULL::numeric AS price,
+               NULL AS currency,
+               ba.user_id AS owner_id,
+               NULL::uuid AS parent_id,
+               TRUE AS is_public
+        FROM brand_accounts ba
+        WHERE ba.deleted_at IS NULL
+          AND NULLIF(ba.brand_info->>'name', '') IS NOT NULL
+          AND ($1::uuid[] IS NULL OR ba.id = ANY($1::uuid[]))
+    `,
+    user: `
+        SELECT u.id AS entity_id,
+               COALESCE(NULLIF(u.profile->>'name', ''), u.username) AS title,
+               u.username AS subtitle,
+               u.profile->>'bio' AS body,
+               COALESCE(u.profile->>'avatarUrl', u.profile->>'profilePicture') AS image_url,
+               u.username AS slug,
+               NULL AS category,
+               NULL AS brand_name,
+               '{}'::text[] AS colors,
+               NULL::numeric AS price,
+               NULL AS currency,
+               u.id AS owner_id,
+               NULL::uuid AS parent_id,
+               TRUE AS is_public
+        FROM users u
+        WHERE u.status = 'active'
+          AND u.username IS NOT NULL
+          AND ($1::uuid[] IS NULL OR u.id = ANY($1::uuid[]))
+    `,
+    post: `
+        SELECT sp.id AS entity_id,
+               COALESCE(NULLIF(sp.content->>'title', ''), left(sp.content->>'description', 120), sp.post_type) AS title,
+               u.username AS subtitle,
+               concat_ws(' ', sp.content->>'description',
+                         (SELECT string_agg(tag, ' ') FROM jsonb_array_elements_text(
+                             CASE WHEN jsonb_typeof(sp.content->'tags') = 'array' THEN sp.content->'tags' ELSE '[]'::jsonb END) tag)) AS body,
+               sp.content->'imageUrls'->>0 AS image_url,
+               sp.slug,
+               NULL AS category,
+               NULL AS brand_name,
+               '{}'::text[] AS colors,
+               NULL::numeric AS price,
+               NULL AS currency,
+               sp.user_id AS owner_id,
+               NULL::uuid AS parent_id,
+               sp.visibility = 'public' AS is_public
+        FROM social_posts sp
+        LEFT JOIN users u ON u.id = sp.user_id
+        WHERE ($1::uuid[] IS NULL OR sp.id = ANY($1::uuid[]))
+    `,
+    event: `
+        SELECT e.id AS entity_id,
+               e.name AS title,
+               concat_ws(', ', e.venue_name, e.venue_city, e.venue_country) AS subtitle,
+               concat_ws(' ', e.description, e.organizer_name, replace(e.event_type, '_', ' ')) AS body,
+               COALESCE(e.master_logo, e.banner) AS image_url,
+               e.slug,
+               e.event_type AS category,
+               NULL AS brand_name,
+               '{}'::text[] AS colors,
+               NULL::numeric AS price,
+               NULL AS currency,
+               e.organizer_id AS owner_id,
+               NULL::uuid AS parent_id,
+               TRUE AS is_public
+        FROM events e
+        WHERE e.deleted_at IS NULL
+          AND ($1::uuid[] IS NULL OR e.id = ANY($1::uuid[]))
+    `,
+};
+
+const DOCUMENT_COLUMNS = 'entity_id, title, subtitle, body, image_url, slug, category, brand_name, colors, price, currency, owner_id, parent_id, is_public';
+
+/**
+ * Keeps search_documents in step with the source tables. Models call
+ * `queueReindex` after each write; `reindexAll` rebuilds a whole type.
+ */
+export class SearchIndexService {
+    /**
+     * Rebuild the documents for specific entities. Entities that no longer
+     * qualify (deleted, banned, ...) drop out of the index.
+     */
+    static async reindex(entityType: SearchEntityType, entityIds: string[]): Promise<number> {
+        const ids = Array.from(new Set(entityIds.filter(Boolean)));
+        if (ids.length === 0) {
+            return 0;
+        }
+
+        return db.transaction(async (client) => {
+            await client.query(
+                'DELETE FROM search_documents WHERE entity_type = $1 AND entity_id = ANY($2::uuid[])',
+                [entityType, ids]
+            );
+            return this.insertDocuments(client, entityType, ids);
+        });
+    }
+
+    /**
+     * Fire-and-forget variant for model writes, so a search index problem never
+     * fails the write itself
+     */
+    static queueReindex(entityType: SearchEntityType, entityIds: string | string[]): void {
+        const ids = Array.isArray(entityIds) ? entityIds : [entityIds];
+        this.reindex(entityType, ids).catch(error => {
+            console.error(`Failed to update search index for ${entityType} ${ids.join(', ')}:`, error);
+        });
+    }
+
+    /**
+     * A brand and its catalog, whose SKU documents carry the brand name
+     */
+    static async reindexBrand(brandId: string): Promise<void> {
+        await db.transaction(async (client) => {
+            await client.query(
+                `DELETE FROM search_documents
+                 WHERE (entity_type = 'brand' AND entity_id = $1) OR (entity_type = 'sku' AND parent_id = $1)`,
+                [brandId]
+            );
+            const catalog = await client.query('SELECT id FROM sku_items WHERE brand_id = $1', [brandId]);
+            await this.insertDocuments(client, 'brand', [brandId]);
+            if (catalog.rows.length > 0) {
+                await this.insertDocuments(client, 'sku', catalog.rows.map(row => row.id));
+            }
+        });
+    }
+
+    static queueBrandReindex(brandId: string): void {
+        this.reindexBrand(brandId).catch(error => {
+            console.error(`Failed to update search index for brand ${brandId}:`, error);
+        });
+    }
+
+    /**
+     * Drop everything a deleted account owned, including the catalogs of its brands
+     */
+    static async removeOwnedBy(userId: string): Promise<void> {
+        await db.transaction(async (client) => {
+            await client.query(
+                `DELETE FROM search_documents
+                 WHERE owner_id = $1
+                    OR (entity_type = 'user' AND entity_id = $1)
+                    OR (entity_type = 'sku' AND parent_id IN (
+                        SELECT entity_id FROM search_documents WHERE entity_type = 'brand' AND owner_id = $1
+                    ))`,
+                [userId]
+            );
+        });
+    }
+
+    static queueOwnerRemoval(userId: string): void {
+        this.removeOwnedBy(userId).catch(error => {
+            console.error(`Failed to remove search documents owned by ${userId}:`, error);
+        });
+    }
+
+    /**
+     * Rebuild every document of a type, e.g. after the migration or a bulk script
+     */
+    static async reindexAll(entityType: SearchEntityType): Promise<number> {
+        return db.transaction(async (client) => {
+            await client.query('DELETE FROM search_documents WHERE entity_type = $1', [entityType]);
+            return this.insertDocuments(client, entityType, null);
+        });
+    }
+
+    /**
+     * Insert documents built from the source table; `null` ids means all rows
+     */
+    private static async insertDocuments(client: PoolClient, entityType: SearchEntityType, ids: string[] | null): Promise<number> {
+        const result = await client.query(
+            `INSERT INTO search_documents (entity_type, ${DOCUMENT_COLUMNS})
+             SELECT $2, ${DOCUMENT_COLUMNS} FROM (${DOCUMENT_SOURCES[entityType]}) source
+             WHERE source.title IS NOT NULL`,
+            [ids, entityType]
+        );
+        return result.rowCount || 0;
+    }
+}
@@ -0,0 +1,272 @@
+import { db } from '../database/connection';
+import { SearchEntityType, SEARCH_ENTITY_TYPES } from './searchIndexService';
+
+export interface SearchParams {
+    query?: string;
+    types?: SearchEntityType[];
+    categories?: string[];
+    brands?: string[];
+    colors?: string[];
+    minPrice?: number;
+    maxPrice?: number;
+    viewerId?: string;
+    limit?: number;
+    offset?: number;
+}
+
+export interface SearchResult {
+    type: SearchEntityType;
+    id: string;
+    title: string;
+    subtitle?: string;
+    imageUrl?: string;
+    slug?: string;
+    category?: string;
+    brand?: string;
+    colors: string[];
+    price?: number;
+    currency?: string;
+    score: number;
+}
+
+export interface FacetCount {
+    value: string;
+    count: number;
+}
+
+export interface SearchFacets {
+    types: FacetCount[];
+    categories: FacetCount[];
+    brands: FacetCount[];
+    colors: FacetCount[];
+    priceRanges: Array<{ min: number; max?: number; count: number }>;
+}
+
+/** Upper bounds (exclusive) of the price facet buckets, in BRL */
+export const PRICE_BUCKET_BOUNDS = [100, 250, 500, 1000];
+
+const MAX_LIMIT = 100;
+const FACET_SIZE = 20;
+
+/** The parsed query as `q`, from the three match values numbered from `start` */
+const queryCte = (start: number) => `
+    SELECT websearch_to_tsquery('search_portuguese', $${start})
+           || websearch_to_tsquery('search_english', $${start}) AS full_query,
+           CASE WHEN $${start + 1}::text = '' THEN NULL ELSE to_tsquery('simple', $${start + 1}::text) END AS prefix_query,
+           $${start + 2}::text AS plain
+`;
+
+const MATCH_CONDITION = `(
+    d.search_vector @@ q.full_query
+    OR d.search_vector @@ q.prefix_query
+    OR q.plain <% search_unaccent(lower(d.title))
+)`;
+
+// Whole-word matches outrank prefixes; trigram similarity rescues typos
+const SCORE_EXPRESSION = `(
+    ts_rank_cd(d.search_vector, q.full_query)
+    + 0.5 * COALESCE(ts_rank_cd(d.search_vector, q.prefix_query), 0)
+    + word_similarity(q.plain, search_unaccent(lower(d.title)))
+)`;
+
+interface SqlFragment {
+    conditions: string[];
+    values: any[];
+}
+
+/**
+ * Ranked full-text search over search_documents. Matching combines stemmed
+ * Portuguese/English lexemes, prefix matches for partially typed words and
+ * trigram similarity on titles, so "camisa", "camis" and "camsia" all find
+ * the same shirt.
+ */
+export class SearchService {
+    /**
+     * Lowercase, strip accents and punctuation, and split into tokens
+     */
+    static tokenize(query: string): string[] {
+        return query
+            .normalize('NFD')
+            .replace(/[\u0300-\u036f]/g, '')
+            .toLowerCase()
+            .replace(/[^a-z0-9]+/g, ' ')
+            .trim()
+            .split(' ')
+            .filter(token => token.length > 0);
+    }
+
+    /**
+     * to_tsquery input matching every token as a prefix ("cam & azu" → "cam:* & azu:*")
+     */
+    static buildPrefixQuery(tokens: string[]): string {
+        return tokens.map(token => `${token}:*`).join(' & ');
+    }
+
+    /**
+     * WHERE conditions shared by the result and facet queries. Parameters are
+     * numbered from `startIndex`.
+     */
+    static buildConditions(params: SearchParams, startIndex: number): SqlFragment {
+        const conditions: string[] = [];
+        const values: any[] = [];
+        const next = (value: any) => {
+            values.push(value);
+            return `$${startIndex + values.length - 1}`;
+        };
+
+        if (params.viewerId) {
+            conditions.push(`(d.is_public OR d.owner_id = ${next(params.viewerId)})`);
+        } else {
+            conditions.push('d.is_public');
+        }
+
+        if (params.types && params.types.length > 0) {
+            conditions.push(`d.entity_type = ANY(${next(params.types)})`);
+        }
+        if (params.categories && params.categories.length > 0) {
+            conditions.push(`lower(d.category) = ANY(${next(params.categories.map(c => c.toLowerCase()))})`);
+        }
+        if (params.brands && params.brands.length > 0) {
+            conditions.push(`lower(d.brand_name) = ANY(${next(params.brands.map(b => b.toLowerCase()))})`);
+        }
+        if (params.colors && params.colors.length > 0) {
+            conditions.push(`d.colors && ${next(params.colors.map(c => c.toLowerCase()))}::text[]`);
+        }
+        if (params.minPrice !== undefined) {
+            conditions.push(`d.price >= ${next(params.minPrice)}`);
+        }
+        if (params.maxPrice !== undefined) {
+            conditions.push(`d.price <= ${next(params.maxPrice)}`);
+        }
+
+        return { conditions, values };
+    }
+
+    /**
+     * Map width_bucket() indexes over PRICE_BUCKET_BOUNDS back to ranges
+     */
+    static toPriceRanges(rows: Array<{ bucket: number; count: number }>): SearchFacets['priceRanges'] {
+        return rows
+            .map(row => ({
+                min: row.bucket === 0 ? 0 : PRICE_BUCKET_BOUNDS[row.bucket - 1],
+                max: PRICE_BUCKET_BOUNDS[row.bucket],
+                count: Number(row.count),
+            }))
+            .sort((a, b) => a.min - b.min);
+    }
+
+    static async search(params: SearchParams): Promise<{ results: SearchResult[]; total: number; facets: SearchFacets }> {
+        const tokens = this.tokenize(params.query || '');
+        const limit = Math.min(Math.max(params.limit || 20, 1), MAX_LIMIT);
+        const offset = Math.max(params.offset || 0, 0);
+
+        const matchValues = this.buildMatchValues(params.query || '', tokens);
+        const filters = this.buildConditions(params, matchValues.length + 1);
+        const conditions = tokens.length > 0 ? [MATCH_CONDITION, ...filters.conditions] : filters.conditions;
+
+        const baseQuery = `
+            WITH q AS (${queryCte(1)})
+            SELECT d.*, ${SCORE_EXPRESSION} AS score
+            FROM search_documents d, q
+            WHERE ${conditions.join(' AND ')}
+        `;
+        const values = [...matchValues, ...filters.values];
+
+        const [rows, facets] = await Promise.all([
+            db.query(
+                `SELECT matches.*, COUNT(*) OVER() AS total_count
+                 FROM (${baseQuery}) matches
+                 ORDER BY ${tokens.length > 0 ? 'score DESC, ' : ''}updated_at DESC
+                 LIMIT $${values.length + 1} OFFSET $${values.length + 2}`,
+                [...values, limit, offset]
+            ),
+            this.getFacets(baseQuery, values),
+        ]);
+
+        return {
+            results: rows.rows.map(row => this.mapToResult(row)),
+            total: rows.rows.length > 0 ? Number(rows.rows[0].total_count) : 0,
+            facets,
+        };
+    }
+
+    /**
+     * Subquery of the entities of one type matching `query`, as
+     * (entity_id, score), ignoring visibility. Type-specific listings join it
+     * so their own visibility and attribute filters run before they rank and
+     * limit. Parameters are numbered from `startIndex`.
+     */
+    static buildMatchQuery(entityType: SearchEntityType, query: string, startIndex: number): { sql: string; values: string[] } {
+        const tokens = this.tokenize(query);
+        const values = [...this.buildMatchValues(query, tokens), entityType];
+
+        return {
+            sql: `SELECT d.entity_id, ${SCORE_EXPRESSION} AS score
+                  FROM search_documents d, (${queryCte(startIndex)}) q
+                  WHERE d.entity_type = $${startIndex + 3} AND ${MATCH_CONDITION}`,
+            values,
+        };
+    }
+
+    static isEntityType(value: string): value is SearchEntityType {
+        return (SEARCH_ENTITY_TYPES as string[]).includes(value);
+    }
+
+    /** Raw query, prefix tsquery and unaccented text for trigram matching */
+    private static buildMatchValues(query: string, tokens: string[]): string[] {
+        return [query, this.buildPrefixQuery(tokens), tokens.join(' ')];
+    }
+
+    private static async getFacets(baseQuery: string, values: any[]): Promise<SearchFacets> {
+        const result = await db.query(
+            `WITH matches AS (${baseQuery})
+             SELECT 'type' AS facet, entity_type AS value, COUNT(*) AS count FROM matches GROUP BY entity_type
+             UNION ALL
+             (SELECT 'category', category, COUNT(*) FROM matches WHERE category IS NOT NULL
+              GROUP BY category ORDER BY COUNT(*) DESC LIMIT ${FACET_SIZE})
+             UNION ALL
+             (SELECT 'brand', brand_name, COUNT(*) FROM matches WHERE brand_name IS NOT NULL
+              GROUP BY brand_name ORDER BY COUNT(*) DESC LIMIT ${FACET_SIZE})
+             UNION ALL
+             (SELECT 'color', color, COUNT(*) FROM matches, unnest(colors) color
+              GROUP BY color ORDER BY COUNT(*) DESC LIMIT ${FACET_SIZE})
+             UNION ALL
+             SELECT 'price', width_bucket(price, ARRAY[${PRICE_BUCKET_BOUNDS.join(', ')}]::numeric[])::text, COUNT(*)
+             FROM matches WHERE price IS NOT NULL
+             GROUP BY 2`,
+            values
+        );
+
+        const facets: SearchFacets = { types: [], categories: [], brands: [], colors: [], priceRanges: [] };
+        const priceRows: Array<{ bucket: number; count: number }> = [];
+        for (const row of result.rows) {
+            const entry = { value: row.value, count: Number(row.count) };
+            switch (row.facet) {
+                case 'type': facets.types.push(entry); break;
+                case 'category': facets.categories.push(entry); break;
+                case 'brand': facets.brands.push(entry); break;
+                case 'color': facets.colors.push(entry); break;
+                case 'price': priceRows.push({ bucket: Number(row.value), count: Number(row.count) }); break;
+            }
+        }
+        facets.priceRanges = this.toPriceRanges(priceRows);
+        return facets;
+    }
+
+    private static mapToResult(row: any): SearchResult {
+        return {
+            type: row.entity_type,
+            id: row.entity_id,
+            title: row.title,
+            subtitle: row.subtitle || undefined,
+            imageUrl: row.image_url || undefined,
+            slug: row.slug || undefined,
+            category: row.category || undefined,
+            brand: row.brand_name || undefined,
+            colors: row.colors || [],
+            price: row.price !== null && row.price !== undefined ? parseFloat(row.price) : undefined,
+            currency: row.currency || undefined,
+            score: Number(row.score) || 0,
+        };
+    }
+}
@@ -0,0 +1,310 @@
+import {
+    BrandSizeChart,
+    BrandSizeChartInput,
+    BrandSizeChartModel,
+    SizeChartCategory,
+    SizeChartGender,
+    SizeChartEntry,
+    SizeChartRange,
+} from '../models/BrandSizeChart';
+import { SKUItemModel } from '../models/SKUItem';
+
+export const SIZE_STANDARDS = ['BR', 'US', 'EU', 'UK', 'JP', 'IT', 'FR'] as const;
+export const SIZE_CHART_CATEGORIES: SizeChartCategory[] = ['apparel', 'footwear'];
+export const SIZE_CHART_GENDERS: SizeChartGender[] = ['men', 'women', 'unisex'];
+
+export type SizeStandard = typeof SIZE_STANDARDS[number];
+type SizeRow = Record<SizeStandard, string>;
+
+export interface SizeConversionQuery {
+    value: string;
+    /** Standard the value is written in; detected from the tables when omitted */
+    from?: SizeStandard;
+    to?: SizeStandard;
+    category?: SizeChartCategory;
+    gender?: SizeChartGender;
+    brandId?: string;
+    apparelId?: string | null;
+    /** Reads brand, gender and category from the SKU */
+    skuId?: string;
+}
+
+export interface SizeConversionResult {
+    value: string;
+    from: SizeStandard | null;
+    category: SizeChartCategory;
+    gender: SizeChartGender;
+    source: 'brand_chart' | 'reference';
+    chart?: { id: string; name: string; brandId: string };
+    /** The brand's own label for the size */
+    label?: string;
+    conversions: Partial<Record<SizeStandard, string>>;
+    converted?: string | null;
+    ranges: SizeChartRange[];
+}
+
+// Reference tables used when the brand has no chart of its own. Apparel keeps the
+// BR/US/EU/UK values of MeasurementUtils; FR runs one size above EU and IT two above.
+const apparel = (BR: string, US: string, UK: string, EU: number, FR: number, IT: number, JP: string): SizeRow =>
+    ({ BR, US, UK, EU: String(EU), FR: String(FR), IT: String(IT), JP });
+
+// Footwear is sold in EU sizes in Italy and France; JP is the foot length in cm
+const footwear = (US: string, UK: string, EU: string, BR: string, JP: string): SizeRow =>
+    ({ US, UK, EU, BR, JP, IT: EU, FR: EU });
+
+const REFERENCE_TABLES: Record<SizeChartCategory, Record<Exclude<SizeChartGender, 'unisex'>, SizeRow[]>> = {
+    apparel: {
+        women: [
+            apparel('PP', 'XS', '4', 32, 34, 36, '3'),
+            apparel('P', 'S', '6', 34, 36, 38, '5'),
+            apparel('M', 'M', '8', 36, 38, 40, '7'),
+            apparel('G', 'L', '10', 38, 40, 42, '9'),
+            apparel('GG', 'XL', '12', 40, 42, 44, '11'),
+            apparel('XGG', 'XXL', '14', 42, 44, 46, '13'),
+        ],
+        men: [
+            apparel('PP', 'XS', '34', 44, 44, 44, 'S'),
+            apparel('P', 'S', '36', 46, 46, 46, 'M'),
+            apparel('M', 'M', '38', 48, 48, 48, 'L'),
+            apparel('G', 'L', '40', 50, 50, 50, 'LL'),
+            apparel('GG', 'XL', '42', 52, 52, 52, '3L'),
+            apparel('XGG', 'XXL', '44', 54, 54, 54, '4L'),
+        ],
+    },
+    footwear: {
+        women: [
+            footwear('5', '3', '35.5', '34', '22'),
+            footwear('6', '4', '36.5', '35', '23'),
+            footwear('7', '5', '38', '36', '24'),
+            footwear('8', '6', '39', '37', '25'),
+            footwear('9', '7', '40.5', '38', '26'),
+            footwear('10', '8', '42', '40', '27'),
+            footwear('11', '9', '43', '41', '28'),
+        ],
+        men: [
+            footwear('6', '5.5', '38.5', '37', '24'),
+            footwear('7', '6', '40', '38', '25'),
+            footwear('8', '7', '41', '39', '26'),
+            footwear('9', '8', '42.5', '40', '27'),
+            footwear('10', '9', '44', '42', '28'),
+            footwear('11', '10', '45', '43', '29'),
+            footwear('12', '11', '46', '44', '30'),
+            footwear('13', '12', '47.5', '45', '31'),
+        ],
+    },
+};
+
+// Order in which a value is looked up when the caller doesn't say which standard it is in
+const DETECTION_ORDER: SizeStandard[] = ['BR', 'US', 'EU', 'UK', 'IT', 'FR', 'JP'];
+
+const FOOTWEAR_PATTERN = /shoe|sneaker|boot|sandal|slipper|flip.?flop|loafer|heel|mule|clog|footwear|t[eê]nis|sapato|bota|chinelo|cal[cç]ado/i;
+
+/**
+ * Converts sizes between international standards, preferring the brand's own
+ * size chart over the generic reference tables
+ */
+export class SizeConversionService {
+    static async convert(query: SizeConversionQuery): Promise<SizeConversionResult | null> {
+        const context = await this.resolveContext(query);
+        const value = String(query.value || '').trim();
+        if (!value) {
+            throw new Error('Invalid value: a size is required');
+        }
+
+        if (context.brandId) {
+            const charts = await BrandSizeChartModel.findForBrand(context.brandId, context.category, context.gender, context.apparelId);
+            for (const chart of charts) {
+                const match = this.findEntry(chart, value, query.from);
+                if (match) {
+                    return {
+                        value,
+                        from: match.from,
+                        category: context.category,
+                        gender: context.gender,
+                        source: 'brand_chart',
+                        chart: { id: chart.id, name: chart.name, brandId: chart.brandId },
+                        label: match.entry.label,
+                        conversions: match.entry.conversions,
+                        converted: query.to ? match.entry.conversions[query.to] || null : undefined,
+                        ranges: match.entry.ranges,
+                    };
+                }
+            }
+        }
+
+        const match = this.findReferenceRow(context.category, context.gender, value, query.from);
+        if (!match) {
+            return null;
+        }
+
+        return {
+            value,
+            from: match.from,
+            category: context.category,
+            gender: context.gender,
+            source: 'reference',
+            conversions: match.row,
+            converted: query.to ? match.row[query.to] : undefined,
+            ranges: [],
+        };
+    }
+
+    /**
+     * Reference table for a category and gender, unisex using the men's sizes
+     */
+    static referenceTable(category: SizeChartCategory, gender: SizeChartGender): SizeRow[] {
+        return REFERENCE_TABLES[category][gender === 'women' ? 'women' : 'men'];
+    }
+
+    /**
+     * Check a chart payload from the admin API before it is stored
+     */
+    static validateChart(data: Partial<BrandSizeChartInput>, partial: boolean = false): void {
+        if (!partial || data.brandId !== undefined) {
+            if (!data.brandId) throw new Error('Invalid chart: brandId is required');
+        }
+        if (!partial || data.name !== undefined) {
+            if (!data.name || !String(data.name).trim()) throw new Error('Invalid chart: name is required');
+        }
+        if (!partial || data.category !== undefined) {
+            this.assertCategory(data.category);
+        }
+        if (data.gender !== undefined) {
+            this.assertGender(data.gender);
+        }
+
+        if (data.entries === undefined) return;
+        if (!Array.isArray(data.entries)) {
+            throw new Error('Invalid chart: entries must be an array');
+        }
+
+        const labels = new Set<string>();
+        for (const entry of data.entries) {
+            const label = String(entry?.label || '').trim();
+            if (!label) throw new Error('Invalid entry: label is required');
+            if (labels.has(label.toLowerCase())) throw new Error(`Invalid entry: duplicate label ${label}`);
+            labels.add(label.toLowerCase());
+
+            for (const standard of Object.keys(entry.conversions || {})) {
+                this.assertStandard(standard);
+            }
+            for (const range of entry.ranges || []) {
+                const { min, max } = range;
+                if (!range.pomId) throw new Error(`Invalid range for ${label}: pomId is required`);
+                if ((min === undefined || min === null) && (max === undefined || max === null)) {
+                    throw new Error(`Invalid range for ${label}: min or max is required`);
+                }
+                if (min !== undefined && min !== null && max !== undefined && max !== null && Number(min) > Number(max)) {
+                    throw new Error(`Invalid range for ${label}: min is greater than max`);
+                }
+            }
+        }
+    }
+
+    static assertStandard(standard: any): asserts standard is SizeStandard {
+        if (!SIZE_STANDARDS.includes(standard)) {
+            throw new Error(`Invalid standard: ${standard}. Must be one of ${SIZE_STANDARDS.join(', ')}`);
+        }
+    }
+
+    static assertCategory(category: any): asserts category is SizeChartCategory {
+        if (!SIZE_CHART_CATEGORIES.includes(category)) {
+            throw new Error(`Invalid category: ${category}. Must be one of ${SIZE_CHART_CATEGORIES.join(', ')}`);
+        }
+    }
+
+    static assertGender(gender: any): asserts gender is SizeChartGender {
+        if (!SIZE_CHART_GENDERS.includes(gender)) {
+            throw new Error(`Invalid gender: ${gender}. Must be one of ${SIZE_CHART_GENDERS.join(', ')}`);
+        }
+    }
+
+    /**
+     * Category, gender and brand for a conversion, read from the SKU when one
+     * is given; explicit query values win
+     */
+    private static async resolveContext(query: SizeConversionQuery): Promise<{
+        category: SizeChartCategory;
+        gender: SizeChartGender;
+        brandId?: string;
+        apparelId?: string | null;
+    }> {
+        if (query.from !== undefined) this.assertStandard(query.from);
+        if (query.to !== undefined) this.assertStandard(query.to);
+        if (query.gender !== undefined) this.assertGender(query.gender);
+        if (query.category !== undefined) this.assertCategory(query.category);
+
+        let category = query.category;
+        let gender = query.gender;
+        let brandId = query.brandId;
+        let apparelId = query.apparelId;
+
+        if (query.skuId) {
+            const sku = await SKUItemModel.findById(query.skuId);
+            if (!sku) {
+                throw new Error('Invalid skuId: SKU not found');
+            }
+            brandId = brandId || sku.brandId;
+            apparelId = apparelId || (sku.category as any)?.apparelId || null;
+            category = category || (FOOTWEAR_PATTERN.test(sku.apparel || '') ? 'footwear' : 'apparel');
+            gender = gender || this.genderFromName(sku.gender);
+        }
+
+        if (!category) {
+            throw new Error('Invalid category: category or skuId is required');
+        }
+        return { category, gender: gender || 'unisex', brandId, apparelId };
+    }
+
+    private static genderFromName(name?: string): SizeChartGender {
+        if (!name) return 'unisex';
+        if (/wom|fem|ladies|mulher/i.test(name)) return 'women';
+        if (/men|male|masc|homem/i.test(name)) return 'men';
+        return 'unisex';
+    }
+
+    private static findEntry(
+        chart: BrandSizeChart,
+        value: string,
+        from?: SizeStandard
+    ): { entry: SizeChartEntry; from: SizeStandard | null } | null {
+        for (const standard of from ? [from] : DETECTION_ORDER) {
+            const entry = chart.entries.find(e => e.conversions[standard] && this.sameSize(e.conversions[standard], value));
+            if (entry) return { entry, from: standard };
+        }
+
+        // The brand's own label, e.g. "41/42"
+        if (!from) {
+            const entry = chart.entries.find(e => this.sameSize(e.label, value));
+            if (entry) return { entry, from: null };
+        }
+        return null;
+    }
+
+    private static findReferenceRow(
+        category: SizeChartCategory,
+        gender: SizeChartGender,
+        value: string,
+        from?: SizeStandard
+    ): { row: SizeRow; from: SizeStandard } | null {
+        const table = this.referenceTable(category, gender);
+        for (const standard of from ? [from] : DETECTION_ORDER) {
+            const row = table.find(r => this.sameSize(r[standard], value));
+            if (row) return { row, from: standard };
+        }
+        return null;
+    }
+
+    /**
+     * Sizes match ignoring case and number formatting; a split label such as
+     * "41/42" matches either half
+     */
+    private static sameSize(candidate: string, value: string): boolean {
+        const normalize = (size: string) => {
+            const trimmed = size.trim().toUpperCase().replace(',', '.');
+            return trimmed !== '' && !isNaN(Number(trimmed)) ? String(Number(trimmed)) : trimmed;
+        };
+        const target = normalize(value);
+        return normalize(candidate) === target || candidate.split('/').some(part => normalize(part) === target);
+    }
+}
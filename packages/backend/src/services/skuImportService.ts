@@ -0,0 +1,796 @@
+import { db } from '../database/connection';
+import { CreateSKUItemData, SKUItem, SKUItemModel } from '../models/SKUItem';
+import { BrandLineModel } from '../models/BrandLine';
+import { BrandCollectionModel } from '../models/BrandCollection';
+import { LocalStorageService } from './localStorageService';
+import { SearchIndexService } from './searchIndexService';
+import { ImageEmbeddingService } from './imageEmbeddingService';
+import { SheetRows, excelSerialToDate, parseCsv, readXlsx, toCsv, writeXlsx } from '../utils/spreadsheet';
+import { RemoteImage } from '../utils/remoteImage';
+
+export type CatalogFormat = 'csv' | 'xlsx' | 'json';
+export const CATALOG_FORMATS: CatalogFormat[] = ['csv', 'xlsx', 'json'];
+
+/** Columns of the import template and the export, in order */
+export const CATALOG_COLUMNS = [
+    'code', 'parent_code', 'name', 'size', 'color',
+    'line', 'collection', 'apparel', 'style', 'pattern', 'fit', 'gender', 'material',
+    'retail_price_brl', 'retail_price_usd', 'retail_price_eur', 'release_date',
+    'description', 'care_instructions', 'official_item_link', 'images',
+] as const;
+
+export type CatalogColumn = typeof CATALOG_COLUMNS[number];
+export type CatalogRow = Partial<Record<CatalogColumn, string>>;
+
+const COLUMN_ALIASES: Record<string, CatalogColumn> = {
+    sku: 'code',
+    sku_code: 'code',
+    parent: 'parent_code',
+    parent_sku: 'parent_code',
+    parent_sku_code: 'parent_code',
+    colour: 'color',
+    line_name: 'line',
+    collection_name: 'collection',
+    category: 'apparel',
+    price_brl: 'retail_price_brl',
+    price_usd: 'retail_price_usd',
+    price_eur: 'retail_price_eur',
+    care: 'care_instructions',
+    official_link: 'official_item_link',
+    image: 'images',
+    image_urls: 'images',
+};
+
+const MAX_IMPORT_ROWS = 5000;
+const MAX_IMAGE_BYTES = 15 * 1024 * 1024;
+const IMAGE_TIMEOUT_MS = 10000;
+const IMAGE_DOWNLOAD_CONCURRENCY = 8;
+
+export interface SKUImportIssue {
+    field: CatalogColumn | 'row';
+    message: string;
+}
+
+export interface SKUImportRowReport {
+    /** Sheet row number for CSV/XLSX (the header is row 1), position for JSON */
+    row: number;
+    code: string | null;
+    parentCode: string | null;
+    kind: 'sku' | 'parent' | 'variant';
+    errors: SKUImportIssue[];
+    warnings: SKUImportIssue[];
+    skuId?: string;
+}
+
+export interface SKUImportReport {
+    dryRun: boolean;
+    format: CatalogFormat;
+    committed: boolean;
+    totalRows: number;
+    validRows: number;
+    invalidRows: number;
+    parents: number;
+    variants: number;
+    /** Parent codes created from their variants because no row or SKU had them */
+    generatedParents: string[];
+    ignoredColumns: string[];
+    rows: SKUImportRowReport[];
+}
+
+export interface SKUImportInput {
+    buffer?: Buffer;
+    filename?: string;
+    mimetype?: string;
+    /** Already-parsed rows, e.g. a JSON request body */
+    rows?: Array<Record<string, any>>;
+}
+
+type Named = { id: string; name: string };
+
+interface CatalogLookups {
+    lines: Map<string, Named>;
+    collections: Map<string, string>;
+    apparel: Map<string, Named>;
+    style: Map<string, Named>;
+    pattern: Map<string, Named>;
+    fit: Map<string, Named>;
+    gender: Map<string, Named>;
+    material: Map<string, Named>;
+    size: Map<string, Named>;
+    color: Map<string, Named>;
+    /** The brand's SKUs by lowercased code */
+    existing: Map<string, SKUItem>;
+    /** Parent codes taken by other brands */
+    takenCodes: Set<string>;
+}
+
+interface Draft {
+    report: SKUImportRowReport | null;
+    code: string;
+    data: Omit<CreateSKUItemData, 'brandId' | 'code' | 'parentSkuId'>;
+    imageUrls: string[];
+    sizeName?: string;
+    colorName?: string;
+    /** Fields given in the row itself, so variants only inherit the rest */
+    given: Set<CatalogColumn>;
+    variants: Draft[];
+    parent?: Draft | SKUItem;
+}
+
+const key = (value: string): string => value.trim().toLowerCase();
+
+/**
+ * Bulk SKU catalog import and export. Rows map to CreateSKUItemData; a row
+ * with a parent_code becomes a size/color variant of that parent, which can be
+ * another row, an existing SKU of the brand, or is created from its variants.
+ */
+export class SKUImportService {
+    static detectFormat(filename?: string, mimetype?: string): CatalogFormat {
+        const extension = filename?.split('.').pop()?.toLowerCase();
+        if (extension === 'xlsx' || mimetype === 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet') {
+            return 'xlsx';
+        }
+        if (extension === 'json' || mimetype === 'application/json') return 'json';
+        if (extension === 'csv' || extension === 'txt' || mimetype?.startsWith('text/')) return 'csv';
+        throw new Error('Invalid file: upload a CSV, XLSX or JSON file');
+    }
+
+    /**
+     * Read rows from an upload or a JSON body, keyed by catalog column
+     */
+    static parseRows(input: SKUImportInput): {
+        format: CatalogFormat;
+        rows: Array<{ row: number; values: CatalogRow }>;
+        ignoredColumns: string[];
+    } {
+        const ignored = new Set<string>();
+        const normalize = (record: Record<string, any>): CatalogRow => {
+            const values: CatalogRow = {};
+            for (const [header, value] of Object.entries(record)) {
+                const column = this.columnFor(header);
+                if (!column) {
+                    if (header.trim()) ignored.add(header.trim());
+                    continue;
+                }
+                if (value === null || value === undefined) continue;
+                values[column] = Array.isArray(value) ? value.join(' | ') : String(value).trim();
+            }
+            return values;
+        };
+
+        let format: CatalogFormat = 'json';
+        let rows: Array<{ row: number; values: CatalogRow }>;
+
+        if (input.rows) {
+            rows = input.rows.map((record, index) => ({ row: index + 1, values: normalize(record || {}) }));
+        } else if (input.buffer) {
+            format = this.detectFormat(input.filename, input.mimetype);
+            if (format === 'json') {
+                let parsed: any;
+                try {
+                    parsed = JSON.parse(input.buffer.toString('utf8'));
+                } catch {
+                    throw new Error('Invalid file: JSON could not be parsed');
+                }
+                const records = Array.isArray(parsed) ? parsed : parsed?.skus || parsed?.rows;
+                if (!Array.isArray(records)) {
+                    throw new Error('Invalid file: JSON must be an array of SKUs or { "skus": [...] }');
+                }
+                rows = records.map((record: any, index: number) => ({ row: index + 1, values: normalize(record || {}) }));
+            } else {
+                const sheet: SheetRows = format === 'xlsx' ? readXlsx(input.buffer) : parseCsv(input.buffer.toString('utf8'));
+                const [header = [], ...body] = sheet;
+                rows = body.map((cells, index) => ({
+                    row: index + 2,
+                    values: normalize(Object.fromEntries(header.map((title, column) => [title, cells[column] ?? '']))),
+                }));
+            }
+        } else {
+            throw new Error('Invalid import: a file or rows are required');
+        }
+
+        rows = rows.filter(({ values }) => Object.values(values).some(value => value));
+        if (rows.length === 0) {
+            throw new Error('Invalid import: no rows found');
+        }
+        if (rows.length > MAX_IMPORT_ROWS) {
+            throw new Error(`Invalid import: at most ${MAX_IMPORT_ROWS} rows per file`);
+        }
+        return { format, rows, ignoredColumns: [...ignored] };
+    }
+
+    /**
+     * Validate an import and, unless it is a dry run or has errors, create the
+     * SKUs and their images in one transaction
+     */
+    static async import(brandId: string, userId: string, input: SKUImportInput, dryRun: boolean): Promise<SKUImportReport> {
+        const { format, rows, ignoredColumns } = this.parseRows(input);
+        const lookups = await this.loadLookups(brandId, rows.map(({ values }) => values.parent_code || values.code || ''));
+        const { topLevel, variants, generated } = this.plan(rows, lookups);
+
+        const reports = [...topLevel, ...variants]
+            .map(draft => draft.report)
+            .filter((report): report is SKUImportRowReport => report !== null)
+            .sort((a, b) => a.row - b.row);
+
+        const report: SKUImportReport = {
+            dryRun,
+            format,
+            committed: false,
+            totalRows: reports.length,
+            validRows: 0,
+            invalidRows: 0,
+            parents: topLevel.filter(draft => draft.variants.length > 0).length,
+            variants: variants.length,
+            generatedParents: generated.map(draft => draft.code),
+            ignoredColumns,
+            rows: reports,
+        };
+        const count = () => {
+            report.invalidRows = reports.filter(row => row.errors.length > 0).length;
+            report.validRows = report.totalRows - report.invalidRows;
+        };
+        count();
+
+        if (dryRun || report.invalidRows > 0) {
+            return report;
+        }
+
+        const drafts = [...topLevel, ...variants];
+        const stored = await this.storeImages(drafts, userId);
+        count();
+        if (report.invalidRows > 0) {
+            await this.discardImages(stored);
+            return report;
+        }
+
+        let created: string[];
+        try {
+            created = await db.transaction(async (client) => {
+                const ids: string[] = [];
+                const create = async (draft: Draft, parentSkuId?: string) => {
+                    const sku = await SKUItemModel.create({
+                        ...draft.data,
+                        brandId,
+                        code: draft.code,
+                        parentSkuId,
+                        images: draft.imageUrls.length > 0
+                            ? draft.imageUrls.map((url, index) => ({ url: stored.get(url)?.url || url, isPrimary: index === 0 }))
+                            : draft.data.images || [],
+                    }, client);
+                    if (draft.report) draft.report.skuId = sku.id;
+                    ids.push(sku.id);
+                    return sku.id;
+                };
+
+                const parentIds = new Map<Draft, string>();
+                for (const draft of topLevel) {
+                    parentIds.set(draft, await create(draft));
+                }
+                for (const draft of variants) {
+                    const parent = draft.parent!;
+                    await create(draft, 'brandId' in parent ? parent.id : parentIds.get(parent));
+                }
+                return ids;
+            });
+        } catch (error) {
+            await this.discardImages(stored);
+            throw error;
+        }
+
+        // SKUItemModel.create leaves indexing to the caller inside a transaction
+        SearchIndexService.queueReindex('sku', created);
+        ImageEmbeddingService.queueIndex('sku', created);
+
+        report.committed = true;
+        return report;
+    }
+
+    /**
+     * The brand's catalog in the import format, each parent followed by its variants
+     */
+    static async export(brandId: string, format: CatalogFormat): Promise<{ filename: string; contentType: string; body: string | Buffer }> {
+        const skus = await SKUItemModel.findByBrandId(brandId);
+        const byParent = new Map<string, SKUItem[]>();
+        for (const sku of skus) {
+            if (!sku.parentSkuId) continue;
+            byParent.set(sku.parentSkuId, [...(byParent.get(sku.parentSkuId) || []), sku]);
+        }
+
+        const codes = new Map(skus.map(sku => [sku.id, sku.code]));
+        const byCreation = (a: SKUItem, b: SKUItem) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+        const ordered = skus
+            .filter(sku => !sku.parentSkuId || !codes.has(sku.parentSkuId))
+            .sort(byCreation)
+            .flatMap(sku => [sku, ...(byParent.get(sku.id) || []).sort(byCreation)]);
+
+        const rows = ordered.map(sku => this.toRow(sku, sku.parentSkuId ? codes.get(sku.parentSkuId) : undefined));
+        const filename = `sku-catalog-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+        if (format === 'json') {
+            return { filename, contentType: 'application/json', body: JSON.stringify({ skus: rows }, null, 2) };
+        }
+        const sheet = [[...CATALOG_COLUMNS], ...rows.map(row => CATALOG_COLUMNS.map(column => row[column] || ''))];
+        if (format === 'xlsx') {
+            return {
+                filename,
+                contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+                body: writeXlsx(sheet, 'SKUs'),
+            };
+        }
+        return { filename, contentType: 'text/csv', body: toCsv(sheet) };
+    }
+
+    static assertFormat(format: any): asserts format is CatalogFormat {
+        if (!CATALOG_FORMATS.includes(format)) {
+            throw new Error(`Invalid format: ${format}. Must be one of ${CATALOG_FORMATS.join(', ')}`);
+        }
+    }
+
+    private static columnFor(header: string): CatalogColumn | undefined {
+        const normalized = header
+            .trim()
+            .replace(/([a-z])([A-Z])/g, '$1_$2')
+            .toLowerCase()
+            .replace(/[^a-z0-9]+/g, '_')
+            .replace(/^_|_$/g, '');
+        return (CATALOG_COLUMNS as readonly string[]).includes(normalized)
+            ? normalized as CatalogColumn
+            : COLUMN_ALIASES[normalized];
+    }
+
+    private static toRow(sku: SKUItem, parentCode?: string): CatalogRow {
+        const metadata = sku.metadata || {};
+        const price = (value?: number) => value !== undefined && value !== null ? String(Number(value)) : '';
+        return {
+            code: sku.code,
+            parent_code: parentCode || '',
+            name: sku.name,
+            size: metadata.sizeName || metadata.size || '',
+            color: metadata.colorName || metadata.color || '',
+            line: sku.lineInfo?.name || sku.line || '',
+            collection: sku.collection || '',
+            apparel: sku.apparel || '',
+            style: sku.style || '',
+            pattern: sku.pattern || '',
+            fit: sku.fit || '',
+            gender: sku.gender || '',
+            material: sku.materialName || '',
+            retail_price_brl: price(sku.retailPriceBrl),
+            retail_price_usd: price(sku.retailPriceUsd),
+            retail_price_eur: price(sku.retailPriceEur),
+            release_date: sku.releaseDate ? new Date(sku.releaseDate).toISOString().slice(0, 10) : '',
+            description: sku.description || '',
+            care_instructions: sku.careInstructions || '',
+            official_item_link: sku.officialItemLink || '',
+            images: (sku.images || []).map(image => image.url).join(' | '),
+        };
+    }
+
+    private static async loadLookups(brandId: string, codes: string[]): Promise<CatalogLookups> {
+        const named = (rows: Named[]) => {
+            const map = new Map<string, Named>();
+            for (const row of rows) {
+                map.set(key(row.name), row);
+                map.set(row.id.toLowerCase(), row);
+            }
+            return map;
+        };
+        const table = async (name: string) =>
+            named((await db.query(`SELECT id, name FROM ${name} WHERE is_active = true`)).rows);
+
+        const [lines, collections, attributes, pattern, fit, gender, material, size, color, existing, taken] = await Promise.all([
+            BrandLineModel.findByBrandId(brandId),
+            BrandCollectionModel.findByBrand(brandId),
+            db.query(
+                `SELECT id, name, type_slug FROM vufs_attribute_values
+                 WHERE type_slug IN ('apparel', 'style') AND is_active = true`
+            ),
+            table('vufs_patterns'),
+            table('vufs_fits'),
+            table('vufs_genders'),
+            table('vufs_materials'),
+            table('vufs_sizes'),
+            table('vufs_colors'),
+            SKUItemModel.findByBrandId(brandId),
+            db.query(
+                `SELECT LOWER(code) AS code FROM sku_items
+                 WHERE parent_sku_id IS NULL AND deleted_at IS NULL AND brand_id <> $1 AND LOWER(code) = ANY($2)`,
+                [brandId, codes.filter(Boolean).map(key)]
+            ),
+        ]);
+
+        return {
+            lines: named(lines),
+            collections: new Map(collections.map(collection => [key(collection.name), collection.name])),
+            apparel: named(attributes.rows.filter((row: any) => row.type_slug === 'apparel')),
+            style: named(attributes.rows.filter((row: any) => row.type_slug === 'style')),
+            pattern,
+            fit,
+            gender,
+            material,
+            size,
+            color,
+            // Variants may share their parent's code; the parent wins
+            existing: new Map(existing.sort((a, b) => Number(!!b.parentSkuId) - Number(!!a.parentSkuId)).map(sku => [key(sku.code), sku])),
+            takenCodes: new Set(taken.rows.map((row: any) => row.code)),
+        };
+    }
+
+    /**
+     * Validate every row and arrange them into parents and variants
+     */
+    private static plan(
+        rows: Array<{ row: number; values: CatalogRow }>,
+        lookups: CatalogLookups
+    ): { topLevel: Draft[]; variants: Draft[]; generated: Draft[] } {
+        const topLevel: Draft[] = [];
+        const variants: Draft[] = [];
+        const generated: Draft[] = [];
+        const byCode = new Map<string, Draft>();
+        const generatedByCode = new Map<string, Draft>();
+
+        for (const { row, values } of rows) {
+            const draft = this.draft(row, values, lookups);
+            const report = draft.report!;
+
+            if (!report.parentCode) {
+                report.kind = 'sku';
+                if (!draft.code) {
+                    report.errors.push({ field: 'code', message: 'Code is required' });
+                } else if (byCode.has(key(draft.code))) {
+                    report.errors.push({ field: 'code', message: `Duplicate code ${draft.code} (also on row ${byCode.get(key(draft.code))!.report!.row})` });
+                } else if (lookups.existing.has(key(draft.code)) || lookups.takenCodes.has(key(draft.code))) {
+                    report.errors.push({ field: 'code', message: `A SKU with code ${draft.code} already exists` });
+                }
+                if (!draft.data.name) {
+                    report.errors.push({ field: 'name', message: 'Name is required' });
+                }
+                if (draft.code && !byCode.has(key(draft.code))) byCode.set(key(draft.code), draft);
+                topLevel.push(draft);
+            } else {
+                report.kind = 'variant';
+                if (!draft.sizeName && !draft.colorName) {
+                    report.errors.push({ field: 'size', message: 'A variant needs a size or a color' });
+                }
+                variants.push(draft);
+            }
+        }
+
+        for (const draft of variants) {
+            const report = draft.report!;
+            const parentKey = key(report.parentCode!);
+            const existing = lookups.existing.get(parentKey);
+
+            let parent: Draft | SKUItem | undefined = byCode.get(parentKey);
+            if (!parent && existing) {
+                if (existing.parentSkuId) {
+                    report.errors.push({ field: 'parent_code', message: `${existing.code} is itself a variant` });
+                }
+                parent = existing;
+            }
+            if (!parent) {
+                parent = generatedByCode.get(parentKey);
+                if (!parent) {
+                    parent = this.generatedParent(report.parentCode!, draft);
+                    generatedByCode.set(parentKey, parent);
+                    generated.push(parent);
+                    topLevel.push(parent);
+                }
+                if (lookups.takenCodes.has(parentKey)) {
+                    report.errors.push({ field: 'parent_code', message: `Parent code ${report.parentCode} belongs to another brand` });
+                }
+            }
+            draft.parent = parent;
+
+            if (!('brandId' in parent)) {
+                parent.variants.push(draft);
+                if (parent.report) parent.report.kind = 'parent';
+                if (parent.report?.errors.length) {
+                    report.errors.push({ field: 'parent_code', message: `Parent ${parent.code} has errors (row ${parent.report.row})` });
+                }
+            }
+            this.inherit(draft, parent);
+
+            if (!draft.code) {
+                draft.code = [parent.code, ...[draft.colorName, draft.sizeName]
+                    .filter(Boolean)
+                    .map(part => part!.toUpperCase().replace(/[^A-Z0-9]+/g, ''))].join('-');
+                report.code = draft.code;
+            }
+        }
+
+        // Duplicates among variants, within the file and against the catalog
+        const variantCodes = new Map<string, number>();
+        const combinations = new Map<string, number>();
+        for (const draft of variants) {
+            const report = draft.report!;
+            const parentId = 'brandId' in draft.parent! ? draft.parent.id : draft.parent!.code;
+            const combination = `${key(parentId)}|${key(draft.colorName || '')}|${key(draft.sizeName || '')}`;
+
+            if (variantCodes.has(key(draft.code)) || byCode.has(key(draft.code))) {
+                report.errors.push({ field: 'code', message: `Duplicate code ${draft.code}` });
+            } else if (lookups.existing.has(key(draft.code))) {
+                report.errors.push({ field: 'code', message: `A SKU with code ${draft.code} already exists` });
+            }
+            if (combinations.has(combination)) {
+                report.errors.push({ field: 'size', message: `Same size and color as row ${combinations.get(combination)}` });
+            }
+            variantCodes.set(key(draft.code), report.row);
+            combinations.set(combination, report.row);
+        }
+
+        return { topLevel, variants, generated };
+    }
+
+    private static draft(row: number, values: CatalogRow, lookups: CatalogLookups): Draft {
+        const report: SKUImportRowReport = {
+            row,
+            code: values.code || null,
+            parentCode: values.parent_code || null,
+            kind: 'sku',
+            errors: [],
+            warnings: [],
+        };
+        const error = (field: CatalogColumn, message: string) => report.errors.push({ field, message });
+        const given = new Set((Object.keys(values) as CatalogColumn[]).filter(column => values[column]));
+
+        const resolve = (field: 'apparel' | 'style' | 'pattern' | 'fit' | 'gender' | 'material'): Named | undefined => {
+            const value = values[field];
+            if (!value) return undefined;
+            const match = lookups[field].get(key(value));
+            if (!match) error(field, `Unknown ${field} "${value}"`);
+            return match;
+        };
+        const apparel = resolve('apparel');
+        const style = resolve('style');
+        const pattern = resolve('pattern');
+        const fit = resolve('fit');
+        const gender = resolve('gender');
+        const material = resolve('material');
+
+        let line: Named | undefined;
+        if (values.line) {
+            line = lookups.lines.get(key(values.line));
+            if (!line) error('line', `Unknown line "${values.line}" for this brand`);
+        }
+
+        let collection = values.collection || undefined;
+        if (collection) {
+            const match = lookups.collections.get(key(collection));
+            if (match) {
+                collection = match;
+            } else {
+                report.warnings.push({ field: 'collection', message: `"${collection}" is not one of the brand's collections; stored as text` });
+            }
+        }
+
+        const variantAxis = (field: 'size' | 'color'): Named | undefined => {
+            const value = values[field];
+            if (!value) return undefined;
+            const match = lookups[field].get(key(value));
+            if (!match) {
+                report.warnings.push({ field, message: `"${value}" is not in the ${field} list; stored as text` });
+            }
+            return match || { id: '', name: value };
+        };
+        const size = variantAxis('size');
+        const color = variantAxis('color');
+
+        const price = (field: 'retail_price_brl' | 'retail_price_usd' | 'retail_price_eur'): number | undefined => {
+            if (!values[field]) return undefined;
+            const amount = this.parseDecimal(values[field]!);
+            if (amount === null || amount < 0) {
+                error(field, `Invalid price "${values[field]}"`);
+                return undefined;
+            }
+            return amount;
+        };
+
+        const retailPriceBrl = price('retail_price_brl');
+        const retailPriceUsd = price('retail_price_usd');
+        const retailPriceEur = price('retail_price_eur');
+
+        let releaseDate: Date | undefined;
+        if (values.release_date) {
+            const parsed = this.parseDate(values.release_date);
+            if (parsed) releaseDate = parsed;
+            else error('release_date', `Invalid date "${values.release_date}"; use YYYY-MM-DD`);
+        }
+
+        if (values.official_item_link && !/^https?:\/\/\S+$/i.test(values.official_item_link)) {
+            error('official_item_link', 'Official item link must be an http(s) URL');
+        }
+
+        const imageUrls = (values.images || '').split(/[|\s]+/).filter(Boolean);
+        for (const url of imageUrls) {
+            if (!/^https?:\/\/\S+$/i.test(url) && !url.startsWith('/storage/')) {
+                error('images', `Invalid image URL "${url}"`);
+            }
+        }
+
+        const metadata: Record<string, any> = {
+            ...(apparel ? { apparelId: apparel.id, apparelName: apparel.name } : {}),
+            ...(style ? { styleId: style.id, styleName: style.name } : {}),
+            ...(pattern ? { patternId: pattern.id, patternName: pattern.name } : {}),
+            ...(fit ? { fitId: fit.id, fitName: fit.name } : {}),
+            ...(gender ? { genderId: gender.id, genderName: gender.name } : {}),
+            ...(material ? { materialId: material.id } : {}),
+            ...(size ? { ...(size.id ? { sizeId: size.id } : {}), sizeName: size.name } : {}),
+            ...(color ? { ...(color.id ? { colorId: color.id } : {}), colorName: color.name } : {}),
+        };
+
+        return {
+            report,
+            code: values.code || '',
+            given,
+            imageUrls,
+            sizeName: size?.name,
+            colorName: color?.name,
+            variants: [],
+            data: {
+                name: values.name || '',
+                collection,
+                line: line?.name,
+                lineId: line?.id,
+                // Same shape as the admin SKU form
+                category: {
+                    page: style?.name || apparel?.name || '',
+                    styleId: style?.id || null,
+                    patternId: pattern?.id || null,
+                    fitId: fit?.id || null,
+                    genderId: gender?.id || null,
+                    apparelId: apparel?.id || null,
+                    materialId: material?.id || null,
+                } as any,
+                description: values.description || undefined,
+                materials: material ? [material.name] : undefined,
+                metadata,
+                retailPriceBrl,
+                retailPriceUsd,
+                retailPriceEur,
+                releaseDate,
+                careInstructions: values.care_instructions || undefined,
+                officialItemLink: values.official_item_link || undefined,
+            },
+        };
+    }
+
+    /**
+     * Parent for variants whose parent_code is neither in the file nor the
+     * catalog, built from the first such variant without its size and color
+     */
+    private static generatedParent(code: string, variant: Draft): Draft {
+        const metadata = this.withoutVariantAxes(variant.data.metadata);
+        return {
+            report: null,
+            code,
+            given: variant.given,
+            imageUrls: variant.imageUrls,
+            variants: [],
+            data: {
+                ...variant.data,
+                name: this.baseName(variant.data.name) || code,
+                metadata,
+            },
+        };
+    }
+
+    /**
+     * Fill the fields a variant row leaves blank from its parent and name it
+     * like the admin form does: "Parent name (Color) [Size]"
+     */
+    private static inherit(draft: Draft, parent: Draft | SKUItem): void {
+        const source: Draft['data'] = 'brandId' in parent
+            ? { ...parent, releaseDate: parent.releaseDate || undefined }
+            : parent.data;
+        const parentMetadata = this.withoutVariantAxes(source.metadata);
+        const blank = (...columns: CatalogColumn[]) => !columns.some(column => draft.given.has(column));
+        const data = draft.data;
+
+        if (blank('line')) Object.assign(data, { line: source.line, lineId: source.lineId });
+        if (blank('collection')) data.collection = source.collection;
+        if (blank('apparel', 'style', 'pattern', 'fit', 'gender', 'material')) {
+            data.category = source.category;
+            data.materials = source.materials;
+            data.metadata = { ...parentMetadata, ...data.metadata };
+        }
+        if (blank('description')) data.description = source.description;
+        if (blank('retail_price_brl')) data.retailPriceBrl = source.retailPriceBrl;
+        if (blank('retail_price_usd')) data.retailPriceUsd = source.retailPriceUsd;
+        if (blank('retail_price_eur')) data.retailPriceEur = source.retailPriceEur;
+        if (blank('release_date')) data.releaseDate = source.releaseDate || undefined;
+        if (blank('care_instructions')) data.careInstructions = source.careInstructions;
+        if (blank('official_item_link')) data.officialItemLink = source.officialItemLink;
+        if (blank('images')) {
+            // An existing parent's images are already stored; reuse them as they are
+            if ('brandId' in parent) data.images = parent.images;
+            else draft.imageUrls = parent.imageUrls;
+        }
+
+        const parts = [this.baseName(data.name || source.name)];
+        if (draft.colorName && !parts[0].includes(`(${draft.colorName})`)) parts.push(`(${draft.colorName})`);
+        if (draft.sizeName && !parts[0].includes(`[${draft.sizeName}]`)) parts.push(`[${draft.sizeName}]`);
+        data.name = parts.join(' ');
+    }
+
+    private static withoutVariantAxes(metadata: Record<string, any> = {}): Record<string, any> {
+        return Object.fromEntries(
+            Object.entries(metadata).filter(([field]) => !['sizeId', 'sizeName', 'colorId', 'colorName'].includes(field))
+        );
+    }
+
+    private static baseName(name: string): string {
+        return name.replace(/\s*\([^)]*\)\s*\[[^\]]*\]\s*$/, '').trim();
+    }
+
+    /**
+     * Download remote images once each, a few at a time, and store them
+     * locally. Failures are reported on every row using the URL.
+     */
+    private static async storeImages(drafts: Draft[], userId: string): Promise<Map<string, { url: string; path: string }>> {
+        const stored = new Map<string, { url: string; path: string }>();
+        const pending = [...new Set(drafts.flatMap(draft => draft.imageUrls).filter(url => /^https?:\/\//i.test(url)))];
+
+        const download = async (url: string) => {
+            try {
+                const { buffer, mimetype } = await RemoteImage.fetch(url, { maxBytes: MAX_IMAGE_BYTES, timeoutMs: IMAGE_TIMEOUT_MS });
+                const filename = decodeURIComponent(new URL(url).pathname.split('/').pop() || 'image');
+                const upload = await LocalStorageService.uploadImage(buffer, filename, mimetype, 'marketplace', userId);
+                stored.set(url, { url: upload.optimizedUrl || upload.url, path: upload.path });
+            } catch (error: any) {
+                for (const draft of drafts) {
+                    if (draft.imageUrls.includes(url)) {
+                        const row = draft.report || draft.variants[0]?.report;
+                        row?.errors.push({ field: 'images', message: `Image ${url}: ${error?.message || error}` });
+                    }
+                }
+            }
+        };
+
+        const workers = Array.from({ length: Math.min(IMAGE_DOWNLOAD_CONCURRENCY, pending.length) }, async () => {
+            for (let url = pending.shift(); url !== undefined; url = pending.shift()) {
+                await download(url);
+            }
+        });
+        await Promise.all(workers);
+        return stored;
+    }
+
+    private static async discardImages(stored: Map<string, { url: string; path: string }>): Promise<void> {
+        for (const { path } of stored.values()) {
+            await LocalStorageService.deleteImage(path);
+        }
+    }
+
+    /**
+     * Parse "1299.90", "1.299,90" or "R$ 1299,90"; the last separator is the decimal one
+     */
+    private static parseDecimal(value: string): number | null {
+        let cleaned = value.replace(/[^\d.,-]/g, '');
+        const decimal = Math.max(cleaned.lastIndexOf('.'), cleaned.lastIndexOf(','));
+        if (decimal !== -1) {
+            cleaned = cleaned.slice(0, decimal).replace(/[.,]/g, '') + '.' + cleaned.slice(decimal + 1);
+        }
+        if (!/^-?\d+(\.\d+)?$/.test(cleaned)) return null;
+        return Number(cleaned);
+    }
+
+    /**
+     * YYYY-MM-DD, DD/MM/YYYY or an Excel date serial from an XLSX cell
+     */
+    private static parseDate(value: string): Date | null {
+        let iso = value.trim();
+        const brazilian = iso.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+        if (brazilian) {
+            iso = `${brazilian[3]}-${brazilian[2].padStart(2, '0')}-${brazilian[1].padStart(2, '0')}`;
+        } else if (/^\d{5}(\.\d+)?$/.test(iso)) {
+            iso = excelSerialToDate(Number(iso));
+        }
+
+        const match = iso.match(/^(\d{4})-(\d{2})-(\d{2})/);
+        if (!match) return null;
+        const date = new Date(`${match[1]}-${match[2]}-${match[3]}T00:00:00Z`);
+        return !isNaN(date.getTime()) && date.toISOString().startsWith(match[0]) ? date : null;
+    }
+}
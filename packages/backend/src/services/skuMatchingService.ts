@@ -0,0 +1,388 @@
+import { db } from '../database/connection';
+import { VUFSItemModel, BackendVUFSItem } from '../models/VUFSItem';
+import { SKUItemModel, SKUItem } from '../models/SKUItem';
+import { ImageEmbeddingService } from './imageEmbeddingService';
+
+export type SKUMatchReason = 'style_code' | 'brand' | 'piece_type' | 'colorway' | 'image';
+
+/**
+ * What we know about a garment that may correspond to a catalog SKU. Usually
+ * built from the AI analysis of its photos and whatever the user filled in.
+ */
+export interface SKUMatchSignals {
+    brand?: string | null;
+    pieceType?: string | null;
+    colors?: string[];
+    /** Label OCR lines, scanned for style codes */
+    text?: string[];
+    /** Image embeddings of the garment photos */
+    embeddings?: number[][];
+}
+
+export interface SKUMatchCandidate {
+    skuId: string;
+    name: string;
+    code: string;
+    brand?: string;
+    imageUrl?: string;
+    releaseDate?: Date | null;
+    score: number;
+    confidence: 'high' | 'medium' | 'low';
+    reasons: SKUMatchReason[];
+}
+
+export interface SKUCandidateRow {
+    id: string;
+    name: string;
+    code: string;
+    brandName?: string | null;
+    category?: Record<string, any> | null;
+    metadata?: Record<string, any> | null;
+    images?: Array<{ url: string; isPrimary?: boolean }> | null;
+    releaseDate?: Date | null;
+    /** Best visual similarity to the garment photos, if any */
+    imageScore?: number;
+}
+
+export interface InheritedMeasurement {
+    pomCode: string;
+    pomName: string;
+    size: string;
+    value: number;
+    tolerance: number | null;
+    unit: string;
+}
+
+// Relative weight of each signal; an exact style code is close to conclusive
+const WEIGHTS = {
+    exactCode: 0.5,
+    partialCode: 0.3,
+    brand: 0.2,
+    pieceType: 0.1,
+    colorway: 0.1,
+    image: 0.2,
+};
+// Same code but a different brand on the label is more likely a coincidence
+const BRAND_MISMATCH_FACTOR = 0.6;
+const MIN_SCORE = 0.2;
+const MIN_CODE_LENGTH = 5;
+const MAX_POOL_SIZE = 200;
+const MAX_QUERY_EMBEDDINGS = 3;
+
+const STYLE_CODE_TOKEN = /^[A-Z0-9]+(?:[-/.][A-Z0-9]+)*$/;
+
+const normalizeText = (value: string): string =>
+    value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+const textMatches = (a: string, b: string): boolean => {
+    const left = normalizeText(a);
+    const right = normalizeText(b);
+    if (!left || !right) return false;
+    return left === right || ` ${left} `.includes(` ${right} `) || ` ${right} `.includes(` ${left} `);
+};
+
+/**
+ * Ranks catalog SKUs against a wardrobe item so the owner can confirm which
+ * product they own, and links the item to the confirmed SKU.
+ */
+export class SKUMatchingService {
+    static normalizeCode(code: string): string {
+        return code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+    }
+
+    /**
+     * Style/article code candidates in label text, e.g. "STYLE DD1391-100" or
+     * "REF. 0123.456". Codes split over two tokens ("CW2288 111") are joined.
+     */
+    static extractStyleCodes(text: string[]): string[] {
+        const codes = new Set<string>();
+
+        for (const line of text) {
+            const tokens = line.toUpperCase().split(/[\s,;:#]+/).filter(token => STYLE_CODE_TOKEN.test(token));
+            tokens.forEach((token, index) => {
+                this.addStyleCode(codes, token);
+
+                const next = tokens[index + 1];
+                if (next && /[A-Z]/.test(token) && /\d/.test(token) && /^\d{3}$/.test(next)) {
+                    this.addStyleCode(codes, token + next);
+                }
+            });
+        }
+
+        return [...codes];
+    }
+
+    /**
+     * Score one catalog SKU against the signals, between 0 and 1
+     */
+    static scoreCandidate(signals: SKUMatchSignals, candidate: SKUCandidateRow, styleCodes: string[]): {
+        score: number;
+        reasons: SKUMatchReason[];
+    } {
+        const reasons: SKUMatchReason[] = [];
+        let score = 0;
+
+        const code = this.normalizeCode(candidate.code || '');
+        if (code.length >= MIN_CODE_LENGTH) {
+            if (styleCodes.includes(code)) {
+                score += WEIGHTS.exactCode;
+                reasons.push('style_code');
+            } else if (styleCodes.some(token => token.startsWith(code) || code.startsWith(token))) {
+                score += WEIGHTS.partialCode;
+                reasons.push('style_code');
+            }
+        }
+
+        if (signals.brand && candidate.brandName) {
+            if (textMatches(signals.brand, candidate.brandName)) {
+                score += WEIGHTS.brand;
+                reasons.push('brand');
+            } else {
+                score *= BRAND_MISMATCH_FACTOR;
+            }
+        }
+
+        if (signals.pieceType) {
+            const category = candidate.category || {};
+            const pieceTypes = [
+                candidate.metadata?.apparelName,
+                category.whiteSubcategory,
+                category.graySubcategory,
+                category.blueSubcategory,
+                candidate.name,
+            ].filter((value): value is string => typeof value === 'string' && value.length > 0);
+            if (pieceTypes.some(value => textMatches(signals.pieceType!, value))) {
+                score += WEIGHTS.pieceType;
+                reasons.push('piece_type');
+            }
+        }
+
+        const colorway = [candidate.metadata?.colorName, candidate.name]
+            .filter((value): value is string => typeof value === 'string' && value.length > 0);
+        if (signals.colors?.some(color => colorway.some(value => textMatches(color, value)))) {
+            score += WEIGHTS.colorway;
+            reasons.push('colorway');
+        }
+
+        if (candidate.imageScore) {
+            score += WEIGHTS.image * candidate.imageScore;
+            reasons.push('image');
+        }
+
+        return { score: Math.min(1, Math.round(score * 1000) / 1000), reasons };
+    }
+
+    /**
+     * Catalog SKUs that may be the garment described by the signals, best first.
+     * The pool is SKUs whose code matches a label code, SKUs of the detected
+     * brand and piece type, and SKUs that look like the photos.
+     */
+    static async findCandidates(signals: SKUMatchSignals, limit: number = 5): Promise<SKUMatchCandidate[]> {
+        const styleCodes = this.extractStyleCodes(signals.text || []);
+
+        const imageScores = new Map<string, number>();
+        for (const embedding of (signals.embeddings || []).slice(0, MAX_QUERY_EMBEDDINGS)) {
+            const matches = await ImageEmbeddingService.findSimilar(embedding, { types: ['sku'], limit: 20 });
+            for (const match of matches) {
+                imageScores.set(match.id, Math.max(imageScores.get(match.id) || 0, match.score));
+            }
+        }
+
+        const brand = signals.brand?.trim() || null;
+        const pieceType = signals.pieceType?.trim() || null;
+        if (styleCodes.length === 0 && imageScores.size === 0 && !(brand && pieceType)) {
+            return [];
+        }
+
+        const result = await db.query(
+            `SELECT si.id, si.name, si.code, si.category, si.metadata, si.images, si.release_date,
+                    ba.brand_info->>'name' AS brand_name
+             FROM sku_items si
+             LEFT JOIN brand_accounts ba ON ba.id = si.brand_id
+             WHERE si.deleted_at IS NULL
+               AND (
+                   EXISTS (
+                       SELECT 1 FROM unnest($1::text[]) AS label(code)
+                       WHERE length(regexp_replace(upper(si.code), '[^A-Z0-9]', '', 'g')) >= ${MIN_CODE_LENGTH}
+                         AND (label.code LIKE regexp_replace(upper(si.code), '[^A-Z0-9]', '', 'g') || '%'
+                              OR regexp_replace(upper(si.code), '[^A-Z0-9]', '', 'g') LIKE label.code || '%')
+                   )
+                   OR ($2::text IS NOT NULL AND lower(ba.brand_info->>'name') = lower($2)
+                       AND (si.name ILIKE '%' || $3 || '%' OR si.category::text ILIKE '%' || $3 || '%'
+                            OR si.metadata->>'apparelName' ILIKE $3))
+                   OR si.id = ANY($4::uuid[])
+               )
+             LIMIT ${MAX_POOL_SIZE}`,
+            [styleCodes, brand && pieceType ? brand : null, pieceType, [...imageScores.keys()]]
+        );
+
+        return result.rows
+            .map(row => {
+                const candidate: SKUCandidateRow = {
+                    id: row.id,
+                    name: row.name,
+                    code: row.code,
+                    brandName: row.brand_name,
+                    category: row.category,
+                    metadata: row.metadata,
+                    images: row.images,
+                    releaseDate: row.release_date,
+                    imageScore: imageScores.get(row.id),
+                };
+                const { score, reasons } = this.scoreCandidate(signals, candidate, styleCodes);
+                const images = Array.isArray(candidate.images) ? candidate.images : [];
+
+                return {
+                    skuId: candidate.id,
+                    name: candidate.name,
+                    code: candidate.code,
+                    brand: candidate.brandName || undefined,
+                    imageUrl: (images.find(image => image.isPrimary) || images[0])?.url,
+                    releaseDate: candidate.releaseDate || null,
+                    score,
+                    confidence: score >= 0.7 ? 'high' : score >= 0.4 ? 'medium' : 'low',
+                    reasons,
+                } as SKUMatchCandidate;
+            })
+            .filter(candidate => candidate.score >= MIN_SCORE)
+            .sort((a, b) => b.score - a.score)
+            .slice(0, limit);
+    }
+
+    /**
+     * Signals for a saved wardrobe item: what the owner entered, the AI
+     * analysis stored with its photos and the photos' embeddings
+     */
+    static async getItemSignals(item: BackendVUFSItem): Promise<SKUMatchSignals> {
+        const analysis = await db.query(
+            `SELECT ai_analysis FROM item_images
+             WHERE item_id = $1 AND ai_analysis IS NOT NULL
+             ORDER BY is_primary DESC, created_at
+             LIMIT 1`,
+            [item.id]
+        );
+        const ai = analysis.rows[0]?.ai_analysis || {};
+
+        return {
+            ...this.signalsFromItemData({ ...item, aiAnalysis: ai }),
+            embeddings: await ImageEmbeddingService.getEmbeddings('item', item.id),
+        };
+    }
+
+    /**
+     * Signals from item data as the wardrobe and anteroom forms send it,
+     * optionally carrying the AI analysis under `aiAnalysis`
+     */
+    static signalsFromItemData(itemData: any): SKUMatchSignals {
+        const ai = itemData?.aiAnalysis || {};
+        const brand = itemData?.brand?.brand;
+        const category = itemData?.category || {};
+        const colors: string[] = (itemData?.metadata?.colors || [])
+            .map((color: any) => (typeof color === 'string' ? color : color?.primary))
+            .filter(Boolean);
+        if (ai.detectedColor) {
+            colors.push(ai.detectedColor);
+        }
+
+        return {
+            brand: brand && brand !== 'Unknown' ? brand : ai.detectedBrand || null,
+            pieceType: ai.detectedPieceType || category.whiteSubcategory || category.graySubcategory || null,
+            colors,
+            text: Array.isArray(ai.detectedText) ? ai.detectedText : [],
+        };
+    }
+
+    /**
+     * Link a wardrobe item to the SKU its owner confirmed. The item inherits the
+     * official name, description, care, retail price and release info where the
+     * owner left them empty, plus the SKU's measurements for the item's size.
+     */
+    static async confirmMatch(itemId: string, skuId: string): Promise<BackendVUFSItem | null> {
+        const [item, sku] = await Promise.all([VUFSItemModel.findById(itemId), SKUItemModel.findById(skuId)]);
+        if (!item) {
+            return null;
+        }
+        if (!sku) {
+            throw new Error('Invalid SKU: not found');
+        }
+
+        const size = item.metadata?.size || sku.metadata?.sizeName;
+        const measurements = await this.getMeasurements(sku, size);
+
+        return VUFSItemModel.update(itemId, {
+            skuItemId: sku.id,
+            brand: {
+                ...item.brand,
+                brand: item.brand?.brand && item.brand.brand !== 'Unknown' ? item.brand.brand : sku.brand?.name || item.brand?.brand,
+                line: item.brand?.line || sku.lineInfo?.name || sku.line,
+            },
+            metadata: this.inheritMetadata(item.metadata, sku, measurements),
+        });
+    }
+
+    /**
+     * Item metadata after inheriting from a SKU; values the owner set win
+     */
+    static inheritMetadata(metadata: any, sku: SKUItem, measurements: InheritedMeasurement[]): any {
+        const current = metadata || {};
+        const careInstructions = Array.isArray(current.careInstructions) ? current.careInstructions : [];
+
+        return {
+            ...current,
+            name: current.name || sku.name,
+            description: current.description || sku.description,
+            size: current.size || sku.metadata?.sizeName,
+            collection: current.collection || sku.collection,
+            careInstructions: careInstructions.length > 0 || !sku.careInstructions
+                ? careInstructions
+                : [sku.careInstructions],
+            pricing: {
+                ...current.pricing,
+                retailPrice: current.pricing?.retailPrice || sku.retailPriceBrl || 0,
+            },
+            styleCode: sku.code,
+            releaseDate: sku.releaseDate || current.releaseDate,
+            officialItemLink: sku.officialItemLink || current.officialItemLink,
+            measurements: measurements.length > 0 ? measurements : current.measurements,
+        };
+    }
+
+    /**
+     * POM measurements of a SKU, falling back to its parent's when the variant
+     * has none, limited to one size when the size is known
+     */
+    static async getMeasurements(sku: SKUItem, size?: string): Promise<InheritedMeasurement[]> {
+        const result = await db.query(
+            `SELECT pd.code AS pom_code, pd.name AS pom_name, pd.measurement_unit,
+                    vs.name AS size_name, sm.value, COALESCE(sm.tolerance, pd.default_tolerance) AS tolerance,
+                    sm.sku_id = $1 AS own
+             FROM sku_measurements sm
+             JOIN pom_definitions pd ON pd.id = sm.pom_id
+             JOIN vufs_sizes vs ON vs.id = sm.size_id
+             WHERE sm.sku_id = ANY($2::uuid[])
+             ORDER BY vs.sort_order, pd.sort_order`,
+            [sku.id, [sku.id, sku.parentSkuId].filter(Boolean)]
+        );
+
+        const rows = result.rows.some(row => row.own) ? result.rows.filter(row => row.own) : result.rows;
+        const sized = size ? rows.filter(row => textMatches(row.size_name, size)) : [];
+
+        return (sized.length > 0 ? sized : rows).map(row => ({
+            pomCode: row.pom_code,
+            pomName: row.pom_name,
+            size: row.size_name,
+            value: Number(row.value),
+            tolerance: row.tolerance !== null ? Number(row.tolerance) : null,
+            unit: row.measurement_unit,
+        }));
+    }
+
+    private static addStyleCode(codes: Set<string>, token: string): void {
+        const code = this.normalizeCode(token);
+        // Needs a digit, and short all-digit runs are years, sizes or percentages
+        if (code.length < MIN_CODE_LENGTH || code.length > 20 || !/\d/.test(code) || /^\d{1,5}$/.test(code)) {
+            return;
+        }
+        codes.add(code);
+    }
+}
@@ -0,0 +1,157 @@
+import { SKUItemModel, UpdateSKUItemData } from '../models/SKUItem';
+import { SKUChangeActor, SKUSnapshot, SKUVersion, SKUVersionModel, SKUVersionedField } from '../models/SKUVersion';
+import { BrandAccountModel } from '../models/BrandAccount';
+import { BrandRole, BrandTeamModel } from '../models/BrandTeam';
+
+/** Brand team roles allowed to edit and roll back SKUs */
+export const SKU_EDITOR_ROLES: BrandRole[] = ['CEO', 'CFO', 'Founder', 'CD', 'Marketing', 'Seller', 'Designer'];
+
+/** Fields whose old and new values are shown in the public changelog; others only by name */
+const PUBLIC_VALUE_FIELDS: SKUVersionedField[] = [
+    'name', 'collection', 'line', 'retailPriceBrl', 'retailPriceUsd', 'retailPriceEur', 'releaseDate', 'officialItemLink',
+];
+
+const FIELD_LABELS: Record<SKUVersionedField, string> = {
+    name: 'Name',
+    code: 'Code',
+    collection: 'Collection',
+    line: 'Line',
+    lineId: 'Line',
+    category: 'Category',
+    description: 'Description',
+    materials: 'Materials',
+    images: 'Images',
+    videos: 'Videos',
+    metadata: 'Details',
+    retailPriceBrl: 'Retail price (BRL)',
+    retailPriceUsd: 'Retail price (USD)',
+    retailPriceEur: 'Retail price (EUR)',
+    releaseDate: 'Release date',
+    careInstructions: 'Care instructions',
+    officialItemLink: 'Official link',
+};
+
+export interface SKUChangelogEntry {
+    version: number;
+    changedAt: Date;
+    rollback: boolean;
+    changes: Array<{ field: SKUVersionedField; label: string; from?: any; to?: any }>;
+}
+
+/**
+ * SKU version history: who may edit a brand's SKUs, rollback to an earlier
+ * version and the public changelog shown to collectors
+ */
+export class SKUVersionService {
+    /**
+     * The change actor for a user editing a brand's SKUs, or null when they
+     * may not: admins, the brand owner and team members with an editor role
+     */
+    static async resolveEditor(brandId: string, user: { userId: string; roles?: string[] }): Promise<SKUChangeActor | null> {
+        const [brand, memberships] = await Promise.all([
+            BrandAccountModel.findById(brandId),
+            BrandTeamModel.getUserBrands(user.userId),
+        ]);
+        const membership = memberships.find(m => m.brandId === brandId);
+        const teamRoles: string[] = Array.isArray(membership?.roles) ? membership!.roles : [];
+
+        const isAdmin = !!user.roles?.includes('admin');
+        const isOwner = !!brand && brand.userId === user.userId;
+        const isEditor = teamRoles.some(role => SKU_EDITOR_ROLES.includes(role as BrandRole));
+        if (!isAdmin && !isOwner && !isEditor) {
+            return null;
+        }
+
+        return { userId: user.userId, teamRoles, teamTitle: membership?.title || null };
+    }
+
+    static async getHistory(skuId: string, limit = 50, offset = 0): Promise<{ versions: SKUVersion[]; total: number }> {
+        return SKUVersionModel.findBySku(skuId, limit, offset);
+    }
+
+    static async getVersion(skuId: string, version: number): Promise<SKUVersion | null> {
+        this.assertVersion(version);
+        return SKUVersionModel.findVersion(skuId, version);
+    }
+
+    /**
+     * Restore the SKU to the values it had at `version`. The rollback is itself
+     * recorded as a new version, so it can be undone the same way.
+     */
+    static async rollback(skuId: string, version: number, actor: SKUChangeActor) {
+        this.assertVersion(version);
+        const target = await SKUVersionModel.findVersion(skuId, version);
+        if (!target) {
+            return null;
+        }
+
+        const current = await SKUItemModel.findById(skuId);
+        if (!current) {
+            return null;
+        }
+        if (SKUVersionModel.diff(SKUVersionModel.snapshot(current), target.snapshot).length === 0) {
+            throw new Error(`Invalid rollback: the SKU already matches version ${version}`);
+        }
+
+        return SKUItemModel.update(skuId, this.toUpdate(target.snapshot), actor, { changeType: 'rollback', rolledBackTo: version });
+    }
+
+    /**
+     * Public changelog: when the SKU changed and which fields, without who
+     * made the change or internal values
+     */
+    static async getChangelog(skuId: string, limit = 20): Promise<{ lastUpdatedAt: Date; entries: SKUChangelogEntry[] } | null> {
+        const sku = await SKUItemModel.findById(skuId);
+        if (!sku) {
+            return null;
+        }
+
+        const { versions } = await SKUVersionModel.findBySku(skuId, limit);
+        const entries = versions
+            .filter(version => version.changeType !== 'baseline')
+            .map(version => ({
+                version: version.version,
+                changedAt: version.createdAt,
+                rollback: version.changeType === 'rollback',
+                changes: version.changes
+                    // lineId and line change together; show the name only
+                    .filter(change => change.field !== 'lineId')
+                    .map(change => ({
+                        field: change.field,
+                        label: FIELD_LABELS[change.field],
+                        ...(PUBLIC_VALUE_FIELDS.includes(change.field) ? { from: change.from, to: change.to } : {}),
+                    })),
+            }))
+            .filter(entry => entry.changes.length > 0);
+
+        return { lastUpdatedAt: sku.updatedAt, entries };
+    }
+
+    private static assertVersion(version: number): void {
+        if (!Number.isInteger(version) || version < 1) {
+            throw new Error('Invalid version: must be a positive integer');
+        }
+    }
+
+    private static toUpdate(snapshot: SKUSnapshot): UpdateSKUItemData {
+        return {
+            name: snapshot.name,
+            code: snapshot.code,
+            collection: snapshot.collection,
+            line: snapshot.line,
+            lineId: snapshot.lineId,
+            category: snapshot.category ?? {},
+            description: snapshot.description,
+            materials: snapshot.materials,
+            images: snapshot.images ?? [],
+            videos: snapshot.videos ?? [],
+            metadata: snapshot.metadata ?? {},
+            retailPriceBrl: snapshot.retailPriceBrl,
+            retailPriceUsd: snapshot.retailPriceUsd,
+            retailPriceEur: snapshot.retailPriceEur,
+            releaseDate: snapshot.releaseDate ?? null,
+            careInstructions: snapshot.careInstructions,
+            officialItemLink: snapshot.officialItemLink,
+        };
+    }
+}
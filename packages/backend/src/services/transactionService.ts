@@ -1,7 +1,10 @@
 import { db } from '../database/connection';
 import { MarketplaceModel } from '../models/Marketplace';
 import { VUFSCatalogModel } from '../models/VUFSCatalog';
-import { PaymentService, PaymentRequest } from './paymentService';
+import { PaymentService, PaymentRequest, PaymentStatus } from './paymentService';
+import { EscrowLedgerService } from './escrowLedgerService';
+import { ConsignmentService } from './consignmentService';
+import { InventoryStockService } from './inventoryStockService';
 import { 
   Transaction, 
   TransactionStatus, 
@@ -14,6 +17,9 @@ export interface CreateTransactionRequest {
   shippingAddress: any;
   paymentMethod: any;
   notes?: string;
+  /** Price agreed through an accepted offer, replacing the listing price */
+  agreedPrice?: number;
+  offerId?: string;
 }
 
 export interface TransactionUpdate {
@@ -24,6 +30,12 @@ export interface TransactionUpdate {
   notes?: string;
 }
 
+export interface PaymentStatusUpdate {
+  source: 'charge' | 'webhook' | 'reconciliation';
+  reference?: string;
+  failureReason?: string;
+}
+
 export class TransactionService {
   private paymentService: PaymentService;
 
@@ -54,31 +66,47 @@ export class TransactionService {
     }
 
     // Calculate fees
-    const fees = this.paymentService.calculateFees(listing.price, data.paymentMethod.type);
+    const price = data.agreedPrice ?? listing.price;
+    const fees = this.paymentService.calculateFees(price, data.paymentMethod.type);
     const shippingFee = listing.shipping.domestic.cost || 0;
-    const totalAmount = listing.price + shippingFee;
+    const totalAmount = price + shippingFee;
+
+    // Hold the brand stock the listing sells from while the buyer pays
+    const reservation = await InventoryStockService.reserveForListing(listing, data.buyerId);
 
     // Create transaction record
-    const transaction = await MarketplaceModel.createTransaction({
-      listingId: data.listingId,
-      buyerId: data.buyerId,
-      sellerId: listing.sellerId,
-      amount: totalAmount,
-      fees: {
-        platformFee: fees.platformFee,
-        paymentFee: fees.paymentFee,
-        shippingFee,
-      },
-      shippingAddress: data.shippingAddress,
-      paymentMethod: data.paymentMethod.type,
-    });
+    let transaction: Transaction;
+    try {
+      transaction = await MarketplaceModel.createTransaction({
+        listingId: data.listingId,
+        buyerId: data.buyerId,
+        sellerId: listing.sellerId,
+        amount: totalAmount,
+        fees: {
+          platformFee: fees.platformFee,
+          paymentFee: fees.paymentFee,
+          shippingFee,
+        },
+        shippingAddress: data.shippingAddress,
+        paymentMethod: data.paymentMethod.type,
+      });
+    } catch (error) {
+      if (reservation) {
+        await InventoryStockService.releaseReservation(reservation.id);
+      }
+      throw error;
+    }
+
+    if (reservation) {
+      await InventoryStockService.attachReservation(reservation.id, transaction.id);
+    }
 
     // Add initial event
     await this.addTransactionEvent(transaction.id, {
       type: 'transaction_created',
       description: 'Transaction created and awaiting payment',
       timestamp: new Date(),
-      metadata: { notes: data.notes },
+      metadata: { notes: data.notes, offerId: data.offerId, agreedPrice: data.agreedPrice },
     });
 
     // Reserve the listing
@@ -152,15 +180,35 @@ export class TransactionService {
     };
 
     // Process payment
-    const paymentResult = await this.paymentService.processPayment(
-      transaction.paymentMethod === 'pix' ? 'pix' : 'stripe',
-      paymentRequest
-    );
+    const providerName = PaymentService.resolveProviderName(transaction.paymentMethod);
+    const paymentResult = await this.paymentService.processPayment(providerName, paymentRequest);
+
+    if (paymentResult.success && paymentResult.status !== 'completed') {
+      // Asynchronous methods (PIX, bank transfer) settle later through a provider webhook
+      await this.updateTransactionPayment(transactionId, {
+        paymentId: paymentResult.paymentId,
+        paymentProvider: providerName,
+        status: 'pending_payment',
+      });
+
+      await this.addTransactionEvent(transactionId, {
+        type: 'payment_pending',
+        description: 'Payment submitted and awaiting provider confirmation',
+        timestamp: new Date(),
+        metadata: { paymentId: paymentResult.paymentId, provider: providerName },
+      });
+
+      return {
+        success: true,
+        paymentId: paymentResult.paymentId,
+      };
+    }
 
     if (paymentResult.success) {
       // Update transaction with payment info
       await this.updateTransactionPayment(transactionId, {
         paymentId: paymentResult.paymentId,
+        paymentProvider: providerName,
         status: 'payment_confirmed',
       });
 
@@ -171,6 +219,10 @@ export class TransactionService {
         metadata: { paymentId: paymentResult.paymentId },
       });
 
+      // Hold the buyer's funds until delivery
+      await EscrowLedgerService.holdFunds(transaction);
+      await this.syncStock(transaction, 'paid');
+
       // Notify seller
       await this.notifySeller(transaction.sellerId, transaction);
 
@@ -188,6 +240,7 @@ export class TransactionService {
 
       // Release listing reservation
       await MarketplaceModel.updateStatus(transaction.listingId, 'active');
+      await this.syncStock(transaction, 'released', 'Payment failed');
 
       return {
         success: false,
@@ -257,13 +310,29 @@ export class TransactionService {
       });
 
       // Handle specific status changes
-      if (update.status === 'shipped' && update.trackingNumber) {
-        await this.notifyBuyer(transaction.buyerId, transaction, 'shipped');
+      if (update.status === 'shipped') {
+        await EscrowLedgerService.startDisputeWindow(transactionId);
+
+        if (update.trackingNumber) {
+          await this.notifyBuyer(transaction.buyerId, transaction, 'shipped');
+        }
       }
 
       if (update.status === 'delivered') {
         await this.handleDeliveryConfirmation(transaction);
       }
+
+      if (update.status === 'payment_confirmed') {
+        await this.syncStock(transaction, 'paid');
+      }
+
+      if (update.status === 'completed') {
+        await this.syncStock(transaction, 'sold');
+      }
+
+      if (update.status === 'cancelled' || update.status === 'refunded') {
+        await this.syncStock(transaction, 'released', `Transaction ${update.status}`);
+      }
     }
 
     return transaction;
@@ -283,6 +352,86 @@ export class TransactionService {
     return this.mapToTransaction(result.rows[0]);
   }
 
+  /**
+   * Get transaction by provider payment ID
+   */
+  async getTransactionByPaymentId(paymentProvider: string, paymentId: string): Promise<Transaction | null> {
+    const query = 'SELECT * FROM marketplace_transactions WHERE payment_provider = $1 AND payment_id = $2';
+    const result = await db.query(query, [paymentProvider, paymentId]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapToTransaction(result.rows[0]);
+  }
+
+  /**
+   * Apply a payment status reported by the provider to the transaction.
+   * Only moves transactions forward; stale or repeated statuses are ignored.
+   */
+  async applyPaymentStatus(
+    transactionId: string,
+    paymentStatus: PaymentStatus['status'],
+    update: PaymentStatusUpdate
+  ): Promise<{ previousStatus: TransactionStatus; status: TransactionStatus; changed: boolean }> {
+    const transaction = await this.getTransactionById(transactionId);
+    if (!transaction) {
+      throw new Error('Transaction not found');
+    }
+
+    const previousStatus = transaction.status;
+    const metadata = { source: update.source, reference: update.reference, paymentId: transaction.paymentId };
+
+    switch (paymentStatus) {
+      case 'completed':
+        if (previousStatus !== 'pending_payment') break;
+
+        await this.updateTransaction(transactionId, { status: 'payment_confirmed' });
+        await this.addTransactionEvent(transactionId, {
+          type: 'payment_confirmed',
+          description: 'Payment confirmed by provider',
+          timestamp: new Date(),
+          metadata,
+        });
+        await EscrowLedgerService.holdFunds(transaction);
+        await this.notifySeller(transaction.sellerId, transaction);
+        return { previousStatus, status: 'payment_confirmed', changed: true };
+
+      case 'failed':
+      case 'cancelled':
+        if (previousStatus !== 'pending_payment') break;
+
+        await this.updateTransaction(transactionId, { status: 'cancelled' });
+        await MarketplaceModel.updateStatus(transaction.listingId, 'active');
+        await this.addTransactionEvent(transactionId, {
+          type: 'payment_failed',
+          description: `Payment ${paymentStatus} at provider`,
+          timestamp: new Date(),
+          metadata: { ...metadata, error: update.failureReason },
+        });
+        return { previousStatus, status: 'cancelled', changed: true };
+
+      case 'refunded':
+        if (['refunded', 'cancelled'].includes(previousStatus)) break;
+
+        await this.updateTransaction(transactionId, { status: 'refunded' });
+        await EscrowLedgerService.refundFunds(transactionId, 'Payment refunded at provider');
+        if (['pending_payment', 'payment_confirmed', 'processing'].includes(previousStatus)) {
+          await MarketplaceModel.updateStatus(transaction.listingId, 'active');
+        }
+        await this.addTransactionEvent(transactionId, {
+          type: 'payment_refunded',
+          description: 'Payment refunded at provider',
+          timestamp: new Date(),
+          metadata,
+        });
+        return { previousStatus, status: 'refunded', changed: true };
+    }
+
+    return { previousStatus, status: previousStatus, changed: false };
+  }
+
   /**
    * Get transactions for user
    */
@@ -341,14 +490,16 @@ export class TransactionService {
     // Process refund if payment was made
     if (transaction.paymentId && transaction.status !== 'pending_payment') {
       const refundResult = await this.paymentService.refundPayment(
-        transaction.paymentMethod === 'pix' ? 'pix' : 'stripe',
-        transaction.id,
+        transaction.paymentProvider || PaymentService.resolveProviderName(transaction.paymentMethod),
+        transaction.paymentId,
         transaction.amount
       );
 
       if (!refundResult.success) {
         throw new Error('Failed to process refund');
       }
+
+      await EscrowLedgerService.refundFunds(transactionId, reason);
     }
 
     // Update transaction status
@@ -389,6 +540,101 @@ export class TransactionService {
     });
   }
 
+  /**
+   * Open a dispute, freezing escrow until an admin resolves it
+   */
+  async openDispute(transactionId: string, buyerId: string, reason: string): Promise<void> {
+    const transaction = await this.getTransactionById(transactionId);
+    if (!transaction) {
+      throw new Error('Transaction not found');
+    }
+
+    if (transaction.buyerId !== buyerId) {
+      throw new Error('Only the buyer can open a dispute');
+    }
+
+    if (!['payment_confirmed', 'processing', 'shipped', 'delivered'].includes(transaction.status)) {
+      throw new Error('Transaction cannot be disputed in current status');
+    }
+
+    await EscrowLedgerService.openDispute(transactionId, reason);
+    await this.updateTransaction(transactionId, { status: 'disputed' });
+
+    await this.addTransactionEvent(transactionId, {
+      type: 'dispute_opened',
+      description: `Dispute opened: ${reason}`,
+      timestamp: new Date(),
+      metadata: { reason },
+    });
+  }
+
+  /**
+   * Resolve a dispute in favour of the seller (release) or the buyer (refund)
+   */
+  async resolveDispute(transactionId: string, resolution: 'release' | 'refund', note?: string): Promise<void> {
+    const transaction = await this.getTransactionById(transactionId);
+    if (!transaction) {
+      throw new Error('Transaction not found');
+    }
+
+    if (transaction.status !== 'disputed') {
+      throw new Error('Transaction is not disputed');
+    }
+
+    await this.addTransactionEvent(transactionId, {
+      type: 'dispute_resolved',
+      description: `Dispute resolved: ${resolution}`,
+      timestamp: new Date(),
+      metadata: { resolution, note },
+    });
+
+    if (resolution === 'release') {
+      await this.completeSale(transaction, 'dispute_resolved');
+      return;
+    }
+
+    if (transaction.paymentId) {
+      const refundResult = await this.paymentService.refundPayment(
+        transaction.paymentProvider || PaymentService.resolveProviderName(transaction.paymentMethod),
+        transaction.paymentId,
+        transaction.amount
+      );
+
+      if (!refundResult.success) {
+        throw new Error('Failed to process refund');
+      }
+    }
+
+    await EscrowLedgerService.refundFunds(transactionId, note || 'Dispute resolved in favour of buyer');
+    await this.updateTransaction(transactionId, { status: 'refunded' });
+    await MarketplaceModel.updateStatus(transaction.listingId, 'active');
+  }
+
+  /**
+   * Complete sales whose dispute window closed without the buyer confirming delivery.
+   */
+  async releaseMaturedEscrows(): Promise<number> {
+    const transactionIds = await EscrowLedgerService.getMaturedEscrowTransactionIds();
+    let released = 0;
+
+    for (const transactionId of transactionIds) {
+      try {
+        const transaction = await this.getTransactionById(transactionId);
+        if (!transaction || !['shipped', 'delivered'].includes(transaction.status)) {
+          continue;
+        }
+
+        await this.completeSale(transaction, 'dispute_window_closed');
+        released++;
+      } catch (error) {
+        console.error(`[TransactionService] Failed to release escrow for ${transactionId}:`, error);
+      }
+    }
+
+    console.log(`[TransactionService] Released ${released} matured escrows.`);
+    return released;
+  }
+
   /**
    * Add transaction event
    */
@@ -412,36 +658,88 @@ export class TransactionService {
    */
   private async updateTransactionPayment(transactionId: string, paymentInfo: {
     paymentId: string;
+    paymentProvider: string;
     status: TransactionStatus;
   }): Promise<void> {
     const query = `
       UPDATE marketplace_transactions 
-      SET payment_id = $1, status = $2, updated_at = NOW()
-      WHERE id = $3
+      SET payment_id = $1, payment_provider = $2, status = $3, updated_at = NOW()
+      WHERE id = $4
     `;
 
-    await db.query(query, [paymentInfo.paymentId, paymentInfo.status, transactionId]);
+    await db.query(query, [paymentInfo.paymentId, paymentInfo.paymentProvider, paymentInfo.status, transactionId]);
   }
 
   /**
    * Handle delivery confirmation
    */
   private async handleDeliveryConfirmation(transaction: Transaction): Promise<void> {
+    await this.completeSale(transaction, 'delivery_confirmed');
+  }
+
+  /**
+   * Mark the listing sold, release escrow to the seller's balance and complete the transaction
+   */
+  private async completeSale(
+    transaction: Transaction,
+    reason: 'delivery_confirmed' | 'dispute_window_closed' | 'dispute_resolved'
+  ): Promise<void> {
     // Update listing status to sold
     await MarketplaceModel.updateStatus(transaction.listingId, 'sold');
 
-    // Release funds to seller (in production, this would trigger payout)
+    // Release funds to the seller's balance (paid out on request)
+    const escrow = await EscrowLedgerService.releaseFunds(transaction.id, reason);
     await this.addTransactionEvent(transaction.id, {
       type: 'funds_released',
-      description: 'Funds released to seller after delivery confirmation',
+      description: reason === 'delivery_confirmed'
+        ? 'Funds released to seller after delivery confirmation'
+        : reason === 'dispute_window_closed'
+          ? 'Funds released to seller after the dispute window closed'
+          : 'Funds released to seller after dispute resolution',
       timestamp: new Date(),
-      metadata: { netAmount: transaction.netAmount },
+      metadata: { netAmount: escrow ? escrow.sellerNet : transaction.netAmount, reason },
     });
 
+    // Credit the consignor when the seller was selling a consigned item
+    try {
+      await ConsignmentService.recordMarketplaceSale(transaction, {
+        platformFee: escrow ? escrow.platformFee : transaction.fees.platformFee,
+        paymentFee: escrow ? escrow.paymentFee : transaction.fees.paymentFee,
+      });
+    } catch (error) {
+      console.error(`[TransactionService] Failed to record consignment sale for ${transaction.id}:`, error);
+    }
+
     // Mark transaction as completed
     await this.updateTransaction(transaction.id, { status: 'completed' });
   }
 
+  /**
+   * Keep the brand stock a listing sells from in step with the transaction:
+   * held once paid, moved out on completion and returned when the sale falls through
+   */
+  private async syncStock(transaction: Transaction, event: 'paid' | 'sold' | 'released', reason?: string): Promise<void> {
+    try {
+      if (event === 'released') {
+        await InventoryStockService.releaseForTransaction(transaction.id, reason || 'Sale cancelled');
+        return;
+      }
+
+      const listing = await MarketplaceModel.findById(transaction.listingId);
+      if (!listing?.stockSkuItemId) {
+        return;
+      }
+
+      if (event === 'paid') {
+        await InventoryStockService.holdForTransaction(transaction, listing);
+      } else {
+        await InventoryStockService.commitForTransaction(transaction, listing);
+      }
+    } catch (error) {
+      console.error(`[TransactionService] Failed to sync stock for ${transaction.id}:`, error);
+    }
+  }
+
   /**
    * Notify seller of new purchase
    */
@@ -479,6 +777,7 @@ export class TransactionService {
       status: row.status,
       paymentMethod: row.payment_method,
       paymentId: row.payment_id,
+      paymentProvider: row.payment_provider || undefined,
       shipping: {
         address: shippingAddress,
         method: row.shipping_method || 'standard',
@@ -0,0 +1,202 @@
+import { ItemTrackingModel } from '../models/ItemTracking';
+
+export type WearSeason = 'summer' | 'autumn' | 'winter' | 'spring';
+
+export interface WearItemData {
+  itemId: string;
+  name: string;
+  brand?: string;
+  category: string;
+  color?: string;
+  condition?: string;
+  imageUrl?: string;
+  purchasePrice?: number;
+  currentValue?: number;
+  acquiredAt: Date;
+  wearCount: number;
+  lastWornAt?: Date;
+  wearsByMonth: Record<number, number>;
+  listed: boolean;
+}
+
+export interface ItemWearSummary {
+  itemId: string;
+  name: string;
+  brand?: string;
+  category: string;
+  color?: string;
+  imageUrl?: string;
+  purchasePrice?: number;
+  wearCount: number;
+  costPerWear?: number;
+  lastWornAt?: Date;
+  daysSinceWorn: number;
+}
+
+export interface WearBreakdown {
+  key: string;
+  wearCount: number;
+  itemCount: number;
+  percentage: number;
+}
+
+export interface DormantItemSuggestion extends ItemWearSummary {
+  action: 'sell' | 'donate';
+  reason: string;
+  estimatedValue?: number;
+}
+
+export interface WearAnalytics {
+  dormantDays: number;
+  summary: {
+    totalItems: number;
+    totalWears: number;
+    totalSpent: number;
+    averageCostPerWear?: number;
+    dormantItems: number;
+    neverWornItems: number;
+  };
+  costPerWear: ItemWearSummary[];
+  dormant: ItemWearSummary[];
+  byCategory: WearBreakdown[];
+  byColor: WearBreakdown[];
+  bySeason: Record<WearSeason, number>;
+  suggestions: DormantItemSuggestion[];
+}
+
+export const DEFAULT_DORMANT_DAYS = 90;
+
+/** Below this estimated value an item is suggested for donation rather than resale */
+const MIN_RESALE_VALUE = 50;
+const RESALEABLE_CONDITIONS = ['new', 'excellent', 'good'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class WearAnalyticsService {
+  /**
+   * Season for a month (1-12). Seasons follow the southern hemisphere, where
+   * the platform's users are.
+   */
+  static seasonForMonth(month: number): WearSeason {
+    if (month === 12 || month <= 2) return 'summer';
+    if (month <= 5) return 'autumn';
+    if (month <= 8) return 'winter';
+    return 'spring';
+  }
+
+  static costPerWear(purchasePrice: number | undefined, wearCount: number): number | undefined {
+    if (purchasePrice === undefined || purchasePrice <= 0) {
+      return undefined;
+    }
+    return Math.round((purchasePrice / Math.max(1, wearCount)) * 100) / 100;
+  }
+
+  /**
+   * Sell items in resaleable condition that are still worth listing; donate the rest
+   */
+  static suggestAction(item: Pick<WearItemData, 'condition' | 'purchasePrice' | 'currentValue'>): {
+    action: 'sell' | 'donate';
+    reason: string;
+    estimatedValue?: number;
+  } {
+    const condition = (item.condition || '').toLowerCase();
+    const resaleable = RESALEABLE_CONDITIONS.some(value => condition.startsWith(value));
+    const estimatedValue = item.currentValue ?? (item.purchasePrice !== undefined ? item.purchasePrice * 0.4 : undefined);
+
+    if (!resaleable && condition) {
+      return { action: 'donate', reason: `Condition "${item.condition}" is hard to resell`, estimatedValue };
+    }
+    if (estimatedValue === undefined || estimatedValue < MIN_RESALE_VALUE) {
+      return { action: 'donate', reason: 'Estimated resale value is too low to list', estimatedValue };
+    }
+    return {
+      action: 'sell',
+      reason: `Could be worth about R$ ${estimatedValue.toFixed(2)} on the marketplace`,
+      estimatedValue: Math.round(estimatedValue * 100) / 100,
+    };
+  }
+
+  static buildAnalytics(items: WearItemData[], dormantDays: number = DEFAULT_DORMANT_DAYS, now: Date = new Date()): WearAnalytics {
+    const summaries: ItemWearSummary[] = items.map(item => {
+      const reference = item.lastWornAt || item.acquiredAt;
+      return {
+        itemId: item.itemId,
+        name: item.name,
+        brand: item.brand,
+        category: item.category,
+        color: item.color,
+        imageUrl: item.imageUrl,
+        purchasePrice: item.purchasePrice,
+        wearCount: item.wearCount,
+        costPerWear: this.costPerWear(item.purchasePrice, item.wearCount),
+        lastWornAt: item.lastWornAt,
+        daysSinceWorn: Math.max(0, Math.floor((now.getTime() - reference.getTime()) / DAY_MS)),
+      };
+    });
+
+    const totalWears = items.reduce((sum, item) => sum + item.wearCount, 0);
+    const priced = items.filter(item => item.purchasePrice !== undefined && item.purchasePrice > 0);
+    const totalSpent = priced.reduce((sum, item) => sum + item.purchasePrice!, 0);
+    const pricedWears = priced.reduce((sum, item) => sum + item.wearCount, 0);
+
+    const dormant = summaries
+      .filter(summary => summary.daysSinceWorn >= dormantDays)
+      .sort((a, b) => b.daysSinceWorn - a.daysSinceWorn);
+
+    const bySeason: Record<WearSeason, number> = { summer: 0, autumn: 0, winter: 0, spring: 0 };
+    for (const item of items) {
+      for (const [month, wears] of Object.entries(item.wearsByMonth)) {
+        bySeason[this.seasonForMonth(Number(month))] += wears;
+      }
+    }
+
+    const byId = new Map(items.map(item => [item.itemId, item]));
+    const suggestions: DormantItemSuggestion[] = dormant
+      .filter(summary => !byId.get(summary.itemId)!.listed)
+      .map(summary => ({ ...summary, ...this.suggestAction(byId.get(summary.itemId)!) }));
+
+    return {
+      dormantDays,
+      summary: {
+        totalItems: items.length,
+        totalWears,
+        totalSpent: Math.round(totalSpent * 100) / 100,
+        averageCostPerWear: priced.length > 0 ? Math.round((totalSpent / Math.max(1, pricedWears)) * 100) / 100 : undefined,
+        dormantItems: dormant.length,
+        neverWornItems: items.filter(item => item.wearCount === 0).length,
+      },
+      costPerWear: summaries
+        .filter(summary => summary.costPerWear !== undefined)
+        .sort((a, b) => b.costPerWear! - a.costPerWear!),
+      dormant,
+      byCategory: this.breakdown(items, item => item.category, totalWears),
+      byColor: this.breakdown(items, item => item.color || 'Unknown', totalWears),
+      bySeason,
+      suggestions,
+    };
+  }
+
+  static async getUserWearAnalytics(userId: string, dormantDays: number = DEFAULT_DORMANT_DAYS): Promise<WearAnalytics> {
+    const items = await ItemTrackingModel.getUserWearData(userId);
+    return this.buildAnalytics(items, dormantDays);
+  }
+
+  private static breakdown(items: WearItemData[], keyOf: (item: WearItemData) => string, totalWears: number): WearBreakdown[] {
+    const groups = new Map<string, { wearCount: number; itemCount: number }>();
+    for (const item of items) {
+      const key = keyOf(item);
+      const group = groups.get(key) || { wearCount: 0, itemCount: 0 };
+      group.wearCount += item.wearCount;
+      group.itemCount += 1;
+      groups.set(key, group);
+    }
+
+    return Array.from(groups.entries())
+      .map(([key, group]) => ({
+        key,
+        ...group,
+        percentage: totalWears > 0 ? Math.round((group.wearCount / totalWears) * 1000) / 10 : 0,
+      }))
+      .sort((a, b) => b.wearCount - a.wearCount || b.itemCount - a.itemCount);
+  }
+}
@@ -153,6 +153,8 @@ export interface MarketplaceListing {
   createdAt: Date;
   updatedAt: Date;
   expiresAt?: Date;
+  stockSkuItemId?: string; // Brand SKU variant the listing sells from stock
+  stockStoreId?: string; // Brand store holding that stock
 }
 
 export type TransactionStatus =
@@ -199,6 +201,7 @@ export interface Transaction {
   status: TransactionStatus;
   paymentMethod: string;
   paymentId?: string;
+  paymentProvider?: string;
   shipping: {
     address: ShippingAddress;
     method: string;
@@ -0,0 +1,112 @@
+import sharp from 'sharp';
+
+/**
+ * BlurHash encoder (https://blurha.sh): a short string that clients decode into
+ * a blurred placeholder while the real image loads.
+ */
+
+const BASE83_DIGITS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz#$%*+,-.:;=?@[]^_{|}~';
+
+function encode83(value: number, length: number): string {
+  let result = '';
+  for (let i = 1; i <= length; i++) {
+    const digit = Math.floor(value / Math.pow(83, length - i)) % 83;
+    result += BASE83_DIGITS[digit];
+  }
+  return result;
+}
+
+function sRGBToLinear(value: number): number {
+  const v = value / 255;
+  return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+}
+
+function linearTosRGB(value: number): number {
+  const v = Math.max(0, Math.min(1, value));
+  return v <= 0.0031308
+    ? Math.trunc(v * 12.92 * 255 + 0.5)
+    : Math.trunc((1.055 * Math.pow(v, 1 / 2.4) - 0.055) * 255 + 0.5);
+}
+
+function signPow(value: number, exponent: number): number {
+  return Math.sign(value) * Math.pow(Math.abs(value), exponent);
+}
+
+/**
+ * Encode RGBA pixels. Components trade detail for length: 4x3 gives a
+ * 28-character hash, enough for product photos on a plain background.
+ */
+export function encodeBlurhash(
+  pixels: ArrayLike<number>,
+  width: number,
+  height: number,
+  componentsX: number = 4,
+  componentsY: number = 3
+): string {
+  if (componentsX < 1 || componentsX > 9 || componentsY < 1 || componentsY > 9) {
+    throw new Error('Invalid blurhash components: must be between 1 and 9');
+  }
+  if (pixels.length !== width * height * 4) {
+    throw new Error('Invalid pixel data: expected RGBA');
+  }
+
+  const factors: Array<[number, number, number]> = [];
+  for (let y = 0; y < componentsY; y++) {
+    for (let x = 0; x < componentsX; x++) {
+      const normalisation = x === 0 && y === 0 ? 1 : 2;
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      for (let j = 0; j < height; j++) {
+        for (let i = 0; i < width; i++) {
+          const basis = normalisation * Math.cos((Math.PI * x * i) / width) * Math.cos((Math.PI * y * j) / height);
+          const offset = 4 * (i + j * width);
+          r += basis * sRGBToLinear(pixels[offset]);
+          g += basis * sRGBToLinear(pixels[offset + 1]);
+          b += basis * sRGBToLinear(pixels[offset + 2]);
+        }
+      }
+      const scale = 1 / (width * height);
+      factors.push([r * scale, g * scale, b * scale]);
+    }
+  }
+
+  const [dc, ...ac] = factors;
+  let hash = encode83(componentsX - 1 + (componentsY - 1) * 9, 1);
+
+  let maximumValue = 1;
+  if (ac.length > 0) {
+    const actualMaximum = Math.max(...ac.map(factor => Math.max(...factor.map(Math.abs))));
+    const quantisedMaximum = Math.max(0, Math.min(82, Math.floor(actualMaximum * 166 - 0.5)));
+    maximumValue = (quantisedMaximum + 1) / 166;
+    hash += encode83(quantisedMaximum, 1);
+  } else {
+    hash += encode83(0, 1);
+  }
+
+  hash += encode83((linearTosRGB(dc[0]) << 16) + (linearTosRGB(dc[1]) << 8) + linearTosRGB(dc[2]), 4);
+
+  for (const factor of ac) {
+    const [r, g, b] = factor.map(value =>
+      Math.max(0, Math.min(18, Math.floor(signPow(value / maximumValue, 0.5) * 9 + 9.5)))
+    );
+    hash += encode83(r * 19 * 19 + g * 19 + b, 2);
+  }
+
+  return hash;
+}
+
+/**
+ * Blurhash for an encoded image; it is computed from a 32px thumbnail since
+ * the hash keeps only the lowest frequencies anyway
+ */
+export async function blurhashFromImage(image: Buffer): Promise<string> {
+  const { data, info } = await sharp(image)
+    .rotate()
+    .resize(32, 32, { fit: 'inside' })
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  return encodeBlurhash(data, info.width, info.height);
+}
@@ -0,0 +1,127 @@
+import { jsPDF } from 'jspdf';
+import { ConsignmentStatement } from '../services/consignmentService';
+
+const CSV_HEADERS = [
+  'sku',
+  'title',
+  'sold_at',
+  'platform',
+  'sold_price',
+  'platform_fee',
+  'commission_rate',
+  'commission',
+  'amount_to_owner',
+];
+
+const formatDate = (value: Date | string): string => new Date(value).toISOString().split('T')[0];
+
+const formatMoney = (value: number): string => value.toFixed(2);
+
+const escapeCsv = (value: string): string =>
+  /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * Repass statement exports for consignors
+ */
+export class ConsignmentStatementExport {
+  static filename(statement: ConsignmentStatement, format: 'csv' | 'pdf'): string {
+    const period = formatDate(statement.periodStart).substring(0, 7);
+    const consignor = (statement.consignorName || statement.supplierId || statement.ownerUserId || 'consignor')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '_')
+      .replace(/^_|_$/g, '');
+
+    return `repass_statement_${consignor}_${period}.${format}`;
+  }
+
+  static toCSV(statement: ConsignmentStatement): string {
+    const rows = (statement.lines || []).map(line => [
+      line.itemSku,
+      line.title,
+      formatDate(line.soldAt),
+      line.salePlatform || '',
+      formatMoney(line.soldPrice),
+      formatMoney(line.platformFee),
+      line.commissionRate.toFixed(4),
+      formatMoney(line.commission),
+      formatMoney(line.amountToOwner),
+    ]);
+
+    rows.push([
+      'TOTAL',
+      `${statement.itemCount} items`,
+      '',
+      '',
+      formatMoney(statement.totalSales),
+      formatMoney(statement.totalPlatformFees),
+      '',
+      formatMoney(statement.totalCommission),
+      formatMoney(statement.amountToOwner),
+    ]);
+
+    return [CSV_HEADERS, ...rows]
+      .map(row => row.map(cell => escapeCsv(cell)).join(','))
+      .join('\n') + '\n';
+  }
+
+  static toPDF(statement: ConsignmentStatement): Buffer {
+    const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+    const columns = [
+      { label: 'SKU', x: 14 },
+      { label: 'Item', x: 50 },
+      { label: 'Sold', x: 104 },
+      { label: 'Price', x: 126 },
+      { label: 'Fees', x: 146 },
+      { label: 'Commission', x: 162 },
+      { label: 'To owner', x: 186 },
+    ];
+    let y = 20;
+
+    doc.setFontSize(16);
+    doc.text('Consignment repass statement', 14, y);
+    y += 8;
+
+    doc.setFontSize(10);
+    doc.text(`Consignor: ${statement.consignorName || statement.supplierId || statement.ownerUserId}`, 14, y);
+    y += 5;
+    doc.text(`Period: ${formatDate(statement.periodStart)} to ${formatDate(statement.periodEnd)}`, 14, y);
+    y += 5;
+    doc.text(`Status: ${statement.status}${statement.paidAt ? ` (${formatDate(statement.paidAt)})` : ''}`, 14, y);
+    y += 10;
+
+    doc.setFontSize(8);
+    columns.forEach(column => doc.text(column.label, column.x, y));
+    y += 2;
+    doc.line(14, y, 200, y);
+    y += 5;
+
+    for (const line of statement.lines || []) {
+      if (y > 280) {
+        doc.addPage();
+        y = 20;
+      }
+
+      const cells = [
+        line.itemSku.substring(0, 20),
+        line.title.substring(0, 30),
+        formatDate(line.soldAt),
+        formatMoney(line.soldPrice),
+        formatMoney(line.platformFee),
+        formatMoney(line.commission),
+        formatMoney(line.amountToOwner),
+      ];
+      cells.forEach((cell, index) => doc.text(cell, columns[index].x, y));
+      y += 5;
+    }
+
+    doc.line(14, y, 200, y);
+    y += 5;
+    doc.text(`${statement.itemCount} items`, columns[1].x, y);
+    doc.text(formatMoney(statement.totalSales), columns[3].x, y);
+    doc.text(formatMoney(statement.totalPlatformFees), columns[4].x, y);
+    doc.text(formatMoney(statement.totalCommission), columns[5].x, y);
+    doc.text(formatMoney(statement.amountToOwner), columns[6].x, y);
+
+    return Buffer.from(doc.output('arraybuffer'));
+  }
+}
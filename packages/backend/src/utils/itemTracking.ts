@@ -7,15 +7,33 @@ import { Material, Color } from '@vangarments/shared';
 export interface LoanRecord {
     id: string;
     itemId: string;
-    loaneeId: string;
+    loaneeId?: string; // Only set when the borrower has an account
     loaneeName: string;
     loanDate: Date;
     expectedReturnDate?: Date;
     actualReturnDate?: Date;
     status: 'active' | 'returned' | 'overdue';
+    confirmationStatus?: LoanConfirmationStatus;
+    confirmedAt?: Date;
     notes?: string;
 }
 
+export type LoanConfirmationStatus = 'not_required' | 'pending' | 'confirmed' | 'declined';
+
+export interface LoanConditionCheck {
+    id: string;
+    loanId: string;
+    itemId: string;
+    phase: 'check_out' | 'check_in';
+    conditionId?: string;
+    conditionName: string;
+    conditionRating: number;
+    photos: string[];
+    notes?: string;
+    recordedBy?: string;
+    createdAt: Date;
+}
+
 export interface WishlistItem {
     id: string;
     userId: string;
@@ -257,10 +275,6 @@ export class ItemTrackingUtils {
             errors.push('Item ID is required');
         }
 
-        if (!loan.loaneeId) {
-            errors.push('Loanee ID is required');
-        }
-
         if (!loan.loaneeName || loan.loaneeName.trim().length === 0) {
             errors.push('Loanee name is required');
         }
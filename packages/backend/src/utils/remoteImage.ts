@@ -0,0 +1,108 @@
+import { promises as dns } from 'dns';
+import { BlockList, isIP } from 'net';
+
+export interface RemoteImageOptions {
+    maxBytes: number;
+    timeoutMs: number;
+}
+
+export interface RemoteImageDownload {
+    buffer: Buffer;
+    mimetype: string;
+}
+
+// Loopback, private, link-local (cloud metadata), CGNAT, multicast and reserved ranges
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+    ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+    ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+] as const) {
+    BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+    ['::', 127], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8], ['64:ff9b::', 96],
+] as const) {
+    BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Downloads images from URLs that users or imports supply. Only our own bucket
+ * and the hosts listed in REMOTE_IMAGE_HOSTS are fetched, never hosts that
+ * resolve to internal addresses, and bodies are read up to a byte cap.
+ */
+export class RemoteImage {
+    /**
+     * Our bucket plus REMOTE_IMAGE_HOSTS, a comma-separated list of host names
+     * where `*.example.com` also matches subdomains
+     */
+    static isAllowedUrl(url: URL): boolean {
+        const bucketPrefix = `https://storage.googleapis.com/${process.env.GCS_BUCKET_NAME || 'vangarments-storage'}/`;
+        if (url.href.startsWith(bucketPrefix)) {
+            return true;
+        }
+
+        const hostname = url.hostname.toLowerCase();
+        return (process.env.REMOTE_IMAGE_HOSTS || '')
+            .split(',')
+            .map(entry => entry.trim().toLowerCase())
+            .filter(Boolean)
+            .some(entry => entry.startsWith('*.')
+                ? hostname.endsWith(entry.slice(1))
+                : hostname === entry);
+    }
+
+    /**
+     * IPv4-mapped IPv6 addresses are checked against the IPv4 ranges
+     */
+    static isBlockedAddress(address: string): boolean {
+        return BLOCKED_ADDRESSES.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+    }
+
+    static async fetch(location: string, { maxBytes, timeoutMs }: RemoteImageOptions): Promise<RemoteImageDownload> {
+        const url = new URL(location);
+        if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+            throw new Error(`Unsupported image location: ${location}`);
+        }
+        if (!this.isAllowedUrl(url)) {
+            throw new Error(`Image host is not allowed: ${url.hostname}`);
+        }
+
+        const hostname = url.hostname.replace(/^\[(.*)\]$/, '$1');
+        const addresses = await dns.lookup(hostname, { all: true });
+        if (addresses.some(({ address }) => this.isBlockedAddress(address))) {
+            throw new Error(`Image host resolves to an internal address: ${url.hostname}`);
+        }
+
+        // Redirects would skip the host checks above
+        const response = await fetch(url, { redirect: 'error', signal: AbortSignal.timeout(timeoutMs) });
+        if (!response.ok) {
+            throw new Error(`Image download failed with status ${response.status}`);
+        }
+        const mimetype = response.headers.get('content-type')?.split(';')[0].trim() || '';
+        if (!mimetype.startsWith('image/')) {
+            throw new Error(`Not an image (${mimetype || 'unknown type'})`);
+        }
+        if (Number(response.headers.get('content-length')) > maxBytes) {
+            throw new Error('Image is too large');
+        }
+        if (!response.body) {
+            throw new Error('Image download returned no body');
+        }
+
+        const chunks: Uint8Array[] = [];
+        let size = 0;
+        const reader = response.body.getReader();
+        for (;;) {
+            const { done, value } = await reader.read();
+            if (done) break;
+
+            size += value.length;
+            if (size > maxBytes) {
+                await reader.cancel();
+                throw new Error('Image is too large');
+            }
+            chunks.push(value);
+        }
+        return { buffer: Buffer.concat(chunks), mimetype };
+    }
+}
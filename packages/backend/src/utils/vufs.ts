@@ -18,7 +18,7 @@ import {
   BrandHierarchy
 } from '@vangarments/shared/types/vufs';
 // Mock constants for now - these would normally come from shared/constants
-const DEFAULT_CONSIGNMENT_SETTINGS: ConsignmentSettings = {
+export const DEFAULT_CONSIGNMENT_SETTINGS: ConsignmentSettings = {
   defaultCommissionRate: 0.30,
   platformFeeRates: {
     nuvem_shop: 0.05,
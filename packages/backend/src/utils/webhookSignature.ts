@@ -0,0 +1,56 @@
+import crypto from 'crypto';
+
+/**
+ * HMAC signing helpers for inbound provider webhooks.
+ *
+ * Header format: `t=<unix seconds>,v1=<hex hmac-sha256 of "<t>.<raw body>">`
+ */
+export class WebhookSignature {
+  static readonly DEFAULT_TOLERANCE_SECONDS = 300;
+
+  static sign(secret: string, payload: string, timestamp: number = Math.floor(Date.now() / 1000)): string {
+    const digest = this.computeDigest(secret, payload, timestamp);
+    return `t=${timestamp},v1=${digest}`;
+  }
+
+  static verify(
+    secret: string,
+    payload: string,
+    header: string | undefined,
+    toleranceSeconds: number = WebhookSignature.DEFAULT_TOLERANCE_SECONDS,
+    now: number = Math.floor(Date.now() / 1000)
+  ): boolean {
+    if (!header) {
+      return false;
+    }
+
+    const parts = header.split(',').reduce<Record<string, string>>((acc, part) => {
+      const [key, value] = part.split('=');
+      if (key && value) {
+        acc[key.trim()] = value.trim();
+      }
+      return acc;
+    }, {});
+
+    const timestamp = parseInt(parts.t, 10);
+    if (!parts.v1 || isNaN(timestamp)) {
+      return false;
+    }
+
+    if (Math.abs(now - timestamp) > toleranceSeconds) {
+      return false;
+    }
+
+    const expected = new Uint8Array(Buffer.from(this.computeDigest(secret, payload, timestamp), 'hex'));
+    const received = new Uint8Array(Buffer.from(parts.v1, 'hex'));
+
+    return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+  }
+
+  private static computeDigest(secret: string, payload: string, timestamp: number): string {
+    return crypto
+      .createHmac('sha256', secret)
+      .update(`${timestamp}.${payload}`)
+      .digest('hex');
+  }
+}
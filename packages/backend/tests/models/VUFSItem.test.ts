@@ -505,7 +505,7 @@ describe('VUFSItemModel', () => {
   });
 
   describe('search', () => {
-    it('should search items by term', async () => {
+    it('should search items through the search index', async () => {
       mockDb.query.mockResolvedValueOnce({
         rows: [mockDbRow],
         rowCount: 1,
@@ -516,15 +516,17 @@ describe('VUFSItemModel', () => {
 
       const result = await VUFSItemModel.search('nike');
 
+      expect(mockDb.query).toHaveBeenCalledTimes(1);
       expect(mockDb.query).toHaveBeenCalledWith(
-        expect.stringContaining('= ANY(search_keywords)'),
-        expect.arrayContaining(['nike', '%nike%'])
+        expect.stringContaining('JOIN (SELECT d.entity_id'),
+        ['nike', 'nike:*', 'nike', 'item']
       );
+      expect(mockDb.query.mock.calls[0][0]).toContain('FROM search_documents d');
 
       expect(result).toHaveLength(1);
     });
 
-    it('should apply filters in search', async () => {
+    it('should apply filters in the same query as the index match', async () => {
       mockDb.query.mockResolvedValueOnce({
         rows: [mockDbRow],
         rowCount: 1,
@@ -539,13 +541,14 @@ describe('VUFSItemModel', () => {
         visibility: 'public'
       });
 
-      expect(mockDb.query).toHaveBeenCalledWith(
-        expect.stringContaining("category_hierarchy->>'page' ILIKE"),
-        expect.arrayContaining(['nike', '%nike%', '%Clothing%', '%Nike%', 'public'])
-      );
+      expect(mockDb.query).toHaveBeenCalledTimes(1);
+      const [sql, values] = mockDb.query.mock.calls[0];
+      expect(sql).toContain("category_hierarchy->>'page' ILIKE $5");
+      expect(sql).toContain("ownership_info->>'visibility' = $7");
+      expect(values).toEqual(['nike', 'nike:*', 'nike', 'item', '%Clothing%', '%Nike%', 'public']);
     });
 
-    it('should limit results to 50', async () => {
+    it('should limit results to 50 in relevance order', async () => {
       mockDb.query.mockResolvedValueOnce({
         rows: Array(50).fill(mockDbRow),
         rowCount: 50,
@@ -556,8 +559,8 @@ describe('VUFSItemModel', () => {
 
       const result = await VUFSItemModel.search('test');
 
-      expect(mockDb.query).toHaveBeenCalledWith(
-        expect.stringContaining('LIMIT 50'),
+      expect(mockDb.query).toHaveBeenLastCalledWith(
+        expect.stringContaining('ORDER BY search_match.score DESC LIMIT 50'),
         expect.anything()
       );
 
@@ -8,6 +8,7 @@ dotenv.config({ path: '.env.test' });
 process.env.NODE_ENV = 'test';
 process.env.JWT_SECRET = 'test_jwt_secret_key_for_testing_only';
 process.env.JWT_EXPIRES_IN = '1h';
+process.env.PAYMENT_SANDBOX_WEBHOOK_SECRET = 'test_sandbox_webhook_secret';
 
 // Mock console methods to reduce noise in tests
 global.console = {
@@ -0,0 +1,159 @@
+/**
+ * Unit tests for the offline AI evaluation harness and the golden set regression gate
+ */
+
+import { AIEvaluationService, GoldenDataset, EvaluationReport } from '../../src/services/aiEvaluationService';
+import { AIProcessingService, AI_MODEL_VERSION } from '../../src/services/aiProcessingService';
+import { GoogleCloudService } from '../../src/services/googleCloudService';
+import { AITrainingModel } from '../../src/models/AITraining';
+import { ItemImageModel } from '../../src/models/ItemImage';
+
+jest.mock('../../src/database/connection', () => ({
+  db: {
+    query: jest.fn(),
+    transaction: jest.fn(),
+  },
+}));
+
+jest.mock('../../src/services/googleCloudService', () => ({
+  GoogleCloudService: { analyzeImage: jest.fn(), uploadImage: jest.fn() },
+}));
+
+// Score against the production vocabulary so results match `npm run ai:evaluate`
+jest.mock('@vangarments/shared/constants/vufs', () => jest.requireActual('../../../shared/src/constants/vufs'));
+
+const sample = (id: string, labels: Record<string, string>, labelNames: string[], text: string[] = []) => ({
+  id,
+  imageUrl: `/storage/golden/${id}.jpg`,
+  labels,
+  vision: {
+    labels: labelNames.map(Name => ({ Name, Confidence: 90 })),
+    textDetections: text.map(DetectedText => ({ Type: 'LINE', DetectedText, Confidence: 100 })),
+  },
+});
+
+describe('AIEvaluationService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    (console.log as jest.Mock).mockRestore();
+  });
+
+  it('should not regress on the seed golden set', async () => {
+    const dataset = await AIEvaluationService.loadDataset('seed-v1');
+    const baseline = await AIEvaluationService.loadReport(AI_MODEL_VERSION, 'seed-v1');
+
+    const report = await AIEvaluationService.evaluate(dataset);
+    const comparison = AIEvaluationService.compareReports(baseline, report);
+
+    expect(comparison.regressions).toEqual([]);
+    expect(GoogleCloudService.analyzeImage).not.toHaveBeenCalled();
+  });
+
+  it('should report per-field precision and recall from recorded responses', async () => {
+    const dataset: GoldenDataset = {
+      version: 'test',
+      createdAt: '2026-10-19T00:00:00.000Z',
+      samples: [
+        sample('a', { brand: 'Adidas', color: 'Black' }, ['Clothing', 'Black'], ['ADIDAS']),
+        sample('b', { brand: 'Nike', color: 'Red' }, ['Clothing', 'Black']),
+      ],
+    };
+
+    const liveProvider = AIProcessingService.getVisionProvider();
+    const report = await AIEvaluationService.evaluate(dataset, 'candidate');
+
+    expect(report.fields.brand).toEqual({ support: 2, predicted: 1, correct: 1, precision: 1, recall: 0.5, f1: 0.6667 });
+    expect(report.fields.color).toEqual({ support: 2, predicted: 2, correct: 1, precision: 0.5, recall: 0.5, f1: 0.5 });
+    expect(report.fields.material.support).toBe(0);
+    expect(report.misses).toEqual([
+      { sampleId: 'b', field: 'brand', expected: 'Nike', predicted: null },
+      { sampleId: 'b', field: 'color', expected: 'Red', predicted: 'Black' },
+    ]);
+    expect(AIProcessingService.getVisionProvider()).toBe(liveProvider);
+  });
+
+  it('should flag drops beyond the tolerance between model versions', () => {
+    const metrics = (precision: number, recall: number) => ({ support: 10, predicted: 10, correct: 0, precision, recall, f1: 0 });
+    const report = (modelVersion: string, brand: [number, number], color: [number, number]): EvaluationReport => ({
+      modelVersion,
+      datasetVersion: 'golden-v1',
+      evaluatedAt: '2026-10-19T00:00:00.000Z',
+      sampleCount: 10,
+      fields: {
+        brand: metrics(...brand),
+        pieceType: metrics(1, 1),
+        color: metrics(...color),
+        material: metrics(1, 1),
+        viewpoint: metrics(1, 1),
+      },
+      misses: [],
+    });
+
+    const comparison = AIEvaluationService.compareReports(
+      report('v1', [0.9, 0.8], [0.7, 0.7]),
+      report('v2', [0.89, 0.6], [0.9, 0.75])
+    );
+
+    expect(comparison.regressions).toEqual(['brand recall dropped from 0.8 to 0.6']);
+    expect(comparison.fields.color.precision).toEqual({ baseline: 0.7, candidate: 0.9, delta: 0.2 });
+    expect(() => AIEvaluationService.compareReports(report('v1', [1, 1], [1, 1]), { ...report('v2', [1, 1], [1, 1]), datasetVersion: 'golden-v2' }))
+      .toThrow('Invalid comparison');
+  });
+
+  it('should prefer later corrections over stored ground truth', () => {
+    const labels = AIEvaluationService.labelsFrom({
+      id: 't1',
+      imageUrl: '/storage/a.jpg',
+      groundTruthLabels: { domain: 'APPAREL', brand: 'GAP', pieceType: 'Tops', color: 'Blue', material: null },
+      userFeedback: { userId: 'u1', corrections: { color: 'Navy Blue' }, confidence: 100, timestamp: new Date() },
+      modelVersion: AI_MODEL_VERSION,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+
+    expect(labels).toEqual({ brand: 'GAP', pieceType: 'Tops', color: 'Navy Blue' });
+  });
+});
+
+describe('AIProcessingService.storeFeedback', () => {
+  it('should store owner corrections as ground truth for the primary image', async () => {
+    jest.spyOn(ItemImageModel, 'findByItemId').mockResolvedValue([
+      { imageUrl: '/storage/back.jpg', isPrimary: false } as any,
+      { imageUrl: '/storage/front.jpg', isPrimary: true } as any,
+    ]);
+    const store = jest.spyOn(AITrainingModel, 'storeTrainingData').mockResolvedValue({} as any);
+
+    await AIProcessingService.storeFeedback({
+      itemId: 'i1',
+      userId: 'u1',
+      aiSuggestions: {
+        category: { page: 'Apparel', whiteSubcategory: 'Shirts' },
+        brand: { brand: 'Adidas®' },
+        metadata: { colors: [{ primary: 'Blue', undertones: [] }] },
+        condition: {},
+        detectedViewpoint: 'Front',
+        confidence: { category: 80, brand: 70, metadata: 60, condition: 50, overall: 65 },
+        suggestions: { category: [], brand: [], colors: [], materials: [] },
+      } as any,
+      userCorrections: { metadata: { colors: [{ primary: 'Navy Blue', undertones: [] }] } },
+      feedbackType: 'partial_correction',
+      timestamp: new Date('2026-10-19T10:00:00Z'),
+    });
+
+    expect(store).toHaveBeenCalledWith(expect.objectContaining({
+      imageUrl: '/storage/front.jpg',
+      modelVersion: AI_MODEL_VERSION,
+      groundTruthLabels: {
+        domain: 'APPAREL', brand: 'Adidas®', pieceType: 'Shirts', color: 'Navy Blue', material: null, viewpoint: 'Front',
+      },
+      aiPredictions: {
+        domain: 'APPAREL', brand: 'Adidas®', pieceType: 'Shirts', color: 'Blue', material: null, viewpoint: 'Front',
+        confidence: 65,
+      },
+    }));
+  });
+});
@@ -0,0 +1,42 @@
+/**
+ * Unit tests for the background job scheduler
+ */
+
+import { BackgroundJobScheduler } from '../../src/services/backgroundJobScheduler';
+
+jest.mock('../../src/database/connection', () => ({
+  db: {
+    query: jest.fn(),
+    transaction: jest.fn(),
+  },
+}));
+
+describe('BackgroundJobScheduler', () => {
+  it('should skip a job while its previous run is still going', async () => {
+    let finish: () => void = () => undefined;
+    const run = jest.fn(() => new Promise<void>(resolve => { finish = resolve; }));
+    const job = { name: 'slow sweep', intervalMs: 1000, run };
+
+    const first = BackgroundJobScheduler.run(job);
+    await BackgroundJobScheduler.run(job);
+    expect(run).toHaveBeenCalledTimes(1);
+
+    finish();
+    await first;
+    const second = BackgroundJobScheduler.run(job);
+    finish();
+    await second;
+    expect(run).toHaveBeenCalledTimes(2);
+  });
+
+  it('should log failures and keep the job schedulable', async () => {
+    const run = jest.fn().mockRejectedValueOnce(new Error('database down')).mockResolvedValueOnce(3);
+    const job = { name: 'flaky sweep', intervalMs: 1000, run };
+
+    await BackgroundJobScheduler.run(job);
+    expect(console.error).toHaveBeenCalledWith('[BackgroundJobScheduler] flaky sweep failed:', expect.any(Error));
+
+    await BackgroundJobScheduler.run(job);
+    expect(run).toHaveBeenCalledTimes(2);
+  });
+});
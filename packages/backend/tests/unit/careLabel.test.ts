@@ -0,0 +1,149 @@
+/**
+ * Unit tests for care label composition parsing and care symbol decoding
+ */
+
+import { CareLabelService } from '../../src/services/careLabelService';
+import { GoogleCloudService } from '../../src/services/googleCloudService';
+import { VUFSItemModel } from '../../src/models/VUFSItem';
+
+jest.mock('../../src/database/connection', () => ({
+  db: {
+    query: jest.fn(),
+    transaction: jest.fn(),
+  },
+}));
+
+jest.mock('../../src/services/googleCloudService', () => ({
+  GoogleCloudService: { analyzeImage: jest.fn() },
+}));
+
+describe('CareLabelService', () => {
+  describe('parseComposition', () => {
+    it('should parse Portuguese composition into VUFS materials', () => {
+      const { parts } = CareLabelService.parseComposition(['95% algodão 5% elastano']);
+
+      expect(parts).toEqual([{
+        part: 'main',
+        composition: [{ material: 'Cotton', percentage: 95 }, { material: 'Elastane', percentage: 5 }],
+        total: 100,
+      }]);
+    });
+
+    it('should read a composition repeated in several languages once', () => {
+      const result = CareLabelService.parseLabel([
+        '95% COTTON 5% ELASTANE',
+        '95% ALGODÃO 5% ELASTANO',
+        '95% ALGODÓN 5% ELASTANO',
+        '95% COTONE 5% ELASTAN',
+        '95% COTON 5% ÉLASTHANNE',
+      ]);
+
+      expect(result.parts).toHaveLength(1);
+      expect(result.composition).toEqual([{ material: 'Cotton', percentage: 95 }, { material: 'Elastane', percentage: 5 }]);
+    });
+
+    it('should split shell and lining and accept fibre-first labels', () => {
+      const { parts } = CareLabelService.parseComposition([
+        'SHELL/TECIDO: 100% POLYESTER',
+        'LINING/FORRO: viscosa 60% cotone 40%',
+      ]);
+
+      expect(parts).toEqual([
+        { part: 'main', composition: [{ material: 'Polyester', percentage: 100 }], total: 100 },
+        {
+          part: 'lining',
+          composition: [{ material: 'Viscose', percentage: 60 }, { material: 'Cotton', percentage: 40 }],
+          total: 100,
+        },
+      ]);
+    });
+
+    it('should report fibres it cannot map', () => {
+      const result = CareLabelService.parseComposition(['90% CO 10% metallic']);
+
+      expect(result.parts[0].composition).toEqual([{ material: 'Cotton', percentage: 90 }]);
+      expect(result.unrecognizedMaterials).toEqual(['metallic']);
+    });
+  });
+
+  describe('care instructions', () => {
+    it('should decode English care text', () => {
+      expect(CareLabelService.recognizeCareText([
+        'MACHINE WASH COLD, GENTLE CYCLE',
+        'DO NOT BLEACH',
+        'TUMBLE DRY LOW',
+        'COOL IRON',
+        'DO NOT DRY CLEAN',
+      ])).toEqual(['wash_30_mild', 'bleach_none', 'tumble_low', 'iron_110', 'dryclean_none']);
+    });
+
+    it('should decode Portuguese care text', () => {
+      expect(CareLabelService.recognizeCareText([
+        'Lavar à mão',
+        'Não usar alvejante',
+        'Não secar em máquina',
+        'Secar à sombra na horizontal',
+        'Passar a ferro em temperatura baixa, sem vapor',
+        'Não lavar a seco',
+      ])).toEqual(['wash_hand', 'bleach_none', 'tumble_none', 'dry_flat_shade', 'iron_110_no_steam', 'dryclean_none']);
+    });
+
+    it('should decode Spanish, Italian and French care text', () => {
+      expect(CareLabelService.recognizeCareText(['Lavar a máquina 30°C', 'No planchar'])).toEqual(['wash_30', 'iron_none']);
+      expect(CareLabelService.recognizeCareText(['Lavare in lavatrice a 40°', 'Non candeggiare'])).toEqual(['wash_40', 'bleach_none']);
+      expect(CareLabelService.recognizeCareText([
+        'Lavage en machine 40°C programme délicat',
+        'Séchage en tambour interdit',
+        'Ne pas repasser',
+      ])).toEqual(['wash_40_mild', 'tumble_none', 'iron_none']);
+    });
+
+    it('should keep the most restrictive symbol per category and build rules', () => {
+      const result = CareLabelService.parseLabel(['Machine wash 40°C'], ['wash_30', 'iron_200', 'dry_line', 'unknown']);
+
+      expect(result.careSymbols).toEqual(['wash_30', 'iron_200', 'dry_line']);
+      expect(result.careRules).toEqual({
+        washing: { method: 'machine', maxTemperature: 30, cycle: 'normal' },
+        ironing: { allowed: true, maxTemperature: 200 },
+        drying: { natural: 'line', inShade: false },
+      });
+      expect(result.careInstructions).toEqual([
+        'Machine wash at 30°C',
+        'Iron at high temperature (max 200°C)',
+        'Line dry',
+      ]);
+    });
+  });
+
+  describe('storing a label', () => {
+    const item = (metadata: Record<string, any>) => ({ id: 'i1', metadata } as any);
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      jest.spyOn(VUFSItemModel, 'update').mockResolvedValue(null);
+    });
+
+    it('should take the full text annotation from the photo', async () => {
+      (GoogleCloudService.analyzeImage as jest.Mock).mockResolvedValueOnce({
+        textDetections: [{ DetectedText: '100% COTTON\n DO NOT BLEACH \n' }, { DetectedText: '100%' }],
+      });
+
+      expect(await CareLabelService.readImageText(Buffer.from(''))).toEqual(['100% COTTON', 'DO NOT BLEACH']);
+    });
+
+    it('should keep a partial composition off an item that already has one', async () => {
+      const label = CareLabelService.parseLabel(['80% wool', 'Hand wash']);
+
+      await CareLabelService.applyToItem(item({ composition: [{ material: 'Wool', percentage: 100 }] }), label);
+
+      expect(VUFSItemModel.update).toHaveBeenCalledWith('i1', {
+        metadata: {
+          composition: [{ material: 'Wool', percentage: 100 }],
+          careSymbols: ['wash_hand'],
+          careRules: { washing: { method: 'hand', maxTemperature: 40 } },
+          careInstructions: ['Hand wash (max 40°C)'],
+        },
+      });
+    });
+  });
+});
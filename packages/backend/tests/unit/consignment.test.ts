@@ -0,0 +1,154 @@
+/**
+ * Unit tests for consignment commission, repass and statement exports
+ */
+
+import { ConsignmentService, CommissionRule, ConsignmentStatement } from '../../src/services/consignmentService';
+import { ConsignmentStatementExport } from '../../src/utils/consignmentStatementExport';
+import { DEFAULT_CONSIGNMENT_SETTINGS } from '../../src/utils/vufs';
+
+jest.mock('../../src/database/connection', () => ({
+  db: {
+    query: jest.fn(),
+    transaction: jest.fn(),
+  },
+}));
+
+const rule = (overrides: Partial<CommissionRule>): CommissionRule => ({
+  id: 'rule',
+  storeOwnerId: 'store-1',
+  name: 'Rule',
+  commissionRate: 0.25,
+  priority: 0,
+  createdAt: new Date('2026-01-01'),
+  ...overrides,
+});
+
+describe('ConsignmentService', () => {
+  const item = {
+    supplierId: 'supplier-1',
+    category: 'Jackets',
+    brand: 'Osklen',
+    askingPrice: 400,
+  };
+
+  describe('resolveCommissionRate', () => {
+    it('should fall back to the default rate without matching rules', () => {
+      const rules = [rule({ supplierId: 'supplier-2', commissionRate: 0.1 })];
+
+      expect(ConsignmentService.resolveCommissionRate(item, rules)).toBe(DEFAULT_CONSIGNMENT_SETTINGS.defaultCommissionRate);
+    });
+
+    it('should prefer the item override', () => {
+      const rules = [rule({ supplierId: 'supplier-1', commissionRate: 0.1 })];
+
+      expect(ConsignmentService.resolveCommissionRate({ ...item, commissionRate: 0.4 }, rules)).toBe(0.4);
+    });
+
+    it('should pick the highest-priority match, then the most specific', () => {
+      const rules = [
+        rule({ id: 'brand', brand: 'osklen', commissionRate: 0.2 }),
+        rule({ id: 'supplier-brand', supplierId: 'supplier-1', brand: 'Osklen', commissionRate: 0.15 }),
+        rule({ id: 'premium', minPrice: 1000, commissionRate: 0.1, priority: 10 }),
+      ];
+
+      expect(ConsignmentService.resolveCommissionRate(item, rules)).toBe(0.15);
+      expect(ConsignmentService.resolveCommissionRate(item, rules, DEFAULT_CONSIGNMENT_SETTINGS, 1200)).toBe(0.1);
+    });
+  });
+
+  describe('calculateSale', () => {
+    it('should take commission after platform fees', () => {
+      const platformFee = ConsignmentService.getPlatformFee(200, 'magazine_luiza');
+      const breakdown = ConsignmentService.calculateSale(200, platformFee, 0.3);
+
+      expect(breakdown).toEqual({
+        soldPrice: 200,
+        platformFee: 30,
+        commissionRate: 0.3,
+        commission: 51,
+        amountToOwner: 119,
+      });
+    });
+
+    it('should charge no channel fee for in-store sales', () => {
+      expect(ConsignmentService.getPlatformFee(200, 'in_store')).toBe(0);
+    });
+  });
+
+  describe('isRepassDue', () => {
+    const now = new Date('2026-10-19T12:00:00Z');
+
+    it('should be due at the auto-repass threshold', () => {
+      expect(ConsignmentService.isRepassDue(1000, now, DEFAULT_CONSIGNMENT_SETTINGS, now)).toBe(true);
+    });
+
+    it('should be due once the oldest sale is past the payment terms', () => {
+      const recent = new Date('2026-10-15T12:00:00Z');
+      const old = new Date('2026-10-10T12:00:00Z');
+
+      expect(ConsignmentService.isRepassDue(120, recent, DEFAULT_CONSIGNMENT_SETTINGS, now)).toBe(false);
+      expect(ConsignmentService.isRepassDue(120, old, DEFAULT_CONSIGNMENT_SETTINGS, now)).toBe(true);
+      expect(ConsignmentService.isRepassDue(20, old, DEFAULT_CONSIGNMENT_SETTINGS, now)).toBe(false);
+    });
+  });
+});
+
+describe('ConsignmentStatementExport', () => {
+  const statement: ConsignmentStatement = {
+    id: 'statement-1',
+    storeOwnerId: 'store-1',
+    supplierId: 'supplier-1',
+    consignorName: 'Brechó da Ana',
+    periodStart: new Date('2026-09-01'),
+    periodEnd: new Date('2026-09-30'),
+    itemCount: 2,
+    totalSales: 350,
+    totalPlatformFees: 30,
+    totalCommission: 96,
+    amountToOwner: 224,
+    status: 'issued',
+    issuedAt: new Date('2026-10-01'),
+    lines: [
+      {
+        itemSku: 'VG-JACK-OSKL-0001',
+        title: 'Jacket, "vintage"',
+        soldAt: new Date('2026-09-05T10:00:00Z'),
+        salePlatform: 'magazine_luiza',
+        soldPrice: 200,
+        platformFee: 30,
+        commissionRate: 0.3,
+        commission: 51,
+        amountToOwner: 119,
+      },
+      {
+        itemSku: 'VG-SHIR-OSKL-0002',
+        title: 'Shirt',
+        soldAt: new Date('2026-09-20T10:00:00Z'),
+        salePlatform: 'in_store',
+        soldPrice: 150,
+        platformFee: 0,
+        commissionRate: 0.3,
+        commission: 45,
+        amountToOwner: 105,
+      },
+    ],
+  };
+
+  it('should export lines and totals as CSV', () => {
+    const rows = ConsignmentStatementExport.toCSV(statement).trim().split('\n');
+
+    expect(rows[0]).toBe('sku,title,sold_at,platform,sold_price,platform_fee,commission_rate,commission,amount_to_owner');
+    expect(rows[1]).toBe('VG-JACK-OSKL-0001,"Jacket, ""vintage""",2026-09-05,magazine_luiza,200.00,30.00,0.3000,51.00,119.00');
+    expect(rows[3]).toBe('TOTAL,2 items,,,350.00,30.00,,96.00,224.00');
+  });
+
+  it('should render a PDF document', () => {
+    const pdf = ConsignmentStatementExport.toPDF(statement);
+
+    expect(pdf.subarray(0, 5).toString()).toBe('%PDF-');
+  });
+
+  it('should build a filename from the consignor and period', () => {
+    expect(ConsignmentStatementExport.filename(statement, 'pdf')).toBe('repass_statement_brech_da_ana_2026-09.pdf');
+  });
+});
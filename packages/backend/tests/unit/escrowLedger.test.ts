@@ -0,0 +1,63 @@
+/**
+ * Unit tests for escrow ledger postings
+ */
+
+import { EscrowLedgerService } from '../../src/services/escrowLedgerService';
+
+jest.mock('../../src/database/connection', () => ({
+  db: {
+    query: jest.fn(),
+    transaction: jest.fn(),
+  },
+}));
+
+describe('EscrowLedgerService postings', () => {
+  const escrow = {
+    sellerId: 'seller-1',
+    amount: 265.0, // R$250 item + R$15 shipping
+    platformFee: 12.5,
+    paymentFee: 7.55,
+    sellerNet: 244.95,
+  };
+
+  it('should move the captured payment into escrow', () => {
+    const postings = EscrowLedgerService.buildHoldPostings(escrow.amount);
+
+    expect(EscrowLedgerService.isBalanced(postings)).toBe(true);
+    expect(postings).toEqual([
+      { account: { ownerType: 'platform', accountType: 'provider_clearing' }, direction: 'debit', amount: 265 },
+      { account: { ownerType: 'platform', accountType: 'escrow' }, direction: 'credit', amount: 265 },
+    ]);
+  });
+
+  it('should split a release between seller, platform and provider', () => {
+    const postings = EscrowLedgerService.buildReleasePostings(escrow);
+
+    expect(EscrowLedgerService.isBalanced(postings)).toBe(true);
+    expect(postings.find(p => p.account.accountType === 'seller_balance')).toEqual({
+      account: { ownerType: 'user', ownerId: 'seller-1', accountType: 'seller_balance' },
+      direction: 'credit',
+      amount: 244.95,
+    });
+    expect(postings.find(p => p.account.accountType === 'platform_revenue')?.amount).toBe(12.5);
+    expect(postings.find(p => p.account.accountType === 'provider_clearing')?.amount).toBe(7.55);
+  });
+
+  it('should skip zero-value postings', () => {
+    const postings = EscrowLedgerService.buildReleasePostings({ ...escrow, paymentFee: 0, sellerNet: 252.5 });
+
+    expect(postings).toHaveLength(3);
+    expect(EscrowLedgerService.isBalanced(postings)).toBe(true);
+  });
+
+  it('should balance refunds and payouts', () => {
+    expect(EscrowLedgerService.isBalanced(EscrowLedgerService.buildRefundPostings(escrow.amount))).toBe(true);
+    expect(EscrowLedgerService.isBalanced(EscrowLedgerService.buildPayoutPostings('seller-1', 244.95))).toBe(true);
+  });
+
+  it('should detect unbalanced entries', () => {
+    const postings = EscrowLedgerService.buildReleasePostings({ ...escrow, sellerNet: 250 });
+
+    expect(EscrowLedgerService.isBalanced(postings)).toBe(false);
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Unit tests for size recommendations from POM measurements
+ */
+
+import { FitRecommendationService, GarmentMeasurement } from '../../src/services/fitRecommendationService';
+import { UserModel } from '../../src/models/User';
+import { VUFSItemModel } from '../../src/models/VUFSItem';
+import { SKUItemModel } from '../../src/models/SKUItem';
+import { MarketplaceModel } from '../../src/models/Marketplace';
+import { SKUMatchingService } from '../../src/services/skuMatchingService';
+
+jest.mock('../../src/models/User');
+jest.mock('../../src/models/VUFSItem');
+jest.mock('../../src/models/SKUItem');
+jest.mock('../../src/models/Marketplace');
+jest.mock('../../src/services/skuMatchingService');
+
+const pom = (size: string, pomCode: string, value: number): GarmentMeasurement => ({ size, pomCode, pomName: pomCode, value, unit: 'cm' });
+
+// Half chest and full body length of a tee in three sizes
+const TEE_CHART = [
+    pom('S', 'CH', 48), pom('S', 'HPS', 68),
+    pom('M', 'CH', 52), pom('M', 'HPS', 70),
+    pom('L', 'CH', 56), pom('L', 'HPS', 72),
+];
+
+describe('FitRecommendationService', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    describe('recommend', () => {
+        it('should pick the size whose ease is closest to a regular fit', () => {
+            const fit = FitRecommendationService.recommend(TEE_CHART, { basis: 'body', body: { chest: 94 } });
+
+            expect(fit.recommendedSize).toBe('M');
+            expect(fit.verdict).toBe('true');
+            expect(fit.sizes.map(size => [size.size, size.verdict])).toEqual([['S', 'tight'], ['M', 'true'], ['L', 'loose']]);
+            // Half chest doubled to a circumference; length has no body counterpart
+            expect(fit.sizes[1].poms).toEqual([
+                { pomCode: 'CH', pomName: 'CH', dimension: 'chest', garment: 104, target: 94, ease: 10, verdict: 'true' },
+            ]);
+        });
+
+        it('should compare every POM with a reference garment', () => {
+            const reference = [pom('M', 'CH', 55), pom('M', 'HPS', 72)];
+
+            const fit = FitRecommendationService.recommend(TEE_CHART, { basis: 'reference', referenceItemId: 'item-1', measurements: reference });
+
+            expect(fit.basis).toBe('reference');
+            expect(fit.referenceItemId).toBe('item-1');
+            expect(fit.recommendedSize).toBe('L');
+            expect(fit.sizes.find(size => size.size === 'M')?.poms.map(p => [p.dimension, p.ease, p.verdict])).toEqual([
+                ['chest', -6, 'tight'],
+                ['length', -2, 'true'],
+            ]);
+        });
+
+        it('should convert inch measurements', () => {
+            const fit = FitRecommendationService.recommend(
+                [{ size: '32', pomCode: 'IN', value: 32, unit: 'in' }],
+                { basis: 'body', body: { inseam: 81 } }
+            );
+
+            expect(fit.sizes[0].poms[0]).toMatchObject({ dimension: 'inseam', garment: 81.3, ease: 0.3, verdict: 'true' });
+        });
+
+        it('should report what is missing instead of guessing', () => {
+            expect(FitRecommendationService.recommend(TEE_CHART, null)).toMatchObject({ recommendedSize: null, missing: 'body_measurements' });
+            expect(FitRecommendationService.recommend(TEE_CHART, { basis: 'body', body: { inseam: 80 } }))
+                .toMatchObject({ recommendedSize: null, missing: 'garment_measurements' });
+        });
+    });
+
+    describe('resolveTarget', () => {
+        it('should use the reference item size from its stored size chart', async () => {
+            (VUFSItemModel.findById as jest.Mock).mockResolvedValue({
+                id: 'item-1', ownerId: 'user-1', deletedAt: null,
+                metadata: { size: 'M', measurements: TEE_CHART },
+            });
+
+            const target = await FitRecommendationService.resolveTarget('user-1', 'item-1');
+
+            expect(target).toEqual({ basis: 'reference', referenceItemId: 'item-1', measurements: [TEE_CHART[2], TEE_CHART[3]] });
+        });
+
+        it('should fall back to the linked SKU and reject items of other users', async () => {
+            (VUFSItemModel.findById as jest.Mock).mockResolvedValue({
+                id: 'item-1', ownerId: 'user-1', deletedAt: null, skuItemId: 'sku-1', metadata: { size: 'S' },
+            });
+            (SKUItemModel.findById as jest.Mock).mockResolvedValue({ id: 'sku-1' });
+            (SKUMatchingService.getMeasurements as jest.Mock).mockResolvedValue([TEE_CHART[0]]);
+
+            await expect(FitRecommendationService.resolveTarget('user-1', 'item-1')).resolves.toMatchObject({ measurements: [TEE_CHART[0]] });
+            expect(SKUMatchingService.getMeasurements).toHaveBeenCalledWith({ id: 'sku-1' }, 'S');
+            await expect(FitRecommendationService.resolveTarget('user-2', 'item-1')).rejects.toThrow('Invalid reference');
+        });
+
+        it('should use profile body measurements without a reference', async () => {
+            (UserModel.findById as jest.Mock).mockResolvedValue({ measurements: { height: 180, chest: 94 } });
+            await expect(FitRecommendationService.resolveTarget('user-1')).resolves.toEqual({ basis: 'body', body: { height: 180, chest: 94 } });
+
+            (UserModel.findById as jest.Mock).mockResolvedValue({ measurements: { height: 180 } });
+            await expect(FitRecommendationService.resolveTarget('user-1')).resolves.toBeNull();
+        });
+    });
+
+    describe('recommendForListing', () => {
+        it('should rate the listed size against the catalog size chart', async () => {
+            (MarketplaceModel.findById as jest.Mock).mockResolvedValue({ id: 'listing-1', itemId: 'item-9' });
+            (VUFSItemModel.findById as jest.Mock).mockResolvedValue({ id: 'item-9', skuItemId: 'sku-1', metadata: { size: 'S' } });
+            (SKUItemModel.findById as jest.Mock).mockResolvedValue({ id: 'sku-1', parentSkuId: 'sku-0' });
+            (SKUMatchingService.getMeasurements as jest.Mock).mockResolvedValue(TEE_CHART);
+            (UserModel.findById as jest.Mock).mockResolvedValue({ measurements: { chest: 94 } });
+
+            const fit = await FitRecommendationService.recommendForListing('listing-1', 'user-1');
+
+            expect(fit).toMatchObject({ recommendedSize: 'M', listingSize: 'S', listingFit: { size: 'S', verdict: 'tight' } });
+        });
+    });
+});
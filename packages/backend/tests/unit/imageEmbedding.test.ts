@@ -0,0 +1,128 @@
+/**
+ * Unit tests for the local image embedding model and visual search queries
+ */
+
+import sharp from 'sharp';
+import { ColorLayoutEmbeddingModel } from '../../src/services/imageEmbeddingModels';
+import { ImageEmbeddingService } from '../../src/services/imageEmbeddingService';
+import { db } from '../../src/database/connection';
+import { RemoteImage } from '../../src/utils/remoteImage';
+
+jest.mock('../../src/database/connection', () => ({
+  db: {
+    query: jest.fn(),
+    transaction: jest.fn(),
+  },
+}));
+
+const mockDb = db as jest.Mocked<typeof db>;
+
+// A coloured garment-like block on a white backdrop
+const garmentPhoto = (color: string, offset: number = 0): Promise<Buffer> =>
+  sharp({ create: { width: 200, height: 200, channels: 3, background: '#ffffff' } })
+    .composite([{
+      input: { create: { width: 100, height: 140, channels: 3, background: color } },
+      left: 50 + offset,
+      top: 30,
+    }])
+    .png()
+    .toBuffer();
+
+const dot = (a: number[], b: number[]) => a.reduce((sum, value, index) => sum + value * b[index], 0);
+
+describe('ColorLayoutEmbeddingModel', () => {
+  const model = new ColorLayoutEmbeddingModel();
+
+  it('should produce normalised vectors of the declared size', async () => {
+    const embedding = await model.embed(await garmentPhoto('#c0392b'));
+
+    expect(embedding).toHaveLength(model.dimensions);
+    expect(dot(embedding, embedding)).toBeCloseTo(1, 5);
+  });
+
+  it('should score a re-upload as a duplicate', async () => {
+    const original = await model.embed(await garmentPhoto('#c0392b'));
+    const reupload = await model.embed(await sharp(await garmentPhoto('#c0392b')).jpeg({ quality: 70 }).toBuffer());
+
+    expect(dot(original, reupload)).toBeGreaterThanOrEqual(model.duplicateThreshold);
+  });
+
+  it('should rank a similar photo above a different colour', async () => {
+    const query = await model.embed(await garmentPhoto('#c0392b'));
+    const similar = await model.embed(await garmentPhoto('#b03a2e', 10));
+    const different = await model.embed(await garmentPhoto('#2471a3'));
+
+    expect(dot(query, similar)).toBeGreaterThan(dot(query, different));
+  });
+});
+
+describe('ImageEmbeddingService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should search only the viewer\'s own wardrobe and map matches', async () => {
+    mockDb.query.mockResolvedValueOnce({
+      rows: [{
+        entity_type: 'sku', entity_id: 's1', image_url: '/storage/images/s1.jpg', score: '0.91',
+        title: 'Camisa Oxford', slug: 'camisa-oxford', brand_name: 'Reserva', price: '299.90', currency: 'BRL',
+      }],
+    } as any);
+
+    const matches = await ImageEmbeddingService.findSimilar([0.6, 0.8], { viewerId: 'u1', limit: 5 });
+
+    expect(mockDb.query.mock.calls[0][1]).toEqual([
+      [0.6, 0.8], 'color-layout-v1', ['item', 'sku', 'listing'], 'u1', 5, 0.6, null, null,
+    ]);
+    expect(matches).toEqual([{
+      type: 'sku', id: 's1', title: 'Camisa Oxford', imageUrl: '/storage/images/s1.jpg', slug: 'camisa-oxford',
+      brand: 'Reserva', price: 299.9, currency: 'BRL', score: 0.91,
+    }]);
+  });
+
+  it('should refuse storage paths outside the storage root', async () => {
+    await expect(ImageEmbeddingService.loadImage('/storage/../../package.json')).rejects.toThrow('Invalid storage path');
+    await expect(ImageEmbeddingService.loadImage('file:///etc/passwd')).rejects.toThrow('Unsupported image location');
+  });
+
+  it('should only fetch remote images from allowed hosts on public addresses', async () => {
+    const fetchSpy = jest.spyOn(global, 'fetch');
+    process.env.REMOTE_IMAGE_HOSTS = '*.brand-cdn.example, localhost';
+
+    await expect(ImageEmbeddingService.loadImage('http://169.254.169.254/latest/meta-data/'))
+      .rejects.toThrow('Image host is not allowed');
+    await expect(ImageEmbeddingService.loadImage('http://localhost:5432/'))
+      .rejects.toThrow('resolves to an internal address');
+    expect(RemoteImage.isAllowedUrl(new URL('https://img.brand-cdn.example/a.jpg'))).toBe(true);
+    expect(RemoteImage.isAllowedUrl(new URL('https://storage.googleapis.com/vangarments-storage/a.jpg'))).toBe(true);
+    expect(RemoteImage.isAllowedUrl(new URL('https://storage.googleapis.com/other-bucket/a.jpg'))).toBe(false);
+    expect(RemoteImage.isBlockedAddress('10.1.2.3')).toBe(true);
+    expect(RemoteImage.isBlockedAddress('::ffff:127.0.0.1')).toBe(true);
+    expect(RemoteImage.isBlockedAddress('fe80::1')).toBe(true);
+    expect(RemoteImage.isBlockedAddress('142.250.79.46')).toBe(false);
+    expect(fetchSpy).not.toHaveBeenCalled();
+
+    delete process.env.REMOTE_IMAGE_HOSTS;
+    fetchSpy.mockRestore();
+  });
+
+  it('should download and embed images before opening the write transaction', async () => {
+    const client = { query: jest.fn().mockResolvedValue({ rows: [] }) };
+    mockDb.query.mockResolvedValueOnce({
+      rows: [{ entity_id: 'i1', image_url: '/storage/images/i1.png', owner_id: 'u1' }],
+    } as never);
+    mockDb.transaction.mockImplementation((async (callback: (client: object) => unknown) => callback(client)) as never);
+    const loadImage = jest.spyOn(ImageEmbeddingService, 'loadImage').mockImplementation(async () => {
+      expect(mockDb.transaction).not.toHaveBeenCalled();
+      return garmentPhoto('#1f3a93');
+    });
+
+    const embedded = await ImageEmbeddingService.index('item', ['i1']);
+
+    expect(embedded).toBe(1);
+    expect(loadImage).toHaveBeenCalledWith('/storage/images/i1.png');
+    expect(client.query.mock.calls[0][0]).toContain('INSERT INTO image_embeddings');
+    expect(client.query.mock.calls[1][0]).toContain('DELETE FROM image_embeddings');
+    loadImage.mockRestore();
+  });
+});
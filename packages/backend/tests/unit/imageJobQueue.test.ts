@@ -0,0 +1,148 @@
+/**
+ * Unit tests for the image processing job queue: batch roll-up, retries and backoff
+ */
+
+import { ImageJobQueueService, retryDelayMs, MAX_JOBS_PER_BATCH } from '../../src/services/imageJobQueueService';
+import { ImageProcessingJobModel, ImageProcessingJob } from '../../src/models/ImageProcessingJob';
+import { ItemImageModel } from '../../src/models/ItemImage';
+import { BackgroundRemovalService } from '../../src/services/backgroundRemovalService';
+import { ImageEmbeddingService } from '../../src/services/imageEmbeddingService';
+import { LocalStorageService } from '../../src/services/localStorageService';
+import { MessagingEventService } from '../../src/services/messagingEventService';
+
+jest.mock('../../src/database/connection', () => ({
+  db: {
+    query: jest.fn(),
+    transaction: jest.fn(),
+  },
+}));
+
+jest.mock('../../src/services/backgroundRemovalService', () => ({
+  BackgroundRemovalService: { removeBackground: jest.fn() },
+}));
+
+jest.mock('../../src/services/imageEmbeddingService', () => ({
+  ImageEmbeddingService: { loadImage: jest.fn() },
+}));
+
+const batch = { id: 'b1', userId: 'u1', itemId: 'i1', createdAt: new Date() };
+
+const job = (overrides: Partial<ImageProcessingJob> = {}): ImageProcessingJob => ({
+  id: 'j1',
+  batchId: 'b1',
+  userId: 'u1',
+  itemId: 'i1',
+  imageId: 'img1',
+  operation: 'background_removal',
+  options: {},
+  status: 'running',
+  progress: 0,
+  attempts: 1,
+  maxAttempts: 3,
+  runAfter: new Date(),
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+});
+
+describe('ImageJobQueueService', () => {
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    jest.clearAllMocks();
+    jest.spyOn(MessagingEventService, 'emitToUser').mockImplementation(() => undefined as any);
+    jest.spyOn(ImageProcessingJobModel, 'updateProgress').mockResolvedValue();
+  });
+
+  it('should back off exponentially between attempts', () => {
+    expect(retryDelayMs(1)).toBe(15000);
+    expect(retryDelayMs(2)).toBe(30000);
+    expect(retryDelayMs(3)).toBe(60000);
+    expect(retryDelayMs(20)).toBe(10 * 60 * 1000);
+  });
+
+  it('should roll job states up into batch progress', () => {
+    const running = ImageJobQueueService.summarize(batch, [
+      job({ id: 'j1', status: 'succeeded', progress: 100 }),
+      job({ id: 'j2', status: 'running', progress: 50 }),
+      job({ id: 'j3', status: 'queued', progress: 0 }),
+      job({ id: 'j4', status: 'failed', progress: 20 }),
+    ]);
+
+    expect(running.status).toBe('running');
+    expect(running.progress).toBe(63);
+    expect(running.counts).toEqual({ queued: 1, running: 1, succeeded: 1, failed: 1, cancelled: 0 });
+
+    expect(ImageJobQueueService.summarize(batch, [job({ status: 'queued' })]).status).toBe('queued');
+    expect(ImageJobQueueService.summarize(batch, [
+      job({ status: 'succeeded' }),
+      job({ status: 'cancelled' }),
+    ])).toMatchObject({ status: 'completed', progress: 100 });
+  });
+
+  it('should reject unknown operations and oversized batches before touching the database', async () => {
+    const createBatch = jest.spyOn(ImageProcessingJobModel, 'createBatch');
+
+    await expect(ImageJobQueueService.enqueue('u1', 'i1', [{ imageId: 'img1', operation: 'upscale' as any }]))
+      .rejects.toThrow('Invalid operation: upscale');
+    await expect(ImageJobQueueService.enqueue('u1', 'i1', Array.from({ length: MAX_JOBS_PER_BATCH + 1 }, (_, i) => ({
+      imageId: `img${i}`,
+      operation: 'thumbnail' as const,
+    })))).rejects.toThrow('Invalid batch');
+    expect(createBatch).not.toHaveBeenCalled();
+  });
+
+  it('should store the background-removed image and report success', async () => {
+    jest.spyOn(ItemImageModel, 'findById').mockResolvedValue({ id: 'img1', itemId: 'i1', imageUrl: 'storage/a.jpg' } as any);
+    jest.spyOn(ItemImageModel, 'findByItemId').mockResolvedValue([
+      { id: 'old', imageType: 'background_removed', aiAnalysis: { originalImageId: 'img1' } } as any,
+    ]);
+    const remove = jest.spyOn(ItemImageModel, 'delete').mockResolvedValue(true as any);
+    const create = jest.spyOn(ItemImageModel, 'create').mockResolvedValue({ id: 'img2', imageUrl: 'storage/bg.png' } as any);
+    jest.spyOn(LocalStorageService, 'uploadImage').mockResolvedValue({ url: 'storage/bg.png', size: 10, mimetype: 'image/png' } as any);
+    (ImageEmbeddingService.loadImage as jest.Mock).mockResolvedValue(Buffer.from('original'));
+    (BackgroundRemovalService.removeBackground as jest.Mock).mockResolvedValue(Buffer.from('processed'));
+    const succeeded = jest.spyOn(ImageProcessingJobModel, 'markSucceeded').mockResolvedValue(job({ status: 'succeeded' }));
+
+    await ImageJobQueueService.run(job({ options: { quality: 'fast' } }));
+
+    expect(ImageEmbeddingService.loadImage).toHaveBeenCalledWith('/storage/a.jpg');
+    expect(BackgroundRemovalService.removeBackground).toHaveBeenCalledWith(
+      Buffer.from('original'),
+      expect.objectContaining({ quality: 'fast' })
+    );
+    expect(remove).toHaveBeenCalledWith('old');
+    expect(create).toHaveBeenCalledWith(expect.objectContaining({
+      imageType: 'background_removed',
+      aiAnalysis: { backgroundRemoved: true, originalImageId: 'img1' },
+    }));
+    expect(succeeded).toHaveBeenCalledWith('j1', { imageId: 'img2', imageUrl: 'storage/bg.png', originalImageId: 'img1' });
+    expect(MessagingEventService.emitToUser).toHaveBeenCalledWith('u1', 'image_job', expect.objectContaining({
+      jobId: 'j1',
+      status: 'succeeded',
+    }));
+  });
+
+  it('should retry transient failures with backoff until attempts run out', async () => {
+    jest.spyOn(ItemImageModel, 'findById').mockResolvedValue({ id: 'img1', itemId: 'i1', imageUrl: 'storage/a.jpg' } as any);
+    (ImageEmbeddingService.loadImage as jest.Mock).mockRejectedValue(new Error('ECONNRESET'));
+    const failed = jest.spyOn(ImageProcessingJobModel, 'markAttemptFailed').mockResolvedValue(null);
+    const now = Date.now();
+
+    await ImageJobQueueService.run(job({ attempts: 2 }));
+    const retryAt: Date = failed.mock.calls[0][2] as Date;
+    expect(failed.mock.calls[0][1]).toBe('ECONNRESET');
+    expect(retryAt.getTime()).toBeGreaterThanOrEqual(now + 30000);
+
+    await ImageJobQueueService.run(job({ attempts: 3 }));
+    expect(failed).toHaveBeenLastCalledWith('j1', 'ECONNRESET', null);
+  });
+
+  it('should not retry jobs that can never succeed', async () => {
+    jest.spyOn(ItemImageModel, 'findById').mockResolvedValue({ id: 'img1', itemId: 'other', imageUrl: 'storage/a.jpg' } as any);
+    const failed = jest.spyOn(ImageProcessingJobModel, 'markAttemptFailed').mockResolvedValue(null);
+
+    await ImageJobQueueService.run(job({ attempts: 1 }));
+
+    expect(failed).toHaveBeenCalledWith('j1', 'Invalid job: image no longer belongs to the item', null);
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Unit tests for signed image transforms, the derivative cache and blurhash placeholders
+ */
+
+import sharp from 'sharp';
+import { ImageTransformService } from '../../src/services/imageTransformService';
+import { LocalStorageService } from '../../src/services/localStorageService';
+import { GoogleCloudService } from '../../src/services/googleCloudService';
+import { encodeBlurhash, blurhashFromImage } from '../../src/utils/blurhash';
+
+jest.mock('../../src/services/googleCloudService', () => ({
+  GoogleCloudService: {
+    fileExists: jest.fn(),
+    downloadFile: jest.fn(),
+    uploadImage: jest.fn(),
+    getFileGeneration: jest.fn(),
+  },
+}));
+
+const SOURCE = 'images/wardrobe/u1/shirt_optimized.jpg';
+
+describe('ImageTransformService', () => {
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    jest.clearAllMocks();
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  describe('parseParams', () => {
+    it('should apply defaults and reject out-of-range values', () => {
+      expect(ImageTransformService.parseParams({ w: '640' })).toEqual({
+        width: 640, height: undefined, fit: 'cover', format: 'auto', quality: 75,
+      });
+      expect(() => ImageTransformService.parseParams({ w: '5000' })).toThrow('Invalid w');
+      expect(() => ImageTransformService.parseParams({ fit: 'stretch' })).toThrow('Invalid fit');
+      expect(() => ImageTransformService.parseParams({ fm: 'gif' })).toThrow('Invalid format');
+      expect(() => ImageTransformService.parseParams({ q: '0' })).toThrow('Invalid quality');
+    });
+  });
+
+  describe('signed URLs', () => {
+    it('should accept its own signatures and reject tampered or expired ones', () => {
+      const url = new URL(ImageTransformService.signedUrl(`/storage/${SOURCE}`, { width: 320 }) as string);
+      const sourcePath = url.pathname.replace('/storage/transform/', '');
+      const params = ImageTransformService.parseParams(Object.fromEntries(url.searchParams));
+      const exp = Number(url.searchParams.get('exp'));
+      const sig = url.searchParams.get('sig') as string;
+
+      expect(sourcePath).toBe(SOURCE);
+      expect(ImageTransformService.verify(sourcePath, params, exp, sig)).toBe(true);
+      expect(ImageTransformService.verify(sourcePath, { ...params, width: 2048 }, exp, sig)).toBe(false);
+      expect(ImageTransformService.verify('images/other.jpg', params, exp, sig)).toBe(false);
+      expect(ImageTransformService.verify(sourcePath, params, exp, sig, exp + 1)).toBe(false);
+    });
+
+    it('should return stable URLs for stored images and skip remote ones', () => {
+      expect(ImageTransformService.signedUrl(`storage/${SOURCE}`, { width: 640 }))
+        .toBe(ImageTransformService.signedUrl(`/storage/${SOURCE}`, { width: 640 }));
+      expect(ImageTransformService.signedUrl('https://cdn.example.com/shirt.jpg', { width: 640 })).toBeNull();
+      expect(ImageTransformService.srcSet(`/storage/${SOURCE}`).map(candidate => candidate.width)).toEqual([320, 640, 960, 1280]);
+      expect(() => ImageTransformService.signedUrl('/storage/../.env', { width: 640 })).toThrow('Invalid storage path');
+    });
+  });
+
+  describe('getDerivative', () => {
+    const params = ImageTransformService.parseParams({ w: '20', fm: 'auto' });
+    let source: Buffer;
+
+    beforeAll(async () => {
+      source = await sharp({ create: { width: 80, height: 60, channels: 3, background: '#336699' } }).jpeg().toBuffer();
+    });
+
+    beforeEach(() => {
+      jest.spyOn(LocalStorageService, 'getImageInfo').mockResolvedValue({
+        exists: true, size: source.length, lastModified: new Date('2026-10-19T10:00:00Z'),
+      });
+      jest.spyOn(LocalStorageService, 'imageExists').mockResolvedValue(true);
+      (GoogleCloudService.fileExists as jest.Mock).mockResolvedValue(false);
+      (GoogleCloudService.uploadImage as jest.Mock).mockResolvedValue('gs://derivative');
+    });
+
+    it('should render, cache and mirror a missing derivative, dropping ones from older source versions', async () => {
+      const dir = LocalStorageService.derivativeDir(SOURCE);
+      jest.spyOn(LocalStorageService, 'listFiles').mockResolvedValue(['aaaaaaaaaaaa-00000000.webp']);
+      jest.spyOn(LocalStorageService, 'readImage').mockResolvedValue(source);
+      const remove = jest.spyOn(LocalStorageService, 'deletePath').mockResolvedValue();
+      const save = jest.spyOn(LocalStorageService, 'saveFile').mockResolvedValue();
+
+      const derivative = await ImageTransformService.getDerivative(SOURCE, params, 'image/webp,image/*');
+
+      expect(derivative.contentType).toBe('image/webp');
+      expect(await sharp(derivative.buffer).metadata()).toMatchObject({ format: 'webp', width: 20, height: 15 });
+      expect(remove).toHaveBeenCalledWith(`${dir}/aaaaaaaaaaaa-00000000.webp`);
+      expect(save).toHaveBeenCalledWith(expect.stringMatching(new RegExp(`^${dir}/\\w{12}-\\w{8}\\.webp$`)), derivative.buffer);
+      expect(GoogleCloudService.uploadImage).toHaveBeenCalledWith(derivative.buffer, save.mock.calls[0][0], 'image/webp');
+    });
+
+    it('should serve a cached derivative without rendering again', async () => {
+      const save = jest.spyOn(LocalStorageService, 'saveFile').mockResolvedValue();
+      jest.spyOn(LocalStorageService, 'readImage').mockResolvedValue(source);
+      jest.spyOn(LocalStorageService, 'listFiles').mockResolvedValue([]);
+      const first = await ImageTransformService.getDerivative(SOURCE, params, 'image/avif');
+      const cachedName = (save.mock.calls[0][0] as string).split('/').pop() as string;
+
+      jest.spyOn(LocalStorageService, 'listFiles').mockResolvedValue([cachedName]);
+      const read = jest.spyOn(LocalStorageService, 'readImage').mockResolvedValue(first.buffer);
+      const render = jest.spyOn(ImageTransformService, 'render');
+
+      const second = await ImageTransformService.getDerivative(SOURCE, params, 'image/avif');
+
+      expect(second).toEqual(first);
+      expect(read).toHaveBeenCalledWith(save.mock.calls[0][0]);
+      expect(render).not.toHaveBeenCalled();
+    });
+
+    it('should report missing sources', async () => {
+      jest.spyOn(LocalStorageService, 'getImageInfo').mockResolvedValue({ exists: false });
+      (GoogleCloudService.getFileGeneration as jest.Mock).mockResolvedValue(null);
+
+      await expect(ImageTransformService.getDerivative('images/missing.jpg', params)).rejects.toThrow('Image not found');
+    });
+  });
+});
+
+describe('blurhash', () => {
+  it('should match the reference encoding of a flat black image', () => {
+    expect(encodeBlurhash(new Uint8ClampedArray(8 * 8 * 4).fill(0), 8, 8)).toBe('L00000fQfQfQfQfQfQfQfQfQfQfQ');
+  });
+
+  it('should carry the average colour of an encoded image in its DC component', async () => {
+    const image = await sharp({ create: { width: 300, height: 400, channels: 3, background: '#ffffff' } }).png().toBuffer();
+
+    const hash = await blurhashFromImage(image);
+
+    expect(hash).toHaveLength(28);
+    expect(hash.slice(2, 6)).toBe('TSUA');
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * Unit tests for SKU variant stock, checkout reservations and low-stock alerts
+ */
+
+import { InventoryManagementModel } from '../../src/models/InventoryManagement';
+import { InventoryReservationModel } from '../../src/models/InventoryReservation';
+import { SKUItemModel } from '../../src/models/SKUItem';
+import { StoreModel } from '../../src/models/Store';
+import { BrandAccountModel } from '../../src/models/BrandAccount';
+import { BrandTeamModel } from '../../src/models/BrandTeam';
+import { MarketplaceModel } from '../../src/models/Marketplace';
+import { EventNotificationService } from '../../src/services/EventNotificationService';
+import { InventoryStockService } from '../../src/services/inventoryStockService';
+import { TransactionService } from '../../src/services/transactionService';
+import { db } from '../../src/database/connection';
+
+jest.mock('../../src/database/connection', () => ({
+  db: {
+    query: jest.fn(),
+    transaction: jest.fn(),
+  },
+}));
+jest.mock('../../src/models/SKUItem');
+jest.mock('../../src/models/Store');
+jest.mock('../../src/models/BrandAccount');
+jest.mock('../../src/models/BrandTeam');
+jest.mock('../../src/models/Marketplace');
+jest.mock('../../src/services/EventNotificationService');
+jest.mock('../../src/services/imageEmbeddingService');
+
+const mockDb = db as jest.Mocked<typeof db>;
+
+const stockRow = (overrides: Record<string, any> = {}) => ({
+  id: 'inv-1',
+  brand_id: 'brand-1',
+  sku_item_id: 'sku-1',
+  store_id: null,
+  sku: 'TEE-01-BLK-M',
+  quantity: 10,
+  reserved_quantity: 0,
+  available_quantity: 10,
+  reorder_level: 2,
+  reorder_quantity: 20,
+  low_stock_alerted_at: null,
+  ...overrides,
+});
+
+const movementRow = { rows: [{ id: 'mov-1', inventory_item_id: 'inv-1' }] };
+
+describe('InventoryStockService', () => {
+  let client: { query: jest.Mock };
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    jest.clearAllMocks();
+    client = {
+      query: jest.fn(async (sql: string) => (sql.includes('INSERT INTO inventory_movements') ? movementRow : { rows: [] })),
+    };
+    mockDb.transaction.mockImplementation((async (callback: any) => callback(client)) as any);
+    mockDb.query.mockResolvedValue({ rows: [], rowCount: 0 } as any);
+    (SKUItemModel.findById as jest.Mock).mockResolvedValue({ id: 'sku-1', brandId: 'brand-1', code: 'TEE-01-BLK-M', name: 'Basic Tee' });
+    (BrandAccountModel.findById as jest.Mock).mockResolvedValue({ id: 'brand-1', userId: 'owner-1' });
+    (BrandTeamModel.getTeamMembers as jest.Mock).mockResolvedValue([]);
+    (BrandTeamModel.isMember as jest.Mock).mockResolvedValue(false);
+  });
+
+  it('should compute available stock from the updated quantities', async () => {
+    await InventoryManagementModel.recordMovement({
+      inventoryItemId: 'inv-1', movementType: 'out', quantity: 2, reason: 'Store sale', performedBy: 'user-1',
+    }, client as any);
+
+    const [sql, values] = client.query.mock.calls[1];
+    expect(sql).toContain('available_quantity = quantity - $2 - reserved_quantity');
+    expect(values).toEqual(['inv-1', 2]);
+  });
+
+  it('should reserve from the location with most stock and expire after the TTL', async () => {
+    client.query.mockImplementation(async (sql: string) => {
+      if (sql.includes('available_quantity >= $2')) return { rows: [stockRow({ store_id: 'store-1' })] };
+      if (sql.includes('INSERT INTO inventory_reservations')) {
+        return { rows: [{ id: 'res-1', inventory_item_id: 'inv-1', quantity: 2, status: 'active', user_id: 'buyer-1', expires_at: new Date() }] };
+      }
+      return sql.includes('INSERT INTO inventory_movements') ? movementRow : { rows: [] };
+    });
+    jest.spyOn(InventoryManagementModel, 'findBySkuLocation').mockResolvedValue(null);
+    const before = Date.now();
+
+    const reservation = await InventoryStockService.reserve({ skuItemId: 'sku-1', quantity: 2, userId: 'buyer-1' });
+
+    const movement = client.query.mock.calls.find(([sql]) => sql.includes('INSERT INTO inventory_movements'))!;
+    expect(movement[1].slice(0, 3)).toEqual(['inv-1', 'reserved', 2]);
+    const insert = client.query.mock.calls.find(([sql]) => sql.includes('INSERT INTO inventory_reservations'))!;
+    expect(insert[1][4].getTime()).toBeGreaterThanOrEqual(before + 30 * 60 * 1000);
+    expect(reservation).toMatchObject({ id: 'res-1', skuItemId: 'sku-1', storeId: 'store-1' });
+  });
+
+  it('should refuse to reserve more than is available', async () => {
+    await expect(InventoryStockService.reserve({ skuItemId: 'sku-1', quantity: 3, userId: 'buyer-1' }))
+      .rejects.toThrow('Insufficient stock');
+    expect(client.query.mock.calls.some(([sql]) => sql.includes('INSERT INTO inventory_reservations'))).toBe(false);
+  });
+
+  it('should commit a checkout reservation as a store sale', async () => {
+    const reservation = {
+      id: 'res-1', inventoryItemId: 'inv-1', skuItemId: 'sku-1', storeId: 'store-1',
+      quantity: 1, status: 'active', userId: 'buyer-1', reference: 'order-9',
+    };
+    jest.spyOn(InventoryReservationModel, 'findById').mockResolvedValue(reservation as any);
+    jest.spyOn(InventoryManagementModel, 'findBySkuLocation').mockResolvedValue({ id: 'inv-1' } as any);
+
+    await InventoryStockService.recordStoreSale('brand-1', { reservationId: 'res-1' }, 'seller-1');
+
+    const movements = client.query.mock.calls
+      .filter(([sql]) => sql.includes('INSERT INTO inventory_movements'))
+      .map(([, values]) => values.slice(1, 3));
+    expect(movements).toEqual([['released', 1], ['out', 1]]);
+    expect(client.query).toHaveBeenCalledWith(expect.stringContaining('UPDATE inventory_reservations SET status'), ['committed', 'res-1']);
+  });
+
+  it('should reject stock counts below what checkouts hold and stores outside the brand', async () => {
+    jest.spyOn(InventoryManagementModel, 'findBySkuLocation').mockResolvedValue({ id: 'inv-1', quantity: 5, reservedQuantity: 3 } as any);
+    await expect(InventoryStockService.setStockLevel('brand-1', { skuItemId: 'sku-1', quantity: 2 }, 'owner-1'))
+      .rejects.toThrow('3 units are reserved');
+
+    (StoreModel.findById as jest.Mock).mockResolvedValue({ id: 'store-9', userId: 'someone-else' });
+    await expect(InventoryStockService.setStockLevel('brand-1', { skuItemId: 'sku-1', storeId: 'store-9', quantity: 2 }, 'owner-1'))
+      .rejects.toThrow('not one of the brand\'s locations');
+  });
+
+  it('should alert the owner and catalog team once when stock reaches the reorder level', async () => {
+    jest.spyOn(InventoryManagementModel, 'findBySkuLocation').mockResolvedValue({
+      id: 'inv-1', brandId: 'brand-1', skuItemId: 'sku-1', sku: 'TEE-01-BLK-M', availableQuantity: 2, reorderLevel: 2, reorderQuantity: 20,
+    } as any);
+    const setAlerted = jest.spyOn(InventoryManagementModel, 'setLowStockAlerted').mockResolvedValue(true);
+    (BrandTeamModel.getTeamMembers as jest.Mock).mockResolvedValue([
+      { userId: 'designer-1', roles: ['Designer'] },
+      { userId: 'model-1', roles: ['Model'] },
+    ]);
+
+    await InventoryStockService.checkLowStock('sku-1', null);
+
+    expect(setAlerted).toHaveBeenCalledWith('inv-1', true);
+    expect(EventNotificationService.notifyLowStock).toHaveBeenCalledWith(
+      ['owner-1', 'designer-1'],
+      expect.objectContaining({ skuName: 'Basic Tee', availableQuantity: 2 })
+    );
+
+    setAlerted.mockResolvedValue(false);
+    await InventoryStockService.checkLowStock('sku-1', null);
+    expect(EventNotificationService.notifyLowStock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should sell from the listing stock when a transaction completes without a reservation', async () => {
+    jest.spyOn(InventoryReservationModel, 'findByReference').mockResolvedValue([]);
+    jest.spyOn(InventoryManagementModel, 'findBySkuLocation').mockResolvedValue({ id: 'inv-1', storeId: undefined } as any);
+
+    await InventoryStockService.commitForTransaction({ id: 'txn-1', sellerId: 'seller-1' }, { id: 'listing-1', stockSkuItemId: 'sku-1' });
+
+    const movement = client.query.mock.calls.find(([sql]) => sql.includes('INSERT INTO inventory_movements'))!;
+    expect(movement[1]).toEqual(['inv-1', 'out', 1, 'Marketplace sale', 'txn-1', 'seller-1']);
+  });
+});
+
+describe('TransactionService stock sync', () => {
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    jest.clearAllMocks();
+    mockDb.query.mockResolvedValue({
+      rows: [{ id: 'txn-1', listing_id: 'listing-1', buyer_id: 'buyer-1', seller_id: 'seller-1', amount: '100', net_amount: '90', fees: {}, shipping_address: {}, status: 'completed' }],
+    } as any);
+  });
+
+  it('should write the sale movement when a transaction completes and release stock when it is cancelled', async () => {
+    const commit = jest.spyOn(InventoryStockService, 'commitForTransaction').mockResolvedValue();
+    const release = jest.spyOn(InventoryStockService, 'releaseForTransaction').mockResolvedValue();
+    (MarketplaceModel.findById as jest.Mock).mockResolvedValue({ id: 'listing-1', stockSkuItemId: 'sku-1' });
+    const service = new TransactionService();
+
+    await service.updateTransaction('txn-1', { status: 'completed' });
+    expect(commit).toHaveBeenCalledWith(expect.objectContaining({ id: 'txn-1' }), expect.objectContaining({ stockSkuItemId: 'sku-1' }));
+
+    await service.updateTransaction('txn-1', { status: 'cancelled' });
+    expect(release).toHaveBeenCalledWith('txn-1', 'Transaction cancelled');
+  });
+});
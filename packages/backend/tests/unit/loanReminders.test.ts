@@ -0,0 +1,85 @@
+/**
+ * Unit tests for loan reminder scheduling
+ */
+
+import { LoanLifecycleService } from '../../src/services/loanLifecycleService';
+import { ItemTrackingModel, LoanReminderCandidate } from '../../src/models/ItemTracking';
+import { MessagingService } from '../../src/services/messagingService';
+import { NotificationService } from '../../src/services/notificationService';
+
+jest.mock('../../src/database/connection', () => ({
+  db: {
+    query: jest.fn(),
+    transaction: jest.fn(),
+  },
+}));
+
+describe('LoanLifecycleService.getReminderAction', () => {
+  const now = new Date('2026-10-19T12:00:00Z');
+  const dueIn = (hours: number) => new Date(now.getTime() + hours * 60 * 60 * 1000);
+
+  it('should send a single due-soon reminder inside the window', () => {
+    expect(LoanLifecycleService.getReminderAction({ expectedReturnDate: dueIn(24), overdueLevel: 0 }, now))
+      .toEqual({ kind: 'due_soon' });
+
+    expect(LoanLifecycleService.getReminderAction({
+      expectedReturnDate: dueIn(24),
+      dueSoonRemindedAt: dueIn(-2),
+      overdueLevel: 0,
+    }, now)).toBeNull();
+
+    expect(LoanLifecycleService.getReminderAction({ expectedReturnDate: dueIn(72), overdueLevel: 0 }, now)).toBeNull();
+  });
+
+  it('should escalate overdue reminders once per level', () => {
+    expect(LoanLifecycleService.getReminderAction({ expectedReturnDate: dueIn(-3), overdueLevel: 0 }, now))
+      .toEqual({ kind: 'overdue', level: 1, daysOverdue: 0 });
+
+    expect(LoanLifecycleService.getReminderAction({ expectedReturnDate: dueIn(-3 * 24), overdueLevel: 1 }, now))
+      .toBeNull();
+
+    expect(LoanLifecycleService.getReminderAction({ expectedReturnDate: dueIn(-8 * 24), overdueLevel: 1 }, now))
+      .toEqual({ kind: 'overdue', level: 2, daysOverdue: 8 });
+
+    // A loan the job missed for weeks jumps straight to the last level
+    expect(LoanLifecycleService.getReminderAction({ expectedReturnDate: dueIn(-20 * 24), overdueLevel: 0 }, now))
+      .toEqual({ kind: 'overdue', level: 3, daysOverdue: 20 });
+
+    expect(LoanLifecycleService.getReminderAction({ expectedReturnDate: dueIn(-30 * 24), overdueLevel: 3 }, now))
+      .toBeNull();
+  });
+
+  it('should skip returned loans and loans without a return date', () => {
+    expect(LoanLifecycleService.getReminderAction({ overdueLevel: 0 }, now)).toBeNull();
+    expect(LoanLifecycleService.getReminderAction({
+      expectedReturnDate: dueIn(-48),
+      actualReturnDate: dueIn(-1),
+      overdueLevel: 0,
+    }, now)).toBeNull();
+  });
+});
+
+describe('LoanLifecycleService.sendReminders', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should mark the loan reminded even when posting to the conversation fails', async () => {
+    const loan = {
+      id: 'loan-1', itemId: 'item-1', ownerId: 'owner-1', loaneeId: 'borrower-1', loaneeName: 'Ana', itemName: 'Denim Jacket',
+      loanDate: new Date('2026-10-01T12:00:00Z'), expectedReturnDate: new Date('2026-10-18T12:00:00Z'), overdueLevel: 0,
+    } as unknown as LoanReminderCandidate;
+    jest.spyOn(ItemTrackingModel, 'getLoansNeedingReminders').mockResolvedValue([loan]);
+    const markReminded = jest.spyOn(ItemTrackingModel, 'markLoanReminded').mockResolvedValue();
+    const notify = jest.spyOn(NotificationService, 'send').mockResolvedValue(null);
+    jest.spyOn(MessagingService.prototype, 'startConversation').mockResolvedValue({ id: 'conv-1' } as unknown as Awaited<ReturnType<MessagingService['startConversation']>>);
+    jest.spyOn(MessagingService.prototype, 'sendMessage').mockRejectedValue(new Error('Recipient user not found'));
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const sent = await LoanLifecycleService.sendReminders(new Date('2026-10-19T12:00:00Z'));
+
+    expect(markReminded).toHaveBeenCalledWith('loan-1', { overdueLevel: 1 });
+    expect(notify).toHaveBeenCalledTimes(2);
+    expect(sent).toEqual({ dueSoon: 0, overdue: 1 });
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Unit tests for marketplace offer negotiation rules
+ */
+
+import { OfferService } from '../../src/services/offerService';
+
+jest.mock('../../src/database/connection', () => ({
+  db: {
+    query: jest.fn(),
+    transaction: jest.fn(),
+  },
+}));
+
+describe('OfferService', () => {
+  const now = new Date('2026-10-19T12:00:00Z');
+  const open = {
+    buyerId: 'buyer-1',
+    sellerId: 'seller-1',
+    expiresAt: new Date('2026-10-20T12:00:00Z'),
+  };
+
+  it('should let only the seller answer a pending offer', () => {
+    const offer = { ...open, status: 'pending' as const };
+
+    expect(() => OfferService.assertCanRespond(offer, 'seller-1', 'accept', now)).not.toThrow();
+    expect(() => OfferService.assertCanRespond(offer, 'seller-1', 'counter', now)).not.toThrow();
+    expect(() => OfferService.assertCanRespond(offer, 'buyer-1', 'accept', now))
+      .toThrow('Waiting for the other party to respond');
+  });
+
+  it('should let only the buyer answer a counter-offer', () => {
+    const offer = { ...open, status: 'countered' as const };
+
+    expect(() => OfferService.assertCanRespond(offer, 'buyer-1', 'accept', now)).not.toThrow();
+    expect(() => OfferService.assertCanRespond(offer, 'buyer-1', 'counter', now)).not.toThrow();
+    expect(() => OfferService.assertCanRespond(offer, 'seller-1', 'counter', now))
+      .toThrow('Waiting for the other party to respond');
+  });
+
+  it('should let either party decline an open negotiation', () => {
+    const offer = { ...open, status: 'countered' as const };
+
+    expect(() => OfferService.assertCanRespond(offer, 'buyer-1', 'decline', now)).not.toThrow();
+    expect(() => OfferService.assertCanRespond(offer, 'seller-1', 'decline', now)).not.toThrow();
+    expect(() => OfferService.assertCanRespond(offer, 'someone-else', 'decline', now))
+      .toThrow('Not authorized to respond to this offer');
+  });
+
+  it('should reject responses to closed or expired offers', () => {
+    expect(() => OfferService.assertCanRespond({ ...open, status: 'accepted' }, 'seller-1', 'decline', now))
+      .toThrow('Offer is already accepted');
+    expect(() => OfferService.assertCanRespond({ ...open, status: 'pending' }, 'seller-1', 'accept', new Date('2026-10-21T00:00:00Z')))
+      .toThrow('Offer has expired');
+  });
+
+  it('should use the counter amount while countered', () => {
+    const counterOffer = { amount: 180, createdAt: now };
+
+    expect(OfferService.currentAmount({ status: 'pending', amount: 150 })).toBe(150);
+    expect(OfferService.currentAmount({ status: 'countered', amount: 150, counterOffer })).toBe(180);
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Unit tests for notification channel planning, quiet hours and digests
+ */
+
+import { NotificationService } from '../../src/services/notificationService';
+import { NotificationSettings } from '../../src/models/NotificationPreference';
+import { UserModel } from '../../src/models/User';
+import { mailService } from '../../src/services/MailService';
+
+jest.mock('../../src/database/connection', () => ({
+  db: {
+    query: jest.fn(),
+    transaction: jest.fn(),
+  },
+}));
+jest.mock('../../src/services/MailService', () => ({
+  mailService: { sendMail: jest.fn() },
+}));
+jest.mock('../../src/models/User');
+
+const utcSettings = (overrides: Partial<NotificationSettings> = {}): NotificationSettings => ({
+  quietHoursStart: null,
+  quietHoursEnd: null,
+  timezone: 'UTC',
+  digestHour: 8,
+  ...overrides,
+});
+
+describe('NotificationService preferences', () => {
+  it('should map notification types onto preference event types', () => {
+    expect(NotificationService.resolveEventType('follow_request_accepted')).toBe('follow');
+    expect(NotificationService.resolveEventType('marketplace_offer')).toBe('offer');
+    expect(NotificationService.resolveEventType('loan_overdue')).toBe('loan_reminder');
+    expect(NotificationService.resolveEventType('calendar_reminder')).toBe('calendar_drop');
+    expect(NotificationService.resolveEventType('saved_search_alert')).toBeNull();
+  });
+
+  it('should detect quiet hours that cross midnight', () => {
+    const settings = utcSettings({ quietHoursStart: '22:00', quietHoursEnd: '07:00' });
+
+    expect(NotificationService.isQuietHours(new Date('2026-03-10T23:30:00Z'), settings)).toBe(true);
+    expect(NotificationService.isQuietHours(new Date('2026-03-10T06:59:00Z'), settings)).toBe(true);
+    expect(NotificationService.isQuietHours(new Date('2026-03-10T07:00:00Z'), settings)).toBe(false);
+    expect(NotificationService.isQuietHours(new Date('2026-03-10T12:00:00Z'), utcSettings())).toBe(false);
+  });
+
+  it('should evaluate quiet hours in the user time zone', () => {
+    // 01:00 UTC is 22:00 the previous evening in São Paulo
+    const settings = utcSettings({ quietHoursStart: '21:00', quietHoursEnd: '23:00', timezone: 'America/Sao_Paulo' });
+
+    expect(NotificationService.isQuietHours(new Date('2026-03-10T01:00:00Z'), settings)).toBe(true);
+    expect(NotificationService.isQuietHours(new Date('2026-03-10T22:00:00Z'), settings)).toBe(false);
+  });
+
+  it('should send instant channels straight away and queue digests for the next digest hour', () => {
+    const plan = NotificationService.planDelivery('follow', [], utcSettings(), new Date('2026-03-10T12:00:30Z'));
+
+    expect(plan.inApp).toBe(true);
+    expect(plan.deliveries).toEqual([
+      { channel: 'email', action: 'digest', deliverAfter: new Date('2026-03-11T08:00:00Z') },
+      { channel: 'push', action: 'send' },
+    ]);
+  });
+
+  it('should hold instant deliveries until quiet hours end', () => {
+    const settings = utcSettings({ quietHoursStart: '22:00', quietHoursEnd: '07:00' });
+    const plan = NotificationService.planDelivery('offer', [], settings, new Date('2026-03-10T23:15:00Z'));
+
+    expect(plan.deliveries).toEqual([
+      { channel: 'email', action: 'defer', deliverAfter: new Date('2026-03-11T07:00:00Z') },
+      { channel: 'push', action: 'defer', deliverAfter: new Date('2026-03-11T07:00:00Z') },
+    ]);
+  });
+
+  it('should honour explicit preferences over defaults', () => {
+    const plan = NotificationService.planDelivery('offer', [
+      { eventType: 'offer', channel: 'in_app', mode: 'off' },
+      { eventType: 'offer', channel: 'push', mode: 'off' },
+      { eventType: 'like', channel: 'email', mode: 'instant' },
+    ], utcSettings(), new Date('2026-03-10T12:00:00Z'));
+
+    expect(plan.inApp).toBe(false);
+    expect(plan.deliveries).toEqual([{ channel: 'email', action: 'send' }]);
+  });
+
+  it('should deliver required channels even when turned off', () => {
+    const preferences = [{ eventType: 'loan_reminder' as const, channel: 'push' as const, mode: 'off' as const }];
+    const now = new Date('2026-03-10T12:00:00Z');
+
+    expect(NotificationService.planDelivery('loan_reminder', preferences, utcSettings(), now).deliveries)
+      .toEqual([]);
+    expect(NotificationService.planDelivery('loan_reminder', preferences, utcSettings(), now, ['email']).deliveries)
+      .toEqual([{ channel: 'email', action: 'send' }]);
+  });
+
+  it('should keep unmapped notification types in-app only', () => {
+    const plan = NotificationService.planDelivery(null, [], utcSettings(), new Date());
+
+    expect(plan).toEqual({ inApp: true, deliveries: [] });
+  });
+
+  it('should escape notification text in emails', async () => {
+    (UserModel.findById as jest.Mock).mockResolvedValue({ id: 'user-1', email: 'user@example.com' });
+
+    await NotificationService['sendEmail']('user-1', [{
+      type: 'comment',
+      title: '<img src=x onerror=alert(1)> commented',
+      message: 'Nice "fit" & <b>shoes</b>',
+      link: '/posts/1',
+    }]);
+
+    const { html } = (mailService.sendMail as jest.Mock).mock.calls[0][0];
+    expect(html).toContain('&lt;img src=x onerror=alert(1)&gt; commented');
+    expect(html).toContain('Nice &quot;fit&quot; &amp; &lt;b&gt;shoes&lt;/b&gt;');
+    expect(html).not.toContain('<img');
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Unit tests for outfit calendar repeat detection
+ */
+
+import { OutfitCalendarService } from '../../src/services/outfitCalendarService';
+import { OutfitCalendarModel } from '../../src/models/OutfitCalendar';
+import { OutfitModel } from '../../src/models/OutfitModel';
+import { ItemTrackingModel } from '../../src/models/ItemTracking';
+import { db } from '../../src/database/connection';
+
+jest.mock('../../src/database/connection', () => ({
+  db: {
+    query: jest.fn(),
+    transaction: jest.fn(),
+  },
+}));
+jest.mock('../../src/models/OutfitCalendar');
+jest.mock('../../src/models/OutfitModel');
+jest.mock('../../src/models/ItemTracking');
+
+describe('OutfitCalendarService.findRepeatedCompany', () => {
+  const nearby = [
+    { id: 'e1', plannedDate: '2026-10-10', people: ['ana', 'bia'], homiesListId: 'work' },
+    { id: 'e2', plannedDate: '2026-10-17', people: ['caio'], homiesListId: undefined },
+    { id: 'e3', plannedDate: '2026-09-01', people: ['ana'], homiesListId: undefined },
+  ];
+
+  it('should warn when the outfit is repeated with the same people inside the window', () => {
+    const warnings = OutfitCalendarService.findRepeatedCompany(
+      { plannedDate: '2026-10-19', people: ['ana', 'caio'] },
+      nearby,
+      30
+    );
+
+    expect(warnings).toEqual([
+      { entryId: 'e2', plannedDate: '2026-10-17', daysApart: 2, sharedPeople: ['caio'], homiesListId: undefined },
+      { entryId: 'e1', plannedDate: '2026-10-10', daysApart: 9, sharedPeople: ['ana'], homiesListId: undefined },
+    ]);
+  });
+
+  it('should ignore repeats with different people or outside the window', () => {
+    expect(OutfitCalendarService.findRepeatedCompany(
+      { plannedDate: '2026-10-19', people: ['duda'] },
+      nearby,
+      30
+    )).toEqual([]);
+
+    expect(OutfitCalendarService.findRepeatedCompany(
+      { plannedDate: '2026-10-19', people: ['ana'] },
+      nearby,
+      5
+    )).toEqual([]);
+  });
+
+  it('should treat the same homies list as the same company', () => {
+    const warnings = OutfitCalendarService.findRepeatedCompany(
+      { plannedDate: '2026-10-12', people: [], homiesListId: 'work' },
+      nearby,
+      7
+    );
+
+    expect(warnings).toEqual([
+      { entryId: 'e1', plannedDate: '2026-10-10', daysApart: 2, sharedPeople: [], homiesListId: 'work' },
+    ]);
+  });
+});
+
+describe('OutfitCalendarService', () => {
+  const outfitOwner = 'a1b2c3d4-0000-4000-8000-000000000001';
+  const friend = 'a1b2c3d4-0000-4000-8000-000000000002';
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (db.transaction as jest.Mock).mockImplementation(async (callback: (client: object) => unknown) => callback({}));
+    (OutfitModel.findById as jest.Mock).mockResolvedValue({
+      id: 'outfit-1',
+      ownerId: outfitOwner,
+      items: [{ itemId: 'item-1', itemType: 'vufs' }, { itemId: 'item-2', itemType: 'vufs' }],
+    });
+    (OutfitCalendarModel.findById as jest.Mock).mockResolvedValue({
+      id: 'entry-1', userId: outfitOwner, outfitId: 'outfit-1', plannedDate: '2026-10-10', people: [], status: 'planned',
+    });
+  });
+
+  it('should reject people that are not user ids', async () => {
+    await expect(OutfitCalendarService.schedule(outfitOwner, {
+      outfitId: 'outfit-1',
+      plannedDate: '2026-10-20',
+      people: [friend, 'Ana from work'],
+    })).rejects.toThrow('UUID format');
+    expect(OutfitCalendarModel.create).not.toHaveBeenCalled();
+  });
+
+  it('should log wears only for the request that marks the day as worn', async () => {
+    (OutfitCalendarModel.markWorn as jest.Mock).mockResolvedValueOnce(true).mockResolvedValueOnce(false);
+
+    const first = await OutfitCalendarService.markWorn('entry-1', outfitOwner);
+    await expect(OutfitCalendarService.markWorn('entry-1', outfitOwner)).rejects.toThrow('already marked as worn');
+
+    expect(first.itemsLogged).toBe(2);
+    expect(ItemTrackingModel.recordItemWear).toHaveBeenCalledTimes(2);
+  });
+});
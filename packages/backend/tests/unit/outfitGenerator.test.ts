@@ -0,0 +1,140 @@
+/**
+ * Unit tests for the rule-based outfit generator
+ */
+
+import { OutfitGeneratorService, GeneratorItem } from '../../src/services/outfitGeneratorService';
+import { BackendVUFSItem } from '../../src/models/VUFSItem';
+
+jest.mock('../../src/database/connection', () => ({
+  db: {
+    query: jest.fn(),
+    transaction: jest.fn(),
+  },
+}));
+
+const item = (itemId: string, role: GeneratorItem['role'], color: string, styles: string[] = [], extra: Partial<GeneratorItem> = {}): GeneratorItem => ({
+  itemId,
+  name: itemId,
+  role,
+  color,
+  styles,
+  keywords: itemId,
+  ...extra,
+});
+
+describe('OutfitGeneratorService', () => {
+  const now = new Date('2026-10-19T12:00:00Z');
+
+  const wardrobe: GeneratorItem[] = [
+    item('white tee', 'top', 'White', ['Casual']),
+    item('red shirt', 'top', 'Red', ['Classic']),
+    item('green polo', 'top', 'Green', ['Casual']),
+    item('blue jeans', 'bottom', 'Blue', ['Casual']),
+    item('black trousers', 'bottom', 'Black', ['Classic']),
+    item('cargo shorts', 'bottom', 'Green', ['Utility']),
+    item('white sneakers', 'footwear', 'White', ['Casual']),
+    item('black loafers', 'footwear', 'Black', ['Classic']),
+    item('wool coat', 'outerwear', 'Charcoal', ['Classic'], { weight: 5 }),
+  ];
+
+  describe('classifyRole', () => {
+    it('should map category keywords to outfit roles', () => {
+      expect(OutfitGeneratorService.classifyRole('Footwear Sneakers Low Top')).toBe('footwear');
+      expect(OutfitGeneratorService.classifyRole('Apparel Tops T-Shirt')).toBe('top');
+      expect(OutfitGeneratorService.classifyRole('Apparel Bottoms Jeans')).toBe('bottom');
+      expect(OutfitGeneratorService.classifyRole('Apparel Outerwear Parka')).toBe('outerwear');
+      expect(OutfitGeneratorService.classifyRole('Apparel Midi Dress')).toBe('dress');
+      expect(OutfitGeneratorService.classifyRole('Accessories Belt')).toBeNull();
+      expect(OutfitGeneratorService.classifyRole('Short Sleeve Tee')).toBe('top');
+      expect(OutfitGeneratorService.classifyRole('shortsleeve polo')).toBe('top');
+      expect(OutfitGeneratorService.classifyRole('Denim Shorts')).toBe('bottom');
+    });
+  });
+
+  describe('colorHarmony', () => {
+    it('should pair neutrals with anything and reject clashing hues', () => {
+      expect(OutfitGeneratorService.colorHarmony('Black', 'Pink')).toEqual({ compatible: true, rule: 'neutral' });
+      expect(OutfitGeneratorService.colorHarmony('Red', 'Teal')).toEqual({ compatible: true, rule: 'complementary' });
+      expect(OutfitGeneratorService.colorHarmony('Blue', 'Light Blue')).toEqual({ compatible: true, rule: 'analogous' });
+      expect(OutfitGeneratorService.colorHarmony('Red', 'Blue').compatible).toBe(false);
+    });
+  });
+
+  it('should build complete outfits without reusing pieces and explain each one', () => {
+    const suggestions = OutfitGeneratorService.generate(wardrobe, { count: 3 }, now);
+
+    expect(suggestions.length).toBeGreaterThan(0);
+    const used = new Set<string>();
+    for (const suggestion of suggestions) {
+      const roles = suggestion.items.map(piece => piece.role);
+      expect(roles).toEqual(expect.arrayContaining(['top', 'bottom', 'footwear']));
+      expect(suggestion.explanation.length).toBeGreaterThan(0);
+      suggestion.items.forEach(piece => {
+        expect(used.has(piece.itemId)).toBe(false);
+        used.add(piece.itemId);
+      });
+      // Red next to blue clashes
+      expect(suggestion.items.some(p => p.itemId === 'red shirt') && suggestion.items.some(p => p.itemId === 'blue jeans')).toBe(false);
+    }
+  });
+
+  it('should layer outerwear in the cold and drop shorts', () => {
+    const suggestions = OutfitGeneratorService.generate(wardrobe, { temperature: { min: 5, max: 12 } }, now);
+
+    expect(suggestions).toHaveLength(1);
+    expect(suggestions[0].items.map(piece => piece.itemId)).toContain('wool coat');
+    expect(suggestions[0].items.map(piece => piece.itemId)).not.toContain('cargo shorts');
+    expect(suggestions[0].explanation).toContain('wool coat adds a layer for 5–12°C');
+  });
+
+  it('should honour include, exclude and not-worn-recently constraints', () => {
+    const worn = wardrobe.map(piece => piece.itemId === 'white sneakers'
+      ? { ...piece, lastWornAt: new Date('2026-10-17T12:00:00Z') }
+      : piece);
+
+    const suggestions = OutfitGeneratorService.generate(worn, {
+      includeItemIds: ['black trousers'],
+      excludeItemIds: ['red shirt'],
+      notWornInDays: 7,
+      count: 5,
+    }, now);
+
+    // Only the loafers are left for footwear, so they cap the number of outfits
+    expect(suggestions).toHaveLength(1);
+    for (const suggestion of suggestions) {
+      const ids = suggestion.items.map(piece => piece.itemId);
+      expect(ids).toContain('black trousers');
+      expect(ids).not.toContain('red shirt');
+      expect(ids).not.toContain('white sneakers');
+      expect(suggestion.explanation).toContain('Built around black trousers');
+    }
+  });
+
+  it('should prefer pieces that suit the occasion', () => {
+    const [best] = OutfitGeneratorService.generate(wardrobe, { occasion: 'work', count: 1 }, now);
+
+    expect(best.items.every(piece => ['Classic', 'Casual', 'Minimalist'].some(style => piece.styles.includes(style)))).toBe(true);
+    expect(best.explanation.some(line => line.includes('suit a work occasion'))).toBe(true);
+  });
+
+  it('should keep short-sleeve tops for cool weather and trust the category over the name', () => {
+    const tee = OutfitGeneratorService.toGeneratorItem({
+      id: 'tee-1',
+      category: { page: 'Apparel', blueSubcategory: 'Tops', whiteSubcategory: 'T-Shirts' },
+      metadata: { name: 'Short Sleeve Skirt-Hem Tee' },
+    } as unknown as BackendVUFSItem);
+
+    expect(tee?.role).toBe('top');
+    expect(OutfitGeneratorService.suitsTemperature(tee!, { min: 10, max: 16 })).toBe(true);
+  });
+
+  it('should reject included items that cannot be worn together', () => {
+    expect(() => OutfitGeneratorService.generate(wardrobe, { includeItemIds: ['blue jeans', 'black trousers'] }, now))
+      .toThrow('Included items cannot be worn together: blue jeans (bottom) and black trousers (bottom)');
+    expect(() => OutfitGeneratorService.generate(
+      [...wardrobe, item('slip dress', 'dress', 'Black')],
+      { includeItemIds: ['white tee', 'slip dress'] },
+      now
+    )).toThrow('Included items cannot be worn together');
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Unit tests for marketplace export adapters
+ */
+
+import { ApparelItem } from '@vangarments/shared/types/vufs';
+import { PlatformExportAdapters } from '../../src/services/platformExportAdapters';
+
+jest.mock('../../src/database/connection', () => ({
+  db: {
+    query: jest.fn(),
+    transaction: jest.fn(),
+  },
+}));
+
+describe('PlatformExportAdapters', () => {
+  const item = {
+    id: 'item-1',
+    sku: 'APP-OSK-JAC-0001',
+    brand: 'Osklen',
+    model: 'Trench Coat',
+    style: ['Classic'],
+    pattern: '3 – Mediumweight',
+    material: 'Cotton',
+    pieceType: 'Jackets',
+    fit: 'Regular',
+    color: 'Navy',
+    size: 'M',
+    gender: "Women's",
+    condition: 'Excellent Used',
+    photographed: true,
+    price: 459.9,
+    owner: 'owner-1',
+    sold: false,
+    repassStatus: false,
+    createdDate: new Date('2026-10-01'),
+    operationalStatus: 'published',
+  } as ApparelItem;
+
+  const product = {
+    ...PlatformExportAdapters.fromVUFSItem('catalog-1', item, [
+      'https://cdn.example.com/front.jpg',
+      'https://cdn.example.com/back.jpg',
+    ]),
+    link: 'https://vangarments.com/items/catalog-1',
+  };
+
+  it('should register an adapter for every export platform', () => {
+    const platforms = PlatformExportAdapters.list().map(adapter => adapter.platform).sort();
+
+    expect(platforms).toEqual(['dropper', 'ebay', 'google_shopping', 'magazine_luiza', 'nuvem_shop', 'shopify', 'vinted']);
+    expect(() => PlatformExportAdapters.get('unknown' as any)).toThrow('Export platform unknown not found');
+  });
+
+  it('should map gender and category per platform', () => {
+    const nuvem = PlatformExportAdapters.get('nuvem_shop').toProductData(product);
+    const google = PlatformExportAdapters.get('google_shopping').toProductData(product);
+
+    expect(nuvem.platformGender).toBe('Feminino');
+    expect(nuvem.platformCategory).toBe('Roupas > Casacos e Jaquetas');
+    expect(google.platformGender).toBe('female');
+    expect(google.platformCategory).toBe('Apparel & Accessories > Clothing > Outerwear');
+  });
+
+  it('should build the title, SEO title and handle', () => {
+    const data = PlatformExportAdapters.get('shopify').toProductData(product);
+
+    expect(data.title).toBe('Osklen Trench Coat Navy Size M (Excellent Used)');
+    expect(data.handle).toBe('osklen-trench-coat-app-osk-jac-0001');
+    expect(data.pricing).toEqual({ price: 459.9, currency: 'BRL' });
+
+    const ebay = PlatformExportAdapters.get('ebay').toProductData({ ...product, name: 'Oversized Double Breasted Trench Coat With Belt' });
+    expect(ebay.title.length).toBeLessThanOrEqual(80);
+  });
+
+  it('should require a link and image for Google Shopping', () => {
+    const adapter = PlatformExportAdapters.get('google_shopping');
+
+    expect(adapter.validate(product)).toEqual([]);
+    expect(adapter.validate({ ...product, link: undefined, images: [] })).toEqual([
+      'Product link is required by Google Shopping',
+      'At least one image is required by Google Shopping',
+    ]);
+  });
+
+  it('should render a Google Shopping XML feed', () => {
+    const adapter = PlatformExportAdapters.get('google_shopping');
+    const feed = adapter.renderFeed!([{ product: { ...product, brand: 'A&B' }, data: adapter.toProductData(product) }]);
+
+    expect(feed).toContain('<rss version="2.0" xmlns:g="http://base.google.com/ns/1.0">');
+    expect(feed).toContain('<g:id>APP-OSK-JAC-0001</g:id>');
+    expect(feed).toContain('<g:price>459.90 BRL</g:price>');
+    expect(feed).toContain('<g:condition>used</g:condition>');
+    expect(feed).toContain('<g:brand>A&amp;B</g:brand>');
+    expect(feed).toContain('<g:additional_image_link>https://cdn.example.com/back.jpg</g:additional_image_link>');
+  });
+
+  it('should render a Shopify product CSV with image rows', () => {
+    const adapter = PlatformExportAdapters.get('shopify');
+    const rows = adapter.renderFeed!([{ product, data: adapter.toProductData(product) }]).trim().split('\n');
+
+    expect(rows[0].startsWith('Handle,Title,Body (HTML),Vendor')).toBe(true);
+    expect(rows[1]).toContain('osklen-trench-coat-app-osk-jac-0001,Osklen Trench Coat Navy Size M (Excellent Used)');
+    expect(rows[1]).toContain(',459.90,');
+    expect(rows[2]).toBe('osklen-trench-coat-app-osk-jac-0001' + ','.repeat(18) + 'https://cdn.example.com/back.jpg,2' + ','.repeat(7));
+  });
+
+  it('should build exportable products from brand SKUs', () => {
+    const fromSku = PlatformExportAdapters.fromSKUItem({
+      id: 'sku-1',
+      brandId: 'brand-1',
+      name: 'Logo Tee',
+      code: 'LT-001',
+      category: { page: 'Apparel', blueSubcategory: 'Tops', whiteSubcategory: 'Shirts', graySubcategory: 'T-Shirts' },
+      images: [
+        { url: 'https://cdn.example.com/detail.jpg', isPrimary: false },
+        { url: 'https://cdn.example.com/main.jpg', isPrimary: true },
+      ],
+      retailPriceBrl: 149,
+      brand: { name: 'Vangarments' },
+      gender: 'Male',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+
+    expect(fromSku.images[0]).toBe('https://cdn.example.com/main.jpg');
+    expect(PlatformExportAdapters.get('vinted').toProductData(fromSku).platformCategory).toBe('Clothing > Tops & t-shirts');
+  });
+});
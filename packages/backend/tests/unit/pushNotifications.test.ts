@@ -0,0 +1,118 @@
+/**
+ * Unit tests for push dispatch and dead token pruning against the mock gateway
+ */
+
+import { PushNotificationService } from '../../src/services/pushNotificationService';
+import { MockPushGateway } from '../../src/services/pushGateways';
+import { db } from '../../src/database/connection';
+
+jest.mock('../../src/database/connection', () => ({
+  db: {
+    query: jest.fn(),
+    transaction: jest.fn(),
+  },
+}));
+
+const mockDb = db as jest.Mocked<typeof db>;
+
+const device = (id: string, token: string, provider: 'expo' | 'fcm' | 'apns' = 'expo') => ({
+  id, userId: 'u1', token, provider, lastSeenAt: new Date(), createdAt: new Date(),
+});
+
+describe('PushNotificationService', () => {
+  let gateway: MockPushGateway;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    gateway = new MockPushGateway();
+    PushNotificationService.setGateway('expo', gateway);
+    PushNotificationService.setGateway('fcm', null);
+    PushNotificationService.setGateway('apns', null);
+  });
+
+  it('should validate tokens per provider', () => {
+    expect(PushNotificationService.validateToken('expo', 'ExponentPushToken[xxxxxxxxxxxxxxxxxxxxxx]')).toBe(true);
+    expect(PushNotificationService.validateToken('expo', 'not-an-expo-token')).toBe(false);
+    expect(PushNotificationService.validateToken('apns', 'a'.repeat(64))).toBe(true);
+    expect(PushNotificationService.validateToken('apns', 'zz')).toBe(false);
+    expect(PushNotificationService.validateToken('fcm', 'fcm-registration:token')).toBe(true);
+  });
+
+  it('should reject invalid tokens on registration', async () => {
+    await expect(PushNotificationService.registerDevice({ userId: 'u1', token: 'nope', provider: 'expo' }))
+      .rejects.toThrow('Invalid expo push token');
+    expect(mockDb.query).not.toHaveBeenCalled();
+  });
+
+  it('should summarise several notifications into one push', () => {
+    expect(PushNotificationService.buildMessage([
+      { type: 'follow', title: 'New follower' },
+      { type: 'like', title: 'New like' },
+    ])).toEqual({ title: 'Vangarments', body: 'You have 2 new notifications', data: { type: 'digest', link: '/notifications' } });
+  });
+
+  it('should push to every device of the user and record tickets for receipts', async () => {
+    mockDb.query
+      .mockResolvedValueOnce({ rows: [device('d1', 'ExpoPushToken[one]'), device('d2', 'ExpoPushToken[two]')] } as any)
+      .mockResolvedValueOnce({ rows: [] } as any);
+
+    await PushNotificationService.dispatch('u1', [
+      { type: 'comment', title: 'New comment', message: 'Nice look!', link: '/posts/p1', notificationId: 'n1' },
+    ]);
+
+    expect(gateway.sent).toEqual([
+      { token: 'ExpoPushToken[one]', title: 'New comment', body: 'Nice look!', data: { type: 'comment', link: '/posts/p1', notificationId: 'n1' } },
+      { token: 'ExpoPushToken[two]', title: 'New comment', body: 'Nice look!', data: { type: 'comment', link: '/posts/p1', notificationId: 'n1' } },
+    ]);
+    // No dead tokens to delete, so the only write is the ticket insert
+    expect(mockDb.query).toHaveBeenCalledTimes(2);
+    expect(mockDb.query.mock.calls[1][1]).toEqual([['mock-ticket-1', 'mock-ticket-2'], ['d1', 'd2']]);
+  });
+
+  it('should skip providers without a configured gateway', async () => {
+    mockDb.query.mockResolvedValueOnce({ rows: [device('d1', 'a'.repeat(64), 'apns')] } as any);
+
+    await PushNotificationService.dispatch('u1', [{ type: 'follow', title: 'New follower' }]);
+
+    expect(gateway.sent).toEqual([]);
+    expect(mockDb.query).toHaveBeenCalledTimes(1);
+  });
+
+  it('should prune devices whose receipts report them unregistered', async () => {
+    await gateway.send([
+      { token: 'ExpoPushToken[alive]', title: 'Hi' },
+      { token: 'ExpoPushToken[gone]', title: 'Hi' },
+    ]);
+    gateway.markUnregistered('ExpoPushToken[gone]');
+
+    mockDb.query
+      .mockResolvedValueOnce({
+        rows: [
+          { id: 'mock-ticket-1', deviceId: 'd1', provider: 'expo' },
+          { id: 'mock-ticket-2', deviceId: 'd2', provider: 'expo' },
+        ],
+      } as any)
+      .mockResolvedValue({ rows: [] } as any);
+
+    const result = await PushNotificationService.processReceipts(new Date('2026-03-10T12:00:00Z'));
+
+    expect(result).toEqual({ checked: 2, pruned: 1 });
+    expect(mockDb.query.mock.calls[0][1]).toEqual([new Date('2026-03-10T11:45:00Z'), 1000]);
+    expect(mockDb.query.mock.calls[1][1]).toEqual([['d2']]);
+    expect(mockDb.query.mock.calls[2][1]).toEqual([['mock-ticket-1', 'mock-ticket-2']]);
+  });
+
+  it('should still delete checked tickets when a provider fails to return receipts', async () => {
+    jest.spyOn(gateway, 'getReceipts').mockRejectedValueOnce(new Error('Expo unavailable'));
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    mockDb.query
+      .mockResolvedValueOnce({ rows: [{ id: 'mock-ticket-1', deviceId: 'd1', provider: 'expo' }] } as never)
+      .mockResolvedValue({ rows: [] } as never);
+
+    const result = await PushNotificationService.processReceipts(new Date('2026-03-10T12:00:00Z'));
+
+    expect(result).toEqual({ checked: 1, pruned: 0 });
+    expect(mockDb.query).toHaveBeenCalledTimes(2);
+    expect(mockDb.query.mock.calls[1][0]).toContain('DELETE FROM push_tickets');
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Unit tests for real-time session replay and SSE framing
+ */
+
+import { EventEmitter } from 'events';
+import { Server } from 'http';
+import { RealtimeGateway, GatewayFrame } from '../../src/services/realtimeGateway';
+import { MessagingEventService, MessagingEvent } from '../../src/services/messagingEventService';
+import { ConversationModel } from '../../src/models/Conversation';
+import { db } from '../../src/database/connection';
+
+jest.mock('../../src/database/connection', () => ({
+  db: {
+    query: jest.fn(),
+    transaction: jest.fn(),
+  },
+}));
+
+const stored = (cursor: number, type: MessagingEvent['type'] = 'message.created'): MessagingEvent => ({
+  cursor: String(cursor),
+  type,
+  conversationId: 'c1',
+  actorId: 'u2',
+  payload: { n: cursor },
+  createdAt: new Date('2026-10-19T12:00:00Z'),
+});
+
+describe('RealtimeGateway', () => {
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    jest.spyOn(MessagingEventService, 'getContactPresence').mockResolvedValue([{ userId: 'u2', online: true }]);
+    jest.spyOn(MessagingEventService, 'connectionOpened').mockResolvedValue();
+    jest.spyOn(MessagingEventService, 'connectionClosed').mockResolvedValue();
+  });
+
+  it('should replay stored events after the cursor, then deliver live events without duplicates', async () => {
+    jest.spyOn(MessagingEventService, 'getEventsSince')
+      .mockImplementationOnce(async () => {
+        // A live event lands while the first page is being read
+        (MessagingEventService as any).emit(['u1'], stored(13));
+        return { events: [stored(11), stored(12)], hasMore: true, resyncRequired: false };
+      })
+      .mockResolvedValueOnce({ events: [stored(13)], hasMore: false, resyncRequired: false });
+
+    const frames: GatewayFrame[] = [];
+    const close = await RealtimeGateway.openSession('u1', '10', frame => frames.push(frame));
+
+    (MessagingEventService as any).emit(['u1'], { type: 'typing', conversationId: 'c1', actorId: 'u2', payload: { isTyping: true }, createdAt: new Date() });
+    (MessagingEventService as any).emit(['u1'], stored(14, 'reaction.added'));
+    close();
+    (MessagingEventService as any).emit(['u1'], stored(15));
+
+    expect(frames.map(frame => ('cursor' in frame ? `${frame.type}:${frame.cursor}` : frame.type))).toEqual([
+      'message.created:11',
+      'message.created:12',
+      'message.created:13',
+      'ready:13',
+      'typing',
+      'reaction.added:14',
+    ]);
+    expect(MessagingEventService.getEventsSince).toHaveBeenLastCalledWith('u1', '12');
+    expect(MessagingEventService.connectionClosed).toHaveBeenCalledWith('u1');
+  });
+
+  it('should ask the client to resync when the cursor is older than the retained history', async () => {
+    jest.spyOn(MessagingEventService, 'getEventsSince').mockResolvedValue({ events: [], hasMore: false, resyncRequired: true });
+    jest.spyOn(MessagingEventService, 'getLatestCursor').mockResolvedValue('500');
+
+    const frames: GatewayFrame[] = [];
+    const close = await RealtimeGateway.openSession('u1', '3', frame => frames.push(frame));
+    close();
+
+    expect(frames).toEqual([
+      { type: 'resync_required' },
+      { type: 'ready', cursor: '500', presence: [{ userId: 'u2', online: true }] },
+    ]);
+  });
+
+  it('should emit concurrently published events in cursor order', async () => {
+    jest.spyOn(ConversationModel, 'getParticipants').mockResolvedValue([{ userId: 'u1' }] as unknown as Awaited<ReturnType<typeof ConversationModel.getParticipants>>);
+    let nextId = 20;
+    (db.query as jest.Mock).mockImplementation(async () => {
+      const id = nextId++;
+      // The first insert is the slowest to come back
+      await new Promise(resolve => setTimeout(resolve, id === 20 ? 20 : 0));
+      return { rows: [{ id, created_at: new Date() }] };
+    });
+
+    const received: string[] = [];
+    const unsubscribe = MessagingEventService.subscribe('u1', event => received.push(event.cursor!));
+    await Promise.all([
+      MessagingEventService.publish('c1', 'message.created', 'u2', { text: 'first' }),
+      MessagingEventService.publish('c1', 'message.created', 'u2', { text: 'second' }),
+    ]);
+    unsubscribe();
+
+    expect(received).toEqual(['20', '21']);
+  });
+
+  it('should reject malformed cursors', async () => {
+    await expect(RealtimeGateway.openSession('u1', 'abc', jest.fn())).rejects.toThrow('Invalid cursor');
+  });
+
+  it('should only put resumable events in the SSE id field', () => {
+    expect(RealtimeGateway.formatSseEvent(stored(7))).toBe(
+      `id: 7\nevent: message.created\ndata: ${JSON.stringify(stored(7))}\n\n`
+    );
+    expect(RealtimeGateway.formatSseEvent({ type: 'resync_required' })).toBe(
+      'event: resync_required\ndata: {"type":"resync_required"}\n\n'
+    );
+  });
+
+  it('should close upgrade requests for other paths', () => {
+    const server = new EventEmitter();
+    RealtimeGateway.attach(server as unknown as Server);
+    const socket = { write: jest.fn(), destroy: jest.fn() };
+
+    server.emit('upgrade', { url: '/api/v1/other', headers: {} }, socket, Buffer.alloc(0));
+
+    expect(socket.write).toHaveBeenCalledWith(expect.stringMatching(/^HTTP\/1\.1 404 Not Found\r\n/));
+    expect(socket.destroy).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,247 @@
+/**
+ * Unit tests for the sandbox payment provider, webhook signatures
+ * and reconciliation classification
+ */
+
+import { SandboxPaymentProvider } from '../../src/services/sandboxPaymentProvider';
+import { PaymentService, PaymentRequest } from '../../src/services/paymentService';
+import { PaymentReconciliationService } from '../../src/services/paymentReconciliationService';
+import { PaymentWebhookService } from '../../src/services/paymentWebhookService';
+import { TransactionService } from '../../src/services/transactionService';
+import { db } from '../../src/database/connection';
+import { WebhookSignature } from '../../src/utils/webhookSignature';
+
+jest.mock('../../src/database/connection', () => ({
+  db: {
+    query: jest.fn(),
+  },
+}));
+
+const buildRequest = (overrides: Partial<PaymentRequest> = {}): PaymentRequest => ({
+  amount: 250,
+  currency: 'BRL',
+  paymentMethod: {
+    type: 'credit_card',
+    details: { cardNumber: '4242424242424242' },
+  },
+  customer: {
+    id: 'buyer-1',
+    email: 'buyer@example.com',
+    name: 'Buyer',
+  },
+  metadata: {
+    transactionId: 'tx-1',
+    listingId: 'listing-1',
+    sellerId: 'seller-1',
+    buyerId: 'buyer-1',
+  },
+  ...overrides,
+});
+
+describe('SandboxPaymentProvider', () => {
+  const fixedNow = new Date('2026-10-19T12:00:00Z');
+  let provider: SandboxPaymentProvider;
+
+  beforeEach(() => {
+    provider = new SandboxPaymentProvider('test_secret', () => fixedNow);
+  });
+
+  it('should complete card payments immediately with deterministic ids', async () => {
+    const first = await provider.processPayment(buildRequest());
+    const other = new SandboxPaymentProvider('test_secret', () => fixedNow);
+    const second = await other.processPayment(buildRequest());
+
+    expect(first.success).toBe(true);
+    expect(first.status).toBe('completed');
+    expect(first.paymentId).toMatch(/^sbx_pay_/);
+    expect(first.paymentId).toBe(second.paymentId);
+    expect(first.transactionFee).toBe(7.55); // 2.9% + R$0.30
+  });
+
+  it('should issue a new payment id for each attempt on the same transaction', async () => {
+    const first = await provider.processPayment(buildRequest());
+    const retry = await provider.processPayment(buildRequest());
+
+    expect(retry.paymentId).not.toBe(first.paymentId);
+  });
+
+  it('should decline test cards', async () => {
+    const result = await provider.processPayment(buildRequest({
+      paymentMethod: { type: 'credit_card', details: { cardNumber: '4000 0000 0000 9995' } },
+    }));
+
+    expect(result.success).toBe(false);
+    expect(result.status).toBe('failed');
+    expect(result.errorMessage).toBe('Insufficient funds');
+  });
+
+  it('should keep PIX payments pending until settled by webhook', async () => {
+    const result = await provider.processPayment(buildRequest({
+      paymentMethod: { type: 'pix', details: {} },
+    }));
+
+    expect(result.status).toBe('pending');
+    expect((await provider.getPaymentStatus(result.paymentId)).status).toBe('pending');
+
+    const webhook = provider.settlePayment(result.paymentId, 'completed');
+    const event = provider.parseWebhook(webhook.rawBody, webhook.headers);
+
+    expect(event.paymentId).toBe(result.paymentId);
+    expect(event.status).toBe('completed');
+    expect(event.provider).toBe('sandbox');
+    expect((await provider.getPaymentStatus(result.paymentId)).completedAt).toEqual(fixedNow);
+  });
+
+  it('should reject webhooks with a tampered body', async () => {
+    const result = await provider.processPayment(buildRequest({
+      paymentMethod: { type: 'pix', details: {} },
+    }));
+    const webhook = provider.settlePayment(result.paymentId, 'failed', 'Expired QR code');
+    const tampered = webhook.rawBody.replace('"failed"', '"completed"');
+
+    expect(() => provider.parseWebhook(tampered, webhook.headers)).toThrow('Invalid webhook signature');
+  });
+
+  it('should track partial and full refunds', async () => {
+    const payment = await provider.processPayment(buildRequest());
+
+    const partial = await provider.refundPayment(payment.paymentId, 50);
+    expect(partial.success).toBe(true);
+    expect((await provider.getPaymentStatus(payment.paymentId)).status).toBe('completed');
+
+    const rest = await provider.refundPayment(payment.paymentId);
+    expect(rest.amount).toBe(200);
+    expect((await provider.getPaymentStatus(payment.paymentId)).status).toBe('refunded');
+
+    const extra = await provider.refundPayment(payment.paymentId, 1);
+    expect(extra.success).toBe(false);
+  });
+});
+
+describe('PaymentWebhookService', () => {
+  const mockQuery = db.query as jest.Mock;
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    mockQuery.mockReset();
+  });
+
+  it('should process a retried event again when the first attempt failed', async () => {
+    const sandbox = PaymentService.getProvider('sandbox') as SandboxPaymentProvider;
+    const payment = await sandbox.processPayment(buildRequest({ paymentMethod: { type: 'pix', details: {} } }));
+    const webhook = sandbox.settlePayment(payment.paymentId, 'completed');
+
+    let status = 'none';
+    mockQuery.mockImplementation(async (sql: string, values: unknown[]) => {
+      if (sql.includes('INSERT INTO payment_webhook_events')) {
+        if (status !== 'none') return { rows: [] };
+        status = 'received';
+        return { rows: [{ id: 'evt-row-1' }] };
+      }
+      if (sql.includes("processing_status = 'failed'")) {
+        if (status !== 'failed') return { rows: [] };
+        status = 'received';
+        return { rows: [{ id: 'evt-row-1' }] };
+      }
+      if (sql.includes('UPDATE payment_webhook_events')) {
+        status = values[0] as string;
+        return { rows: [] };
+      }
+      return { rows: [{ processing_status: status }] };
+    });
+    jest.spyOn(TransactionService.prototype, 'getTransactionByPaymentId')
+      .mockRejectedValueOnce(new Error('Database unavailable'))
+      .mockResolvedValue({ id: 'tx-1' } as unknown as Awaited<ReturnType<TransactionService['getTransactionByPaymentId']>>);
+    const apply = jest.spyOn(TransactionService.prototype, 'applyPaymentStatus')
+      .mockResolvedValue({ changed: true, status: 'paid' } as unknown as Awaited<ReturnType<TransactionService['applyPaymentStatus']>>);
+
+    await expect(PaymentWebhookService.ingest('sandbox', webhook.rawBody, webhook.headers)).rejects.toThrow('Database unavailable');
+    expect(status).toBe('failed');
+
+    const retry = await PaymentWebhookService.ingest('sandbox', webhook.rawBody, webhook.headers);
+    expect(retry).toMatchObject({ duplicate: false, processingStatus: 'processed', transactionId: 'tx-1' });
+    expect(apply).toHaveBeenCalledTimes(1);
+
+    const replay = await PaymentWebhookService.ingest('sandbox', webhook.rawBody, webhook.headers);
+    expect(replay).toMatchObject({ duplicate: true, processingStatus: 'processed' });
+    expect(apply).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('WebhookSignature', () => {
+  it('should reject signatures outside the tolerance window', () => {
+    const header = WebhookSignature.sign('secret', '{}', 1000);
+
+    expect(WebhookSignature.verify('secret', '{}', header, 300, 1200)).toBe(true);
+    expect(WebhookSignature.verify('secret', '{}', header, 300, 2000)).toBe(false);
+    expect(WebhookSignature.verify('other', '{}', header, 300, 1200)).toBe(false);
+    expect(WebhookSignature.verify('secret', '{}', undefined)).toBe(false);
+  });
+});
+
+describe('PaymentService provider registry', () => {
+  const originalProvider = process.env.PAYMENT_PROVIDER;
+
+  afterEach(() => {
+    process.env.PAYMENT_PROVIDER = originalProvider;
+  });
+
+  it('should register the sandbox provider by default', () => {
+    expect(PaymentService.listProviders()).toEqual(expect.arrayContaining(['stripe', 'pix', 'sandbox']));
+  });
+
+  it('should resolve to the configured provider', () => {
+    process.env.PAYMENT_PROVIDER = 'pix';
+    expect(PaymentService.resolveProviderName('credit_card')).toBe('pix');
+
+    delete process.env.PAYMENT_PROVIDER;
+    expect(PaymentService.resolveProviderName('credit_card')).toBe('sandbox');
+  });
+
+  it('should charge real providers when the sandbox is not registered', () => {
+    const sandbox = PaymentService.getProvider('sandbox');
+    PaymentService.unregisterProvider('sandbox');
+    delete process.env.PAYMENT_PROVIDER;
+
+    try {
+      expect(PaymentService.resolveProviderName('pix')).toBe('pix');
+      expect(PaymentService.resolveProviderName('credit_card')).toBe('stripe');
+    } finally {
+      PaymentService.registerProvider(sandbox);
+    }
+  });
+
+  it('should throw for unknown providers', () => {
+    expect(() => PaymentService.getProvider('unknown')).toThrow('Payment provider unknown not found');
+  });
+});
+
+describe('PaymentReconciliationService.classify', () => {
+  it('should accept matching states', () => {
+    expect(PaymentReconciliationService.classify(
+      { status: 'shipped', amount: 100 },
+      { status: 'completed', amount: 100 }
+    )).toBeNull();
+  });
+
+  it('should mark settled pending transactions as fixable', () => {
+    expect(PaymentReconciliationService.classify(
+      { status: 'pending_payment', amount: 100 },
+      { status: 'completed', amount: 100 }
+    )).toEqual({ type: 'status_mismatch', fixable: true });
+  });
+
+  it('should flag cancelled transactions that were charged', () => {
+    expect(PaymentReconciliationService.classify(
+      { status: 'cancelled', amount: 100 },
+      { status: 'completed', amount: 100 }
+    )).toEqual({ type: 'charged_but_cancelled', fixable: false });
+  });
+
+  it('should flag amount differences', () => {
+    expect(PaymentReconciliationService.classify(
+      { status: 'completed', amount: 100 },
+      { status: 'completed', amount: 90 }
+    )).toEqual({ type: 'amount_mismatch', fixable: false });
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Unit tests for saved marketplace search matching
+ */
+
+import { SavedSearchService } from '../../src/services/savedSearchService';
+import { mailService } from '../../src/services/MailService';
+
+jest.mock('../../src/database/connection', () => ({
+  db: {
+    query: jest.fn(),
+    transaction: jest.fn(),
+  },
+}));
+jest.mock('../../src/services/MailService', () => ({
+  mailService: { sendMail: jest.fn() },
+}));
+jest.mock('../../src/services/notificationService', () => ({
+  NotificationService: { send: jest.fn() },
+}));
+
+describe('SavedSearchService', () => {
+  const listing = {
+    status: 'active' as const,
+    category: 'jackets',
+    tags: ['Osklen', 'trench'],
+    condition: { status: 'excellent' } as any,
+    price: 450,
+    title: 'Osklen Trench Coat',
+    description: 'Navy cotton trench, size M',
+  };
+
+  it('should match listings that satisfy every filter', () => {
+    expect(SavedSearchService.matchesFilters(listing, {})).toBe(true);
+    expect(SavedSearchService.matchesFilters(listing, {
+      category: 'jackets',
+      brand: 'Osklen',
+      condition: ['new', 'excellent'],
+      priceRange: { min: 300, max: 500 },
+      search: 'trench',
+    })).toBe(true);
+  });
+
+  it('should reject listings failing any filter', () => {
+    expect(SavedSearchService.matchesFilters(listing, { category: 'shoes' })).toBe(false);
+    expect(SavedSearchService.matchesFilters(listing, { brand: 'Farm' })).toBe(false);
+    expect(SavedSearchService.matchesFilters(listing, { condition: ['new'] })).toBe(false);
+    expect(SavedSearchService.matchesFilters(listing, { priceRange: { min: 0, max: 400 } })).toBe(false);
+    expect(SavedSearchService.matchesFilters(listing, { search: 'linen' })).toBe(false);
+    expect(SavedSearchService.matchesFilters({ ...listing, status: 'sold' }, {})).toBe(false);
+  });
+
+  it('should search title and description case-insensitively', () => {
+    expect(SavedSearchService.matchesFilters(listing, { search: 'NAVY' })).toBe(true);
+  });
+
+  it('should alert on new matches and price drops only', () => {
+    expect(SavedSearchService.getAlertType(450)).toBe('new_match');
+    expect(SavedSearchService.getAlertType(400, 450)).toBe('price_drop');
+    expect(SavedSearchService.getAlertType(450, 450)).toBeNull();
+    expect(SavedSearchService.getAlertType(500, 450)).toBeNull();
+  });
+
+  it('should escape search names and listing titles in alert emails', async () => {
+    const search = { id: 'search-1', userId: 'user-1', name: '<b>Trench</b>', filters: {}, alertsEnabled: true, emailAlerts: true };
+
+    await SavedSearchService['sendAlert'](
+      search,
+      { ...listing, id: 'listing-1', title: 'Coat <img src=x onerror=alert(1)>' },
+      'new_match',
+      undefined,
+      'user@example.com'
+    );
+
+    const { html } = (mailService.sendMail as jest.Mock).mock.calls[0][0];
+    expect(html).toContain('New match for &quot;&lt;b&gt;Trench&lt;/b&gt;&quot;');
+    expect(html).toContain('Coat &lt;img src=x onerror=alert(1)&gt;');
+    expect(html).not.toContain('<img');
+  });
+});
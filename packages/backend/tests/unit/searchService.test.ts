@@ -0,0 +1,101 @@
+/**
+ * Unit tests for unified search query building and facets
+ */
+
+import { SearchService } from '../../src/services/searchService';
+import { db } from '../../src/database/connection';
+
+jest.mock('../../src/database/connection', () => ({
+  db: {
+    query: jest.fn(),
+    transaction: jest.fn(),
+  },
+}));
+
+const mockDb = db as jest.Mocked<typeof db>;
+
+describe('SearchService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should tokenize without accents, case or punctuation', () => {
+    expect(SearchService.tokenize('  Calça JEANS, azul-marinho! ')).toEqual(['calca', 'jeans', 'azul', 'marinho']);
+    expect(SearchService.tokenize('!!!')).toEqual([]);
+  });
+
+  it('should build prefix queries for partially typed words', () => {
+    expect(SearchService.buildPrefixQuery(['cam', 'azu'])).toBe('cam:* & azu:*');
+  });
+
+  it('should number filter parameters after the match parameters', () => {
+    const { conditions, values } = SearchService.buildConditions({
+      viewerId: 'u1',
+      types: ['item', 'sku'],
+      brands: ['Nike'],
+      colors: ['Azul'],
+      minPrice: 100,
+    }, 4);
+
+    expect(conditions).toEqual([
+      '(d.is_public OR d.owner_id = $4)',
+      'd.entity_type = ANY($5)',
+      'lower(d.brand_name) = ANY($6)',
+      'd.colors && $7::text[]',
+      'd.price >= $8',
+    ]);
+    expect(values).toEqual(['u1', ['item', 'sku'], ['nike'], ['azul'], 100]);
+  });
+
+  it('should number match subquery parameters from the given index', () => {
+    const { sql, values } = SearchService.buildMatchQuery('sku', 'Camisa azu', 3);
+
+    expect(sql).toContain("websearch_to_tsquery('search_portuguese', $3)");
+    expect(sql).toContain('to_tsquery(\'simple\', $4::text)');
+    expect(sql).toContain('d.entity_type = $6');
+    expect(values).toEqual(['Camisa azu', 'camisa:* & azu:*', 'camisa azu', 'sku']);
+  });
+
+  it('should only show public documents to anonymous searches', () => {
+    expect(SearchService.buildConditions({}, 4)).toEqual({ conditions: ['d.is_public'], values: [] });
+  });
+
+  it('should turn price buckets into ranges', () => {
+    expect(SearchService.toPriceRanges([
+      { bucket: 4, count: 2 },
+      { bucket: 0, count: 5 },
+      { bucket: 2, count: 1 },
+    ])).toEqual([
+      { min: 0, max: 100, count: 5 },
+      { min: 250, max: 500, count: 1 },
+      { min: 1000, max: undefined, count: 2 },
+    ]);
+  });
+
+  it('should return ranked results with facets', async () => {
+    mockDb.query
+      .mockResolvedValueOnce({
+        rows: [{
+          entity_type: 'sku', entity_id: 's1', title: 'Camisa Oxford', brand_name: 'Reserva', category: 'Camisa',
+          colors: ['azul'], price: '299.90', currency: 'BRL', score: '0.8', total_count: '3',
+        }],
+      } as any)
+      .mockResolvedValueOnce({
+        rows: [
+          { facet: 'type', value: 'sku', count: '2' },
+          { facet: 'type', value: 'item', count: '1' },
+          { facet: 'color', value: 'azul', count: '3' },
+          { facet: 'price', value: '2', count: '3' },
+        ],
+      } as any);
+
+    const { results, total, facets } = await SearchService.search({ query: 'camisa azul', limit: 1 });
+
+    expect(mockDb.query.mock.calls[0][1]).toEqual(['camisa azul', 'camisa:* & azul:*', 'camisa azul', 1, 0]);
+    expect(results).toEqual([expect.objectContaining({ type: 'sku', id: 's1', brand: 'Reserva', price: 299.9, score: 0.8 })]);
+    expect(total).toBe(3);
+    expect(facets.types).toEqual([{ value: 'sku', count: 2 }, { value: 'item', count: 1 }]);
+    expect(facets.colors).toEqual([{ value: 'azul', count: 3 }]);
+    expect(facets.priceRanges).toEqual([{ min: 250, max: 500, count: 3 }]);
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Unit tests for international size conversion and brand size charts
+ */
+
+import { SizeConversionService } from '../../src/services/sizeConversionService';
+import { BrandSizeChart, BrandSizeChartModel } from '../../src/models/BrandSizeChart';
+import { SKUItemModel } from '../../src/models/SKUItem';
+
+jest.mock('../../src/models/BrandSizeChart');
+jest.mock('../../src/models/SKUItem');
+
+const havaianas: BrandSizeChart = {
+    id: 'chart-1',
+    brandId: 'brand-havaianas',
+    name: 'Flip-flops',
+    category: 'footwear',
+    gender: 'unisex',
+    apparelId: null,
+    notes: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    entries: [
+        {
+            id: 'entry-1', label: '39/40', sizeId: null, sortOrder: 0,
+            conversions: { BR: '39/40', US: '8/9', EU: '41/42' },
+            ranges: [{ pomId: 'pom-fl', pomCode: 'FL', pomName: 'Foot Length', unit: 'cm', min: 25.5, max: 26.5 }],
+        },
+        {
+            id: 'entry-2', label: '41/42', sizeId: null, sortOrder: 1,
+            conversions: { BR: '41/42', US: '9/10', EU: '42/43' },
+            ranges: [{ pomId: 'pom-fl', pomCode: 'FL', pomName: 'Foot Length', unit: 'cm', min: 26.5, max: 27.5 }],
+        },
+    ],
+};
+
+describe('SizeConversionService', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        (BrandSizeChartModel.findForBrand as jest.Mock).mockResolvedValue([]);
+    });
+
+    describe('reference tables', () => {
+        it('should convert footwear by gender', async () => {
+            const men = await SizeConversionService.convert({ value: '10', from: 'US', to: 'EU', category: 'footwear', gender: 'men' });
+            const women = await SizeConversionService.convert({ value: '10', from: 'US', to: 'EU', category: 'footwear', gender: 'women' });
+
+            expect(men).toMatchObject({ source: 'reference', converted: '44', conversions: { BR: '42', UK: '9', JP: '28', IT: '44', FR: '44' } });
+            expect(women?.converted).toBe('42');
+        });
+
+        it('should detect the source standard and treat unisex apparel as men\'s', async () => {
+            const result = await SizeConversionService.convert({ value: 'g', to: 'US', category: 'apparel', gender: 'unisex' });
+
+            expect(result).toMatchObject({ from: 'BR', converted: 'L', conversions: { EU: '50', JP: 'LL' } });
+        });
+
+        it('should return null for sizes outside the tables', async () => {
+            await expect(SizeConversionService.convert({ value: '99', from: 'EU', category: 'footwear' })).resolves.toBeNull();
+        });
+
+        it('should reject unknown standards and categories', async () => {
+            await expect(SizeConversionService.convert({ value: '10', from: 'AU' as any, category: 'footwear' })).rejects.toThrow('Invalid standard');
+            await expect(SizeConversionService.convert({ value: '10', category: 'hats' as any })).rejects.toThrow('Invalid category');
+            await expect(SizeConversionService.convert({ value: '10' })).rejects.toThrow('Invalid category');
+        });
+    });
+
+    describe('brand charts', () => {
+        it('should prefer the brand chart and match either half of a split size', async () => {
+            (BrandSizeChartModel.findForBrand as jest.Mock).mockResolvedValue([havaianas]);
+
+            const result = await SizeConversionService.convert({
+                value: '41', from: 'BR', to: 'US', category: 'footwear', brandId: 'brand-havaianas',
+            });
+
+            expect(result).toMatchObject({
+                source: 'brand_chart',
+                chart: { id: 'chart-1', brandId: 'brand-havaianas' },
+                label: '41/42',
+                converted: '9/10',
+                ranges: [{ pomCode: 'FL', min: 26.5, max: 27.5 }],
+            });
+        });
+
+        it('should fall back to the reference table when the chart has no match', async () => {
+            (BrandSizeChartModel.findForBrand as jest.Mock).mockResolvedValue([havaianas]);
+
+            const result = await SizeConversionService.convert({ value: '12', from: 'US', to: 'EU', category: 'footwear', brandId: 'brand-havaianas' });
+
+            expect(result).toMatchObject({ source: 'reference', converted: '46' });
+        });
+
+        it('should read brand, gender and category from a SKU', async () => {
+            (SKUItemModel.findById as jest.Mock).mockResolvedValue({
+                id: 'sku-1', brandId: 'brand-nike', apparel: 'Sneakers', gender: 'Women', category: { apparelId: 'apparel-sneakers' },
+            });
+
+            const result = await SizeConversionService.convert({ value: '8', from: 'US', to: 'BR', skuId: 'sku-1' });
+
+            expect(BrandSizeChartModel.findForBrand).toHaveBeenCalledWith('brand-nike', 'footwear', 'women', 'apparel-sneakers');
+            expect(result).toMatchObject({ category: 'footwear', gender: 'women', converted: '37' });
+        });
+    });
+
+    describe('validateChart', () => {
+        it('should accept a complete chart and reject bad entries', () => {
+            const { brandId, name, category, gender, entries } = havaianas;
+            const input = { brandId, name, category, gender, entries };
+            expect(() => SizeConversionService.validateChart(input as any)).not.toThrow();
+
+            expect(() => SizeConversionService.validateChart({ ...input, category: 'bags' } as any)).toThrow('Invalid category');
+            expect(() => SizeConversionService.validateChart({
+                ...input, entries: [{ label: '40', conversions: { MX: '26' } }],
+            } as any)).toThrow('Invalid standard');
+            expect(() => SizeConversionService.validateChart({
+                ...input, entries: [{ label: '40' }, { label: '40' }],
+            })).toThrow('duplicate label');
+            expect(() => SizeConversionService.validateChart({
+                ...input, entries: [{ label: '40', ranges: [{ pomId: 'pom-fl', min: 27, max: 26 }] }],
+            })).toThrow('min is greater than max');
+            expect(() => SizeConversionService.validateChart({ name: 'Renamed' }, true)).not.toThrow();
+        });
+    });
+});
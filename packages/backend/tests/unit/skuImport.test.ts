@@ -0,0 +1,257 @@
+/**
+ * Unit tests for bulk SKU catalog import/export and the spreadsheet reader
+ */
+
+import { SKUImportService } from '../../src/services/skuImportService';
+import { parseCsv, readXlsx, toCsv, writeXlsx } from '../../src/utils/spreadsheet';
+import { db } from '../../src/database/connection';
+import { SKUItemModel } from '../../src/models/SKUItem';
+import { BrandLineModel } from '../../src/models/BrandLine';
+import { BrandCollectionModel } from '../../src/models/BrandCollection';
+import { SearchIndexService } from '../../src/services/searchIndexService';
+import { LocalStorageService } from '../../src/services/localStorageService';
+import { RemoteImage } from '../../src/utils/remoteImage';
+
+jest.mock('../../src/database/connection', () => ({
+    db: {
+        query: jest.fn(),
+        transaction: jest.fn(),
+    },
+}));
+jest.mock('../../src/models/SKUItem');
+jest.mock('../../src/models/BrandLine');
+jest.mock('../../src/models/BrandCollection');
+jest.mock('../../src/services/localStorageService');
+jest.mock('../../src/services/searchIndexService');
+jest.mock('../../src/services/imageEmbeddingService');
+
+const mockDb = db as jest.Mocked<typeof db>;
+const client = { query: jest.fn() };
+
+const TABLES: Record<string, Array<{ id: string; name: string; type_slug?: string }>> = {
+    vufs_attribute_values: [
+        { id: 'apparel-tee', name: 'T-Shirt', type_slug: 'apparel' },
+        { id: 'style-basic', name: 'Basic', type_slug: 'style' },
+    ],
+    vufs_patterns: [],
+    vufs_fits: [{ id: 'fit-regular', name: 'Regular' }],
+    vufs_genders: [{ id: 'gender-unisex', name: 'Unisex' }],
+    vufs_materials: [{ id: 'material-cotton', name: 'Cotton' }],
+    vufs_sizes: [{ id: 'size-p', name: 'P' }, { id: 'size-m', name: 'M' }],
+    vufs_colors: [{ id: 'color-black', name: 'Black' }, { id: 'color-white', name: 'White' }],
+};
+
+const csv = (lines: string[]) => ({ buffer: Buffer.from(lines.join('\n')), filename: 'catalog.csv' });
+
+const HEADER = 'code,parent_code,name,size,color,line,collection,apparel,material,retail_price_brl,release_date,images';
+
+describe('spreadsheet utils', () => {
+    it('should parse quoted CSV and detect semicolon delimiters', () => {
+        expect(parseCsv('code,name\nA1,"Tee, ""classic""\nfit"\n')).toEqual([
+            ['code', 'name'],
+            ['A1', 'Tee, "classic"\nfit'],
+        ]);
+        expect(parseCsv('\uFEFFcode;price\r\nA1;1.299,90\r\n')).toEqual([['code', 'price'], ['A1', '1.299,90']]);
+    });
+
+    it('should write CSV that parses back to the same rows', () => {
+        const rows = [['code', 'name'], ['A1', 'Camiseta "Básica", preta']];
+        expect(parseCsv(toCsv(rows))).toEqual(rows);
+    });
+
+    it('should round-trip rows through XLSX', () => {
+        const rows = [
+            ['code', 'name', 'retail_price_brl'],
+            ['00123', 'Camiseta <Básica> & Cia', '129.9'],
+            ['A2', '', '80'],
+        ];
+        const buffer = writeXlsx(rows);
+
+        expect(buffer.subarray(0, 2).toString()).toBe('PK');
+        expect(readXlsx(buffer)).toEqual(rows);
+    });
+
+    it('should reject files that are not zip archives', () => {
+        expect(() => readXlsx(Buffer.from('code,name\n'))).toThrow('Invalid XLSX file');
+    });
+});
+
+describe('SKUImportService', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        mockDb.query.mockImplementation((async (sql: string) => {
+            const table = Object.keys(TABLES).find(name => sql.includes(`FROM ${name}`));
+            return { rows: table ? TABLES[table] : [] };
+        }) as any);
+        mockDb.transaction.mockImplementation((async (callback: any) => callback(client)) as any);
+        (SKUItemModel.findByBrandId as jest.Mock).mockResolvedValue([]);
+        (SKUItemModel.create as jest.Mock).mockImplementation(async (data: any) => ({ id: `sku-${data.code}`, ...data }));
+        (BrandLineModel.findByBrandId as jest.Mock).mockResolvedValue([{ id: 'line-essentials', name: 'Essentials' }]);
+        (BrandCollectionModel.findByBrand as jest.Mock).mockResolvedValue([{ id: 'col-1', name: 'Verão 2026' }]);
+    });
+
+    it('should report row-level errors in a dry run without creating anything', async () => {
+        const report = await SKUImportService.import('brand-1', 'user-1', csv([
+            HEADER,
+            'TEE-01,,Basic Tee,,,essentials,verão 2026,t-shirt,Cotton,"129,90",2026-03-01,https://cdn.example.com/tee.jpg',
+            'TEE-01-P,TEE-01,,P,Black,,,,,,,',
+            ',TEE-01,,XXL,,Unknown Line,,,,abc,31/02/2026,',
+            'TEE-01,,Duplicate,,,,Drop 7,Jacket,,,,ftp://nope',
+            'ORPHAN,,,,,,,,,,,',
+        ]), true);
+
+        expect(report).toMatchObject({ dryRun: true, committed: false, totalRows: 5, validRows: 2, invalidRows: 3, parents: 1, variants: 2 });
+        const [parent, variant, broken, duplicate, orphan] = report.rows;
+
+        expect(parent).toMatchObject({ row: 2, kind: 'parent', errors: [], warnings: [] });
+        expect(variant).toMatchObject({ row: 3, kind: 'variant', code: 'TEE-01-P', errors: [] });
+        expect(broken.code).toBe('TEE-01-XXL');
+        expect(broken.errors.map(e => e.field)).toEqual(['line', 'retail_price_brl', 'release_date']);
+        expect(broken.warnings).toEqual([{ field: 'size', message: expect.stringContaining('not in the size list') }]);
+        expect(duplicate.errors.map(e => e.field)).toEqual(['apparel', 'images', 'code']);
+        expect(duplicate.warnings[0].field).toBe('collection');
+        expect(orphan.errors).toEqual([{ field: 'name', message: 'Name is required' }]);
+
+        expect(mockDb.transaction).not.toHaveBeenCalled();
+        expect(SKUItemModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should download allowed images and reject rows whose images are on other hosts', async () => {
+        const fetchImage = jest.spyOn(RemoteImage, 'fetch').mockImplementation(async (url: string) => {
+            if (!url.startsWith('https://storage.googleapis.com/')) throw new Error('Image host is not allowed: cdn.example.com');
+            return { buffer: Buffer.from('img'), mimetype: 'image/jpeg' };
+        });
+        (LocalStorageService.uploadImage as jest.Mock).mockResolvedValue({ url: '/storage/images/tee.jpg', path: 'images/tee.jpg' });
+
+        const report = await SKUImportService.import('brand-1', 'user-1', { rows: [
+            { code: 'TEE-01', name: 'Basic Tee', images: 'https://storage.googleapis.com/vangarments-storage/tee.jpg' },
+            { code: 'TEE-02', name: 'Other Tee', images: 'https://cdn.example.com/tee.jpg' },
+        ] }, false);
+
+        expect(fetchImage).toHaveBeenCalledTimes(2);
+        expect(report.committed).toBe(false);
+        expect(report.rows[1].errors).toEqual([
+            { field: 'images', message: 'Image https://cdn.example.com/tee.jpg: Image host is not allowed: cdn.example.com' },
+        ]);
+        expect(LocalStorageService.deleteImage).toHaveBeenCalledWith('images/tee.jpg');
+        fetchImage.mockRestore();
+    });
+
+    it('should refuse to commit an import with errors', async () => {
+        const report = await SKUImportService.import('brand-1', 'user-1', { rows: [{ code: 'A1' }] }, false);
+
+        expect(report.committed).toBe(false);
+        expect(report.invalidRows).toBe(1);
+        expect(mockDb.transaction).not.toHaveBeenCalled();
+    });
+
+    it('should create parents, then variants named and linked like the admin form', async () => {
+        const report = await SKUImportService.import('brand-1', 'user-1', {
+            rows: [
+                { code: 'TEE-01', name: 'Basic Tee', apparel: 'T-Shirt', line: 'Essentials', retailPriceBrl: 129.9 },
+                { parentCode: 'TEE-01', size: 'M', color: 'White', retail_price_brl: '139.90' },
+            ],
+        }, false);
+
+        expect(report).toMatchObject({ format: 'json', committed: true, invalidRows: 0 });
+        expect(SKUItemModel.create).toHaveBeenCalledTimes(2);
+
+        const [[parent, parentClient], [variant]] = (SKUItemModel.create as jest.Mock).mock.calls;
+        expect(parentClient).toBe(client);
+        expect(parent).toMatchObject({
+            brandId: 'brand-1',
+            code: 'TEE-01',
+            lineId: 'line-essentials',
+            category: { page: 'T-Shirt', apparelId: 'apparel-tee' },
+            retailPriceBrl: 129.9,
+        });
+        expect(variant).toMatchObject({
+            code: 'TEE-01-WHITE-M',
+            name: 'Basic Tee (White) [M]',
+            parentSkuId: 'sku-TEE-01',
+            lineId: 'line-essentials',
+            category: { apparelId: 'apparel-tee' },
+            retailPriceBrl: 139.9,
+            metadata: { sizeId: 'size-m', sizeName: 'M', colorId: 'color-white', colorName: 'White' },
+        });
+        expect(report.rows[1].skuId).toBe('sku-TEE-01-WHITE-M');
+        expect(SearchIndexService.queueReindex).toHaveBeenCalledWith('sku', ['sku-TEE-01', 'sku-TEE-01-WHITE-M']);
+    });
+
+    it('should attach variants to an existing parent or generate a missing one', async () => {
+        (SKUItemModel.findByBrandId as jest.Mock).mockResolvedValue([
+            { id: 'existing-parent', code: 'POLO-01', name: 'Polo', brandId: 'brand-1', images: [{ url: '/storage/polo.jpg', isPrimary: true }], metadata: {} },
+        ]);
+
+        const report = await SKUImportService.import('brand-1', 'user-1', {
+            rows: [
+                { parent_code: 'polo-01', size: 'P' },
+                { parent_code: 'JEANS-01', name: 'Slim Jeans (Black) [P]', size: 'P', color: 'Black' },
+                { parent_code: 'JEANS-01', size: 'M', color: 'Black' },
+            ],
+        }, false);
+
+        expect(report).toMatchObject({ committed: true, parents: 1, variants: 3, generatedParents: ['JEANS-01'] });
+        const calls = (SKUItemModel.create as jest.Mock).mock.calls.map(([data]) => data);
+
+        expect(calls[0]).toMatchObject({ code: 'JEANS-01', name: 'Slim Jeans', parentSkuId: undefined });
+        expect(calls[0].metadata).not.toHaveProperty('sizeName');
+        expect(calls[1]).toMatchObject({
+            code: 'POLO-01-P', name: 'Polo [P]', parentSkuId: 'existing-parent', images: [{ url: '/storage/polo.jpg', isPrimary: true }],
+        });
+        expect(calls.slice(2).map(data => data.name)).toEqual(['Slim Jeans (Black) [P]', 'Slim Jeans (Black) [M]']);
+        expect(calls.slice(2).every(data => data.parentSkuId === 'sku-JEANS-01')).toBe(true);
+    });
+
+    it('should reject codes already in the catalog and duplicate variants', async () => {
+        (SKUItemModel.findByBrandId as jest.Mock).mockResolvedValue([{ id: 'sku-1', code: 'TEE-01', name: 'Tee', brandId: 'brand-1' }]);
+
+        const report = await SKUImportService.import('brand-1', 'user-1', {
+            rows: [
+                { code: 'tee-01', name: 'Again' },
+                { code: 'CAP-01', name: 'Cap' },
+                { parent_code: 'CAP-01', color: 'Black', code: 'CAP-01-B' },
+                { parent_code: 'CAP-01', color: 'black', code: 'CAP-01-B2' },
+                { parent_code: 'CAP-01' },
+            ],
+        }, true);
+
+        expect(report.rows[0].errors[0].message).toBe('A SKU with code tee-01 already exists');
+        expect(report.rows[3].errors).toEqual([{ field: 'size', message: 'Same size and color as row 3' }]);
+        expect(report.rows[4].errors[0]).toEqual({ field: 'size', message: 'A variant needs a size or a color' });
+    });
+
+    it('should reject unsupported files', () => {
+        expect(() => SKUImportService.parseRows({ buffer: Buffer.from(''), filename: 'catalog.xls' })).toThrow('Invalid file');
+        expect(() => SKUImportService.parseRows({ buffer: Buffer.from('{"items": []}'), filename: 'catalog.json' })).toThrow('Invalid file');
+        expect(() => SKUImportService.parseRows(csv(['code,name', ',']))).toThrow('no rows found');
+    });
+
+    it('should export the catalog in a format the importer reads back', async () => {
+        (SKUItemModel.findByBrandId as jest.Mock).mockResolvedValue([
+            {
+                id: 'v1', code: 'TEE-01-P', name: 'Basic Tee [P]', parentSkuId: 'p1', createdAt: new Date('2026-01-02'),
+                metadata: { sizeName: 'P' }, images: [],
+            },
+            {
+                id: 'p1', code: 'TEE-01', name: 'Basic Tee', createdAt: new Date('2026-01-01'), apparel: 'T-Shirt',
+                lineInfo: { id: 'line-essentials', name: 'Essentials' }, retailPriceBrl: 129.9, releaseDate: new Date('2026-03-01'),
+                images: [{ url: '/storage/a.jpg', isPrimary: true }, { url: '/storage/b.jpg', isPrimary: false }],
+            },
+        ]);
+
+        const exported = await SKUImportService.export('brand-1', 'xlsx');
+        const { rows } = SKUImportService.parseRows({ buffer: exported.body as Buffer, filename: exported.filename });
+
+        expect(exported.filename).toMatch(/^sku-catalog-\d{4}-\d{2}-\d{2}\.xlsx$/);
+        expect(rows.map(({ values }) => values.code)).toEqual(['TEE-01', 'TEE-01-P']);
+        expect(rows[0].values).toMatchObject({
+            line: 'Essentials', apparel: 'T-Shirt', retail_price_brl: '129.9', release_date: '2026-03-01',
+            images: '/storage/a.jpg | /storage/b.jpg',
+        });
+        expect(rows[1].values).toMatchObject({ parent_code: 'TEE-01', size: 'P' });
+
+        const json = await SKUImportService.export('brand-1', 'json');
+        expect(JSON.parse(json.body as string).skus).toHaveLength(2);
+    });
+});
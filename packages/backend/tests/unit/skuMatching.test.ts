@@ -0,0 +1,125 @@
+/**
+ * Unit tests for ranking catalog SKUs against a wardrobe item
+ */
+
+import { SKUMatchingService } from '../../src/services/skuMatchingService';
+import { ImageEmbeddingService } from '../../src/services/imageEmbeddingService';
+import { db } from '../../src/database/connection';
+
+jest.mock('../../src/database/connection', () => ({
+  db: {
+    query: jest.fn(),
+    transaction: jest.fn(),
+  },
+}));
+
+const mockDb = db as jest.Mocked<typeof db>;
+
+const skuRow = (overrides: Record<string, any> = {}) => ({
+  id: 's1',
+  name: 'Air Force 1 White',
+  code: 'CW2288-111',
+  brand_name: 'Nike',
+  category: { page: 'Footwear', whiteSubcategory: 'Sneakers' },
+  metadata: { colorName: 'White' },
+  images: [{ url: '/storage/images/af1.jpg', isPrimary: true }],
+  release_date: null,
+  ...overrides,
+});
+
+describe('SKUMatchingService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(ImageEmbeddingService, 'findSimilar').mockResolvedValue([]);
+  });
+
+  it('should extract style codes from label text', () => {
+    expect(SKUMatchingService.extractStyleCodes([
+      'STYLE: DD1391-100',
+      'CW2288 111',
+      '100% COTTON',
+      'MADE IN 2024',
+      'SIZE M',
+    ])).toEqual(['DD1391100', 'CW2288', 'CW2288111']);
+  });
+
+  it('should score an exact style code with matching brand above a partial one', () => {
+    const signals = { brand: 'NIKE', pieceType: 'sneakers', colors: ['white'] };
+    const candidate = {
+      id: 's1', name: 'Air Force 1 White', code: 'CW2288-111', brandName: 'Nike',
+      category: { whiteSubcategory: 'Sneakers' }, metadata: { colorName: 'White' },
+    };
+
+    const exact = SKUMatchingService.scoreCandidate(signals, candidate, ['CW2288111']);
+    const partial = SKUMatchingService.scoreCandidate(signals, candidate, ['CW2288']);
+
+    expect(exact).toEqual({ score: 0.9, reasons: ['style_code', 'brand', 'piece_type', 'colorway'] });
+    expect(partial.score).toBeCloseTo(0.7);
+  });
+
+  it('should discount a code match when the label names another brand', () => {
+    const { score, reasons } = SKUMatchingService.scoreCandidate(
+      { brand: 'Adidas' },
+      { id: 's1', name: 'Air Force 1', code: 'CW2288-111', brandName: 'Nike' },
+      ['CW2288111']
+    );
+
+    expect(score).toBeCloseTo(0.3);
+    expect(reasons).toEqual(['style_code']);
+  });
+
+  it('should rank candidates from codes and photos', async () => {
+    (ImageEmbeddingService.findSimilar as jest.Mock).mockResolvedValueOnce([
+      { type: 'sku', id: 's2', title: 'Dunk Low', imageUrl: '/storage/images/dunk.jpg', score: 0.8 },
+    ]);
+    mockDb.query.mockResolvedValueOnce({
+      rows: [
+        skuRow({ id: 's2', name: 'Dunk Low Panda', code: 'DD1391-100', metadata: { colorName: 'Black' } }),
+        skuRow(),
+      ],
+    } as any);
+
+    const matches = await SKUMatchingService.findCandidates({
+      brand: 'Nike',
+      pieceType: 'Sneakers',
+      colors: ['White'],
+      text: ['CW2288-111'],
+      embeddings: [[0.6, 0.8]],
+    });
+
+    expect(mockDb.query.mock.calls[0][1]).toEqual([['CW2288111'], 'Nike', 'Sneakers', ['s2']]);
+    expect(matches.map(match => [match.skuId, match.confidence])).toEqual([['s1', 'high'], ['s2', 'medium']]);
+    expect(matches[0]).toMatchObject({ imageUrl: '/storage/images/af1.jpg', brand: 'Nike', code: 'CW2288-111' });
+    expect(matches[1].reasons).toEqual(['brand', 'piece_type', 'image']);
+  });
+
+  it('should not query the catalog without any usable signal', async () => {
+    const matches = await SKUMatchingService.findCandidates({ brand: 'Nike', text: ['SIZE M'] });
+
+    expect(matches).toEqual([]);
+    expect(mockDb.query).not.toHaveBeenCalled();
+  });
+
+  it('should inherit official data without overwriting what the owner set', () => {
+    const measurements = [{ pomCode: 'CH', pomName: 'Chest', size: 'M', value: 54, tolerance: 0.5, unit: 'cm' }];
+    const metadata = SKUMatchingService.inheritMetadata(
+      { name: 'My favourite tee', careInstructions: [], pricing: { retailPrice: 0, currentValue: 80 } },
+      {
+        id: 's1', brandId: 'b1', name: 'Logo Tee', code: 'LT-001', category: {} as any, images: [],
+        description: 'Heavyweight cotton tee', careInstructions: 'Machine wash cold',
+        retailPriceBrl: 199.9, releaseDate: new Date('2025-09-01'), createdAt: new Date(), updatedAt: new Date(),
+      },
+      measurements
+    );
+
+    expect(metadata).toMatchObject({
+      name: 'My favourite tee',
+      description: 'Heavyweight cotton tee',
+      careInstructions: ['Machine wash cold'],
+      pricing: { retailPrice: 199.9, currentValue: 80 },
+      styleCode: 'LT-001',
+      releaseDate: new Date('2025-09-01'),
+      measurements,
+    });
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Unit tests for SKU version history, rollback and the public changelog
+ */
+
+import { SKUVersionModel } from '../../src/models/SKUVersion';
+import { SKUItemModel } from '../../src/models/SKUItem';
+import { BrandAccountModel } from '../../src/models/BrandAccount';
+import { BrandTeamModel } from '../../src/models/BrandTeam';
+import { SKUVersionService } from '../../src/services/skuVersionService';
+import { db } from '../../src/database/connection';
+
+jest.mock('../../src/database/connection', () => ({
+    db: {
+        query: jest.fn(),
+        transaction: jest.fn(),
+    },
+}));
+jest.mock('../../src/models/BrandAccount');
+jest.mock('../../src/models/BrandTeam');
+jest.mock('../../src/services/searchIndexService');
+jest.mock('../../src/services/imageEmbeddingService');
+
+const mockDb = db as jest.Mocked<typeof db>;
+
+const skuRow = (overrides: Record<string, any> = {}) => ({
+    id: 'sku-1',
+    brand_id: 'brand-1',
+    name: 'Basic Tee',
+    code: 'TEE-01',
+    category: { apparelId: 'apparel-tee', page: 'T-Shirt' },
+    images: [{ url: '/storage/a.jpg', isPrimary: true }],
+    videos: [],
+    metadata: {},
+    retail_price_brl: '129.90',
+    release_date: new Date(2026, 2, 1),
+    updated_at: new Date('2026-01-01T10:00:00Z'),
+    ...overrides,
+});
+
+describe('SKUVersionModel', () => {
+    it('should ignore formatting differences when diffing snapshots', () => {
+        const before = SKUVersionModel.snapshot({ retailPriceBrl: '129.90', releaseDate: new Date(2026, 2, 1), category: { b: 1, a: 2 } } as any);
+        const after = SKUVersionModel.snapshot({ retailPriceBrl: 129.9, releaseDate: '2026-03-01', category: { a: 2, b: 1 }, description: '' } as any);
+
+        expect(before).toMatchObject({ retailPriceBrl: 129.9, releaseDate: '2026-03-01', description: null });
+        expect(SKUVersionModel.diff(before, after)).toEqual([]);
+        expect(SKUVersionModel.diff(before, { ...after, retailPriceBrl: 149.9 })).toEqual([
+            { field: 'retailPriceBrl', from: 129.9, to: 149.9 },
+        ]);
+    });
+
+    it('should record a baseline before the first change and number versions after it', async () => {
+        const client = { query: jest.fn() };
+        client.query
+            .mockResolvedValueOnce({ rows: [{ version: 0 }] })
+            .mockResolvedValueOnce({ rows: [] })
+            .mockResolvedValueOnce({ rows: [{ id: 'v2', sku_id: 'sku-1', version: 2, change_type: 'update', changes: [], changed_by: 'user-1' }] });
+
+        const previousAt = new Date('2026-01-01T10:00:00Z');
+        const version = await SKUVersionModel.record(
+            client as any, 'sku-1', { name: 'Tee' }, { name: 'Basic Tee' },
+            { changedBy: { userId: 'user-1', teamRoles: ['Designer'], teamTitle: 'Head of Design' }, previousAt }
+        );
+
+        expect(client.query.mock.calls[1][1]).toEqual(['sku-1', JSON.stringify({ name: 'Tee' }), previousAt]);
+        expect(client.query.mock.calls[2][1]).toEqual([
+            'sku-1', 2, 'update', JSON.stringify([{ field: 'name', from: 'Tee', to: 'Basic Tee' }]), JSON.stringify({ name: 'Basic Tee' }),
+            'user-1', ['Designer'], 'Head of Design', null,
+        ]);
+        expect(version).toMatchObject({ version: 2, changedBy: { userId: 'user-1' } });
+
+        client.query.mockClear();
+        await expect(SKUVersionModel.record(client as any, 'sku-1', { name: 'Tee' }, { name: 'Tee' })).resolves.toBeNull();
+        expect(client.query).not.toHaveBeenCalled();
+    });
+});
+
+describe('SKUItemModel.update', () => {
+    it('should update and record the version in one transaction', async () => {
+        const client = { query: jest.fn() };
+        client.query.mockImplementation(async (sql: string) => {
+            if (sql.includes('FOR UPDATE')) return { rows: [skuRow()] };
+            if (sql.includes('UPDATE sku_items')) return { rows: [skuRow({ retail_price_brl: '149.90' })] };
+            if (sql.includes('MAX(version)')) return { rows: [{ version: 3 }] };
+            return { rows: [{ id: 'v4', version: 4, changes: [] }] };
+        });
+        mockDb.transaction.mockImplementation((async (callback: any) => callback(client)) as any);
+        const findById = jest.spyOn(SKUItemModel, 'findById').mockResolvedValue({ id: 'sku-1' } as any);
+
+        await SKUItemModel.update('sku-1', { retailPriceBrl: 149.9 }, { userId: 'user-1', teamRoles: ['Seller'] });
+
+        const insert = client.query.mock.calls.find(([sql]) => sql.includes('INSERT INTO sku_versions'))!;
+        expect(insert[1].slice(1, 4)).toEqual([4, 'update', JSON.stringify([{ field: 'retailPriceBrl', from: 129.9, to: 149.9 }])]);
+        expect(insert[1][5]).toBe('user-1');
+        findById.mockRestore();
+    });
+});
+
+describe('SKUVersionService', () => {
+    beforeEach(() => {
+        jest.restoreAllMocks();
+        jest.clearAllMocks();
+        (BrandAccountModel.findById as jest.Mock).mockResolvedValue({ id: 'brand-1', userId: 'owner-1' });
+        (BrandTeamModel.getUserBrands as jest.Mock).mockResolvedValue([]);
+    });
+
+    it('should let admins, the owner and team editors edit', async () => {
+        await expect(SKUVersionService.resolveEditor('brand-1', { userId: 'owner-1' })).resolves.toMatchObject({ userId: 'owner-1' });
+        await expect(SKUVersionService.resolveEditor('brand-1', { userId: 'staff', roles: ['admin'] })).resolves.not.toBeNull();
+
+        (BrandTeamModel.getUserBrands as jest.Mock).mockResolvedValue([{ brandId: 'brand-1', roles: ['Designer'], title: 'Designer' }]);
+        await expect(SKUVersionService.resolveEditor('brand-1', { userId: 'member-1' })).resolves.toEqual({
+            userId: 'member-1', teamRoles: ['Designer'], teamTitle: 'Designer',
+        });
+
+        (BrandTeamModel.getUserBrands as jest.Mock).mockResolvedValue([{ brandId: 'brand-1', roles: ['Model'] }]);
+        await expect(SKUVersionService.resolveEditor('brand-1', { userId: 'model-1' })).resolves.toBeNull();
+    });
+
+    it('should roll back to a version\'s snapshot and record it as a rollback', async () => {
+        jest.spyOn(SKUVersionModel, 'findVersion').mockResolvedValue({
+            version: 2,
+            snapshot: { name: 'Tee', code: 'TEE-01', retailPriceBrl: 99.9, releaseDate: '2026-02-01', images: null },
+        } as any);
+        jest.spyOn(SKUItemModel, 'findById').mockResolvedValue({ name: 'Basic Tee', code: 'TEE-01', retailPriceBrl: 129.9 } as any);
+        const update = jest.spyOn(SKUItemModel, 'update').mockResolvedValue({ id: 'sku-1' } as any);
+        const actor = { userId: 'owner-1' };
+
+        await SKUVersionService.rollback('sku-1', 2, actor);
+
+        expect(update).toHaveBeenCalledWith(
+            'sku-1',
+            expect.objectContaining({ name: 'Tee', retailPriceBrl: 99.9, releaseDate: '2026-02-01', images: [] }),
+            actor,
+            { changeType: 'rollback', rolledBackTo: 2 }
+        );
+    });
+
+    it('should refuse a rollback that changes nothing and invalid versions', async () => {
+        jest.spyOn(SKUVersionModel, 'findVersion').mockResolvedValue({ version: 2, snapshot: { name: 'Tee' } } as any);
+        jest.spyOn(SKUItemModel, 'findById').mockResolvedValue({ name: 'Tee' } as any);
+
+        await expect(SKUVersionService.rollback('sku-1', 2, { userId: 'owner-1' })).rejects.toThrow('already matches version 2');
+        await expect(SKUVersionService.rollback('sku-1', 0, { userId: 'owner-1' })).rejects.toThrow('Invalid version');
+    });
+
+    it('should publish changes without editors or internal values', async () => {
+        jest.spyOn(SKUItemModel, 'findById').mockResolvedValue({ id: 'sku-1', updatedAt: new Date('2026-03-02') } as any);
+        jest.spyOn(SKUVersionModel, 'findBySku').mockResolvedValue({
+            total: 3,
+            versions: [
+                {
+                    version: 3, changeType: 'rollback', createdAt: new Date('2026-03-02'), changedBy: { userId: 'user-1' },
+                    changes: [{ field: 'retailPriceBrl', from: 149.9, to: 129.9 }],
+                },
+                {
+                    version: 2, changeType: 'update', createdAt: new Date('2026-03-01'), changedBy: { userId: 'user-1' },
+                    changes: [
+                        { field: 'metadata', from: {}, to: { internal: true } },
+                        { field: 'lineId', from: null, to: 'line-1' },
+                        { field: 'line', from: null, to: 'Essentials' },
+                    ],
+                },
+                { version: 1, changeType: 'baseline', createdAt: new Date('2026-01-01'), changes: [] },
+            ],
+        } as any);
+
+        const changelog = await SKUVersionService.getChangelog('sku-1');
+
+        expect(changelog).toEqual({
+            lastUpdatedAt: new Date('2026-03-02'),
+            entries: [
+                {
+                    version: 3, changedAt: new Date('2026-03-02'), rollback: true,
+                    changes: [{ field: 'retailPriceBrl', label: 'Retail price (BRL)', from: 149.9, to: 129.9 }],
+                },
+                {
+                    version: 2, changedAt: new Date('2026-03-01'), rollback: false,
+                    changes: [
+                        { field: 'metadata', label: 'Details' },
+                        { field: 'line', label: 'Line', from: null, to: 'Essentials' },
+                    ],
+                },
+            ],
+        });
+    });
+});
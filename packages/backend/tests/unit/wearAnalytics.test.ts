@@ -0,0 +1,103 @@
+/**
+ * Unit tests for wear-tracking analytics
+ */
+
+import { WearAnalyticsService, WearItemData } from '../../src/services/wearAnalyticsService';
+
+jest.mock('../../src/database/connection', () => ({
+  db: {
+    query: jest.fn(),
+    transaction: jest.fn(),
+  },
+}));
+
+describe('WearAnalyticsService', () => {
+  const now = new Date('2026-10-19T12:00:00Z');
+  const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+
+  const item = (overrides: Partial<WearItemData>): WearItemData => ({
+    itemId: 'item',
+    name: 'Item',
+    category: 'Tops',
+    acquiredAt: daysAgo(365),
+    wearCount: 0,
+    wearsByMonth: {},
+    listed: false,
+    ...overrides,
+  });
+
+  const items = [
+    item({
+      itemId: 'tee', name: 'White Tee', category: 'Tops', color: 'White', condition: 'Good',
+      purchasePrice: 60, wearCount: 30, lastWornAt: daysAgo(2), wearsByMonth: { 1: 10, 7: 20 },
+    }),
+    item({
+      itemId: 'coat', name: 'Wool Coat', category: 'Outerwear', color: 'Navy', condition: 'Excellent Used',
+      purchasePrice: 900, currentValue: 500, wearCount: 3, lastWornAt: daysAgo(200), wearsByMonth: { 6: 3 },
+    }),
+    item({
+      itemId: 'top', name: 'Crop Top', category: 'Tops', color: 'White', condition: 'Fair',
+      purchasePrice: 30, wearCount: 0,
+    }),
+  ];
+
+  it('should map months to southern hemisphere seasons', () => {
+    expect(WearAnalyticsService.seasonForMonth(1)).toBe('summer');
+    expect(WearAnalyticsService.seasonForMonth(4)).toBe('autumn');
+    expect(WearAnalyticsService.seasonForMonth(7)).toBe('winter');
+    expect(WearAnalyticsService.seasonForMonth(10)).toBe('spring');
+    expect(WearAnalyticsService.seasonForMonth(12)).toBe('summer');
+  });
+
+  it('should compute cost per wear from purchase price', () => {
+    const analytics = WearAnalyticsService.buildAnalytics(items, 90, now);
+
+    expect(analytics.costPerWear.map(entry => [entry.itemId, entry.costPerWear])).toEqual([
+      ['coat', 300],
+      ['top', 30],
+      ['tee', 2],
+    ]);
+    expect(analytics.summary).toEqual({
+      totalItems: 3,
+      totalWears: 33,
+      totalSpent: 990,
+      averageCostPerWear: 30,
+      dormantItems: 2,
+      neverWornItems: 1,
+    });
+  });
+
+  it('should list items not worn within the dormant window', () => {
+    const analytics = WearAnalyticsService.buildAnalytics(items, 90, now);
+
+    expect(analytics.dormant.map(entry => [entry.itemId, entry.daysSinceWorn])).toEqual([
+      ['top', 365],
+      ['coat', 200],
+    ]);
+    expect(WearAnalyticsService.buildAnalytics(items, 300, now).dormant.map(entry => entry.itemId)).toEqual(['top']);
+  });
+
+  it('should break wear frequency down by category, color and season', () => {
+    const analytics = WearAnalyticsService.buildAnalytics(items, 90, now);
+
+    expect(analytics.byCategory[0]).toEqual({ key: 'Tops', wearCount: 30, itemCount: 2, percentage: 90.9 });
+    expect(analytics.byColor.map(entry => entry.key)).toEqual(['White', 'Navy']);
+    expect(analytics.bySeason).toEqual({ summer: 10, autumn: 0, winter: 23, spring: 0 });
+  });
+
+  it('should suggest selling valuable dormant items and donating the rest', () => {
+    const analytics = WearAnalyticsService.buildAnalytics(items, 90, now);
+
+    expect(analytics.suggestions.map(entry => [entry.itemId, entry.action])).toEqual([
+      ['top', 'donate'],
+      ['coat', 'sell'],
+    ]);
+    expect(analytics.suggestions[1].estimatedValue).toBe(500);
+  });
+
+  it('should skip dormant items already listed on the marketplace', () => {
+    const listed = items.map(entry => entry.itemId === 'coat' ? { ...entry, listed: true } : entry);
+
+    expect(WearAnalyticsService.buildAnalytics(listed, 90, now).suggestions.map(entry => entry.itemId)).toEqual(['top']);
+  });
+});
@@ -27,6 +27,8 @@ export interface MarketplaceListing {
   createdAt: Date;
   updatedAt: Date;
   expiresAt?: Date;
+  stockSkuItemId?: string; // Brand SKU variant the listing sells from stock
+  stockStoreId?: string; // Brand store holding that stock
 }
 
 export interface DetailedCondition {
@@ -89,6 +91,7 @@ export interface Transaction {
   status: TransactionStatus;
   paymentMethod: string;
   paymentId?: string;
+  paymentProvider?: string;
   shipping: {
     address: ShippingAddress;
     method: string;
@@ -276,11 +276,40 @@ export interface BrandHierarchy {
   collaboration?: string;
 }
 
+// Care rules decoded from ISO 3758 care symbols
+export interface CareRules {
+  washing?: {
+    method: 'machine' | 'hand' | 'none';
+    maxTemperature?: number; // °C
+    cycle?: 'normal' | 'mild' | 'very_mild';
+  };
+  bleaching?: {
+    allowed: 'any' | 'oxygen_only' | 'none';
+  };
+  drying?: {
+    tumble?: 'normal' | 'low' | 'none';
+    natural?: 'line' | 'drip_line' | 'flat' | 'drip_flat';
+    inShade?: boolean;
+  };
+  ironing?: {
+    allowed: boolean;
+    maxTemperature?: number; // °C at the sole plate
+    steam?: boolean;
+  };
+  professionalCleaning?: {
+    dryClean?: 'P' | 'F' | 'none';
+    dryCleanCycle?: 'normal' | 'mild';
+    wetClean?: 'normal' | 'mild' | 'very_mild' | 'none';
+  };
+}
+
 // Item Metadata
 export interface ItemMetadata {
   composition: Array<{ material: string; percentage: number }>;
   colors: Array<{ primary: string; undertones: string[] }>;
   careInstructions: string[];
+  careSymbols?: string[];
+  careRules?: CareRules;
   size?: string;
   pattern?: string;
   fit?: string;
@@ -303,6 +332,9 @@ export interface ItemCondition {
   status: Condition;
   notes?: string;
   defects: string[];
+  /** Entry of the admin-managed condition list, when the item was graded against it */
+  conditionId?: string;
+  description?: string;
 }
 
 // Ownership Information
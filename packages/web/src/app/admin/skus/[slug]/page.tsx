@@ -3,6 +3,7 @@
 import React, { useEffect, useState } from 'react';
 import { useParams } from 'next/navigation';
 import ItemCreation from '@/components/admin/ItemCreation';
+import SKUVersionHistory from '@/components/admin/SKUVersionHistory';
 import { apiClient } from '@/lib/api';
 
 export default function EditSKUPage() {
@@ -10,6 +11,8 @@ export default function EditSKUPage() {
     const slug = params.slug as string;
     const [sku, setSku] = useState<any>(null);
     const [loading, setLoading] = useState(true);
+    // Remounts the form after a rollback so it shows the restored values
+    const [revision, setRevision] = useState(0);
 
     useEffect(() => {
         const fetchSku = async () => {
@@ -61,7 +64,16 @@ export default function EditSKUPage() {
 
     return (
         <div className="py-6">
-            <ItemCreation initialData={sku} isEditMode={true} mode="sku" />
+            <ItemCreation key={revision} initialData={sku} isEditMode={true} mode="sku" />
+            <div className="max-w-5xl mx-auto mt-8">
+                <SKUVersionHistory
+                    skuId={sku.id}
+                    onRolledBack={async () => {
+                        setSku(await apiClient.getSKU(sku.id));
+                        setRevision(revision + 1);
+                    }}
+                />
+            </div>
         </div>
     );
 }
@@ -3,7 +3,7 @@
 import React, { useState, useEffect } from 'react';
 import { useParams, useRouter, useSearchParams } from 'next/navigation';
 import { skuApi } from '@/lib/skuApi';
-import { apiClient } from '@/lib/api';
+import { apiClient, SizeStandard } from '@/lib/api';
 import { getImageUrl, slugify } from '@/lib/utils';
 import { ArrowLeftIcon, ShoppingBagIcon, ChevronDownIcon, ChevronUpIcon, ChevronLeftIcon, ChevronRightIcon, TagIcon, SwatchIcon, RectangleGroupIcon, BeakerIcon, AdjustmentsHorizontalIcon, UserGroupIcon, HeartIcon, PlusIcon, CheckIcon, CalendarIcon, TrophyIcon, ShareIcon } from '@heroicons/react/24/outline';
 import { HeartIcon as HeartIconSolid } from '@heroicons/react/24/solid';
@@ -14,6 +14,8 @@ import { useRecentVisits } from '@/hooks/useRecentVisits';
 import { useAuth } from '@/hooks/useAuth';
 import ItemCarousel from '@/components/ui/ItemCarousel';
 import WishlistSelectionModal from '@/components/ui/WishlistSelectionModal';
+import FitRecommendationPanel from '@/components/ui/FitRecommendationPanel';
+import SKUChangelog from '@/components/ui/SKUChangelog';
 import { tagApi } from '@/lib/tagApi';
 import { ImageTagEditor } from '@/components/tagging';
 import { MediaTag } from '@vangarments/shared';
@@ -32,6 +34,8 @@ interface Measurement {
     size_sort_order?: number;
 }
 
+const SIZE_STANDARDS: SizeStandard[] = ['BR', 'US', 'EU', 'UK', 'JP', 'IT', 'FR'];
+
 /**
  * Strip size suffix from product name (e.g., "Asphalt T-Shirt (Black) [S]" -> "Asphalt T-Shirt (Black)")
  */
@@ -73,6 +77,22 @@ export default function ProductPageClient() {
     const [productTags, setProductTags] = useState<MediaTag[]>([]);
     const { addVisit } = useRecentVisits();
     const { user } = useAuth();
+    const [sizeStandard, setSizeStandard] = useState<SizeStandard | ''>('');
+    const [convertedSizes, setConvertedSizes] = useState<Record<string, string>>({});
+
+    // Show variant sizes in another standard, using the brand's size chart when it has one
+    useEffect(() => {
+        const sizes: string[] = (product?.variants || []).map((variant: any) => variant.size).filter(Boolean);
+        if (!sizeStandard || !product?.id || sizes.length === 0) {
+            setConvertedSizes({});
+            return;
+        }
+        apiClient.convertSizes(sizes, { to: sizeStandard, skuId: product.id })
+            .then(results => setConvertedSizes(Object.fromEntries(
+                results.filter(result => result.converted).map(result => [result.value, result.converted as string])
+            )))
+            .catch(() => setConvertedSizes({}));
+    }, [sizeStandard, product?.id, product?.variants]);
 
     const handleLikeToggle = async (e: React.MouseEvent) => {
         e.preventDefault();
@@ -680,6 +700,19 @@ export default function ProductPageClient() {
                                 {/* Variant Selector */}
                                 {product.variants && product.variants.length > 0 && (
                                     <div className="mb-4">
+                                        <div className="flex items-center justify-end mb-2">
+                                            <select
+                                                value={sizeStandard}
+                                                onChange={(e) => setSizeStandard(e.target.value as SizeStandard | '')}
+                                                className="text-xs border border-gray-300 rounded-lg px-2 py-1 text-gray-600"
+                                                aria-label="Size standard"
+                                            >
+                                                <option value="">Sizes as labeled</option>
+                                                {SIZE_STANDARDS.map(standard => (
+                                                    <option key={standard} value={standard}>{standard} sizes</option>
+                                                ))}
+                                            </select>
+                                        </div>
                                         <div className="flex flex-wrap gap-2">
                                             {product.variants.map((variant: any) => (
                                                 <button
@@ -696,6 +729,9 @@ export default function ProductPageClient() {
                                                         }`}
                                                 >
                                                     {variant.size}
+                                                    {convertedSizes[variant.size] && convertedSizes[variant.size] !== variant.size && (
+                                                        <span className="ml-1 text-xs opacity-70">({sizeStandard} {convertedSizes[variant.size]})</span>
+                                                    )}
                                                 </button>
                                             ))}
                                         </div>
@@ -726,6 +762,13 @@ export default function ProductPageClient() {
                                         </div>
                                     )}
 
+                                    {/* Fit Recommendation */}
+                                    {measurements.length > 0 && (
+                                        <div className="border-t border-gray-200 pt-6">
+                                            <FitRecommendationPanel skuId={product.id} selectedSize={selectedSizeName} />
+                                        </div>
+                                    )}
+
                                     {/* Measurements Section */}
                                     {measurements.length > 0 && (
                                         <div className="border-t border-gray-200 pt-6">
@@ -815,6 +858,9 @@ export default function ProductPageClient() {
                                         </div>
                                     )}
 
+                                    {/* Changelog */}
+                                    <SKUChangelog skuId={product.id} className="border-t border-gray-200 pt-6" />
+
                                     {product.code && (
                                         <div className="border-t border-gray-200 pt-6">
                                             <button
@@ -29,6 +29,7 @@ import ConversationMediaPanel from '@/components/messaging/ConversationMediaPane
 import { AlertModal } from '@/components/ui/AlertModal';
 import { ConfirmationModal } from '@/components/ui/ConfirmationModal';
 import { VerifiedBadge } from '@/components/ui/VerifiedBadge';
+import { useMessagingEvents, MessagingEvent } from '@/hooks/useMessagingEvents';
 
 // Workaround for framer-motion type issues with React 18
 const MotionDiv = motion.div as any;
@@ -76,6 +77,8 @@ interface Conversation {
 }
 
 const QUICK_EMOJIS = ['👍', '❤️', '😂', '😮', '😢', '🔥', '👏', '🎉'];
+const TYPING_THROTTLE_MS = 3000;
+const TYPING_TIMEOUT_MS = 6000;
 
 export default function ConversationPage() {
     const params = useParams();
@@ -131,6 +134,63 @@ export default function ConversationPage() {
 
     const messagesEndRef = useRef<HTMLDivElement>(null);
     const inputRef = useRef<HTMLTextAreaElement>(null);
+    const [typingUserIds, setTypingUserIds] = useState<string[]>([]);
+    const typingTimersRef = useRef<Record<string, ReturnType<typeof setTimeout>>>({});
+    const lastTypingSentRef = useRef(0);
+
+    const clearTyping = (userId: string) => {
+        clearTimeout(typingTimersRef.current[userId]);
+        delete typingTimersRef.current[userId];
+        setTypingUserIds(prev => prev.filter(id => id !== userId));
+    };
+
+    const handleMessagingEvent = (event: MessagingEvent) => {
+        if (event.type === 'presence') {
+            if (conversation?.otherParticipant?.id === event.actorId) {
+                const lastSeenAt = event.payload.online ? new Date().toISOString() : event.payload.lastSeenAt;
+                setConversation(prev => prev?.otherParticipant
+                    ? { ...prev, otherParticipant: { ...prev.otherParticipant, lastSeenAt } }
+                    : prev);
+            }
+            return;
+        }
+
+        if (!conversation || event.conversationId !== conversation.id) return;
+
+        switch (event.type) {
+            case 'typing':
+                if (event.payload.isTyping) {
+                    clearTimeout(typingTimersRef.current[event.actorId]);
+                    typingTimersRef.current[event.actorId] = setTimeout(() => clearTyping(event.actorId), TYPING_TIMEOUT_MS);
+                    setTypingUserIds(prev => prev.includes(event.actorId) ? prev : [...prev, event.actorId]);
+                } else {
+                    clearTyping(event.actorId);
+                }
+                break;
+            case 'message.created':
+                clearTyping(event.actorId);
+                setMessages(prev => prev.some(m => m.id === event.payload.message.id) ? prev : [...prev, event.payload.message]);
+                if (event.actorId !== currentUserId) {
+                    apiClient.markConversationAsRead(conversation.id);
+                }
+                break;
+            case 'message.updated':
+                setMessages(prev => prev.map(m => m.id === event.payload.message.id ? event.payload.message : m));
+                break;
+            case 'message.deleted':
+                setMessages(prev => prev.filter(m => m.id !== event.payload.messageId));
+                break;
+            case 'reaction.added':
+            case 'reaction.removed':
+                loadMessages();
+                break;
+        }
+    };
+
+    const { sendTyping } = useMessagingEvents(handleMessagingEvent, () => {
+        loadConversation();
+        loadMessages();
+    });
 
     useEffect(() => {
         if (!conversation) return;
@@ -446,6 +506,11 @@ export default function ConversationPage() {
         const val = e.target.value;
         setMessageInput(val);
 
+        if (conversation && val && Date.now() - lastTypingSentRef.current > TYPING_THROTTLE_MS) {
+            lastTypingSentRef.current = Date.now();
+            sendTyping(conversation.id, true);
+        }
+
         // Simple mention detection: check if typing after an @
         const parts = val.split(' ');
         const lastPart = parts[parts.length - 1];
@@ -569,7 +634,11 @@ export default function ConversationPage() {
                                     <VerifiedBadge size="sm" />
                                 )}
                         </h1>
-                        {conversation?.conversationType === 'direct' && conversation.otherParticipant && (
+                        {typingUserIds.length > 0 ? (
+                            <span className="text-xs text-gray-500 block -mt-1">
+                                {conversation?.conversationType === 'direct' || typingUserIds.length === 1 ? 'typing…' : `${typingUserIds.length} people typing…`}
+                            </span>
+                        ) : conversation?.conversationType === 'direct' && conversation.otherParticipant && (
                             <div className="-mt-1">
                                 <OnlineIndicator
                                     lastSeen={conversation.otherParticipant.lastSeenAt}
@@ -577,10 +646,10 @@ export default function ConversationPage() {
                                 />
                             </div>
                         )}
-                        {conversation?.conversationType === 'group' && (
+                        {typingUserIds.length === 0 && conversation?.conversationType === 'group' && (
                             <span className="text-xs text-gray-500 block -mt-1">Tap to edit info</span>
                         )}
-                        {conversation?.conversationType === 'entity' && (
+                        {typingUserIds.length === 0 && conversation?.conversationType === 'entity' && (
                             <span className="text-xs text-gray-500 block -mt-1">Tap to view profile</span>
                         )}
                     </div>
@@ -192,6 +192,7 @@ export default function WardrobeItemDetailClient() {
 
     // BG Removal State
     const [isRemovingBackground, setIsRemovingBackground] = useState(false);
+    const [bgProgress, setBgProgress] = useState<number | null>(null);
     // Initialize from localStorage, default to true (show original)
     const [showOriginalBackground, setShowOriginalBackground] = useState(() => {
         if (typeof window !== 'undefined') {
@@ -415,36 +416,54 @@ export default function WardrobeItemDetailClient() {
         if (imagesToProcess.length === 0) return;
 
         setIsRemovingBackground(true);
+        setBgProgress(0);
         try {
-            const response = await apiClient.batchRemoveBackground(
+            let batch = await apiClient.batchRemoveBackground(
                 item.id,
                 imagesToProcess.map(img => img!.id),
                 {
                     quality: bgQuality,
                     featherRadius: bgFeatherRadius,
                     outputRatio: bgOutputRatio
-                }
+                },
+                `bg-${item.id}-${Date.now()}`
             );
 
-            if (response.results) {
-                const previewItems: any[] = [];
-                const newProcessedImages: any[] = [];
-
-                response.results.forEach((res: any) => {
-                    if (res.image) {
-                        newProcessedImages.push(res.image);
-                        const originalImg = imagesToProcess.find((img: any) => img.id === res.image.aiAnalysis?.originalImageId);
-                        if (originalImg) {
-                            previewItems.push({
-                                id: res.image.id,
-                                originalUrl: originalImg.url,
-                                processedUrl: res.image.url,
-                                originalId: originalImg.id
-                            });
-                        }
-                    }
-                });
+            // Processing runs on the server queue; poll until every job has finished
+            while (batch.status !== 'completed') {
+                setBgProgress(batch.progress);
+                await new Promise(resolve => setTimeout(resolve, 1500));
+                batch = await apiClient.getImageJobBatch(batch.batch.id);
+            }
+
+            const previewItems: any[] = [];
+            const newProcessedImages: any[] = [];
+
+            batch.jobs.forEach(job => {
+                if (job.status !== 'succeeded' || !job.result) return;
+                const originalImg = imagesToProcess.find((img: any) => img.id === job.result!.originalImageId);
+                const processed = {
+                    id: job.result.imageId,
+                    url: job.result.imageUrl,
+                    type: 'background_removed',
+                    aiAnalysis: { backgroundRemoved: true, originalImageId: job.result.originalImageId }
+                };
+                newProcessedImages.push(processed);
+                if (originalImg) {
+                    previewItems.push({
+                        id: processed.id,
+                        originalUrl: originalImg.url,
+                        processedUrl: processed.url,
+                        originalId: originalImg.id
+                    });
+                }
+            });
+
+            if (batch.counts.failed > 0) {
+                toast.error(`${batch.counts.failed} image(s) could not be processed`);
+            }
 
+            if (previewItems.length > 0) {
                 setPendingBatchImages(newProcessedImages);
                 setBatchPreviewItems(previewItems);
                 setShowBatchPreview(true);
@@ -454,6 +473,7 @@ export default function WardrobeItemDetailClient() {
             showMessage('Error', 'Failed to remove background: ' + (err.message || 'Unknown error'), 'error');
         } finally {
             setIsRemovingBackground(false);
+            setBgProgress(null);
         }
     };
 
@@ -651,7 +671,7 @@ export default function WardrobeItemDetailClient() {
                                     loading={isRemovingBackground}
                                 >
                                     <PhotoIcon className="h-4 w-4 mr-2" />
-                                    {selectedImages.size > 0 ? `Remove BG (${selectedImages.size})` : 'Remove Background'}
+                                    {bgProgress !== null ? `Removing BG… ${bgProgress}%` : selectedImages.size > 0 ? `Remove BG (${selectedImages.size})` : 'Remove Background'}
                                 </Button>
                                 <button
                                     className={`px-2 border border-l-0 border-gray-200 rounded-r-lg transition-colors ${showBgOptions ? 'bg-indigo-50 text-indigo-600' : 'bg-white hover:bg-gray-50 text-gray-500'}`}
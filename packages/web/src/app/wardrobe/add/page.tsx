@@ -5,7 +5,7 @@ import { useRouter } from 'next/navigation';
 
 import { Button } from '@/components/ui/Button';
 import { useAuth } from '@/contexts/AuthWrapper';
-import { apiClient } from '@/lib/api';
+import { apiClient, SizeConversionResult } from '@/lib/api';
 import {
     PhotoIcon,
     ChevronLeftIcon,
@@ -153,6 +153,7 @@ export default function AddWardrobeItemPage() {
         skuItemId: undefined as string | undefined, // Added
         customAttributes: {} as Record<string, string>
     });
+    const [sizeConversion, setSizeConversion] = useState<SizeConversionResult | null>(null);
 
     // SKU Search Effect
     useEffect(() => {
@@ -318,6 +319,24 @@ export default function AddWardrobeItemPage() {
         setItems(prev => [...prev, ...newItems]);
     };
 
+    // Show the entered size in other standards, by the linked SKU's brand chart when there is one
+    useEffect(() => {
+        if (!formData.size) {
+            setSizeConversion(null);
+            return;
+        }
+        const timer = setTimeout(async () => {
+            try {
+                const category = ['Shoes', 'Sneakers', 'Boots', 'Sandals'].includes(formData.category) ? 'footwear' : 'apparel';
+                const [result] = await apiClient.convertSizes([formData.size], formData.skuItemId ? { skuId: formData.skuItemId } : { category });
+                setSizeConversion(result && Object.keys(result.conversions).length > 0 ? result : null);
+            } catch {
+                setSizeConversion(null);
+            }
+        }, 400);
+        return () => clearTimeout(timer);
+    }, [formData.size, formData.category, formData.skuItemId]);
+
     // Auto-process images when they are added
     useEffect(() => {
         if (items.length > 0 && !processing && step === 1) {
@@ -921,6 +940,11 @@ export default function AddWardrobeItemPage() {
                                                 placeholder="^"
                                                 freeSolo
                                             />
+                                            {sizeConversion && (
+                                                <p className="mt-1 text-xs text-gray-500">
+                                                    {Object.entries(sizeConversion.conversions).map(([standard, value]) => `${standard} ${value}`).join(' · ')}
+                                                </p>
+                                            )}
                                         </div>
 
                                         {/* Condition */}
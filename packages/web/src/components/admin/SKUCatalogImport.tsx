@@ -0,0 +1,165 @@
+'use client';
+
+import React, { useRef, useState } from 'react';
+import toast from 'react-hot-toast';
+import { ArrowDownTrayIcon, ArrowUpTrayIcon } from '@heroicons/react/24/outline';
+import { Button } from '@/components/ui/Button';
+import { apiClient } from '@/lib/api';
+import type { SKUImportReport } from '@/lib/api';
+
+interface SKUCatalogImportProps {
+    brandId: string;
+    onImported?: () => void;
+}
+
+type CatalogFormat = 'csv' | 'xlsx' | 'json';
+
+/**
+ * Bulk catalog import with a validation preview, plus catalog export
+ */
+export default function SKUCatalogImport({ brandId, onImported }: SKUCatalogImportProps) {
+    const fileInput = useRef<HTMLInputElement>(null);
+    const [file, setFile] = useState<File | null>(null);
+    const [report, setReport] = useState<SKUImportReport | null>(null);
+    const [busy, setBusy] = useState(false);
+
+    const validate = async (selected: File) => {
+        setFile(selected);
+        setReport(null);
+        setBusy(true);
+        try {
+            const result = await apiClient.importSKUs(brandId, selected, true);
+            setReport(result.report);
+        } catch (error: any) {
+            toast.error(error.message || 'Could not read the file');
+            setFile(null);
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const commit = async () => {
+        if (!file) return;
+        setBusy(true);
+        try {
+            const result = await apiClient.importSKUs(brandId, file, false);
+            setReport(result.report);
+            if (result.report.committed) {
+                toast.success(`Imported ${result.report.totalRows + result.report.generatedParents.length} SKU(s)`);
+                setFile(null);
+                setReport(null);
+                onImported?.();
+            } else {
+                toast.error(result.error || 'Import has validation errors');
+            }
+        } catch (error: any) {
+            toast.error(error.message || 'Import failed');
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const download = async (format: CatalogFormat) => {
+        try {
+            const blob = await apiClient.exportSKUs(brandId, format);
+            const url = URL.createObjectURL(blob);
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = `sku-catalog.${format}`;
+            link.click();
+            URL.revokeObjectURL(url);
+        } catch (error: any) {
+            toast.error(error.message || 'Export failed');
+        }
+    };
+
+    const issues = (report?.rows || []).filter(row => row.errors.length > 0 || row.warnings.length > 0);
+
+    return (
+        <div className="bg-white shadow sm:rounded-md p-4 space-y-4">
+            <div className="flex flex-wrap items-center gap-2">
+                <input
+                    ref={fileInput}
+                    type="file"
+                    accept=".csv,.xlsx,.json,text/csv,application/json,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+                    className="hidden"
+                    onChange={(e) => {
+                        const selected = e.target.files?.[0];
+                        if (selected) validate(selected);
+                        e.target.value = '';
+                    }}
+                />
+                <Button variant="outline" size="sm" disabled={busy} onClick={() => fileInput.current?.click()}>
+                    <ArrowUpTrayIcon className="h-4 w-4 mr-2" />
+                    Import catalog
+                </Button>
+                <span className="text-sm text-gray-500 mr-auto">CSV, XLSX or JSON; rows with a parent_code become variants</span>
+                {(['csv', 'xlsx', 'json'] as CatalogFormat[]).map(format => (
+                    <Button key={format} variant="ghost" size="sm" onClick={() => download(format)}>
+                        <ArrowDownTrayIcon className="h-4 w-4 mr-1" />
+                        {format.toUpperCase()}
+                    </Button>
+                ))}
+            </div>
+
+            {busy && !report && <p className="text-sm text-gray-500">Validating {file?.name}...</p>}
+
+            {report && (
+                <div className="space-y-3">
+                    <div className="flex flex-wrap items-center gap-4 text-sm">
+                        <span className="font-medium text-gray-900">{file?.name}</span>
+                        <span className="text-gray-600">{report.totalRows} rows</span>
+                        <span className="text-green-700">{report.validRows} valid</span>
+                        {report.invalidRows > 0 && <span className="text-red-700">{report.invalidRows} with errors</span>}
+                        <span className="text-gray-600">{report.parents} parents, {report.variants} variants</span>
+                        {report.generatedParents.length > 0 && (
+                            <span className="text-gray-600">new parents: {report.generatedParents.join(', ')}</span>
+                        )}
+                    </div>
+                    {report.ignoredColumns.length > 0 && (
+                        <p className="text-xs text-gray-500">Ignored columns: {report.ignoredColumns.join(', ')}</p>
+                    )}
+
+                    {issues.length > 0 && (
+                        <div className="max-h-64 overflow-y-auto border border-gray-200 rounded">
+                            <table className="min-w-full text-sm">
+                                <thead className="bg-gray-50 text-left text-gray-600">
+                                    <tr>
+                                        <th className="px-3 py-2">Row</th>
+                                        <th className="px-3 py-2">Code</th>
+                                        <th className="px-3 py-2">Issues</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-gray-100">
+                                    {issues.map(row => (
+                                        <tr key={row.row}>
+                                            <td className="px-3 py-2 text-gray-500">{row.row}</td>
+                                            <td className="px-3 py-2 font-mono">{row.code || '—'}</td>
+                                            <td className="px-3 py-2">
+                                                {row.errors.map((issue, index) => (
+                                                    <p key={`e${index}`} className="text-red-700">{issue.field}: {issue.message}</p>
+                                                ))}
+                                                {row.warnings.map((issue, index) => (
+                                                    <p key={`w${index}`} className="text-amber-700">{issue.field}: {issue.message}</p>
+                                                ))}
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+
+                    <div className="flex gap-2">
+                        <Button size="sm" disabled={busy || report.invalidRows > 0} onClick={commit}>
+                            {busy ? 'Importing...' : `Import ${report.totalRows} row(s)`}
+                        </Button>
+                        <Button variant="ghost" size="sm" disabled={busy} onClick={() => { setFile(null); setReport(null); }}>
+                            Cancel
+                        </Button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -8,6 +8,7 @@ import MediaUploader from './MediaUploader';
 import { PencilIcon, TrashIcon, MagnifyingGlassIcon, PlusIcon } from '@heroicons/react/24/outline';
 import SearchableCombobox from '../ui/Combobox';
 import { ConfirmationModal } from '../ui/ConfirmationModal';
+import SKUCatalogImport from './SKUCatalogImport';
 
 interface SKUManagementProps {
     brandId: string;
@@ -603,6 +604,8 @@ export default function SKUManagement({ brandId }: SKUManagementProps) {
                 </Button>
             </div>
 
+            <SKUCatalogImport brandId={brandId} onImported={fetchSkus} />
+
             {/* SKU List */}
             <div className="bg-white shadow overflow-hidden sm:rounded-md">
                 <ul className="divide-y divide-gray-200">
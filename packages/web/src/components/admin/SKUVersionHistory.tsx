@@ -0,0 +1,135 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { ArrowUturnLeftIcon } from '@heroicons/react/24/outline';
+import { Button } from '@/components/ui/Button';
+import { ConfirmationModal } from '@/components/ui/ConfirmationModal';
+import { apiClient } from '@/lib/api';
+import type { SKUVersion } from '@/lib/api';
+
+interface SKUVersionHistoryProps {
+    skuId: string;
+    /** Called with the SKU as it is after a rollback */
+    onRolledBack?: (sku: any) => void;
+}
+
+const formatValue = (value: any): string => {
+    if (value === null || value === undefined || value === '') return '—';
+    if (Array.isArray(value)) {
+        return value.length === 0 ? '—' : value.map(entry => (typeof entry === 'object' ? entry.url || JSON.stringify(entry) : entry)).join(', ');
+    }
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+};
+
+/**
+ * Version history of a SKU with field-level diffs and rollback
+ */
+export default function SKUVersionHistory({ skuId, onRolledBack }: SKUVersionHistoryProps) {
+    const [versions, setVersions] = useState<SKUVersion[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [rollbackTarget, setRollbackTarget] = useState<number | null>(null);
+    const [rollingBack, setRollingBack] = useState(false);
+
+    const load = async () => {
+        try {
+            const result = await apiClient.getSKUVersions(skuId);
+            setVersions(result.versions || []);
+        } catch (error) {
+            console.error('Failed to load SKU history', error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        load();
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [skuId]);
+
+    const rollback = async () => {
+        if (rollbackTarget === null) return;
+        setRollingBack(true);
+        try {
+            const sku = await apiClient.rollbackSKU(skuId, rollbackTarget);
+            toast.success(`Rolled back to version ${rollbackTarget}`);
+            setRollbackTarget(null);
+            await load();
+            onRolledBack?.(sku);
+        } catch (error: any) {
+            toast.error(error.message || 'Rollback failed');
+        } finally {
+            setRollingBack(false);
+        }
+    };
+
+    if (loading) {
+        return <p className="text-sm text-gray-500">Loading history...</p>;
+    }
+
+    const latest = versions[0]?.version;
+
+    return (
+        <div className="bg-white shadow sm:rounded-md">
+            <h3 className="px-4 py-3 border-b border-gray-200 text-sm font-medium text-gray-900">Version history</h3>
+            {versions.length === 0 ? (
+                <p className="px-4 py-4 text-sm text-gray-500">No changes recorded yet.</p>
+            ) : (
+                <ul className="divide-y divide-gray-100">
+                    {versions.map(version => (
+                        <li key={version.id} className="px-4 py-3 space-y-2">
+                            <div className="flex items-center justify-between gap-4">
+                                <div className="text-sm">
+                                    <span className="font-medium text-gray-900">v{version.version}</span>
+                                    <span className="ml-2 text-gray-500">{new Date(version.createdAt).toLocaleString()}</span>
+                                    {version.changedBy && (
+                                        <span className="ml-2 text-gray-700">
+                                            {version.changedBy.name || version.changedBy.username || 'Unknown user'}
+                                            {(version.changedBy.teamTitle || version.changedBy.teamRoles.length > 0) && (
+                                                <span className="text-gray-500"> · {version.changedBy.teamTitle || version.changedBy.teamRoles.join(', ')}</span>
+                                            )}
+                                        </span>
+                                    )}
+                                    {version.changeType === 'baseline' && <span className="ml-2 text-gray-500">Original</span>}
+                                    {version.changeType === 'rollback' && (
+                                        <span className="ml-2 rounded bg-amber-100 px-1.5 py-0.5 text-xs text-amber-800">Rollback to v{version.rolledBackTo}</span>
+                                    )}
+                                </div>
+                                {version.version !== latest && (
+                                    <Button variant="ghost" size="sm" onClick={() => setRollbackTarget(version.version)}>
+                                        <ArrowUturnLeftIcon className="h-4 w-4 mr-1" />
+                                        Restore
+                                    </Button>
+                                )}
+                            </div>
+                            {version.changes.length > 0 && (
+                                <table className="w-full text-xs">
+                                    <tbody>
+                                        {version.changes.map(change => (
+                                            <tr key={change.field} className="align-top">
+                                                <td className="py-0.5 pr-3 font-medium text-gray-700 whitespace-nowrap">{change.field}</td>
+                                                <td className="py-0.5 pr-3 text-red-700 line-through break-all">{formatValue(change.from)}</td>
+                                                <td className="py-0.5 text-green-700 break-all">{formatValue(change.to)}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            <ConfirmationModal
+                isOpen={rollbackTarget !== null}
+                onClose={() => setRollbackTarget(null)}
+                onConfirm={rollback}
+                title="Restore version"
+                message={`Restore this SKU to version ${rollbackTarget}? The rollback is saved as a new version and can be undone.`}
+                confirmText="Restore"
+                isLoading={rollingBack}
+            />
+        </div>
+    );
+}
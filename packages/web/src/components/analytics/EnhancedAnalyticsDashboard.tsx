@@ -7,6 +7,7 @@ import StyleDNAAnalysis from './StyleDNAAnalysis';
 import WardrobeOptimization from './WardrobeOptimization';
 import TrendPredictions from './TrendPredictions';
 import ItemValuationAnalytics from './ItemValuationAnalytics';
+import WearAnalyticsPanel from './WearAnalyticsPanel';
 import FloatingActionButton from '../ui/FloatingActionButton';
 
 interface AnalyticsInsight {
@@ -33,7 +34,7 @@ export default function EnhancedAnalyticsDashboard({
   valuationData,
   loading = false
 }: EnhancedAnalyticsDashboardProps) {
-  const [activeSection, setActiveSection] = useState<'dna' | 'optimization' | 'trends' | 'valuation'>('dna');
+  const [activeSection, setActiveSection] = useState<'dna' | 'optimization' | 'trends' | 'valuation' | 'wear'>('dna');
   const [insights, setInsights] = useState<AnalyticsInsight[]>([]);
   const [showInsights, setShowInsights] = useState(false);
 
@@ -209,12 +210,13 @@ export default function EnhancedAnalyticsDashboard({
           className="mb-8"
         >
           <nav className="bg-[#00132d]/5 rounded-2xl shadow-lg p-2 border border-[#00132d]/20">
-            <div className="grid grid-cols-2 lg:grid-cols-4 gap-2">
+            <div className="grid grid-cols-2 lg:grid-cols-5 gap-2">
               {[
                 { key: 'dna', label: 'Style DNA' },
                 { key: 'optimization', label: 'Optimization' },
                 { key: 'trends', label: 'Trends' },
-                { key: 'valuation', label: 'Analytics' }
+                { key: 'valuation', label: 'Analytics' },
+                { key: 'wear', label: 'Wear Tracking' }
               ].map((section) => (
                 <motion.button
                   key={section.key}
@@ -282,6 +284,10 @@ export default function EnhancedAnalyticsDashboard({
                 loading={false}
               />
             )}
+
+            {activeSection === 'wear' && (
+              <WearAnalyticsPanel />
+            )}
           </motion.div>
         </AnimatePresence>
 
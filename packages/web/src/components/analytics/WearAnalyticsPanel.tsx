@@ -0,0 +1,261 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { apiClient } from '@/lib/api';
+
+interface ItemWearSummary {
+  itemId: string;
+  name: string;
+  brand?: string;
+  category: string;
+  color?: string;
+  imageUrl?: string;
+  purchasePrice?: number;
+  wearCount: number;
+  costPerWear?: number;
+  lastWornAt?: string;
+  daysSinceWorn: number;
+}
+
+interface WearBreakdown {
+  key: string;
+  wearCount: number;
+  itemCount: number;
+  percentage: number;
+}
+
+interface DormantItemSuggestion extends ItemWearSummary {
+  action: 'sell' | 'donate';
+  reason: string;
+  estimatedValue?: number;
+}
+
+interface WearAnalytics {
+  dormantDays: number;
+  summary: {
+    totalItems: number;
+    totalWears: number;
+    totalSpent: number;
+    averageCostPerWear?: number;
+    dormantItems: number;
+    neverWornItems: number;
+  };
+  costPerWear: ItemWearSummary[];
+  dormant: ItemWearSummary[];
+  byCategory: WearBreakdown[];
+  byColor: WearBreakdown[];
+  bySeason: Record<'summer' | 'autumn' | 'winter' | 'spring', number>;
+  suggestions: DormantItemSuggestion[];
+}
+
+const DORMANT_OPTIONS = [30, 60, 90, 180, 365];
+
+const formatCurrency = (value?: number) =>
+  value === undefined ? '—' : `R$ ${value.toFixed(2)}`;
+
+function BreakdownList({ title, rows }: { title: string; rows: WearBreakdown[] }) {
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <h3 className="text-lg font-semibold text-[#00132d] mb-4">{title}</h3>
+      {rows.length === 0 ? (
+        <p className="text-sm text-[#00132d]/60">No wear recorded yet.</p>
+      ) : (
+        <div className="space-y-3">
+          {rows.slice(0, 8).map((row) => (
+            <div key={row.key}>
+              <div className="flex justify-between text-sm text-[#00132d] mb-1">
+                <span>{row.key} <span className="text-[#00132d]/50">({row.itemCount} items)</span></span>
+                <span>{row.wearCount} wears</span>
+              </div>
+              <div className="w-full bg-[#00132d]/10 rounded-full h-2">
+                <div className="bg-[#00132d] h-2 rounded-full" style={{ width: `${row.percentage}%` }} />
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function WearAnalyticsPanel() {
+  const [dormantDays, setDormantDays] = useState(90);
+  const [analytics, setAnalytics] = useState<WearAnalytics | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    apiClient.getWearAnalytics(dormantDays)
+      .then((data) => {
+        if (!cancelled) setAnalytics(data);
+      })
+      .catch((err) => {
+        console.error('Failed to load wear analytics:', err);
+        if (!cancelled) setError('Could not load wear analytics.');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [dormantDays]);
+
+  if (loading && !analytics) {
+    return (
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <div className="animate-pulse">
+          <div className="h-6 bg-gray-200 rounded mb-4"></div>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            {[1, 2, 3, 4].map((i) => (
+              <div key={i} className="h-20 bg-gray-200 rounded"></div>
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !analytics) {
+    return (
+      <div className="bg-white rounded-lg shadow-md p-6 text-[#00132d]/70">
+        {error || 'No wear data available.'}
+      </div>
+    );
+  }
+
+  const { summary } = analytics;
+  const seasonTotal = Object.values(analytics.bySeason).reduce((sum, value) => sum + value, 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-bold text-[#00132d]">Wear Tracking</h2>
+        <label className="text-sm text-[#00132d]/70 flex items-center space-x-2">
+          <span>Dormant after</span>
+          <select
+            value={dormantDays}
+            onChange={(e) => setDormantDays(Number(e.target.value))}
+            className="border border-[#00132d]/20 rounded-md px-2 py-1 text-[#00132d]"
+          >
+            {DORMANT_OPTIONS.map((days) => (
+              <option key={days} value={days}>{days} days</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {[
+          { label: 'Total Wears', value: summary.totalWears.toString() },
+          { label: 'Avg. Cost per Wear', value: formatCurrency(summary.averageCostPerWear) },
+          { label: 'Dormant Items', value: `${summary.dormantItems} / ${summary.totalItems}` },
+          { label: 'Never Worn', value: summary.neverWornItems.toString() },
+        ].map((stat) => (
+          <div key={stat.label} className="bg-white rounded-lg shadow-md p-4 text-center">
+            <div className="text-2xl font-bold text-[#00132d]">{stat.value}</div>
+            <div className="text-sm text-[#00132d]/70">{stat.label}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <h3 className="text-lg font-semibold text-[#00132d] mb-4">Highest Cost per Wear</h3>
+          {analytics.costPerWear.length === 0 ? (
+            <p className="text-sm text-[#00132d]/60">Add purchase prices to your items to see cost per wear.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-[#00132d]/60">
+                  <th className="pb-2">Item</th>
+                  <th className="pb-2 text-right">Price</th>
+                  <th className="pb-2 text-right">Wears</th>
+                  <th className="pb-2 text-right">Per wear</th>
+                </tr>
+              </thead>
+              <tbody>
+                {analytics.costPerWear.slice(0, 10).map((item) => (
+                  <tr key={item.itemId} className="border-t border-[#00132d]/10 text-[#00132d]">
+                    <td className="py-2">{item.name}{item.brand && <span className="text-[#00132d]/50"> · {item.brand}</span>}</td>
+                    <td className="py-2 text-right">{formatCurrency(item.purchasePrice)}</td>
+                    <td className="py-2 text-right">{item.wearCount}</td>
+                    <td className="py-2 text-right font-medium">{formatCurrency(item.costPerWear)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <h3 className="text-lg font-semibold text-[#00132d] mb-4">Wears by Season</h3>
+          <div className="grid grid-cols-2 gap-4">
+            {(['summer', 'autumn', 'winter', 'spring'] as const).map((season) => (
+              <div key={season} className="p-4 rounded-lg bg-[#00132d]/5">
+                <div className="text-sm capitalize text-[#00132d]/70">{season}</div>
+                <div className="text-xl font-bold text-[#00132d]">{analytics.bySeason[season]}</div>
+                <div className="text-xs text-[#00132d]/50">
+                  {seasonTotal > 0 ? Math.round((analytics.bySeason[season] / seasonTotal) * 100) : 0}% of wears
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <BreakdownList title="Wears by Category" rows={analytics.byCategory} />
+        <BreakdownList title="Wears by Color" rows={analytics.byColor} />
+      </div>
+
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <h3 className="text-lg font-semibold text-[#00132d] mb-1">
+          Not Worn in {analytics.dormantDays} Days
+        </h3>
+        <p className="text-sm text-[#00132d]/60 mb-4">
+          Items you could move to the marketplace or donate.
+        </p>
+        {analytics.suggestions.length === 0 ? (
+          <p className="text-sm text-[#00132d]/60">Everything in your wardrobe is in rotation.</p>
+        ) : (
+          <div className="space-y-3">
+            {analytics.suggestions.map((item) => (
+              <div key={item.itemId} className="flex items-center justify-between p-3 rounded-lg border border-[#00132d]/10">
+                <div className="flex items-center space-x-3">
+                  {item.imageUrl ? (
+                    <img src={item.imageUrl} alt={item.name} className="w-12 h-12 object-cover rounded" />
+                  ) : (
+                    <div className="w-12 h-12 rounded bg-[#00132d]/10" />
+                  )}
+                  <div>
+                    <div className="font-medium text-[#00132d]">{item.name}</div>
+                    <div className="text-xs text-[#00132d]/60">
+                      {item.lastWornAt ? `Last worn ${item.daysSinceWorn} days ago` : 'Never worn'} · {item.reason}
+                    </div>
+                  </div>
+                </div>
+                {item.action === 'sell' ? (
+                  <Link
+                    href="/marketplace/sell"
+                    className="text-sm bg-[#00132d] text-[#fff7d7] px-3 py-1 rounded-full"
+                  >
+                    Sell
+                  </Link>
+                ) : (
+                  <span className="text-sm bg-[#00132d]/10 text-[#00132d] px-3 py-1 rounded-full">
+                    Donate
+                  </span>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
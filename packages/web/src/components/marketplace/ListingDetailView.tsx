@@ -19,6 +19,7 @@ import {
 import { toast } from 'react-hot-toast';
 import { HeartIcon as HeartSolidIcon } from '@heroicons/react/24/solid';
 import { getImageUrl } from '@/utils/imageUrl';
+import FitRecommendationPanel from '@/components/ui/FitRecommendationPanel';
 
 interface ListingDetail {
     id: string;
@@ -276,6 +277,9 @@ export default function ListingDetailView({ initialListing, initialSeller }: Lis
                             </div>
                         </div>
 
+                        {/* Fit */}
+                        {!isOwner && <FitRecommendationPanel listingId={listing.id} />}
+
                         {/* Seller Info */}
                         {seller && (
                             <div className="border-t border-gray-200 pt-6">
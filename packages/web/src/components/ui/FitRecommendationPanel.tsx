@@ -0,0 +1,164 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { apiClient, FitRecommendation, FitVerdict, SizeFit } from '@/lib/api';
+import { useAuth } from '@/contexts/AuthContext';
+
+interface FitRecommendationPanelProps {
+    skuId?: string;
+    listingId?: string;
+    /** Size currently picked on the page, shown instead of the recommended one */
+    selectedSize?: string | null;
+}
+
+const verdictStyles: Record<FitVerdict, { label: string; color: string }> = {
+    tight: { label: 'Runs tight', color: 'bg-orange-100 text-orange-700' },
+    true: { label: 'True to size', color: 'bg-green-100 text-green-700' },
+    loose: { label: 'Runs loose', color: 'bg-blue-100 text-blue-700' },
+};
+
+const dimensionLabels: Record<SizeFit['poms'][number]['dimension'], string> = {
+    chest: 'Chest',
+    waist: 'Waist',
+    hips: 'Hips',
+    length: 'Length',
+    inseam: 'Inseam',
+    shoulders: 'Shoulders',
+    sleeve: 'Sleeve',
+};
+
+/**
+ * Size recommendation for a SKU or marketplace listing, based on the user's
+ * body measurements or a wardrobe item they pick as a reference
+ */
+export default function FitRecommendationPanel({ skuId, listingId, selectedSize }: FitRecommendationPanelProps) {
+    const { user } = useAuth();
+    const [fit, setFit] = useState<FitRecommendation | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [referenceItemId, setReferenceItemId] = useState('');
+    const [wardrobeItems, setWardrobeItems] = useState<any[]>([]);
+
+    useEffect(() => {
+        if (!user) return;
+        apiClient.getWardrobeItems({ limit: 100 })
+            .then(result => setWardrobeItems(result.items || []))
+            .catch(() => setWardrobeItems([]));
+    }, [user]);
+
+    useEffect(() => {
+        if (!user || (!skuId && !listingId)) return;
+
+        let cancelled = false;
+        setLoading(true);
+        setError(null);
+        const request = listingId
+            ? apiClient.getListingFit(listingId, referenceItemId || undefined)
+            : apiClient.getSKUFit(skuId as string, referenceItemId || undefined);
+
+        request
+            .then(result => { if (!cancelled) setFit(result); })
+            .catch((err: any) => { if (!cancelled) setError(err?.message || 'Could not load fit'); })
+            .finally(() => { if (!cancelled) setLoading(false); });
+
+        return () => { cancelled = true; };
+    }, [user, skuId, listingId, referenceItemId]);
+
+    if (!user) {
+        return (
+            <div className="rounded-xl border border-gray-200 p-4 text-sm text-gray-600">
+                <Link href="/login" className="font-medium text-gray-900 underline">Sign in</Link> to get a size recommendation.
+            </div>
+        );
+    }
+
+    const shownFit = (selectedSize && fit?.sizes.find(size => size.size.toLowerCase() === selectedSize.toLowerCase()))
+        || fit?.listingFit
+        || fit?.sizes.find(size => size.size === fit.recommendedSize)
+        || null;
+
+    return (
+        <div className="rounded-xl border border-gray-200 p-4 space-y-3">
+            <div className="flex items-center justify-between gap-2">
+                <h3 className="text-sm font-medium text-gray-900">Your Fit</h3>
+                <select
+                    value={referenceItemId}
+                    onChange={(e) => setReferenceItemId(e.target.value)}
+                    className="text-xs border border-gray-300 rounded-lg px-2 py-1 max-w-[60%]"
+                >
+                    <option value="">My body measurements</option>
+                    {wardrobeItems.map(item => (
+                        <option key={item.id} value={item.id}>
+                            Fits like: {item.name || item.metadata?.name || item.brand?.brand || 'Wardrobe item'}
+                            {item.metadata?.size ? ` (${item.metadata.size})` : ''}
+                        </option>
+                    ))}
+                </select>
+            </div>
+
+            {loading && <p className="text-sm text-gray-500">Checking your fit...</p>}
+
+            {!loading && error && <p className="text-sm text-red-600">{error}</p>}
+
+            {!loading && !error && fit?.missing === 'body_measurements' && (
+                <p className="text-sm text-gray-600">
+                    Add your chest, waist and other measurements in your{' '}
+                    <Link href="/profile" className="font-medium text-gray-900 underline">profile</Link>
+                    , or pick a wardrobe item that fits you well.
+                </p>
+            )}
+
+            {!loading && !error && fit?.missing === 'garment_measurements' && (
+                <p className="text-sm text-gray-600">This item has no measurements to compare with yet.</p>
+            )}
+
+            {!loading && !error && fit?.recommendedSize && (
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <span className="text-gray-600">Recommended size</span>
+                    <span className="font-bold text-gray-900">{fit.recommendedSize}</span>
+                    {fit.verdict && (
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${verdictStyles[fit.verdict].color}`}>
+                            {verdictStyles[fit.verdict].label}
+                        </span>
+                    )}
+                </div>
+            )}
+
+            {!loading && !error && shownFit && (
+                <div>
+                    {shownFit.size !== fit?.recommendedSize && (
+                        <p className="text-xs text-gray-500 mb-1">
+                            Size {shownFit.size}:{' '}
+                            <span className={`px-2 py-0.5 rounded-full font-medium ${verdictStyles[shownFit.verdict].color}`}>
+                                {verdictStyles[shownFit.verdict].label}
+                            </span>
+                        </p>
+                    )}
+                    <table className="min-w-full text-xs">
+                        <thead>
+                            <tr className="border-b border-gray-200 text-gray-500">
+                                <th className="text-left py-1 font-medium"></th>
+                                <th className="text-right py-1 font-medium">Garment</th>
+                                <th className="text-right py-1 font-medium">{fit?.basis === 'reference' ? 'Reference' : 'You'}</th>
+                                <th className="text-right py-1 font-medium">Ease</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {shownFit.poms.map(pom => (
+                                <tr key={pom.pomCode} className="border-b border-gray-100">
+                                    <td className="py-1 text-gray-700">{pom.pomName || dimensionLabels[pom.dimension]}</td>
+                                    <td className="py-1 text-right text-gray-600">{pom.garment} cm</td>
+                                    <td className="py-1 text-right text-gray-600">{pom.target} cm</td>
+                                    <td className={`py-1 text-right font-medium ${pom.verdict === 'true' ? 'text-green-700' : pom.verdict === 'tight' ? 'text-orange-700' : 'text-blue-700'}`}>
+                                        {pom.ease > 0 ? '+' : ''}{pom.ease} cm
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+}
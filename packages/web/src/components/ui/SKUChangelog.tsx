@@ -0,0 +1,75 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { ChevronDownIcon, ChevronUpIcon } from '@heroicons/react/24/outline';
+import { apiClient } from '@/lib/api';
+import type { SKUChangelog as Changelog } from '@/lib/api';
+
+interface SKUChangelogProps {
+    skuId: string;
+    className?: string;
+}
+
+const formatValue = (field: string, value: any): string => {
+    if (value === null || value === undefined || value === '') return '—';
+    if (field.startsWith('retailPrice')) {
+        const currency = field.slice('retailPrice'.length).toUpperCase();
+        return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(Number(value));
+    }
+    if (field === 'releaseDate') return new Date(`${value}T00:00:00`).toLocaleDateString();
+    return String(value);
+};
+
+/**
+ * "Last updated" line with the SKU's public changelog
+ */
+export default function SKUChangelog({ skuId, className }: SKUChangelogProps) {
+    const [changelog, setChangelog] = useState<Changelog | null>(null);
+    const [open, setOpen] = useState(false);
+
+    useEffect(() => {
+        let cancelled = false;
+        apiClient.getSKUChangelog(skuId)
+            .then(result => { if (!cancelled) setChangelog(result); })
+            .catch(() => { if (!cancelled) setChangelog(null); });
+        return () => { cancelled = true; };
+    }, [skuId]);
+
+    if (!changelog?.lastUpdatedAt) return null;
+
+    return (
+        <div className={className}>
+            <button
+                onClick={() => setOpen(!open)}
+                disabled={changelog.entries.length === 0}
+                className="flex items-center justify-between w-full text-left"
+            >
+                <span className="text-xs text-gray-500">
+                    Last updated {new Date(changelog.lastUpdatedAt).toLocaleDateString()}
+                </span>
+                {changelog.entries.length > 0 && (open
+                    ? <ChevronUpIcon className="h-4 w-4 text-gray-400" />
+                    : <ChevronDownIcon className="h-4 w-4 text-gray-400" />)}
+            </button>
+
+            {open && (
+                <ul className="mt-3 space-y-2">
+                    {changelog.entries.map(entry => (
+                        <li key={entry.version} className="text-xs text-gray-600">
+                            <p className="font-medium text-gray-700">
+                                {new Date(entry.changedAt).toLocaleDateString()}
+                                {entry.rollback && <span className="ml-1 font-normal text-gray-500">(reverted)</span>}
+                            </p>
+                            {entry.changes.map(change => (
+                                <p key={change.field}>
+                                    {change.label}
+                                    {'to' in change && `: ${formatValue(change.field, change.from)} → ${formatValue(change.field, change.to)}`}
+                                </p>
+                            ))}
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+}
@@ -12,7 +12,8 @@ import {
   TrashIcon
 } from '@heroicons/react/24/outline';
 import { HeartIcon as HeartSolidIcon } from '@heroicons/react/24/solid';
-import { getImageUrl } from '@/utils/imageUrl';
+import { getImageUrl, getImageSrcSet } from '@/utils/imageUrl';
+import { blurhashToDataUrl } from '@/utils/blurhash';
 import Link from 'next/link';
 
 
@@ -169,17 +170,19 @@ export function WardrobeItemCard({
     const noBgImg = item.images.find((img: any) =>
       typeof img === 'object' && (img.type === 'background_removed' || img.imageType === 'background_removed')
     );
-    if (noBgImg) return getImgUrl(noBgImg);
+    if (noBgImg) return noBgImg;
 
     // 2. Fall back to primary image
     const primaryImg = item.images.find((img: any) => img.isPrimary);
-    if (primaryImg) return getImgUrl(primaryImg);
+    if (primaryImg) return primaryImg;
 
     // 3. Fall back to first image
-    return getImgUrl(item.images[0]);
+    return item.images[0];
   };
 
-  const firstImage = getPreferredImage();
+  const preferredImage = getPreferredImage();
+  const firstImage = getImgUrl(preferredImage);
+  const placeholder = typeof preferredImage === 'object' ? blurhashToDataUrl(preferredImage?.blurhash) : '';
   const productUrl = `/wardrobe/${item.vufsCode}`;
 
   const displayColor = typeof item.color === 'string' ? item.color : (item.color as any)?.name || 'Unknown';
@@ -230,12 +233,19 @@ export function WardrobeItemCard({
                 const sep = base.includes('?') ? '&' : '?';
                 return `${base}${sep}t=${refreshKey}`;
               })()}
+              srcSet={refreshKey ? undefined : getImageSrcSet(preferredImage?.srcSet)}
+              sizes="(max-width: 640px) 50vw, (max-width: 1024px) 33vw, 25vw"
+              loading="lazy"
               alt={item.name}
+              style={placeholder ? { backgroundImage: `url(${placeholder})`, backgroundSize: 'cover' } : undefined}
               className={`w-full h-full object-cover transition-all duration-300 ${getImgUrl(item.images?.[1]) ? 'group-hover:opacity-0' : 'group-hover:scale-105'}`}
             />
             {getImgUrl(item.images?.[1]) && (
               <img
                 src={getImageUrl(getImgUrl(item.images?.[1])) || '/api/placeholder/300/400'}
+                srcSet={getImageSrcSet(item.images?.[1]?.srcSet)}
+                sizes="(max-width: 640px) 50vw, (max-width: 1024px) 33vw, 25vw"
+                loading="lazy"
                 alt={`${item.name} - view 2`}
                 className="absolute inset-0 w-full h-full object-cover transition-all duration-300 opacity-0 group-hover:opacity-100"
               />
@@ -3,6 +3,7 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { apiClient } from '@/lib/api';
 import { useAuth } from './AuthWrapper';
+import { useMessagingEvents, MessagingEvent } from '@/hooks/useMessagingEvents';
 
 interface NotificationContextType {
     unreadNotificationCount: number;
@@ -20,6 +21,14 @@ interface NotificationContextType {
 
 const NotificationContext = createContext<NotificationContextType | undefined>(undefined);
 
+/**
+ * Holds the live connection while signed in; the connection only reads the token when it mounts
+ */
+function NotificationStream({ onEvent }: { onEvent: (event: MessagingEvent) => void }) {
+    useMessagingEvents(onEvent);
+    return null;
+}
+
 export function NotificationProvider({ children }: { children: ReactNode }) {
     const { user, isAuthenticated } = useAuth();
     const [unreadNotificationCount, setUnreadNotificationCount] = useState(0);
@@ -99,6 +108,12 @@ export function NotificationProvider({ children }: { children: ReactNode }) {
         return () => clearInterval(interval);
     }, [isAuthenticated]);
 
+    const handleLiveEvent = (event: MessagingEvent) => {
+        if (event.type === 'notification') {
+            setUnreadNotificationCount(count => count + 1);
+        }
+    };
+
     const value: NotificationContextType = {
         unreadNotificationCount,
         unreadMessageCount,
@@ -109,6 +124,7 @@ export function NotificationProvider({ children }: { children: ReactNode }) {
 
     return (
         <NotificationContext.Provider value={value}>
+            {isAuthenticated && <NotificationStream onEvent={handleLiveEvent} />}
             {children}
         </NotificationContext.Provider>
     );
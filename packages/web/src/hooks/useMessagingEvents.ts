@@ -0,0 +1,132 @@
+import { useEffect, useRef, useCallback, useState } from 'react';
+import { apiClient } from '@/lib/api';
+
+export interface MessagingEvent {
+  cursor?: string;
+  type: string;
+  conversationId?: string;
+  actorId: string;
+  payload: any;
+  createdAt: string;
+}
+
+type ConnectionState = 'connecting' | 'open' | 'closed';
+
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+/**
+ * Live messaging events. Tries a WebSocket first and falls back to
+ * Server-Sent Events; reconnects resume from the last cursor seen.
+ */
+export function useMessagingEvents(onEvent: (event: MessagingEvent) => void, onResync?: () => void) {
+  const [state, setState] = useState<ConnectionState>('connecting');
+  const cursorRef = useRef<string | null>(null);
+  const socketRef = useRef<WebSocket | null>(null);
+  const onEventRef = useRef(onEvent);
+  const onResyncRef = useRef(onResync);
+
+  onEventRef.current = onEvent;
+  onResyncRef.current = onResync;
+
+  useEffect(() => {
+    let disposed = false;
+    let attempts = 0;
+    let useEventStream = typeof WebSocket === 'undefined';
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    let eventSource: EventSource | null = null;
+
+    const handleFrame = (frame: any) => {
+      if (frame.type === 'ready') {
+        cursorRef.current = frame.cursor;
+        attempts = 0;
+        setState('open');
+        return;
+      }
+      if (frame.type === 'resync_required') {
+        onResyncRef.current?.();
+        return;
+      }
+      if (frame.type === 'error') {
+        console.error('Messaging stream error:', frame.message);
+        return;
+      }
+      if (frame.cursor) {
+        cursorRef.current = frame.cursor;
+      }
+      onEventRef.current(frame);
+    };
+
+    const scheduleReconnect = () => {
+      if (disposed) return;
+      setState('closed');
+      const delay = Math.min(1000 * 2 ** attempts, MAX_RECONNECT_DELAY_MS);
+      attempts += 1;
+      reconnectTimer = setTimeout(connect, delay);
+    };
+
+    const connect = () => {
+      const endpoints = apiClient.getRealtimeEndpoints(cursorRef.current);
+      if (!endpoints || disposed) return;
+      setState('connecting');
+
+      if (useEventStream) {
+        eventSource = new EventSource(endpoints.eventStream);
+        ['ready', 'resync_required', 'error', 'typing', 'presence', 'notification', 'message.created',
+          'message.updated', 'message.deleted', 'reaction.added', 'reaction.removed', 'conversation.read',
+          'image_job'].forEach(type => {
+          eventSource!.addEventListener(type, (message) => {
+            const data = (message as MessageEvent).data;
+            if (data) handleFrame(JSON.parse(data));
+          });
+        });
+        eventSource.onerror = () => {
+          // Let the browser retry on its own unless the stream was closed for good
+          if (eventSource?.readyState === EventSource.CLOSED) {
+            eventSource = null;
+            scheduleReconnect();
+          }
+        };
+        return;
+      }
+
+      let opened = false;
+      const socket = new WebSocket(endpoints.websocket);
+      socketRef.current = socket;
+      socket.onopen = () => {
+        opened = true;
+      };
+      socket.onmessage = (message) => handleFrame(JSON.parse(message.data));
+      socket.onclose = () => {
+        socketRef.current = null;
+        if (!opened) {
+          // Proxies that block upgrades fail before the socket opens
+          useEventStream = true;
+        }
+        scheduleReconnect();
+      };
+    };
+
+    connect();
+
+    return () => {
+      disposed = true;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      socketRef.current?.close();
+      socketRef.current = null;
+      eventSource?.close();
+    };
+  }, []);
+
+  const sendTyping = useCallback((conversationId: string, isTyping: boolean) => {
+    const socket = socketRef.current;
+    if (socket && socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify({ type: 'typing', conversationId, isTyping }));
+      return;
+    }
+    apiClient.sendTypingIndicator(conversationId, isTyping).catch(() => {
+      // Typing indicators are best effort
+    });
+  }, []);
+
+  return { state, sendTyping };
+}
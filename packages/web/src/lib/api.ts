@@ -22,6 +22,150 @@ interface ApiErrorResponse {
   };
 }
 
+type ImageJobOperation = 'background_removal' | 'aspect_ratio' | 'feathering' | 'heic_conversion' | 'thumbnail';
+
+interface ImageJob {
+  id: string;
+  batchId: string;
+  imageId: string;
+  operation: ImageJobOperation;
+  status: 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+  progress: number;
+  attempts: number;
+  maxAttempts: number;
+  result?: { imageId: string; imageUrl?: string; originalImageId?: string; previousImageUrl?: string; thumbnailUrl?: string };
+  error?: string;
+}
+
+interface ImageJobBatch {
+  message?: string;
+  batch: { id: string; itemId: string; idempotencyKey?: string; createdAt: string };
+  status: 'queued' | 'running' | 'completed';
+  progress: number;
+  counts: Record<ImageJob['status'], number>;
+  jobs: ImageJob[];
+}
+
+type FitVerdict = 'tight' | 'true' | 'loose';
+
+interface SizeFit {
+  size: string;
+  verdict: FitVerdict;
+  score: number;
+  poms: Array<{
+    pomCode: string;
+    pomName?: string;
+    dimension: 'chest' | 'waist' | 'hips' | 'length' | 'inseam' | 'shoulders' | 'sleeve';
+    garment: number;
+    target: number;
+    ease: number;
+    verdict: FitVerdict;
+  }>;
+}
+
+interface FitRecommendation {
+  basis: 'body' | 'reference' | null;
+  referenceItemId?: string;
+  recommendedSize: string | null;
+  verdict: FitVerdict | null;
+  sizes: SizeFit[];
+  missing?: 'body_measurements' | 'garment_measurements';
+  listingSize?: string | null;
+  listingFit?: SizeFit | null;
+}
+
+type SizeStandard = 'BR' | 'US' | 'EU' | 'UK' | 'JP' | 'IT' | 'FR';
+
+interface SizeChartRange {
+  pomId: string;
+  pomCode?: string;
+  pomName?: string;
+  unit?: string;
+  min: number | null;
+  max: number | null;
+}
+
+interface SizeConversionResult {
+  value: string;
+  from?: SizeStandard | null;
+  source?: 'brand_chart' | 'reference';
+  chart?: { id: string; name: string; brandId: string };
+  label?: string;
+  conversions: Partial<Record<SizeStandard, string>>;
+  converted?: string | null;
+  ranges?: SizeChartRange[];
+}
+
+interface BrandSizeChart {
+  id: string;
+  brandId: string;
+  brandName?: string;
+  name: string;
+  category: 'apparel' | 'footwear';
+  gender: 'men' | 'women' | 'unisex';
+  apparelId: string | null;
+  notes: string | null;
+  entries: Array<{
+    id?: string;
+    label: string;
+    sizeId?: string | null;
+    conversions: Partial<Record<SizeStandard, string>>;
+    ranges?: SizeChartRange[];
+  }>;
+}
+
+interface SKUImportRowReport {
+  row: number;
+  code: string | null;
+  parentCode: string | null;
+  kind: 'sku' | 'parent' | 'variant';
+  errors: Array<{ field: string; message: string }>;
+  warnings: Array<{ field: string; message: string }>;
+  skuId?: string;
+}
+
+interface SKUImportReport {
+  dryRun: boolean;
+  format: 'csv' | 'xlsx' | 'json';
+  committed: boolean;
+  totalRows: number;
+  validRows: number;
+  invalidRows: number;
+  parents: number;
+  variants: number;
+  generatedParents: string[];
+  ignoredColumns: string[];
+  rows: SKUImportRowReport[];
+}
+
+interface SKUFieldChange {
+  field: string;
+  from: any;
+  to: any;
+}
+
+interface SKUVersion {
+  id: string;
+  skuId: string;
+  version: number;
+  changeType: 'baseline' | 'update' | 'rollback';
+  changes: SKUFieldChange[];
+  snapshot: Record<string, any>;
+  changedBy: { userId: string; name?: string; username?: string; teamRoles: string[]; teamTitle?: string } | null;
+  rolledBackTo: number | null;
+  createdAt: string;
+}
+
+interface SKUChangelog {
+  lastUpdatedAt: string;
+  entries: Array<{
+    version: number;
+    changedAt: string;
+    rollback: boolean;
+    changes: Array<{ field: string; label: string; from?: any; to?: any }>;
+  }>;
+}
+
 class ApiErrorClass extends Error {
   public code: string;
   public details?: any;
@@ -727,6 +871,78 @@ class ApiClient {
     return (response as any).users || response.data || [];
   }
 
+  /**
+   * Ranked search across items, SKUs, brands, users, posts and events, with facets
+   */
+  async search(params: {
+    q?: string;
+    types?: Array<'item' | 'sku' | 'brand' | 'user' | 'post' | 'event'>;
+    category?: string[];
+    brand?: string[];
+    color?: string[];
+    minPrice?: number;
+    maxPrice?: number;
+    page?: number;
+    limit?: number;
+  }): Promise<{ results: any[]; total: number; page: number; limit: number; facets: any }> {
+    const query = new URLSearchParams();
+    Object.entries(params).forEach(([key, value]) => {
+      if (value === undefined || value === null || value === '') return;
+      query.set(key, Array.isArray(value) ? value.join(',') : String(value));
+    });
+    return this.request<any>(`/search?${query}`) as any;
+  }
+
+  /**
+   * SKUs, listings and wardrobe items that look like a photo
+   */
+  async visualSearch(
+    file: File,
+    params: { types?: Array<'item' | 'sku' | 'listing'>; limit?: number } = {}
+  ): Promise<{ skus: any[]; listings: any[]; items: any[] }> {
+    const formData = new FormData();
+    formData.append('image', file);
+
+    const query = new URLSearchParams();
+    if (params.types?.length) query.set('types', params.types.join(','));
+    if (params.limit) query.set('limit', String(params.limit));
+
+    const headers: HeadersInit = {};
+    if (this.token) {
+      headers.Authorization = `Bearer ${this.token}`;
+    }
+
+    const response = await fetch(`${this.baseURL}/search/visual?${query}`, {
+      method: 'POST',
+      headers,
+      body: formData,
+    });
+
+    const data = await response.json();
+    if (!response.ok) throw new ApiErrorClass(data.error || 'Visual search failed', 'VISUAL_SEARCH_ERROR', data.error);
+    return data;
+  }
+
+  /**
+   * Per-channel notification preferences with quiet hours and digest settings
+   */
+  async getNotificationPreferences(): Promise<{ preferences: Record<string, Record<string, 'instant' | 'digest' | 'off'>>; settings: any }> {
+    return this.request<any>('/notifications/preferences') as any;
+  }
+
+  async updateNotificationPreferences(update: {
+    preferences?: Array<{ eventType: string; channel: 'in_app' | 'email' | 'push'; mode: 'instant' | 'digest' | 'off' }>;
+    quietHoursStart?: string | null;
+    quietHoursEnd?: string | null;
+    timezone?: string;
+    digestHour?: number;
+  }): Promise<{ preferences: Record<string, Record<string, 'instant' | 'digest' | 'off'>>; settings: any }> {
+    return this.request<any>('/notifications/preferences', {
+      method: 'PUT',
+      body: JSON.stringify(update),
+    }) as any;
+  }
+
   async getUsers(): Promise<any[]> {
     const response = await this.request<any>('/admin/users');
     return (response as any).users || response.data || response;
@@ -835,6 +1051,21 @@ class ApiClient {
     return data; // Backend returns { success: true, data: { url: ... }, url: ... }
   }
 
+  /**
+   * Signed resize URLs for stored images such as mockups and design-file previews.
+   * Without width/height each entry also carries responsive `srcSet` candidates.
+   */
+  async signImageTransforms(
+    images: string[],
+    options: { width?: number; height?: number; fit?: 'cover' | 'contain' | 'inside' | 'outside' | 'fill'; format?: 'auto' | 'webp' | 'avif' | 'jpeg' | 'png'; quality?: number } = {}
+  ): Promise<Array<{ image: string; url: string | null; srcSet?: Array<{ width: number; url: string }> }>> {
+    const response = await this.request<any>('/storage/transform/sign', {
+      method: 'POST',
+      body: JSON.stringify({ images, ...options }),
+    });
+    return (response as any).urls;
+  }
+
   async adminGetUserFollows(userId: string): Promise<{ followers: any[], following: any[] }> {
     const response = await this.request<any>(`/admin/users/${userId}/follows`);
     return response.data;
@@ -853,22 +1084,65 @@ class ApiClient {
     });
   }
 
-  async removeBackground(itemId: string, imageId: string, options?: { model?: 'small' | 'medium', quality?: number }): Promise<{ image: any }> {
-    const response = await this.request<any>(`/wardrobe/items/${itemId}/images/${imageId}/remove-background`, {
+  async removeBackground(
+    itemId: string,
+    imageId: string,
+    options?: { quality?: 'fast' | 'medium' | 'high'; featherRadius?: number; outputRatio?: string }
+  ): Promise<ImageJobBatch> {
+    const response = await this.request<ImageJobBatch>(`/wardrobe/items/${itemId}/images/${imageId}/remove-background`, {
       method: 'POST',
       body: JSON.stringify({ options }),
     });
     return response as any;
   }
 
-  async batchRemoveBackground(itemId: string, imageIds: string[], options?: { model?: 'small' | 'medium', quality?: number }): Promise<any> {
-    const response = await this.request<any>(`/wardrobe/items/${itemId}/images/batch-remove-background`, {
+
+  async batchRemoveBackground(
+    itemId: string,
+    imageIds: string[],
+    options?: { quality?: 'fast' | 'medium' | 'high'; featherRadius?: number; outputRatio?: string },
+    idempotencyKey?: string
+  ): Promise<ImageJobBatch> {
+    const response = await this.request<ImageJobBatch>(`/wardrobe/items/${itemId}/images/batch-remove-background`, {
       method: 'POST',
+      headers: idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : undefined,
       body: JSON.stringify({ imageIds, options }),
     });
     return response as any;
   }
 
+  async createImageJobs(
+    itemId: string,
+    jobs: Array<{ imageId: string; operation: ImageJobOperation; options?: Record<string, any> }>,
+    idempotencyKey?: string
+  ): Promise<ImageJobBatch> {
+    const response = await this.request<ImageJobBatch>(`/wardrobe/items/${itemId}/images/jobs`, {
+      method: 'POST',
+      headers: idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : undefined,
+      body: JSON.stringify({ jobs }),
+    });
+    return response as any;
+  }
+
+  async getImageJobBatch(batchId: string): Promise<ImageJobBatch> {
+    const response = await this.request<ImageJobBatch>(`/wardrobe/image-jobs/batches/${batchId}`);
+    return response as any;
+  }
+
+  async cancelImageJobBatch(batchId: string): Promise<ImageJobBatch & { cancelled: number }> {
+    const response = await this.request<ImageJobBatch & { cancelled: number }>(`/wardrobe/image-jobs/batches/${batchId}/cancel`, {
+      method: 'POST',
+    });
+    return response as any;
+  }
+
+  async retryImageJob(jobId: string): Promise<{ job: ImageJob }> {
+    const response = await this.request<{ job: ImageJob }>(`/wardrobe/image-jobs/${jobId}/retry`, {
+      method: 'POST',
+    });
+    return response as any;
+  }
+
   async saveProcessedImage(itemId: string, originalImageId: string, imageBlob: Blob): Promise<any> {
     const formData = new FormData();
     formData.append('images', imageBlob, 'manual_mask.png');
@@ -1111,6 +1385,59 @@ class ApiClient {
     }
   }
 
+  async getWearAnalytics(dormantDays = 90): Promise<any> {
+    const response = await this.request<any>(`/tracking/usage/analytics?dormantDays=${dormantDays}`);
+    return (response as any).analytics;
+  }
+
+  // Loan methods
+  async getLoans(params: { status?: 'active' | 'overdue'; role?: 'borrower' } = {}): Promise<any[]> {
+    const query = new URLSearchParams(params as Record<string, string>).toString();
+    const response = await this.request<any>(`/tracking/loans${query ? `?${query}` : ''}`);
+    return (response as any).loans || [];
+  }
+
+  async getLoan(loanId: string): Promise<{ loan: any; conditionChecks: any[] }> {
+    return this.request<any>(`/tracking/loans/${loanId}`) as any;
+  }
+
+  async createLoan(data: {
+    itemId: string;
+    loaneeId?: string;
+    loaneeName?: string;
+    expectedReturnDate?: string;
+    notes?: string;
+    checkOut?: { conditionId?: string; photos?: string[]; notes?: string };
+  }): Promise<any> {
+    return this.request<any>('/tracking/loans', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async returnLoan(loanId: string, data: {
+    returnDate?: string;
+    notes?: string;
+    checkIn: { conditionId: string; photos?: string[]; notes?: string };
+  }): Promise<any> {
+    return this.request<any>(`/tracking/loans/${loanId}/return`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async respondToLoan(loanId: string, accept: boolean): Promise<any> {
+    return this.request<any>(`/tracking/loans/${loanId}/respond`, {
+      method: 'POST',
+      body: JSON.stringify({ accept }),
+    });
+  }
+
+  async getItemConditionHistory(itemId: string): Promise<any[]> {
+    const response = await this.request<any>(`/tracking/items/${itemId}/condition-history`);
+    return (response as any).history || [];
+  }
+
   async getWardrobeItems(filters: any = {}): Promise<{ items: any[]; total: number; page: number; totalPages: number }> {
     const queryParams = new URLSearchParams();
     Object.entries(filters).forEach(([key, value]) => {
@@ -1217,6 +1544,62 @@ class ApiClient {
     return response.data;
   }
 
+  async getWardrobeItemSkuMatches(itemId: string): Promise<{
+    linkedSkuId: string | null;
+    matches: Array<{
+      skuId: string;
+      name: string;
+      code: string;
+      brand?: string;
+      imageUrl?: string;
+      releaseDate?: string | null;
+      score: number;
+      confidence: 'high' | 'medium' | 'low';
+      reasons: Array<'style_code' | 'brand' | 'piece_type' | 'colorway' | 'image'>;
+    }>;
+  }> {
+    return this.request<any>(`/wardrobe/items/${itemId}/sku-matches`) as any;
+  }
+
+  async confirmWardrobeItemSkuMatch(itemId: string, skuId: string): Promise<any> {
+    const response = await this.request<any>(`/wardrobe/items/${itemId}/sku-match`, {
+      method: 'POST',
+      body: JSON.stringify({ skuId }),
+    });
+    return (response as any).item;
+  }
+
+  async scanWardrobeItemCareLabel(
+    itemId: string,
+    label: { image?: File; text?: string[]; symbols?: string[] }
+  ): Promise<{ careLabel: any; item: any }> {
+    const formData = new FormData();
+    if (label.image) {
+      formData.append('images', label.image);
+    }
+    (label.text || []).forEach(line => formData.append('text', line));
+    (label.symbols || []).forEach(symbol => formData.append('symbols', symbol));
+
+    const headers: HeadersInit = {};
+    if (this.token) {
+      headers.Authorization = `Bearer ${this.token}`;
+    }
+
+    const response = await fetch(`${this.baseURL}/wardrobe/items/${itemId}/care-label`, {
+      method: 'POST',
+      headers,
+      body: formData,
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new ApiErrorClass(data.error?.message || 'Care label scan failed');
+    }
+
+    return data;
+  }
+
   async deleteWardrobeItem(itemId: string): Promise<void> {
     await this.request(`/wardrobe/items/${itemId}`, {
       method: 'DELETE',
@@ -1558,6 +1941,36 @@ class ApiClient {
   }
   async deleteSize(id: string) { return this.request(`/sizes/${id}`, { method: 'DELETE' }); }
 
+  // --- SIZE CONVERSION & BRAND SIZE CHARTS ---
+  async convertSizes(
+    values: string[],
+    options: { from?: SizeStandard; to?: SizeStandard; category?: 'apparel' | 'footwear'; gender?: 'men' | 'women' | 'unisex'; brandId?: string; skuId?: string } = {}
+  ): Promise<SizeConversionResult[]> {
+    const params = new URLSearchParams({ values: values.join(',') });
+    Object.entries(options).forEach(([key, value]) => {
+      if (value) params.append(key, value);
+    });
+    const response = await this.request<any>(`/sizes/convert?${params.toString()}`);
+    return (response as any).results || [];
+  }
+  async getBrandSizeCharts(filters: { brandId?: string; category?: string; gender?: string } = {}): Promise<BrandSizeChart[]> {
+    const params = new URLSearchParams();
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value) params.append(key, value);
+    });
+    const response = await this.request<any>(`/sizes/charts?${params.toString()}`);
+    return (response as any).charts || [];
+  }
+  async createBrandSizeChart(data: Omit<BrandSizeChart, 'id' | 'brandName' | 'apparelId' | 'notes'> & { apparelId?: string | null; notes?: string | null }): Promise<BrandSizeChart> {
+    const response = await this.request<any>('/sizes/charts', { method: 'POST', body: JSON.stringify(data) });
+    return (response as any).chart;
+  }
+  async updateBrandSizeChart(id: string, data: Partial<Omit<BrandSizeChart, 'id' | 'brandName'>>): Promise<BrandSizeChart> {
+    const response = await this.request<any>(`/sizes/charts/${id}`, { method: 'PUT', body: JSON.stringify(data) });
+    return (response as any).chart;
+  }
+  async deleteBrandSizeChart(id: string) { return this.request(`/sizes/charts/${id}`, { method: 'DELETE' }); }
+
   // --- SKU Global Management ---
   async getAllSKUs(params: { page?: number; limit?: number; search?: string; brandId?: string } = {}) {
     const query = new URLSearchParams();
@@ -1704,6 +2117,44 @@ class ApiClient {
     return (response as any).data || response;
   }
 
+  /**
+   * Bulk import a CSV, XLSX or JSON catalog. The report is returned for dry
+   * runs and for rejected imports alike; `committed` tells them apart.
+   */
+  async importSKUs(brandId: string, file: File, dryRun: boolean): Promise<{ report: SKUImportReport; error?: string }> {
+    const formData = new FormData();
+    formData.append('file', file);
+
+    const headers: HeadersInit = {};
+    if (this.token) {
+      headers.Authorization = `Bearer ${this.token}`;
+    }
+
+    const response = await fetch(`${this.baseURL}/skus/brands/${brandId}/skus/import?dryRun=${dryRun}`, {
+      method: 'POST',
+      headers,
+      body: formData,
+    });
+
+    const data = await response.json();
+    if (!response.ok && !data.report) throw new ApiErrorClass(data.error || 'SKU import failed', 'SKU_IMPORT_ERROR', data.error, response.status);
+    return data;
+  }
+
+  async exportSKUs(brandId: string, format: 'csv' | 'xlsx' | 'json' = 'csv'): Promise<Blob> {
+    const headers: HeadersInit = {};
+    if (this.token) {
+      headers.Authorization = `Bearer ${this.token}`;
+    }
+
+    const response = await fetch(`${this.baseURL}/skus/brands/${brandId}/skus/export?format=${format}`, { headers });
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new ApiErrorClass(data.error || 'SKU export failed', 'SKU_EXPORT_ERROR', data.error, response.status);
+    }
+    return response.blob();
+  }
+
   async searchSKUs(term: string, brandId?: string) {
     const params = new URLSearchParams();
     if (term) params.append('term', term);
@@ -1728,6 +2179,27 @@ class ApiClient {
     return (response as any).data || response;
   }
 
+  async getSKUVersions(id: string, params: { limit?: number; offset?: number } = {}): Promise<{ versions: SKUVersion[]; total: number }> {
+    const query = new URLSearchParams();
+    if (params.limit) query.append('limit', params.limit.toString());
+    if (params.offset) query.append('offset', params.offset.toString());
+    return this.request<any>(`/skus/${id}/versions?${query.toString()}`) as any;
+  }
+
+  async getSKUVersion(id: string, version: number): Promise<SKUVersion> {
+    const response = await this.request<any>(`/skus/${id}/versions/${version}`);
+    return (response as any).version;
+  }
+
+  async rollbackSKU(id: string, version: number) {
+    const response = await this.request<any>(`/skus/${id}/versions/${version}/rollback`, { method: 'POST' });
+    return (response as any).sku;
+  }
+
+  async getSKUChangelog(id: string): Promise<SKUChangelog> {
+    return this.request<any>(`/skus/${id}/changelog`) as any;
+  }
+
   async deleteSKU(id: string) {
     const response = await this.request<any>(`/skus/${id}`, {
       method: 'DELETE'
@@ -2088,6 +2560,36 @@ class ApiClient {
     });
   }
 
+  /**
+   * Tell the other participants the user is (or stopped) typing
+   */
+  async sendTypingIndicator(conversationId: string, isTyping: boolean): Promise<void> {
+    await this.request(`/messages/conversations/${conversationId}/typing`, {
+      method: 'POST',
+      body: JSON.stringify({ isTyping }),
+    });
+  }
+
+  /**
+   * URLs for the live messaging gateway (WebSocket first, SSE as fallback).
+   * The token goes in the query string because neither transport can set headers from the browser.
+   */
+  getRealtimeEndpoints(cursor?: string | null): { websocket: string; eventStream: string } | null {
+    this.loadToken();
+    if (!this.token) return null;
+
+    const params = new URLSearchParams({ access_token: this.token });
+    if (cursor) params.set('cursor', cursor);
+
+    const base = this.baseURL.startsWith('http')
+      ? this.baseURL
+      : `${window.location.origin}${this.baseURL}`;
+    return {
+      websocket: `${base.replace(/^http/, 'ws')}/messages/realtime?${params}`,
+      eventStream: `${base}/messages/stream?${params}`,
+    };
+  }
+
   /**
    * Get unread message count
    */
@@ -2282,6 +2784,12 @@ class ApiClient {
     });
   }
 
+  async getSKUFit(skuId: string, referenceItemId?: string): Promise<FitRecommendation> {
+    const query = referenceItemId ? `?referenceItemId=${encodeURIComponent(referenceItemId)}` : '';
+    const response = await this.request<any>(`/skus/${skuId}/fit${query}`);
+    return (response as any).fit;
+  }
+
   async getSKUMeasurements(skuId: string) {
     const response = await this.request<any>(`/pom/sku/${skuId}`);
     return (response as any).measurements || response;
@@ -2347,6 +2855,21 @@ class ApiClient {
     });
   }
 
+  async generateOutfits(constraints: {
+    occasion?: 'casual' | 'work' | 'formal' | 'sport' | 'night_out';
+    temperature?: { min: number; max: number };
+    includeItemIds?: string[];
+    excludeItemIds?: string[];
+    notWornInDays?: number;
+    count?: number;
+  } = {}): Promise<any[]> {
+    const response = await this.request<any>('/outfits/generate', {
+      method: 'POST',
+      body: JSON.stringify(constraints),
+    });
+    return (response as any).suggestions || [];
+  }
+
   async getOutfits(): Promise<any[]> {
     return this.request<any>('/outfits').then(res => (res as any).data || res);
   }
@@ -2391,6 +2914,49 @@ class ApiClient {
     await this.request(`/outfits/${id}/permanent`, { method: 'DELETE' });
   }
 
+  // Outfit calendar methods
+  async getOutfitCalendar(from: string, to: string): Promise<any[]> {
+    return this.request<any>(`/outfits/calendar?from=${from}&to=${to}`).then(res => res as unknown as any[]);
+  }
+
+  async scheduleOutfit(data: {
+    outfitId: string;
+    plannedDate: string;
+    calendarEventId?: string;
+    homiesListId?: string;
+    people?: string[];
+    notes?: string;
+  }, repeatWindowDays?: number): Promise<{ entry: any; warnings: any[] }> {
+    const query = repeatWindowDays !== undefined ? `?repeatWindowDays=${repeatWindowDays}` : '';
+    return this.request<any>(`/outfits/calendar${query}`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    }) as any;
+  }
+
+  async updateOutfitCalendarEntry(entryId: string, data: {
+    outfitId?: string;
+    plannedDate?: string;
+    calendarEventId?: string | null;
+    homiesListId?: string | null;
+    people?: string[];
+    notes?: string;
+  }, repeatWindowDays?: number): Promise<{ entry: any; warnings: any[] }> {
+    const query = repeatWindowDays !== undefined ? `?repeatWindowDays=${repeatWindowDays}` : '';
+    return this.request<any>(`/outfits/calendar/${entryId}${query}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    }) as any;
+  }
+
+  async deleteOutfitCalendarEntry(entryId: string): Promise<void> {
+    await this.request(`/outfits/calendar/${entryId}`, { method: 'DELETE' });
+  }
+
+  async markOutfitWorn(entryId: string): Promise<{ entry: any; itemsLogged: number }> {
+    return this.request<any>(`/outfits/calendar/${entryId}/worn`, { method: 'POST' }) as any;
+  }
+
   // Homies methods
   async getMyHomiesLists(): Promise<any[]> {
     return this.request<any[]>('/homies/my').then(res => (res as any).data || res);
@@ -2550,6 +3116,8 @@ class ApiClient {
       phone?: string;
     };
     paymentMethod?: string;
+    paymentDetails?: Record<string, any>;
+    notes?: string;
   }): Promise<any> {
     const response = await this.request<any>(`/marketplace/${listingId}/purchase`, {
       method: 'POST',
@@ -2561,6 +3129,8 @@ class ApiClient {
   async makeMarketplaceOffer(listingId: string, offerData: {
     amount: number;
     message?: string;
+    shippingAddress: any;
+    paymentMethod?: string;
   }): Promise<any> {
     const response = await this.request<any>(`/marketplace/${listingId}/offer`, {
       method: 'POST',
@@ -2568,6 +3138,105 @@ class ApiClient {
     });
     return response.data;
   }
+
+  async getListingFit(listingId: string, referenceItemId?: string): Promise<FitRecommendation> {
+    const query = referenceItemId ? `?referenceItemId=${encodeURIComponent(referenceItemId)}` : '';
+    const response = await this.request<any>(`/marketplace/${listingId}/fit${query}`);
+    return response.data;
+  }
+
+  async getListingOffers(listingId: string): Promise<any[]> {
+    const response = await this.request<any>(`/marketplace/${listingId}/offers`);
+    return response.data;
+  }
+
+  async getMyMarketplaceOffers(role: 'buyer' | 'seller' = 'buyer', status?: string): Promise<any[]> {
+    const params = new URLSearchParams({ role });
+    if (status) params.append('status', status);
+    const response = await this.request<any>(`/marketplace/offers/mine?${params.toString()}`);
+    return response.data;
+  }
+
+  async getMarketplaceOffer(offerId: string): Promise<any> {
+    const response = await this.request<any>(`/marketplace/offers/${offerId}`);
+    return response.data;
+  }
+
+  async counterMarketplaceOffer(offerId: string, amount: number, message?: string): Promise<any> {
+    const response = await this.request<any>(`/marketplace/offers/${offerId}/counter`, {
+      method: 'POST',
+      body: JSON.stringify({ amount, message }),
+    });
+    return response.data;
+  }
+
+  async acceptMarketplaceOffer(offerId: string): Promise<any> {
+    const response = await this.request<any>(`/marketplace/offers/${offerId}/accept`, {
+      method: 'POST',
+    });
+    return response.data;
+  }
+
+  async declineMarketplaceOffer(offerId: string, message?: string): Promise<any> {
+    const response = await this.request<any>(`/marketplace/offers/${offerId}/decline`, {
+      method: 'POST',
+      body: JSON.stringify({ message }),
+    });
+    return response.data;
+  }
+
+  async payMarketplaceOffer(offerId: string, paymentDetails?: any): Promise<any> {
+    const response = await this.request<any>(`/marketplace/offers/${offerId}/pay`, {
+      method: 'POST',
+      body: JSON.stringify({ paymentDetails }),
+    });
+    return response.data;
+  }
+
+  async getSavedSearches(): Promise<any[]> {
+    const response = await this.request<any>('/marketplace/saved-searches');
+    return response.data;
+  }
+
+  async createSavedSearch(data: {
+    name: string;
+    filters: any;
+    alertsEnabled?: boolean;
+    emailAlerts?: boolean;
+  }): Promise<any> {
+    const response = await this.request<any>('/marketplace/saved-searches', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+    return response.data;
+  }
+
+  async updateSavedSearch(id: string, data: {
+    name?: string;
+    filters?: any;
+    alertsEnabled?: boolean;
+    emailAlerts?: boolean;
+  }): Promise<any> {
+    const response = await this.request<any>(`/marketplace/saved-searches/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+    return response.data;
+  }
+
+  async deleteSavedSearch(id: string): Promise<void> {
+    await this.request<any>(`/marketplace/saved-searches/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async runSavedSearch(id: string, params?: { limit?: number; offset?: number }): Promise<any> {
+    const query = new URLSearchParams();
+    if (params?.limit) query.append('limit', params.limit.toString());
+    if (params?.offset) query.append('offset', params.offset.toString());
+    const response = await this.request<any>(`/marketplace/saved-searches/${id}/results?${query.toString()}`);
+    return response;
+  }
 }
 
 // Export singleton instance
@@ -2578,7 +3247,7 @@ export { ApiClient };
 export { ApiErrorClass as ApiError };
 
 // Export types
-export type { ApiResponse, ApiErrorResponse };
+export type { ApiResponse, ApiErrorResponse, ImageJob, ImageJobBatch, FitVerdict, SizeFit, FitRecommendation, SizeStandard, SizeConversionResult, BrandSizeChart, SKUImportRowReport, SKUImportReport, SKUFieldChange, SKUVersion, SKUChangelog };
 
 // Error handling utilities
 export const handleApiError = (error: unknown): string => {
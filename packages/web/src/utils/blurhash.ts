@@ -0,0 +1,116 @@
+/**
+ * BlurHash decoder for the placeholders the API sends with item images
+ * (see https://blurha.sh)
+ */
+
+const BASE83_DIGITS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz#$%*+,-.:;=?@[]^_{|}~';
+
+function decode83(value: string): number {
+  let result = 0;
+  for (const char of value) {
+    const digit = BASE83_DIGITS.indexOf(char);
+    if (digit === -1) throw new Error(`Invalid blurhash character: ${char}`);
+    result = result * 83 + digit;
+  }
+  return result;
+}
+
+function sRGBToLinear(value: number): number {
+  const v = value / 255;
+  return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+}
+
+function linearTosRGB(value: number): number {
+  const v = Math.max(0, Math.min(1, value));
+  return v <= 0.0031308
+    ? Math.trunc(v * 12.92 * 255 + 0.5)
+    : Math.trunc((1.055 * Math.pow(v, 1 / 2.4) - 0.055) * 255 + 0.5);
+}
+
+function signPow(value: number, exponent: number): number {
+  return Math.sign(value) * Math.pow(Math.abs(value), exponent);
+}
+
+/**
+ * Decode a blurhash into RGBA pixels
+ */
+export function decodeBlurhash(hash: string, width: number, height: number, punch: number = 1): Uint8ClampedArray {
+  const sizeFlag = decode83(hash[0]);
+  const componentsY = Math.floor(sizeFlag / 9) + 1;
+  const componentsX = (sizeFlag % 9) + 1;
+  if (hash.length !== 4 + 2 * componentsX * componentsY) {
+    throw new Error('Invalid blurhash length');
+  }
+
+  const maximumValue = (decode83(hash[1]) + 1) / 166;
+  const colors: number[][] = [];
+  for (let i = 0; i < componentsX * componentsY; i++) {
+    if (i === 0) {
+      const value = decode83(hash.substring(2, 6));
+      colors.push([sRGBToLinear(value >> 16), sRGBToLinear((value >> 8) & 255), sRGBToLinear(value & 255)]);
+    } else {
+      const value = decode83(hash.substring(4 + i * 2, 6 + i * 2));
+      colors.push([
+        signPow((Math.floor(value / (19 * 19)) - 9) / 9, 2) * maximumValue * punch,
+        signPow(((Math.floor(value / 19) % 19) - 9) / 9, 2) * maximumValue * punch,
+        signPow(((value % 19) - 9) / 9, 2) * maximumValue * punch,
+      ]);
+    }
+  }
+
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      for (let j = 0; j < componentsY; j++) {
+        for (let i = 0; i < componentsX; i++) {
+          const basis = Math.cos((Math.PI * x * i) / width) * Math.cos((Math.PI * y * j) / height);
+          const color = colors[i + j * componentsX];
+          r += color[0] * basis;
+          g += color[1] * basis;
+          b += color[2] * basis;
+        }
+      }
+      const offset = 4 * (x + y * width);
+      pixels[offset] = linearTosRGB(r);
+      pixels[offset + 1] = linearTosRGB(g);
+      pixels[offset + 2] = linearTosRGB(b);
+      pixels[offset + 3] = 255;
+    }
+  }
+
+  return pixels;
+}
+
+const dataUrlCache = new Map<string, string>();
+
+/**
+ * Small PNG data URL for a blurhash, meant for a stretched CSS background.
+ * Returns an empty string during server rendering or for malformed hashes.
+ */
+export function blurhashToDataUrl(hash: string | undefined | null, width: number = 32, height: number = 32): string {
+  if (!hash || typeof document === 'undefined') return '';
+
+  const cached = dataUrlCache.get(hash);
+  if (cached) return cached;
+
+  try {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d');
+    if (!context) return '';
+
+    const imageData = context.createImageData(width, height);
+    imageData.data.set(decodeBlurhash(hash, width, height));
+    context.putImageData(imageData, 0, 0);
+
+    const url = canvas.toDataURL();
+    dataUrlCache.set(hash, url);
+    return url;
+  } catch {
+    return '';
+  }
+}
@@ -92,3 +92,13 @@ export function getImageUrls(images: Array<{ url: string;[key: string]: any }> |
     url: getImageUrl(img.url)
   }));
 }
+
+/**
+ * Builds a `srcset` attribute from the signed resize candidates the API
+ * returns with item images (`[{ width, url }]`)
+ */
+export function getImageSrcSet(candidates: Array<{ width: number; url: string }> | undefined | null): string | undefined {
+  if (!candidates || candidates.length === 0) return undefined;
+
+  return candidates.map(candidate => `${getImageUrl(candidate.url)} ${candidate.width}w`).join(', ');
+}